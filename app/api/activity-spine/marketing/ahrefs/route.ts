@@ -2,13 +2,9 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('activity-spine/marketing/ahrefs');
 
 // ============================================================================
 // D-12: governance filters — identical to /api/proxy/seo/competitor-gaps (the
@@ -61,7 +57,7 @@ async function getKeywordGap(competitor?: string | null) {
   }
   const governance = buildGovernanceClauses(params);
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     WITH gaps AS (
       SELECT
         keyword,
@@ -131,7 +127,7 @@ async function getDistinctCompetitors() {
     params.push(`%${domain}%`);
     competitorClauses.push(`competitor_url ILIKE $${params.length}`);
   }
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT DISTINCT
       regexp_replace(
         regexp_replace(competitor_url, '^https?://', ''),
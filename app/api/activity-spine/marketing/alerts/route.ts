@@ -0,0 +1,107 @@
+/**
+ * Marketing Alerts API Route
+ *
+ * GET /api/activity-spine/marketing/alerts
+ *
+ * Returns the alert rules (lib/marketing-alerts.ts) with their recent firing
+ * counts, and the alert history recorded by the marketing-alerts cron in
+ * analytics.marketing_alert_events.
+ *
+ * Accepts query params:
+ *   rule=ID    — restrict history to one rule
+ *   limit=N    — history rows to return (default 100, max 500)
+ *
+ * GOVERNANCE: Read-only. analytics.marketing_alert_events is written only by
+ * /api/cron/marketing-alerts.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { MARKETING_ALERT_RULES } from '../../../../../lib/marketing-alerts';
+import { getDb } from '../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/alerts');
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const rule = sp.get('rule');
+    const rawLimit = Number(sp.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isFinite(rawLimit) ? Math.min(Math.max(1, Math.floor(rawLimit)), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const params: unknown[] = [];
+    let where = '';
+    if (rule) {
+      params.push(rule);
+      where = 'WHERE rule_id = $1';
+    }
+
+    const [statsResult, eventsResult] = await Promise.all([
+      db.query(
+        `SELECT rule_id,
+                MAX(fired_at) AS last_fired_at,
+                COUNT(*) FILTER (WHERE fired_at >= NOW() - INTERVAL '30 days') AS fired_30d
+         FROM analytics.marketing_alert_events
+         GROUP BY rule_id`,
+      ),
+      db.query(
+        `SELECT id, rule_id, rule_name, metric, severity, observed, threshold, message,
+                to_char(window_start, 'YYYY-MM-DD') AS window_start,
+                to_char(window_end, 'YYYY-MM-DD') AS window_end,
+                delivery_status, delivered_channels, delivery_errors, fired_at
+         FROM analytics.marketing_alert_events
+         ${where}
+         ORDER BY fired_at DESC
+         LIMIT ${limit}`,
+        params,
+      ),
+    ]);
+
+    const stats = new Map(statsResult.rows.map((r) => [r.rule_id as string, r]));
+    const rules = MARKETING_ALERT_RULES.map((r) => {
+      const s = stats.get(r.id);
+      return {
+        id: r.id,
+        name: r.name,
+        metric: r.metric,
+        condition: r.condition,
+        operator: r.operator,
+        threshold: r.threshold,
+        window_days: r.windowDays,
+        severity: r.severity,
+        channels: r.channels,
+        cooldown_hours: r.cooldownHours,
+        last_fired_at: s?.last_fired_at ? new Date(s.last_fired_at).toISOString() : null,
+        fired_30d: Number(s?.fired_30d ?? 0),
+      };
+    });
+
+    const events = eventsResult.rows.map((r) => ({
+      id: String(r.id),
+      rule_id: r.rule_id,
+      rule_name: r.rule_name,
+      metric: r.metric,
+      severity: r.severity,
+      observed: r.observed != null ? Number(r.observed) : null,
+      threshold: Number(r.threshold),
+      message: r.message,
+      window_start: r.window_start,
+      window_end: r.window_end,
+      delivery_status: r.delivery_status,
+      delivered_channels: r.delivered_channels ?? [],
+      delivery_errors: r.delivery_errors ?? null,
+      fired_at: new Date(r.fired_at).toISOString(),
+    }));
+
+    return NextResponse.json({ data: { rules, events }, meta: { rule, limit } });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/alerts] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Marketing Anomalies API Route
+ *
+ * GET /api/activity-spine/marketing/anomalies
+ *
+ * Returns the seasonal expected band for every overview and Google Ads
+ * series plus each anomalous day (spike or drop) with its driving channel,
+ * landing page or campaign. See lib/marketing-anomalies.ts for the method.
+ *
+ * Accepts query params:
+ *   start=YYYY-MM-DD&end=YYYY-MM-DD — window to scan (default: last 30 days
+ *                                     ending today, max 366 days)
+ *
+ * GOVERNANCE: Read-only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { detectMarketingAnomalies } from '../../../../../services/marketingAnomalies';
+import { getDb } from '../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/anomalies');
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 86400000;
+const DEFAULT_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  let start = sp.get('start');
+  let end = sp.get('end');
+
+  if (start == null && end == null) {
+    const today = new Date();
+    end = today.toISOString().slice(0, 10);
+    start = new Date(today.getTime() - (DEFAULT_DAYS - 1) * MS_PER_DAY).toISOString().slice(0, 10);
+  }
+  if (!start || !end) {
+    return NextResponse.json({ error: 'Both start and end are required for explicit date range.' }, { status: 400 });
+  }
+  if (!ISO_DATE_RE.test(start) || !ISO_DATE_RE.test(end)) {
+    return NextResponse.json({ error: 'Dates must be in YYYY-MM-DD format.' }, { status: 400 });
+  }
+  if (start > end) {
+    return NextResponse.json({ error: 'start must not be after end.' }, { status: 400 });
+  }
+  if ((new Date(end).getTime() - new Date(start).getTime()) / MS_PER_DAY > MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `Date range exceeds maximum of ${MAX_RANGE_DAYS} days.` }, { status: 400 });
+  }
+
+  try {
+    const t0 = Date.now();
+    const data = await detectMarketingAnomalies(db, { startDate: start, endDate: end });
+    return NextResponse.json({
+      data,
+      meta: { query_execution_ms: Date.now() - t0, anomaly_count: data.anomalies.length },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/anomalies] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -291,4 +291,62 @@ describe('GET /api/activity-spine/marketing/attribution', () => {
       expect(JSON.stringify(body)).not.toMatch(/connection refused/i);
     });
   });
+
+  describe('view=multi-touch', () => {
+    it('200 with every model, journey touches and deal fallback reconciled', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          {
+            convex_quote_id: 'q1',
+            total_price_cents: '90000',
+            paid_at: '2026-04-10T12:00:00Z',
+            utm_source: 'google', utm_medium: 'cpc', gclid: null, gbraid: null, wbraid: null, referrer: null,
+            converted_at: '2026-04-05T12:00:00Z',
+            touchpoints: [
+              { at: '2026-04-01T12:00:00Z', referrer: 'https://www.google.com/' },
+              { at: '2026-04-05T11:00:00Z', page_url: 'https://neonsignsdepot.com/?gclid=abc' },
+            ],
+          },
+          {
+            convex_quote_id: 'q2',
+            total_price_cents: '10000',
+            paid_at: '2026-04-12T12:00:00Z',
+            utm_source: 'newsletter', utm_medium: 'email', gclid: null, gbraid: null, wbraid: null, referrer: null,
+            converted_at: null,
+            touchpoints: null,
+          },
+        ],
+      });
+
+      const res = await GET(req('/o?view=multi-touch&start_date=2026-04-01&end_date=2026-04-30&lookback_days=30'));
+      expect(res.status).toBe(200);
+      const body = await res.json();
+      expect(body.meta).toMatchObject({
+        view: 'multi-touch', window_start: '2026-04-01', window_end: '2026-04-30', lookback_days: 30,
+      });
+      expect(mockQuery.mock.calls[0]?.[1]).toEqual(['2026-04-01', '2026-04-30', 30]);
+
+      expect(body.data.coverage).toEqual({
+        paid_quotes: 2, paid_revenue_cents: 100000, quotes_with_journey: 1, quotes_deal_fallback: 1, avg_touchpoints: 2,
+      });
+      expect(body.data.models.first_touch.map((r: { channel: string }) => r.channel)).toEqual(['organic', 'email']);
+      expect(body.data.models.last_touch[0]).toMatchObject({ channel: 'google_ads', paid_revenue_usd: 900 });
+      for (const model of ['first_touch', 'last_touch', 'linear', 'time_decay', 'position_based']) {
+        const total = body.data.models[model].reduce((s: number, r: { paid_revenue_cents: number }) => s + r.paid_revenue_cents, 0);
+        expect(total).toBe(100000);
+      }
+    });
+
+    it('400 on out-of-range lookback_days (no DB call)', async () => {
+      const res = await GET(req('/o?view=multi-touch&lookback_days=400'));
+      expect(res.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    it('400 on bad end_date format (no DB call)', async () => {
+      const res = await GET(req('/o?view=multi-touch&start_date=2026-04-01&end_date=April'));
+      expect(res.status).toBe(400);
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
 });
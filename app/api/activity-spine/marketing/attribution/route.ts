@@ -2,20 +2,19 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
+import { getMultiTouchAttribution } from '../../../../../services/multiTouchAttribution';
+import { DEFAULT_LOOKBACK_DAYS, MAX_LOOKBACK_DAYS } from '../../../../../lib/attribution-models';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('activity-spine/marketing/attribution');
 
 type View =
   | 'source-funnel'
   | 'channel-revenue'
   | 'google-ads-performance'
   | 'google-ads-quality'
-  | 'review-snapshot';
+  | 'review-snapshot'
+  | 'multi-touch';
 
 const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
@@ -45,6 +44,8 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ data: await getGoogleAdsQuality(), meta: { view } });
       case 'review-snapshot':
         return await getReviewSnapshotResponse(sp);
+      case 'multi-touch':
+        return await getMultiTouchResponse(sp);
       default:
         return NextResponse.json({ error: `Unknown view: ${view}` }, { status: 400 });
     }
@@ -64,7 +65,7 @@ async function getSourceFunnel(sp: URLSearchParams) {
     where = 'WHERE source_group = $1';
   }
 
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT source_group, submitted_quotes, paid_quotes, paid_conversion_rate,
             paid_revenue_cents, avg_paid_value_cents, test_quotes
      FROM metrics.source_to_paid_funnel
@@ -108,7 +109,7 @@ async function getChannelRevenue(sp: URLSearchParams) {
   const limit = Math.min(Number(sp.get('limit') ?? 500), 1000);
   params.push(limit);
 
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT date::text AS date, source_group, submitted_quotes, paid_quotes,
             paid_conversion_rate, paid_revenue_cents, quotes_with_origin_page
      FROM metrics.channel_revenue_daily
@@ -148,7 +149,7 @@ async function getGoogleAdsPerformance(sp: URLSearchParams) {
   const limit = Math.min(Number(sp.get('limit') ?? 200), 1000);
   params.push(limit);
 
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT report_date::text AS report_date, utm_campaign, utm_content,
             google_campaign_id, google_campaign_name, ad_clicks, ad_impressions,
             ad_ctr_pct, ad_cost_usd, submitted_quotes, paid_quotes, paid_conversion_rate,
@@ -190,7 +191,7 @@ async function getGoogleAdsPerformance(sp: URLSearchParams) {
 }
 
 async function getGoogleAdsQuality() {
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT join_confidence, date_count, row_count, total_submitted_quotes, total_paid_quotes,
             total_revenue_cents, total_revenue_usd, total_spend_usd, pct_of_quotes, pct_of_spend
      FROM marketing.google_ads_quote_attribution_quality
@@ -238,7 +239,7 @@ async function getReviewSnapshotResponse(sp: URLSearchParams): Promise<NextRespo
     return NextResponse.json({ error: 'start_date must be on or before end_date' }, { status: 400 });
   }
 
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT metrics.get_attribution_review_snapshot($1::date, $2::date) AS snapshot`,
     [start, end]
   );
@@ -256,6 +257,47 @@ async function getReviewSnapshotResponse(sp: URLSearchParams): Promise<NextRespo
   });
 }
 
+async function getMultiTouchResponse(sp: URLSearchParams): Promise<NextResponse> {
+  const startParam = sp.get('start_date');
+  const endParam = sp.get('end_date');
+  const lookbackParam = sp.get('lookback_days');
+
+  if (startParam !== null && !ISO_DATE_RE.test(startParam)) {
+    return NextResponse.json({ error: 'start_date must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (endParam !== null && !ISO_DATE_RE.test(endParam)) {
+    return NextResponse.json({ error: 'end_date must be YYYY-MM-DD' }, { status: 400 });
+  }
+
+  const lookbackDays = lookbackParam === null ? DEFAULT_LOOKBACK_DAYS : Number(lookbackParam);
+  if (!Number.isInteger(lookbackDays) || lookbackDays < 1 || lookbackDays > MAX_LOOKBACK_DAYS) {
+    return NextResponse.json(
+      { error: `lookback_days must be an integer between 1 and ${MAX_LOOKBACK_DAYS}` },
+      { status: 400 },
+    );
+  }
+
+  const { start, end } = startParam && endParam
+    ? { start: startParam, end: endParam }
+    : defaultWindow30d();
+
+  if (new Date(`${start}T00:00:00Z`).getTime() > new Date(`${end}T00:00:00Z`).getTime()) {
+    return NextResponse.json({ error: 'start_date must be on or before end_date' }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    data: await getMultiTouchAttribution(db, start, end, lookbackDays),
+    meta: {
+      view: 'multi-touch',
+      window_start: start,
+      window_end: end,
+      lookback_days: lookbackDays,
+      generated_at: new Date().toISOString(),
+      source: 'analytics.raw_qms_deals + analytics.raw_web_events',
+    },
+  });
+}
+
 function defaultWindow7d() {
   const end = new Date();
   const start = new Date();
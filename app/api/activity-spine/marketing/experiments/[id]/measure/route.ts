@@ -0,0 +1,44 @@
+/**
+ * Marketing Experiment Measurement API Route
+ *
+ * POST /api/activity-spine/marketing/experiments/:id/measure
+ *
+ * Recomputes lift for one experiment — e.g. while it is still running, or
+ * after late-arriving data has been backfilled. Requires a bootstrap
+ * identity (lib/bootstrap-identity.ts).
+ *
+ * GOVERNANCE: Writes the measurement columns of
+ * analytics.marketing_experiments only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveRequestIdentity } from '../../../../../../../lib/bootstrap-identity';
+import { getExperiment, measureAndSaveExperiment } from '../../../../../../../services/marketingExperiments';
+import { getDb } from '../../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/experiments/[id]/measure', { role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+  }
+  try {
+    const experiment = await getExperiment(db, params.id);
+    if (!experiment) return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+    const data = await measureAndSaveExperiment(db, experiment);
+    return NextResponse.json({ data, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/experiments] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
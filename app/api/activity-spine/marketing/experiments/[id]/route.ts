@@ -0,0 +1,96 @@
+/**
+ * Marketing Experiment API Route
+ *
+ * PATCH  /api/activity-spine/marketing/experiments/:id — partial update; lift
+ *        is re-measured when engine, target metric or dates change
+ * DELETE /api/activity-spine/marketing/experiments/:id — soft delete
+ *
+ * Both require a bootstrap identity (lib/bootstrap-identity.ts); writes are
+ * attributed to its email, or its user id when it has none.
+ *
+ * GOVERNANCE: Writes analytics.marketing_experiments only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateExperimentInput } from '../../../../../../lib/marketing-experiments';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import {
+  deleteExperiment,
+  getExperiment,
+  measureAndSaveExperiment,
+  updateExperiment,
+} from '../../../../../../services/marketingExperiments';
+import { getDb } from '../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/experiments/[id]', { role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const actor = identity.user.email || identity.user.id;
+
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+  }
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateExperimentInput(body, true);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    // Partial date edits are validated against the stored row.
+    const { start_date, end_date } = parsed.value;
+    if ((start_date !== undefined) !== (end_date !== undefined)) {
+      const current = await getExperiment(db, params.id);
+      if (!current) return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+      const start = start_date ?? current.start_date;
+      const end = end_date !== undefined ? end_date : current.end_date;
+      if (end && end < start) {
+        return NextResponse.json({ error: 'end_date must not be before start_date' }, { status: 400 });
+      }
+    }
+
+    const updated = await updateExperiment(db, params.id, parsed.value, actor);
+    if (!updated) return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+
+    const data = updated.remeasure ? await measureAndSaveExperiment(db, updated.experiment) : updated.experiment;
+    return NextResponse.json({ data, meta: { remeasured: updated.remeasure, generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/experiments] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const actor = identity.user.email || identity.user.id;
+
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+  }
+  try {
+    const deleted = await deleteExperiment(db, params.id, actor);
+    if (!deleted) return NextResponse.json({ error: 'Experiment not found' }, { status: 404 });
+    return NextResponse.json({ data: { id: params.id, deleted: true }, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/experiments] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,94 @@
+// @vitest-environment node
+/**
+ * Marketing Experiments Routes — Authorization Tests
+ *
+ * Creating, editing, deleting and re-measuring experiments require a
+ * bootstrap identity (401 without one), and created_by / updated_by /
+ * deleted_by are taken from that identity.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockResolveIdentity, mockService } = vi.hoisted(() => ({
+  mockResolveIdentity: vi.fn(),
+  mockService: {
+    createExperiment: vi.fn(),
+    updateExperiment: vi.fn(),
+    deleteExperiment: vi.fn(),
+    getExperiment: vi.fn(),
+    listExperiments: vi.fn(),
+    measureAndSaveExperiment: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../../../lib/bootstrap-identity', () => ({ resolveRequestIdentity: mockResolveIdentity }));
+vi.mock('../../../../../../services/marketingExperiments', () => mockService);
+
+import { POST } from '../route';
+import { DELETE, PATCH } from '../[id]/route';
+import { POST as MEASURE } from '../[id]/measure/route';
+import { NextRequest } from 'next/server';
+
+const ID = '3f2b8c1e-1d2a-4b5c-9e8f-0a1b2c3d4e5f';
+const USER = { id: 'u-42', email: 'analyst@nsd.local', name: 'Analyst' };
+const BODY = {
+  name: 'Shorter quote form', engine: 'SEO Summary', target_metric: 'quotes',
+  hypothesis: 'Fewer fields, more quotes', change_made: 'Removed 3 fields',
+  start_date: '2026-10-01', end_date: null, decision: 'pending', notes: null,
+};
+
+function request(method: string, path: string, body?: unknown): NextRequest {
+  return new NextRequest(new URL(path, 'http://localhost:3000'), {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+const URL_BASE = '/api/activity-spine/marketing/experiments';
+const params = { params: { id: ID } };
+
+beforeEach(() => {
+  mockResolveIdentity.mockReset();
+  Object.values(mockService).forEach((fn) => fn.mockReset());
+});
+
+describe('marketing experiments write routes', () => {
+  it('return 401 without an identity and write nothing', async () => {
+    mockResolveIdentity.mockResolvedValue(null);
+
+    const responses = await Promise.all([
+      POST(request('POST', URL_BASE, BODY)),
+      PATCH(request('PATCH', `${URL_BASE}/${ID}`, { notes: 'x' }), params),
+      DELETE(request('DELETE', `${URL_BASE}/${ID}`), params),
+      MEASURE(request('POST', `${URL_BASE}/${ID}/measure`), params),
+    ]);
+
+    expect(responses.map((r) => r.status)).toEqual([401, 401, 401, 401]);
+    Object.values(mockService).forEach((fn) => expect(fn).not.toHaveBeenCalled());
+  });
+
+  it('attribute writes to the bootstrap identity', async () => {
+    mockResolveIdentity.mockResolvedValue({ user: USER, organization: null, permissions: [] });
+    mockService.createExperiment.mockResolvedValue({ id: ID });
+    mockService.updateExperiment.mockResolvedValue({ experiment: { id: ID }, remeasure: false });
+    mockService.deleteExperiment.mockResolvedValue(true);
+
+    await POST(request('POST', URL_BASE, BODY));
+    await PATCH(request('PATCH', `${URL_BASE}/${ID}`, { notes: 'x' }), params);
+    await DELETE(request('DELETE', `${URL_BASE}/${ID}`), params);
+
+    expect(mockService.createExperiment.mock.calls[0][2]).toBe(USER.email);
+    expect(mockService.updateExperiment.mock.calls[0][3]).toBe(USER.email);
+    expect(mockService.deleteExperiment.mock.calls[0][2]).toBe(USER.email);
+  });
+
+  it('falls back to the user id when the identity has no email', async () => {
+    mockResolveIdentity.mockResolvedValue({ user: { ...USER, email: '' }, organization: null, permissions: [] });
+    mockService.deleteExperiment.mockResolvedValue(true);
+
+    await DELETE(request('DELETE', `${URL_BASE}/${ID}`), params);
+
+    expect(mockService.deleteExperiment.mock.calls[0][2]).toBe(USER.id);
+  });
+});
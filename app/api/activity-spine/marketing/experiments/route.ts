@@ -0,0 +1,66 @@
+/**
+ * Marketing Experiments API Route
+ *
+ * GET  /api/activity-spine/marketing/experiments — experiment log, newest first
+ * POST /api/activity-spine/marketing/experiments — create an experiment and
+ *      measure its lift (services/marketingExperiments.ts)
+ *
+ * POST requires a bootstrap identity (lib/bootstrap-identity.ts); writes are
+ * attributed to its email, or its user id when it has none.
+ * result_lift is computed server-side and never accepted from the client.
+ *
+ * GOVERNANCE: Writes analytics.marketing_experiments only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateExperimentInput, type ExperimentInput } from '../../../../../lib/marketing-experiments';
+import { resolveRequestIdentity } from '../../../../../lib/bootstrap-identity';
+import { createExperiment, listExperiments } from '../../../../../services/marketingExperiments';
+import { getDb } from '../../../../../lib/db';
+
+const readDb = getDb('activity-spine/marketing/experiments');
+const db = getDb('activity-spine/marketing/experiments', { role: 'write' });
+
+export async function GET() {
+  try {
+    const experiments = await listExperiments(readDb);
+    return NextResponse.json({
+      data: experiments,
+      meta: { count: experiments.length, generated_at: new Date().toISOString() },
+    });
+  } catch (err) {
+    console.error('[marketing/experiments] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const identity = await resolveRequestIdentity(req);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const actor = identity.user.email || identity.user.id;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateExperimentInput(body, false);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const created = await createExperiment(db, parsed.value as ExperimentInput, actor);
+    return NextResponse.json({ data: created, meta: { generated_at: new Date().toISOString() } }, { status: 201 });
+  } catch (err) {
+    console.error('[marketing/experiments] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
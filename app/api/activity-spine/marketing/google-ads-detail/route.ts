@@ -2,13 +2,9 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('activity-spine/marketing/google-ads-detail');
 
 type MarketingPreset = 'last_7d' | 'last_30d' | 'last_90d' | 'mtd' | 'qtd' | 'ytd';
 
@@ -72,7 +68,7 @@ function dateParams(req: NextRequest): { start: string; end: string } {
 }
 
 async function getCampaignDaily(start: string, end: string) {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       metric_date::text AS date,
       campaign_id,
@@ -104,7 +100,7 @@ async function getCampaignDaily(start: string, end: string) {
 }
 
 async function getCampaignSummary(start: string, end: string) {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       ads.campaign_id,
       ads.campaign_name,
@@ -173,7 +169,7 @@ async function getKeywords(start: string, end: string, campaignId?: string | nul
     campaignFilter = `AND campaign_id = $3`;
   }
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       keyword_text,
       keyword_match_type,
@@ -224,7 +220,7 @@ async function getSearchTerms(start: string, end: string, campaignId?: string |
   }
   const orderCol = sortBy === 'clicks' ? "SUM(clicks)" : "SUM(cost)";
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       COALESCE(NULLIF(search_term, ''), '(not available)') AS search_term,
       campaign_id,
@@ -268,7 +264,7 @@ async function getSearchTerms(start: string, end: string, campaignId?: string |
 
 async function getConversionActions(start: string, end: string) {
   try {
-    const { rows } = await pool.query(`
+    const { rows } = await db.query(`
       SELECT
         conversion_action_name,
         conversion_action_category,
@@ -297,7 +293,7 @@ async function getConversionActions(start: string, end: string) {
 }
 
 async function getDistinctCampaigns(start: string, end: string) {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT DISTINCT
       campaign_id,
       campaign_name
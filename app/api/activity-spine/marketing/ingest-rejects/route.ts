@@ -0,0 +1,91 @@
+/**
+ * Ingest Rejects API Route
+ *
+ * GET /api/activity-spine/marketing/ingest-rejects
+ *
+ * Returns payloads rejected by the /api/ingest/* contracts
+ * (lib/ingest-contracts.ts) for the Marketing Data Health page:
+ * per-endpoint reject counts and the most recent rejected payloads.
+ *
+ * Accepts query params:
+ *   endpoint=web-event|qms-deal  — restrict to one ingest endpoint
+ *   limit=N                      — recent rows to return (default 50, max 200)
+ *
+ * GOVERNANCE: Read-only. analytics.ingest_dead_letter is written only by
+ * the ingest routes.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/ingest-rejects');
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const endpoint = sp.get('endpoint');
+    const rawLimit = Number(sp.get('limit') ?? DEFAULT_LIMIT);
+    const limit = Number.isFinite(rawLimit) ? Math.min(Math.max(1, Math.floor(rawLimit)), MAX_LIMIT) : DEFAULT_LIMIT;
+
+    const params: unknown[] = [];
+    let where = '';
+    if (endpoint) {
+      params.push(endpoint);
+      where = 'WHERE endpoint = $1';
+    }
+
+    const [summaryResult, recentResult] = await Promise.all([
+      db.query(
+        `SELECT
+           endpoint,
+           COUNT(*) FILTER (WHERE received_at >= NOW() - INTERVAL '24 hours') AS rejects_24h,
+           COUNT(*) FILTER (WHERE received_at >= NOW() - INTERVAL '7 days') AS rejects_7d,
+           MAX(received_at) AS last_rejected_at,
+           MODE() WITHIN GROUP (ORDER BY reason)
+             FILTER (WHERE received_at >= NOW() - INTERVAL '7 days') AS top_reason_7d
+         FROM analytics.ingest_dead_letter
+         ${where}
+         GROUP BY endpoint
+         ORDER BY endpoint`,
+        params,
+      ),
+      db.query(
+        `SELECT id, endpoint, reason, field, payload, received_at
+         FROM analytics.ingest_dead_letter
+         ${where}
+         ORDER BY received_at DESC
+         LIMIT ${limit}`,
+        params,
+      ),
+    ]);
+
+    const summary = summaryResult.rows.map((r) => ({
+      endpoint: r.endpoint,
+      rejects_24h: Number(r.rejects_24h),
+      rejects_7d: Number(r.rejects_7d),
+      last_rejected_at: r.last_rejected_at ? new Date(r.last_rejected_at).toISOString() : null,
+      top_reason_7d: r.top_reason_7d ?? null,
+    }));
+
+    const recent = recentResult.rows.map((r) => ({
+      id: String(r.id),
+      endpoint: r.endpoint,
+      reason: r.reason,
+      field: r.field ?? null,
+      payload: r.payload ?? null,
+      received_at: new Date(r.received_at).toISOString(),
+    }));
+
+    return NextResponse.json({ data: { summary, recent }, meta: { endpoint, limit } });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/ingest-rejects] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
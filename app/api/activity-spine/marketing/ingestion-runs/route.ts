@@ -0,0 +1,158 @@
+/**
+ * Ingestion Runs API Route
+ *
+ * GET /api/activity-spine/marketing/ingestion-runs
+ *
+ * Returns sync run history from analytics.ingestion_runs (cron, manual and
+ * backfill runs recorded by services/ga4Sync.ts and services/syncBackfill.ts)
+ * plus a per-source daily row timeline over the raw tables, so the Data
+ * Health page can show which days are missing data (lib/ingestion-freshness.ts).
+ *
+ * Accepts query params:
+ *   days=N     — freshness window in days (default 30, max 90)
+ *   limit=N    — run history rows to return (default 50, max 200)
+ *   source=X   — restrict run history to one ingestion_runs.source
+ *
+ * GOVERNANCE: Read-only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { buildSourceFreshness, type DailyRowCount, type FreshnessSourceDef } from '../../../../../lib/ingestion-freshness';
+import { getDb } from '../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/ingestion-runs');
+
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/** Each source's daily row count; $1 is the first day of the window. */
+const FRESHNESS_SOURCES: Array<FreshnessSourceDef & { sql: string }> = [
+  {
+    source: 'ga4-engagement',
+    label: 'GA4 page engagement',
+    sql: `SELECT to_char(metric_date, 'YYYY-MM-DD') AS day, COUNT(*) AS rows
+          FROM analytics.metrics_page_engagement_daily
+          WHERE metric_date >= $1::date
+          GROUP BY metric_date`,
+  },
+  {
+    source: 'ga4-events',
+    label: 'GA4 events',
+    sql: `SELECT to_char((occurred_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS day, COUNT(*) AS rows
+          FROM analytics.raw_ga4_events
+          WHERE occurred_at >= $1::date
+          GROUP BY 1`,
+  },
+  {
+    source: 'google-ads',
+    label: 'Google Ads',
+    sql: `SELECT to_char((occurred_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS day, COUNT(*) AS rows
+          FROM analytics.raw_google_ads
+          WHERE occurred_at >= $1::date
+          GROUP BY 1`,
+  },
+  {
+    source: 'web-events',
+    label: 'Web events (GTM / quote site)',
+    sql: `SELECT to_char((occurred_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS day, COUNT(*) AS rows
+          FROM analytics.raw_web_events
+          WHERE occurred_at >= $1::date
+          GROUP BY 1`,
+  },
+  {
+    source: 'qms-deals',
+    label: 'QMS deal events (Convex)',
+    sql: `SELECT to_char((occurred_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD') AS day, COUNT(*) AS rows
+          FROM analytics.raw_qms_deal_events
+          WHERE occurred_at >= $1::date AND source <> 'backfill'
+          GROUP BY 1`,
+  },
+];
+
+function clampInt(raw: string | null, fallback: number, max: number): number {
+  const n = Number(raw ?? fallback);
+  return Number.isFinite(n) ? Math.min(Math.max(1, Math.floor(n)), max) : fallback;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const sp = req.nextUrl.searchParams;
+    const days = clampInt(sp.get('days'), DEFAULT_DAYS, MAX_DAYS);
+    const limit = clampInt(sp.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
+    const source = sp.get('source');
+
+    const now = new Date();
+    const windowStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()) - (days - 1) * 86400000)
+      .toISOString()
+      .split('T')[0];
+
+    const runsParams: unknown[] = [];
+    let where = '';
+    if (source) {
+      runsParams.push(source);
+      where = 'WHERE source = $1';
+    }
+
+    const [runsResult, ...freshnessResults] = await Promise.all([
+      db.query(
+        `SELECT id, source, data_type, status, started_at, completed_at,
+                to_char(date_range_start, 'YYYY-MM-DD') AS date_range_start,
+                to_char(date_range_end, 'YYYY-MM-DD') AS date_range_end,
+                records_processed, records_failed, duration_ms, error_message, backfill_id
+         FROM analytics.ingestion_runs
+         ${where}
+         ORDER BY started_at DESC
+         LIMIT ${limit}`,
+        runsParams,
+      ),
+      // One source table being unreadable must not blank the whole panel.
+      ...FRESHNESS_SOURCES.map((s) =>
+        db.query(s.sql, [windowStart]).then(
+          (r) => ({ source: s.source, rows: r.rows, ok: true as const }),
+          (err: unknown) => {
+            console.warn(`[marketing/ingestion-runs] Freshness query failed for ${s.source}:`, err instanceof Error ? err.message : err);
+            return { source: s.source, rows: [], ok: false as const };
+          },
+        ),
+      ),
+    ]);
+
+    const counts: DailyRowCount[] = freshnessResults.flatMap((r) =>
+      r.rows.map((row: { day: string; rows: string | number }) => ({ source: r.source, day: row.day, rows: Number(row.rows) })),
+    );
+    const unavailable = new Set(freshnessResults.filter((r) => !r.ok).map((r) => r.source));
+
+    const runs = runsResult.rows.map((r) => ({
+      id: String(r.id),
+      source: r.source,
+      data_type: r.data_type ?? null,
+      status: r.status,
+      started_at: new Date(r.started_at).toISOString(),
+      completed_at: r.completed_at ? new Date(r.completed_at).toISOString() : null,
+      date_range_start: r.date_range_start ?? null,
+      date_range_end: r.date_range_end ?? null,
+      records_processed: Number(r.records_processed ?? 0),
+      records_failed: Number(r.records_failed ?? 0),
+      duration_ms: r.duration_ms != null ? Number(r.duration_ms) : null,
+      error_message: r.error_message ?? null,
+      backfill_id: r.backfill_id ?? null,
+    }));
+
+    return NextResponse.json({
+      data: {
+        runs,
+        freshness: buildSourceFreshness(FRESHNESS_SOURCES, counts, days, now, unavailable),
+      },
+      meta: { days, limit, source },
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/ingestion-runs] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
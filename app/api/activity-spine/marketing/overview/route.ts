@@ -21,7 +21,6 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import type {
   MarketingPreset,
   MarketingComparisonMode,
@@ -36,34 +35,16 @@ import type {
 } from '../../../../../types/activity-spine';
 import { executeMarketingQueries } from '../../../../../services/marketingQueries';
 import type { MarketingFilters } from '../../../../../services/marketingQueries';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
 // ============================================
 // Connection pool
 // ============================================
 
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const connectionString =
-      process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-    if (!connectionString) {
-      throw new Error('DATABASE_URL not configured');
-    }
-    pool = new Pool({
-      connectionString,
-      ssl: { rejectUnauthorized: false },
-      max: 15,
-      statement_timeout: 10000,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  return pool;
-}
+const db = getDb('activity-spine/marketing/overview');
 
 function isDatabaseConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 // ============================================
@@ -312,7 +293,6 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const db = getPool();
     const t0 = performance.now();
 
     const filters = parseFilters(request.nextUrl.searchParams);
@@ -0,0 +1,63 @@
+/**
+ * QMS Quote Cohorts API Route
+ *
+ * GET /api/activity-spine/marketing/qms/cohorts
+ *
+ * Returns quotes grouped by submission week or month and source group, with
+ * cumulative deposit-paid and quote-paid rates at day 7/14/30/60 and paid
+ * revenue per cohort (lib/quote-cohorts.ts). Rates for milestones a cohort has
+ * not yet reached are null.
+ *
+ * Accepts query params:
+ *   grain=week|month  — cohort period (default week)
+ *   start=YYYY-MM-DD  — earliest submission date (default: start of the
+ *                       26th most recent week / 6th most recent month)
+ *   end=YYYY-MM-DD    — latest submission date (default today)
+ *
+ * GOVERNANCE: Read-only. Data comes from the PII-governed
+ * marketing.quote_dashboard_deals projection; only dates, value and
+ * attribution columns are read.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '../../../../../../lib/db';
+import { COHORT_GRAINS, defaultCohortRangeStart, type CohortGrain } from '../../../../../../lib/quote-cohorts';
+import { executeQmsCohortQuery, qmsTableExists } from '../../../../../../services/qmsAnalytics';
+
+const db = getDb('activity-spine/marketing/qms/cohorts');
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const grain = (sp.get('grain') || 'week') as CohortGrain;
+  if (!COHORT_GRAINS.includes(grain)) {
+    return NextResponse.json({ error: `Unknown grain: ${grain}` }, { status: 400 });
+  }
+
+  const now = new Date();
+  const start = sp.get('start') || defaultCohortRangeStart(grain, now);
+  const end = sp.get('end') || now.toISOString().slice(0, 10);
+  if (!ISO_DATE_RE.test(start) || !ISO_DATE_RE.test(end)) {
+    return NextResponse.json({ error: 'start and end must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (start > end) {
+    return NextResponse.json({ error: 'start must be on or before end' }, { status: 400 });
+  }
+
+  try {
+    if (!(await qmsTableExists(db))) {
+      return NextResponse.json({ data: null, timestamp: now.toISOString() });
+    }
+
+    const data = await executeQmsCohortQuery(db, { start, end }, grain, now);
+    return NextResponse.json({ data, timestamp: now.toISOString() });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/qms/cohorts] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * QMS Deal History API Route
+ *
+ * GET /api/activity-spine/marketing/qms/history?quote=<convex_quote_id | quote_number>
+ *
+ * Returns one quote's full lifecycle from analytics.raw_qms_deal_events:
+ * every status transition with time spent in each stage, plus per-stage
+ * totals (lib/qms-stage-durations.ts).
+ *
+ * GOVERNANCE: Read-only. Only lifecycle columns are selected — the raw
+ * event payload (customer PII) is never returned.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { computeStageTransitions, summarizeStageDurations } from '../../../../../../lib/qms-stage-durations';
+import { getDb } from '../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/qms/history');
+
+const HISTORY_SQL = `
+  SELECT convex_quote_id, quote_number, quote_activity, last_event,
+         total_price_cents, occurred_at, source
+  FROM analytics.raw_qms_deal_events
+  WHERE convex_quote_id = $1 OR quote_number = $1
+  ORDER BY occurred_at ASC, id ASC
+`;
+
+export async function GET(req: NextRequest) {
+  const quote = req.nextUrl.searchParams.get('quote')?.trim();
+  if (!quote) {
+    return NextResponse.json({ error: 'quote query param is required' }, { status: 400 });
+  }
+
+  try {
+    const { rows } = await db.query(HISTORY_SQL, [quote]);
+    if (rows.length === 0) {
+      return NextResponse.json({ error: `No lifecycle events for quote ${quote}` }, { status: 404 });
+    }
+
+    const events = rows.map((r) => ({
+      quote_activity: String(r.quote_activity),
+      last_event: r.last_event ? String(r.last_event) : null,
+      occurred_at: new Date(r.occurred_at).toISOString(),
+      total_price_usd: Number(r.total_price_cents ?? 0) / 100,
+      source: String(r.source),
+    }));
+
+    const transitions = computeStageTransitions(events);
+    const last = rows[rows.length - 1];
+
+    return NextResponse.json({
+      data: {
+        convex_quote_id: String(last.convex_quote_id),
+        quote_number: String(last.quote_number),
+        current_stage: transitions[transitions.length - 1]?.stage ?? null,
+        events,
+        transitions,
+        stage_durations: summarizeStageDurations(transitions),
+        backfilled: events.some((e) => e.source === 'backfill'),
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/qms/history] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * QMS Quote Journey API Route
+ *
+ * GET /api/activity-spine/marketing/qms/journey?quote=<convex_quote_id | quote_number>
+ *
+ * Returns how one quote's customer got there: the visitor sessions from
+ * analytics.raw_web_events (linked through the quote_id on conversion events,
+ * then every event of those visitors from DEFAULT_LOOKBACK_DAYS before the
+ * first conversion onward) with landing page, UTM / click ID, channel and page
+ * sequence, the quote's status transitions from analytics.raw_qms_deal_events,
+ * and both interleaved on one timeline (lib/quote-journey.ts).
+ *
+ * GOVERNANCE: Read-only. Only attribution and lifecycle columns are selected —
+ * customer fields, IP address, user agent and raw payloads are never returned.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '../../../../../../lib/db';
+import { DEFAULT_LOOKBACK_DAYS } from '../../../../../../lib/attribution-models';
+import { computeStageTransitions, summarizeStageDurations } from '../../../../../../lib/qms-stage-durations';
+import { buildJourneySessions, buildJourneyTimeline, type JourneyWebEvent, type QuoteJourney } from '../../../../../../lib/quote-journey';
+
+const db = getDb('activity-spine/marketing/qms/journey');
+
+/** Cap on web events read for one journey; `truncated` is set when reached. */
+const MAX_EVENTS = 2000;
+
+const DEAL_SQL = `
+  SELECT convex_quote_id, quote_number, quote_activity, total_price_cents, sign_type,
+         created_at, updated_at, deposit_paid_at, quote_paid_at,
+         utm_source, utm_medium, utm_campaign, gclid, gbraid, wbraid,
+         landing_page, referrer
+  FROM analytics.raw_qms_deals
+  WHERE convex_quote_id = $1 OR quote_number = $1
+  ORDER BY updated_at DESC
+  LIMIT 1
+`;
+
+const LIFECYCLE_SQL = `
+  SELECT quote_activity, last_event, occurred_at
+  FROM analytics.raw_qms_deal_events
+  WHERE convex_quote_id = $1
+  ORDER BY occurred_at ASC, id ASC
+`;
+
+const WEB_EVENTS_SQL = `
+  WITH conversions AS (
+    SELECT visitor_id, session_id, occurred_at
+    FROM analytics.raw_web_events
+    WHERE event_type = 'conversion'
+      AND COALESCE(event_data->>'quote_id', payload->>'quote_id') = $1
+  ),
+  anchor AS (
+    SELECT MIN(occurred_at) - make_interval(days => $2::int) AS since FROM conversions
+  )
+  SELECT
+    we.visitor_id, we.session_id, we.occurred_at, we.event_type, we.page_url, we.page_title, we.referrer,
+    COALESCE(NULLIF(we.event_data->>'utm_source', ''), NULLIF(we.payload->>'utm_source', ''), we.source) AS utm_source,
+    COALESCE(NULLIF(we.event_data->>'utm_medium', ''), we.payload->>'utm_medium') AS utm_medium,
+    COALESCE(NULLIF(we.event_data->>'utm_campaign', ''), we.payload->>'utm_campaign') AS utm_campaign,
+    COALESCE(NULLIF(we.event_data->>'gclid', ''), we.payload->>'gclid') AS gclid,
+    COALESCE(NULLIF(we.event_data->>'gbraid', ''), we.payload->>'gbraid') AS gbraid,
+    COALESCE(NULLIF(we.event_data->>'wbraid', ''), we.payload->>'wbraid') AS wbraid,
+    CASE WHEN we.event_type = 'conversion'
+      THEN COALESCE(we.event_data->>'quote_id', we.payload->>'quote_id') END AS quote_id
+  FROM analytics.raw_web_events we
+  CROSS JOIN anchor a
+  WHERE we.occurred_at >= a.since
+    AND (
+      we.visitor_id IN (SELECT visitor_id FROM conversions WHERE visitor_id IS NOT NULL AND visitor_id <> '')
+      OR we.session_id IN (SELECT session_id FROM conversions WHERE session_id IS NOT NULL AND session_id <> '')
+    )
+  ORDER BY we.occurred_at ASC
+  LIMIT $3
+`;
+
+function iso(v: unknown): string | null {
+  return v == null ? null : new Date(v as string).toISOString();
+}
+
+function str(v: unknown): string | null {
+  return v == null || v === '' ? null : String(v);
+}
+
+export async function GET(req: NextRequest) {
+  const quote = req.nextUrl.searchParams.get('quote')?.trim();
+  if (!quote) {
+    return NextResponse.json({ error: 'quote query param is required' }, { status: 400 });
+  }
+
+  try {
+    const { rows: dealRows } = await db.query(DEAL_SQL, [quote]);
+    const deal = dealRows[0];
+    if (!deal) {
+      return NextResponse.json({ error: `No QMS deal for quote ${quote}` }, { status: 404 });
+    }
+
+    const quoteId = String(deal.convex_quote_id);
+    const [lifecycle, web] = await Promise.all([
+      db.query(LIFECYCLE_SQL, [quoteId]),
+      db.query(WEB_EVENTS_SQL, [quoteId, DEFAULT_LOOKBACK_DAYS, MAX_EVENTS]),
+    ]);
+
+    const events: JourneyWebEvent[] = web.rows.map((r) => ({
+      visitor_id: str(r.visitor_id),
+      session_id: str(r.session_id),
+      occurred_at: new Date(r.occurred_at).toISOString(),
+      event_type: String(r.event_type),
+      page_url: str(r.page_url),
+      page_title: str(r.page_title),
+      referrer: str(r.referrer),
+      utm_source: str(r.utm_source),
+      utm_medium: str(r.utm_medium),
+      utm_campaign: str(r.utm_campaign),
+      gclid: str(r.gclid),
+      gbraid: str(r.gbraid),
+      wbraid: str(r.wbraid),
+      quote_id: str(r.quote_id),
+    }));
+
+    const transitions = computeStageTransitions(
+      lifecycle.rows.map((r) => ({
+        quote_activity: String(r.quote_activity),
+        last_event: str(r.last_event),
+        occurred_at: new Date(r.occurred_at).toISOString(),
+      })),
+    );
+    const sessions = buildJourneySessions(events, quoteId);
+
+    const data: QuoteJourney = {
+      quote: {
+        convex_quote_id: quoteId,
+        quote_number: String(deal.quote_number),
+        status: String(deal.quote_activity),
+        total_price_usd: Number(deal.total_price_cents ?? 0) / 100,
+        sign_type: str(deal.sign_type),
+        created_at: iso(deal.created_at),
+        updated_at: iso(deal.updated_at),
+        deposit_paid_at: iso(deal.deposit_paid_at),
+        quote_paid_at: iso(deal.quote_paid_at),
+        utm_source: str(deal.utm_source),
+        utm_medium: str(deal.utm_medium),
+        utm_campaign: str(deal.utm_campaign),
+        click_id: deal.gclid ? 'gclid' : deal.gbraid ? 'gbraid' : deal.wbraid ? 'wbraid' : null,
+        landing_page: str(deal.landing_page),
+        referrer: str(deal.referrer),
+      },
+      visitor_ids: Array.from(new Set(events.map((e) => e.visitor_id).filter((v): v is string => v !== null))),
+      sessions,
+      transitions,
+      stage_durations: summarizeStageDurations(transitions),
+      timeline: buildJourneyTimeline(sessions, transitions),
+      lookback_days: DEFAULT_LOOKBACK_DAYS,
+      truncated: events.length >= MAX_EVENTS,
+    };
+
+    return NextResponse.json({ data, timestamp: new Date().toISOString() });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[marketing/qms/journey] Error:', msg);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
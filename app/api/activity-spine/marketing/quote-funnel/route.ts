@@ -2,13 +2,9 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('activity-spine/marketing/quote-funnel');
 
 export async function GET(req: NextRequest) {
   try {
@@ -51,7 +47,7 @@ export async function GET(req: NextRequest) {
 }
 
 async function getSummary() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       COUNT(*) AS total_quotes,
       COUNT(*) FILTER (WHERE quote_paid_at IS NOT NULL) AS won_orders,
@@ -89,7 +85,7 @@ async function getSummary() {
 }
 
 async function getAging() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     WITH banded AS (
       SELECT
         CASE
@@ -140,7 +136,7 @@ async function getAging() {
 }
 
 async function getWinRateByType() {
-  const { rows: byQuoteType } = await pool.query(`
+  const { rows: byQuoteType } = await db.query(`
     SELECT
       quote_type,
       COUNT(*) AS total,
@@ -152,7 +148,7 @@ async function getWinRateByType() {
     ORDER BY COUNT(*) DESC
   `);
 
-  const { rows: bySignType } = await pool.query(`
+  const { rows: bySignType } = await db.query(`
     SELECT
       COALESCE(sign_type, 'Unknown') AS sign_type,
       COUNT(*) AS total,
@@ -180,7 +176,7 @@ async function getWinRateByType() {
 }
 
 async function getPipelineTrend() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       date_trunc('week', created_at)::date::text AS week,
       COUNT(*) AS submissions,
@@ -202,7 +198,7 @@ async function getPipelineTrend() {
 }
 
 async function getStageBreakdown() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       quote_activity AS stage,
       quote_active AS active,
@@ -224,7 +220,7 @@ async function getStageBreakdown() {
 }
 
 async function getAttribution() {
-  const { rows: bySource } = await pool.query(`
+  const { rows: bySource } = await db.query(`
     SELECT
       COALESCE(utm_source, 'Unknown') AS source,
       COALESCE(utm_medium, 'Unknown') AS medium,
@@ -255,7 +251,7 @@ async function getAttribution() {
 }
 
 async function getCostPerQuote() {
-  const { rows: adSpend } = await pool.query(`
+  const { rows: adSpend } = await db.query(`
     SELECT
       COALESCE(SUM(cost), 0) AS total_spend,
       MIN(metric_date)::text AS spend_start,
@@ -264,7 +260,7 @@ async function getCostPerQuote() {
     FROM analytics.metrics_google_ads_campaign_daily
   `);
 
-  const { rows: quoteCount } = await pool.query(`
+  const { rows: quoteCount } = await db.query(`
     SELECT COUNT(*) AS cnt
     FROM marketing.quote_dashboard_deals
   `);
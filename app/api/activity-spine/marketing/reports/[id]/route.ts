@@ -0,0 +1,111 @@
+/**
+ * Marketing Report Schedule API Route
+ *
+ * PATCH  /api/activity-spine/marketing/reports/:id — change any schedule
+ *        field; next_run_at is recomputed from the merged schedule
+ * DELETE /api/activity-spine/marketing/reports/:id — delete the schedule (its
+ *        run history is kept, detached)
+ *
+ * Both require the bootstrap permission marketing:reports:manage.
+ *
+ * GOVERNANCE: Writes analytics.marketing_report_schedules only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '../../../../../../lib/bootstrap-identity';
+import {
+  REPORTS_MANAGE_PERMISSION,
+  checkReportSchedule,
+  validateReportScheduleInput,
+  type ReportScheduleInput,
+} from '../../../../../../lib/marketing-reports';
+import {
+  deleteReportSchedule,
+  getReportSchedule,
+  updateReportSchedule,
+} from '../../../../../../services/marketingReports';
+import { getDb } from '../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/reports/[id]', { role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const NOT_FOUND = { error: 'Report schedule not found' };
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorizeRequest(request, REPORTS_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateReportScheduleInput(body, true);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  try {
+    const existing = await getReportSchedule(db, params.id);
+    if (!existing) {
+      return NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    const merged: ReportScheduleInput = {
+      name: existing.name,
+      dashboard: existing.dashboard,
+      period: existing.period,
+      cadence: existing.cadence,
+      weekday: existing.weekday,
+      day_of_month: existing.day_of_month,
+      formats: existing.formats,
+      delivery: existing.delivery,
+      recipients: existing.recipients,
+      enabled: existing.enabled,
+      ...parsed.value,
+    };
+    const invalid = checkReportSchedule(merged);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
+
+    const schedule = await updateReportSchedule(db, params.id, merged);
+    if (!schedule) {
+      return NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    return NextResponse.json({ data: schedule, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/reports] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorizeRequest(request, REPORTS_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  try {
+    if (!(await deleteReportSchedule(db, params.id))) {
+      return NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    return NextResponse.json({ data: { id: params.id, deleted: true }, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/reports] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Marketing Report Send-Now API Route
+ *
+ * POST /api/activity-spine/marketing/reports/:id/send — build and deliver the
+ *      schedule's report immediately, for the period it would cover if sent
+ *      now. Does not move next_run_at. Returns the recorded run; delivery
+ *      failures are in its status and error, not the HTTP status.
+ *
+ * Requires the bootstrap permission marketing:reports:manage.
+ *
+ * GOVERNANCE: Writes analytics.marketing_report_runs only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '../../../../../../../lib/bootstrap-identity';
+import { REPORTS_MANAGE_PERMISSION } from '../../../../../../../lib/marketing-reports';
+import { getReportSchedule, runReport } from '../../../../../../../services/marketingReports';
+import { getDb } from '../../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/reports/[id]/send', { role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const NOT_FOUND = { error: 'Report schedule not found' };
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const auth = await authorizeRequest(request, REPORTS_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  try {
+    const schedule = await getReportSchedule(db, params.id);
+    if (!schedule) {
+      return NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    const run = await runReport(db, schedule, { trigger: 'manual' });
+    return NextResponse.json({ data: run, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/reports] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Marketing Scheduled Reports API Route
+ *
+ * GET  /api/activity-spine/marketing/reports — every report schedule and the
+ *      most recent runs (?runs=N, default 50, max 200)
+ * POST /api/activity-spine/marketing/reports — create a schedule. Body:
+ *      { name, dashboard, period, cadence, weekday | day_of_month, formats,
+ *        delivery, recipients?, enabled? }
+ *
+ * Both require the bootstrap permission marketing:reports:manage
+ * (lib/marketing-reports.ts); created_by is the caller's bootstrap email.
+ *
+ * GOVERNANCE: Writes analytics.marketing_report_schedules only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import {
+  REPORTS_MANAGE_PERMISSION,
+  checkReportSchedule,
+  validateReportScheduleInput,
+  type ReportScheduleInput,
+} from '../../../../../lib/marketing-reports';
+import {
+  createReportSchedule,
+  listReportRuns,
+  listReportSchedules,
+} from '../../../../../services/marketingReports';
+import { getDb } from '../../../../../lib/db';
+
+const readDb = getDb('activity-spine/marketing/reports');
+const db = getDb('activity-spine/marketing/reports', { role: 'write' });
+
+const DEFAULT_RUNS = 50;
+const MAX_RUNS = 200;
+
+export async function GET(req: NextRequest) {
+  const auth = await authorizeRequest(req, REPORTS_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const runsParam = Number(req.nextUrl.searchParams.get('runs'));
+  const runLimit = Number.isInteger(runsParam) && runsParam > 0 ? Math.min(runsParam, MAX_RUNS) : DEFAULT_RUNS;
+
+  try {
+    const [schedules, runs] = await Promise.all([
+      listReportSchedules(readDb),
+      listReportRuns(readDb, runLimit),
+    ]);
+    return NextResponse.json({
+      data: { schedules, runs },
+      meta: { generated_at: new Date().toISOString() },
+    });
+  } catch (err) {
+    console.error('[marketing/reports] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const auth = await authorizeRequest(req, REPORTS_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateReportScheduleInput(body, false);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+  const input = parsed.value as ReportScheduleInput;
+  const invalid = checkReportSchedule(input);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  try {
+    const createdBy = auth.identity.user.email || auth.identity.user.id;
+    const schedule = await createReportSchedule(db, input, createdBy);
+    return NextResponse.json({ data: schedule, meta: { generated_at: new Date().toISOString() } }, { status: 201 });
+  } catch (err) {
+    console.error('[marketing/reports] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
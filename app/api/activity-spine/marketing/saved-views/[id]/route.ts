@@ -0,0 +1,93 @@
+/**
+ * Marketing Saved View API Route
+ *
+ * PATCH  /api/activity-spine/marketing/saved-views/:id — rename, re-scope or
+ *        overwrite the state (owner only); { is_default: true | false } sets
+ *        or clears the caller's default and works on any view they can see
+ * DELETE /api/activity-spine/marketing/saved-views/:id — soft delete (owner only)
+ *
+ * GOVERNANCE: Writes analytics.marketing_saved_views and
+ * analytics.marketing_saved_view_defaults only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../../../../lib/bootstrap-identity';
+import { validateSavedViewInput } from '../../../../../../lib/marketing-saved-views';
+import {
+  deleteSavedView,
+  updateSavedView,
+} from '../../../../../../services/marketingSavedViews';
+import { getDb } from '../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/saved-views/[id]', { role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const NOT_FOUND = { error: 'Saved view not found' };
+const FORBIDDEN = { error: 'Only the owner can change this view' };
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateSavedViewInput(body, true);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const viewer = viewerFromIdentity(identity);
+  if (parsed.value.scope === 'team' && !viewer.teamId) {
+    return NextResponse.json({ error: 'Team views require an organization on your account' }, { status: 400 });
+  }
+
+  try {
+    const result = await updateSavedView(db, viewer, params.id, parsed.value);
+    if (!result.ok) {
+      return result.reason === 'forbidden'
+        ? NextResponse.json(FORBIDDEN, { status: 403 })
+        : NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    return NextResponse.json({ data: result.view, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/saved-views] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const result = await deleteSavedView(db, viewerFromIdentity(identity), params.id);
+    if (!result.ok) {
+      return result.reason === 'forbidden'
+        ? NextResponse.json(FORBIDDEN, { status: 403 })
+        : NextResponse.json(NOT_FOUND, { status: 404 });
+    }
+    return NextResponse.json({ data: { id: params.id, deleted: true }, meta: { generated_at: new Date().toISOString() } });
+  } catch (err) {
+    console.error('[marketing/saved-views] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Marketing Saved Views API Route
+ *
+ * GET  /api/activity-spine/marketing/saved-views — the caller's own views and
+ *      their team's shared views; is_default marks the caller's default
+ * POST /api/activity-spine/marketing/saved-views — save the current dashboard
+ *      state. Body: { name, scope: 'user' | 'team', state, is_default? }
+ *
+ * Views belong to the bootstrap identity of the request
+ * (lib/bootstrap-identity.ts); 'team' means the caller's bootstrap
+ * organization. Every view gets a short share_slug
+ * (lib/marketing-saved-views.ts).
+ *
+ * GOVERNANCE: Writes analytics.marketing_saved_views and
+ * analytics.marketing_saved_view_defaults only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { randomBytes } from 'node:crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../../../lib/bootstrap-identity';
+import {
+  SHARE_SLUG_LENGTH,
+  shareSlugFromBytes,
+  validateSavedViewInput,
+  type SavedViewInput,
+} from '../../../../../lib/marketing-saved-views';
+import {
+  createSavedView,
+  listSavedViews,
+} from '../../../../../services/marketingSavedViews';
+import { getDb } from '../../../../../lib/db';
+
+const readDb = getDb('activity-spine/marketing/saved-views');
+const db = getDb('activity-spine/marketing/saved-views', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const identity = await resolveRequestIdentity(req);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const views = await listSavedViews(readDb, viewerFromIdentity(identity));
+    return NextResponse.json({
+      data: views,
+      meta: {
+        count: views.length,
+        default_view_id: views.find((v) => v.is_default)?.id ?? null,
+        generated_at: new Date().toISOString(),
+      },
+    });
+  } catch (err) {
+    console.error('[marketing/saved-views] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateSavedViewInput(body, false);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const identity = await resolveRequestIdentity(req);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  const viewer = viewerFromIdentity(identity);
+  if (parsed.value.scope === 'team' && !viewer.teamId) {
+    return NextResponse.json({ error: 'Team views require an organization on your account' }, { status: 400 });
+  }
+
+  try {
+    const slug = shareSlugFromBytes(randomBytes(SHARE_SLUG_LENGTH));
+    const view = await createSavedView(db, viewer, parsed.value as SavedViewInput, slug);
+    return NextResponse.json({ data: view, meta: { generated_at: new Date().toISOString() } }, { status: 201 });
+  } catch (err) {
+    console.error('[marketing/saved-views] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Marketing Saved View Share Link API Route
+ *
+ * GET /api/activity-spine/marketing/saved-views/share/:slug — the saved view
+ *     behind a short link (/dashboard/views/:slug). Opens for the owner and
+ *     anyone in the owner's bootstrap organization, whatever the view's scope.
+ *
+ * GOVERNANCE: Read-only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../../../../../lib/bootstrap-identity';
+import { isShareSlug, savedViewHref } from '../../../../../../../lib/marketing-saved-views';
+import { resolveShareSlug } from '../../../../../../../services/marketingSavedViews';
+import { getDb } from '../../../../../../../lib/db';
+
+const db = getDb('activity-spine/marketing/saved-views/share/[slug]');
+
+const NOT_FOUND = { error: 'Saved view not found' };
+
+export async function GET(request: NextRequest, { params }: { params: { slug: string } }) {
+  if (!isShareSlug(params.slug)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
+  try {
+    const view = await resolveShareSlug(db, viewerFromIdentity(identity), params.slug);
+    if (!view) return NextResponse.json(NOT_FOUND, { status: 404 });
+    return NextResponse.json({
+      data: view,
+      meta: { href: savedViewHref(view.state), generated_at: new Date().toISOString() },
+    });
+  } catch (err) {
+    console.error('[marketing/saved-views] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
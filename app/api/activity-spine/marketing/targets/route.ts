@@ -0,0 +1,131 @@
+/**
+ * Marketing Targets API Route
+ *
+ * GET /api/activity-spine/marketing/targets?start=YYYY-MM-DD&end=YYYY-MM-DD
+ *     Stored targets for every month overlapping the range. Months without a
+ *     row use the defaults in lib/marketing-targets.ts; callers resolve and
+ *     prorate with resolveTarget().
+ *
+ * PUT /api/activity-spine/marketing/targets
+ *     Body: { targets: [{ metric, month: 'YYYY-MM', value: number | null }] }
+ *     Upserts each value; null removes the row so the month falls back to the
+ *     default. Applied in one transaction. Requires the bootstrap
+ *     permission marketing:targets:edit (the /dashboard/marketing/targets
+ *     editor); updated_by is the caller's bootstrap email.
+ *
+ * GOVERNANCE: Writes analytics.marketing_targets only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import {
+  TARGETS_EDIT_PERMISSION,
+  isIsoDate,
+  monthOf,
+  validateTargetUpdates,
+} from '../../../../../lib/marketing-targets';
+import type { MarketingTarget } from '../../../../../types/activity-spine';
+import { getDb } from '../../../../../lib/db';
+
+const readDb = getDb('activity-spine/marketing/targets');
+const db = getDb('activity-spine/marketing/targets', { role: 'write' });
+
+const MAX_RANGE_DAYS = 732;
+
+function mapRow(r: Record<string, unknown>): MarketingTarget {
+  return {
+    metric: r.metric as MarketingTarget['metric'],
+    month: String(r.month),
+    value: Number(r.value),
+    updated_by: String(r.updated_by),
+    updated_at: r.updated_at instanceof Date ? r.updated_at.toISOString() : String(r.updated_at),
+  };
+}
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const start = sp.get('start');
+  const end = sp.get('end');
+  if (!isIsoDate(start) || !isIsoDate(end)) {
+    return NextResponse.json({ error: 'start and end must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (end < start) {
+    return NextResponse.json({ error: 'end must not be before start' }, { status: 400 });
+  }
+  const rangeDays = (new Date(`${end}T00:00:00Z`).getTime() - new Date(`${start}T00:00:00Z`).getTime()) / 86400000;
+  if (rangeDays > MAX_RANGE_DAYS) {
+    return NextResponse.json({ error: `Range must not exceed ${MAX_RANGE_DAYS} days` }, { status: 400 });
+  }
+
+  try {
+    const result = await readDb.query(
+      `SELECT metric, to_char(month, 'YYYY-MM-DD') AS month, value::float AS value, updated_by, updated_at
+       FROM analytics.marketing_targets
+       WHERE month BETWEEN $1::date AND $2::date
+       ORDER BY month, metric`,
+      [monthOf(start), end],
+    );
+    return NextResponse.json({
+      data: result.rows.map(mapRow),
+      meta: { start, end, generated_at: new Date().toISOString() },
+    });
+  } catch (err) {
+    console.error('[marketing/targets] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  const auth = await authorizeRequest(req, TARGETS_EDIT_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const parsed = validateTargetUpdates(body);
+  if ('error' in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const actor = auth.identity.user.email || auth.identity.user.id;
+  const client = await db.connect();
+  try {
+    await client.query('BEGIN');
+    for (const t of parsed.value) {
+      if (t.value == null) {
+        await client.query(
+          'DELETE FROM analytics.marketing_targets WHERE metric = $1 AND month = $2::date',
+          [t.metric, t.month],
+        );
+      } else {
+        await client.query(
+          `INSERT INTO analytics.marketing_targets (metric, month, value, updated_by)
+           VALUES ($1, $2::date, $3, $4)
+           ON CONFLICT (metric, month)
+           DO UPDATE SET value = EXCLUDED.value, updated_by = EXCLUDED.updated_by, updated_at = NOW()`,
+          [t.metric, t.month, t.value, actor],
+        );
+      }
+    }
+    await client.query('COMMIT');
+    return NextResponse.json({
+      data: { updated: parsed.value.length },
+      meta: { generated_at: new Date().toISOString() },
+    });
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('[marketing/targets] Error:', (err as Error).message);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  } finally {
+    client.release();
+  }
+}
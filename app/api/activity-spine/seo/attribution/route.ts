@@ -2,13 +2,9 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('activity-spine/seo/attribution');
 
 type View = 'page-performance' | 'cluster-performance';
 
@@ -42,7 +38,7 @@ async function getPagePerformance(sp: URLSearchParams) {
   // analytics.page_topic_cluster_attribution (page_url is unique there), the
   // same mapping seo.cluster_quote_performance is built from, so we LEFT JOIN
   // it back on raw_page_url to keep the Cluster column populated.
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT
        pqp.canonical_page_url,
        pqp.raw_page_url,
@@ -80,7 +76,7 @@ async function getPagePerformance(sp: URLSearchParams) {
 }
 
 async function getClusterPerformance() {
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT
        topic_cluster,
        mapped_pages,
@@ -8,6 +8,8 @@
  * 
  * GOVERNANCE CONSTRAINTS:
  * - Only allowed mutation: INSERT INTO core.campaigns
+ *   (plus the core.campaign_template_usages link row when the wizard started
+ *   from a template - records the template version, nothing else)
  * - No writes to activity.events
  * - No writes to leads, orgs, contacts
  * - No execution, approval, sourcing, or readiness logic
@@ -114,6 +116,10 @@ function mapPayloadToRow(payload: CampaignCreatePayload): Omit<CampaignRow, 'id'
       min: payload.icp.company_size.min,
       max: payload.icp.company_size.max,
     } : undefined,
+    exclusions: (payload.icp.exclusions?.industries?.length || payload.icp.exclusions?.domains?.length) ? {
+      industries: payload.icp.exclusions.industries || undefined,
+      domains: payload.icp.exclusions.domains || undefined,
+    } : undefined,
     metadata: payload.campaign_identity.description ? {
       description: payload.campaign_identity.description,
     } : undefined,
@@ -219,6 +225,22 @@ export async function POST(request: NextRequest) {
 
     console.log('[campaign-create] Campaign created successfully:', data);
 
+    // Remember the template version the wizard started from so the campaign
+    // can later show what changed in the template. Not fatal: the campaign
+    // already exists and is complete without the link.
+    if (payload.template?.template_id && Number.isInteger(payload.template.version)) {
+      const { error: usageError } = await supabase
+        .from('campaign_template_usages')
+        .insert({
+          campaign_id: data.id,
+          template_id: payload.template.template_id,
+          template_version: payload.template.version,
+        });
+      if (usageError) {
+        console.error('[campaign-create] Template usage insert error:', usageError);
+      }
+    }
+
     // Return success response
     const successResponse: CampaignCreateSuccessResponse = {
       success: true,
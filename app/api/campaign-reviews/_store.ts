@@ -0,0 +1,596 @@
+/**
+ * Campaign Review Store
+ *
+ * Reads and writes core.campaign_review_policies, core.campaign_reviewers,
+ * core.campaign_review_comments, core.campaign_review_decisions and
+ * core.campaign_governance_events for the review routes and the v1 submit,
+ * approve and revert-to-draft routes.
+ *
+ * Decisions are serialized per campaign by locking its policy row, so two
+ * concurrent approvals cannot both see themselves as the last one needed.
+ *
+ * Submissions, decisions and reverts take the caller's status transition as
+ * a callback and run it while that transaction is still open: the review
+ * writes only commit once the status-guarded update has changed the
+ * campaign, and roll back when it fails or matched nothing.
+ *
+ * GOVERNANCE: core.campaigns is read to check that a campaign exists and to
+ * list the review queue; it is never modified here. Status transitions stay
+ * in the v1 routes and request-changes, which pass them to this store.
+ */
+
+import type { DbClient, DbPool, DbQueryable } from '../../../lib/db';
+import type { RequestIdentity } from '../../../lib/bootstrap-identity';
+import { MAX_REVIEWERS, approvalProgress, canReview, isSubmitter } from '../../sales-engine/lib/campaign-review';
+import type {
+  CampaignReviewComment,
+  CampaignReviewDecisionRecord,
+  CampaignReviewProgress,
+  CampaignReviewState,
+  CampaignReviewer,
+  GovernanceAction,
+  GovernanceEvent,
+  RequestChangesRequest,
+  ReviewActor,
+  ReviewCommentRequest,
+  ReviewDecision,
+  ReviewQueueFilter,
+  ReviewQueueItem,
+  ReviewerRequest,
+} from '../../sales-engine/types/campaign-review';
+
+const EVENT_LIMIT = 200;
+
+export function reviewActorFromIdentity(identity: RequestIdentity | null): ReviewActor {
+  return identity
+    ? { id: identity.user.id, email: identity.user.email?.toLowerCase() || null, name: identity.user.name || null }
+    : { id: null, email: null, name: null };
+}
+
+function iso(v: unknown): string {
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function str(v: unknown): string | null {
+  return v == null ? null : String(v);
+}
+
+function mapActor(r: Record<string, unknown>, prefix: string): ReviewActor {
+  return { id: str(r[`${prefix}_id`]), email: str(r[`${prefix}_email`]), name: str(r[`${prefix}_name`]) };
+}
+
+function mapDecision(r: Record<string, unknown>): CampaignReviewDecisionRecord {
+  return {
+    reviewer: mapActor(r, 'reviewer'),
+    decision: r.decision as ReviewDecision,
+    reason: str(r.reason),
+    review_round: Number(r.review_round),
+    decided_at: iso(r.decided_at),
+  };
+}
+
+function mapComment(r: Record<string, unknown>): CampaignReviewComment {
+  return {
+    id: String(r.id),
+    parent_id: str(r.parent_id),
+    field: str(r.field),
+    review_round: Number(r.review_round),
+    body: String(r.body),
+    author: mapActor(r, 'author'),
+    created_at: iso(r.created_at),
+  };
+}
+
+function mapEvent(r: Record<string, unknown>): GovernanceEvent {
+  return {
+    id: String(r.id),
+    action: r.action as GovernanceAction,
+    review_round: Number(r.review_round),
+    actor: mapActor(r, 'actor'),
+    details: r.details && typeof r.details === 'object' ? (r.details as Record<string, unknown>) : {},
+    created_at: iso(r.created_at),
+  };
+}
+
+async function insertEvent(
+  db: DbQueryable,
+  campaignId: string,
+  action: GovernanceAction,
+  round: number,
+  actor: ReviewActor,
+  details: Record<string, unknown> = {},
+): Promise<void> {
+  await db.query(
+    `INSERT INTO core.campaign_governance_events
+       (campaign_id, action, review_round, actor_id, actor_email, actor_name, details)
+     VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb)`,
+    [campaignId, action, round, actor.id, actor.email, actor.name, JSON.stringify(details)],
+  );
+}
+
+export async function campaignExists(db: DbQueryable, campaignId: string): Promise<boolean> {
+  const result = await db.query(`SELECT 1 FROM core.campaigns WHERE id = $1`, [campaignId]);
+  return result.rows.length > 0;
+}
+
+async function readPolicy(db: DbQueryable, campaignId: string): Promise<{ required: number; round: number }> {
+  const result = await db.query(
+    `SELECT required_approvals, review_round FROM core.campaign_review_policies WHERE campaign_id = $1`,
+    [campaignId],
+  );
+  const row = result.rows[0];
+  return row ? { required: Number(row.required_approvals), round: Number(row.review_round) } : { required: 1, round: 0 };
+}
+
+async function readReviewers(db: DbQueryable, campaignId: string): Promise<Record<string, unknown>[]> {
+  const result = await db.query(
+    `SELECT reviewer_email, reviewer_id, reviewer_name, assigned_by, assigned_at
+     FROM core.campaign_reviewers
+     WHERE campaign_id = $1
+     ORDER BY assigned_at, reviewer_email`,
+    [campaignId],
+  );
+  return result.rows;
+}
+
+async function readDecisions(db: DbQueryable, campaignId: string, round: number): Promise<CampaignReviewDecisionRecord[]> {
+  const result = await db.query(
+    `SELECT reviewer_id, reviewer_email, reviewer_name, decision, reason, review_round, decided_at
+     FROM core.campaign_review_decisions
+     WHERE campaign_id = $1 AND review_round = $2
+     ORDER BY decided_at DESC`,
+    [campaignId, round],
+  );
+  return result.rows.map(mapDecision);
+}
+
+/** Who submitted the given round, from its 'submitted' audit event. */
+async function readSubmitter(db: DbQueryable, campaignId: string, round: number): Promise<ReviewActor | null> {
+  const result = await db.query(
+    `SELECT actor_id, actor_email, actor_name
+     FROM core.campaign_governance_events
+     WHERE campaign_id = $1 AND review_round = $2 AND action = 'submitted'
+     ORDER BY created_at DESC
+     LIMIT 1`,
+    [campaignId, round],
+  );
+  return result.rows[0] ? mapActor(result.rows[0], 'actor') : null;
+}
+
+/** Review state for the panel, or null when the campaign does not exist. */
+export async function getReviewState(
+  db: DbQueryable,
+  campaignId: string,
+  viewer: ReviewActor,
+): Promise<CampaignReviewState | null> {
+  if (!(await campaignExists(db, campaignId))) return null;
+
+  const policy = await readPolicy(db, campaignId);
+  const [reviewerRows, decisions, submitter, comments, events] = await Promise.all([
+    readReviewers(db, campaignId),
+    readDecisions(db, campaignId, policy.round),
+    readSubmitter(db, campaignId, policy.round),
+    db.query(
+      `SELECT id, parent_id, field, review_round, body, author_id, author_email, author_name, created_at
+       FROM core.campaign_review_comments
+       WHERE campaign_id = $1
+       ORDER BY created_at`,
+      [campaignId],
+    ),
+    db.query(
+      `SELECT id, action, review_round, actor_id, actor_email, actor_name, details, created_at
+       FROM core.campaign_governance_events
+       WHERE campaign_id = $1
+       ORDER BY created_at DESC
+       LIMIT ${EVENT_LIMIT}`,
+      [campaignId],
+    ),
+  ]);
+
+  const decisionByEmail = new Map(decisions.map((d) => [d.reviewer.email?.toLowerCase(), d]));
+  const reviewers: CampaignReviewer[] = reviewerRows.map((r) => {
+    const decision = decisionByEmail.get(String(r.reviewer_email));
+    return {
+      email: String(r.reviewer_email),
+      id: str(r.reviewer_id),
+      name: str(r.reviewer_name),
+      assigned_by: String(r.assigned_by),
+      assigned_at: iso(r.assigned_at),
+      decision: decision?.decision ?? null,
+      decided_at: decision?.decided_at ?? null,
+    };
+  });
+  const viewerDecision = decisions.find((d) => d.reviewer.id !== null && d.reviewer.id === viewer.id);
+
+  return {
+    campaign_id: campaignId,
+    required_approvals: policy.required,
+    review_round: policy.round,
+    reviewers,
+    decisions,
+    comments: comments.rows.map(mapComment),
+    events: events.rows.map(mapEvent),
+    progress: approvalProgress(policy.required, reviewers, decisions),
+    viewer_can_review: viewer.id !== null && canReview(reviewers, viewer, submitter),
+    viewer_is_submitter: viewer.id !== null && isSubmitter(submitter, viewer),
+    viewer_decision: viewerDecision?.decision ?? null,
+  };
+}
+
+/**
+ * PENDING_REVIEW campaigns, longest waiting first. 'mine' keeps campaigns
+ * the viewer is an assigned reviewer of.
+ */
+export async function listReviewQueue(
+  db: DbQueryable,
+  viewer: ReviewActor,
+  filter: ReviewQueueFilter,
+): Promise<ReviewQueueItem[]> {
+  const campaigns = await db.query(
+    `SELECT c.id, c.name, c.updated_at,
+            COALESCE(p.required_approvals, 1) AS required_approvals,
+            COALESCE(p.review_round, 0) AS review_round
+     FROM core.campaigns c
+     LEFT JOIN core.campaign_review_policies p ON p.campaign_id = c.id
+     WHERE c.status = 'pending_review'`,
+  );
+  if (campaigns.rows.length === 0) return [];
+
+  const ids = campaigns.rows.map((r) => String(r.id));
+  const [reviewers, decisions, comments, submissions] = await Promise.all([
+    db.query(
+      `SELECT campaign_id, reviewer_email FROM core.campaign_reviewers
+       WHERE campaign_id = ANY($1) ORDER BY assigned_at, reviewer_email`,
+      [ids],
+    ),
+    db.query(
+      `SELECT d.campaign_id, d.reviewer_id, d.reviewer_email, d.reviewer_name, d.decision, d.reason, d.review_round, d.decided_at
+       FROM core.campaign_review_decisions d
+       JOIN core.campaign_review_policies p ON p.campaign_id = d.campaign_id AND p.review_round = d.review_round
+       WHERE d.campaign_id = ANY($1)`,
+      [ids],
+    ),
+    db.query(
+      `SELECT campaign_id, COUNT(*) AS comments FROM core.campaign_review_comments
+       WHERE campaign_id = ANY($1) GROUP BY campaign_id`,
+      [ids],
+    ),
+    db.query(
+      `SELECT DISTINCT ON (campaign_id) campaign_id, actor_email, actor_name, created_at
+       FROM core.campaign_governance_events
+       WHERE action = 'submitted' AND campaign_id = ANY($1)
+       ORDER BY campaign_id, created_at DESC`,
+      [ids],
+    ),
+  ]);
+
+  const group = <T>(rows: Record<string, unknown>[], map: (r: Record<string, unknown>) => T) => {
+    const out = new Map<string, T[]>();
+    rows.forEach((r) => {
+      const key = String(r.campaign_id);
+      out.set(key, [...(out.get(key) ?? []), map(r)]);
+    });
+    return out;
+  };
+  const reviewersBy = group(reviewers.rows, (r) => ({ email: String(r.reviewer_email) }));
+  const decisionsBy = group(decisions.rows, mapDecision);
+  const commentsBy = new Map(comments.rows.map((r) => [String(r.campaign_id), Number(r.comments)]));
+  const submissionsBy = new Map(submissions.rows.map((r) => [String(r.campaign_id), r]));
+
+  const items = campaigns.rows.map((c): ReviewQueueItem => {
+    const id = String(c.id);
+    const assigned = reviewersBy.get(id) ?? [];
+    const roundDecisions = decisionsBy.get(id) ?? [];
+    const submission = submissionsBy.get(id);
+    const viewerDecision = roundDecisions.find((d) => d.reviewer.id !== null && d.reviewer.id === viewer.id);
+    return {
+      campaign_id: id,
+      name: String(c.name),
+      review_round: Number(c.review_round),
+      submitted_at: submission ? iso(submission.created_at) : iso(c.updated_at),
+      submitted_by: submission ? str(submission.actor_name) ?? str(submission.actor_email) : null,
+      required_approvals: Number(c.required_approvals),
+      approvals: approvalProgress(Number(c.required_approvals), assigned, roundDecisions).approvals,
+      reviewers: assigned.map((r) => r.email),
+      comments: commentsBy.get(id) ?? 0,
+      assigned_to_viewer: !!viewer.email && assigned.some((r) => r.email === viewer.email),
+      viewer_decision: viewerDecision?.decision ?? null,
+    };
+  });
+
+  return items
+    .filter((item) => filter === 'all' || item.assigned_to_viewer)
+    .sort((a, b) => (a.submitted_at ?? '').localeCompare(b.submitted_at ?? ''));
+}
+
+/**
+ * Runs fn in a transaction holding the campaign's policy row (created with
+ * defaults if missing) FOR UPDATE.
+ */
+async function withPolicyLock<T>(
+  pool: DbPool,
+  campaignId: string,
+  fn: (client: DbClient, policy: { required: number; round: number }) => Promise<T>,
+): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    await client.query(
+      `INSERT INTO core.campaign_review_policies (campaign_id) VALUES ($1) ON CONFLICT (campaign_id) DO NOTHING`,
+      [campaignId],
+    );
+    const locked = await client.query(
+      `SELECT required_approvals, review_round FROM core.campaign_review_policies WHERE campaign_id = $1 FOR UPDATE`,
+      [campaignId],
+    );
+    const result = await fn(client, {
+      required: Number(locked.rows[0].required_approvals),
+      round: Number(locked.rows[0].review_round),
+    });
+    await client.query('COMMIT');
+    return result;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export async function setRequiredApprovals(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  requiredApprovals: number,
+): Promise<void> {
+  await withPolicyLock(pool, campaignId, async (client, policy) => {
+    if (policy.required === requiredApprovals) return;
+    await client.query(
+      `UPDATE core.campaign_review_policies
+       SET required_approvals = $2, updated_by = $3, updated_at = NOW()
+       WHERE campaign_id = $1`,
+      [campaignId, requiredApprovals, actor.id],
+    );
+    await insertEvent(client, campaignId, 'policy_changed', policy.round, actor, {
+      required_approvals: requiredApprovals,
+      previous_required_approvals: policy.required,
+    });
+  });
+}
+
+export async function assignReviewer(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  input: ReviewerRequest,
+): Promise<{ ok: true } | { ok: false; reason: 'too_many' }> {
+  return withPolicyLock(pool, campaignId, async (client, policy) => {
+    const existing = await readReviewers(client, campaignId);
+    if (existing.some((r) => r.reviewer_email === input.email)) return { ok: true } as const;
+    if (existing.length >= MAX_REVIEWERS) return { ok: false, reason: 'too_many' } as const;
+
+    await client.query(
+      `INSERT INTO core.campaign_reviewers (campaign_id, reviewer_email, reviewer_name, assigned_by)
+       VALUES ($1, $2, $3, $4)`,
+      [campaignId, input.email, input.name ?? null, actor.email ?? actor.id ?? 'unknown'],
+    );
+    await insertEvent(client, campaignId, 'reviewer_assigned', policy.round, actor, { reviewer_email: input.email });
+    return { ok: true } as const;
+  });
+}
+
+export async function removeReviewer(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  email: string,
+): Promise<{ ok: true } | { ok: false; reason: 'not_found' }> {
+  return withPolicyLock(pool, campaignId, async (client, policy) => {
+    const deleted = await client.query(
+      `DELETE FROM core.campaign_reviewers WHERE campaign_id = $1 AND reviewer_email = $2 RETURNING reviewer_email`,
+      [campaignId, email],
+    );
+    if (deleted.rows.length === 0) return { ok: false, reason: 'not_found' } as const;
+    await insertEvent(client, campaignId, 'reviewer_removed', policy.round, actor, { reviewer_email: email });
+    return { ok: true } as const;
+  });
+}
+
+/** Adds a comment in the current round. Replies take the field of their parent. */
+export async function addComment(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  input: ReviewCommentRequest,
+): Promise<{ ok: true; comment: CampaignReviewComment } | { ok: false; reason: 'parent_not_found' }> {
+  return withPolicyLock(pool, campaignId, async (client, policy) => {
+    let field = input.field ?? null;
+    if (input.parent_id) {
+      const parent = await client.query(
+        `SELECT field FROM core.campaign_review_comments WHERE id::text = $1 AND campaign_id = $2`,
+        [input.parent_id, campaignId],
+      );
+      if (!parent.rows[0]) return { ok: false, reason: 'parent_not_found' } as const;
+      field = str(parent.rows[0].field);
+    }
+
+    const inserted = await client.query(
+      `INSERT INTO core.campaign_review_comments
+         (campaign_id, review_round, parent_id, field, body, author_id, author_email, author_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id, parent_id, field, review_round, body, author_id, author_email, author_name, created_at`,
+      [campaignId, policy.round, input.parent_id ?? null, field, input.body, actor.id, actor.email, actor.name],
+    );
+    const comment = mapComment(inserted.rows[0]);
+    await insertEvent(client, campaignId, 'commented', policy.round, actor, {
+      comment_id: comment.id,
+      ...(field && { field }),
+    });
+    return { ok: true, comment } as const;
+  });
+}
+
+/**
+ * A status-guarded campaign update supplied by the route. Resolves false
+ * when the campaign was no longer in the expected status, so nothing
+ * changed; throws when the update failed.
+ */
+export type StatusTransition = () => Promise<boolean>;
+
+/** Thrown inside withPolicyLock to roll back when a transition matched nothing. */
+class StatusChangedError extends Error {}
+
+async function applyTransition(transition: StatusTransition): Promise<void> {
+  if (!(await transition())) throw new StatusChangedError('Campaign status changed');
+}
+
+async function unlessStatusChanged<T>(work: Promise<T>): Promise<T | { ok: false; reason: 'status_changed' }> {
+  try {
+    return await work;
+  } catch (err) {
+    if (err instanceof StatusChangedError) return { ok: false, reason: 'status_changed' } as const;
+    throw err;
+  }
+}
+
+async function recordDecision(
+  client: DbClient,
+  campaignId: string,
+  round: number,
+  actor: ReviewActor,
+  decision: ReviewDecision,
+  reason: string | null,
+): Promise<void> {
+  await client.query(
+    `INSERT INTO core.campaign_review_decisions
+       (campaign_id, review_round, reviewer_id, reviewer_email, reviewer_name, decision, reason)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (campaign_id, review_round, reviewer_id) DO UPDATE
+       SET decision = EXCLUDED.decision, reason = EXCLUDED.reason, decided_at = NOW()`,
+    [campaignId, round, actor.id, actor.email, actor.name, decision, reason],
+  );
+  await client.query(
+    `UPDATE core.campaign_reviewers
+     SET reviewer_id = $3, reviewer_name = COALESCE(reviewer_name, $4)
+     WHERE campaign_id = $1 AND reviewer_email = $2`,
+    [campaignId, actor.email, actor.id, actor.name],
+  );
+}
+
+/**
+ * Starts a new review round when a campaign is submitted; submit moves it
+ * from DRAFT to PENDING_REVIEW.
+ */
+export async function recordSubmission(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  submit: StatusTransition,
+): Promise<{ ok: true; round: number } | { ok: false; reason: 'status_changed' }> {
+  return unlessStatusChanged(withPolicyLock(pool, campaignId, async (client, policy) => {
+    const round = policy.round + 1;
+    await client.query(
+      `UPDATE core.campaign_review_policies SET review_round = $2, updated_at = NOW() WHERE campaign_id = $1`,
+      [campaignId, round],
+    );
+    await insertEvent(client, campaignId, 'submitted', round, actor, { required_approvals: policy.required });
+    await applyTransition(submit);
+    return { ok: true, round } as const;
+  }));
+}
+
+export type ReviewDecisionResult =
+  | { ok: true; round: number; progress: CampaignReviewProgress }
+  | { ok: false; reason: 'not_reviewer' | 'submitter' | 'status_changed' };
+
+/** Why the actor may not decide the current round, or null when they may. */
+async function decisionBlocker(
+  client: DbClient,
+  campaignId: string,
+  round: number,
+  actor: ReviewActor,
+  reviewers: { email: string }[],
+): Promise<'not_reviewer' | 'submitter' | null> {
+  if (!actor.id) return 'not_reviewer';
+  const submitter = await readSubmitter(client, campaignId, round);
+  if (isSubmitter(submitter, actor)) return 'submitter';
+  return canReview(reviewers, actor, submitter) ? null : 'not_reviewer';
+}
+
+/**
+ * Records the actor's approval for the current round and returns the
+ * progress. The round's submitter cannot approve it. When the approval
+ * completes the round, activate moves the campaign from PENDING_REVIEW to
+ * active and the activation is recorded with it.
+ */
+export async function recordApproval(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  activate: StatusTransition,
+): Promise<ReviewDecisionResult> {
+  return unlessStatusChanged(withPolicyLock(pool, campaignId, async (client, policy) => {
+    const reviewers = (await readReviewers(client, campaignId)).map((r) => ({ email: String(r.reviewer_email) }));
+    const blocked = await decisionBlocker(client, campaignId, policy.round, actor, reviewers);
+    if (blocked) return { ok: false, reason: blocked } as const;
+
+    await recordDecision(client, campaignId, policy.round, actor, 'approved', null);
+    const progress = approvalProgress(policy.required, reviewers, await readDecisions(client, campaignId, policy.round));
+    const counts = { approvals: progress.approvals, required_approvals: progress.required };
+    await insertEvent(client, campaignId, 'approved', policy.round, actor, counts);
+    if (progress.complete) {
+      await applyTransition(activate);
+      await insertEvent(client, campaignId, 'activated', policy.round, actor, counts);
+    }
+    return { ok: true, round: policy.round, progress } as const;
+  }));
+}
+
+/**
+ * Records a change request: the decision, a comment carrying the reason
+ * (on the given field) and the audit event. sendBack moves the campaign
+ * from PENDING_REVIEW to DRAFT.
+ */
+export async function recordChangesRequest(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  input: RequestChangesRequest,
+  sendBack: StatusTransition,
+): Promise<ReviewDecisionResult> {
+  return unlessStatusChanged(withPolicyLock(pool, campaignId, async (client, policy) => {
+    const reviewers = (await readReviewers(client, campaignId)).map((r) => ({ email: String(r.reviewer_email) }));
+    const blocked = await decisionBlocker(client, campaignId, policy.round, actor, reviewers);
+    if (blocked) return { ok: false, reason: blocked } as const;
+
+    await recordDecision(client, campaignId, policy.round, actor, 'changes_requested', input.reason);
+    await client.query(
+      `INSERT INTO core.campaign_review_comments
+         (campaign_id, review_round, field, body, author_id, author_email, author_name)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [campaignId, policy.round, input.field ?? null, input.reason, actor.id, actor.email, actor.name],
+    );
+    await insertEvent(client, campaignId, 'changes_requested', policy.round, actor, {
+      reason: input.reason,
+      ...(input.field && { field: input.field }),
+    });
+    await applyTransition(sendBack);
+    const progress = approvalProgress(policy.required, reviewers, await readDecisions(client, campaignId, policy.round));
+    return { ok: true, round: policy.round, progress } as const;
+  }));
+}
+
+/** Records a revert to DRAFT (e.g. to edit a submitted or approved campaign). */
+export async function recordRevert(
+  pool: DbPool,
+  campaignId: string,
+  actor: ReviewActor,
+  fromStatus: string,
+  revert: StatusTransition,
+): Promise<{ ok: true } | { ok: false; reason: 'status_changed' }> {
+  return unlessStatusChanged(withPolicyLock(pool, campaignId, async (client, policy) => {
+    await insertEvent(client, campaignId, 'reverted', policy.round, actor, { from_status: fromStatus });
+    await applyTransition(revert);
+    return { ok: true } as const;
+  }));
+}
@@ -0,0 +1,56 @@
+/**
+ * Campaign Review Queue API Route
+ *
+ * GET /api/campaign-reviews?filter=all|mine
+ *
+ * Campaigns waiting for review (status 'pending_review'), longest waiting
+ * first, with approval progress for the current round, assigned reviewers
+ * and comment counts. filter=mine keeps campaigns the caller is an assigned
+ * reviewer of.
+ *
+ * GOVERNANCE: Read-only.
+ *
+ * RUNTIME:
+ * - Must run in Node runtime for database access
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../lib/db';
+import { resolveRequestIdentity } from '../../../lib/bootstrap-identity';
+import type { ReviewQueueFilter, ReviewQueueResponse } from '../../sales-engine/types/campaign-review';
+import { listReviewQueue, reviewActorFromIdentity } from './_store';
+
+const db = getDb('campaign-reviews', { database: 'core' });
+
+function errorResponse(error: string, status: number) {
+  const body: ReviewQueueResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const filterParam = request.nextUrl.searchParams.get('filter') ?? 'all';
+  if (filterParam !== 'all' && filterParam !== 'mine') {
+    return errorResponse('filter must be one of: all, mine', 400);
+  }
+
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const items = await listReviewQueue(db, reviewActorFromIdentity(identity), filterParam as ReviewQueueFilter);
+    const body: ReviewQueueResponse = { success: true, data: items };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[campaign-reviews] Queue error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * Campaign Suggest API Route
+ *
+ * POST /api/campaign-suggest
+ *
+ * Drafts an ICPDefinition and OutreachContext for the campaign wizard's AI
+ * Assist step from:
+ *   - the campaign basics in the request (name, description, keywords)
+ *   - QMS quotes from the last SIGNAL_WINDOW_DAYS days (analytics.raw_qms_deals):
+ *     industries inferred from company / sign text, customer cities, paid-search
+ *     terms, sign types and lost-quote reasons
+ *   - past campaign lead yield (core.campaigns ICP × public.leads approvals)
+ *
+ * The provider is chosen by suggestionProviderFromEnv (local unless a chat
+ * provider is configured); if the chat provider fails, the local provider
+ * answers and fallback_reason says why. Either data source may be missing —
+ * the rationale then says what could not be used.
+ *
+ * GOVERNANCE:
+ * - Read-only: no writes anywhere. Suggestions are advisory and only fill the
+ *   wizard form; the campaign is still created through /api/campaign-create.
+ * - Customer company names and sign text are read to infer industry and are
+ *   never returned or sent to a provider; only aggregates are.
+ */
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../lib/db';
+import {
+  localSuggestionProvider,
+  suggestionProviderFromEnv,
+  summarizeQuoteSignals,
+  type PastCampaignSignal,
+  type QuoteSignalRow,
+  type SuggestionSignals,
+} from '../../sales-engine/lib/campaign-suggestions';
+import type {
+  CampaignSuggestErrorResponse,
+  CampaignSuggestRequest,
+  CampaignSuggestSuccessResponse,
+} from '../../sales-engine/types/campaign-suggest';
+
+const analyticsDb = getDb('campaign-suggest');
+const coreDb = getDb('campaign-suggest', { database: 'core' });
+
+const SIGNAL_WINDOW_DAYS = 365;
+
+const QUOTES_SQL = `
+  SELECT customer_company, customer_city, customer_state, sign_text, sign_type,
+         utm_term, utm_medium, cancel_reason, quote_activity, total_price_cents,
+         created_at, quote_paid_at
+  FROM analytics.raw_qms_deals
+  WHERE created_at >= NOW() - make_interval(days => $1::int)
+`;
+
+const CAMPAIGNS_SQL = `
+  SELECT c.id, c.name, c.icp, c.lead_qualification_config,
+         COUNT(l.campaign_id) AS leads,
+         COUNT(l.campaign_id) FILTER (WHERE l.approval_status = 'approved') AS approved_leads
+  FROM core.campaigns c
+  LEFT JOIN public.leads l ON l.campaign_id::text = c.id::text
+  GROUP BY c.id, c.name, c.icp, c.lead_qualification_config, c.created_at
+  ORDER BY c.created_at DESC
+  LIMIT 50
+`;
+
+const EMPTY_QUOTES: SuggestionSignals['quotes'] = summarizeQuoteSignals([]);
+
+function strings(v: unknown): string[] {
+  return Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '') : [];
+}
+
+async function getQuoteSignals(): Promise<SuggestionSignals['quotes']> {
+  if (!isDbConfigured()) return EMPTY_QUOTES;
+  try {
+    const { rows } = await analyticsDb.query(QUOTES_SQL, [SIGNAL_WINDOW_DAYS]);
+    return summarizeQuoteSignals(rows.map((r): QuoteSignalRow => ({
+      customer_company: r.customer_company ?? null,
+      customer_city: r.customer_city ?? null,
+      customer_state: r.customer_state ?? null,
+      sign_text: r.sign_text ?? null,
+      sign_type: r.sign_type ?? null,
+      utm_term: r.utm_term ?? null,
+      utm_medium: r.utm_medium ?? null,
+      cancel_reason: r.cancel_reason ?? null,
+      quote_activity: String(r.quote_activity),
+      total_price_cents: Number(r.total_price_cents ?? 0),
+      created_at: new Date(r.created_at).toISOString(),
+      quote_paid_at: r.quote_paid_at ? new Date(r.quote_paid_at).toISOString() : null,
+    })));
+  } catch (err) {
+    console.warn('[campaign-suggest] quote signals unavailable:', err instanceof Error ? err.message : err);
+    return EMPTY_QUOTES;
+  }
+}
+
+async function getPastCampaignSignals(): Promise<PastCampaignSignal[]> {
+  if (!isDbConfigured('core')) return [];
+  try {
+    const { rows } = await coreDb.query(CAMPAIGNS_SQL);
+    return rows.map((r) => {
+      const icp = (r.icp ?? {}) as Record<string, unknown>;
+      const qualification = (r.lead_qualification_config ?? {}) as Record<string, unknown>;
+      const size = icp.company_size as { min?: number; max?: number } | undefined;
+      return {
+        id: String(r.id),
+        name: String(r.name),
+        industries: strings(icp.industries),
+        keywords: strings(icp.keywords),
+        job_titles: strings(qualification.job_titles),
+        company_size: size && (size.min != null || size.max != null) ? size : null,
+        leads: Number(r.leads ?? 0),
+        approved_leads: Number(r.approved_leads ?? 0),
+      };
+    });
+  } catch (err) {
+    console.warn('[campaign-suggest] past campaign signals unavailable:', err instanceof Error ? err.message : err);
+    return [];
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: CampaignSuggestRequest;
+  try {
+    body = await request.json();
+  } catch {
+    const errorResponse: CampaignSuggestErrorResponse = { success: false, error: 'Invalid JSON body' };
+    return NextResponse.json(errorResponse, { status: 400 });
+  }
+
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    const errorResponse: CampaignSuggestErrorResponse = { success: false, error: 'Campaign name is required' };
+    return NextResponse.json(errorResponse, { status: 400 });
+  }
+  const input: CampaignSuggestRequest = {
+    name,
+    description: typeof body.description === 'string' ? body.description : undefined,
+    keywords: strings(body.keywords),
+  };
+
+  try {
+    const [quotes, pastCampaigns] = await Promise.all([getQuoteSignals(), getPastCampaignSignals()]);
+    const signals: SuggestionSignals = { window_days: SIGNAL_WINDOW_DAYS, quotes, past_campaigns: pastCampaigns };
+
+    const provider = suggestionProviderFromEnv();
+    let data;
+    try {
+      data = await provider.generate(input, signals);
+    } catch (err) {
+      if (provider.id === localSuggestionProvider.id) throw err;
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`[campaign-suggest] ${provider.id} failed, using local provider:`, reason);
+      data = { ...(await localSuggestionProvider.generate(input, signals)), fallback_reason: `${provider.id}: ${reason}` };
+    }
+
+    const successResponse: CampaignSuggestSuccessResponse = { success: true, data };
+    return NextResponse.json(successResponse);
+  } catch (error) {
+    console.error('[campaign-suggest] Unexpected error:', error);
+    const errorResponse: CampaignSuggestErrorResponse = { success: false, error: 'Internal server error' };
+    return NextResponse.json(errorResponse, { status: 500 });
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Campaign Template API Route
+ *
+ * GET    /api/campaign-templates/:id — the template, every version (newest
+ *        first) and the campaigns created from it with the version each used
+ * PATCH  /api/campaign-templates/:id — owner only. name / description / scope
+ *        change in place; content or source_campaign_id (plus an optional
+ *        change_note) appends a new version
+ * DELETE /api/campaign-templates/:id — soft delete (owner only)
+ *
+ * GOVERNANCE:
+ * - Writes core.campaign_templates and core.campaign_template_versions only
+ * - Campaigns created from earlier versions are never changed; their detail
+ *   page shows what changed in the template since (see
+ *   /api/campaigns/:id/template-origin)
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../lib/db';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../../lib/bootstrap-identity';
+import { validateTemplateInput } from '../../../sales-engine/lib/campaign-templates';
+import type {
+  CampaignTemplateDetailResponse,
+  CampaignTemplateErrorResponse,
+  CampaignTemplateResponse,
+} from '../../../sales-engine/types/campaign-template';
+import {
+  deleteTemplate,
+  getTemplateDetail,
+  updateTemplate,
+} from '../_store';
+
+const readDb = getDb('campaign-templates/[id]', { database: 'core' });
+const db = getDb('campaign-templates/[id]', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignTemplateErrorResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+const NOT_FOUND = 'Template not found';
+const FORBIDDEN = 'Only the owner can change this template';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse(NOT_FOUND, 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const detail = await getTemplateDetail(readDb, viewerFromIdentity(identity), params.id);
+    if (!detail) {
+      return errorResponse(NOT_FOUND, 404);
+    }
+    const body: CampaignTemplateDetailResponse = { success: true, data: detail };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[campaign-templates] Get error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse(NOT_FOUND, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validateTemplateInput(body, true);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (parsed.value.source_campaign_id && !UUID_RE.test(parsed.value.source_campaign_id)) {
+    return errorResponse('Source campaign not found', 404);
+  }
+
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+  const viewer = viewerFromIdentity(identity);
+  if (parsed.value.scope === 'team' && !viewer.teamId) {
+    return errorResponse('Team templates require an organization on your account', 400);
+  }
+
+  try {
+    const result = await updateTemplate(db, viewer, params.id, parsed.value);
+    if (!result.ok) {
+      if (result.reason === 'forbidden') return errorResponse(FORBIDDEN, 403);
+      if (result.reason === 'campaign_not_found') return errorResponse('Source campaign not found', 404);
+      return errorResponse(NOT_FOUND, 404);
+    }
+    console.log('[campaign-templates] Template updated:', params.id, 'version:', result.template.current_version);
+    const response: CampaignTemplateResponse = { success: true, data: result.template };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[campaign-templates] Update error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse(NOT_FOUND, 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const result = await deleteTemplate(db, viewerFromIdentity(identity), params.id);
+    if (!result.ok) {
+      return result.reason === 'forbidden' ? errorResponse(FORBIDDEN, 403) : errorResponse(NOT_FOUND, 404);
+    }
+    return NextResponse.json({ success: true, data: { id: params.id, deleted: true } });
+  } catch (error) {
+    console.error('[campaign-templates] Delete error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, PATCH, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
@@ -0,0 +1,305 @@
+/**
+ * Campaign Template Store
+ *
+ * Reads and writes core.campaign_templates, core.campaign_template_versions
+ * and core.campaign_template_usages for the /api/campaign-templates routes.
+ *
+ * Every call is made on behalf of a viewer — the bootstrap identity of the
+ * request (lib/bootstrap-identity.ts). A viewer sees their own templates plus
+ * the 'team' templates of their organization; only the owner may change or
+ * delete a template. Content changes append a version and never rewrite an
+ * old one. Deletes are soft (deleted_at).
+ *
+ * GOVERNANCE: Writes the three template tables only. core.campaigns is read
+ * to save a template from a campaign and to name the campaigns created from
+ * one; it is never modified here.
+ */
+
+import type { DbPool, DbQueryable } from '../../../lib/db';
+import type { RequestViewer } from '../../../lib/bootstrap-identity';
+import {
+  diffTemplateContent,
+  normalizeTemplateContent,
+  templateContentFromCampaign,
+  type CampaignTemplateInput,
+} from '../../sales-engine/lib/campaign-templates';
+import type {
+  CampaignTemplate,
+  CampaignTemplateContent,
+  CampaignTemplateDetail,
+  CampaignTemplateOrigin,
+} from '../../sales-engine/types/campaign-template';
+
+export type TemplateWriteResult =
+  | { ok: true; template: CampaignTemplate }
+  | { ok: false; reason: 'not_found' | 'forbidden' | 'campaign_not_found' };
+
+// $1 = viewer user id, $2 = viewer team id
+const SELECT_TEMPLATES = `
+  SELECT t.id, t.name, t.description, t.scope, t.current_version, t.owner_id, t.owner_email,
+         t.created_at, t.updated_at, v.content,
+         (t.owner_id = $1) AS is_owner,
+         (SELECT COUNT(*) FROM core.campaign_template_usages u WHERE u.template_id = t.id) AS campaigns_created
+  FROM core.campaign_templates t
+  JOIN core.campaign_template_versions v
+    ON v.template_id = t.id AND v.version = t.current_version
+  WHERE t.deleted_at IS NULL
+    AND (t.owner_id = $1 OR (t.scope = 'team' AND t.team_id IS NOT NULL AND t.team_id = $2))`;
+
+function iso(v: unknown): string {
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function mapTemplate(r: Record<string, unknown>): CampaignTemplate {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    description: (r.description as string | null) ?? null,
+    scope: r.scope === 'user' ? 'user' : 'team',
+    current_version: Number(r.current_version),
+    owner_id: String(r.owner_id),
+    owner_email: (r.owner_email as string | null) ?? null,
+    is_owner: Boolean(r.is_owner),
+    campaigns_created: Number(r.campaigns_created ?? 0),
+    content: normalizeTemplateContent(r.content),
+    created_at: iso(r.created_at),
+    updated_at: iso(r.updated_at),
+  };
+}
+
+/** The viewer's templates and their team's, most recently updated first. */
+export async function listTemplates(pool: DbPool, viewer: RequestViewer): Promise<CampaignTemplate[]> {
+  const result = await pool.query(
+    `${SELECT_TEMPLATES} ORDER BY t.updated_at DESC, lower(t.name)`,
+    [viewer.userId, viewer.teamId],
+  );
+  return result.rows.map(mapTemplate);
+}
+
+export async function getTemplate(pool: DbQueryable, viewer: RequestViewer, id: string): Promise<CampaignTemplate | null> {
+  const result = await pool.query(`${SELECT_TEMPLATES} AND t.id = $3`, [viewer.userId, viewer.teamId, id]);
+  return result.rows[0] ? mapTemplate(result.rows[0]) : null;
+}
+
+export async function getTemplateDetail(
+  pool: DbPool,
+  viewer: RequestViewer,
+  id: string,
+): Promise<CampaignTemplateDetail | null> {
+  const template = await getTemplate(pool, viewer, id);
+  if (!template) return null;
+
+  const [versions, usages] = await Promise.all([
+    pool.query(
+      `SELECT version, content, change_note, source_campaign_id, created_by_email, created_at
+       FROM core.campaign_template_versions
+       WHERE template_id = $1
+       ORDER BY version DESC`,
+      [id],
+    ),
+    pool.query(
+      `SELECT u.campaign_id, c.name AS campaign_name, u.template_version, u.created_at
+       FROM core.campaign_template_usages u
+       LEFT JOIN core.campaigns c ON c.id = u.campaign_id
+       WHERE u.template_id = $1
+       ORDER BY u.created_at DESC`,
+      [id],
+    ),
+  ]);
+
+  return {
+    template,
+    versions: versions.rows.map((r) => ({
+      version: Number(r.version),
+      content: normalizeTemplateContent(r.content),
+      change_note: (r.change_note as string | null) ?? null,
+      source_campaign_id: r.source_campaign_id == null ? null : String(r.source_campaign_id),
+      created_by_email: (r.created_by_email as string | null) ?? null,
+      created_at: iso(r.created_at),
+    })),
+    usages: usages.rows.map((r) => ({
+      campaign_id: String(r.campaign_id),
+      campaign_name: (r.campaign_name as string | null) ?? null,
+      template_version: Number(r.template_version),
+      created_at: iso(r.created_at),
+    })),
+  };
+}
+
+/** Template content saved from an existing campaign, or null when it does not exist. */
+async function campaignContent(db: DbQueryable, campaignId: string): Promise<CampaignTemplateContent | null> {
+  const result = await db.query(
+    `SELECT icp, sourcing_config, lead_qualification_config FROM core.campaigns WHERE id = $1`,
+    [campaignId],
+  );
+  const row = result.rows[0];
+  return row
+    ? templateContentFromCampaign({
+        icp: row.icp,
+        sourcing_config: row.sourcing_config,
+        lead_qualification_config: row.lead_qualification_config,
+      })
+    : null;
+}
+
+async function insertVersion(
+  db: DbQueryable,
+  viewer: RequestViewer,
+  templateId: string,
+  version: number,
+  content: CampaignTemplateContent,
+  input: CampaignTemplateInput,
+): Promise<void> {
+  await db.query(
+    `INSERT INTO core.campaign_template_versions
+       (template_id, version, content, change_note, source_campaign_id, created_by, created_by_email)
+     VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)`,
+    [templateId, version, JSON.stringify(content), input.change_note ?? null, input.source_campaign_id ?? null, viewer.userId, viewer.email],
+  );
+}
+
+/** Creates the template with version 1; scope defaults to 'team' when the viewer has one. */
+export async function createTemplate(
+  pool: DbPool,
+  viewer: RequestViewer,
+  input: CampaignTemplateInput,
+): Promise<TemplateWriteResult> {
+  const content = input.source_campaign_id ? await campaignContent(pool, input.source_campaign_id) : input.content;
+  if (!content) return { ok: false, reason: 'campaign_not_found' };
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const inserted = await client.query(
+      `INSERT INTO core.campaign_templates (name, description, scope, owner_id, owner_email, team_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [input.name, input.description ?? null, input.scope ?? (viewer.teamId ? 'team' : 'user'), viewer.userId, viewer.email, viewer.teamId],
+    );
+    const id = String(inserted.rows[0].id);
+    await insertVersion(client, viewer, id, 1, content, input);
+    await client.query('COMMIT');
+    return { ok: true, template: (await getTemplate(pool, viewer, id)) as CampaignTemplate };
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Updates name / description / scope in place and, when content or
+ * source_campaign_id is given, appends version current_version + 1. A
+ * content change identical to the current version does not add a version.
+ */
+export async function updateTemplate(
+  pool: DbPool,
+  viewer: RequestViewer,
+  id: string,
+  input: CampaignTemplateInput,
+): Promise<TemplateWriteResult> {
+  const current = await getTemplate(pool, viewer, id);
+  if (!current) return { ok: false, reason: 'not_found' };
+  if (!current.is_owner) return { ok: false, reason: 'forbidden' };
+
+  let content = input.content;
+  if (input.source_campaign_id) {
+    const fromCampaign = await campaignContent(pool, input.source_campaign_id);
+    if (!fromCampaign) return { ok: false, reason: 'campaign_not_found' };
+    content = fromCampaign;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const locked = await client.query(
+      `SELECT current_version FROM core.campaign_templates WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [id],
+    );
+    if (!locked.rows[0]) {
+      await client.query('ROLLBACK');
+      return { ok: false, reason: 'not_found' };
+    }
+
+    const sets: string[] = ['updated_at = NOW()'];
+    const params: unknown[] = [id];
+    if (input.name !== undefined) {
+      params.push(input.name);
+      sets.push(`name = $${params.length}`);
+    }
+    if (input.description !== undefined) {
+      params.push(input.description);
+      sets.push(`description = $${params.length}`);
+    }
+    if (input.scope !== undefined) {
+      params.push(input.scope);
+      sets.push(`scope = $${params.length}`);
+    }
+    if (content && diffTemplateContent(current.content, content).length > 0) {
+      const next = Number(locked.rows[0].current_version) + 1;
+      await insertVersion(client, viewer, id, next, content, input);
+      params.push(next);
+      sets.push(`current_version = $${params.length}`);
+    }
+
+    await client.query(`UPDATE core.campaign_templates SET ${sets.join(', ')} WHERE id = $1`, params);
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+
+  const template = await getTemplate(pool, viewer, id);
+  return template ? { ok: true, template } : { ok: false, reason: 'not_found' };
+}
+
+export async function deleteTemplate(
+  pool: DbPool,
+  viewer: RequestViewer,
+  id: string,
+): Promise<{ ok: true } | { ok: false; reason: 'not_found' | 'forbidden' }> {
+  const current = await getTemplate(pool, viewer, id);
+  if (!current) return { ok: false, reason: 'not_found' };
+  if (!current.is_owner) return { ok: false, reason: 'forbidden' };
+  await pool.query(
+    `UPDATE core.campaign_templates SET deleted_at = NOW() WHERE id = $1 AND deleted_at IS NULL`,
+    [id],
+  );
+  return { ok: true };
+}
+
+/**
+ * The template a campaign was created from, if the viewer can see it, with
+ * the changes between that version and the template's current one.
+ */
+export async function getCampaignTemplateOrigin(
+  pool: DbPool,
+  viewer: RequestViewer,
+  campaignId: string,
+): Promise<CampaignTemplateOrigin | null> {
+  const usage = await pool.query(
+    `SELECT u.template_id, u.template_version, v.content
+     FROM core.campaign_template_usages u
+     LEFT JOIN core.campaign_template_versions v
+       ON v.template_id = u.template_id AND v.version = u.template_version
+     WHERE u.campaign_id = $1`,
+    [campaignId],
+  );
+  const row = usage.rows[0];
+  if (!row) return null;
+
+  const template = await getTemplate(pool, viewer, String(row.template_id));
+  if (!template) return null;
+
+  const createdFrom = Number(row.template_version);
+  return {
+    template: { id: template.id, name: template.name, current_version: template.current_version },
+    created_from_version: createdFrom,
+    changes: createdFrom === template.current_version || row.content == null
+      ? []
+      : diffTemplateContent(normalizeTemplateContent(row.content), template.content),
+  };
+}
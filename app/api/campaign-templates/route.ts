@@ -0,0 +1,121 @@
+/**
+ * Campaign Templates API Route
+ *
+ * GET  /api/campaign-templates — the caller's templates and their team's
+ *      shared templates, each with its current version's content
+ * POST /api/campaign-templates — save a template (version 1). Body:
+ *      { name, description?, scope?: 'user' | 'team', content } or
+ *      { name, description?, scope?, source_campaign_id } to save the ICP,
+ *      contact targeting, outreach context and targets of an existing campaign
+ *
+ * Templates belong to the bootstrap identity of the request
+ * (lib/bootstrap-identity.ts); 'team' shares a template with the caller's
+ * bootstrap organization and is the default when the caller has one.
+ *
+ * GOVERNANCE:
+ * - Writes core.campaign_templates and core.campaign_template_versions only
+ * - Source campaigns are read, never modified
+ * - Templates only prefill the wizard; campaigns are still created as DRAFT
+ *   through /api/campaign-create
+ *
+ * RUNTIME:
+ * - Must run in Node runtime for database access
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../lib/db';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../lib/bootstrap-identity';
+import { validateTemplateInput } from '../../sales-engine/lib/campaign-templates';
+import type {
+  CampaignTemplateErrorResponse,
+  CampaignTemplateListResponse,
+  CampaignTemplateResponse,
+} from '../../sales-engine/types/campaign-template';
+import { createTemplate, listTemplates } from './_store';
+
+const readDb = getDb('campaign-templates', { database: 'core' });
+const db = getDb('campaign-templates', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignTemplateErrorResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(request: NextRequest) {
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const templates = await listTemplates(readDb, viewerFromIdentity(identity));
+    const body: CampaignTemplateListResponse = { success: true, data: templates };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[campaign-templates] List error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validateTemplateInput(body, false);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (parsed.value.source_campaign_id && !UUID_RE.test(parsed.value.source_campaign_id)) {
+    return errorResponse('Source campaign not found', 404);
+  }
+
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+  const viewer = viewerFromIdentity(identity);
+  if (parsed.value.scope === 'team' && !viewer.teamId) {
+    return errorResponse('Team templates require an organization on your account', 400);
+  }
+
+  try {
+    const result = await createTemplate(db, viewer, parsed.value);
+    if (!result.ok) {
+      return errorResponse('Source campaign not found', 404);
+    }
+    console.log('[campaign-templates] Template created:', result.template.id);
+    const response: CampaignTemplateResponse = { success: true, data: result.template };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('[campaign-templates] Create error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    },
+  });
+}
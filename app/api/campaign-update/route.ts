@@ -26,6 +26,8 @@ import {
   createServerClient, 
   isSupabaseConfigured,
 } from '../../../lib/supabase-server';
+import { normalizeVariants, validateVariants, variantsShapeError } from '../../sales-engine/lib/campaign-variants';
+import type { CampaignVariant } from '../../sales-engine/types/campaign';
 
 interface UpdateCampaignPayload {
   campaign_id: string;
@@ -54,7 +56,10 @@ interface UpdateCampaignPayload {
     value_propositions?: string[];
     pain_points?: string[];
     call_to_action?: string;
+    personalization_fields?: string[];
   };
+  /** Email variants; replaces the stored list. Weights must sum to 100. */
+  variants?: CampaignVariant[];
   campaign_targets?: {
     target_leads?: number | null;
     target_emails?: number | null;
@@ -184,10 +189,45 @@ export async function PATCH(request: NextRequest) {
           value_propositions: body.outreach_context.value_propositions ?? existingOutreach.value_propositions ?? [],
           pain_points: body.outreach_context.pain_points ?? existingOutreach.pain_points ?? [],
           call_to_action: body.outreach_context.call_to_action ?? existingOutreach.call_to_action ?? '',
+          personalization_fields: body.outreach_context.personalization_fields ?? existingOutreach.personalization_fields ?? [],
         },
       };
     }
 
+    if (body.variants !== undefined) {
+      const shapeError = variantsShapeError(body.variants);
+      if (shapeError) {
+        console.log('[campaign-update] Variant payload rejected:', shapeError);
+        return NextResponse.json(
+          {
+            success: false,
+            error: shapeError,
+            validation_errors: [{ field: 'variants', message: shapeError, code: 'INVALID_VARIANT' }],
+          },
+          { status: 400 }
+        );
+      }
+      const variants = normalizeVariants(body.variants);
+      const personalizationFields: string[] = nextSourcingConfig.outreach_context?.personalization_fields ?? [];
+      const variantErrors = validateVariants(variants, personalizationFields);
+      if (Object.keys(variantErrors).length > 0) {
+        console.log('[campaign-update] Variant validation failed:', variantErrors);
+        return NextResponse.json(
+          {
+            success: false,
+            error: Object.values(variantErrors)[0],
+            validation_errors: Object.entries(variantErrors).map(([field, message]) => ({
+              field,
+              message,
+              code: 'INVALID_VARIANT',
+            })),
+          },
+          { status: 400 }
+        );
+      }
+      nextSourcingConfig = { ...nextSourcingConfig, variants };
+    }
+
     if (body.campaign_targets) {
       nextSourcingConfig = {
         ...nextSourcingConfig,
@@ -207,7 +247,7 @@ export async function PATCH(request: NextRequest) {
     }
 
     // Only update sourcing_config if any changes were made
-    if (body.contact_targeting || body.outreach_context || body.campaign_targets || body.sourcing_config?.benchmarks_only !== undefined) {
+    if (body.contact_targeting || body.outreach_context || body.variants !== undefined || body.campaign_targets || body.sourcing_config?.benchmarks_only !== undefined) {
       updateData.sourcing_config = nextSourcingConfig;
     }
 
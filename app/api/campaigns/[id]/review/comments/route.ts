@@ -0,0 +1,88 @@
+/**
+ * Campaign Review Comments API Route
+ *
+ * POST /api/campaigns/:id/review/comments — comment on the campaign. Body:
+ *      { body, field?, parent_id? }. field is one of REVIEW_FIELDS
+ *      (e.g. 'icp.keywords') or omitted for a general comment; parent_id
+ *      replies in an existing thread and takes its field.
+ *
+ * Returns the updated review state. Comments are never edited or deleted.
+ *
+ * GOVERNANCE: Writes core.campaign_review_comments and
+ * core.campaign_governance_events only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import { validateCommentInput } from '../../../../../sales-engine/lib/campaign-review';
+import type {
+  CampaignReviewState,
+  CampaignReviewStateResponse,
+} from '../../../../../sales-engine/types/campaign-review';
+import {
+  addComment,
+  campaignExists,
+  getReviewState,
+  reviewActorFromIdentity,
+} from '../../../../campaign-reviews/_store';
+
+const db = getDb('campaigns/[id]/review/comments', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignReviewStateResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validateCommentInput(body);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+  const actor = reviewActorFromIdentity(identity);
+
+  try {
+    if (!(await campaignExists(db, params.id))) {
+      return errorResponse('Campaign not found', 404);
+    }
+    const result = await addComment(db, params.id, actor, parsed.value);
+    if (!result.ok) {
+      return errorResponse('Comment to reply to not found', 404);
+    }
+    console.log('[campaigns/review/comments] Comment added:', params.id, result.comment.id);
+    const response: CampaignReviewStateResponse = {
+      success: true,
+      data: (await getReviewState(db, params.id, actor)) as CampaignReviewState,
+    };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('[campaigns/review/comments] Error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
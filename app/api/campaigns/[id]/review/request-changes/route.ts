@@ -0,0 +1,143 @@
+/**
+ * Campaign Request Changes API Route
+ *
+ * POST /api/campaigns/:id/review/request-changes — send a PENDING_REVIEW
+ * campaign back to DRAFT. Body: { reason, field? }
+ *
+ * The reason is recorded as the reviewer's decision for the current round,
+ * as a comment on the given field and in the audit log. When the campaign
+ * has assigned reviewers, only they may request changes, and the submitter of
+ * the round never may. Returns the updated review state.
+ *
+ * GOVERNANCE:
+ * - Only PENDING_REVIEW campaigns can be sent back
+ * - Status changes to 'draft' (editable); resubmitting starts a new round
+ * - No execution occurs from this endpoint
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import { createServerClient, isSupabaseConfigured } from '../../../../../../lib/supabase-server';
+import { validateRequestChangesInput } from '../../../../../sales-engine/lib/campaign-review';
+import type {
+  CampaignReviewState,
+  CampaignReviewStateResponse,
+} from '../../../../../sales-engine/types/campaign-review';
+import {
+  getReviewState,
+  recordChangesRequest,
+  reviewActorFromIdentity,
+} from '../../../../campaign-reviews/_store';
+
+const db = getDb('campaigns/[id]/review/request-changes', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignReviewStateResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validateRequestChangesInput(body);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core') || !isSupabaseConfigured()) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+  const actor = reviewActorFromIdentity(identity);
+
+  try {
+    const supabase = createServerClient();
+
+    const { data: existingCampaign, error: fetchError } = await supabase
+      .from('campaigns')
+      .select('id, status')
+      .eq('id', params.id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === 'PGRST116') {
+        return errorResponse('Campaign not found', 404);
+      }
+      console.error('[campaigns/review/request-changes] Fetch error:', fetchError);
+      return errorResponse(fetchError.message, 500);
+    }
+
+    if (!existingCampaign) {
+      return errorResponse('Campaign not found', 404);
+    }
+
+    if (existingCampaign.status !== 'pending_review') {
+      return errorResponse(
+        `Changes can only be requested while a campaign is pending review. Current status: ${existingCampaign.status}`,
+        400,
+      );
+    }
+
+    // The change request only commits once the status update, guarded on
+    // PENDING_REVIEW, succeeded
+    const result = await recordChangesRequest(db, params.id, actor, parsed.value, async () => {
+      const { data, error: updateError } = await supabase
+        .from('campaigns')
+        .update({
+          status: 'draft',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', params.id)
+        .eq('status', 'pending_review')
+        .select('id');
+
+      if (updateError) {
+        console.error('[campaigns/review/request-changes] Update error:', updateError);
+        throw new Error(updateError.message);
+      }
+      return (data?.length ?? 0) > 0;
+    });
+
+    if (!result.ok) {
+      if (result.reason === 'status_changed') {
+        return errorResponse('Campaign status changed while changes were being requested. Reload and try again.', 409);
+      }
+      return errorResponse(
+        result.reason === 'submitter'
+          ? 'The submitter of a campaign cannot review it'
+          : 'Only assigned reviewers can request changes to this campaign',
+        403,
+      );
+    }
+
+    console.log('[campaigns/review/request-changes] Campaign sent back to draft:', params.id);
+    const response: CampaignReviewStateResponse = {
+      success: true,
+      data: (await getReviewState(db, params.id, actor)) as CampaignReviewState,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[campaigns/review/request-changes] Error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Campaign Reviewers API Route
+ *
+ * POST   /api/campaigns/:id/review/reviewers — assign a reviewer. Body:
+ *        { email, name? }. Assigning an existing reviewer is a no-op.
+ * DELETE /api/campaigns/:id/review/reviewers?email= — remove a reviewer
+ *
+ * Both require the bootstrap permission campaigns:review:manage.
+ *
+ * Once a campaign has assigned reviewers, only they may approve it or
+ * request changes, and only their approvals count. Both methods return the
+ * updated review state.
+ *
+ * GOVERNANCE: Writes core.campaign_reviewers and
+ * core.campaign_governance_events only.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { authorizeRequest } from '../../../../../../lib/bootstrap-identity';
+import {
+  CAMPAIGN_REVIEW_MANAGE_PERMISSION,
+  MAX_REVIEWERS,
+  validateReviewerInput,
+} from '../../../../../sales-engine/lib/campaign-review';
+import type {
+  CampaignReviewState,
+  CampaignReviewStateResponse,
+  ReviewActor,
+} from '../../../../../sales-engine/types/campaign-review';
+import {
+  assignReviewer,
+  campaignExists,
+  getReviewState,
+  removeReviewer,
+  reviewActorFromIdentity,
+} from '../../../../campaign-reviews/_store';
+
+const db = getDb('campaigns/[id]/review/reviewers', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignReviewStateResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+async function stateResponse(campaignId: string, actor: ReviewActor, status = 200) {
+  const body: CampaignReviewStateResponse = {
+    success: true,
+    data: (await getReviewState(db, campaignId, actor)) as CampaignReviewState,
+  };
+  return NextResponse.json(body, { status });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validateReviewerInput(body);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const auth = await authorizeRequest(request, CAMPAIGN_REVIEW_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return errorResponse(auth.error, auth.status);
+  }
+  const actor = reviewActorFromIdentity(auth.identity);
+
+  try {
+    if (!(await campaignExists(db, params.id))) {
+      return errorResponse('Campaign not found', 404);
+    }
+    const result = await assignReviewer(db, params.id, actor, parsed.value);
+    if (!result.ok) {
+      return errorResponse(`A campaign can have at most ${MAX_REVIEWERS} reviewers`, 400);
+    }
+    console.log('[campaigns/review/reviewers] Reviewer assigned:', params.id);
+    return stateResponse(params.id, actor, 201);
+  } catch (error) {
+    console.error('[campaigns/review/reviewers] Assign error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const parsed = validateReviewerInput({ email: request.nextUrl.searchParams.get('email') });
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const auth = await authorizeRequest(request, CAMPAIGN_REVIEW_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return errorResponse(auth.error, auth.status);
+  }
+  const actor = reviewActorFromIdentity(auth.identity);
+
+  try {
+    const result = await removeReviewer(db, params.id, actor, parsed.value.email);
+    if (!result.ok) {
+      return errorResponse('Reviewer not found', 404);
+    }
+    console.log('[campaigns/review/reviewers] Reviewer removed:', params.id);
+    return stateResponse(params.id, actor);
+  } catch (error) {
+    console.error('[campaigns/review/reviewers] Remove error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Campaign Review API Route
+ *
+ * GET   /api/campaigns/:id/review — reviewers, required approvals, progress
+ *       for the current round, comments and the governance audit log
+ * PATCH /api/campaigns/:id/review — set the approval policy. Body:
+ *       { required_approvals: 1-10 }. Requires the bootstrap permission
+ *       campaigns:review:manage.
+ *
+ * Submitting, approving and reverting stay on /api/v1/campaigns/:id/*;
+ * those routes record their actions in the same audit log.
+ *
+ * GOVERNANCE: Writes core.campaign_review_policies and
+ * core.campaign_governance_events only. The campaign is never modified here.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
+import { authorizeRequest, resolveRequestIdentity } from '../../../../../lib/bootstrap-identity';
+import { CAMPAIGN_REVIEW_MANAGE_PERMISSION, validatePolicyInput } from '../../../../sales-engine/lib/campaign-review';
+import type { CampaignReviewState, CampaignReviewStateResponse } from '../../../../sales-engine/types/campaign-review';
+import {
+  campaignExists,
+  getReviewState,
+  reviewActorFromIdentity,
+  setRequiredApprovals,
+} from '../../../campaign-reviews/_store';
+
+const readDb = getDb('campaigns/[id]/review', { database: 'core' });
+const db = getDb('campaigns/[id]/review', { database: 'core', role: 'write' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function errorResponse(error: string, status: number) {
+  const body: CampaignReviewStateResponse = { success: false, error };
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return errorResponse('Authentication required', 401);
+  }
+
+  try {
+    const state = await getReviewState(readDb, params.id, reviewActorFromIdentity(identity));
+    if (!state) {
+      return errorResponse('Campaign not found', 404);
+    }
+    const body: CampaignReviewStateResponse = { success: true, data: state };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[campaigns/review] Error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return errorResponse('Invalid request body', 400);
+  }
+
+  const parsed = validatePolicyInput(body);
+  if ('error' in parsed) {
+    return errorResponse(parsed.error, 400);
+  }
+  if (!UUID_RE.test(params.id)) {
+    return errorResponse('Campaign not found', 404);
+  }
+  if (!isDbConfigured('core')) {
+    return errorResponse('Database not configured', 503);
+  }
+
+  const auth = await authorizeRequest(request, CAMPAIGN_REVIEW_MANAGE_PERMISSION);
+  if (!auth.ok) {
+    return errorResponse(auth.error, auth.status);
+  }
+  const actor = reviewActorFromIdentity(auth.identity);
+
+  try {
+    if (!(await campaignExists(db, params.id))) {
+      return errorResponse('Campaign not found', 404);
+    }
+    await setRequiredApprovals(db, params.id, actor, parsed.value.required_approvals);
+    console.log('[campaigns/review] Required approvals set:', params.id, parsed.value.required_approvals);
+    const response: CampaignReviewStateResponse = {
+      success: true,
+      data: (await getReviewState(db, params.id, actor)) as CampaignReviewState,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('[campaigns/review] Update error:', error instanceof Error ? error.message : error);
+    return errorResponse('Internal server error', 500);
+  }
+}
@@ -27,29 +27,12 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const connectionString = process.env.DATABASE_URL || process.env.POSTGRES_URL;
-    if (!connectionString) {
-      throw new Error('DATABASE_URL not configured');
-    }
-    pool = new Pool({
-      connectionString,
-      ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : undefined,
-      max: 5,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  return pool;
-}
+const db = getDb('campaigns/[id]/scope', { database: 'core' });
 
 function isDatabaseConfigured(): boolean {
-  return Boolean(process.env.DATABASE_URL || process.env.POSTGRES_URL);
+  return isDbConfigured('core');
 }
 
 interface CampaignScope {
@@ -81,8 +64,6 @@ export async function GET(
   }
 
   try {
-    const db = getPool();
-
     // Query organization count for this campaign
     // Organizations are linked via campaign_organizations or via campaign_contacts
     const orgsResult = await db.query(`
@@ -0,0 +1,52 @@
+/**
+ * Campaign Template Origin API Route
+ *
+ * GET /api/campaigns/:id/template-origin
+ *
+ * The template version this campaign was created from (recorded by
+ * /api/campaign-create in core.campaign_template_usages) and the field-level
+ * changes made to the template since. data is null when the campaign was not
+ * created from a template or the template is no longer visible to the caller.
+ *
+ * GOVERNANCE: Read-only. The campaign itself is never updated to a newer
+ * template version.
+ */
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
+import { resolveRequestIdentity, viewerFromIdentity } from '../../../../../lib/bootstrap-identity';
+import type { CampaignTemplateOriginResponse } from '../../../../sales-engine/types/campaign-template';
+import { getCampaignTemplateOrigin } from '../../../campaign-templates/_store';
+
+const db = getDb('campaigns/[id]/template-origin', { database: 'core' });
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  if (!UUID_RE.test(params.id) || !isDbConfigured('core')) {
+    const body: CampaignTemplateOriginResponse = { success: true, data: null };
+    return NextResponse.json(body);
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    const body: CampaignTemplateOriginResponse = { success: false, error: 'Authentication required' };
+    return NextResponse.json(body, { status: 401 });
+  }
+
+  try {
+    const origin = await getCampaignTemplateOrigin(db, viewerFromIdentity(identity), params.id);
+    const body: CampaignTemplateOriginResponse = { success: true, data: origin };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('[campaigns/template-origin] Error:', error instanceof Error ? error.message : error);
+    const body: CampaignTemplateOriginResponse = { success: false, error: 'Internal server error' };
+    return NextResponse.json(body, { status: 500 });
+  }
+}
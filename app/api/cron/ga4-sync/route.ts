@@ -11,7 +11,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import {
   syncPageEngagement,
   syncGA4Events,
@@ -20,15 +19,9 @@ import {
   createIngestionRun,
   completeIngestionRun,
 } from '../../../../services/ga4Sync';
+import { getDb } from '../../../../lib/db';
 
-function getPool(): Pool {
-  return new Pool({
-    connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-    ssl: { rejectUnauthorized: false },
-    max: 3,
-    connectionTimeoutMillis: 10000,
-  });
-}
+const db = getDb('cron/ga4-sync', { role: 'write' });
 
 function formatDate(d: Date): string {
   return d.toISOString().split('T')[0];
@@ -55,19 +48,18 @@ export async function GET(req: NextRequest) {
   const startDate = formatDate(threeDaysAgo);
   const endDate = formatDate(now);
 
-  const pool = getPool();
   const startTime = Date.now();
 
   try {
-    const runId = await createIngestionRun(pool, 'ga4-api-cron', 'ga4-daily-sync');
+    const runId = await createIngestionRun(db, 'ga4-api-cron', 'ga4-daily-sync', { startDate, endDate });
 
     const [engagementResult, eventsResult, deviceResult] = await Promise.all([
-      syncPageEngagement(pool, startDate, endDate),
-      syncGA4Events(pool, startDate, endDate, runId),
-      syncDeviceCountry(pool, startDate, endDate, runId),
+      syncPageEngagement(db, startDate, endDate),
+      syncGA4Events(db, startDate, endDate, runId),
+      syncDeviceCountry(db, startDate, endDate, runId),
     ]);
 
-    const channelResult = await syncChannelSessions(pool, startDate, endDate, runId);
+    const channelResult = await syncChannelSessions(db, startDate, endDate, runId);
 
     const totalRows =
       engagementResult.rows + eventsResult.rows + deviceResult.rows + channelResult.rows;
@@ -81,7 +73,7 @@ export async function GET(req: NextRequest) {
     const durationMs = Date.now() - startTime;
 
     await completeIngestionRun(
-      pool,
+      db,
       runId,
       allErrors.length > 0 ? 'failed' : 'completed',
       totalRows,
@@ -103,8 +95,8 @@ export async function GET(req: NextRequest) {
     });
   } catch (err) {
     try {
-      const failRunId = await createIngestionRun(pool, 'ga4-api-cron', 'ga4-daily-sync-error');
-      await completeIngestionRun(pool, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
+      const failRunId = await createIngestionRun(db, 'ga4-api-cron', 'ga4-daily-sync-error');
+      await completeIngestionRun(db, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
     } catch { /* best-effort */ }
 
     return NextResponse.json(
@@ -115,7 +107,5 @@ export async function GET(req: NextRequest) {
       },
       { status: 500 },
     );
-  } finally {
-    await pool.end();
   }
 }
@@ -11,7 +11,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import {
   syncCampaignPerformance,
   syncSearchTerms,
@@ -20,15 +19,9 @@ import {
   createIngestionRun,
   completeIngestionRun,
 } from '../../../../services/ga4Sync';
+import { getDb } from '../../../../lib/db';
 
-function getPool(): Pool {
-  return new Pool({
-    connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-    ssl: { rejectUnauthorized: false },
-    max: 3,
-    connectionTimeoutMillis: 10000,
-  });
-}
+const db = getDb('cron/google-ads-sync', { role: 'write' });
 
 function formatDate(d: Date): string {
   return d.toISOString().split('T')[0];
@@ -55,14 +48,13 @@ export async function GET(req: NextRequest) {
   const startDate = formatDate(threeDaysAgo);
   const endDate = formatDate(now);
 
-  const pool = getPool();
   const startTime = Date.now();
 
   try {
-    const runId = await createIngestionRun(pool, 'google-ads-bq-cron', 'google-ads-daily-sync');
+    const runId = await createIngestionRun(db, 'google-ads-bq-cron', 'google-ads-daily-sync', { startDate, endDate });
 
-    const campaignResult = await syncCampaignPerformance(pool, startDate, endDate, runId);
-    const searchTermResult = await syncSearchTerms(pool, startDate, endDate, runId);
+    const campaignResult = await syncCampaignPerformance(db, startDate, endDate, runId);
+    const searchTermResult = await syncSearchTerms(db, startDate, endDate, runId);
 
     const totalRows = campaignResult.rows + searchTermResult.rows;
     const allErrors = [...campaignResult.errors, ...searchTermResult.errors];
@@ -70,7 +62,7 @@ export async function GET(req: NextRequest) {
     const durationMs = Date.now() - startTime;
 
     await completeIngestionRun(
-      pool,
+      db,
       runId,
       allErrors.length > 0 ? 'failed' : 'completed',
       totalRows,
@@ -90,8 +82,8 @@ export async function GET(req: NextRequest) {
     });
   } catch (err) {
     try {
-      const failRunId = await createIngestionRun(pool, 'google-ads-bq-cron', 'google-ads-daily-sync-error');
-      await completeIngestionRun(pool, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
+      const failRunId = await createIngestionRun(db, 'google-ads-bq-cron', 'google-ads-daily-sync-error');
+      await completeIngestionRun(db, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
     } catch { /* best-effort */ }
 
     return NextResponse.json(
@@ -102,7 +94,5 @@ export async function GET(req: NextRequest) {
       },
       { status: 500 },
     );
-  } finally {
-    await pool.end();
   }
 }
@@ -0,0 +1,59 @@
+/**
+ * Marketing Alerts Cron Route — Daily Rule Evaluation
+ *
+ * GET /api/cron/marketing-alerts
+ *
+ * Vercel Cron compatible endpoint. Runs daily at 08:00 UTC, after the GA4
+ * (06:00) and Google Ads (07:00) syncs have landed yesterday's data.
+ * Evaluates the rules in lib/marketing-alerts.ts over complete days ending
+ * yesterday, records fired alerts in analytics.marketing_alert_events and
+ * delivers new ones (services/marketingAlerts.ts). Safe to re-run: alerts
+ * already recorded for the same window are neither re-recorded nor re-sent.
+ *
+ * GOVERNANCE: This is a WRITE endpoint triggered by Vercel Cron. It writes
+ * analytics.marketing_alert_events only.
+ * Protected by CRON_SECRET (Vercel's built-in cron auth header).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runMarketingAlerts } from '../../../../services/marketingAlerts';
+import { getDb } from '../../../../lib/db';
+
+const db = getDb('cron/marketing-alerts', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await runMarketingAlerts(db);
+
+    return NextResponse.json({
+      status: summary.errors.length > 0 || summary.failed > 0 ? 'degraded' : 'ok',
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[cron/marketing-alerts] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'Marketing alerts cron failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
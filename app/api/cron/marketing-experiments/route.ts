@@ -0,0 +1,59 @@
+/**
+ * Marketing Experiments Cron Route — Daily Lift Re-measurement
+ *
+ * GET /api/cron/marketing-experiments
+ *
+ * Vercel Cron compatible endpoint. Runs daily at 08:30 UTC, after the GA4
+ * (06:00) and Google Ads (07:00) syncs have landed yesterday's data.
+ * Re-measures every experiment whose stored lift no longer covers its window
+ * through yesterday: running experiments, and ones created before their first
+ * complete day (services/marketingExperiments.ts). Safe to re-run: an
+ * experiment already measured through yesterday is skipped.
+ *
+ * GOVERNANCE: This is a WRITE endpoint triggered by Vercel Cron. It writes
+ * analytics.marketing_experiments (measurement columns) only.
+ * Protected by CRON_SECRET (Vercel's built-in cron auth header).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { remeasureStaleExperiments } from '../../../../services/marketingExperiments';
+import { getDb } from '../../../../lib/db';
+
+const db = getDb('cron/marketing-experiments', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await remeasureStaleExperiments(db);
+
+    return NextResponse.json({
+      status: summary.errors.length > 0 ? 'degraded' : 'ok',
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[cron/marketing-experiments] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'Marketing experiments cron failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Marketing Scheduled Reports Cron Route — Daily Send
+ *
+ * GET /api/cron/marketing-reports
+ *
+ * Vercel Cron compatible endpoint. Runs daily at 10:00 UTC, after the sync,
+ * alert and reconciliation jobs, so reports cover fully synced days. Sends
+ * every enabled schedule in analytics.marketing_report_schedules whose
+ * next_run_at has passed (services/marketingReports.ts) and records each
+ * send in analytics.marketing_report_runs. Reports 'degraded' when any
+ * report failed or was only partly delivered.
+ *
+ * GOVERNANCE: This is a WRITE endpoint triggered by Vercel Cron. It writes
+ * analytics.marketing_report_schedules (next_run_at, last_run_at) and
+ * analytics.marketing_report_runs only.
+ * Protected by CRON_SECRET (Vercel's built-in cron auth header).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueReports } from '../../../../services/marketingReports';
+import { getDb } from '../../../../lib/db';
+
+const db = getDb('cron/marketing-reports', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await runDueReports(db);
+
+    return NextResponse.json({
+      status: summary.failed > 0 || summary.partial > 0 ? 'degraded' : 'ok',
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[cron/marketing-reports] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'Marketing reports cron failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
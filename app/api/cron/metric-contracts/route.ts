@@ -0,0 +1,59 @@
+/**
+ * Metric Contract Reconciliation Cron Route — Daily Drift Check
+ *
+ * GET /api/cron/metric-contracts
+ *
+ * Vercel Cron compatible endpoint. Runs daily at 09:00 UTC, after the GA4,
+ * Google Ads and alert jobs. Executes each enabled contract in
+ * analytics.seo_dashboard_metric_contract — authoritative_sql and served_sql,
+ * read-only — and records the drift and tolerance verdict in
+ * analytics.seo_metric_contract_check (services/metricContractReconciliation.ts).
+ * Reports 'degraded' when any contract breaches tolerance or fails to run.
+ *
+ * GOVERNANCE: This is a WRITE endpoint triggered by Vercel Cron. It writes
+ * analytics.seo_metric_contract_check only.
+ * Protected by CRON_SECRET (Vercel's built-in cron auth header).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reconcileMetricContracts } from '../../../../services/metricContractReconciliation';
+import { getDb } from '../../../../lib/db';
+
+const db = getDb('cron/metric-contracts', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await reconcileMetricContracts(db);
+
+    return NextResponse.json({
+      status: summary.breached > 0 || summary.errored > 0 ? 'degraded' : 'ok',
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[cron/metric-contracts] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'Metric contract reconciliation cron failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
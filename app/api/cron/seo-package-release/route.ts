@@ -0,0 +1,59 @@
+/**
+ * SEO Package Release Cron Route — Grace Window Dispatch
+ *
+ * GET /api/cron/seo-package-release
+ *
+ * Vercel Cron compatible endpoint. Runs every 5 minutes and releases every
+ * approved page enhancement package whose grace window has lapsed
+ * (analytics.seo_package_release_hold.release_after), handing it to the
+ * executor via analytics.seo_release_page_enhancement. Reverted packages are
+ * never released. Safe to re-run: a hold is released at most once.
+ *
+ * GOVERNANCE: This is a WRITE endpoint triggered by Vercel Cron. It writes
+ * analytics.seo_package_release_hold and releases packages through the
+ * engine's own release function (services/seoPackageRelease.ts).
+ * Protected by CRON_SECRET (Vercel's built-in cron auth header).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseDuePackages } from '../../../../services/seoPackageRelease';
+import { getDb } from '../../../../lib/db';
+
+const db = getDb('cron/seo-package-release', { role: 'write' });
+
+export async function GET(req: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return NextResponse.json(
+      { error: 'CRON_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  const authHeader = req.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const summary = await releaseDuePackages(db);
+
+    return NextResponse.json({
+      status: summary.failed > 0 ? 'degraded' : 'ok',
+      ...summary,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[cron/seo-package-release] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'SEO package release cron failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
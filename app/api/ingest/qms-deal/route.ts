@@ -7,15 +7,41 @@
  * upserts them into analytics.raw_qms_deals (one row per quote, updated
  * on every status transition).
  *
+ * Every event is also appended to analytics.raw_qms_deal_events so the
+ * transition history survives the overwrite. The log is keyed on
+ * (convex_quote_id, occurred_at, quote_activity, last_event), so a replayed
+ * event is recorded once, and an event older than the current-state row
+ * is logged but does not roll the current state back.
+ *
  * GOVERNANCE: This is the only write-path for analytics.raw_qms_deals
- * in this repository. All other analytics queries are read-only.
+ * and analytics.raw_qms_deal_events in this repository. All other analytics queries are read-only.
+ *
+ * Validation: payloads are checked against QMS_DEAL_CONTRACT
+ * (lib/ingest-contracts.ts); rejects are kept in analytics.ingest_dead_letter.
  *
- * Auth: Bearer token via Authorization header, validated against SYNC_SECRET.
+ * Auth: HMAC-SHA256 signature over `${X-NSD-Timestamp}.${rawBody}` in the
+ * X-NSD-Signature header (lib/ingest-auth.ts), checked against
+ * NSD_WEBHOOK_SIGNING_SECRET or NSD_WEBHOOK_SIGNING_SECRET_PREVIOUS while a
+ * rotation is in flight. Stale timestamps and replayed signatures are
+ * rejected. Until a signing secret is configured the legacy Bearer
+ * SYNC_SECRET check is used, so the Convex sender can be migrated first.
  * CORS: Allows Convex cloud origins.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import {
+  QMS_DEAL_CONTRACT,
+  recordDeadLetters,
+  validateAgainstContract,
+} from '../../../../lib/ingest-contracts';
+import {
+  ReplayGuard,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  getWebhookSigningSecrets,
+  verifyWebhookSignature,
+} from '../../../../lib/ingest-auth';
+import { getDb, type Db } from '../../../../lib/db';
 
 const ALLOWED_ORIGINS = [
   'https://neonsignsdepot.com',
@@ -28,7 +54,7 @@ function corsHeaders(origin: string | null): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': allowed,
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-NSD-Timestamp, X-NSD-Signature',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -38,29 +64,42 @@ export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, { status: 204, headers: corsHeaders(origin) });
 }
 
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const url = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-    if (!url) throw new Error('No database URL configured');
-    pool = new Pool({
-      connectionString: url,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-    pool.on('error', (err) => {
-      console.error('[ingest/qms-deal] Pool error:', err);
+const db = getDb('ingest/qms-deal', { role: 'write' });
+
+const replayGuard = new ReplayGuard();
+
+type AuthResult = { ok: true } | { ok: false; status: number; error: string };
+
+function authenticate(request: NextRequest, rawBody: string): AuthResult {
+  const secrets = getWebhookSigningSecrets();
+  if (secrets.length > 0) {
+    const result = verifyWebhookSignature({
+      rawBody,
+      timestamp: request.headers.get(TIMESTAMP_HEADER),
+      signature: request.headers.get(SIGNATURE_HEADER),
+      secrets,
+      replayGuard,
     });
+    if (!result.ok) {
+      console.warn(`[ingest/qms-deal] Signature rejected: ${result.reason}`);
+      return { ok: false, status: 401, error: 'Unauthorized' };
+    }
+    return { ok: true };
+  }
+
+  const expectedToken = process.env.SYNC_SECRET;
+  if (!expectedToken) {
+    return { ok: false, status: 500, error: 'SYNC_SECRET not configured on server' };
+  }
+  if (request.headers.get('authorization') !== `Bearer ${expectedToken}`) {
+    return { ok: false, status: 401, error: 'Unauthorized' };
   }
-  return pool;
+  return { ok: true };
 }
 
 let tableEnsured = false;
 
-async function ensureTable(db: Pool): Promise<void> {
+async function ensureTable(db: Db): Promise<void> {
   if (tableEnsured) return;
   await db.query(`
     CREATE TABLE IF NOT EXISTS analytics.raw_qms_deals (
@@ -113,6 +152,24 @@ async function ensureTable(db: Pool): Promise<void> {
     CREATE INDEX IF NOT EXISTS idx_qms_deals_email ON analytics.raw_qms_deals (customer_email);
     CREATE INDEX IF NOT EXISTS idx_qms_deals_number ON analytics.raw_qms_deals (quote_number);
     CREATE INDEX IF NOT EXISTS idx_qms_deals_active ON analytics.raw_qms_deals (quote_active) WHERE quote_active = true;
+
+    CREATE TABLE IF NOT EXISTS analytics.raw_qms_deal_events (
+      id BIGSERIAL PRIMARY KEY,
+      convex_quote_id TEXT NOT NULL,
+      quote_number TEXT NOT NULL,
+      quote_activity TEXT NOT NULL,
+      last_event TEXT NOT NULL DEFAULT '',
+      quote_active BOOLEAN,
+      total_price_cents BIGINT,
+      occurred_at TIMESTAMPTZ NOT NULL,
+      source TEXT NOT NULL DEFAULT 'webhook',
+      payload JSONB,
+      ingested_at TIMESTAMPTZ DEFAULT NOW()
+    );
+    CREATE UNIQUE INDEX IF NOT EXISTS uq_qms_deal_events_replay
+      ON analytics.raw_qms_deal_events (convex_quote_id, occurred_at, quote_activity, last_event);
+    CREATE INDEX IF NOT EXISTS idx_qms_deal_events_quote ON analytics.raw_qms_deal_events (convex_quote_id, occurred_at);
+    CREATE INDEX IF NOT EXISTS idx_qms_deal_events_number ON analytics.raw_qms_deal_events (quote_number);
   `);
   tableEnsured = true;
 }
@@ -161,27 +218,14 @@ interface QMSDealPayload {
   last_event?: string;
 }
 
-function validatePayload(body: unknown): { valid: true; data: QMSDealPayload } | { valid: false; error: string } {
-  if (!body || typeof body !== 'object') {
-    return { valid: false, error: 'Request body must be a JSON object' };
-  }
-  const b = body as Record<string, unknown>;
-
-  const required = ['convex_quote_id', 'quote_number', 'quote_activity', 'created_at', 'updated_at'] as const;
-  for (const field of required) {
-    if (typeof b[field] !== 'string' || (b[field] as string).trim() === '') {
-      return { valid: false, error: `Missing or empty required field: ${field}` };
-    }
-  }
-
-  for (const ts of ['created_at', 'updated_at'] as const) {
-    const d = new Date(b[ts] as string);
-    if (isNaN(d.getTime())) {
-      return { valid: false, error: `Invalid timestamp for ${ts}` };
-    }
-  }
+type Validation =
+  | { valid: true; data: QMSDealPayload }
+  | { valid: false; error: string; field: string | null };
 
-  return { valid: true, data: b as unknown as QMSDealPayload };
+function validatePayload(body: unknown): Validation {
+  const result = validateAgainstContract(QMS_DEAL_CONTRACT, body);
+  if (!result.valid) return result;
+  return { valid: true, data: body as QMSDealPayload };
 }
 
 function tsOrNull(val: string | null | undefined): string | null {
@@ -226,20 +270,39 @@ export async function POST(request: NextRequest) {
   const origin = request.headers.get('origin');
   const cors = corsHeaders(origin);
 
-  const expectedToken = process.env.SYNC_SECRET;
-  if (!expectedToken) {
-    return NextResponse.json({ error: 'SYNC_SECRET not configured on server' }, { status: 500, headers: cors });
-  }
-
-  const authHeader = request.headers.get('authorization');
-  if (authHeader !== `Bearer ${expectedToken}`) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401, headers: cors });
-  }
+  const ip = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || null;
 
   try {
-    const body = await request.json();
+    // The signature covers the exact bytes sent, so read the body as text before parsing.
+    const text = await request.text();
+    const auth = authenticate(request, text);
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status, headers: cors });
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      await recordDeadLetters(db, [{
+        endpoint: QMS_DEAL_CONTRACT.endpoint,
+        reason: 'Request body is not valid JSON',
+        field: null,
+        payload: text,
+        sourceIp: ip,
+      }]);
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400, headers: cors });
+    }
+
     const validation = validatePayload(body);
     if (!validation.valid) {
+      await recordDeadLetters(db, [{
+        endpoint: QMS_DEAL_CONTRACT.endpoint,
+        reason: validation.error,
+        field: validation.field,
+        payload: body,
+        sourceIp: ip,
+      }]);
       return NextResponse.json({ error: validation.error }, { status: 400, headers: cors });
     }
 
@@ -257,9 +320,28 @@ export async function POST(request: NextRequest) {
       if (isMissing(d.wbraid))       d.wbraid       = parsed.wbraid;
     }
 
-    const db = getPool();
     await ensureTable(db);
 
+    const eventResult = await db.query(
+      `INSERT INTO analytics.raw_qms_deal_events (
+         convex_quote_id, quote_number, quote_activity, last_event,
+         quote_active, total_price_cents, occurred_at, payload
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8::jsonb)
+       ON CONFLICT (convex_quote_id, occurred_at, quote_activity, last_event) DO NOTHING
+       RETURNING id`,
+      [
+        d.convex_quote_id,
+        d.quote_number,
+        d.quote_activity,
+        d.last_event ?? d.quote_activity,
+        d.quote_active ?? true,
+        d.total_price_cents ?? 0,
+        new Date(d.updated_at).toISOString(),
+        JSON.stringify(d),
+      ],
+    );
+    const eventRecorded = (eventResult.rowCount ?? 0) > 0;
+
     const sql = `
       INSERT INTO analytics.raw_qms_deals (
         convex_quote_id, quote_number, quote_type, quote_activity, quote_active,
@@ -327,6 +409,7 @@ export async function POST(request: NextRequest) {
         shipping_tracking_number = EXCLUDED.shipping_tracking_number,
         last_event = EXCLUDED.last_event,
         ingested_at = NOW()
+      WHERE analytics.raw_qms_deals.updated_at <= EXCLUDED.updated_at
       RETURNING id, (xmax = 0) AS inserted
     `;
 
@@ -377,6 +460,20 @@ export async function POST(request: NextRequest) {
     const result = await db.query(sql, values);
     const row = result.rows[0];
 
+    if (!row) {
+      // Out-of-order or replayed event: the current-state row is already newer.
+      return NextResponse.json(
+        {
+          id: null,
+          quote_number: d.quote_number,
+          action: 'stale',
+          event_recorded: eventRecorded,
+          attribution_enriched: false,
+        },
+        { status: 200, headers: cors },
+      );
+    }
+
     let attributionEnriched = false;
     const hasUtm = d.utm_source && d.utm_source.trim() !== '';
     if (!hasUtm) {
@@ -428,6 +525,7 @@ export async function POST(request: NextRequest) {
         id: row.id,
         quote_number: d.quote_number,
         action: row.inserted ? 'inserted' : 'updated',
+        event_recorded: eventRecorded,
         attribution_enriched: attributionEnriched,
       },
       { status: row.inserted ? 201 : 200, headers: cors },
@@ -9,14 +9,42 @@
  * event_data.landing_page so that revenue attribution points to the
  * originating SEO landing page rather than the quote subdomain page_url.
  *
+ * Batch mode: the body may instead be `{ "events": [...] }` (or a bare
+ * array) of up to MAX_BATCH_SIZE payloads. Every accepted event in the
+ * batch shares one ingestion_run_id and the response carries a per-event
+ * accepted / duplicate / rejected result, so a buffered client can flush
+ * many interactions in one request.
+ *
+ * Idempotency: each event may carry an `event_id` (or, for single-event
+ * requests, an `Idempotency-Key` header). It is stored as
+ * raw_web_events.idempotency_key under a unique index, so a retried event
+ * is reported as a duplicate instead of inserting a second row.
+ *
+ * Validation: payloads are checked against WEB_EVENT_CONTRACT
+ * (lib/ingest-contracts.ts). Rejected payloads — including unparseable
+ * bodies — are kept in analytics.ingest_dead_letter with the reason.
+ *
+ * Rate limiting: requests are metered per source IP with a token bucket
+ * (lib/ingest-auth.ts) where each event costs one token, so batching does
+ * not buy extra throughput. Over-limit requests get 429 with Retry-After and
+ * are not dead-lettered. This keeps a single source from flooding fake
+ * conversions into the raw_qms_deals attribution bridge.
+ *
  * GOVERNANCE: This is the only write-path for analytics.raw_web_events
  * in this repository. All other analytics queries are read-only.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { randomUUID } from 'node:crypto';
 import { normalizeLandingPage } from '../../../../lib/normalize-landing-page';
+import {
+  WEB_EVENT_CONTRACT,
+  recordDeadLetters,
+  validateAgainstContract,
+  type DeadLetterEntry,
+} from '../../../../lib/ingest-contracts';
+import { RateLimiter } from '../../../../lib/ingest-auth';
+import { getDb, type Db } from '../../../../lib/db';
 
 const ALLOWED_ORIGINS = [
   'https://quote.neonsignsdepot.com',
@@ -29,7 +57,7 @@ function corsHeaders(origin: string | null): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': allowed,
     'Access-Control-Allow-Methods': 'POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key',
     'Access-Control-Max-Age': '86400',
   };
 }
@@ -39,25 +67,7 @@ export async function OPTIONS(request: NextRequest) {
   return new NextResponse(null, { status: 204, headers: corsHeaders(origin) });
 }
 
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const url = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-    if (!url) throw new Error('No database URL configured');
-    pool = new Pool({
-      connectionString: url,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-    pool.on('error', (err) => {
-      console.error('[ingest/web-event] Pool error:', err);
-    });
-  }
-  return pool;
-}
+const db = getDb('ingest/web-event', { role: 'write' });
 
 interface WebEventPayload {
   event_type: string;
@@ -75,156 +85,367 @@ interface WebEventPayload {
   origin_page?: string;
   origin_url?: string;
   landing_page?: string;
+
+  event_id?: string;
+}
+
+const MAX_BATCH_SIZE = 100;
+
+// Per source IP: bursts of up to 300 events, 5 events/second sustained.
+const RATE_LIMIT_BURST = 300;
+const RATE_LIMIT_PER_SECOND = 5;
+const rateLimiter = new RateLimiter(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND);
+
+function eventCount(body: unknown): number {
+  const events = Array.isArray(body)
+    ? body
+    : body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)
+      ? (body as { events: unknown[] }).events
+      : null;
+  return events ? Math.min(Math.max(events.length, 1), MAX_BATCH_SIZE) : 1;
+}
+
+type Validation =
+  | { valid: true; data: WebEventPayload }
+  | { valid: false; error: string; field: string | null };
+
+function validatePayload(body: unknown): Validation {
+  const result = validateAgainstContract(WEB_EVENT_CONTRACT, body);
+  if (!result.valid) return result;
+  return { valid: true, data: body as WebEventPayload };
+}
+
+/**
+ * Client IP for rate limiting. Leading X-Forwarded-For entries are whatever
+ * the client sent, so use the platform-provided request.ip, else the hop our
+ * own proxy appended (the rightmost one).
+ */
+function sourceIp(request: NextRequest): string | null {
+  if (request.ip) return request.ip;
+  const hops = request.headers.get('x-forwarded-for')?.split(',').map((h) => h.trim()).filter(Boolean) ?? [];
+  return hops[hops.length - 1] || null;
+}
+
+interface PreparedEvent {
+  data: WebEventPayload;
+  eventData: Record<string, unknown>;
+  resolvedLandingPage: string | null;
+  occurredAt: Date;
+  idempotencyKey: string;
 }
 
-function validatePayload(body: unknown): { valid: true; data: WebEventPayload } | { valid: false; error: string } {
-  if (!body || typeof body !== 'object') {
-    return { valid: false, error: 'Request body must be a JSON object' };
+function prepareEvent(data: WebEventPayload, fallbackKey?: string | null): PreparedEvent {
+  const resolvedLandingPage = normalizeLandingPage(
+    data.origin_page,
+    data.origin_url,
+    data.landing_page,
+  );
+
+  const eventData: Record<string, unknown> = {
+    ...(data.event_data ?? {}),
+  };
+  if (resolvedLandingPage) {
+    eventData.landing_page = resolvedLandingPage;
   }
-  const b = body as Record<string, unknown>;
 
-  const required = ['event_type', 'page_url', 'visitor_id', 'session_id'] as const;
-  for (const field of required) {
-    if (typeof b[field] !== 'string' || (b[field] as string).trim() === '') {
-      return { valid: false, error: `Missing or empty required field: ${field}` };
+  return {
+    data,
+    eventData,
+    resolvedLandingPage,
+    occurredAt: data.occurred_at ? new Date(data.occurred_at) : new Date(),
+    idempotencyKey: data.event_id?.trim() || fallbackKey?.trim() || randomUUID(),
+  };
+}
+
+const INSERT_COLUMNS = `
+  source_system, event_name, occurred_at,
+  anonymous_session_id, payload, ingestion_run_id,
+  event_data, event_type, "timestamp",
+  visitor_id, session_id, page_url,
+  ip_address, user_agent, referrer,
+  page_title, source, idempotency_key
+`;
+
+const COLUMNS_PER_ROW = 17;
+
+function rowPlaceholders(offset: number): string {
+  const p = (n: number) => `$${offset + n}`;
+  return `(
+    'api-ingest', ${p(1)}, ${p(2)},
+    ${p(3)}, ${p(4)}::jsonb, ${p(5)}::uuid,
+    ${p(6)}::jsonb, ${p(7)}, ${p(8)},
+    ${p(9)}, ${p(10)}, ${p(11)},
+    ${p(12)}, ${p(13)}, ${p(14)},
+    ${p(15)}, ${p(16)}, ${p(17)}
+  )`;
+}
+
+function rowValues(ev: PreparedEvent, ingestionRunId: string): unknown[] {
+  const { data, eventData, occurredAt } = ev;
+  return [
+    data.event_type,
+    occurredAt.toISOString(),
+    data.session_id,
+    JSON.stringify(eventData),
+    ingestionRunId,
+    JSON.stringify(eventData),
+    data.event_type,
+    occurredAt.toISOString(),
+    data.visitor_id,
+    data.session_id,
+    data.page_url,
+    data.ip_address ?? null,
+    data.user_agent ?? null,
+    data.referrer ?? null,
+    data.page_title ?? null,
+    data.source ?? null,
+    ev.idempotencyKey,
+  ];
+}
+
+/**
+ * Inserts all events in one statement. Rows whose idempotency_key already
+ * exists are skipped by ON CONFLICT and come back absent from RETURNING.
+ */
+async function insertEvents(
+  db: Db,
+  events: PreparedEvent[],
+  ingestionRunId: string,
+): Promise<Array<{ id: string; idempotency_key?: string }>> {
+  const sql = `
+    INSERT INTO analytics.raw_web_events (${INSERT_COLUMNS})
+    VALUES ${events.map((_, i) => rowPlaceholders(i * COLUMNS_PER_ROW)).join(',\n')}
+    ON CONFLICT (idempotency_key) DO NOTHING
+    RETURNING id, idempotency_key
+  `;
+  const values = events.flatMap((ev) => rowValues(ev, ingestionRunId));
+  const result = await db.query(sql, values);
+  return result.rows;
+}
+
+async function bridgeAttribution(db: Db, ev: PreparedEvent): Promise<boolean> {
+  const { data, eventData, resolvedLandingPage } = ev;
+  if (data.event_type !== 'conversion' || !eventData.quote_id) return false;
+
+  const utmSource = (eventData.utm_source as string) || data.source || null;
+  const utmMedium = (eventData.utm_medium as string) || null;
+  const utmCampaign = (eventData.utm_campaign as string) || null;
+  const utmContent = (eventData.utm_content as string) || null;
+  const utmTerm = (eventData.utm_term as string) || null;
+  const gclid = (eventData.gclid as string) || null;
+  const gbraid = (eventData.gbraid as string) || null;
+  const wbraid = (eventData.wbraid as string) || null;
+  const lpRaw = (eventData.landing_page as string) || resolvedLandingPage || null;
+
+  if (!(utmSource || gclid || gbraid || wbraid)) return false;
+
+  try {
+    const bridgeSql = `
+      UPDATE analytics.raw_qms_deals
+      SET
+        utm_source   = COALESCE(NULLIF($2, ''), utm_source),
+        utm_medium   = COALESCE(NULLIF($3, ''), utm_medium),
+        utm_campaign = COALESCE(NULLIF($4, ''), utm_campaign),
+        utm_content  = COALESCE(NULLIF($5, ''), utm_content),
+        utm_term     = COALESCE(NULLIF($6, ''), utm_term),
+        gclid        = COALESCE(NULLIF($7, ''), gclid),
+        gbraid       = COALESCE(NULLIF($8, ''), gbraid),
+        wbraid       = COALESCE(NULLIF($9, ''), wbraid),
+        landing_page = COALESCE(NULLIF($10, ''), landing_page),
+        referrer     = COALESCE(NULLIF($11, ''), referrer)
+      WHERE convex_quote_id = $1
+        AND (utm_source IS NULL OR utm_source = '')
+    `;
+    const bridgeResult = await db.query(bridgeSql, [
+      eventData.quote_id,
+      utmSource,
+      utmMedium,
+      utmCampaign,
+      utmContent,
+      utmTerm,
+      gclid,
+      gbraid,
+      wbraid,
+      lpRaw,
+      data.referrer ?? null,
+    ]);
+    const bridged = (bridgeResult.rowCount ?? 0) > 0;
+    if (bridged) {
+      console.log(`[ingest/web-event] Attribution bridged to QMS deal: ${eventData.quote_id} (source=${utmSource})`);
     }
+    return bridged;
+  } catch (bridgeErr) {
+    console.warn('[ingest/web-event] Attribution bridge failed (non-fatal):', bridgeErr);
+    return false;
+  }
+}
+
+type BatchEventResult =
+  | { index: number; event_id: string; status: 'accepted'; id: string; attribution_bridged: boolean }
+  | { index: number; event_id: string; status: 'duplicate' }
+  | { index: number; event_id: string | null; status: 'rejected'; error: string };
+
+async function handleBatch(events: unknown[], cors: Record<string, string>, ip: string | null) {
+  if (events.length === 0) {
+    return NextResponse.json({ error: 'Batch must contain at least one event' }, { status: 400, headers: cors });
   }
+  if (events.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `Batch exceeds maximum of ${MAX_BATCH_SIZE} events` },
+      { status: 413, headers: cors },
+    );
+  }
+
+  const results: BatchEventResult[] = new Array(events.length);
+  const toInsert: Array<{ index: number; ev: PreparedEvent }> = [];
+  const deadLetters: DeadLetterEntry[] = [];
+  const seenKeys = new Set<string>();
 
-  return { valid: true, data: b as unknown as WebEventPayload };
+  events.forEach((raw, index) => {
+    const validation = validatePayload(raw);
+    if (!validation.valid) {
+      const rawId = raw && typeof raw === 'object' ? (raw as Record<string, unknown>).event_id : null;
+      results[index] = {
+        index,
+        event_id: typeof rawId === 'string' ? rawId : null,
+        status: 'rejected',
+        error: validation.error,
+      };
+      deadLetters.push({
+        endpoint: WEB_EVENT_CONTRACT.endpoint,
+        reason: validation.error,
+        field: validation.field,
+        payload: raw,
+        sourceIp: ip,
+      });
+      return;
+    }
+    const ev = prepareEvent(validation.data);
+    if (seenKeys.has(ev.idempotencyKey)) {
+      results[index] = { index, event_id: ev.idempotencyKey, status: 'duplicate' };
+      return;
+    }
+    seenKeys.add(ev.idempotencyKey);
+    toInsert.push({ index, ev });
+  });
+
+  const ingestionRunId = randomUUID();
+
+  if (toInsert.length > 0) {
+    const inserted = await insertEvents(db, toInsert.map((t) => t.ev), ingestionRunId);
+    const idsByKey = new Map(inserted.map((r) => [r.idempotency_key, r.id]));
+
+    for (const { index, ev } of toInsert) {
+      const id = idsByKey.get(ev.idempotencyKey);
+      if (id == null) {
+        results[index] = { index, event_id: ev.idempotencyKey, status: 'duplicate' };
+        continue;
+      }
+      const attributionBridged = await bridgeAttribution(db, ev);
+      results[index] = {
+        index,
+        event_id: ev.idempotencyKey,
+        status: 'accepted',
+        id,
+        attribution_bridged: attributionBridged,
+      };
+    }
+  }
+
+  await recordDeadLetters(db, deadLetters);
+
+  const count = (status: BatchEventResult['status']) => results.filter((r) => r.status === status).length;
+
+  return NextResponse.json(
+    {
+      ingestion_run_id: ingestionRunId,
+      accepted: count('accepted'),
+      duplicates: count('duplicate'),
+      rejected: count('rejected'),
+      results,
+    },
+    { status: 200, headers: cors },
+  );
 }
 
 export async function POST(request: NextRequest) {
   const origin = request.headers.get('origin');
   const cors = corsHeaders(origin);
 
+  const ip = sourceIp(request);
+
   try {
-    const body = await request.json();
-    const validation = validatePayload(body);
-    if (!validation.valid) {
-      return NextResponse.json({ error: validation.error }, { status: 400, headers: cors });
+    const text = await request.text();
+    let body: unknown;
+    let parsed = true;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      parsed = false;
     }
 
-    const data = validation.data;
+    const limit = rateLimiter.take(ip ?? 'unknown', parsed ? eventCount(body) : 1);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Rate limit exceeded' },
+        { status: 429, headers: { ...cors, 'Retry-After': String(limit.retryAfterSeconds) } },
+      );
+    }
 
-    const resolvedLandingPage = normalizeLandingPage(
-      data.origin_page,
-      data.origin_url,
-      data.landing_page,
-    );
+    if (!parsed) {
+      await recordDeadLetters(db, [{
+        endpoint: WEB_EVENT_CONTRACT.endpoint,
+        reason: 'Request body is not valid JSON',
+        field: null,
+        payload: text,
+        sourceIp: ip,
+      }]);
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400, headers: cors });
+    }
 
-    const eventData: Record<string, unknown> = {
-      ...(data.event_data ?? {}),
-    };
-    if (resolvedLandingPage) {
-      eventData.landing_page = resolvedLandingPage;
+    if (Array.isArray(body)) {
+      return await handleBatch(body, cors, ip);
+    }
+    if (body && typeof body === 'object' && Array.isArray((body as { events?: unknown }).events)) {
+      return await handleBatch((body as { events: unknown[] }).events, cors, ip);
     }
 
-    const occurredAt = data.occurred_at ? new Date(data.occurred_at) : new Date();
-    if (isNaN(occurredAt.getTime())) {
-      return NextResponse.json({ error: 'Invalid occurred_at timestamp' }, { status: 400, headers: cors });
+    const validation = validatePayload(body);
+    if (!validation.valid) {
+      await recordDeadLetters(db, [{
+        endpoint: WEB_EVENT_CONTRACT.endpoint,
+        reason: validation.error,
+        field: validation.field,
+        payload: body,
+        sourceIp: ip,
+      }]);
+      return NextResponse.json({ error: validation.error }, { status: 400, headers: cors });
     }
 
+    const ev = prepareEvent(validation.data, request.headers.get('idempotency-key'));
     const ingestionRunId = randomUUID();
+    const inserted = await insertEvents(db, [ev], ingestionRunId);
 
-    const sql = `
-      INSERT INTO analytics.raw_web_events (
-        source_system, event_name, occurred_at,
-        anonymous_session_id, payload, ingestion_run_id,
-        event_data, event_type, "timestamp",
-        visitor_id, session_id, page_url,
-        ip_address, user_agent, referrer,
-        page_title, source
-      ) VALUES (
-        'api-ingest', $1, $2,
-        $3, $4::jsonb, $5::uuid,
-        $6::jsonb, $7, $8,
-        $9, $10, $11,
-        $12, $13, $14,
-        $15, $16
-      )
-      RETURNING id
-    `;
-
-    const values = [
-      data.event_type,
-      occurredAt.toISOString(),
-      data.session_id,
-      JSON.stringify(eventData),
-      ingestionRunId,
-      JSON.stringify(eventData),
-      data.event_type,
-      occurredAt.toISOString(),
-      data.visitor_id,
-      data.session_id,
-      data.page_url,
-      data.ip_address ?? null,
-      data.user_agent ?? null,
-      data.referrer ?? null,
-      data.page_title ?? null,
-      data.source ?? null,
-    ];
-
-    const db = getPool();
-    const result = await db.query(sql, values);
-    const insertedId = result.rows[0]?.id;
-
-    let attributionBridged = false;
-    if (data.event_type === 'conversion' && eventData.quote_id) {
-      const utmSource = (eventData.utm_source as string) || data.source || null;
-      const utmMedium = (eventData.utm_medium as string) || null;
-      const utmCampaign = (eventData.utm_campaign as string) || null;
-      const utmContent = (eventData.utm_content as string) || null;
-      const utmTerm = (eventData.utm_term as string) || null;
-      const gclid = (eventData.gclid as string) || null;
-      const gbraid = (eventData.gbraid as string) || null;
-      const wbraid = (eventData.wbraid as string) || null;
-      const lpRaw = (eventData.landing_page as string) || resolvedLandingPage || null;
-
-      if (utmSource || gclid || gbraid || wbraid) {
-        try {
-          const bridgeSql = `
-            UPDATE analytics.raw_qms_deals
-            SET
-              utm_source   = COALESCE(NULLIF($2, ''), utm_source),
-              utm_medium   = COALESCE(NULLIF($3, ''), utm_medium),
-              utm_campaign = COALESCE(NULLIF($4, ''), utm_campaign),
-              utm_content  = COALESCE(NULLIF($5, ''), utm_content),
-              utm_term     = COALESCE(NULLIF($6, ''), utm_term),
-              gclid        = COALESCE(NULLIF($7, ''), gclid),
-              gbraid       = COALESCE(NULLIF($8, ''), gbraid),
-              wbraid       = COALESCE(NULLIF($9, ''), wbraid),
-              landing_page = COALESCE(NULLIF($10, ''), landing_page),
-              referrer     = COALESCE(NULLIF($11, ''), referrer)
-            WHERE convex_quote_id = $1
-              AND (utm_source IS NULL OR utm_source = '')
-          `;
-          const bridgeResult = await db.query(bridgeSql, [
-            eventData.quote_id,
-            utmSource,
-            utmMedium,
-            utmCampaign,
-            utmContent,
-            utmTerm,
-            gclid,
-            gbraid,
-            wbraid,
-            lpRaw,
-            data.referrer ?? null,
-          ]);
-          attributionBridged = (bridgeResult.rowCount ?? 0) > 0;
-          if (attributionBridged) {
-            console.log(`[ingest/web-event] Attribution bridged to QMS deal: ${eventData.quote_id} (source=${utmSource})`);
-          }
-        } catch (bridgeErr) {
-          console.warn('[ingest/web-event] Attribution bridge failed (non-fatal):', bridgeErr);
-        }
-      }
+    if (inserted.length === 0) {
+      return NextResponse.json(
+        {
+          id: null,
+          event_id: ev.idempotencyKey,
+          duplicate: true,
+          landing_page: ev.resolvedLandingPage,
+          attribution_bridged: false,
+        },
+        { status: 200, headers: cors },
+      );
     }
 
+    const attributionBridged = await bridgeAttribution(db, ev);
+
     return NextResponse.json(
       {
-        id: insertedId,
-        landing_page: resolvedLandingPage,
+        id: inserted[0].id,
+        event_id: ev.idempotencyKey,
+        landing_page: ev.resolvedLandingPage,
         attribution_bridged: attributionBridged,
       },
       { status: 201, headers: cors },
@@ -16,36 +16,18 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
-
-let pool: Pool | null = null;
-
-function getPool(): Pool | null {
-  const connectionString =
-    process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-  if (!connectionString) return null;
-  if (!pool) {
-    pool = new Pool({
-      connectionString,
-      ssl: { rejectUnauthorized: false },
-      max: 2,
-      statement_timeout: 5000,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 5000,
-    });
-  }
-  return pool;
-}
+import { getDb, isDbConfigured } from '../../../../lib/db';
+
+const db = getDb('proxy/cold-outreach-summary');
 
 /**
  * Latest write into the ODS snapshot store backing the Sales Engine summary.
  * Returns an ISO timestamp or null when the DB is unreachable/unconfigured.
  */
 async function getSnapshotAsOf(): Promise<string | null> {
-  const p = getPool();
-  if (!p) return null;
+  if (!isDbConfigured()) return null;
   try {
-    const result = await p.query(
+    const result = await db.query(
       `SELECT (MAX(created_at) AT TIME ZONE 'UTC') AS as_of
        FROM public.campaign_metrics_snapshots`,
     );
@@ -0,0 +1,80 @@
+/**
+ * Market Scope Preview Proxy Route
+ * 
+ * POST /api/proxy/market-scope/preview
+ * Body: { keywords, geographies, industries, company_size, exclusions }
+ * 
+ * Proxies to Sales Engine: POST /api/market-scope/preview
+ * 
+ * OBSERVATIONS-FIRST ARCHITECTURE:
+ * Estimates how many organizations and contacts in observations.* match an
+ * ICP that has not been run yet, broken down by geography and industry.
+ * Used while editing the ICP so a zero-result run (VALID_EMPTY_OBSERVATION)
+ * can be avoided before the campaign is submitted for review.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  normalizePreviewResponse,
+  previewCriteriaHash,
+  unavailablePreview,
+  validatePreviewCriteria,
+} from '../../../../sales-engine/lib/market-scope-preview';
+
+const SALES_ENGINE_URL = process.env.SALES_ENGINE_API_BASE_URL || process.env.NEXT_PUBLIC_SALES_ENGINE_API_BASE_URL;
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null);
+  const validated = validatePreviewCriteria(body);
+
+  if ('error' in validated) {
+    return NextResponse.json({ error: validated.error }, { status: 400 });
+  }
+
+  const criteria = validated.value;
+  const icpHash = previewCriteriaHash(criteria);
+
+  // When Sales Engine is not configured, return an unavailable preview
+  if (!SALES_ENGINE_URL) {
+    console.log('[market-scope-preview] Sales Engine not configured, returning default');
+    return NextResponse.json({
+      ...unavailablePreview(icpHash, 'Sales Engine not configured - no market observations available'),
+      _source: 'default',
+    });
+  }
+
+  try {
+    const response = await fetch(`${SALES_ENGINE_URL}/api/market-scope/preview`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Forward auth headers if present
+        ...(request.headers.get('authorization') && {
+          'Authorization': request.headers.get('authorization')!,
+        }),
+      },
+      body: JSON.stringify({ ...criteria, icpHash }),
+    });
+
+    if (!response.ok) {
+      // Pass through error from Sales Engine
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    return NextResponse.json({
+      ...normalizePreviewResponse(data, icpHash),
+      _source: 'sales-engine',
+    });
+  } catch (error) {
+    console.error('[market-scope-preview] Proxy error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch market scope preview',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 502 }
+    );
+  }
+}
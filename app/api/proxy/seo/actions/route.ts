@@ -8,19 +8,21 @@
  *
  * Legacy dashboard action writes are intentionally not supported here;
  * approve/reject UI uses the existing candidate path.
+ *
+ * POST approve/reject requires the bootstrap permission seo:approve and
+ * records the caller as the candidate's reviewer (lib/seo-review.ts).
  */
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import { SEO_APPROVE_PERMISSION, reviewerFromUser } from '../../../../../lib/seo-review';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const readDb = getDb('proxy/seo/actions');
+const db = getDb('proxy/seo/actions', { role: 'write' });
 
 export async function GET(req: NextRequest) {
   const status = req.nextUrl.searchParams.get('status') || 'pending';
@@ -34,7 +36,7 @@ export async function GET(req: NextRequest) {
     const resultRows: Record<string, unknown>[] = [];
 
     if (wantsPending) {
-      const result = await pool.query(
+      const result = await readDb.query(
         `SELECT
            q.candidate_id::text AS id,
            q.candidate_id,
@@ -78,7 +80,7 @@ export async function GET(req: NextRequest) {
     }
 
     if (lifecycleStatuses.length > 0) {
-      const result = await pool.query(
+      const result = await readDb.query(
         `SELECT
              c.candidate_id::text AS id,
              c.candidate_id,
@@ -114,6 +116,10 @@ export async function GET(req: NextRequest) {
              c.created_at,
              COALESCE(o.published_at, c.published_at, c.execution_timestamp) AS published_at,
              COALESCE(o.published_at, c.published_at, c.execution_timestamp) AS executed_at,
+             c.reviewer_id,
+             c.reviewer_email,
+             c.reviewer_name,
+             c.reviewed_at,
              'seo_execution_candidate' AS source,
              COALESCE(pp.auto_publish, false) AS auto_publish
            FROM analytics.seo_execution_candidate c
@@ -154,6 +160,12 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  const auth = await authorizeRequest(req, SEO_APPROVE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reviewer = reviewerFromUser(auth.identity.user);
+
   try {
     const body = await req.json() as { id: string; action: string; notes?: string; source?: string };
     const { id, action, notes, source } = body;
@@ -166,42 +178,46 @@ export async function POST(req: NextRequest) {
 
     if (action === 'approve') {
       if (fromCandidate) {
-        const result = await pool.query(
+        const result = await db.query(
           `UPDATE analytics.seo_execution_candidate
            SET execution_status = 'approved',
                approval_status = 'approved',
-               reviewer_id = 'operator',
+               reviewer_id = $3,
+               reviewer_email = $4,
+               reviewer_name = $5,
                reviewed_at = NOW(),
                review_notes = $2
            WHERE candidate_id = $1::uuid
            RETURNING candidate_id`,
-          [id, notes || null],
+          [id, notes || null, reviewer.id, reviewer.email, reviewer.name],
         );
         if (!result.rowCount) {
           return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
         }
-        return NextResponse.json({ success: true, id, status: 'approved' });
+        return NextResponse.json({ success: true, id, status: 'approved', reviewer });
       }
       return NextResponse.json({ error: 'Legacy action approval is retired; use candidate source.' }, { status: 410 });
     }
 
     if (action === 'reject') {
       if (fromCandidate) {
-        const result = await pool.query(
+        const result = await db.query(
           `UPDATE analytics.seo_execution_candidate
            SET execution_status = 'rejected',
                approval_status = 'rejected',
-               reviewer_id = 'operator',
+               reviewer_id = $3,
+               reviewer_email = $4,
+               reviewer_name = $5,
                reviewed_at = NOW(),
                review_notes = $2
            WHERE candidate_id = $1::uuid
            RETURNING candidate_id`,
-          [id, notes || null],
+          [id, notes || null, reviewer.id, reviewer.email, reviewer.name],
         );
         if (!result.rowCount) {
           return NextResponse.json({ error: 'Candidate not found' }, { status: 404 });
         }
-        return NextResponse.json({ success: true, id, status: 'rejected' });
+        return NextResponse.json({ success: true, id, status: 'rejected', reviewer });
       }
       return NextResponse.json({ error: 'Legacy action rejection is retired; use candidate source.' }, { status: 410 });
     }
@@ -2,27 +2,16 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({ connectionString: databaseUrl, ssl: { rejectUnauthorized: false }, max: 3 });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/attribution');
 
 export async function GET() {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
 
   try {
-    const p = getPool();
-
     const [rowsResult, earliestResult] = await Promise.all([
-      p.query(`
+      db.query(`
         SELECT
           ra.page_url,
           ra.keyword,
@@ -36,7 +25,7 @@ export async function GET() {
         ORDER BY ra.attribution_date DESC, ra.revenue_delta DESC NULLS LAST
         LIMIT 100
       `).catch(() => ({ rows: [] as Record<string, unknown>[] })),
-      p.query(`SELECT MIN(executed_at) AS earliest FROM analytics.seo_execution_log`).catch(() => ({ rows: [{ earliest: null }] })),
+      db.query(`SELECT MIN(executed_at) AS earliest FROM analytics.seo_execution_log`).catch(() => ({ rows: [{ earliest: null }] })),
     ]);
 
     return NextResponse.json({ data: { rows: rowsResult.rows, earliest_execution: earliestResult.rows[0]?.earliest ?? null } });
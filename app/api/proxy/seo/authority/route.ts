@@ -9,16 +9,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/authority');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function GET() {
@@ -27,7 +23,7 @@ export async function GET() {
   }
 
   try {
-    const { rows } = await pool.query(`
+    const { rows } = await db.query(`
       SELECT
         id::text,
         opportunity_type,
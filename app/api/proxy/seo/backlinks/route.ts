@@ -2,33 +2,23 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({ connectionString: databaseUrl, ssl: { rejectUnauthorized: false }, max: 3 });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const readDb = getDb('proxy/seo/backlinks');
+const db = getDb('proxy/seo/backlinks', { role: 'write' });
 
 export async function GET(_req: NextRequest) {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
 
   try {
-    const p = getPool();
-
     const [summaryResult, opportunitiesResult] = await Promise.all([
-      p.query(`
+      readDb.query(`
         SELECT target_domain, domain_rank, referring_domains, backlinks, fetched_at
         FROM analytics.seo_backlink_summary
         ORDER BY fetched_at DESC
         LIMIT 10
       `).catch(() => ({ rows: [] as Record<string, unknown>[] })),
-      p.query(`
+      readDb.query(`
         SELECT referring_domain, domain_rank, backlinks_count, spam_score,
                gap_competitor, opportunity_type, status, discovered_at
         FROM analytics.seo_backlink_opportunities
@@ -47,14 +37,12 @@ export async function GET(_req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
 
   try {
     const { id, status } = await req.json() as { id: string; status: string };
     if (!id || !status) return NextResponse.json({ error: 'id and status required' }, { status: 400 });
-
-    const p = getPool();
-    await p.query(
+    await db.query(
       `UPDATE analytics.seo_backlink_opportunities SET status = $1 WHERE id = $2`,
       [status, id],
     );
@@ -12,16 +12,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/candidate-queue');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 // The governance contract for this endpoint is "surface EVERY accepted+pending
@@ -45,7 +41,7 @@ export async function GET(req: NextRequest) {
       ? Math.min(Math.floor(rawLimit), MAX_LIMIT)
       : DEFAULT_LIMIT;
 
-    const { rows } = await pool.query(
+    const { rows } = await db.query(
       `WITH queue AS (
          SELECT q.*,
                 CASE q.mutation_type
@@ -162,7 +158,7 @@ export async function GET(req: NextRequest) {
       auto_publish: r.auto_publish === true,
     }));
 
-    const summary = await pool.query(`SELECT * FROM analytics.v_seo_dashboard_summary`);
+    const summary = await db.query(`SELECT * FROM analytics.v_seo_dashboard_summary`);
     return NextResponse.json({ data: { candidates, returned: candidates.length, summary: summary.rows[0] ?? null } });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
@@ -12,16 +12,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/candidate');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function GET(req: NextRequest) {
@@ -35,7 +31,7 @@ export async function GET(req: NextRequest) {
   }
 
   try {
-    const { rows } = await pool.query(
+    const { rows } = await db.query(
       `SELECT q.candidate_id, q.opportunity_id, q.mutation_type, q.mutation_label, q.primary_remedy,
               proposed_value, current_value_snapshot, evidence_summary, why, gate_reasons,
               gate_status, opportunity_score::numeric AS opportunity_score, opportunity_urgency,
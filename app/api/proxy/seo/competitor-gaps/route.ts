@@ -1,24 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 export const dynamic = 'force-dynamic';
-import { Pool } from 'pg';
 import { parseSeoWindow } from '../_window';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-
-let pool: Pool | null = null;
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/competitor-gaps');
 
 // Canonical neon competitor set — the only domains present in
 // analytics.seo_competitor_gap that are genuine *neon* shops. Generic-sign
@@ -49,12 +34,11 @@ const BRANDED_KEYWORD_PATTERNS = [
 ];
 
 export async function GET(req: NextRequest) {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
   try {
-    const p = getPool();
     const window = parseSeoWindow(req);
     const gapType = req.nextUrl.searchParams.get('type');
     const status = req.nextUrl.searchParams.get('status');
@@ -90,18 +74,18 @@ export async function GET(req: NextRequest) {
     where += ` AND LENGTH(COALESCE(g.keyword, '')) >= 4`;
 
     const [totalResult, rawCompetitorsResult, filteredResult, statusResult] = await Promise.all([
-      p.query(`SELECT COUNT(*)::int AS count FROM analytics.seo_competitor_gap`),
-      p.query(`
+      db.query(`SELECT COUNT(*)::int AS count FROM analytics.seo_competitor_gap`),
+      db.query(`
         SELECT COUNT(DISTINCT lower(regexp_replace(regexp_replace(competitor_url, '^https?://(www\\.)?', ''), '/.*$', '')))::int AS count
         FROM analytics.seo_competitor_gap
         WHERE competitor_url IS NOT NULL AND btrim(competitor_url) <> ''
       `),
-      p.query(`
+      db.query(`
         SELECT COUNT(*)::int AS count
         FROM analytics.seo_command_center_competitor_gaps($1::int, $2::date, $3::date) g
         ${where}
       `, params),
-      p.query(`
+      db.query(`
         SELECT g.status, COUNT(*)::int AS count
         FROM analytics.seo_command_center_competitor_gaps($1::int, $2::date, $3::date) g
         ${where}
@@ -109,7 +93,7 @@ export async function GET(req: NextRequest) {
       `, params),
     ]);
 
-    const { rows } = await p.query(`
+    const { rows } = await db.query(`
       SELECT
         g.id,
         g.competitor_url,
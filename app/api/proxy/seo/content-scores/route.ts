@@ -2,25 +2,15 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({ connectionString: databaseUrl, ssl: { rejectUnauthorized: false }, max: 3 });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/content-scores');
 
 export async function GET() {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
 
   try {
-    const p = getPool();
-    const { rows } = await p.query(`
+    const { rows } = await db.query(`
       SELECT
         page_url,
         content_type,
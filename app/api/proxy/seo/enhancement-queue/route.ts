@@ -1,17 +1,30 @@
+// =============================================================================
+// GET/POST /api/proxy/seo/enhancement-queue
+// GET lists page enhancement packages with their member candidates.
+// POST release/reject requires the bootstrap permission seo:approve and stamps
+// the caller as reviewer on the member candidates (lib/seo-review.ts). A
+// released package is held for SEO_RELEASE_GRACE_MINUTES before it reaches
+// the executor, as with approve_package (services/seoPackageRelease.ts).
+// =============================================================================
+
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import { SEO_APPROVE_PERMISSION, reviewerFromUser } from '../../../../../lib/seo-review';
+import {
+  HELD_EXECUTION_STATUS,
+  holdPackageRelease,
+  releaseGraceMinutes,
+} from '../../../../../services/seoPackageRelease';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const readDb = getDb('proxy/seo/enhancement-queue');
+const db = getDb('proxy/seo/enhancement-queue', { role: 'write' });
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 // Build a single enhancement object from a package row + its member candidates
@@ -52,7 +65,7 @@ export async function GET(req: NextRequest) {
   try {
     if (id) {
       // Single enhancement
-      const pkgRes = await pool.query(
+      const pkgRes = await readDb.query(
         `SELECT * FROM analytics.seo_page_enhancement WHERE enhancement_id = $1 LIMIT 1`,
         [id],
       );
@@ -60,7 +73,7 @@ export async function GET(req: NextRequest) {
         return NextResponse.json({ error: 'Enhancement not found' }, { status: 404 });
       }
       const pkg = pkgRes.rows[0];
-      const membersRes = await pool.query(
+      const membersRes = await readDb.query(
         `SELECT c.candidate_id, c.mutation_type, c.current_value_snapshot, c.proposed_value,
                 COALESCE(c.quality_self_score, 0) AS quality_self_score,
                 COALESCE(pp.auto_publish, false) AS publish_live,
@@ -76,7 +89,7 @@ export async function GET(req: NextRequest) {
     }
 
     // Full queue — packages pending review
-    const pkgRes = await pool.query(`
+    const pkgRes = await readDb.query(`
       SELECT * FROM analytics.seo_page_enhancement
       WHERE status NOT IN ('winner','retired','inconclusive')
          OR status IS NULL
@@ -86,7 +99,7 @@ export async function GET(req: NextRequest) {
 
     const enhancements = await Promise.all(
       pkgRes.rows.map(async (pkg: Record<string, unknown>) => {
-        const membersRes = await pool.query(
+        const membersRes = await readDb.query(
           `SELECT c.candidate_id, c.mutation_type, c.current_value_snapshot, c.proposed_value,
                   COALESCE(c.quality_self_score, 0) AS quality_self_score,
                   COALESCE(pp.auto_publish, false) AS publish_live,
@@ -114,6 +127,11 @@ export async function POST(req: NextRequest) {
   if (!isConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
+  const auth = await authorizeRequest(req, SEO_APPROVE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reviewer = reviewerFromUser(auth.identity.user);
 
   let body: { enhancement_id?: string; action?: string };
   try {
@@ -130,49 +148,83 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'action must be release or reject' }, { status: 400 });
   }
 
+  const client = await db.connect();
   try {
+    await client.query('BEGIN');
+    let release: { status: string; release_after: string } | null = null;
     if (action === 'release') {
-      // Attempt RPC first; fall back to direct update if function doesn't exist
-      await pool.query(
-        `UPDATE analytics.seo_page_enhancement
-         SET status = 'evaluating', released_at = NOW()
-         WHERE enhancement_id = $1`,
-        [enhancement_id],
+      // Approve the pending members and hold the package for the grace window,
+      // like approve_package on /api/proxy/seo/page-enhancements.
+      const approved = await client.query(
+        `UPDATE analytics.seo_execution_candidate
+         SET approval_status = 'approved',
+             execution_status = $2,
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
+             reviewed_at = NOW(),
+             review_notes = 'released from enhancement queue'
+         WHERE enhancement_id = $1 AND approval_status = 'pending'
+         RETURNING candidate_id::text`,
+        [enhancement_id, HELD_EXECUTION_STATUS, reviewer.id, reviewer.email, reviewer.name],
       );
-      // Also approve member candidates
-      try {
-        await pool.query(
-          `UPDATE analytics.seo_execution_candidate
-           SET approval_status = 'approved', approved_at = NOW()
-           WHERE enhancement_id = $1 AND approval_status = 'pending'`,
+      if (approved.rows.length > 0) {
+        const pkg = await client.query(
+          `SELECT canonical_url FROM analytics.seo_page_enhancement WHERE enhancement_id = $1 LIMIT 1`,
           [enhancement_id],
         );
-      } catch {
-        // column may not exist on this schema version
+        const hold = await holdPackageRelease(client, {
+          enhancementId: enhancement_id,
+          canonicalUrl: pkg.rows[0]?.canonical_url ?? null,
+          repUrl: null,
+          memberIds: approved.rows.map((r) => String(r.candidate_id)),
+          reviewer,
+          graceMinutes: releaseGraceMinutes(),
+        });
+        release = { status: hold.status, release_after: hold.release_after };
       }
     } else {
-      await pool.query(
+      await client.query(
         `UPDATE analytics.seo_page_enhancement
          SET status = 'retired'
          WHERE enhancement_id = $1`,
         [enhancement_id],
       );
+      await client.query(
+        `UPDATE analytics.seo_execution_candidate
+         SET approval_status = 'rejected',
+             execution_status = 'rejected',
+             reviewer_id = $2,
+             reviewer_email = $3,
+             reviewer_name = $4,
+             reviewed_at = NOW(),
+             review_notes = 'rejected from enhancement queue'
+         WHERE enhancement_id = $1 AND approval_status = 'pending'`,
+        [enhancement_id, reviewer.id, reviewer.email, reviewer.name],
+      );
+      // is_active is managed by the dedupe function — direct writes are rejected by trigger
       try {
-        await pool.query(
-          `UPDATE analytics.seo_execution_candidate
-           SET approval_status = 'rejected', is_active = false
-           WHERE enhancement_id = $1 AND approval_status = 'pending'`,
-          [enhancement_id],
-        );
+        await client.query(`SELECT analytics.seo_dedupe_candidates()`);
       } catch {
-        // column may not exist on this schema version
+        // non-fatal if function doesn't exist in this schema version
       }
     }
+    await client.query('COMMIT');
 
-    return NextResponse.json({ success: true, enhancement_id, action });
+    return NextResponse.json({
+      success: true,
+      enhancement_id,
+      action,
+      reviewer,
+      release_status: release?.status ?? null,
+      release_after: release?.release_after ?? null,
+    });
   } catch (err: unknown) {
+    await client.query('ROLLBACK').catch(() => undefined);
     const msg = err instanceof Error ? err.message : String(err);
     console.error('[seo/enhancement-queue] POST error:', msg);
     return NextResponse.json({ error: 'Failed to process enhancement action' }, { status: 500 });
+  } finally {
+    client.release();
   }
 }
@@ -2,16 +2,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/evaluation');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function GET(_req: NextRequest) {
@@ -23,7 +19,7 @@ export async function GET(_req: NextRequest) {
     // seo_page_enhancement uses `status` (not lifecycle_state) and `released_at` (not evaluation_start_at)
     // seo_lifecycle_policy holds the verdict windows
     const [rowsResult, policyResult] = await Promise.all([
-      pool.query(`
+      db.query(`
         SELECT
           e.enhancement_id,
           e.canonical_url,
@@ -39,7 +35,7 @@ export async function GET(_req: NextRequest) {
         ORDER BY e.released_at ASC
         LIMIT 200
       `),
-      pool.query(`
+      db.query(`
         SELECT first_verdict_days, final_days
         FROM analytics.seo_lifecycle_policy
         ORDER BY policy_id
@@ -1,38 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 export const dynamic = 'force-dynamic';
-import { Pool } from 'pg';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-
-let pool: Pool | null = null;
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/execution-log');
 
 export async function GET(req: NextRequest) {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
   try {
-    const p = getPool();
-    const { rows } = await p.query(`
+    const { rows } = await db.query(`
       SELECT
         c.candidate_id::text AS id,
         c.target_page_url AS target_url,
         c.mutation_type AS execution_type,
         analytics.seo_mutation_label(c.mutation_type) AS mutation_label,
-        c.reviewer_id AS executed_by,
+        COALESCE(c.reviewer_name, c.reviewer_email, c.reviewer_id) AS executed_by,
+        c.reviewer_id,
+        c.reviewer_email,
+        c.reviewer_name,
+        c.reviewed_at,
         COALESCE(o.published_at, c.published_at, c.execution_timestamp) AS executed_at,
         NULL::numeric AS baseline_position,
         NULL::bigint AS baseline_impressions,
@@ -2,19 +2,15 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { toRecommendationCard, groupIntoSections } from '../../../../../lib/recommendation-templates';
 import type { OpportunityRow } from '../../../../../lib/recommendation-templates';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 5,
-});
+const db = getDb('proxy/seo/intelligence');
 
 async function getOverviewKpis() {
   const [actionCounts, pageOpts, internalLinks, contentArtifacts, ahrefsKw, pageIndex, autoApproveSettings, autoApprovedToday, pipelineRuns, metricContracts] = await Promise.all([
-    pool.query(`
+    db.query(`
       WITH queue AS (
         SELECT * FROM analytics.v_seo_dashboard_queue
       ),
@@ -48,10 +44,10 @@ async function getOverviewKpis() {
       FROM queue_counts
       CROSS JOIN lifecycle
     `).catch(() => ({ rows: [{ total_opportunities: 0, total_clusters: 0, high_urgency: 0, medium_urgency: 0, low_urgency: 0, total: 0, awaiting_approval: 0, approved: 0, published: 0 }] })),
-    pool.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_page_optimization_recommendations`).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`SELECT COUNT(*)::int AS cnt FROM analytics.internal_link_recommendations`).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_content_artifacts`).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`
+    db.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_page_optimization_recommendations`).catch(() => ({ rows: [{ cnt: 0 }] })),
+    db.query(`SELECT COUNT(*)::int AS cnt FROM analytics.internal_link_recommendations`).catch(() => ({ rows: [{ cnt: 0 }] })),
+    db.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_content_artifacts`).catch(() => ({ rows: [{ cnt: 0 }] })),
+    db.query(`
       WITH deduped AS (
         SELECT DISTINCT ON (payload->>'keyword', payload->>'competitor_domain')
           id
@@ -60,24 +56,24 @@ async function getOverviewKpis() {
       )
       SELECT COUNT(*)::int AS cnt FROM deduped
     `).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_page_inventory WHERE status_class = 'canonical_live'`).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`
+    db.query(`SELECT COUNT(*)::int AS cnt FROM analytics.seo_page_inventory WHERE status_class = 'canonical_live'`).catch(() => ({ rows: [{ cnt: 0 }] })),
+    db.query(`
       SELECT auto_approve_enabled, auto_approve_daily_cap, auto_approve_min_score
       FROM analytics.seo_generation_settings
       ORDER BY id ASC
       LIMIT 1
     `).catch(() => ({ rows: [] })),
-    pool.query(`
+    db.query(`
       SELECT COUNT(*)::int AS cnt
       FROM analytics.seo_execution_candidate
       WHERE reviewed_at::date = CURRENT_DATE
         AND approval_status = 'approved'
     `).catch(() => ({ rows: [{ cnt: 0 }] })),
-    pool.query(`
+    db.query(`
       SELECT MAX(created_at) AS run_at
       FROM analytics.seo_execution_candidate
     `).catch(() => ({ rows: [] })),
-    pool.query(`
+    db.query(`
       SELECT metric_key, panel, label, grain, window_kind, freshness_source,
              source_label, window_label, display_order, notes
       FROM analytics.v_seo_dashboard_metric_contract
@@ -128,7 +124,7 @@ async function getPagePerformance(limit: number, sortBy: string) {
   };
   const orderCol = validSorts[sortBy] || 'impressions::int';
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       url,
       query,
@@ -152,7 +148,7 @@ async function getPagePerformance(limit: number, sortBy: string) {
 }
 
 async function getPageOptimizations() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       id, url, page_type, primary_keyword, optimization_type,
       recommended_title, recommended_meta_description,
@@ -185,7 +181,7 @@ async function getInternalLinks() {
   // - Prioritize cross-category links (blog→page, page→category, root→hub)
   //   These actually move authority and improve crawl depth
   // Cap at 50 to prevent the noise that comes with 900+ undifferentiated recs
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT id, source_page, target_page, anchor_text, reason, priority, rule_source, created_at,
       CASE
         -- Strategic value scoring: higher = more impact per link
@@ -230,21 +226,21 @@ async function getContentPipeline() {
     // are not joined-in (the legacy join was the only producer). UI shows null
     // cluster_topic for new artifacts; previously-joined rows were already
     // sparse in practice.
-    pool.query(`
+    db.query(`
       SELECT a.id, a.artifact_type, a.status, a.title, a.generated_by, a.created_at,
              NULL::text AS primary_keyword,
              NULL::text AS cluster_topic
       FROM analytics.seo_content_artifacts a
       ORDER BY a.created_at DESC
     `),
-    pool.query(`
+    db.query(`
       SELECT cluster_id, cluster_keyword, total_impressions::int, avg_position::numeric,
              keyword_count::int, seo_priority_score::numeric
       FROM analytics.seo_generation_candidates
       ORDER BY seo_priority_score::numeric DESC
       LIMIT 25
     `),
-    pool.query(`
+    db.query(`
       SELECT id, event_type, generator_version, model, created_at
       FROM analytics.seo_generation_events
       ORDER BY created_at DESC
@@ -289,7 +285,7 @@ async function getCompetitiveKeywordGap(competitor?: string | null) {
     filter = `WHERE d.competitor_domain = $1`;
   }
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     WITH deduped AS (
       SELECT DISTINCT ON (payload->>'keyword', payload->>'competitor_domain')
         payload
@@ -335,7 +331,7 @@ async function getCompetitiveBacklinks(competitor?: string | null) {
     filter = `WHERE d.competitor_domain = $1`;
   }
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     WITH deduped AS (
       SELECT DISTINCT ON (payload->>'domain', payload->>'competitor_domain')
         payload
@@ -377,7 +373,7 @@ async function getCompetitiveTopPages(competitor?: string | null) {
     filter = `WHERE d.competitor_domain = $1`;
   }
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     WITH deduped AS (
       SELECT DISTINCT ON (payload->>'url', payload->>'competitor_domain')
         payload
@@ -418,7 +414,7 @@ async function getCompetitiveTopPages(competitor?: string | null) {
 }
 
 async function getClusterPriorities(limit: number) {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       cluster_id, cluster_keyword,
       total_impressions::int, avg_position::numeric,
@@ -442,7 +438,7 @@ async function getClusterPriorities(limit: number) {
 }
 
 async function getCompetitorsList() {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT DISTINCT payload->>'competitor_domain' AS competitor
     FROM analytics.raw_ahrefs_keyword_gap
     ORDER BY payload->>'competitor_domain'
@@ -571,7 +567,7 @@ async function resolveGscPageForCluster(topicCluster: string): Promise<string |
     const words = topicCluster.toLowerCase().split(/\s+/).filter(Boolean);
     if (words.length === 0) return null;
     const likePattern = '%' + words.join('%') + '%';
-    const { rows } = await pool.query(`
+    const { rows } = await db.query(`
       SELECT payload->>'page' AS page,
              SUM((payload->>'impressions')::int) AS total_impressions
       FROM analytics.raw_search_console
@@ -759,7 +755,7 @@ async function getEngineRecommendations(limit: number, family?: string | null, r
 
   const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       ROW_NUMBER() OVER (ORDER BY q.opportunity_score DESC NULLS LAST, q.created_at DESC)::int AS balanced_rank,
       ROW_NUMBER() OVER (ORDER BY q.opportunity_score DESC NULLS LAST, q.created_at DESC)::int AS canonical_queue_rank,
@@ -833,7 +829,7 @@ async function getEngineRecommendations(limit: number, family?: string | null, r
 }
 
 async function getEngineRecommendationDetail(opportunityId: string) {
-  const { rows } = await pool.query(`
+  const { rows } = await db.query(`
     SELECT
       COALESCE(q.opportunity_id::text, q.candidate_id::text) AS opportunity_id,
       q.mutation_type AS opportunity_family,
@@ -0,0 +1,32 @@
+// =============================================================================
+// GET /api/proxy/seo/metric-contracts
+// Governance lock: READ-ONLY. Latest reconciliation result per enabled
+// metric contract (analytics.v_seo_metric_contract_health), written daily by
+// /api/cron/metric-contracts. Feeds the contract health panels on the SEO
+// Command Center and Marketing › Data Health. No queue, dispatch, learning,
+// or is_active writes.
+// =============================================================================
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+import { NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
+import { getContractHealth } from '../../../../../services/metricContractReconciliation';
+
+const db = getDb('proxy/seo/metric-contracts');
+
+export async function GET() {
+  if (!isDbConfigured()) {
+    return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  }
+
+  try {
+    const data = await getContractHealth(db);
+    return NextResponse.json({ data });
+  } catch (err: unknown) {
+    const msg = err instanceof Error ? err.message : String(err);
+    console.error('[seo/metric-contracts] GET error:', msg);
+    return NextResponse.json({ error: 'Failed to load metric contract health' }, { status: 500 });
+  }
+}
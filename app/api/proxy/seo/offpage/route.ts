@@ -12,17 +12,13 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { parseSeoWindow } from '../_window';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/offpage');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 function normUrl(u: string): string {
@@ -43,7 +39,7 @@ export async function GET(req: NextRequest) {
 
   try {
     const { rows } = norm
-      ? await pool.query(
+      ? await db.query(
           `SELECT page_url, target_keyword,
                   search_volume::numeric AS search_volume,
                   current_position::numeric AS current_position,
@@ -57,7 +53,7 @@ export async function GET(req: NextRequest) {
            ORDER BY impressions DESC NULLS LAST`,
           [norm, window.days, window.start, window.end],
         )
-      : await pool.query(
+      : await db.query(
           `SELECT page_url, target_keyword,
                   search_volume::numeric AS search_volume,
                   current_position::numeric AS current_position,
@@ -1,11 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/outcomes');
 
 export async function GET(_req: NextRequest) {
   if (!process.env.SUPABASE_DATABASE_URL && !process.env.DATABASE_URL) {
@@ -13,7 +9,7 @@ export async function GET(_req: NextRequest) {
   }
 
   try {
-    const result = await pool.query(`
+    const result = await db.query(`
       SELECT
         c.candidate_id::text AS id,
         analytics.seo_mutation_label(c.mutation_type) AS cluster_topic,
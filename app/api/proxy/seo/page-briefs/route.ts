@@ -1,36 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 export const dynamic = 'force-dynamic';
-import { Pool } from 'pg';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-
-let pool: Pool | null = null;
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const readDb = getDb('proxy/seo/page-briefs');
+const db = getDb('proxy/seo/page-briefs', { role: 'write' });
 
 export async function GET(req: NextRequest) {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
   try {
-    const p = getPool();
     const status = req.nextUrl.searchParams.get('status');
     const where = status ? `WHERE b.status = $1` : '';
     const params = status ? [status] : [];
 
-    const { rows } = await p.query(`
+    const { rows } = await readDb.query(`
       SELECT b.*, kc.primary_keyword as cluster_keyword
       FROM analytics.seo_page_brief b
       LEFT JOIN analytics.keyword_clusters kc ON kc.id = b.cluster_id
@@ -47,7 +32,7 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
@@ -55,11 +40,9 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { action, briefId, status: newStatus, targetKeyword, clusterId, triggerSource } = body;
 
-    const p = getPool();
-
     if (action === 'generate') {
       // Insert a new brief directly (simplified — production should call ODS API)
-      const { rows } = await p.query(`
+      const { rows } = await db.query(`
         INSERT INTO analytics.seo_page_brief (
           cluster_id, target_keyword, trigger_source, status
         ) VALUES ($1, $2, $3, 'draft')
@@ -70,7 +53,7 @@ export async function POST(req: NextRequest) {
     }
 
     if (action === 'update-status' && briefId && newStatus) {
-      await p.query(
+      await db.query(
         `UPDATE analytics.seo_page_brief SET status = $2 WHERE id = $1`,
         [briefId, newStatus],
       );
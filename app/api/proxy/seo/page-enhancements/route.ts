@@ -3,22 +3,33 @@
 // Page-package review surface. The decision unit is one page enhancement package
 // from analytics.v_seo_page_enhancement_review_detail, with member candidate
 // details joined only for review and guard evaluation.
+// POST decisions require the bootstrap permission seo:approve and stamp the
+// caller as reviewer on every member candidate (lib/seo-review.ts).
+// Approved packages are held for SEO_RELEASE_GRACE_MINUTES before release —
+// members sit at execution_status 'held', which the executor does not pick up —
+// and can be undone with revert_package (services/seoPackageRelease.ts).
 // =============================================================================
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool, PoolClient } from 'pg';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import { SEO_APPROVE_PERMISSION, reviewerFromUser, type SeoReviewer } from '../../../../../lib/seo-review';
+import {
+  HELD_EXECUTION_STATUS,
+  holdPackageRelease,
+  listPendingReleases,
+  releaseGraceMinutes,
+  revertPackage,
+} from '../../../../../services/seoPackageRelease';
+import { getDb, isDbConfigured, type DbClient, type DbQueryable } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const readDb = getDb('proxy/seo/page-enhancements');
+const db = getDb('proxy/seo/page-enhancements', { role: 'write' });
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 const OPEN_REGEN_STATUSES = ['pending', 'regenerating', 'escalated'];
@@ -217,7 +228,7 @@ function lifecycleDay(releasedAt: string | Date | null): number | null {
   return Math.max(0, Math.floor((Date.now() - t) / 86_400_000));
 }
 
-async function loadPayload(client: Pool | PoolClient) {
+async function loadPayload(client: DbQueryable) {
   const memberResult = await client.query(packageMemberSql, [OPEN_REGEN_STATUSES]);
   const lifecycleResult = await client.query(
     `SELECT enhancement_id::text, canonical_url, rep_url, version, status, fields,
@@ -236,6 +247,7 @@ async function loadPayload(client: Pool | PoolClient) {
      LIMIT 1`,
   );
   const northStarResult = await client.query(`SELECT * FROM analytics.v_seo_north_star LIMIT 1`);
+  const pendingRelease = await listPendingReleases(client);
   const moneyResult = await client.query(`SELECT * FROM analytics.v_seo_north_star_money_pages LIMIT 8`);
 
   const packages = mapPackages(memberResult.rows);
@@ -278,6 +290,8 @@ async function loadPayload(client: Pool | PoolClient) {
     lifecycle,
     counts,
     policy,
+    pending_release: pendingRelease,
+    release_grace_minutes: releaseGraceMinutes(),
     north_star: ns ? {
       as_of: ns.as_of,
       pages_with_traffic: Number(ns.pages_with_traffic ?? 0),
@@ -303,7 +317,7 @@ async function loadPayload(client: Pool | PoolClient) {
   };
 }
 
-async function approveLoadedPackage(client: PoolClient, pkg: any, reviewNotes?: string, force = false) {
+async function approveLoadedPackage(client: DbClient, pkg: any, reviewer: SeoReviewer, reviewNotes?: string, force = false) {
   if (!force && !pkg.safe_to_bulk_approve) return { enhancement_id: pkg.enhancement_id, status: 'skipped', reason: 'package_guard_failed' };
 
   const ids = pkg.member_candidate_ids;
@@ -313,34 +327,52 @@ async function approveLoadedPackage(client: PoolClient, pkg: any, reviewNotes?:
   const update = await client.query(
     `UPDATE analytics.seo_execution_candidate
      SET approval_status = 'approved',
-         execution_status = 'approved',
-         reviewer_id = 'operator',
+         execution_status = $6,
+         reviewer_id = $3,
+         reviewer_email = $4,
+         reviewer_name = $5,
          reviewed_at = NOW(),
          review_notes = $2
      ${whereClause}`,
-    [ids, reviewNotes || (force ? 'force-approved as page package (override guards)' : 'approved as page package')],
+    [
+      ids,
+      reviewNotes || (force ? 'force-approved as page package (override guards)' : 'approved as page package'),
+      reviewer.id,
+      reviewer.email,
+      reviewer.name,
+      HELD_EXECUTION_STATUS,
+    ],
   );
   if (!force && update.rowCount !== ids.length) {
     throw new Error(`approved ${update.rowCount}/${ids.length} package members`);
   }
-  await client.query(`SELECT analytics.seo_release_page_enhancement($1::bigint)`, [pkg.enhancement_id]);
+  const hold = await holdPackageRelease(client, {
+    enhancementId: pkg.enhancement_id,
+    canonicalUrl: pkg.canonical_url ?? null,
+    repUrl: pkg.rep_url ?? null,
+    memberIds: ids,
+    reviewer,
+    graceMinutes: releaseGraceMinutes(),
+  });
   return {
     enhancement_id: pkg.enhancement_id,
     status: 'approved',
     approved: ids.length,
     auto_publish_count: pkg.auto_publish_count,
     draft_count: pkg.draft_count,
+    release_status: hold.status,
+    release_after: hold.release_after,
   };
 }
 
-async function approvePackage(client: PoolClient, enhancementId: string, reviewNotes?: string, force = false) {
+async function approvePackage(client: DbClient, enhancementId: string, reviewer: SeoReviewer, reviewNotes?: string, force = false) {
   const payload = await loadPayload(client);
   const pkg = payload.packages.find((p) => p.enhancement_id === enhancementId);
   if (!pkg) return { enhancement_id: enhancementId, status: 'skipped', reason: 'not_found_or_not_pending' };
-  return approveLoadedPackage(client, pkg, reviewNotes, force);
+  return approveLoadedPackage(client, pkg, reviewer, reviewNotes, force);
 }
 
-async function rejectPackage(client: PoolClient, enhancementId: string, reviewNotes?: string) {
+async function rejectPackage(client: DbClient, enhancementId: string, reviewer: SeoReviewer, reviewNotes?: string) {
   const row = await client.query(
     `SELECT member_candidate_ids::text[] AS ids
      FROM analytics.v_seo_page_enhancement_queue
@@ -356,13 +388,15 @@ async function rejectPackage(client: PoolClient, enhancementId: string, reviewNo
     `UPDATE analytics.seo_execution_candidate
      SET approval_status = 'rejected',
          execution_status = 'rejected',
-         reviewer_id = 'operator',
+         reviewer_id = $3,
+         reviewer_email = $4,
+         reviewer_name = $5,
          reviewed_at = NOW(),
          review_notes = $2
      WHERE candidate_id = ANY($1::uuid[])
        AND approval_status = 'pending'
        AND execution_status = 'proposed'`,
-    [ids, reviewNotes || 'rejected as page package'],
+    [ids, reviewNotes || 'rejected as page package', reviewer.id, reviewer.email, reviewer.name],
   );
   // is_active is managed by the dedupe function — direct writes are rejected by trigger
   try {
@@ -378,10 +412,8 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
   const filterById = req.nextUrl.searchParams.get('enhancement_id') ?? '';
-  const client = await pool.connect();
   try {
-    await client.query("SET statement_timeout = '10s'");
-    const data = await loadPayload(client);
+    const data = await loadPayload(readDb);
     if (filterById) {
       const pkg = data.packages.find((p: any) => p.enhancement_id === filterById);
       if (pkg) {
@@ -395,8 +427,6 @@ export async function GET(req: NextRequest) {
     const msg = err instanceof Error ? err.message : String(err);
     console.error('[seo/page-enhancements] GET error:', msg);
     return NextResponse.json({ error: 'Failed to load page enhancements', detail: msg }, { status: 500 });
-  } finally {
-    client.release();
   }
 }
 
@@ -404,6 +434,11 @@ export async function POST(req: NextRequest) {
   if (!isConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
+  const auth = await authorizeRequest(req, SEO_APPROVE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reviewer = reviewerFromUser(auth.identity.user);
   let body: any;
   try {
     body = await req.json();
@@ -412,7 +447,7 @@ export async function POST(req: NextRequest) {
   }
 
   const action = String(body?.action || '');
-  if (!['approve_package', 'reject_package', 'bulk_approve_packages', 'approve_candidate', 'skip_candidate'].includes(action)) {
+  if (!['approve_package', 'reject_package', 'bulk_approve_packages', 'approve_candidate', 'skip_candidate', 'revert_package'].includes(action)) {
     return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
   }
   const reviewNotes = typeof body?.review_notes === 'string' ? body.review_notes : undefined;
@@ -420,16 +455,19 @@ export async function POST(req: NextRequest) {
   const enhancementIds = Array.isArray(body?.enhancement_ids) ? body.enhancement_ids.map(String) : [];
   const force = body?.force === true;
 
-  const client = await pool.connect();
+  const client = await db.connect();
   try {
     await client.query('BEGIN');
     let result: any;
     if (action === 'approve_package') {
       if (!enhancementId) throw new Error('enhancement_id required');
-      result = await approvePackage(client, enhancementId, reviewNotes, force);
+      result = await approvePackage(client, enhancementId, reviewer, reviewNotes, force);
     } else if (action === 'reject_package') {
       if (!enhancementId) throw new Error('enhancement_id required');
-      result = await rejectPackage(client, enhancementId, reviewNotes);
+      result = await rejectPackage(client, enhancementId, reviewer, reviewNotes);
+    } else if (action === 'revert_package') {
+      if (!enhancementId) throw new Error('enhancement_id required');
+      result = await revertPackage(client, enhancementId, reviewer);
     } else if (action === 'bulk_approve_packages') {
       const safeOnly = body?.safe_only !== false;
       const payload = await loadPayload(client);
@@ -442,7 +480,7 @@ export async function POST(req: NextRequest) {
         if (!pkg) {
           results.push({ enhancement_id: id, status: 'skipped', reason: 'not_found_or_not_pending' });
         } else {
-          results.push(await approveLoadedPackage(client, pkg, reviewNotes || 'bulk approved as page package'));
+          results.push(await approveLoadedPackage(client, pkg, reviewer, reviewNotes || 'bulk approved as page package'));
         }
       }
       result = {
@@ -450,6 +488,7 @@ export async function POST(req: NextRequest) {
         summary: {
           requested: ids.length,
           approved: results.filter((r) => r.status === 'approved').length,
+          held: results.filter((r) => r.status === 'approved' && r.release_status === 'held').length,
           skipped: results.filter((r) => r.status !== 'approved').length,
           auto_publish_count: results.reduce((sum, r) => sum + Number(r.auto_publish_count ?? 0), 0),
           draft_count: results.reduce((sum, r) => sum + Number(r.draft_count ?? 0), 0),
@@ -462,11 +501,13 @@ export async function POST(req: NextRequest) {
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'approved',
              execution_status = 'approved',
-             reviewer_id = 'operator',
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
              reviewed_at = NOW(),
              review_notes = $2
          WHERE candidate_id = $1::uuid`,
-        [candidateId, reviewNotes || 'field approved individually'],
+        [candidateId, reviewNotes || 'field approved individually', reviewer.id, reviewer.email, reviewer.name],
       );
       result = { candidate_id: candidateId, status: 'approved', rowCount: update.rowCount };
     } else if (action === 'skip_candidate') {
@@ -476,11 +517,13 @@ export async function POST(req: NextRequest) {
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'rejected',
              execution_status = 'rejected',
-             reviewer_id = 'operator',
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
              reviewed_at = NOW(),
              review_notes = $2
          WHERE candidate_id = $1::uuid`,
-        [candidateId, reviewNotes || 'field skipped individually'],
+        [candidateId, reviewNotes || 'field skipped individually', reviewer.id, reviewer.email, reviewer.name],
       );
       // is_active is managed by the dedupe function — direct writes are rejected by trigger
       try {
@@ -491,7 +534,7 @@ export async function POST(req: NextRequest) {
       result = { candidate_id: candidateId, status: 'skipped', rowCount: update.rowCount };
     }
     await client.query('COMMIT');
-    return NextResponse.json({ data: result });
+    return NextResponse.json({ data: result, meta: { reviewer } });
   } catch (err: unknown) {
     await client.query('ROLLBACK').catch(() => undefined);
     const msg = err instanceof Error ? err.message : String(err);
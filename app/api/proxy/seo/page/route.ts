@@ -18,17 +18,13 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { parseSeoWindow } from '../_window';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/page');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 // Mirror of the SQL normalization, applied in JS where convenient.
@@ -59,7 +55,7 @@ export async function GET(req: NextRequest) {
   const window = parseSeoWindow(req);
 
   try {
-    const invQ = pool.query(
+    const invQ = db.query(
       `SELECT
               p.url, p.content_type, p.status_class, p.gsc_impressions, p.gsc_top_query,
               p.gsc_best_position::numeric AS gsc_best_position, p.has_rankmath_redirect,
@@ -76,29 +72,31 @@ export async function GET(req: NextRequest) {
       [norm, window.days, window.start, window.end],
     );
 
-    const demandQ = pool.query(
+    const demandQ = db.query(
       `SELECT *
        FROM analytics.seo_command_center_page_demand($1::text, $2::int, $3::date, $4::date)
        LIMIT 12`,
       [rawUrl, window.days, window.start, window.end],
     );
 
-    const candQ = pool.query(
-      `SELECT candidate_id, opportunity_id, mutation_type, mutation_label, primary_remedy,
-              proposed_value, current_value_snapshot, evidence_summary, why, gate_reasons,
-              opportunity_score::numeric AS opportunity_score, opportunity_urgency,
-              confidence_tier, source_confidence, gate_status, approval_status, execution_status,
-              target_page_url, page_url_canonical, page_is_live, page_status_class,
-              regate_review_flag, needs_evidence, qa_status, outcome_verdict
-       FROM analytics.v_seo_dashboard_queue
-       WHERE page_url_canonical = $1
-       ORDER BY opportunity_score DESC NULLS LAST`,
+    const candQ = db.query(
+      `SELECT q.candidate_id, q.opportunity_id, q.mutation_type, q.mutation_label, q.primary_remedy,
+              q.proposed_value, q.current_value_snapshot, q.evidence_summary, q.why, q.gate_reasons,
+              q.opportunity_score::numeric AS opportunity_score, q.opportunity_urgency,
+              q.confidence_tier, q.source_confidence, q.gate_status, q.approval_status, q.execution_status,
+              q.target_page_url, q.page_url_canonical, q.page_is_live, q.page_status_class,
+              q.regate_review_flag, q.needs_evidence, q.qa_status, q.outcome_verdict,
+              c.reviewer_id, c.reviewer_email, c.reviewer_name, c.reviewed_at
+       FROM analytics.v_seo_dashboard_queue q
+       LEFT JOIN analytics.seo_execution_candidate c ON c.candidate_id = q.candidate_id
+       WHERE q.page_url_canonical = $1
+       ORDER BY q.opportunity_score DESC NULLS LAST`,
       [norm],
     );
 
     // Engine per-page reasoning record. Matched on norm_url (the dossier stores
     // the already-normalized url) with a regexp fallback on page_url for safety.
-    const dossierQ = pool.query(
+    const dossierQ = db.query(
       `SELECT intent, priority, status_class, content_type, generated_at,
               state, demand, keyword_targets, routed_queries, ranked_actions
        FROM analytics.seo_page_dossier
@@ -111,7 +109,7 @@ export async function GET(req: NextRequest) {
 
     // Gate-decision trail for THIS page's candidates. seo_gate_transition has no
     // page column, so we join through seo_execution_candidate on candidate_id.
-    const transQ = pool.query(
+    const transQ = db.query(
       `SELECT t.candidate_id, t.from_status, t.to_status, t.reason, t.gated_at
        FROM analytics.seo_gate_transition t
        JOIN analytics.seo_execution_candidate c ON c.candidate_id = t.candidate_id
@@ -121,8 +119,23 @@ export async function GET(req: NextRequest) {
       [norm],
     );
 
-    const [invR, demandR, candR, dossierR, transR] = await Promise.all([
-      invQ, demandQ, candQ, dossierQ, transQ,
+    // Human review decisions on this page's candidates — who approved or
+    // rejected what, newest first. reviewer_id = 'operator' marks decisions
+    // made before reviewer identity was recorded.
+    const reviewsQ = db.query(
+      `SELECT c.candidate_id, analytics.seo_mutation_label(c.mutation_type) AS mutation_label,
+              c.approval_status, c.execution_status, c.reviewer_id, c.reviewer_email,
+              c.reviewer_name, c.reviewed_at, c.review_notes
+       FROM analytics.seo_execution_candidate c
+       WHERE rtrim(regexp_replace(lower(c.target_page_url), '^https?://(www\\.)?', ''), '/') = $1
+         AND c.reviewed_at IS NOT NULL
+       ORDER BY c.reviewed_at DESC
+       LIMIT 20`,
+      [norm],
+    );
+
+    const [invR, demandR, candR, dossierR, transR, reviewsR] = await Promise.all([
+      invQ, demandQ, candQ, dossierQ, transQ, reviewsQ,
     ]);
 
     if (invR.rows.length === 0) {
@@ -202,6 +215,10 @@ export async function GET(req: NextRequest) {
       needs_evidence: r.needs_evidence === true,
       qa_status: r.qa_status,
       outcome_verdict: r.outcome_verdict,
+      reviewer_id: r.reviewer_id ?? null,
+      reviewer_email: r.reviewer_email ?? null,
+      reviewer_name: r.reviewer_name ?? null,
+      reviewed_at: r.reviewed_at ?? null,
     }));
 
     const num = (v: unknown): number | null =>
@@ -280,7 +297,19 @@ export async function GET(req: NextRequest) {
       gated_at: t.gated_at ?? null,
     }));
 
-    return NextResponse.json({ data: { page, demand, candidates, dossier, transitions } });
+    const reviews = reviewsR.rows.map((r) => ({
+      candidate_id: r.candidate_id,
+      mutation_label: r.mutation_label ?? null,
+      approval_status: r.approval_status ?? null,
+      execution_status: r.execution_status ?? null,
+      reviewer_id: r.reviewer_id ?? null,
+      reviewer_email: r.reviewer_email ?? null,
+      reviewer_name: r.reviewer_name ?? null,
+      reviewed_at: r.reviewed_at ?? null,
+      review_notes: r.review_notes ?? null,
+    }));
+
+    return NextResponse.json({ data: { page, demand, candidates, dossier, transitions, reviews } });
   } catch (err: unknown) {
     const msg = err instanceof Error ? err.message : String(err);
     console.error('[seo/page] GET error:', msg);
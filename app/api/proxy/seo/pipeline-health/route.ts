@@ -2,25 +2,21 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/pipeline-health');
 
 export async function GET() {
   try {
     const [runsResult, rawResult] = await Promise.all([
-      pool.query(`
+      db.query(`
         SELECT id, status, started_at, records_processed, error_message, metadata
         FROM analytics.ingestion_runs
         WHERE source = 'search_console'
         ORDER BY started_at DESC
         LIMIT 10
       `),
-      pool.query(`
+      db.query(`
         SELECT MAX(occurred_at::date)::text AS last_date
         FROM analytics.raw_search_console
       `),
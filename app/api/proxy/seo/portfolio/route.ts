@@ -14,17 +14,13 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { parseSeoWindow } from '../_window';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/portfolio');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export interface PortfolioPageRow {
@@ -67,7 +63,7 @@ export async function GET(req: NextRequest) {
 
   try {
     const window = parseSeoWindow(req);
-    const { rows } = await pool.query(
+    const { rows } = await db.query(
       `SELECT * FROM analytics.seo_command_center_portfolio($1::int, $2::date, $3::date)`,
       [window.days, window.start, window.end],
     );
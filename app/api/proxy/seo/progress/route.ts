@@ -36,25 +36,10 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { organicWindow } from '../../../../../lib/seoMetrics';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/progress');
 
 // Organic traffic windows now come from the canonical lib/seoMetrics helper
 // (analytics.metrics_search_console_daily, anchored to the latest metric_date,
@@ -77,15 +62,13 @@ function deltaAbs(current: number | null, prior: number | null): number | null {
 }
 
 export async function GET() {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
   try {
-    const p = getPool();
-
     // ── TODAY: actions taken in last 24h ─────────────────────────────────────
-    const yesterdayApplied = await p.query<{ count: string; target_url: string | null }>(
+    const yesterdayApplied = await db.query<{ count: string; target_url: string | null }>(
       `SELECT COUNT(*) AS count, target_url FROM (
          SELECT target_url FROM analytics.seo_execution_log WHERE executed_at >= NOW() - INTERVAL '24 hours'
          UNION ALL
@@ -97,7 +80,7 @@ export async function GET() {
        GROUP BY target_url`,
     ).catch(() => ({ rows: [] as Array<{ count: string; target_url: string | null }> }));
 
-    const yesterdayApprovals = await p.query<{ approved: string; rejected: string }>(
+    const yesterdayApprovals = await db.query<{ approved: string; rejected: string }>(
       `SELECT
          COUNT(*) FILTER (WHERE approval_status = 'approved')::text AS approved,
          COUNT(*) FILTER (WHERE approval_status = 'rejected')::text AS rejected
@@ -106,19 +89,19 @@ export async function GET() {
     ).catch(() => ({ rows: [{ approved: '0', rejected: '0' }] }));
 
     // ── TODAY: needs attention ──────────────────────────────────────────────
-    const decayNew = await p.query<{ count: string; top_page: string | null }>(
+    const decayNew = await db.query<{ count: string; top_page: string | null }>(
       `SELECT COUNT(*)::text AS count, MAX(page_path) AS top_page
        FROM analytics.seo_decay_signal
        WHERE status = 'new' AND decay_score >= 0.50`,
     ).catch(() => ({ rows: [{ count: '0', top_page: null }] }));
 
-    const cannibalizationNew = await p.query<{ count: string }>(
+    const cannibalizationNew = await db.query<{ count: string }>(
       `SELECT COUNT(*)::text AS count
        FROM analytics.seo_cannibalization_signal
        WHERE status = 'new' AND canonical_confidence = 'high'`,
     ).catch(() => ({ rows: [{ count: '0' }] }));
 
-    const awaitingApproval = await p.query<{ count: string; urgent: string }>(
+    const awaitingApproval = await db.query<{ count: string; urgent: string }>(
       `SELECT
          decisions::text AS count,
          needs_review::text AS urgent
@@ -126,33 +109,33 @@ export async function GET() {
     ).catch(() => ({ rows: [{ count: '0', urgent: '0' }] }));
 
     // Pipeline health: when did each major job last run?
-    const lastClusterRun = await p.query<{ run_at: string | null }>(
+    const lastClusterRun = await db.query<{ run_at: string | null }>(
       `SELECT MAX(run_at) AS run_at FROM analytics.seo_cluster_generation_runs`,
     ).catch(() => ({ rows: [{ run_at: null }] }));
 
-    const lastDecayDetection = await p.query<{ detected_at: string | null }>(
+    const lastDecayDetection = await db.query<{ detected_at: string | null }>(
       `SELECT MAX(detected_at) AS detected_at FROM analytics.seo_decay_signal`,
     ).catch(() => ({ rows: [{ detected_at: null }] }));
 
-    const lastExecutionApplied = await p.query<{ executed_at: string | null }>(
+    const lastExecutionApplied = await db.query<{ executed_at: string | null }>(
       `SELECT MAX(executed_at) AS executed_at FROM analytics.seo_execution_log`,
     ).catch(() => ({ rows: [{ executed_at: null }] }));
 
-    const lastGscIngest = await p.query<{ max_date: string | null }>(
+    const lastGscIngest = await db.query<{ max_date: string | null }>(
       `SELECT MAX((payload->>'date')::date)::text AS max_date FROM analytics.raw_search_console`,
     ).catch(() => ({ rows: [{ max_date: null }] }));
 
     // ── WEEK & MONTH: organic traffic trends ─────────────────────────────────
     // Canonical windows anchored to the latest metric_date (see lib/seoMetrics).
     // Last 7 days vs prior 7 days; last 30 days vs prior 30 days.
-    const week = gscShape(await organicWindow(p, 7, 0));
-    const weekPrior = gscShape(await organicWindow(p, 7, 7));
+    const week = gscShape(await organicWindow(db, 7, 0));
+    const weekPrior = gscShape(await organicWindow(db, 7, 7));
 
-    const month = gscShape(await organicWindow(p, 30, 0));
-    const monthPrior = gscShape(await organicWindow(p, 30, 30));
+    const month = gscShape(await organicWindow(db, 30, 0));
+    const monthPrior = gscShape(await organicWindow(db, 30, 30));
 
     // Pages optimized: union old + new pipelines
-    const pagesOptimizedWeek = await p.query<{ count: string }>(
+    const pagesOptimizedWeek = await db.query<{ count: string }>(
       `SELECT COUNT(DISTINCT target_url)::text AS count FROM (
          SELECT target_url FROM analytics.seo_execution_log WHERE executed_at >= NOW() - INTERVAL '7 days'
          UNION ALL
@@ -163,7 +146,7 @@ export async function GET() {
        ) u`,
     ).catch(() => ({ rows: [{ count: '0' }] }));
 
-    const pagesOptimizedMonth = await p.query<{ count: string }>(
+    const pagesOptimizedMonth = await db.query<{ count: string }>(
       `SELECT COUNT(DISTINCT target_url)::text AS count FROM (
          SELECT target_url FROM analytics.seo_execution_log WHERE executed_at >= NOW() - INTERVAL '30 days'
          UNION ALL
@@ -178,7 +161,7 @@ export async function GET() {
     // succeeded/failed are executor terminal states. "Measuring" is only an
     // explicit published-outcome row still awaiting verdict, not every success
     // missing an outcome row.
-    const executionOutcomesWeek = await p.query<{
+    const executionOutcomesWeek = await db.query<{
       succeeded: string;
       failed: string;
       measuring: string;
@@ -207,7 +190,7 @@ export async function GET() {
     ).catch(() => ({ rows: [{ succeeded: '0', failed: '0', measuring: '0', total_attempts: '0' }] }));
 
     // Win rate: from legacy learning_outcomes plus current candidate outcomes.
-    const winRate = await p.query<{ positive: string; total: string }>(
+    const winRate = await db.query<{ positive: string; total: string }>(
       `SELECT
          COUNT(*) FILTER (WHERE label = 'positive')::text AS positive,
          COUNT(*)::text AS total
@@ -8,6 +8,8 @@ import {
   rejectByOpportunityId,
   isSeoDbConfigured,
 } from '../../../../../lib/seo-db';
+import { authorizeRequest } from '../../../../../lib/bootstrap-identity';
+import { SEO_APPROVE_PERMISSION, reviewerFromUser } from '../../../../../lib/seo-review';
 
 export async function GET(req: NextRequest) {
   if (!isSeoDbConfigured()) {
@@ -28,6 +30,12 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
+  const auth = await authorizeRequest(req, SEO_APPROVE_PERMISSION);
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const reviewer = reviewerFromUser(auth.identity.user);
+
   let body: any;
   try {
     body = await req.json();
@@ -53,7 +61,7 @@ export async function POST(req: NextRequest) {
     quality_floor,
   } = body || {};
 
-  console.log(`[seo/recommendations] POST received | action=${action} target=${target} candidate_id=${candidate_id || 'none'} opportunity_id=${opportunity_id || 'none'} id=${id || 'none'}`);
+  console.log(`[seo/recommendations] POST received | reviewer=${reviewer.id} action=${action} target=${target} candidate_id=${candidate_id || 'none'} opportunity_id=${opportunity_id || 'none'} id=${id || 'none'}`);
 
   if (!action) {
     return NextResponse.json({
@@ -77,7 +85,7 @@ export async function POST(req: NextRequest) {
             action, target, mode: 'engine',
           }, { status: 400 });
         }
-        const results = await bulkApproveExecutionCandidates(ids, {
+        const results = await bulkApproveExecutionCandidates(ids, reviewer, {
           reviewNotes: typeof review_notes === 'string' ? review_notes : undefined,
           qualityFloor: typeof quality_floor === 'number' ? quality_floor : undefined,
         });
@@ -96,10 +104,10 @@ export async function POST(req: NextRequest) {
 
       if (action === 'approve') {
         if (candidate_id) {
-          await approveExecutionCandidate(candidate_id, review_notes);
+          await approveExecutionCandidate(candidate_id, reviewer, review_notes);
           console.log(`[seo/recommendations] Approved candidate ${candidate_id}`);
         } else if (opportunity_id) {
-          const result = await approveByOpportunityId(opportunity_id, review_notes, {
+          const result = await approveByOpportunityId(opportunity_id, reviewer, review_notes, {
             proposed_value: typeof proposed_value === 'string' && proposed_value ? proposed_value : undefined,
             target_page_url: typeof target_page_url === 'string' && target_page_url ? target_page_url : undefined,
           });
@@ -113,10 +121,10 @@ export async function POST(req: NextRequest) {
         }
       } else if (action === 'reject') {
         if (candidate_id) {
-          await rejectExecutionCandidate(candidate_id, review_notes);
+          await rejectExecutionCandidate(candidate_id, reviewer, review_notes);
           console.log(`[seo/recommendations] Rejected candidate ${candidate_id}`);
         } else if (opportunity_id) {
-          const result = await rejectByOpportunityId(opportunity_id, review_notes);
+          const result = await rejectByOpportunityId(opportunity_id, reviewer, review_notes);
           console.log(`[seo/recommendations] Reject by opportunity: mode=${result.mode}, rows=${result.rowCount}`);
           if (result.mode === 'error') {
             return NextResponse.json({ success: false, action: 'reject', opportunity_id, reason: result.error || 'Unknown error' }, { status: 500 });
@@ -138,7 +146,7 @@ export async function POST(req: NextRequest) {
           has_candidate_id: !!candidate_id, has_opportunity_id: !!opportunity_id,
         }, { status: 400 });
       }
-      return NextResponse.json({ success: true, action, candidate_id, opportunity_id, target: 'engine' });
+      return NextResponse.json({ success: true, action, candidate_id, opportunity_id, target: 'engine', reviewer });
     }
 
     return NextResponse.json({
@@ -2,16 +2,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/results-v2');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function GET(_req: NextRequest) {
@@ -21,7 +17,7 @@ export async function GET(_req: NextRequest) {
 
   try {
     // seo_page_enhancement uses `status` (not lifecycle_state), `updated_at` for verdict timestamp
-    const { rows } = await pool.query(`
+    const { rows } = await db.query(`
       SELECT
         e.enhancement_id,
         e.canonical_url,
@@ -1,16 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 export const dynamic = 'force-dynamic';
-import { Pool } from 'pg';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-let pool: Pool | null = null;
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({ connectionString: databaseUrl, ssl: { rejectUnauthorized: false }, max: 3, idleTimeoutMillis: 30000, connectionTimeoutMillis: 10000 });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const readDb = getDb('proxy/seo/signals');
+const db = getDb('proxy/seo/signals', { role: 'write' });
 
 const TABLE_MAP: Record<string, string> = {
   decay: 'analytics.seo_decay_signal',
@@ -25,9 +18,8 @@ const ORDER_MAP: Record<string, string> = {
 };
 
 export async function GET(req: NextRequest) {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   try {
-    const p = getPool();
     const type = req.nextUrl.searchParams.get('type') || 'decay';
     const status = req.nextUrl.searchParams.get('status');
     const confidence = req.nextUrl.searchParams.get('confidence');
@@ -41,7 +33,7 @@ export async function GET(req: NextRequest) {
     if (confidence && type === 'cannibalization') { params.push(confidence); where += ` AND canonical_confidence = $${params.length}`; }
 
     const order = ORDER_MAP[type] || 'detected_at DESC';
-    const { rows } = await p.query(`SELECT * FROM ${table} ${where} ORDER BY ${order} LIMIT 100`, params);
+    const { rows } = await readDb.query(`SELECT * FROM ${table} ${where} ORDER BY ${order} LIMIT 100`, params);
     return NextResponse.json({ data: rows });
   } catch (err: any) {
     console.error('[seo/signals] Error:', err.message);
@@ -50,14 +42,13 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
-  if (!databaseUrl) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
+  if (!isDbConfigured()) return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   try {
     const body = await req.json();
-    const p = getPool();
     if (body.action === 'update-status' && body.signalType && body.id && body.status) {
       const table = TABLE_MAP[body.signalType];
       if (!table) return NextResponse.json({ error: `Unknown signal type: ${body.signalType}` }, { status: 400 });
-      await p.query(`UPDATE ${table} SET status = $2 WHERE id = $1`, [body.id, body.status]);
+      await db.query(`UPDATE ${table} SET status = $2 WHERE id = $1`, [body.id, body.status]);
       return NextResponse.json({ data: { id: body.id, status: body.status } });
     }
     return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
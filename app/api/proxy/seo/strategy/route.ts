@@ -10,16 +10,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/strategy');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 function asRecord(value: unknown): Record<string, unknown> {
@@ -50,7 +46,7 @@ export async function GET() {
   }
 
   try {
-    const { rows } = await pool.query(
+    const { rows } = await db.query(
       `SELECT *
        FROM analytics.v_seo_portfolio_recommendation_ranked
        ORDER BY portfolio_rank ASC`,
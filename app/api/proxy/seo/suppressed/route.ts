@@ -10,16 +10,12 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const pool = new Pool({
-  connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-  ssl: { rejectUnauthorized: false },
-  max: 3,
-});
+const db = getDb('proxy/seo/suppressed');
 
 function isConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function GET(req: NextRequest) {
@@ -31,9 +27,9 @@ export async function GET(req: NextRequest) {
   const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(limitParam, 500) : 200;
 
   try {
-    const totalQ = pool.query(`SELECT COUNT(*)::bigint AS n FROM analytics.seo_gate_suppressed`);
+    const totalQ = db.query(`SELECT COUNT(*)::bigint AS n FROM analytics.seo_gate_suppressed`);
 
-    const reasonsQ = pool.query(
+    const reasonsQ = db.query(
       `SELECT reason, COUNT(*)::bigint AS n
        FROM analytics.seo_gate_suppressed,
             LATERAL unnest(
@@ -44,7 +40,7 @@ export async function GET(req: NextRequest) {
        ORDER BY n DESC`,
     );
 
-    const rowsQ = pool.query(
+    const rowsQ = db.query(
       `SELECT id, generator, mutation_type, target_url, gate_reasons,
               relevance_score::numeric AS relevance_score, created_at
        FROM analytics.seo_gate_suppressed
@@ -24,36 +24,20 @@ export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import { parseSeoWindow } from '../_window';
+import { getDb, isDbConfigured } from '../../../../../lib/db';
 
-const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-
-let pool: Pool | null = null;
-function getPool(): Pool {
-  if (!pool && databaseUrl) {
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 3,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  if (!pool) throw new Error('No database URL configured');
-  return pool;
-}
+const db = getDb('proxy/seo/timeseries');
 
 export async function GET(req: NextRequest) {
-  if (!databaseUrl) {
+  if (!isDbConfigured()) {
     return NextResponse.json({ error: 'Database not configured' }, { status: 503 });
   }
 
   const window = parseSeoWindow(req);
 
   try {
-    const p = getPool();
-    const { rows } = await p.query(
+    const { rows } = await db.query(
       `
       WITH w AS (
         SELECT * FROM analytics.seo_command_center_gsc_window($1::int, $2::date, $3::date)
@@ -0,0 +1,75 @@
+/**
+ * Variant Results Proxy Route
+ * 
+ * GET /api/proxy/variant-results?campaignId=xxx
+ * 
+ * Proxies to Sales Engine: GET /api/campaigns/:id/variant-results
+ * 
+ * Per-variant send outcomes (sent, opened, replied, positive replies,
+ * bounced) as observed by the Sales Engine. Significance is computed in the
+ * UI from these counts; nothing here is inferred.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeVariantResults } from '../../../sales-engine/lib/campaign-variants';
+
+const SALES_ENGINE_URL = process.env.SALES_ENGINE_API_BASE_URL || process.env.NEXT_PUBLIC_SALES_ENGINE_API_BASE_URL;
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const campaignId = searchParams.get('campaignId');
+
+  if (!campaignId) {
+    return NextResponse.json(
+      { error: 'Missing campaignId parameter' },
+      { status: 400 }
+    );
+  }
+
+  // When Sales Engine is not configured, return no results
+  if (!SALES_ENGINE_URL) {
+    console.log('[variant-results] Sales Engine not configured, returning default');
+    return NextResponse.json({
+      campaignId,
+      variants: [],
+      observedAt: new Date().toISOString(),
+      _source: 'default',
+      _note: 'Sales Engine not configured - no send results available',
+    });
+  }
+
+  try {
+    const response = await fetch(`${SALES_ENGINE_URL}/api/campaigns/${campaignId}/variant-results`, {
+      headers: {
+        'Content-Type': 'application/json',
+        // Forward auth headers if present
+        ...(request.headers.get('authorization') && {
+          'Authorization': request.headers.get('authorization')!,
+        }),
+      },
+    });
+
+    if (!response.ok) {
+      // Pass through error from Sales Engine
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      return NextResponse.json(errorData, { status: response.status });
+    }
+
+    const data = await response.json();
+    return NextResponse.json({
+      campaignId,
+      variants: normalizeVariantResults(data),
+      observedAt: typeof data?.observedAt === 'string' ? data.observedAt : new Date().toISOString(),
+      _source: 'sales-engine',
+    });
+  } catch (error) {
+    console.error('[variant-results] Proxy error:', error);
+    return NextResponse.json(
+      { 
+        error: 'Failed to fetch variant results',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Sync Backfill API Route — Historical Re-pull
+ *
+ * POST /api/sync/backfill
+ *
+ * Re-pulls a historical date range for the GA4 and/or Google Ads syncs in
+ * chunks (services/syncBackfill.ts). Every chunk is recorded in
+ * analytics.ingestion_runs with its date range and a backfill_id; calling
+ * again with the same body resumes after the last completed chunk.
+ *
+ * A single request stops starting new chunks after TIME_BUDGET_MS so it
+ * fits the function timeout; when `done` is false the caller should repeat
+ * the request (scripts/backfill-sync.mjs does this in a loop).
+ *
+ * GOVERNANCE: This is a WRITE endpoint. It modifies the GA4 and Google Ads
+ * analytics tables and analytics.ingestion_runs.
+ * Protected by SYNC_SECRET bearer token.
+ *
+ * Request body:
+ *   {
+ *     source: 'ga4' | 'google-ads' | 'all',
+ *     startDate: 'YYYY-MM-DD',
+ *     endDate: 'YYYY-MM-DD',
+ *     chunkDays?: number,   // default 7, max 31
+ *     resume?: boolean      // default true; false re-pulls completed chunks
+ *   }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BACKFILL_SOURCES,
+  DEFAULT_CHUNK_DAYS,
+  runBackfill,
+  validateBackfillRange,
+  type BackfillSource,
+} from '../../../../services/syncBackfill';
+import { getDb } from '../../../../lib/db';
+
+export const maxDuration = 300;
+
+const TIME_BUDGET_MS = 240_000;
+
+const db = getDb('sync/backfill', { role: 'write' });
+
+export async function POST(req: NextRequest) {
+  const authHeader = req.headers.get('authorization');
+  const expectedToken = process.env.SYNC_SECRET;
+
+  if (!expectedToken) {
+    return NextResponse.json(
+      { error: 'SYNC_SECRET not configured on server' },
+      { status: 500 },
+    );
+  }
+
+  if (authHeader !== `Bearer ${expectedToken}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { source, startDate, endDate } = body as Record<string, unknown>;
+  const chunkDays = (body as { chunkDays?: unknown }).chunkDays ?? DEFAULT_CHUNK_DAYS;
+  const resume = (body as { resume?: unknown }).resume !== false;
+
+  let sources: BackfillSource[];
+  if (source === 'all') {
+    sources = [...BACKFILL_SOURCES];
+  } else if (typeof source === 'string' && (BACKFILL_SOURCES as readonly string[]).includes(source)) {
+    sources = [source as BackfillSource];
+  } else {
+    return NextResponse.json(
+      { error: `source must be one of: ${[...BACKFILL_SOURCES, 'all'].join(', ')}` },
+      { status: 400 },
+    );
+  }
+
+  if (typeof startDate !== 'string' || typeof endDate !== 'string') {
+    return NextResponse.json({ error: 'startDate and endDate are required' }, { status: 400 });
+  }
+
+  const rangeError = validateBackfillRange(startDate, endDate, Number(chunkDays));
+  if (rangeError) {
+    return NextResponse.json({ error: rangeError }, { status: 400 });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const result = await runBackfill(db, {
+      sources,
+      startDate,
+      endDate,
+      chunkDays: Number(chunkDays),
+      resume,
+      timeBudgetMs: TIME_BUDGET_MS,
+    });
+
+    return NextResponse.json({
+      status: result.failed > 0 ? 'failed' : result.done ? 'ok' : 'partial',
+      date_range: { startDate, endDate },
+      chunk_days: Number(chunkDays),
+      ...result,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (err) {
+    console.error('[sync/backfill] Error:', (err as Error).message);
+    return NextResponse.json(
+      {
+        error: 'Backfill failed',
+        message: (err as Error).message,
+        duration_ms: Date.now() - startTime,
+      },
+      { status: 500 },
+    );
+  }
+}
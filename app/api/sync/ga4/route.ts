@@ -16,7 +16,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import {
   syncPageEngagement,
   syncGA4Events,
@@ -25,15 +24,9 @@ import {
   createIngestionRun,
   completeIngestionRun,
 } from '../../../../services/ga4Sync';
+import { getDb } from '../../../../lib/db';
 
-function getPool(): Pool {
-  return new Pool({
-    connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-    ssl: { rejectUnauthorized: false },
-    max: 3,
-    connectionTimeoutMillis: 10000,
-  });
-}
+const db = getDb('sync/ga4', { role: 'write' });
 
 function formatDate(d: Date): string {
   return d.toISOString().split('T')[0];
@@ -72,19 +65,18 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const pool = getPool();
   const startTime = Date.now();
 
   try {
-    const runId = await createIngestionRun(pool, 'ga4-api', 'ga4-sync');
+    const runId = await createIngestionRun(db, 'ga4-api', 'ga4-sync', { startDate, endDate });
 
     const [engagementResult, eventsResult, deviceResult] = await Promise.all([
-      syncPageEngagement(pool, startDate, endDate),
-      syncGA4Events(pool, startDate, endDate, runId),
-      syncDeviceCountry(pool, startDate, endDate, runId),
+      syncPageEngagement(db, startDate, endDate),
+      syncGA4Events(db, startDate, endDate, runId),
+      syncDeviceCountry(db, startDate, endDate, runId),
     ]);
 
-    const channelResult = await syncChannelSessions(pool, startDate, endDate, runId);
+    const channelResult = await syncChannelSessions(db, startDate, endDate, runId);
 
     const totalRows =
       engagementResult.rows + eventsResult.rows + deviceResult.rows + channelResult.rows;
@@ -98,7 +90,7 @@ export async function POST(req: NextRequest) {
     const durationMs = Date.now() - startTime;
 
     await completeIngestionRun(
-      pool,
+      db,
       runId,
       allErrors.length > 0 ? 'failed' : 'completed',
       totalRows,
@@ -121,8 +113,8 @@ export async function POST(req: NextRequest) {
     });
   } catch (err) {
     try {
-      const failRunId = await createIngestionRun(pool, 'ga4-api', 'ga4-sync-error');
-      await completeIngestionRun(pool, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
+      const failRunId = await createIngestionRun(db, 'ga4-api', 'ga4-sync-error');
+      await completeIngestionRun(db, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
     } catch { /* best-effort */ }
 
     return NextResponse.json(
@@ -133,7 +125,5 @@ export async function POST(req: NextRequest) {
       },
       { status: 500 },
     );
-  } finally {
-    await pool.end();
   }
 }
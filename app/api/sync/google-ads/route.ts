@@ -16,7 +16,6 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
 import {
   syncCampaignPerformance,
   syncSearchTerms,
@@ -25,15 +24,9 @@ import {
   createIngestionRun,
   completeIngestionRun,
 } from '../../../../services/ga4Sync';
+import { getDb } from '../../../../lib/db';
 
-function getPool(): Pool {
-  return new Pool({
-    connectionString: process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL,
-    ssl: { rejectUnauthorized: false },
-    max: 3,
-    connectionTimeoutMillis: 10000,
-  });
-}
+const db = getDb('sync/google-ads', { role: 'write' });
 
 function formatDate(d: Date): string {
   return d.toISOString().split('T')[0];
@@ -94,14 +87,13 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  const pool = getPool();
   const startTime = Date.now();
 
   try {
-    const runId = await createIngestionRun(pool, 'google-ads-bq', 'google-ads-sync');
+    const runId = await createIngestionRun(db, 'google-ads-bq', 'google-ads-sync', { startDate, endDate });
 
-    const campaignResult = await syncCampaignPerformance(pool, startDate, endDate, runId);
-    const searchTermResult = await syncSearchTerms(pool, startDate, endDate, runId);
+    const campaignResult = await syncCampaignPerformance(db, startDate, endDate, runId);
+    const searchTermResult = await syncSearchTerms(db, startDate, endDate, runId);
 
     const totalRows = campaignResult.rows + searchTermResult.rows;
     const allErrors = [...campaignResult.errors, ...searchTermResult.errors];
@@ -109,7 +101,7 @@ export async function POST(req: NextRequest) {
     const durationMs = Date.now() - startTime;
 
     await completeIngestionRun(
-      pool,
+      db,
       runId,
       allErrors.length > 0 ? 'failed' : 'completed',
       totalRows,
@@ -130,8 +122,8 @@ export async function POST(req: NextRequest) {
     });
   } catch (err) {
     try {
-      const failRunId = await createIngestionRun(pool, 'google-ads-bq', 'google-ads-sync-error');
-      await completeIngestionRun(pool, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
+      const failRunId = await createIngestionRun(db, 'google-ads-bq', 'google-ads-sync-error');
+      await completeIngestionRun(db, failRunId, 'failed', 0, 1, Date.now() - startTime, (err as Error).message);
     } catch { /* best-effort */ }
 
     const errMsg = (err as Error).message ?? 'Unknown error';
@@ -145,7 +137,5 @@ export async function POST(req: NextRequest) {
       },
       { status: 500 },
     );
-  } finally {
-    await pool.end();
   }
 }
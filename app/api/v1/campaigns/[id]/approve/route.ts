@@ -5,9 +5,18 @@
  * 
  * Approves a campaign by updating status from 'pending_review' to 'active'.
  * 
+ * The caller must be signed in, and the approval is recorded for the
+ * campaign's current review round (app/api/campaign-reviews/_store.ts); the
+ * route returns 503 when the core database holding the rounds is not
+ * configured. The submitter of the round may not approve it, and if the
+ * campaign has assigned reviewers only they may. The status only changes
+ * once the round has the required number of approvals; until then the
+ * campaign stays PENDING_REVIEW and the response message reports the
+ * progress.
+ * 
  * GOVERNANCE:
  * - Only PENDING_REVIEW campaigns can be approved
- * - Status changes to 'active' (ready for execution)
+ * - Status changes to 'active' (ready for execution) on the final approval
  * - No execution occurs from this endpoint
  * - No sourcing occurs from this endpoint
  */
@@ -17,6 +26,20 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, isSupabaseConfigured } from '../../../../../../lib/supabase-server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import { recordApproval, reviewActorFromIdentity } from '../../../../campaign-reviews/_store';
+
+const reviewDb = getDb('v1/campaigns/[id]/approve', { database: 'core', role: 'write' });
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  status: string;
+  icp: unknown;
+  created_at: string;
+  updated_at: string;
+}
 
 /**
  * Map database status to UI status values.
@@ -60,13 +83,24 @@ export async function POST(
     });
   }
 
+  // Approvals are counted in the core database; without it there is no
+  // review round to check, so refuse rather than activate unchecked
+  if (!isDbConfigured('core')) {
+    return NextResponse.json({ error: 'Review database not configured' }, { status: 503 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
   try {
     const supabase = createServerClient();
 
     // First, verify the campaign exists and is in PENDING_REVIEW status
     const { data: existingCampaign, error: fetchError } = await supabase
       .from('campaigns')
-      .select('id, name, status, icp')
+      .select('id, name, status, icp, created_at, updated_at')
       .eq('id', campaignId)
       .single();
 
@@ -90,22 +124,69 @@ export async function POST(
       );
     }
 
-    // Update campaign status to active
-    const { data: updatedCampaign, error: updateError } = await supabase
-      .from('campaigns')
-      .update({ 
-        status: 'active',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', campaignId)
-      .select('id, name, status, icp, created_at, updated_at')
-      .single();
+    const actor = reviewActorFromIdentity(identity);
+
+    // Record the approval for the current review round. The final approval
+    // activates the campaign, guarded on PENDING_REVIEW so concurrent final
+    // approvals cannot both activate; the approval only commits once the
+    // status update succeeded.
+    const activated: { campaign: CampaignRow | null } = { campaign: null };
+    const review = await recordApproval(reviewDb, campaignId, actor, async () => {
+      const { data, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ 
+          status: 'active',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', campaignId)
+        .eq('status', 'pending_review')
+        .select('id, name, status, icp, created_at, updated_at');
+
+      if (updateError) {
+        console.error('[campaign-approve] Update error:', updateError);
+        throw new Error(updateError.message);
+      }
+      activated.campaign = (data?.[0] as CampaignRow | undefined) ?? null;
+      return activated.campaign !== null;
+    });
+
+    if (!review.ok) {
+      if (review.reason === 'status_changed') {
+        return NextResponse.json(
+          { error: 'Campaign status changed while it was being approved. Reload and try again.' },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        {
+          error: review.reason === 'submitter'
+            ? 'The submitter of a campaign cannot approve it'
+            : 'Only assigned reviewers can approve this campaign',
+        },
+        { status: 403 }
+      );
+    }
 
-    if (updateError) {
-      console.error('[campaign-approve] Update error:', updateError);
-      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    if (!review.progress.complete || !activated.campaign) {
+      const { approvals, required, remaining } = review.progress;
+      console.log('[campaign-approve] Approval recorded:', campaignId, `${approvals}/${required}`);
+      const pendingIcp = existingCampaign.icp as { metadata?: { description?: string } } | null;
+      return NextResponse.json({
+        id: existingCampaign.id,
+        name: existingCampaign.name,
+        description: pendingIcp?.metadata?.description || null,
+        status: mapStatusToGovernanceState(existingCampaign.status),
+        created_at: existingCampaign.created_at,
+        updated_at: existingCampaign.updated_at,
+        message: `Approval recorded (${approvals} of ${required}). ${remaining} more approval${remaining === 1 ? '' : 's'} needed.`,
+        canEdit: false,
+        canSubmit: false,
+        canApprove: true,
+        isRunnable: false,
+      });
     }
 
+    const updatedCampaign = activated.campaign;
     console.log('[campaign-approve] Campaign approved successfully:', updatedCampaign.id);
 
     // Extract description from icp.metadata
@@ -119,6 +200,7 @@ export async function POST(
       status: mapStatusToGovernanceState(updatedCampaign.status),
       created_at: updatedCampaign.created_at,
       updated_at: updatedCampaign.updated_at,
+      message: 'Campaign approved and ready to run',
       canEdit: false,
       canSubmit: false,
       canApprove: false,
@@ -35,30 +35,13 @@
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured, type Db } from '../../../../../../lib/db';
 
-// Connection pool for direct Postgres access
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const databaseUrl = process.env.DATABASE_URL;
-    if (!databaseUrl) {
-      throw new Error('DATABASE_URL not configured');
-    }
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 5,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  return pool;
-}
+// Direct Postgres access (shared pools, lib/db.ts)
+const db = getDb('v1/campaigns/[id]/execution-status', { database: 'core' });
 
 function isDatabaseConfigured(): boolean {
-  return Boolean(process.env.DATABASE_URL);
+  return isDbConfigured('core');
 }
 
 interface OrganizationCounts {
@@ -106,7 +89,7 @@ interface Alert {
   message: string;
 }
 
-async function getOrganizationCounts(db: Pool, campaignId: string): Promise<OrganizationCounts> {
+async function getOrganizationCounts(db: Db, campaignId: string): Promise<OrganizationCounts> {
   try {
     const result = await db.query(`
       SELECT 
@@ -131,7 +114,7 @@ async function getOrganizationCounts(db: Pool, campaignId: string): Promise<Orga
   }
 }
 
-async function getContactCounts(db: Pool, campaignId: string): Promise<ContactCounts> {
+async function getContactCounts(db: Db, campaignId: string): Promise<ContactCounts> {
   try {
     // NOTE: Cast status to text to avoid enum type mismatch errors
     const result = await db.query(`
@@ -157,7 +140,7 @@ async function getContactCounts(db: Pool, campaignId: string): Promise<ContactCo
   }
 }
 
-async function getLeadCounts(db: Pool, campaignId: string): Promise<LeadCounts> {
+async function getLeadCounts(db: Db, campaignId: string): Promise<LeadCounts> {
   try {
     const result = await db.query(`
       SELECT 
@@ -180,7 +163,7 @@ async function getLeadCounts(db: Pool, campaignId: string): Promise<LeadCounts>
   }
 }
 
-async function getExecutionStages(db: Pool, campaignId: string): Promise<ExecutionStage[]> {
+async function getExecutionStages(db: Db, campaignId: string): Promise<ExecutionStage[]> {
   try {
     const result = await db.query(`
       SELECT stage, action, status, message, details, created_at
@@ -223,7 +206,7 @@ function mapLogStatus(status: string | null): 'pending' | 'running' | 'success'
   return 'pending';
 }
 
-async function getLatestRun(db: Pool, campaignId: string): Promise<LatestRun | null> {
+async function getLatestRun(db: Db, campaignId: string): Promise<LatestRun | null> {
   try {
     const result = await db.query(`
       SELECT id, status, phase, stage, error_message, termination_reason,
@@ -328,8 +311,6 @@ export async function GET(
   }
 
   try {
-    const db = getPool();
-
     // Fetch all data in parallel for performance
     const [organizations, contacts, leads, stages, latestRun] = await Promise.all([
       getOrganizationCounts(db, campaignId),
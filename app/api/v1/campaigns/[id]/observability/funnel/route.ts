@@ -33,7 +33,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from '../../../../../../../lib/db';
 
 interface PipelineStage {
   stage: string;
@@ -59,26 +59,10 @@ function createCoreClient() {
 }
 
 // Direct Postgres pool for querying public schema tables
-let pgPool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pgPool) {
-    const connectionString = process.env.DATABASE_URL || process.env.POSTGRES_URL;
-    if (!connectionString) {
-      throw new Error('DATABASE_URL or POSTGRES_URL not configured');
-    }
-    pgPool = new Pool({
-      connectionString,
-      max: 5,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-  }
-  return pgPool;
-}
+const db = getDb('v1/campaigns/[id]/observability/funnel', { database: 'core' });
 
 function isDatabaseConfigured(): boolean {
-  return Boolean(process.env.DATABASE_URL || process.env.POSTGRES_URL);
+  return isDbConfigured('core');
 }
 
 export async function GET(
@@ -116,8 +100,6 @@ export async function GET(
 
     if (isDatabaseConfigured()) {
       try {
-        const db = getPool();
-
         // Get organization count from public.organizations
         const orgResult = await db.query(`
           SELECT COUNT(*) as count
@@ -5,6 +5,10 @@
  * 
  * Reverts a campaign to DRAFT status to enable editing.
  * 
+ * The caller must be signed in and the revert is recorded in the governance
+ * audit log. Returns 503 when the core database holding the log is not
+ * configured.
+ * 
  * GOVERNANCE:
  * - Non-draft, non-archived campaigns can be reverted
  * - Status changes to 'draft' (editable)
@@ -17,6 +21,20 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, isSupabaseConfigured } from '../../../../../../lib/supabase-server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import { recordRevert, reviewActorFromIdentity } from '../../../../campaign-reviews/_store';
+
+const reviewDb = getDb('v1/campaigns/[id]/revert-to-draft', { database: 'core', role: 'write' });
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  status: string;
+  icp: unknown;
+  created_at: string;
+  updated_at: string;
+}
 
 /**
  * Map database status to UI status values.
@@ -61,6 +79,17 @@ export async function POST(
     });
   }
 
+  // The revert is recorded in the core database's audit log; without it
+  // refuse rather than change the status unrecorded
+  if (!isDbConfigured('core')) {
+    return NextResponse.json({ error: 'Review database not configured' }, { status: 503 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
   try {
     const supabase = createServerClient();
 
@@ -114,22 +143,36 @@ export async function POST(
       });
     }
 
-    // Update campaign status to draft
-    const { data: updatedCampaign, error: updateError } = await supabase
-      .from('campaigns')
-      .update({ 
-        status: 'draft',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', campaignId)
-      .select('id, name, status, icp, created_at, updated_at')
-      .single();
+    // Record who reverted the campaign; it only commits once the status
+    // update, guarded on the status read above, succeeded
+    const reverted: { campaign: CampaignRow | null } = { campaign: null };
+    const result = await recordRevert(reviewDb, campaignId, reviewActorFromIdentity(identity), previousGovernanceState, async () => {
+      const { data, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ 
+          status: 'draft',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', campaignId)
+        .eq('status', previousStatus)
+        .select('id, name, status, icp, created_at, updated_at');
+
+      if (updateError) {
+        console.error('[campaign-revert-to-draft] Update error:', updateError);
+        throw new Error(updateError.message);
+      }
+      reverted.campaign = (data?.[0] as CampaignRow | undefined) ?? null;
+      return reverted.campaign !== null;
+    });
 
-    if (updateError) {
-      console.error('[campaign-revert-to-draft] Update error:', updateError);
-      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    if (!result.ok || !reverted.campaign) {
+      return NextResponse.json(
+        { error: 'Campaign status changed while it was being reverted. Reload and try again.' },
+        { status: 409 }
+      );
     }
 
+    const updatedCampaign = reverted.campaign;
     console.log('[campaign-revert-to-draft] Campaign reverted successfully:', updatedCampaign.id);
 
     // Extract description from icp.metadata
@@ -5,6 +5,11 @@
  * 
  * Submits a campaign for approval by updating status from 'draft' to 'pending_review'.
  * 
+ * The caller must be signed in, and each submission starts a new review
+ * round in the governance audit log, so approvals from before a change
+ * request do not carry over. Returns 503 when the core database holding the
+ * rounds is not configured.
+ * 
  * GOVERNANCE:
  * - Only DRAFT campaigns can be submitted
  * - Status changes to 'pending_review' (or equivalent approval state)
@@ -17,6 +22,20 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient, isSupabaseConfigured } from '../../../../../../lib/supabase-server';
+import { getDb, isDbConfigured } from '../../../../../../lib/db';
+import { resolveRequestIdentity } from '../../../../../../lib/bootstrap-identity';
+import { recordSubmission, reviewActorFromIdentity } from '../../../../campaign-reviews/_store';
+
+const reviewDb = getDb('v1/campaigns/[id]/submit', { database: 'core', role: 'write' });
+
+interface CampaignRow {
+  id: string;
+  name: string;
+  status: string;
+  icp: unknown;
+  created_at: string;
+  updated_at: string;
+}
 
 /**
  * Map database status to UI status values.
@@ -60,6 +79,17 @@ export async function POST(
     });
   }
 
+  // Review rounds live in the core database; without it the submission
+  // could not be reviewed, so refuse it
+  if (!isDbConfigured('core')) {
+    return NextResponse.json({ error: 'Review database not configured' }, { status: 503 });
+  }
+
+  const identity = await resolveRequestIdentity(request);
+  if (!identity) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+
   try {
     const supabase = createServerClient();
 
@@ -90,22 +120,36 @@ export async function POST(
       );
     }
 
-    // Update campaign status to pending_review
-    const { data: updatedCampaign, error: updateError } = await supabase
-      .from('campaigns')
-      .update({ 
-        status: 'pending_review',
-        updated_at: new Date().toISOString(),
-      })
-      .eq('id', campaignId)
-      .select('id, name, status, icp, created_at, updated_at')
-      .single();
+    // Start a new review round; it only commits once the status update,
+    // guarded on DRAFT, succeeded
+    const submitted: { campaign: CampaignRow | null } = { campaign: null };
+    const result = await recordSubmission(reviewDb, campaignId, reviewActorFromIdentity(identity), async () => {
+      const { data, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ 
+          status: 'pending_review',
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', campaignId)
+        .eq('status', 'draft')
+        .select('id, name, status, icp, created_at, updated_at');
+
+      if (updateError) {
+        console.error('[campaign-submit] Update error:', updateError);
+        throw new Error(updateError.message);
+      }
+      submitted.campaign = (data?.[0] as CampaignRow | undefined) ?? null;
+      return submitted.campaign !== null;
+    });
 
-    if (updateError) {
-      console.error('[campaign-submit] Update error:', updateError);
-      return NextResponse.json({ error: updateError.message }, { status: 500 });
+    if (!result.ok || !submitted.campaign) {
+      return NextResponse.json(
+        { error: 'Campaign status changed while it was being submitted. Reload and try again.' },
+        { status: 409 }
+      );
     }
 
+    const updatedCampaign = submitted.campaign;
     console.log('[campaign-submit] Campaign submitted successfully:', updatedCampaign.id);
 
     // Extract description from icp.metadata
@@ -0,0 +1,205 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DashboardGuard } from '../../../../hooks/useRBAC';
+import { AccessDenied, DashboardCard, DashboardSection, EmptyStateCard, SkeletonCard } from '../../../../components/dashboard';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design/tokens/typography';
+import { space, radius } from '../../../../design/tokens/spacing';
+import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
+import type { MarketingAlertRuleSummary, MarketingAlertsResponse } from '../../../../types/activity-spine';
+
+const CONDITION_LABELS: Record<MarketingAlertRuleSummary['condition'], string> = {
+  threshold: 'Window total',
+  pct_change: '% change vs previous window',
+  zscore: 'z-score of last day',
+};
+
+function ruleCondition(r: MarketingAlertRuleSummary): string {
+  const op = r.operator === 'above' ? '>' : '<';
+  const value = r.condition === 'pct_change' ? `${Math.round(r.threshold * 100)}%` : String(r.threshold);
+  return `${CONDITION_LABELS[r.condition]} ${op} ${value} (${r.window_days}d)`;
+}
+
+function formatDateTime(iso: string): string {
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? '—' : d.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+export default function MarketingAlertsPage() {
+  const tc = useThemeColors();
+  const [data, setData] = useState<MarketingAlertsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetch('/api/activity-spine/marketing/alerts?limit=200')
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Alerts fetch failed: ${res.status}`);
+        const json = await res.json();
+        if (alive) setData(json.data ?? null);
+      })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, []);
+
+  const severityColor = (severity: string) =>
+    severity === 'critical' ? tc.semantic.danger : severity === 'warning' ? tc.semantic.warning : tc.semantic.info;
+
+  const deliveryColor = (status: string) =>
+    status === 'delivered' ? tc.semantic.success
+      : status === 'failed' ? tc.semantic.danger
+        : status === 'partial' ? tc.semantic.warning
+          : tc.semantic.info;
+
+  const pill = (label: string, sem: { light: string; dark: string }) => (
+    <span style={{
+      fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium,
+      color: sem.dark, backgroundColor: sem.light,
+      padding: `${space['0.5']} ${space['2.5']}`, borderRadius: radius.full, whiteSpace: 'nowrap',
+    }}>
+      {label}
+    </span>
+  );
+
+  const thStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.muted,
+    textAlign: 'left',
+    padding: `${space['2']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const tdStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    padding: `${space['2.5']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    verticalAlign: 'top',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: tc.background.surface,
+    border: `1px solid ${tc.border.default}`,
+    borderRadius: radius.xl,
+    padding: space['6'],
+    overflow: 'auto',
+  };
+
+  return (
+    <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
+      <div style={{ maxWidth: 1400, margin: '0 auto', padding: `${space['6']} ${space['4']}` }}>
+        <DrilldownBreadcrumb items={[{ label: 'Marketing', href: '/dashboard/marketing' }, { label: 'System' }, { label: 'Alerts' }]} />
+        <div style={{ marginBottom: space['6'] }}>
+          <h1
+            style={{
+              fontFamily: fontFamily.display,
+              fontSize: fontSize['3xl'],
+              fontWeight: fontWeight.semibold,
+              color: tc.text.primary,
+              marginBottom: space['1'],
+              lineHeight: lineHeight.snug,
+            }}
+            data-testid="text-page-title"
+          >
+            Marketing Alerts
+          </h1>
+          <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
+            Rules evaluated daily at 08:00 UTC over complete days ending yesterday. New alerts go out by email and Slack webhook; repeats inside a rule&apos;s cooldown are recorded as suppressed.
+          </p>
+        </div>
+
+        {error && !loading && (
+          <DashboardCard title="Error" error={error} />
+        )}
+
+        {loading ? (
+          <SkeletonCard height={320} lines={6} />
+        ) : data && (
+          <>
+            <DashboardSection title="Rules" description="Defined in lib/marketing-alerts.ts over the Executive Overview metrics.">
+              <div style={cardStyle} data-testid="table-alert-rules">
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Rule</th>
+                      <th style={thStyle}>Condition</th>
+                      <th style={thStyle}>Severity</th>
+                      <th style={thStyle}>Channels</th>
+                      <th style={{ ...thStyle, textAlign: 'right' }}>Fired (30d)</th>
+                      <th style={thStyle}>Last fired</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.rules.map((r) => (
+                      <tr key={r.id}>
+                        <td style={tdStyle}>{r.name}</td>
+                        <td style={{ ...tdStyle, color: tc.text.secondary }}>{ruleCondition(r)}</td>
+                        <td style={tdStyle}>{pill(r.severity, severityColor(r.severity))}</td>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{r.channels.join(', ')}</td>
+                        <td style={{ ...tdStyle, textAlign: 'right' }}>{r.fired_30d}</td>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{r.last_fired_at ? formatDateTime(r.last_fired_at) : 'never'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </DashboardSection>
+
+            <DashboardSection title="Alert History" description="Every alert recorded by the daily cron, newest first.">
+              {data.events.length === 0 ? (
+                <EmptyStateCard message="No alerts have fired yet." />
+              ) : (
+                <div style={cardStyle} data-testid="table-alert-history">
+                  <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                    <thead>
+                      <tr>
+                        <th style={thStyle}>Fired</th>
+                        <th style={thStyle}>Rule</th>
+                        <th style={thStyle}>Details</th>
+                        <th style={thStyle}>Window</th>
+                        <th style={thStyle}>Delivery</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {data.events.map((e) => (
+                        <tr key={e.id}>
+                          <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{formatDateTime(e.fired_at)}</td>
+                          <td style={tdStyle}>
+                            <div style={{ display: 'flex', alignItems: 'center', gap: space['2'], flexWrap: 'wrap' }}>
+                              {pill(e.severity, severityColor(e.severity))}
+                              <span>{e.rule_name}</span>
+                            </div>
+                          </td>
+                          <td style={{ ...tdStyle, color: tc.text.secondary }}>{e.message}</td>
+                          <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>
+                            {e.window_start === e.window_end ? e.window_end : `${e.window_start} → ${e.window_end}`}
+                          </td>
+                          <td style={tdStyle}>
+                            {pill(e.delivery_status, deliveryColor(e.delivery_status))}
+                            {e.delivered_channels.length > 0 && (
+                              <div style={{ marginTop: space['1'], color: tc.text.muted }}>{e.delivered_channels.join(', ')}</div>
+                            )}
+                            {e.delivery_errors && (
+                              <div style={{ marginTop: space['1'], color: tc.semantic.danger.dark, wordBreak: 'break-word' }}>{e.delivery_errors}</div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </DashboardSection>
+          </>
+        )}
+      </div>
+    </DashboardGuard>
+  );
+}
@@ -16,7 +16,13 @@ import {
   getGoogleAdsAttributionQuality,
   getSeoPageQuotePerformance,
   getSeoClusterQuotePerformance,
+  getMultiTouchAttribution,
 } from '../../../../lib/sdk';
+import {
+  ATTRIBUTION_CHANNEL_LABELS,
+  ATTRIBUTION_MODELS,
+  type AttributionChannel,
+} from '../../../../lib/attribution-models';
 import {
   JOIN_CONFIDENCE_DESCRIPTIONS,
   type JoinConfidenceTier,
@@ -27,6 +33,8 @@ import {
   type SeoPagePerformanceRow,
   type SeoClusterPerformanceRow,
   type AttributionResponse,
+  type AttributionModel,
+  type MultiTouchAttribution,
 } from '../../../../types/attribution';
 
 // ── Generic SDK-backed fetch hook ─────────────────────────────────────────
@@ -299,7 +307,128 @@ function ChannelRevenueSection() {
   );
 }
 
-// ── Section 3: Google Ads Performance ────────────────────────────────────
+// ── Section 3: Multi-touch Attribution ──────────────────────────────────
+
+function channelLabel(channel: string) {
+  return ATTRIBUTION_CHANNEL_LABELS[channel as AttributionChannel] ?? channel;
+}
+
+function MultiTouchSection() {
+  const [model, setModel] = useState<AttributionModel>('last_touch');
+  const [data, setData] = useState<MultiTouchAttribution | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { th, td } = useTableStyles();
+  const tc = useThemeColors();
+
+  useEffect(() => {
+    let cancelled = false;
+    getMultiTouchAttribution()
+      .then(res => { if (!cancelled) setData(res.data); })
+      .catch((err: unknown) => { if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  if (loading) return <LoadingState />;
+  if (error) return <DashboardCard title="Error" error={error} />;
+  if (!data || data.coverage.paid_quotes === 0) return <EmptyState message="No paid quotes in the last 30 days." />;
+
+  const rows = data.models[model];
+  const selected = ATTRIBUTION_MODELS.find(m => m.id === model);
+  const totalRevenue = data.coverage.paid_revenue_cents / 100;
+
+  // Comparison rows: every channel credited under any model, ordered by
+  // last-touch revenue so the familiar single-touch view anchors the table.
+  const revenueBy = ATTRIBUTION_MODELS.map(m => new Map(data.models[m.id].map(r => [r.channel, r.paid_revenue_usd])));
+  const channels = Array.from(new Set(ATTRIBUTION_MODELS.flatMap(m => data.models[m.id].map(r => r.channel))));
+  const lastTouchIdx = ATTRIBUTION_MODELS.findIndex(m => m.id === 'last_touch');
+  channels.sort((a, b) => (revenueBy[lastTouchIdx].get(b) ?? 0) - (revenueBy[lastTouchIdx].get(a) ?? 0));
+
+  return (
+    <div data-testid="multi-touch-attribution">
+      <div style={{ marginBottom: space['4'], display: 'flex', alignItems: 'center', gap: space['3'], flexWrap: 'wrap' }}>
+        <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>Attribution model:</span>
+        <select
+          value={model}
+          onChange={e => setModel(e.target.value as AttributionModel)}
+          style={{ padding: `${space['1.5']} ${space['3']}`, fontFamily: fontFamily.body, fontSize: fontSize.sm, backgroundColor: tc.background.surface, color: tc.text.primary, border: `1px solid ${tc.border.default}`, borderRadius: radius.md, cursor: 'pointer' }}
+          data-testid="select-attribution-model"
+        >
+          {ATTRIBUTION_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+        </select>
+        {selected && (
+          <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>{selected.description}</span>
+        )}
+      </div>
+
+      <div style={{ overflowX: 'auto' }} data-testid="table-multi-touch-model">
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th('left')}>Channel</th>
+              <th style={th()} title="Fractional under multi-touch models: a quote split across sessions credits each channel its share.">Credited Quotes</th>
+              <th style={th()}>Paid Revenue</th>
+              <th style={th()}>% of Revenue</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <tr key={r.channel}>
+                <td style={td('left')}>{channelLabel(r.channel)}</td>
+                <td style={td()}>{r.credited_quotes.toLocaleString('en-US', { maximumFractionDigits: 2 })}</td>
+                <td style={td()}>{fmtUsd(r.paid_revenue_usd)}</td>
+                <td style={td()}>{totalRevenue > 0 ? fmtPct((r.paid_revenue_usd / totalRevenue) * 100) : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div
+        style={{ marginTop: space['6'], marginBottom: space['2'], fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.semibold, color: tc.text.primary }}
+      >
+        Paid revenue by channel under each model
+      </div>
+      <div style={{ overflowX: 'auto' }} data-testid="table-multi-touch-comparison">
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={th('left')}>Channel</th>
+              {ATTRIBUTION_MODELS.map(m => (
+                <th key={m.id} style={{ ...th(), color: m.id === model ? tc.text.primary : tc.text.muted }} title={m.description}>
+                  {m.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {channels.map(channel => (
+              <tr key={channel}>
+                <td style={td('left')}>{channelLabel(channel)}</td>
+                {ATTRIBUTION_MODELS.map((m, i) => (
+                  <td key={m.id} style={{ ...td(), fontWeight: m.id === model ? fontWeight.semibold : undefined }}>
+                    {fmtUsd(revenueBy[i].get(channel) ?? 0)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p style={{ marginTop: space['3'], fontFamily: fontFamily.body, fontSize: fontSize.xs, color: tc.text.muted }} data-testid="multi-touch-coverage">
+        {data.coverage.paid_quotes.toLocaleString()} paid quotes ({fmtUsd(totalRevenue)}).{' '}
+        {data.coverage.quotes_with_journey.toLocaleString()} linked to a visitor journey
+        {data.coverage.avg_touchpoints !== null ? ` (avg ${data.coverage.avg_touchpoints} sessions)` : ''};{' '}
+        {data.coverage.quotes_deal_fallback.toLocaleString()} credited whole to the channel on the QMS deal.
+        Sessions within {data.settings.lookback_days} days before the conversion count as touchpoints. Computed in Platform Shell for comparison — the ODS views above remain the reporting record.
+      </p>
+    </div>
+  );
+}
+
+// ── Section 4: Google Ads Performance ────────────────────────────────────
 
 function GoogleAdsPerformanceSection() {
   const [confidenceFilter, setConfidenceFilter] = useState('');
@@ -369,7 +498,7 @@ function GoogleAdsPerformanceSection() {
   );
 }
 
-// ── Section 4: Google Ads Attribution Quality ─────────────────────────────
+// ── Section 5: Google Ads Attribution Quality ─────────────────────────────
 
 function GoogleAdsQualitySection() {
   const { data, loading, error } = useAttributionData<AttributionQualityRow>(getGoogleAdsAttributionQuality);
@@ -440,7 +569,7 @@ function GoogleAdsQualitySection() {
   );
 }
 
-// ── Section 5: SEO Page Performance ──────────────────────────────────────
+// ── Section 6: SEO Page Performance ──────────────────────────────────────
 
 function SeoPagePerformanceSection() {
   const { data, loading, error } = useAttributionData<SeoPagePerformanceRow>(getSeoPageQuotePerformance, { limit: '200' });
@@ -484,7 +613,7 @@ function SeoPagePerformanceSection() {
   );
 }
 
-// ── Section 6: SEO Cluster Performance ───────────────────────────────────
+// ── Section 7: SEO Cluster Performance ───────────────────────────────────
 
 function SeoClusterPerformanceSection() {
   const { data, loading, error } = useAttributionData<SeoClusterPerformanceRow>(getSeoClusterQuotePerformance);
@@ -555,7 +684,7 @@ export default function AttributionDashboardPage() {
             Attribution Intelligence
           </h1>
           <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
-            Source-to-paid funnel, channel revenue, Google Ads join precision, and SEO page outcomes — all from the Supabase attribution views.
+            Source-to-paid funnel, channel revenue, Google Ads join precision, and SEO page outcomes from the Supabase attribution views, plus a multi-touch model comparison over visitor journeys.
           </p>
         </div>
 
@@ -575,10 +704,18 @@ export default function AttributionDashboardPage() {
           <ChannelRevenueSection />
         </DashboardSection>
 
+        <DashboardSection
+          title="Multi-touch Attribution (Last 30 Days)"
+          description="Paid revenue credited across each quote's visitor journey under five models. Pick a model for its channel breakdown; the comparison table shows every model side by side."
+          index={2}
+        >
+          <MultiTouchSection />
+        </DashboardSection>
+
         <DashboardSection
           title="Google Ads × QMS Performance (Last 30 Days)"
           description="Campaign-level ad spend joined to QMS quote outcomes. Use the confidence filter to isolate high-precision rows. Tiers explained below the table."
-          index={2}
+          index={3}
         >
           <GoogleAdsPerformanceSection />
         </DashboardSection>
@@ -586,7 +723,7 @@ export default function AttributionDashboardPage() {
         <DashboardSection
           title="Google Ads Attribution Quality (All-time)"
           description="Attribution precision breakdown by join_confidence tier. Target: ≥ 90% at exact_campaign_id after UTM template rollout."
-          index={3}
+          index={4}
         >
           <GoogleAdsQualitySection />
         </DashboardSection>
@@ -594,7 +731,7 @@ export default function AttributionDashboardPage() {
         <DashboardSection
           title="SEO Page Performance"
           description="Search Console clicks + QMS quote outcomes by canonical origin page URL, meaning the visitor entry page before the quote builder, not the quote landing URL. Ordered by revenue descending. Window: determined by ODS view."
-          index={4}
+          index={5}
         >
           <SeoPagePerformanceSection />
         </DashboardSection>
@@ -602,7 +739,7 @@ export default function AttributionDashboardPage() {
         <DashboardSection
           title="SEO Cluster Performance"
           description="Topic cluster rollup: aggregated GSC and QMS metrics per cluster with top revenue page link. Window: determined by ODS view."
-          index={5}
+          index={6}
         >
           <SeoClusterPerformanceSection />
         </DashboardSection>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useThemeColors } from '../../../../hooks/useThemeColors';
 import { indigo, violet } from '../../../../design/tokens/colors';
 import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
@@ -23,6 +23,8 @@ interface Props {
   channel?: string;
   onChannelChange?: (channel: string) => void;
   comparisonLabel?: string;
+  /** Rendered at the end of the bar (the saved views picker). */
+  actions?: React.ReactNode;
 }
 
 const PRESETS: { value: UIPreset; label: string }[] = [
@@ -57,12 +59,19 @@ export function GlobalFilters({
   channel = '',
   onChannelChange,
   comparisonLabel,
+  actions,
 }: Props) {
   const tc = useThemeColors();
   const [rangeStart, setRangeStart] = useState(state.start);
   const [rangeEnd, setRangeEnd] = useState(state.end);
   const isCustom = state.mode === 'range';
 
+  // A saved view can replace the range from outside the bar.
+  useEffect(() => {
+    setRangeStart(state.start);
+    setRangeEnd(state.end);
+  }, [state.start, state.end]);
+
   const selectPreset = (p: UIPreset) =>
     onChange({ ...state, mode: 'preset', preset: p, start: '', end: '' });
 
@@ -280,6 +289,8 @@ export function GlobalFilters({
           {comparisonLabel}
         </span>
       )}
+
+      {actions && <div style={{ marginLeft: 'auto' }}>{actions}</div>}
     </div>
   );
 }
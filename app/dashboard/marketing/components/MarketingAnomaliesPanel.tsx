@@ -1,74 +1,281 @@
 'use client';
 
-import React from 'react';
-import type { MarketingAnomalies } from '../../../../types/activity-spine';
-import { DashboardSection, DashboardGrid } from '../../../../components/dashboard';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceDot,
+} from 'recharts';
+import type {
+  MarketingAnomaliesResponse,
+  MarketingAnomaly,
+  MarketingAnomalyMetric,
+  MarketingPeriodBlock,
+} from '../../../../types/activity-spine';
+import { DashboardSection, EmptyStateCard, SkeletonCard } from '../../../../components/dashboard';
 import { useThemeColors } from '../../../../hooks/useThemeColors';
+import type { ThemeColors } from '../../../../design/tokens/theme-colors';
 import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
-import { space, radius } from '../../../../design/tokens/spacing';
+import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
+import { indigo } from '../../../../design/tokens/colors';
+import { formatCurrency, formatNumber, formatPercent } from '../lib/format';
 
 interface Props {
-  anomalies: MarketingAnomalies | undefined;
-  loading: boolean;
-  error: string | null;
+  period: MarketingPeriodBlock | undefined;
 }
 
-interface AnomalyDef {
-  key: keyof MarketingAnomalies;
-  label: string;
+const DIMENSION_LABELS: Record<string, string> = {
+  channel: 'channel',
+  landing_page: 'landing page',
+  campaign: 'campaign',
+};
+
+const MAX_LISTED = 8;
+
+function pillStyle(active: boolean, tc: ThemeColors): React.CSSProperties {
+  return {
+    padding: `${space['1.5']} ${space['3']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    backgroundColor: active ? indigo[950] : 'transparent',
+    color: active ? '#fff' : tc.text.muted,
+    border: 'none',
+    borderRadius: radius.full,
+    cursor: 'pointer',
+    transition: `all ${duration.normal} ${easing.DEFAULT}`,
+  };
 }
 
-const ANOMALY_DEFS: AnomalyDef[] = [
-  { key: 'sessions_spike', label: 'Sessions' },
-  { key: 'submissions_spike', label: 'Submissions' },
-  { key: 'pipeline_spike', label: 'Pipeline Value' },
-];
+function formatXAxis(d: string): string {
+  const parts = d.split('-');
+  return parts.length >= 3 ? `${parts[1]}/${parts[2]}` : d;
+}
 
-export function MarketingAnomaliesPanel({ anomalies, loading, error }: Props) {
+export function MarketingAnomaliesPanel({ period }: Props) {
   const tc = useThemeColors();
+  const [report, setReport] = useState<MarketingAnomaliesResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<MarketingAnomalyMetric | null>(null);
+
+  const start = period?.start;
+  const end = period?.end;
+
+  useEffect(() => {
+    if (!start || !end) return;
+    let alive = true;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/activity-spine/marketing/anomalies?start=${start}&end=${end}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Anomalies fetch failed: ${res.status}`);
+        const json = await res.json();
+        if (alive) setReport(json.data ?? null);
+      })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, [start, end]);
+
+  const selected = useMemo(() => {
+    if (!report) return null;
+    const key = metric ?? report.anomalies[0]?.metric ?? 'sessions';
+    return report.series.find((s) => s.metric === key) ?? report.series[0] ?? null;
+  }, [report, metric]);
+
+  const description = `Days outside the expected band: same-weekday mean ±2σ over the previous ${report?.baseline_weeks ?? 8} weeks.`;
+
+  if (loading) {
+    return (
+      <DashboardSection title="Anomalies" description={description}>
+        <SkeletonCard height={360} lines={0} />
+      </DashboardSection>
+    );
+  }
+
+  if (error || !report || !selected) return null;
+
+  const format = selected.format === 'usd' ? formatCurrency : formatNumber;
+  const chartData = selected.points.map((p) => ({
+    date: p.date,
+    band: p.lower != null && p.upper != null ? [p.lower, p.upper] : null,
+    expected: p.expected,
+    value: p.value,
+  }));
+  const markers = selected.points.filter((p) => p.anomaly && p.value != null);
+  const seriesFormats = new Map(report.series.map((s) => [s.metric, s.format]));
 
-  if (loading || error || !anomalies) return null;
+  const directionColor = (a: { direction: MarketingAnomaly['direction'] }) =>
+    a.direction === 'drop' ? tc.semantic.danger : tc.semantic.warning;
 
-  const hasAny = ANOMALY_DEFS.some((d) => anomalies[d.key]);
-  if (!hasAny) return null;
+  const renderTooltip = ({ active, payload, label }: { active?: boolean; payload?: ReadonlyArray<{ payload: typeof chartData[number] }>; label?: string | number }) => {
+    if (!active || !payload?.length) return null;
+    const row = payload[0].payload;
+    return (
+      <div style={{
+        backgroundColor: tc.background.surface,
+        border: `1px solid ${tc.border.default}`,
+        borderRadius: radius.lg,
+        padding: `${space['2']} ${space['3']}`,
+        fontFamily: fontFamily.body,
+        fontSize: fontSize.sm,
+      }}>
+        <div style={{ color: tc.text.muted, marginBottom: 4 }}>{label}</div>
+        <div style={{ color: tc.text.primary, fontWeight: fontWeight.semibold }}>
+          {row.value != null ? format(row.value) : 'Not loaded yet'}
+        </div>
+        {row.band && (
+          <div style={{ color: tc.text.secondary }}>
+            Expected {format(row.expected ?? 0)} ({format(row.band[0])} – {format(row.band[1])})
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
-    <DashboardSection title="Anomalies" description="Statistical spikes detected in the current period (>2 standard deviations).">
-      <DashboardGrid columns={3}>
-        {ANOMALY_DEFS.filter((d) => anomalies[d.key]).map((d) => (
-          <div
-            key={d.key}
-            style={{
-              backgroundColor: tc.semantic.warning.light,
-              border: `1px solid ${tc.semantic.warning.base}`,
-              borderRadius: radius.xl,
-              padding: space['5'],
-              display: 'flex',
-              alignItems: 'center',
-              gap: space['3'],
-            }}
-          >
-            <span
-              style={{
-                display: 'inline-block',
-                width: space['3'],
-                height: space['3'],
-                borderRadius: radius.full,
-                backgroundColor: tc.semantic.warning.base,
-                flexShrink: 0,
-              }}
+    <DashboardSection title="Anomalies" description={description}>
+      <div
+        style={{ backgroundColor: tc.background.surface, border: `1px solid ${tc.border.default}`, borderRadius: radius.xl, padding: space['5'] }}
+        data-testid="panel-anomalies"
+      >
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginBottom: space['3'] }}>
+          <div style={{ display: 'inline-flex', flexWrap: 'wrap', backgroundColor: tc.background.muted, borderRadius: radius.full, padding: space['0.5'], gap: space['0.5'] }}>
+            {report.series.map((s) => (
+              <button
+                key={s.metric}
+                onClick={() => setMetric(s.metric)}
+                style={pillStyle(selected.metric === s.metric, tc)}
+                data-testid={`anomaly-metric-${s.metric}`}
+              >
+                {s.label}{s.anomaly_count > 0 ? ` (${s.anomaly_count})` : ''}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <ResponsiveContainer width="100%" height={280}>
+          <ComposedChart data={chartData} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke={tc.border.subtle} vertical={false} />
+            <XAxis
+              dataKey="date"
+              tick={{ fill: tc.text.muted, fontSize: 11, fontFamily: fontFamily.body }}
+              tickLine={false}
+              axisLine={{ stroke: tc.border.default }}
+              tickFormatter={formatXAxis}
             />
-            <div>
-              <div style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.medium, color: tc.text.primary }}>
-                {d.label}
-              </div>
-              <div style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.semantic.warning.dark }}>
-                Observed spike
+            <YAxis
+              tick={{ fill: tc.text.muted, fontSize: 11, fontFamily: fontFamily.body }}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(v) => format(v)}
+              width={52}
+            />
+            <Tooltip content={renderTooltip} />
+            <Area
+              type="monotone"
+              dataKey="band"
+              name="Expected band"
+              stroke="none"
+              fill={tc.semantic.info.light}
+              fillOpacity={0.8}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="expected"
+              name="Expected"
+              stroke={tc.semantic.info.base}
+              strokeDasharray="4 3"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="monotone"
+              dataKey="value"
+              name={selected.label}
+              stroke={indigo[600]}
+              strokeWidth={2}
+              dot={false}
+              connectNulls={false}
+            />
+            {markers.map((p) => (
+              <ReferenceDot
+                key={p.date}
+                x={p.date}
+                y={p.value as number}
+                r={5}
+                fill={p.anomaly === 'drop' ? tc.semantic.danger.base : tc.semantic.warning.base}
+                stroke={tc.background.surface}
+                strokeWidth={2}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {report.anomalies.length === 0 ? (
+        <div style={{ marginTop: space['4'] }}>
+          <EmptyStateCard message="No series moved outside its expected band in this period." />
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: space['2'], marginTop: space['4'] }} data-testid="list-anomalies">
+          {report.anomalies.slice(0, MAX_LISTED).map((a) => {
+            const sem = directionColor(a);
+            const fmt = seriesFormats.get(a.metric) === 'usd' ? formatCurrency : formatNumber;
+            return (
+              <div
+                key={`${a.metric}-${a.date}`}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: space['3'],
+                  flexWrap: 'wrap',
+                  backgroundColor: tc.background.surface,
+                  border: `1px solid ${tc.border.default}`,
+                  borderLeft: `3px solid ${sem.base}`,
+                  borderRadius: radius.lg,
+                  padding: `${space['3']} ${space['4']}`,
+                  fontFamily: fontFamily.body,
+                  fontSize: fontSize.sm,
+                }}
+              >
+                <span style={{
+                  fontWeight: fontWeight.medium,
+                  color: sem.dark,
+                  backgroundColor: sem.light,
+                  padding: `${space['0.5']} ${space['2.5']}`,
+                  borderRadius: radius.full,
+                  whiteSpace: 'nowrap',
+                }}>
+                  {a.direction === 'drop' ? 'Drop' : 'Spike'}{a.severity === 'high' ? ' · high' : ''}
+                </span>
+                <span style={{ color: tc.text.primary, fontWeight: fontWeight.medium }}>{a.label}</span>
+                <span style={{ color: tc.text.muted }}>{a.date}</span>
+                <span style={{ color: tc.text.secondary }}>
+                  {fmt(a.value)} vs expected {fmt(a.expected)}
+                  {a.deviation_pct != null && ` (${a.deviation_pct > 0 ? '+' : ''}${formatPercent(a.deviation_pct, 0)})`}
+                  {` · z = ${a.z_score}`}
+                </span>
+                {a.driver && (
+                  <span style={{ color: tc.text.secondary, marginLeft: 'auto' }}>
+                    Driven by {DIMENSION_LABELS[a.driver.dimension]} <strong style={{ color: tc.text.primary }}>{a.driver.key}</strong>{' '}
+                    ({formatPercent(Math.min(a.driver.share, 1), 0)} of the change)
+                  </span>
+                )}
               </div>
-            </div>
-          </div>
-        ))}
-      </DashboardGrid>
+            );
+          })}
+        </div>
+      )}
     </DashboardSection>
   );
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { violet, indigo } from '../../../../design/tokens/colors';
 import { useThemeColors } from '../../../../hooks/useThemeColors';
 import type { ThemeColors } from '../../../../design/tokens/theme-colors';
@@ -11,6 +11,8 @@ import type { PeriodState, UIPreset, DashboardView } from '../lib/period';
 interface Props {
   state: PeriodState;
   onChange: (next: PeriodState) => void;
+  /** Rendered beside the title (the saved views picker). */
+  actions?: React.ReactNode;
 }
 
 const PRESETS: { value: UIPreset; label: string }[] = [
@@ -73,12 +75,17 @@ function ToggleDot({ active, tc }: { active: boolean; tc: ThemeColors }) {
   );
 }
 
-export function MarketingDashboardHeader({ state, onChange }: Props) {
+export function MarketingDashboardHeader({ state, onChange, actions }: Props) {
   const tc = useThemeColors();
   const [rangeStart, setRangeStart] = useState(state.start);
   const [rangeEnd, setRangeEnd] = useState(state.end);
   const isCustom = state.mode === 'range';
 
+  useEffect(() => {
+    setRangeStart(state.start);
+    setRangeEnd(state.end);
+  }, [state.start, state.end]);
+
   const selectPreset = (p: UIPreset) => onChange({ ...state, mode: 'preset', preset: p, start: '', end: '' });
   const toggleCustom = () => {
     if (isCustom) {
@@ -102,6 +109,7 @@ export function MarketingDashboardHeader({ state, onChange }: Props) {
             SEO and inbound performance with period-safe attribution and pipeline value.
           </p>
         </div>
+        {actions}
       </div>
 
       <div style={{ display: 'flex', alignItems: 'center', gap: space['3'], flexWrap: 'wrap', marginTop: space['5'] }}>
@@ -0,0 +1,187 @@
+'use client';
+
+// =============================================================================
+// Rejected Ingest Payloads (read-only).
+// Lists payloads the /api/ingest/* contracts (lib/ingest-contracts.ts) turned
+// away — malformed event_data, bad cents values, unknown quote_activity or
+// event_type — from analytics.ingest_dead_letter, so a producer regression in
+// the Convex QMS or the quote-site GTM tags shows up here instead of as a
+// quiet gap in the dashboards.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import type { IngestRejectsResponse, IngestRejectRow } from '../../../../types/activity-spine';
+import { DashboardSection, DashboardGrid, EmptyStateCard, SkeletonCard } from '../../../../components/dashboard';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
+import { space, radius } from '../../../../design/tokens/spacing';
+
+const SECTION_TITLE = 'Rejected Ingest Payloads';
+const SECTION_CAPTION =
+  'Events and QMS deals refused by the ingest contracts in the last 7 days. Rejected payloads are kept with the reason — nothing here reached the raw tables.';
+
+const ENDPOINT_LABELS: Record<string, string> = {
+  'web-event': 'Web events (GTM / quote site)',
+  'qms-deal': 'QMS deals (Convex)',
+};
+
+function timeAgo(dateStr: string | null): string {
+  if (!dateStr) return 'never';
+  const diff = Date.now() - new Date(dateStr).getTime();
+  if (isNaN(diff) || diff < 0) return 'unknown';
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
+
+function payloadPreview(row: IngestRejectRow): string {
+  const text = typeof row.payload === 'string' ? row.payload : JSON.stringify(row.payload);
+  if (!text) return '—';
+  return text.length > 120 ? `${text.slice(0, 120)}…` : text;
+}
+
+export function MarketingIngestRejectsPanel() {
+  const tc = useThemeColors();
+  const [data, setData] = useState<IngestRejectsResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetch('/api/activity-spine/marketing/ingest-rejects?limit=25')
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Ingest rejects fetch failed: ${res.status}`);
+        const json = await res.json();
+        if (alive) setData(json.data ?? null);
+      })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, []);
+
+  if (loading) {
+    return (
+      <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+        <SkeletonCard height={160} lines={3} />
+      </DashboardSection>
+    );
+  }
+
+  if (error) {
+    return (
+      <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+        <EmptyStateCard message="Rejected-payload log is unavailable right now (analytics.ingest_dead_letter could not be read)." />
+      </DashboardSection>
+    );
+  }
+
+  const summary = data?.summary ?? [];
+  const recent = data?.recent ?? [];
+
+  if (recent.length === 0) {
+    return (
+      <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+        <EmptyStateCard message="No rejected payloads — every ingest request has matched its contract." />
+      </DashboardSection>
+    );
+  }
+
+  const thStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.muted,
+    textAlign: 'left',
+    padding: `${space['2']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const tdStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    padding: `${space['2.5']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    verticalAlign: 'top',
+  };
+
+  return (
+    <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+      <DashboardGrid columns={{ sm: 1, md: 2, lg: 2 }}>
+        {summary.map((s) => {
+          const sem = s.rejects_24h > 0 ? tc.semantic.danger : s.rejects_7d > 0 ? tc.semantic.warning : tc.semantic.success;
+          return (
+            <div
+              key={s.endpoint}
+              style={{
+                backgroundColor: tc.background.surface,
+                border: `1px solid ${tc.border.default}`,
+                borderRadius: radius.xl,
+                padding: space['5'],
+              }}
+              data-testid={`ingest-rejects-${s.endpoint}`}
+            >
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: space['3'], flexWrap: 'wrap' }}>
+                <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.medium, color: tc.text.primary }}>
+                  {ENDPOINT_LABELS[s.endpoint] ?? s.endpoint}
+                </span>
+                <span style={{
+                  fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium,
+                  color: sem.dark, backgroundColor: sem.light,
+                  padding: `${space['0.5']} ${space['2.5']}`, borderRadius: radius.full,
+                }}>
+                  {s.rejects_24h} in 24h
+                </span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: space['3'] }}>
+                <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>Last 7 days</span>
+                <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium, color: tc.text.secondary }}>{s.rejects_7d}</span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: space['1'] }}>
+                <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>Last reject</span>
+                <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium, color: tc.text.secondary }}>{timeAgo(s.last_rejected_at)}</span>
+              </div>
+              {s.top_reason_7d && (
+                <div style={{ marginTop: space['3'], fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted, lineHeight: 1.5 }}>
+                  <strong style={{ fontWeight: fontWeight.medium, color: tc.text.secondary }}>Most common:</strong>{' '}
+                  {s.top_reason_7d}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </DashboardGrid>
+
+      <div
+        style={{ marginTop: space['4'], backgroundColor: tc.background.surface, border: `1px solid ${tc.border.default}`, borderRadius: radius.xl, padding: space['6'], overflow: 'auto' }}
+        data-testid="table-ingest-rejects"
+      >
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <thead>
+            <tr>
+              <th style={thStyle}>Received</th>
+              <th style={thStyle}>Endpoint</th>
+              <th style={thStyle}>Reason</th>
+              <th style={thStyle}>Payload</th>
+            </tr>
+          </thead>
+          <tbody>
+            {recent.map((r) => (
+              <tr key={r.id}>
+                <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{timeAgo(r.received_at)}</td>
+                <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{r.endpoint}</td>
+                <td style={tdStyle}>{r.reason}</td>
+                <td style={{ ...tdStyle, fontFamily: fontFamily.mono, color: tc.text.muted, wordBreak: 'break-all' }}>{payloadPreview(r)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </DashboardSection>
+  );
+}
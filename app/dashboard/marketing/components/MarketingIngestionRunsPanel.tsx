@@ -0,0 +1,219 @@
+'use client';
+
+// =============================================================================
+// Ingestion Runs & Source Freshness (read-only).
+// Sync run history from analytics.ingestion_runs (GA4 / Google Ads cron,
+// manual and backfill runs) and a per-source daily row timeline over the raw
+// tables. Days with zero rows are highlighted as gaps, so it is obvious at a
+// glance whether yesterday's dashboard numbers are complete.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import type { IngestionHealthResponse, IngestionRunRow, SourceFreshness } from '../../../../types/activity-spine';
+import { DashboardSection, EmptyStateCard, SkeletonCard } from '../../../../components/dashboard';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
+import { space, radius } from '../../../../design/tokens/spacing';
+
+const SECTION_TITLE = 'Ingestion Runs & Source Freshness';
+const SECTION_CAPTION =
+  'Daily rows landed per source over the last 30 days (red = no rows that day), and every cron, manual and backfill sync run with its date range, row counts and errors.';
+
+function timeAgo(dateStr: string | null): string {
+  if (!dateStr) return 'never';
+  const diff = Date.now() - new Date(dateStr).getTime();
+  if (isNaN(diff) || diff < 0) return 'unknown';
+  const mins = Math.floor(diff / 60000);
+  if (mins < 1) return 'just now';
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.floor(mins / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return `${days}d ago`;
+}
+
+function formatDuration(ms: number | null): string {
+  if (ms == null) return '—';
+  if (ms < 1000) return `${ms}ms`;
+  const secs = ms / 1000;
+  if (secs < 60) return `${secs.toFixed(1)}s`;
+  return `${Math.floor(secs / 60)}m ${Math.round(secs % 60)}s`;
+}
+
+function dateRange(run: IngestionRunRow): string {
+  if (!run.date_range_start && !run.date_range_end) return '—';
+  if (run.date_range_start === run.date_range_end) return run.date_range_start ?? '—';
+  return `${run.date_range_start ?? '?'} → ${run.date_range_end ?? '?'}`;
+}
+
+export function MarketingIngestionRunsPanel() {
+  const tc = useThemeColors();
+  const [data, setData] = useState<IngestionHealthResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    fetch('/api/activity-spine/marketing/ingestion-runs?days=30&limit=50')
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Ingestion runs fetch failed: ${res.status}`);
+        const json = await res.json();
+        if (alive) setData(json.data ?? null);
+      })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, []);
+
+  if (loading) {
+    return (
+      <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+        <SkeletonCard height={220} lines={4} />
+      </DashboardSection>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+        <EmptyStateCard message="Ingestion run history is unavailable right now (analytics.ingestion_runs could not be read)." />
+      </DashboardSection>
+    );
+  }
+
+  const statusColor = (status: string) =>
+    status === 'completed' ? tc.semantic.success : status === 'failed' ? tc.semantic.danger : tc.semantic.info;
+
+  const pill = (label: string, sem: { light: string; dark: string }) => (
+    <span style={{
+      fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium,
+      color: sem.dark, backgroundColor: sem.light,
+      padding: `${space['0.5']} ${space['2.5']}`, borderRadius: radius.full, whiteSpace: 'nowrap',
+    }}>
+      {label}
+    </span>
+  );
+
+  const thStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.muted,
+    textAlign: 'left',
+    padding: `${space['2']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const tdStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    padding: `${space['2.5']} ${space['3']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    verticalAlign: 'top',
+  };
+
+  const cardStyle: React.CSSProperties = {
+    backgroundColor: tc.background.surface,
+    border: `1px solid ${tc.border.default}`,
+    borderRadius: radius.xl,
+    padding: space['6'],
+  };
+
+  const freshnessRow = (f: SourceFreshness) => {
+    const gaps = f.gap_dates.length;
+    const badge = !f.available
+      ? pill('Unavailable', tc.semantic.warning)
+      : f.yesterday_complete
+        ? pill('Yesterday complete', tc.semantic.success)
+        : pill('Yesterday missing', tc.semantic.danger);
+
+    return (
+      <div key={f.source} style={{ padding: `${space['3']} 0`, borderBottom: `1px solid ${tc.border.default}` }} data-testid={`freshness-${f.source}`}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: space['3'], flexWrap: 'wrap', marginBottom: space['2'] }}>
+          <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.medium, color: tc.text.primary }}>
+            {f.label}
+          </span>
+          <span style={{ display: 'flex', alignItems: 'center', gap: space['2'] }}>
+            {f.available && (
+              <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>
+                {gaps === 0 ? 'No gaps' : `${gaps} gap day${gaps === 1 ? '' : 's'}`} · last data {f.last_data_date ?? 'none'}
+              </span>
+            )}
+            {badge}
+          </span>
+        </div>
+        {f.available && (
+          <div style={{ display: 'flex', gap: '2px' }}>
+            {f.days.map((d) => (
+              <div
+                key={d.date}
+                title={`${d.date}: ${d.rows.toLocaleString()} rows`}
+                style={{
+                  flex: 1,
+                  height: 18,
+                  borderRadius: radius.sm,
+                  backgroundColor: d.rows > 0
+                    ? tc.semantic.success.base
+                    : f.gap_dates.includes(d.date) ? tc.semantic.danger.base : tc.border.default,
+                  opacity: d.rows > 0 ? 0.75 : 1,
+                }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <DashboardSection title={SECTION_TITLE} description={SECTION_CAPTION}>
+      <div style={cardStyle} data-testid="ingestion-freshness-timeline">
+        {data.freshness.map(freshnessRow)}
+      </div>
+
+      {data.runs.length === 0 ? (
+        <div style={{ marginTop: space['4'] }}>
+          <EmptyStateCard message="No sync runs recorded yet — the GA4 and Google Ads crons write here on their next run." />
+        </div>
+      ) : (
+        <div style={{ ...cardStyle, marginTop: space['4'], overflow: 'auto' }} data-testid="table-ingestion-runs">
+          <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Started</th>
+                <th style={thStyle}>Source</th>
+                <th style={thStyle}>Date range</th>
+                <th style={thStyle}>Status</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Rows</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Failed</th>
+                <th style={{ ...thStyle, textAlign: 'right' }}>Duration</th>
+                <th style={thStyle}>Error</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.runs.map((r) => (
+                <tr key={r.id}>
+                  <td style={{ ...tdStyle, whiteSpace: 'nowrap' }} title={r.started_at}>{timeAgo(r.started_at)}</td>
+                  <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>
+                    {r.source}
+                    {r.backfill_id && <span style={{ color: tc.text.muted }}> (backfill)</span>}
+                  </td>
+                  <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{dateRange(r)}</td>
+                  <td style={tdStyle}>{pill(r.status, statusColor(r.status))}</td>
+                  <td style={{ ...tdStyle, textAlign: 'right' }}>{r.records_processed.toLocaleString()}</td>
+                  <td style={{ ...tdStyle, textAlign: 'right', color: r.records_failed > 0 ? tc.semantic.danger.dark : tc.text.primary }}>
+                    {r.records_failed.toLocaleString()}
+                  </td>
+                  <td style={{ ...tdStyle, textAlign: 'right', whiteSpace: 'nowrap' }}>{formatDuration(r.duration_ms)}</td>
+                  <td style={{ ...tdStyle, color: tc.text.muted, wordBreak: 'break-word' }}>{r.error_message ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </DashboardSection>
+  );
+}
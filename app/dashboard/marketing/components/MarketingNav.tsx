@@ -56,8 +56,11 @@ const NAV_GROUPS: NavGroup[] = [
     title: 'System',
     items: [
       { href: '/dashboard/marketing/data-health', label: 'Data Health', icon: 'shield' },
+      { href: '/dashboard/marketing/alerts', label: 'Alerts', icon: 'warning' },
+      { href: '/dashboard/marketing/targets', label: 'Targets', icon: 'target' },
       { href: '/dashboard/marketing/forecasting', label: 'Forecasting (tool - no live data)', icon: 'trending' },
-      { href: '/dashboard/marketing/experiments', label: 'Experiments (tool - no live data)', icon: 'lightbulb' },
+      { href: '/dashboard/marketing/experiments', label: 'Experiments', icon: 'lightbulb' },
+      { href: '/dashboard/marketing/reports', label: 'Scheduled Reports', icon: 'mail' },
     ],
   },
 ];
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
-import type { MarketingTimeseries } from '../../../../types/activity-spine';
+import type { MarketingPeriodBlock, MarketingTarget, MarketingTimeseries } from '../../../../types/activity-spine';
 import { DashboardSection, DashboardCard } from '../../../../components/dashboard';
 import { SkeletonCard } from '../../../../components/dashboard';
 import { AreaLineChart } from '../../../../components/dashboard/charts';
@@ -18,7 +18,8 @@ interface Props {
   enabled: boolean;
   loading: boolean;
   error: string | null;
-  daysInPeriod?: number;
+  period?: MarketingPeriodBlock;
+  targets?: MarketingTarget[];
 }
 
 type MetricKey = 'sessions' | 'submissions' | 'pipeline_value_usd' | 'impressions' | 'clicks';
@@ -46,7 +47,7 @@ function pillStyle(active: boolean, tc: ThemeColors): React.CSSProperties {
   };
 }
 
-export function MarketingTimeseriesPanel({ timeseries, enabled, loading, error, daysInPeriod = 30 }: Props) {
+export function MarketingTimeseriesPanel({ timeseries, enabled, loading, error, period, targets }: Props) {
   const tc = useThemeColors();
   const [metric, setMetric] = useState<MetricKey>('sessions');
 
@@ -71,7 +72,7 @@ export function MarketingTimeseriesPanel({ timeseries, enabled, loading, error,
   const selected = METRICS.find((m) => m.key === metric) ?? METRICS[0];
   const rawData = timeseries?.[metric] ?? [];
   const chartData = rawData.map((d) => ({ date: d.date, [selected.label]: d.value }));
-  const target = getTargetForMetric(metric, daysInPeriod);
+  const target = getTargetForMetric(metric, period, targets);
 
   const formatXAxis = (d: string) => {
     const parts = d.split('-');
@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DashboardSection, EmptyStateCard, SkeletonCard } from '../../../../components/dashboard';
+import { HeatmapChart } from '../../../../components/dashboard/charts';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import type { ThemeColors } from '../../../../design/tokens/theme-colors';
+import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
+import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
+import { indigo } from '../../../../design/tokens/colors';
+import { ATTRIBUTION_CHANNEL_LABELS, type AttributionChannel } from '../../../../lib/attribution-models';
+import { ALL_SOURCE_GROUPS, type CohortGrain, type QuoteCohortRow, type QuoteCohorts } from '../../../../lib/quote-cohorts';
+import { formatCurrency, formatNumber, formatPercent } from '../lib/format';
+
+interface Props {
+  index?: number;
+}
+
+type CohortRate = 'quote_paid_rate' | 'deposit_paid_rate';
+
+const RATE_LABELS: Record<CohortRate, string> = {
+  quote_paid_rate: 'Quote paid',
+  deposit_paid_rate: 'Deposit paid',
+};
+
+function pillStyle(active: boolean, tc: ThemeColors): React.CSSProperties {
+  return {
+    padding: `${space['1.5']} ${space['3']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    backgroundColor: active ? indigo[950] : 'transparent',
+    color: active ? '#fff' : tc.text.muted,
+    border: 'none',
+    borderRadius: radius.full,
+    cursor: 'pointer',
+    transition: `all ${duration.normal} ${easing.DEFAULT}`,
+  };
+}
+
+function cohortLabel(start: string, grain: CohortGrain): string {
+  const d = new Date(`${start}T00:00:00Z`);
+  return grain === 'month'
+    ? d.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' })
+    : `Wk of ${d.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}`;
+}
+
+function groupLabel(group: QuoteCohortRow['source_group']): string {
+  return group === ALL_SOURCE_GROUPS ? 'All sources' : ATTRIBUTION_CHANNEL_LABELS[group];
+}
+
+/**
+ * Submission cohorts from /api/activity-spine/marketing/qms/cohorts: a heatmap
+ * of cumulative paid / deposit rates per cohort at each milestone day, and a
+ * per-cohort table of volume and revenue. Shared by Warm Outreach and Quote Pipeline.
+ */
+export function QuoteCohortsPanel({ index }: Props) {
+  const tc = useThemeColors();
+  const [grain, setGrain] = useState<CohortGrain>('week');
+  const [rate, setRate] = useState<CohortRate>('quote_paid_rate');
+  const [group, setGroup] = useState<QuoteCohortRow['source_group']>(ALL_SOURCE_GROUPS);
+  const [report, setReport] = useState<QuoteCohorts | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/activity-spine/marketing/qms/cohorts?grain=${grain}`)
+      .then(async (res) => {
+        if (!res.ok) throw new Error(`Cohorts fetch failed: ${res.status}`);
+        const json = await res.json();
+        if (alive) setReport(json.data ?? null);
+      })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, [grain]);
+
+  const rows = useMemo(
+    () => (report?.rows ?? []).filter((r) => r.source_group === group),
+    [report, group],
+  );
+
+  const description = 'Share of each submission cohort that paid within 7, 14, 30 and 60 days, by source group. Blank cells are cohorts too young to have reached that day.';
+
+  if (loading) {
+    return (
+      <DashboardSection title="Quote Cohorts" description={description} index={index}>
+        <SkeletonCard height={360} lines={0} />
+      </DashboardSection>
+    );
+  }
+
+  if (error || !report) {
+    return (
+      <DashboardSection title="Quote Cohorts" description={description} index={index}>
+        <EmptyStateCard message={error ? 'Unable to load quote cohorts.' : 'Quote data is not available yet.'} />
+      </DashboardSection>
+    );
+  }
+
+  const thStyle: React.CSSProperties = {
+    textAlign: 'right',
+    padding: `${space['2']} ${space['3']}`,
+    color: tc.text.muted,
+    fontWeight: fontWeight.medium,
+    borderBottom: `1px solid ${tc.border.default}`,
+  };
+  const tdStyle: React.CSSProperties = {
+    textAlign: 'right',
+    padding: `${space['2']} ${space['3']}`,
+    color: tc.text.primary,
+    borderBottom: `1px solid ${tc.border.subtle}`,
+  };
+
+  return (
+    <DashboardSection title="Quote Cohorts" description={description} index={index}>
+      <div
+        style={{ backgroundColor: tc.background.surface, border: `1px solid ${tc.border.default}`, borderRadius: radius.xl, padding: space['5'] }}
+        data-testid="panel-quote-cohorts"
+      >
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: space['3'], justifyContent: 'space-between', marginBottom: space['4'] }}>
+          <div style={{ display: 'inline-flex', backgroundColor: tc.background.muted, borderRadius: radius.full, padding: space['0.5'], gap: space['0.5'] }}>
+            {(['week', 'month'] as CohortGrain[]).map((g) => (
+              <button key={g} onClick={() => setGrain(g)} style={pillStyle(grain === g, tc)} data-testid={`cohort-grain-${g}`}>
+                {g === 'week' ? 'Weekly' : 'Monthly'}
+              </button>
+            ))}
+          </div>
+          <div style={{ display: 'inline-flex', backgroundColor: tc.background.muted, borderRadius: radius.full, padding: space['0.5'], gap: space['0.5'] }}>
+            {(Object.keys(RATE_LABELS) as CohortRate[]).map((r) => (
+              <button key={r} onClick={() => setRate(r)} style={pillStyle(rate === r, tc)} data-testid={`cohort-rate-${r}`}>
+                {RATE_LABELS[r]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={group}
+            onChange={(e) => setGroup(e.target.value as QuoteCohortRow['source_group'])}
+            style={{
+              padding: `${space['1.5']} ${space['3']}`,
+              fontFamily: fontFamily.body,
+              fontSize: fontSize.sm,
+              color: tc.text.primary,
+              backgroundColor: tc.background.surface,
+              border: `1px solid ${tc.border.default}`,
+              borderRadius: radius.md,
+            }}
+            data-testid="cohort-source-group"
+          >
+            <option value={ALL_SOURCE_GROUPS}>All sources</option>
+            {report.source_groups.map((g: AttributionChannel) => (
+              <option key={g} value={g}>{ATTRIBUTION_CHANNEL_LABELS[g]}</option>
+            ))}
+          </select>
+        </div>
+
+        <HeatmapChart
+          columns={report.milestone_days.map((d) => `Day ${d}`)}
+          rows={rows.map((r) => ({
+            label: cohortLabel(r.cohort_start, report.grain),
+            sublabel: `n=${r.quotes}`,
+            values: r.milestones.map((m) => m[rate]),
+          }))}
+          formatValue={(v) => formatPercent(v, 0)}
+        />
+
+        {rows.length > 0 && (
+          <div style={{ overflowX: 'auto', marginTop: space['5'] }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontFamily: fontFamily.body, fontSize: fontSize.sm }}>
+              <thead>
+                <tr>
+                  <th style={{ ...thStyle, textAlign: 'left' }}>Cohort ({groupLabel(group)})</th>
+                  <th style={thStyle}>Quotes</th>
+                  <th style={thStyle}>Quoted Value</th>
+                  <th style={thStyle}>Deposit Paid</th>
+                  <th style={thStyle}>Quote Paid</th>
+                  <th style={thStyle}>Paid Revenue</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.cohort_start} data-testid={`cohort-row-${r.cohort_start}`}>
+                    <td style={{ ...tdStyle, textAlign: 'left' }}>{cohortLabel(r.cohort_start, report.grain)}</td>
+                    <td style={tdStyle}>{formatNumber(r.quotes)}</td>
+                    <td style={tdStyle}>{formatCurrency(r.quoted_value_usd)}</td>
+                    <td style={tdStyle}>{formatNumber(r.deposit_paid_quotes)}</td>
+                    <td style={tdStyle}>{formatNumber(r.quote_paid_quotes)}</td>
+                    <td style={tdStyle}>{formatCurrency(r.paid_revenue_usd)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </DashboardSection>
+  );
+}
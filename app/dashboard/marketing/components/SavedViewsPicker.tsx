@@ -0,0 +1,240 @@
+'use client';
+
+// =============================================================================
+// Saved views picker.
+// Lists the caller's saved marketing views and their team's shared views
+// (/api/activity-spine/marketing/saved-views), applies one on select, saves
+// the current period / filters / comparison / sub-page under a name, and
+// copies a short share link (/dashboard/views/:slug). The layout applies the
+// caller's default view when the dashboard is opened without URL state.
+// =============================================================================
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { indigo, violet } from '../../../../design/tokens/colors';
+import { fontFamily, fontSize, fontWeight } from '../../../../design/tokens/typography';
+import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  updateSavedView,
+} from '../../../../lib/marketingApi';
+import { sharePath } from '../../../../lib/marketing-saved-views';
+import type { MarketingSavedView, MarketingSavedViewState } from '../../../../types/activity-spine';
+
+interface Props {
+  /** The dashboard state "Save view" stores. */
+  current: MarketingSavedViewState;
+  onApply: (view: MarketingSavedView) => void;
+  /** Called once, after the first load, with the caller's default view. */
+  onDefaultView?: (view: MarketingSavedView) => void;
+}
+
+export function SavedViewsPicker({ current, onApply, onDefaultView }: Props) {
+  const tc = useThemeColors();
+  const [views, setViews] = useState<MarketingSavedView[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formOpen, setFormOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [shareWithTeam, setShareWithTeam] = useState(false);
+  const [makeDefault, setMakeDefault] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const defaultHandled = useRef(false);
+  const onDefaultViewRef = useRef(onDefaultView);
+  onDefaultViewRef.current = onDefaultView;
+
+  const reload = useCallback(async () => {
+    const next = await listSavedViews();
+    setViews(next);
+    return next;
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    reload()
+      .then((loaded) => {
+        if (!alive || defaultHandled.current) return;
+        defaultHandled.current = true;
+        const def = loaded.find((v) => v.is_default);
+        if (def) {
+          setSelectedId(def.id);
+          onDefaultViewRef.current?.(def);
+        }
+      })
+      .catch(() => { if (alive) setMessage('Saved views unavailable'); });
+    return () => { alive = false; };
+  }, [reload]);
+
+  const selected = views.find((v) => v.id === selectedId) ?? null;
+  const mine = views.filter((v) => v.scope === 'user');
+  const team = views.filter((v) => v.scope === 'team');
+
+  const run = async (action: () => Promise<string | null>) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      setMessage(await action());
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveNew = () => run(async () => {
+    const created = await createSavedView({
+      name: name.trim(),
+      scope: shareWithTeam ? 'team' : 'user',
+      state: current,
+      is_default: makeDefault,
+    });
+    await reload();
+    setSelectedId(created.id);
+    setFormOpen(false);
+    setName('');
+    setShareWithTeam(false);
+    setMakeDefault(false);
+    return `Saved "${created.name}"`;
+  });
+
+  const overwrite = () => run(async () => {
+    if (!selected) return null;
+    await updateSavedView(selected.id, { state: current });
+    await reload();
+    return `Updated "${selected.name}"`;
+  });
+
+  const toggleDefault = () => run(async () => {
+    if (!selected) return null;
+    await updateSavedView(selected.id, { is_default: !selected.is_default });
+    await reload();
+    return selected.is_default ? 'Default view cleared' : `"${selected.name}" is now your default`;
+  });
+
+  const remove = () => run(async () => {
+    if (!selected || !window.confirm(`Delete the saved view "${selected.name}"?`)) return null;
+    await deleteSavedView(selected.id);
+    setSelectedId('');
+    await reload();
+    return `Deleted "${selected.name}"`;
+  });
+
+  const copyLink = () => run(async () => {
+    if (!selected) return null;
+    const url = `${window.location.origin}${sharePath(selected.share_slug)}`;
+    await navigator.clipboard.writeText(url);
+    return `Link copied: ${url}`;
+  });
+
+  const controlStyle: React.CSSProperties = {
+    padding: `${space['1']} ${space['3']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.secondary,
+    backgroundColor: tc.background.muted,
+    border: `1px solid ${tc.border.default}`,
+    borderRadius: radius.md,
+    cursor: 'pointer',
+    outline: 'none',
+    transition: `all ${duration.normal} ${easing.DEFAULT}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const primaryStyle: React.CSSProperties = {
+    ...controlStyle,
+    backgroundColor: indigo[950],
+    borderColor: indigo[950],
+    color: '#fff',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: space['1'],
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.secondary,
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: space['2'], flexWrap: 'wrap' }} data-testid="saved-views-picker">
+      <select
+        value={selectedId}
+        onChange={(e) => {
+          const view = views.find((v) => v.id === e.target.value);
+          setSelectedId(e.target.value);
+          setMessage(null);
+          if (view) onApply(view);
+        }}
+        style={controlStyle}
+        data-testid="select-saved-view"
+      >
+        <option value="">Saved views</option>
+        {mine.length > 0 && (
+          <optgroup label="My views">
+            {mine.map((v) => <option key={v.id} value={v.id}>{v.is_default ? `${v.name} (default)` : v.name}</option>)}
+          </optgroup>
+        )}
+        {team.length > 0 && (
+          <optgroup label="Team views">
+            {team.map((v) => <option key={v.id} value={v.id}>{v.is_default ? `${v.name} (default)` : v.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+
+      {selected && (
+        <>
+          <button onClick={copyLink} disabled={saving} style={controlStyle} data-testid="button-copy-view-link">Copy link</button>
+          <button
+            onClick={toggleDefault}
+            disabled={saving}
+            style={selected.is_default ? { ...controlStyle, backgroundColor: violet[50], color: violet[700], borderColor: violet[200] } : controlStyle}
+            data-testid="button-default-view"
+          >
+            {selected.is_default ? 'Default' : 'Set default'}
+          </button>
+          {selected.is_owner && (
+            <>
+              <button onClick={overwrite} disabled={saving} style={controlStyle} data-testid="button-update-view">Update</button>
+              <button onClick={remove} disabled={saving} style={controlStyle} data-testid="button-delete-view">Delete</button>
+            </>
+          )}
+        </>
+      )}
+
+      {formOpen ? (
+        <>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            maxLength={120}
+            style={{ ...controlStyle, cursor: 'text', backgroundColor: tc.background.surface, color: tc.text.primary }}
+            data-testid="input-saved-view-name"
+          />
+          <label style={labelStyle}>
+            <input type="checkbox" checked={shareWithTeam} onChange={(e) => setShareWithTeam(e.target.checked)} data-testid="checkbox-saved-view-team" />
+            Share with team
+          </label>
+          <label style={labelStyle}>
+            <input type="checkbox" checked={makeDefault} onChange={(e) => setMakeDefault(e.target.checked)} data-testid="checkbox-saved-view-default" />
+            My default
+          </label>
+          <button onClick={saveNew} disabled={saving || !name.trim()} style={primaryStyle} data-testid="button-save-view-confirm">Save</button>
+          <button onClick={() => setFormOpen(false)} disabled={saving} style={controlStyle} data-testid="button-save-view-cancel">Cancel</button>
+        </>
+      ) : (
+        <button onClick={() => { setFormOpen(true); setMessage(null); }} style={controlStyle} data-testid="button-save-view">Save view</button>
+      )}
+
+      {message && (
+        <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }} data-testid="text-saved-view-message">
+          {message}
+        </span>
+      )}
+    </div>
+  );
+}
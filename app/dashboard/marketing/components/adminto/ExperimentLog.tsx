@@ -4,6 +4,8 @@ import { useState, useCallback } from 'react';
 import { useThemeColors } from '../../../../../hooks/useThemeColors';
 import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../../design/tokens/typography';
 import { space, radius, duration } from '../../../../../design/tokens/spacing';
+import { EXPERIMENT_METRICS } from '../../../../../lib/marketing-experiments';
+import type { MarketingExperimentMetric } from '../../../../../types/activity-spine';
 
 export interface Experiment {
   id: string;
@@ -11,18 +13,36 @@ export interface Experiment {
   engine: string;
   hypothesis: string;
   changeMade: string;
+  targetMetric: MarketingExperimentMetric;
   startDate: string;
   endDate?: string;
-  resultLift?: number;
   decision: 'keep' | 'revert' | 'iterate' | 'pending';
   notes?: string;
+  owner?: string;
+  /** Measured server-side; read-only in the log. */
+  resultLift?: number;
+  baselineValue?: number;
+  experimentValue?: number;
+  measuredEnd?: string;
+  measuredAt?: string;
+  measurementError?: string;
+  updatedBy?: string;
+  updatedAt?: string;
 }
 
+/** The fields an operator enters; lift and audit fields come from the server. */
+export type ExperimentDraft = Pick<
+  Experiment,
+  'name' | 'engine' | 'hypothesis' | 'changeMade' | 'targetMetric' | 'startDate' | 'endDate' | 'decision' | 'notes'
+>;
+
 export interface ExperimentLogProps {
   experiments: Experiment[];
-  onAdd: (experiment: Omit<Experiment, 'id'>) => void;
-  onUpdate: (id: string, experiment: Partial<Experiment>) => void;
+  onAdd: (experiment: ExperimentDraft) => void;
+  onUpdate: (id: string, experiment: Partial<ExperimentDraft>) => void;
   onDelete: (id: string) => void;
+  /** Recompute lift for one experiment; the action is hidden when omitted. */
+  onMeasure?: (id: string) => void;
   engineOptions?: string[];
 }
 
@@ -35,34 +55,39 @@ const decisionLabels: Record<Experiment['decision'], { label: string; variant: '
 
 const defaultEngineOptions = ['SEO Summary', 'Paid Summary', 'Warm Outreach', 'Cold Outreach', 'Social Automation'];
 
+const metricLabels = new Map(EXPERIMENT_METRICS.map((m) => [m.key, m.label]));
+
+function emptyDraft(engine: string): ExperimentDraft {
+  return {
+    name: '',
+    engine,
+    hypothesis: '',
+    changeMade: '',
+    targetMetric: 'quotes',
+    startDate: new Date().toISOString().split('T')[0],
+    decision: 'pending',
+  };
+}
+
+function formatMeasured(value: number): string {
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
+
 export function ExperimentLog({
   experiments,
   onAdd,
   onUpdate,
   onDelete,
+  onMeasure,
   engineOptions = defaultEngineOptions,
 }: ExperimentLogProps) {
   const tc = useThemeColors();
   const [showForm, setShowForm] = useState(false);
   const [editId, setEditId] = useState<string | null>(null);
-  const [form, setForm] = useState<Omit<Experiment, 'id'>>({
-    name: '',
-    engine: engineOptions[0],
-    hypothesis: '',
-    changeMade: '',
-    startDate: new Date().toISOString().split('T')[0],
-    decision: 'pending',
-  });
+  const [form, setForm] = useState<ExperimentDraft>(() => emptyDraft(engineOptions[0]));
 
   const resetForm = useCallback(() => {
-    setForm({
-      name: '',
-      engine: engineOptions[0],
-      hypothesis: '',
-      changeMade: '',
-      startDate: new Date().toISOString().split('T')[0],
-      decision: 'pending',
-    });
+    setForm(emptyDraft(engineOptions[0]));
     setShowForm(false);
     setEditId(null);
   }, [engineOptions]);
@@ -79,9 +104,18 @@ export function ExperimentLog({
 
   const startEdit = useCallback(
     (exp: Experiment) => {
-      const { id, ...rest } = exp;
-      setForm(rest);
-      setEditId(id);
+      setForm({
+        name: exp.name,
+        engine: exp.engine,
+        hypothesis: exp.hypothesis,
+        changeMade: exp.changeMade,
+        targetMetric: exp.targetMetric,
+        startDate: exp.startDate,
+        endDate: exp.endDate,
+        decision: exp.decision,
+        notes: exp.notes,
+      });
+      setEditId(exp.id);
       setShowForm(true);
     },
     [],
@@ -221,20 +255,19 @@ export function ExperimentLog({
               />
             </div>
             <div>
-              <label style={{ ...labelStyle(tc), display: 'block', marginBottom: space['1'] }}>Result Lift %</label>
-              <input
-                data-testid="input-experiment-lift"
-                type="number"
+              <label style={{ ...labelStyle(tc), display: 'block', marginBottom: space['1'] }}>Target Metric</label>
+              <select
+                data-testid="select-experiment-metric"
                 style={inputStyle}
-                value={form.resultLift ?? ''}
-                onChange={(e) =>
-                  setForm((f) => ({
-                    ...f,
-                    resultLift: e.target.value ? Number(e.target.value) : undefined,
-                  }))
-                }
-                placeholder="e.g. 12.5"
-              />
+                value={form.targetMetric}
+                onChange={(e) => setForm((f) => ({ ...f, targetMetric: e.target.value as MarketingExperimentMetric }))}
+              >
+                {EXPERIMENT_METRICS.map((m) => (
+                  <option key={m.key} value={m.key}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
             </div>
             <div>
               <label style={{ ...labelStyle(tc), display: 'block', marginBottom: space['1'] }}>Decision</label>
@@ -379,6 +412,12 @@ export function ExperimentLog({
                   >
                     <td style={cellStyle(tc)}>
                       <div style={{ fontWeight: fontWeight.medium }}>{exp.name}</div>
+                      {exp.owner && (
+                        <div style={{ fontSize: fontSize.sm, color: tc.text.muted, marginTop: space['0.5'] }}>
+                          Owner: {exp.owner}
+                          {exp.updatedBy && exp.updatedBy !== exp.owner ? ` \u00b7 last edited by ${exp.updatedBy}` : ''}
+                        </div>
+                      )}
                       {exp.hypothesis && (
                         <div
                           style={{
@@ -400,6 +439,7 @@ export function ExperimentLog({
                     <td style={cellStyle(tc)}>
                       {exp.resultLift != null ? (
                         <span
+                          data-testid={`text-experiment-lift-${exp.id}`}
                           style={{
                             color: exp.resultLift >= 0 ? tc.semantic.success.dark : tc.semantic.danger.dark,
                             fontWeight: fontWeight.medium,
@@ -411,6 +451,21 @@ export function ExperimentLog({
                       ) : (
                         <span style={{ color: tc.text.muted }}>&mdash;</span>
                       )}
+                      <div style={{ fontSize: fontSize.sm, color: tc.text.muted, marginTop: space['0.5'] }}>
+                        {metricLabels.get(exp.targetMetric) ?? exp.targetMetric}
+                        {exp.baselineValue != null && exp.experimentValue != null &&
+                          `: ${formatMeasured(exp.baselineValue)} \u2192 ${formatMeasured(exp.experimentValue)}`}
+                      </div>
+                      {exp.measurementError && (
+                        <div style={{ fontSize: fontSize.sm, color: tc.semantic.warning.dark, marginTop: space['0.5'] }}>
+                          {exp.measurementError}
+                        </div>
+                      )}
+                      {exp.measuredEnd && (
+                        <div style={{ fontSize: fontSize.sm, color: tc.text.muted, marginTop: space['0.5'] }}>
+                          Through {exp.measuredEnd}
+                        </div>
+                      )}
                     </td>
                     <td style={cellStyle(tc)}>
                       <span
@@ -437,6 +492,15 @@ export function ExperimentLog({
                         >
                           Edit
                         </button>
+                        {onMeasure && (
+                          <button
+                            data-testid={`button-measure-experiment-${exp.id}`}
+                            onClick={() => onMeasure(exp.id)}
+                            style={actionBtnStyle(tc)}
+                          >
+                            Re-measure
+                          </button>
+                        )}
                         <button
                           data-testid={`button-delete-experiment-${exp.id}`}
                           onClick={() => onDelete(exp.id)}
@@ -14,7 +14,7 @@ export { ForecastCalculator } from './ForecastCalculator';
 export type { ForecastCalculatorProps, ForecastInput, ForecastOutput } from './ForecastCalculator';
 
 export { ExperimentLog } from './ExperimentLog';
-export type { ExperimentLogProps, Experiment } from './ExperimentLog';
+export type { ExperimentLogProps, Experiment, ExperimentDraft } from './ExperimentLog';
 
 export { PacingChart } from './PacingChart';
 export type { PacingChartProps, PacingDataPoint } from './PacingChart';
@@ -11,56 +11,13 @@ import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design
 import { space, radius } from '../../../../design/tokens/spacing';
 import { MarketingContext } from '../lib/MarketingContext';
 import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
-import type { ExportSection } from '../../../../lib/exportUtils';
-
-function fmt(n: number | undefined, prefix = '') {
-  if (n === undefined || !isFinite(n) || isNaN(n)) return '—';
-  return prefix + n.toLocaleString(undefined, { maximumFractionDigits: 1 });
-}
-
-function fmtCurrency(n: number | undefined) {
-  if (n === undefined || !isFinite(n) || isNaN(n)) return '—';
-  return '$' + n.toLocaleString(undefined, { maximumFractionDigits: 0 });
-}
-
-function fmtPct(n: number | undefined) {
-  if (n === undefined || !isFinite(n) || isNaN(n)) return '—';
-  return n.toFixed(1) + '%';
-}
+import { NA, core4EngineRows, core4Sections } from '../../../../lib/marketing-report-sections';
+import type { ColdOutreachSummary } from '../../../../lib/marketing-report-sections';
 
 const COLUMNS = ['Engine', 'Sessions', 'Clicks', 'Quotes', 'Quote Rate', 'Pipeline', 'Spend', 'CAC/CPA', 'ROAS/MER'];
 
-const NA = '—';
-// D-17: cells with no governed source render an em dash, never a fabricated zero.
 const NA_TOOLTIP = 'No governed source wired for this metric';
 
-interface EngineRow {
-  name: string;
-  href: string;
-  subLabel?: string;
-  sessions: string;
-  clicks: string;
-  quotes: string;
-  quoteRate: string;
-  pipeline: string;
-  spend: string;
-  cac: string;
-  roas: string;
-}
-
-interface ColdOutreachSummary {
-  emailsSent: number;
-  replyRate: number;
-  leadsPushed: number;
-}
-
-const EMPTY_ROWS: EngineRow[] = [
-  { name: 'Warm Outreach', href: '/dashboard/marketing/warm-outreach', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
-  { name: 'Cold Outreach', href: '/dashboard/marketing/cold-outreach', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
-  { name: 'SEO Summary', href: '/dashboard/marketing/seo', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
-  { name: 'Paid Summary', href: '/dashboard/marketing/paid-ads', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
-];
-
 export default function Core4OverviewPage() {
   const tc = useThemeColors();
   const { data, loading } = useContext(MarketingContext);
@@ -81,75 +38,9 @@ export default function Core4OverviewPage() {
     return () => controller.abort();
   }, []);
 
-  const engines: EngineRow[] = useMemo(() => {
-    const core4 = data?.core4_summary;
-
-    const coldSubLabel = coldSummary
-      ? `Sales Engine · last 30d: ${coldSummary.emailsSent.toLocaleString()} emails sent · ${(coldSummary.replyRate * 100).toFixed(1)}% reply · ${coldSummary.leadsPushed.toLocaleString()} leads pushed`
-      : 'No governed session/quote source wired — engine metrics live on the Cold Outreach page';
-
-    if (!core4) {
-      return EMPTY_ROWS.map((row) => (row.name === 'Cold Outreach' ? { ...row, subLabel: coldSubLabel } : row));
-    }
-
-    const map: { key: keyof typeof core4; name: string; href: string }[] = [
-      { key: 'warm_outreach', name: 'Warm Outreach', href: '/dashboard/marketing/warm-outreach' },
-      { key: 'post_free_content', name: 'SEO Summary', href: '/dashboard/marketing/seo' },
-      { key: 'run_paid_ads', name: 'Paid Summary', href: '/dashboard/marketing/paid-ads' },
-    ];
-
-    const rows = map.map(({ key, name, href }) => {
-      const c = core4[key]?.current;
-      const hasSpend = (c?.spend ?? 0) > 0;
-      return {
-        name,
-        href,
-        sessions: fmt(c?.sessions),
-        clicks: fmt(c?.clicks),
-        quotes: fmt(c?.quotes),
-        quoteRate: c != null ? fmtPct(c.quote_rate * 100) : NA,
-        pipeline: fmtCurrency(c?.pipeline_value_usd),
-        spend: fmtCurrency(c?.spend),
-        // D-17: CAC/ROAS only exist where spend exists. $0-spend engines get an
-        // em dash, not a fabricated 0.
-        cac: hasSpend && c ? fmtCurrency(c.cac) : NA,
-        roas: hasSpend && c ? `${fmt(c.roas)}x` : NA,
-      };
-    });
-
-    // Cold outreach: the overview API has no governed source for this engine
-    // (sessions/quotes/pipeline were hardcoded zeros) — render em dashes plus
-    // the live Sales Engine summary as a sub-label.
-    const coldRow: EngineRow = {
-      name: 'Cold Outreach',
-      href: '/dashboard/marketing/cold-outreach',
-      subLabel: coldSubLabel,
-      sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA,
-    };
-
-    return [rows[0], coldRow, rows[1], rows[2]];
-  }, [data, coldSummary]);
+  const engines = useMemo(() => core4EngineRows(data?.core4_summary, coldSummary), [data, coldSummary]);
 
-  const exportSections: ExportSection[] = useMemo(() => {
-    return [
-      {
-        type: 'table' as const,
-        title: 'Core 4 Engine Comparison',
-        columns: [
-          { key: 'name', label: 'Engine' },
-          { key: 'sessions', label: 'Sessions' },
-          { key: 'clicks', label: 'Clicks' },
-          { key: 'quotes', label: 'Quotes' },
-          { key: 'quoteRate', label: 'Quote Rate' },
-          { key: 'pipeline', label: 'Pipeline' },
-          { key: 'spend', label: 'Spend' },
-          { key: 'cac', label: 'CAC/CPA' },
-          { key: 'roas', label: 'ROAS/MER' },
-        ],
-        rows: engines.map(({ href, ...rest }) => rest),
-      },
-    ];
-  }, [engines]);
+  const exportSections = useMemo(() => core4Sections(engines), [engines]);
 
   const thStyle: React.CSSProperties = {
     padding: `${space['3']} ${space['4']}`,
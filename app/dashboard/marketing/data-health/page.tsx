@@ -1,25 +1,55 @@
 'use client';
 
-import React, { useContext, useMemo } from 'react';
+import React, { useContext, useEffect, useMemo, useState } from 'react';
 import Link from 'next/link';
 import { DashboardGuard } from '../../../../hooks/useRBAC';
 import { AccessDenied, DashboardCard } from '../../../../components/dashboard';
 import { PageExportBar } from '../../../../components/dashboard/PageExportBar';
 import { MarketingPipelineHealthPanel } from '../components/MarketingPipelineHealthPanel';
+import { MarketingIngestRejectsPanel } from '../components/MarketingIngestRejectsPanel';
+import { MarketingIngestionRunsPanel } from '../components/MarketingIngestionRunsPanel';
+import { MetricContractHealthPanel } from '../../seo/components/MetricContractHealthPanel';
 import { useThemeColors } from '../../../../hooks/useThemeColors';
 import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design/tokens/typography';
 import { space } from '../../../../design/tokens/spacing';
 import { MarketingContext } from '../lib/MarketingContext';
 import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
 import type { ExportSection } from '../../../../lib/exportUtils';
+import { getSeoMetricContractHealth } from '../../../../lib/seoApi';
+import type { SeoMetricContractHealth } from '../../../../lib/seoApi';
 
 export default function DataHealthPage() {
   const tc = useThemeColors();
   const { data, loading, error } = useContext(MarketingContext);
+  const [contracts, setContracts] = useState<SeoMetricContractHealth | null>(null);
+  const [contractsError, setContractsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    getSeoMetricContractHealth()
+      .then((health) => { if (alive) setContracts(health); })
+      .catch((err) => { if (alive) setContractsError(err instanceof Error ? err.message : 'Failed to load'); });
+    return () => { alive = false; };
+  }, []);
 
   const exportSections = useMemo<ExportSection[]>(() => {
-    if (!data) return [];
     const sections: ExportSection[] = [];
+    if (contracts?.rows.length) {
+      sections.push({
+        type: 'table',
+        title: 'Metric Contract Health',
+        columns: [
+          { key: 'metric_key', label: 'Metric' },
+          { key: 'status', label: 'Status' },
+          { key: 'authoritative_value', label: 'Authoritative' },
+          { key: 'served_value', label: 'Served' },
+          { key: 'drift_abs', label: 'Drift' },
+          { key: 'checked_at', label: 'Checked' },
+        ],
+        rows: contracts.rows.map(r => ({ ...r, status: r.status ?? 'unchecked' })),
+      });
+    }
+    if (!data) return sections;
 
     if (data.pipeline_health?.length) {
       // D-20: these are integrity-check rows (source = check title, last_success
@@ -37,7 +67,7 @@ export default function DataHealthPage() {
     }
 
     return sections;
-  }, [data]);
+  }, [data, contracts]);
 
   return (
     <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
@@ -59,7 +89,7 @@ export default function DataHealthPage() {
               Attribution & Data Health
             </h1>
             <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
-              Business-rule integrity checks on the SEO/marketing data loop, plus the genuine source-freshness checks.
+              Business-rule integrity checks on the SEO/marketing data loop, plus sync run history and per-source freshness.
             </p>
           </div>
           <PageExportBar
@@ -82,6 +112,17 @@ export default function DataHealthPage() {
           loading={loading}
           error={error}
         />
+
+        <MetricContractHealthPanel
+          tc={tc}
+          health={contracts}
+          error={contractsError}
+          description="Marketing and SEO Command Center numbers checked daily against their authoritative query. Drift means the two surfaces disagree on the same metric."
+        />
+
+        <MarketingIngestionRunsPanel />
+
+        <MarketingIngestRejectsPanel />
       </div>
     </DashboardGuard>
   );
@@ -1,121 +1,183 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import Link from 'next/link';
 import { DashboardGuard } from '../../../../hooks/useRBAC';
-import { AccessDenied } from '../../../../components/dashboard';
+import { AccessDenied, SkeletonCard } from '../../../../components/dashboard';
 import { DashboardSection } from '../../../../components/dashboard/DashboardSection';
 import { useThemeColors } from '../../../../hooks/useThemeColors';
 import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design/tokens/typography';
 import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
 import { indigo } from '../../../../design/tokens/colors';
 import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
+import { ExperimentLog, type Experiment, type ExperimentDraft } from '../components/adminto';
+import {
+  createExperiment,
+  deleteExperiment,
+  listExperiments,
+  measureExperiment,
+  updateExperiment,
+  type MarketingExperimentInput,
+} from '../../../../lib/marketingApi';
+import { EXPERIMENT_ENGINES } from '../../../../lib/marketing-experiments';
+import type { MarketingExperiment } from '../../../../types/activity-spine';
 
-interface Experiment {
-  id: string;
-  name: string;
-  engine: string;
-  hypothesis: string;
-  change: string;
-  startDate: string;
-  endDate: string;
-  result: string;
-  decision: string;
-  notes: string;
-}
+/** Experiments saved by the previous, browser-only version of this page. */
+const LEGACY_STORAGE_KEY = 'nsd-marketing-experiments';
 
-const STORAGE_KEY = 'nsd-marketing-experiments';
-const ENGINES = ['SEO Summary', 'Paid Summary', 'Warm Outreach', 'Cold Outreach', 'Social Automation'];
-const DECISIONS = ['keep', 'revert', 'iterate', 'pending'];
+interface LegacyExperiment {
+  name?: string;
+  engine?: string;
+  hypothesis?: string;
+  change?: string;
+  startDate?: string;
+  endDate?: string;
+  result?: string;
+  decision?: string;
+  notes?: string;
+}
 
-function loadExperiments(): Experiment[] {
+function loadLegacyExperiments(): LegacyExperiment[] {
   if (typeof window === 'undefined') return [];
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    return raw ? JSON.parse(raw) : [];
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
   } catch { return []; }
 }
 
-function saveExperiments(experiments: Experiment[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(experiments));
+function fromLegacy(exp: LegacyExperiment): MarketingExperimentInput {
+  const notes = [exp.notes, exp.result ? `Recorded result (manual): ${exp.result}` : '']
+    .filter(Boolean)
+    .join('\n');
+  return {
+    name: exp.name || 'Untitled experiment',
+    engine: EXPERIMENT_ENGINES.some((e) => e.label === exp.engine) ? (exp.engine as string) : 'SEO Summary',
+    target_metric: 'quotes',
+    hypothesis: exp.hypothesis ?? '',
+    change_made: exp.change ?? '',
+    start_date: exp.startDate ?? '',
+    end_date: exp.endDate || null,
+    decision: (['keep', 'revert', 'iterate', 'pending'].includes(exp.decision ?? '') ? exp.decision : 'pending') as MarketingExperimentInput['decision'],
+    notes: notes || null,
+  };
 }
 
-function makeId() {
-  return Date.now().toString(36) + Math.random().toString(36).slice(2, 7);
+function toLogEntry(exp: MarketingExperiment): Experiment {
+  return {
+    id: exp.id,
+    name: exp.name,
+    engine: exp.engine,
+    hypothesis: exp.hypothesis,
+    changeMade: exp.change_made,
+    targetMetric: exp.target_metric,
+    startDate: exp.start_date,
+    endDate: exp.end_date ?? undefined,
+    decision: exp.decision,
+    notes: exp.notes ?? undefined,
+    owner: exp.owner,
+    resultLift: exp.result_lift ?? undefined,
+    baselineValue: exp.baseline_value ?? undefined,
+    experimentValue: exp.experiment_value ?? undefined,
+    measuredEnd: exp.measured_end ?? undefined,
+    measuredAt: exp.measured_at ?? undefined,
+    measurementError: exp.measurement_error ?? undefined,
+    updatedBy: exp.updated_by,
+    updatedAt: exp.updated_at,
+  };
 }
 
-const EMPTY: Experiment = {
-  id: '', name: '', engine: 'Warm Outreach', hypothesis: '', change: '',
-  startDate: '', endDate: '', result: '', decision: 'pending', notes: '',
-};
+function toInput(draft: Partial<ExperimentDraft>): Partial<MarketingExperimentInput> {
+  const out: Partial<MarketingExperimentInput> = {};
+  if (draft.name !== undefined) out.name = draft.name;
+  if (draft.engine !== undefined) out.engine = draft.engine;
+  if (draft.targetMetric !== undefined) out.target_metric = draft.targetMetric;
+  if (draft.hypothesis !== undefined) out.hypothesis = draft.hypothesis;
+  if (draft.changeMade !== undefined) out.change_made = draft.changeMade;
+  if (draft.startDate !== undefined) out.start_date = draft.startDate;
+  if ('endDate' in draft) out.end_date = draft.endDate || null;
+  if (draft.decision !== undefined) out.decision = draft.decision;
+  if ('notes' in draft) out.notes = draft.notes || null;
+  return out;
+}
 
 export default function ExperimentsPage() {
   const tc = useThemeColors();
-  const [experiments, setExperiments] = useState<Experiment[]>([]);
-  const [editing, setEditing] = useState<Experiment | null>(null);
-  const [showForm, setShowForm] = useState(false);
+  const [experiments, setExperiments] = useState<MarketingExperiment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [legacy, setLegacy] = useState<LegacyExperiment[]>([]);
+  const [importing, setImporting] = useState(false);
 
-  useEffect(() => { setExperiments(loadExperiments()); }, []);
+  useEffect(() => {
+    let alive = true;
+    setLegacy(loadLegacyExperiments());
+    listExperiments()
+      .then((list) => { if (alive) setExperiments(list); })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Unknown error'); })
+      .finally(() => { if (alive) setLoading(false); });
+    return () => { alive = false; };
+  }, []);
 
-  const save = useCallback((list: Experiment[]) => {
-    setExperiments(list);
-    saveExperiments(list);
+  const replace = useCallback((exp: MarketingExperiment) => {
+    setExperiments((list) => list.map((e) => (e.id === exp.id ? exp : e)));
   }, []);
 
-  const handleSave = () => {
-    if (!editing) return;
-    if (editing.id) {
-      save(experiments.map((e) => (e.id === editing.id ? editing : e)));
-    } else {
-      save([...experiments, { ...editing, id: makeId() }]);
+  const run = useCallback(async (fn: () => Promise<void>) => {
+    setError(null);
+    try {
+      await fn();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
     }
-    setEditing(null);
-    setShowForm(false);
-  };
+  }, []);
 
-  const handleDelete = (id: string) => {
-    save(experiments.filter((e) => e.id !== id));
-  };
+  const handleAdd = useCallback((draft: ExperimentDraft) => run(async () => {
+    const created = await createExperiment(toInput(draft) as MarketingExperimentInput);
+    setExperiments((list) => [created, ...list]);
+  }), [run]);
 
-  const inputStyle: React.CSSProperties = {
-    width: '100%',
-    padding: `${space['2']} ${space['3']}`,
-    fontFamily: fontFamily.body,
-    fontSize: fontSize.sm,
-    border: `1px solid ${tc.border.default}`,
-    borderRadius: radius.md,
-    color: tc.text.primary,
-    backgroundColor: tc.background.surface,
-    outline: 'none',
-  };
+  // Only changed fields are sent, so a decision or notes edit does not trigger a re-measure.
+  const handleUpdate = useCallback((id: string, draft: Partial<ExperimentDraft>) => run(async () => {
+    const current = experiments.find((e) => e.id === id);
+    const patch = toInput(draft);
+    const changed = Object.fromEntries(
+      Object.entries(patch).filter(([k, v]) => !current || current[k as keyof MarketingExperiment] !== v),
+    ) as Partial<MarketingExperimentInput>;
+    if (Object.keys(changed).length === 0) return;
+    replace(await updateExperiment(id, changed));
+  }), [experiments, replace, run]);
 
-  const labelStyle: React.CSSProperties = {
-    display: 'block',
-    fontFamily: fontFamily.body,
-    fontSize: fontSize.sm,
-    fontWeight: fontWeight.medium,
-    color: tc.text.muted,
-    marginBottom: space['1'],
-  };
+  const handleDelete = useCallback((id: string) => run(async () => {
+    await deleteExperiment(id);
+    setExperiments((list) => list.filter((e) => e.id !== id));
+  }), [run]);
 
-  const thStyle: React.CSSProperties = {
-    padding: `${space['3']} ${space['3']}`,
-    fontFamily: fontFamily.body,
-    fontSize: fontSize.sm,
-    fontWeight: fontWeight.medium,
-    color: tc.text.muted,
-    textAlign: 'left' as const,
-    borderBottom: `1px solid ${tc.border.default}`,
-    whiteSpace: 'nowrap' as const,
-  };
+  const handleMeasure = useCallback((id: string) => run(async () => {
+    replace(await measureExperiment(id));
+  }), [replace, run]);
 
-  const tdStyle: React.CSSProperties = {
-    padding: `${space['2.5']} ${space['3']}`,
-    fontFamily: fontFamily.body,
-    fontSize: fontSize.sm,
-    color: tc.text.secondary,
-    borderBottom: `1px solid ${tc.border.subtle}`,
-  };
+  const handleImport = useCallback(async () => {
+    setImporting(true);
+    setError(null);
+    const failed: LegacyExperiment[] = [];
+    const created: MarketingExperiment[] = [];
+    for (const exp of legacy) {
+      try {
+        created.push(await createExperiment(fromLegacy(exp)));
+      } catch {
+        failed.push(exp);
+      }
+    }
+    if (failed.length > 0) {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(failed));
+      setError(`${failed.length} experiment${failed.length !== 1 ? 's' : ''} could not be imported (a start date is required).`);
+    } else {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+    setLegacy(failed);
+    setExperiments((list) => [...created, ...list].sort((a, b) => b.start_date.localeCompare(a.start_date)));
+    setImporting(false);
+  }, [legacy]);
 
   const btnStyle: React.CSSProperties = {
     padding: `${space['1.5']} ${space['4']}`,
@@ -128,160 +190,77 @@ export default function ExperimentsPage() {
     transition: `all ${duration.normal} ${easing.DEFAULT}`,
   };
 
+  const bannerStyle = (bg: string, color: string): React.CSSProperties => ({
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: space['3'],
+    marginBottom: space['4'],
+    padding: `${space['3']} ${space['4']}`,
+    borderRadius: radius.lg,
+    backgroundColor: bg,
+    color,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+  });
+
   return (
     <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
       <div style={{ maxWidth: 1400, margin: '0 auto', padding: `${space['6']} ${space['4']}` }}>
         <DrilldownBreadcrumb items={[{label:'Marketing', href:'/dashboard/marketing'}, {label:'System'}, {label:'Experiments'}]} />
-        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: space['3'], marginBottom: space['6'] }}>
-          <div>
-            <h1
-              style={{
-                fontFamily: fontFamily.display,
-                fontSize: fontSize['3xl'],
-                fontWeight: fontWeight.semibold,
-                color: tc.text.primary,
-                marginBottom: space['1'],
-                lineHeight: lineHeight.snug,
-              }}
-              data-testid="text-page-title"
-            >
-              Experiments & Learnings
-            </h1>
-            <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
-              Track marketing experiments across all Core 4 engines.
-            </p>
-          </div>
-          <button
-            onClick={() => { setEditing({ ...EMPTY }); setShowForm(true); }}
-            style={{ ...btnStyle, backgroundColor: indigo[950], color: '#fff' }}
-            data-testid="button-add-experiment"
-          >
-            + Add Experiment
-          </button>
-        </div>
-
-        {showForm && editing && (
-          <div
+        <div style={{ marginBottom: space['6'] }}>
+          <h1
             style={{
-              marginBottom: space['6'],
-              padding: space['6'],
-              border: `1px solid ${tc.border.default}`,
-              borderRadius: radius.lg,
-              backgroundColor: tc.background.surface,
+              fontFamily: fontFamily.display,
+              fontSize: fontSize['3xl'],
+              fontWeight: fontWeight.semibold,
+              color: tc.text.primary,
+              marginBottom: space['1'],
+              lineHeight: lineHeight.snug,
             }}
-            data-testid="form-experiment"
+            data-testid="text-page-title"
           >
-            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: space['4'], marginBottom: space['4'] }}>
-              <div>
-                <label style={labelStyle}>Name</label>
-                <input style={inputStyle} value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} data-testid="input-experiment-name" />
-              </div>
-              <div>
-                <label style={labelStyle}>Engine</label>
-                <select style={inputStyle} value={editing.engine} onChange={(e) => setEditing({ ...editing, engine: e.target.value })} data-testid="select-experiment-engine">
-                  {ENGINES.map((e) => <option key={e} value={e}>{e}</option>)}
-                </select>
-              </div>
-              <div>
-                <label style={labelStyle}>Start Date</label>
-                <input type="date" style={inputStyle} value={editing.startDate} onChange={(e) => setEditing({ ...editing, startDate: e.target.value })} data-testid="input-experiment-start" />
-              </div>
-              <div>
-                <label style={labelStyle}>End Date</label>
-                <input type="date" style={inputStyle} value={editing.endDate} onChange={(e) => setEditing({ ...editing, endDate: e.target.value })} data-testid="input-experiment-end" />
-              </div>
-              <div>
-                <label style={labelStyle}>Decision</label>
-                <select style={inputStyle} value={editing.decision} onChange={(e) => setEditing({ ...editing, decision: e.target.value })} data-testid="select-experiment-decision">
-                  {DECISIONS.map((d) => <option key={d} value={d}>{d}</option>)}
-                </select>
-              </div>
-              <div>
-                <label style={labelStyle}>Result (lift %)</label>
-                <input style={inputStyle} value={editing.result} onChange={(e) => setEditing({ ...editing, result: e.target.value })} placeholder="e.g. +12%" data-testid="input-experiment-result" />
-              </div>
-            </div>
-            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: space['4'], marginBottom: space['4'] }}>
-              <div>
-                <label style={labelStyle}>Hypothesis</label>
-                <textarea style={{ ...inputStyle, minHeight: 60, resize: 'vertical' as const }} value={editing.hypothesis} onChange={(e) => setEditing({ ...editing, hypothesis: e.target.value })} data-testid="input-experiment-hypothesis" />
-              </div>
-              <div>
-                <label style={labelStyle}>Change Made</label>
-                <textarea style={{ ...inputStyle, minHeight: 60, resize: 'vertical' as const }} value={editing.change} onChange={(e) => setEditing({ ...editing, change: e.target.value })} data-testid="input-experiment-change" />
-              </div>
-            </div>
-            <div style={{ marginBottom: space['4'] }}>
-              <label style={labelStyle}>Notes</label>
-              <textarea style={{ ...inputStyle, minHeight: 40, resize: 'vertical' as const }} value={editing.notes} onChange={(e) => setEditing({ ...editing, notes: e.target.value })} data-testid="input-experiment-notes" />
-            </div>
-            <div style={{ display: 'flex', gap: space['3'] }}>
-              <button onClick={handleSave} style={{ ...btnStyle, backgroundColor: indigo[950], color: '#fff' }} data-testid="button-save-experiment">Save</button>
-              <button onClick={() => { setEditing(null); setShowForm(false); }} style={{ ...btnStyle, backgroundColor: tc.background.muted, color: tc.text.secondary }} data-testid="button-cancel-experiment">Cancel</button>
-            </div>
+            Experiments & Learnings
+          </h1>
+          <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
+            Track marketing experiments across all Core 4 engines. Lift is measured automatically against the equal-length period before each experiment started.
+          </p>
+        </div>
+
+        {legacy.length > 0 && (
+          <div style={bannerStyle(tc.semantic.info.light, tc.semantic.info.dark)} data-testid="banner-import-legacy">
+            <span>
+              {legacy.length} experiment{legacy.length !== 1 ? 's are' : ' is'} saved only in this browser. Import {legacy.length !== 1 ? 'them' : 'it'} so the whole team can see {legacy.length !== 1 ? 'them' : 'it'}.
+            </span>
+            <button
+              onClick={handleImport}
+              disabled={importing}
+              style={{ ...btnStyle, backgroundColor: indigo[950], color: '#fff', opacity: importing ? 0.6 : 1 }}
+              data-testid="button-import-legacy"
+            >
+              {importing ? 'Importing…' : 'Import'}
+            </button>
+          </div>
+        )}
+
+        {error && (
+          <div style={bannerStyle(tc.semantic.danger.light, tc.semantic.danger.dark)} data-testid="text-experiments-error">
+            {error}
           </div>
         )}
 
         <DashboardSection title="Experiment Log" description={`${experiments.length} experiment${experiments.length !== 1 ? 's' : ''} recorded.`} index={0}>
-          {experiments.length === 0 ? (
-            <div style={{ padding: space['8'], textAlign: 'center' as const, border: `1px dashed ${tc.border.default}`, borderRadius: radius.lg, backgroundColor: tc.background.muted }}>
-              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
-                No experiments yet. Click &ldquo;Add Experiment&rdquo; to start tracking.
-              </p>
-            </div>
+          {loading ? (
+            <SkeletonCard height={240} lines={0} />
           ) : (
-            <div style={{ overflow: 'auto', border: `1px solid ${tc.border.default}`, borderRadius: radius.lg, backgroundColor: tc.background.surface }}>
-              <table style={{ width: '100%', borderCollapse: 'collapse' }} data-testid="table-experiments">
-                <thead>
-                  <tr>
-                    {['Name', 'Engine', 'Hypothesis', 'Result', 'Decision', 'Dates', 'Actions'].map((h) => (
-                      <th key={h} style={thStyle}>{h}</th>
-                    ))}
-                  </tr>
-                </thead>
-                <tbody>
-                  {experiments.map((exp) => (
-                    <tr key={exp.id} data-testid={`row-experiment-${exp.id}`}>
-                      <td style={{ ...tdStyle, fontWeight: fontWeight.medium, color: tc.text.primary }}>{exp.name}</td>
-                      <td style={tdStyle}>{exp.engine}</td>
-                      <td style={{ ...tdStyle, maxWidth: 200, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' as const }}>{exp.hypothesis}</td>
-                      <td style={tdStyle}>{exp.result || '—'}</td>
-                      <td style={tdStyle}>
-                        <span style={{
-                          padding: `${space['0.5']} ${space['2']}`,
-                          borderRadius: radius.full,
-                          fontSize: fontSize.sm,
-                          fontWeight: fontWeight.medium,
-                          backgroundColor: exp.decision === 'keep' ? tc.semantic.success.light : exp.decision === 'revert' ? tc.semantic.danger.light : exp.decision === 'iterate' ? tc.semantic.warning.light : tc.background.muted,
-                          color: exp.decision === 'keep' ? tc.semantic.success.dark : exp.decision === 'revert' ? tc.semantic.danger.dark : exp.decision === 'iterate' ? tc.semantic.warning.dark : tc.text.muted,
-                        }}>
-                          {exp.decision}
-                        </span>
-                      </td>
-                      <td style={{ ...tdStyle, fontSize: fontSize.sm }}>{exp.startDate}{exp.endDate ? ` - ${exp.endDate}` : ''}</td>
-                      <td style={tdStyle}>
-                        <div style={{ display: 'flex', gap: space['2'] }}>
-                          <button
-                            onClick={() => { setEditing(exp); setShowForm(true); }}
-                            style={{ ...btnStyle, padding: `${space['1']} ${space['3']}`, fontSize: fontSize.sm, backgroundColor: tc.background.muted, color: tc.text.secondary }}
-                            data-testid={`button-edit-experiment-${exp.id}`}
-                          >
-                            Edit
-                          </button>
-                          <button
-                            onClick={() => handleDelete(exp.id)}
-                            style={{ ...btnStyle, padding: `${space['1']} ${space['3']}`, fontSize: fontSize.sm, backgroundColor: tc.semantic.danger.light, color: tc.semantic.danger.dark }}
-                            data-testid={`button-delete-experiment-${exp.id}`}
-                          >
-                            Delete
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+            <ExperimentLog
+              experiments={experiments.map(toLogEntry)}
+              onAdd={handleAdd}
+              onUpdate={handleUpdate}
+              onDelete={handleDelete}
+              onMeasure={handleMeasure}
+              engineOptions={EXPERIMENT_ENGINES.map((e) => e.label)}
+            />
           )}
         </DashboardSection>
       </div>
@@ -1,15 +1,26 @@
 'use client';
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import { usePathname } from 'next/navigation';
+import { usePathname, useRouter } from 'next/navigation';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 import { MarketingNav, NAV_GROUPS } from './components/MarketingNav';
 import { GlobalFilters } from './components/GlobalFilters';
 import type { ComparisonMode } from './components/GlobalFilters';
-import { parsePeriodState, updateUrl } from './lib/period';
-import type { PeriodState } from './lib/period';
+import { SavedViewsPicker } from './components/SavedViewsPicker';
+import {
+  fromSavedViewState,
+  hasUrlState,
+  parseComparisonMode,
+  parseFilterState,
+  parsePeriodState,
+  toSavedViewState,
+  updateUrl,
+} from './lib/period';
+import type { MarketingFilterState, PeriodState } from './lib/period';
+import { MARKETING_FILTER_KEYS, SAVED_VIEW_BASE_PATH, savedViewHref } from '../../../lib/marketing-saved-views';
+import type { MarketingSavedView } from '../../../types/activity-spine';
 import { MarketingContext } from './lib/MarketingContext';
-import { useMarketingDashboard } from '../../../hooks/useActivitySpine';
+import { useMarketingDashboard, useMarketingTargets } from '../../../hooks/useActivitySpine';
 import { useThemeColors } from '../../../hooks/useThemeColors';
 import { fontFamily, fontSize, fontWeight } from '../../../design/tokens/typography';
 import { space, duration, easing } from '../../../design/tokens/spacing';
@@ -32,10 +43,14 @@ interface LayoutProps {
 
 export default function MarketingLayout({ children }: LayoutProps) {
   const tc = useThemeColors();
+  const router = useRouter();
   const currentPath = usePathname() ?? '';
   const [periodState, setPeriodState] = useState<PeriodState>(() => parsePeriodState());
-  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('prev');
-  const [channel, setChannel] = useState('');
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(() => parseComparisonMode());
+  const [filters, setFilters] = useState<MarketingFilterState>(() => parseFilterState());
+  // A bare link (no query string) opens the caller's default saved view.
+  const [openedWithUrlState] = useState(() => hasUrlState());
+  const channel = filters.channel ?? '';
   const [isMobile, setIsMobile] = useState(false);
   const [mobileSubNavOpen, setMobileSubNavOpen] = useState(false);
 
@@ -73,8 +88,44 @@ export default function MarketingLayout({ children }: LayoutProps) {
 
   const handlePeriodChange = useCallback((next: PeriodState) => {
     setPeriodState(next);
-    updateUrl(next);
-  }, []);
+    updateUrl(next, comparisonMode, filters);
+  }, [comparisonMode, filters]);
+
+  const handleComparisonModeChange = useCallback((mode: ComparisonMode) => {
+    setComparisonMode(mode);
+    updateUrl(periodState, mode, filters);
+  }, [periodState, filters]);
+
+  const handleChannelChange = useCallback((next: string) => {
+    const nextFilters = { ...filters };
+    if (next) nextFilters.channel = next;
+    else delete nextFilters.channel;
+    setFilters(nextFilters);
+    updateUrl(periodState, comparisonMode, nextFilters);
+  }, [periodState, comparisonMode, filters]);
+
+  const applySavedView = useCallback((view: MarketingSavedView, navigate = true) => {
+    const nextPeriod = fromSavedViewState(view.state);
+    setPeriodState(nextPeriod);
+    setComparisonMode(view.state.comparison_mode);
+    setFilters({ ...view.state.filters });
+    if (navigate && view.state.path !== currentPath) {
+      router.push(savedViewHref(view.state));
+    } else {
+      updateUrl(nextPeriod, view.state.comparison_mode, view.state.filters);
+    }
+  }, [currentPath, router]);
+
+  const handleDefaultView = useCallback((view: MarketingSavedView) => {
+    if (openedWithUrlState) return;
+    // Only the dashboard root jumps to the default view's sub-page.
+    applySavedView(view, currentPath === SAVED_VIEW_BASE_PATH);
+  }, [openedWithUrlState, applySavedView, currentPath]);
+
+  const currentViewState = useMemo(
+    () => toSavedViewState(currentPath || SAVED_VIEW_BASE_PATH, periodState, comparisonMode, filters),
+    [currentPath, periodState, comparisonMode, filters],
+  );
 
   const queryParams = useMemo(() => {
     const params: Record<string, string> = {};
@@ -89,24 +140,30 @@ export default function MarketingLayout({ children }: LayoutProps) {
       params.preset = BACKEND_PRESET_MAP[periodState.preset] ?? 'last_30d';
     }
     params.include_timeseries = 'true';
-    if (channel) params.channel = channel;
+    for (const key of MARKETING_FILTER_KEYS) {
+      const value = filters[key];
+      if (value) params[key] = value;
+    }
     const COMPARISON_MAP: Record<ComparisonMode, string> = { prev: 'prev_period', wow: 'wow', mom: 'mom' };
     params.comparison = COMPARISON_MAP[comparisonMode];
     return params;
-  }, [periodState, channel, comparisonMode]);
+  }, [periodState, filters, comparisonMode]);
 
   const { data, loading, error, refetch } = useMarketingDashboard(queryParams);
+  const { data: targets } = useMarketingTargets(data?.period?.start, data?.period?.end);
 
   const contextValue = useMemo(() => ({
     periodState,
     comparisonMode,
     channel,
+    filters,
     queryParams,
     data,
     loading,
     error,
     refetch,
-  }), [periodState, comparisonMode, channel, queryParams, data, loading, error, refetch]);
+    targets: targets ?? [],
+  }), [periodState, comparisonMode, channel, filters, queryParams, data, loading, error, refetch, targets]);
 
   const currentLabel = NAV_GROUPS.flatMap(g => g.items).find(i => i.href === currentPath)?.label || 'Command Center';
 
@@ -214,10 +271,17 @@ export default function MarketingLayout({ children }: LayoutProps) {
             state={periodState}
             onChange={handlePeriodChange}
             comparisonMode={comparisonMode}
-            onComparisonModeChange={setComparisonMode}
+            onComparisonModeChange={handleComparisonModeChange}
             channel={channel}
-            onChannelChange={setChannel}
+            onChannelChange={handleChannelChange}
             comparisonLabel={computeComparisonLabel(periodState, comparisonMode)}
+            actions={
+              <SavedViewsPicker
+                current={currentViewState}
+                onApply={applySavedView}
+                onDefaultView={handleDefaultView}
+              />
+            }
           />
           <div style={{ flex: 1, overflow: 'auto' }}>
             {children}
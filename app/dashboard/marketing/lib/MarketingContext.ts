@@ -1,29 +1,35 @@
 'use client';
 
 import { createContext } from 'react';
-import type { PeriodState } from './period';
+import type { MarketingFilterState, PeriodState } from './period';
 import type { ComparisonMode } from '../components/GlobalFilters';
-import type { MarketingOverviewResponse } from '../../../../types/activity-spine';
+import type { MarketingOverviewResponse, MarketingTarget } from '../../../../types/activity-spine';
 import { DEFAULT_STATE } from './period';
 
 export interface MarketingContextValue {
   periodState: PeriodState;
   comparisonMode: ComparisonMode;
   channel: string;
+  /** MarketingFilters dimensions in effect (channel included). */
+  filters: MarketingFilterState;
   queryParams: Record<string, string>;
   data: MarketingOverviewResponse | null;
   loading: boolean;
   error: string | null;
   refetch: () => void;
+  /** Stored targets for the months overlapping data.period (defaults fill the rest). */
+  targets: MarketingTarget[];
 }
 
 export const MarketingContext = createContext<MarketingContextValue>({
   periodState: DEFAULT_STATE,
   comparisonMode: 'prev',
   channel: '',
+  filters: {},
   queryParams: {},
   data: null,
   loading: true,
   error: null,
   refetch: () => {},
+  targets: [],
 });
@@ -1,35 +1,57 @@
 import type { MetricKey } from './metricTypes';
+import type { MarketingTarget } from '../../../../types/activity-spine';
+import { resolveTarget, type ResolvedTarget } from '../../../../lib/marketing-targets';
 
 export type { MetricKey };
 
-const MONTHLY_TARGETS: Record<string, { value: number; label: string }> = {
-  sessions: { value: 10000, label: 'Sessions Target' },
-  submissions: { value: 150, label: 'Submissions Target' },
-  pipeline_value_usd: { value: 50000, label: 'Pipeline Target' },
-  impressions: { value: 200000, label: 'Impressions Target' },
-  clicks: { value: 5000, label: 'Clicks Target' },
-};
+export interface TargetPeriod {
+  start: string;
+  end: string;
+}
 
-export const GOOGLE_ADS_TARGETS = {
-  roas: 3.0,
-  monthly_budget_usd: 5000,
-  cpc_target_usd: 2.50,
-  ctr_target_pct: 5.0,
-};
+/** Last 30 days ending today; used before the dashboard period has loaded. */
+function fallbackPeriod(): TargetPeriod {
+  const end = new Date();
+  const start = new Date(end.getTime() - 29 * 86400000);
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+}
 
+/**
+ * Target in effect for `period`, from the stored per-month targets
+ * (MarketingContext.targets) with defaults for months that have none.
+ * `daily` is the prorated per-day target, suitable for a daily chart line.
+ */
 export function getTargetForMetric(
   metric: string,
-  daysInPeriod: number = 30
-): { daily: number; monthly: number; label: string } | null {
-  const entry = MONTHLY_TARGETS[metric];
-  if (!entry) return null;
+  period: TargetPeriod | undefined,
+  targets: MarketingTarget[] = [],
+): { daily: number; monthly: number; total: number; label: string; prorated: boolean } | null {
+  const p = period ?? fallbackPeriod();
+  const resolved = resolveTarget(targets, metric, p.start, p.end);
+  if (!resolved) return null;
+  return {
+    daily: resolved.daily,
+    monthly: resolved.monthly,
+    total: resolved.total,
+    label: resolved.label,
+    prorated: resolved.prorated,
+  };
+}
+
+/** Google Ads targets in effect for `period`; the budget is prorated to the period. */
+export function getGoogleAdsTargets(
+  period: TargetPeriod | undefined,
+  targets: MarketingTarget[] = [],
+): { roas: number; budget: ResolvedTarget; cpc_target_usd: number; ctr_target_pct: number } {
+  const p = period ?? fallbackPeriod();
   return {
-    daily: entry.value / daysInPeriod,
-    monthly: entry.value,
-    label: entry.label,
+    roas: resolveTarget(targets, 'roas', p.start, p.end)!.total,
+    budget: resolveTarget(targets, 'monthly_budget_usd', p.start, p.end)!,
+    cpc_target_usd: resolveTarget(targets, 'cpc_target_usd', p.start, p.end)!.total,
+    ctr_target_pct: resolveTarget(targets, 'ctr_target_pct', p.start, p.end)!.total,
   };
 }
 
-export function getDailyBudgetTarget(daysInPeriod: number = 30): number {
-  return GOOGLE_ADS_TARGETS.monthly_budget_usd / daysInPeriod;
+export function getDailyBudgetTarget(period: TargetPeriod | undefined, targets: MarketingTarget[] = []): number {
+  return getGoogleAdsTargets(period, targets).budget.daily;
 }
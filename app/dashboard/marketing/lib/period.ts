@@ -1,8 +1,18 @@
 /**
  * URL-driven period state for the Marketing dashboard.
  * Parses/serializes query params and maps UI presets to backend params.
+ * The comparison mode and MarketingFilters dimensions ride along in the same
+ * query string so a URL (or a saved view) reproduces the whole state.
  */
 
+import type {
+  MarketingViewComparisonMode,
+  MarketingSavedViewState,
+} from '../../../../types/activity-spine';
+import { MARKETING_FILTER_KEYS, savedViewSearchParams } from '../../../../lib/marketing-saved-views';
+
+export type MarketingFilterState = MarketingSavedViewState['filters'];
+
 export type UIMode = 'preset' | 'range';
 
 export type UIPreset =
@@ -79,6 +89,64 @@ export function parsePeriodState(): PeriodState {
   return { ...DEFAULT_STATE, includeTimeseries, compare, view };
 }
 
+export function parseComparisonMode(): MarketingViewComparisonMode {
+  if (typeof window === 'undefined') return 'prev';
+  const value = new URLSearchParams(window.location.search).get('comparison');
+  return value === 'wow' || value === 'mom' ? value : 'prev';
+}
+
+export function parseFilterState(): MarketingFilterState {
+  const filters: MarketingFilterState = {};
+  if (typeof window === 'undefined') return filters;
+  const sp = new URLSearchParams(window.location.search);
+  for (const key of MARKETING_FILTER_KEYS) {
+    const value = sp.get(key)?.trim();
+    if (value) filters[key] = value;
+  }
+  return filters;
+}
+
+/** Whether the current URL carries any dashboard state (vs. a bare page link). */
+export function hasUrlState(): boolean {
+  return typeof window !== 'undefined' && window.location.search.length > 1;
+}
+
+export function toSavedViewState(
+  path: string,
+  state: PeriodState,
+  comparisonMode: MarketingViewComparisonMode,
+  filters: MarketingFilterState,
+): MarketingSavedViewState {
+  return {
+    path,
+    period: {
+      mode: state.mode,
+      preset: state.preset,
+      start: state.start,
+      end: state.end,
+      compare: state.compare,
+      include_timeseries: state.includeTimeseries,
+      view: state.view,
+    },
+    comparison_mode: comparisonMode,
+    filters: { ...filters },
+  };
+}
+
+export function fromSavedViewState(saved: MarketingSavedViewState): PeriodState {
+  const p = saved.period;
+  const preset = (p.preset in BACKEND_PRESET_MAP ? p.preset : DEFAULT_STATE.preset) as UIPreset;
+  return {
+    mode: p.mode === 'range' && p.start && p.end ? 'range' : 'preset',
+    preset,
+    start: p.mode === 'range' ? p.start : '',
+    end: p.mode === 'range' ? p.end : '',
+    includeTimeseries: p.include_timeseries,
+    compare: p.compare,
+    view: p.view,
+  };
+}
+
 export function toBackendParams(state: PeriodState): Record<string, string> {
   const params: Record<string, string> = {};
 
@@ -96,21 +164,13 @@ export function toBackendParams(state: PeriodState): Record<string, string> {
   return params;
 }
 
-export function updateUrl(state: PeriodState): void {
+export function updateUrl(
+  state: PeriodState,
+  comparisonMode: MarketingViewComparisonMode = 'prev',
+  filters: MarketingFilterState = {},
+): void {
   if (typeof window === 'undefined') return;
   const url = new URL(window.location.href);
-  url.search = '';
-
-  if (state.mode === 'range' && state.start && state.end) {
-    url.searchParams.set('start', state.start);
-    url.searchParams.set('end', state.end);
-  } else {
-    url.searchParams.set('preset', state.preset);
-  }
-
-  if (state.includeTimeseries) url.searchParams.set('include_timeseries', 'true');
-  if (!state.compare) url.searchParams.set('compare', 'false');
-  if (state.view === 'executive') url.searchParams.set('view', 'executive');
-
+  url.search = savedViewSearchParams(toSavedViewState(url.pathname, state, comparisonMode, filters)).toString();
   window.history.replaceState({}, '', url.toString());
 }
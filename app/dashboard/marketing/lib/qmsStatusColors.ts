@@ -0,0 +1,22 @@
+import { magenta, indigo, violet } from '../../../../design/tokens/colors';
+
+/** Badge colour per QMS quote_activity; unknown statuses fall back to indigo[500]. */
+export const QMS_STATUS_COLORS: Record<string, string> = {
+  'Quote Submitted': indigo[500],
+  'Awaiting Response': indigo[600],
+  'Quote Approved': violet[500],
+  'Awaiting Deposit': violet[600],
+  'Deposit Paid': magenta[500],
+  'Mockups In Review': magenta[600],
+  'Revisions Requested': indigo[400],
+  'Revisions Adjusted': indigo[500],
+  'Design Approved': violet[500],
+  'Quote Paid': magenta[700],
+  'Not Interested': indigo[800],
+  'Pending Management Review': violet[400],
+  'Admin Review Changes Requested': violet[600],
+};
+
+export function qmsStatusColor(status: string): string {
+  return QMS_STATUS_COLORS[status] ?? indigo[500];
+}
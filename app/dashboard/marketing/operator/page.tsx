@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { DashboardGuard } from '../../../../hooks/useRBAC';
 import { DashboardCard, AccessDenied } from '../../../../components/dashboard';
 import { PageExportBar } from '../../../../components/dashboard/PageExportBar';
-import type { ExportSection } from '../../../../lib/exportUtils';
+import { operatorHubSections } from '../../../../lib/marketing-report-sections';
 import { MarketingKPIOverview } from '../components/MarketingKPIOverview';
 import { MarketingFunnelPanel } from '../components/MarketingFunnelPanel';
 import { MarketingGA4FunnelPanel } from '../components/MarketingGA4FunnelPanel';
@@ -34,95 +34,7 @@ export default function OperatorHubPage() {
   const tc = useThemeColors();
   const { periodState, data, loading, error, refetch } = useContext(MarketingContext);
 
-  const exportSections = useMemo<ExportSection[]>(() => {
-    if (!data) return [];
-    const sections: ExportSection[] = [];
-
-    if (data.sources?.length) {
-      sections.push({
-        type: 'table',
-        title: 'Traffic Sources',
-        columns: [
-          { key: 'source', label: 'Source' },
-          { key: 'sessions', label: 'Sessions', format: 'number' },
-          { key: 'clicks', label: 'Clicks', format: 'number' },
-          { key: 'quotes', label: 'Quotes', format: 'number' },
-          { key: 'pipeline_value_usd', label: 'Pipeline', format: 'currency' },
-        ],
-        rows: data.sources as unknown as Record<string, unknown>[],
-      });
-    }
-
-    if (data.recent_conversions?.length) {
-      sections.push({
-        type: 'table',
-        title: 'Recent Conversions',
-        columns: [
-          { key: 'landing_page', label: 'Landing Page' },
-          { key: 'source', label: 'Source' },
-          { key: 'event_name', label: 'Event' },
-          { key: 'event_date', label: 'Date' },
-          { key: 'value_usd', label: 'Value', format: 'currency' },
-        ],
-        rows: data.recent_conversions as unknown as Record<string, unknown>[],
-      });
-    }
-
-    if (data.pipeline_health?.length) {
-      sections.push({
-        type: 'table',
-        title: 'Pipeline Health',
-        columns: [
-          { key: 'metric', label: 'Metric' },
-          { key: 'value', label: 'Value' },
-          { key: 'status', label: 'Status' },
-        ],
-        rows: data.pipeline_health as unknown as Record<string, unknown>[],
-      });
-    }
-
-    if (data.device_breakdown?.length || data.country_breakdown?.length) {
-      if (data.device_breakdown?.length) {
-        sections.push({
-          type: 'table',
-          title: 'Audience — Devices',
-          columns: [
-            { key: 'device', label: 'Device' },
-            { key: 'sessions', label: 'Sessions', format: 'number' },
-            { key: 'percentage', label: 'Share', format: 'percent' },
-          ],
-          rows: data.device_breakdown as unknown as Record<string, unknown>[],
-        });
-      }
-      if (data.country_breakdown?.length) {
-        sections.push({
-          type: 'table',
-          title: 'Audience — Countries',
-          columns: [
-            { key: 'country', label: 'Country' },
-            { key: 'sessions', label: 'Sessions', format: 'number' },
-            { key: 'percentage', label: 'Share', format: 'percent' },
-          ],
-          rows: data.country_breakdown as unknown as Record<string, unknown>[],
-        });
-      }
-    }
-
-    if (data.pipeline_categories?.length) {
-      sections.push({
-        type: 'table',
-        title: 'Pipeline Categories',
-        columns: [
-          { key: 'category', label: 'Category' },
-          { key: 'count', label: 'Count', format: 'number' },
-          { key: 'value_usd', label: 'Value', format: 'currency' },
-        ],
-        rows: data.pipeline_categories as unknown as Record<string, unknown>[],
-      });
-    }
-
-    return sections;
-  }, [data]);
+  const exportSections = useMemo(() => operatorHubSections(data), [data]);
 
   return (
     <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
@@ -206,7 +118,7 @@ export default function OperatorHubPage() {
           error={error}
         />
 
-        <MarketingAnomaliesPanel anomalies={data?.anomalies} loading={loading} error={error} />
+        <MarketingAnomaliesPanel period={data?.period} />
 
         <MarketingSourcesPanel sources={data?.sources ?? []} loading={loading} error={error} />
 
@@ -104,7 +104,7 @@ function ColdOutreachEngineCard() {
 
 export default function MarketingExecutiveOverview() {
   const tc = useThemeColors();
-  const { periodState, comparisonMode, data, loading, error, refetch } = useContext(MarketingContext);
+  const { periodState, comparisonMode, data, loading, error, refetch, targets } = useContext(MarketingContext);
 
   const narrative = useMemo(() => {
     if (!data) return null;
@@ -113,11 +113,6 @@ export default function MarketingExecutiveOverview() {
 
   const core4 = data?.core4_summary;
 
-  const daysInPeriod = useMemo(() => {
-    const ts = data?.timeseries?.sessions;
-    return ts?.length ?? 30;
-  }, [data]);
-
   const exportSections = useMemo<ExportSection[]>(() => {
     if (!data) return [];
     const sections: ExportSection[] = [];
@@ -387,7 +382,8 @@ export default function MarketingExecutiveOverview() {
           enabled={true}
           loading={loading}
           error={error}
-          daysInPeriod={daysInPeriod}
+          period={data?.period}
+          targets={targets}
         />
 
         <MarketingFunnelPanel
@@ -402,11 +398,7 @@ export default function MarketingExecutiveOverview() {
           error={error}
         />
 
-        <MarketingAnomaliesPanel
-          anomalies={data?.anomalies}
-          loading={loading}
-          error={error}
-        />
+        <MarketingAnomaliesPanel period={data?.period} />
       </div>
     </DashboardGuard>
   );
@@ -17,7 +17,7 @@ import { MarketingContext } from '../lib/MarketingContext';
 import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
 import { AreaLineChart } from '../../../../components/dashboard/charts/AreaLineChart';
 import { indigo, magenta } from '../../../../design/tokens/colors';
-import { getTargetForMetric, getDailyBudgetTarget, GOOGLE_ADS_TARGETS } from '../lib/marketingTargets';
+import { getTargetForMetric, getGoogleAdsTargets } from '../lib/marketingTargets';
 import { PacingChart } from '../components/adminto/PacingChart';
 
 function ImpressionSharePlaceholder() {
@@ -44,7 +44,7 @@ function ImpressionSharePlaceholder() {
 
 export default function PaidAdsPage() {
   const tc = useThemeColors();
-  const { data, loading, error } = useContext(MarketingContext);
+  const { data, loading, error, targets } = useContext(MarketingContext);
 
   const overview = data?.google_ads_overview ?? { spend: 0, impressions: 0, clicks: 0, conversions: 0, cpc: 0, ctr: 0, roas: 0 };
   const campaigns = data?.google_ads_campaigns ?? [];
@@ -130,7 +130,7 @@ export default function PaidAdsPage() {
             const clicks = data?.google_ads_timeseries?.clicks ?? [];
             if (!clicks.length && !loading) return null;
             const chartData = clicks.map((c) => ({ date: c.date, clicks: c.value }));
-            const target = getTargetForMetric('clicks', chartData.length || 30);
+            const target = getTargetForMetric('clicks', data?.period, targets);
             return (
               <AreaLineChart
                 data={chartData}
@@ -178,11 +178,12 @@ export default function PaidAdsPage() {
             }
 
             if (totalSpend > 0) {
+              const { budget } = getGoogleAdsTargets(data?.period, targets);
               return (
                 <PacingChart
-                  data={[{ label: 'Total', actual: totalSpend, target: GOOGLE_ADS_TARGETS.monthly_budget_usd }]}
+                  data={[{ label: 'Total', actual: totalSpend, target: Math.round(budget.total) }]}
                   title=""
-                  targetLabel="Monthly Budget"
+                  targetLabel={budget.prorated ? `Budget for period (prorated over ${budget.days} days)` : 'Monthly Budget'}
                   height={200}
                 />
               );
@@ -11,6 +11,7 @@ import { space, radius } from '../../../../design/tokens/spacing';
 import { indigo, violet, magenta } from '../../../../design/tokens/colors';
 import { AreaLineChart } from '../../../../components/dashboard/charts/AreaLineChart';
 import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
+import { QuoteCohortsPanel } from '../components/QuoteCohortsPanel';
 import type { ExportSection, ExportColumn } from '../../../../lib/exportUtils';
 
 interface FunnelSummary {
@@ -666,6 +667,10 @@ function QuoteFunnelContent() {
           {attrLoading || !attribution ? <LoadingState /> : <AttributionSection data={attribution} />}
         </DashboardSection>
       </div>
+
+      <div style={{ marginBottom: space['6'] }}>
+        <QuoteCohortsPanel />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,410 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { DashboardGuard, PermissionGuard } from '../../../../hooks/useRBAC';
+import { AccessDenied, DashboardCard, DashboardSection, SkeletonCard } from '../../../../components/dashboard';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design/tokens/typography';
+import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
+import { indigo } from '../../../../design/tokens/colors';
+import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
+import {
+  createReportSchedule,
+  deleteReportSchedule,
+  listReports,
+  sendReportNow,
+  updateReportSchedule,
+} from '../../../../lib/marketingApi';
+import {
+  REPORTS_MANAGE_PERMISSION,
+  REPORT_CADENCES,
+  REPORT_DASHBOARDS,
+  REPORT_DELIVERY,
+  REPORT_FORMATS,
+  REPORT_PERIODS,
+  WEEKDAY_LABELS,
+  describeSchedule,
+  type ReportScheduleInput,
+} from '../../../../lib/marketing-reports';
+import type {
+  MarketingReportDashboard,
+  MarketingReportPeriod,
+  MarketingReportRun,
+  MarketingReportSchedule,
+} from '../../../../types/activity-spine';
+
+const EMPTY_DRAFT: ReportScheduleInput = {
+  name: '',
+  dashboard: 'operator_hub',
+  period: 'previous_week',
+  cadence: 'weekly',
+  weekday: 1,
+  day_of_month: 1,
+  formats: ['pdf'],
+  delivery: ['email'],
+  recipients: [],
+  enabled: true,
+};
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+function formatTimestamp(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleString() : '—';
+}
+
+export default function MarketingReportsPage() {
+  const tc = useThemeColors();
+  const [schedules, setSchedules] = useState<MarketingReportSchedule[]>([]);
+  const [runs, setRuns] = useState<MarketingReportRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ReportScheduleInput>(EMPTY_DRAFT);
+  const [recipientsText, setRecipientsText] = useState('');
+
+  const reload = useCallback(async () => {
+    const data = await listReports();
+    setSchedules(data.schedules);
+    setRuns(data.runs);
+  }, []);
+
+  useEffect(() => {
+    reload()
+      .catch((err) => setError(err instanceof Error ? err.message : 'Unknown error'))
+      .finally(() => setLoading(false));
+  }, [reload]);
+
+  const run = useCallback(async (fn: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setMessage(await fn());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const handleCreate = () => run(async () => {
+    const recipients = recipientsText.split(/[\s,;]+/).filter(Boolean);
+    const created = await createReportSchedule({
+      ...draft,
+      weekday: draft.cadence === 'weekly' ? draft.weekday : null,
+      day_of_month: draft.cadence === 'monthly' ? draft.day_of_month : null,
+      recipients,
+    });
+    await reload();
+    setDraft(EMPTY_DRAFT);
+    setRecipientsText('');
+    return `Scheduled "${created.name}" — first send ${formatTimestamp(created.next_run_at)}`;
+  });
+
+  const handleToggle = (s: MarketingReportSchedule) => run(async () => {
+    await updateReportSchedule(s.id, { enabled: !s.enabled });
+    await reload();
+    return s.enabled ? `Paused "${s.name}"` : `Resumed "${s.name}"`;
+  });
+
+  const handleDelete = (s: MarketingReportSchedule) => run(async () => {
+    if (!window.confirm(`Delete the report schedule "${s.name}"? Its send history is kept.`)) return null;
+    await deleteReportSchedule(s.id);
+    await reload();
+    return `Deleted "${s.name}"`;
+  });
+
+  const handleSend = (s: MarketingReportSchedule) => run(async () => {
+    const result = await sendReportNow(s.id);
+    await reload();
+    return result.status === 'delivered'
+      ? `Sent "${s.name}" (${result.period_start} to ${result.period_end})`
+      : `"${s.name}" ${result.status}: ${result.error ?? 'not delivered'}`;
+  });
+
+  const btnStyle: React.CSSProperties = {
+    padding: `${space['1.5']} ${space['4']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    border: 'none',
+    borderRadius: radius.full,
+    cursor: 'pointer',
+    transition: `all ${duration.normal} ${easing.DEFAULT}`,
+  };
+
+  const secondaryBtn: React.CSSProperties = { ...btnStyle, backgroundColor: tc.background.muted, color: tc.text.secondary };
+
+  const fieldStyle: React.CSSProperties = {
+    padding: `${space['1.5']} ${space['2']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    backgroundColor: tc.background.surface,
+    border: `1px solid ${tc.border.default}`,
+    borderRadius: radius.md,
+    outline: 'none',
+  };
+
+  const labelStyle: React.CSSProperties = {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: space['1'],
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.muted,
+  };
+
+  const checkStyle: React.CSSProperties = {
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: space['1'],
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.secondary,
+  };
+
+  const thStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.muted,
+    textAlign: 'left',
+    padding: `${space['2']} ${space['2']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const tdStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    padding: `${space['1.5']} ${space['2']}`,
+    borderBottom: `1px solid ${tc.border.subtle}`,
+    verticalAlign: 'top',
+  };
+
+  const panelStyle: React.CSSProperties = {
+    backgroundColor: tc.background.surface,
+    border: `1px solid ${tc.border.default}`,
+    borderRadius: radius.xl,
+    padding: space['4'],
+    overflow: 'auto',
+  };
+
+  const statusColor = (status: MarketingReportRun['status']): string =>
+    status === 'delivered' ? tc.semantic.success.dark : status === 'partial' ? tc.semantic.warning.dark : tc.semantic.danger.dark;
+
+  const canCreate = draft.name.trim() !== '' && draft.formats.length > 0 && draft.delivery.length > 0
+    && (!draft.delivery.includes('email') || recipientsText.trim() !== '');
+
+  return (
+    <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
+      <PermissionGuard permission={REPORTS_MANAGE_PERMISSION} fallback={<AccessDenied />}>
+        <div style={{ maxWidth: 1400, margin: '0 auto', padding: `${space['6']} ${space['4']}` }}>
+          <DrilldownBreadcrumb items={[{ label: 'Marketing', href: '/dashboard/marketing' }, { label: 'System' }, { label: 'Reports' }]} />
+          <div style={{ marginBottom: space['6'] }}>
+            <h1
+              style={{
+                fontFamily: fontFamily.display,
+                fontSize: fontSize['3xl'],
+                fontWeight: fontWeight.semibold,
+                color: tc.text.primary,
+                marginBottom: space['1'],
+                lineHeight: lineHeight.snug,
+              }}
+              data-testid="text-page-title"
+            >
+              Scheduled Reports
+            </h1>
+            <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
+              Send a dashboard&apos;s PDF or CSV export on a weekly or monthly schedule. Reports go out with the daily 10:00 UTC run on or after the scheduled day.
+            </p>
+          </div>
+
+          {error && <DashboardCard title="Error" error={error} />}
+          {message && !error && (
+            <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, marginBottom: space['3'] }} data-testid="text-reports-message">
+              {message}
+            </p>
+          )}
+
+          <DashboardSection title="New Schedule" description="Recipients are comma or space separated. Email and storage delivery can be combined." index={0}>
+            <div style={{ ...panelStyle, display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: space['3'] }} data-testid="form-report-schedule">
+              <label style={labelStyle}>
+                Name
+                <input value={draft.name} maxLength={120} onChange={(e) => setDraft({ ...draft, name: e.target.value })} style={fieldStyle} data-testid="input-report-name" />
+              </label>
+              <label style={labelStyle}>
+                Dashboard
+                <select value={draft.dashboard} onChange={(e) => setDraft({ ...draft, dashboard: e.target.value as MarketingReportDashboard })} style={fieldStyle} data-testid="select-report-dashboard">
+                  {Object.entries(REPORT_DASHBOARDS).map(([key, def]) => <option key={key} value={key}>{def.label}</option>)}
+                </select>
+              </label>
+              <label style={labelStyle}>
+                Period
+                <select value={draft.period} onChange={(e) => setDraft({ ...draft, period: e.target.value as MarketingReportPeriod })} style={fieldStyle} data-testid="select-report-period">
+                  {Object.entries(REPORT_PERIODS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              </label>
+              <label style={labelStyle}>
+                Cadence
+                <select value={draft.cadence} onChange={(e) => setDraft({ ...draft, cadence: e.target.value as ReportScheduleInput['cadence'] })} style={fieldStyle} data-testid="select-report-cadence">
+                  {REPORT_CADENCES.map((c) => <option key={c} value={c}>{c === 'weekly' ? 'Weekly' : 'Monthly'}</option>)}
+                </select>
+              </label>
+              {draft.cadence === 'weekly' ? (
+                <label style={labelStyle}>
+                  Send on
+                  <select value={draft.weekday ?? 1} onChange={(e) => setDraft({ ...draft, weekday: Number(e.target.value) })} style={fieldStyle} data-testid="select-report-weekday">
+                    {WEEKDAY_LABELS.map((label, i) => <option key={label} value={i}>{label}</option>)}
+                  </select>
+                </label>
+              ) : (
+                <label style={labelStyle}>
+                  Day of month
+                  <input type="number" min={1} max={28} value={draft.day_of_month ?? 1} onChange={(e) => setDraft({ ...draft, day_of_month: Number(e.target.value) })} style={fieldStyle} data-testid="input-report-day" />
+                </label>
+              )}
+              <div style={labelStyle}>
+                Formats
+                <div style={{ display: 'flex', gap: space['3'] }}>
+                  {REPORT_FORMATS.map((f) => (
+                    <label key={f} style={checkStyle}>
+                      <input type="checkbox" checked={draft.formats.includes(f)} onChange={() => setDraft({ ...draft, formats: toggle(draft.formats, f) })} data-testid={`checkbox-report-format-${f}`} />
+                      {f.toUpperCase()}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div style={labelStyle}>
+                Delivery
+                <div style={{ display: 'flex', gap: space['3'] }}>
+                  {REPORT_DELIVERY.map((d) => (
+                    <label key={d} style={checkStyle}>
+                      <input type="checkbox" checked={draft.delivery.includes(d)} onChange={() => setDraft({ ...draft, delivery: toggle(draft.delivery, d) })} data-testid={`checkbox-report-delivery-${d}`} />
+                      {d === 'email' ? 'Email' : 'Storage'}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label style={{ ...labelStyle, gridColumn: '1 / -1' }}>
+                Recipients
+                <input value={recipientsText} onChange={(e) => setRecipientsText(e.target.value)} placeholder="ops@example.com, cmo@example.com" disabled={!draft.delivery.includes('email')} style={fieldStyle} data-testid="input-report-recipients" />
+              </label>
+              <div style={{ gridColumn: '1 / -1', display: 'flex', justifyContent: 'flex-end' }}>
+                <button
+                  onClick={handleCreate}
+                  disabled={busy || !canCreate}
+                  style={{ ...btnStyle, backgroundColor: indigo[950], color: '#fff', opacity: busy || !canCreate ? 0.5 : 1 }}
+                  data-testid="button-create-report"
+                >
+                  Create schedule
+                </button>
+              </div>
+            </div>
+          </DashboardSection>
+
+          <DashboardSection title="Schedules" description={`${schedules.length} schedule${schedules.length !== 1 ? 's' : ''}.`} index={1}>
+            {loading ? (
+              <SkeletonCard height={200} lines={4} />
+            ) : schedules.length === 0 ? (
+              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>No report schedules yet.</p>
+            ) : (
+              <div style={panelStyle} data-testid="table-report-schedules">
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Name</th>
+                      <th style={thStyle}>Dashboard</th>
+                      <th style={thStyle}>Period</th>
+                      <th style={thStyle}>Schedule</th>
+                      <th style={thStyle}>Delivery</th>
+                      <th style={thStyle}>Next send</th>
+                      <th style={thStyle}>Last send</th>
+                      <th style={thStyle} />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {schedules.map((s) => (
+                      <tr key={s.id} style={{ opacity: s.enabled ? 1 : 0.6 }} data-testid={`row-report-${s.id}`}>
+                        <td style={tdStyle}>
+                          <div style={{ fontWeight: fontWeight.medium }}>{s.name}</div>
+                          <div style={{ color: tc.text.muted }}>by {s.created_by}</div>
+                        </td>
+                        <td style={tdStyle}>{REPORT_DASHBOARDS[s.dashboard].label}</td>
+                        <td style={tdStyle}>{REPORT_PERIODS[s.period]}</td>
+                        <td style={tdStyle}>{describeSchedule(s)}{s.enabled ? '' : ' (paused)'}</td>
+                        <td style={tdStyle}>
+                          <div>{s.formats.map((f) => f.toUpperCase()).join(' + ')} · {s.delivery.join(', ')}</div>
+                          {s.recipients.length > 0 && <div style={{ color: tc.text.muted }}>{s.recipients.join(', ')}</div>}
+                        </td>
+                        <td style={tdStyle}>{s.enabled ? formatTimestamp(s.next_run_at) : '—'}</td>
+                        <td style={tdStyle}>{formatTimestamp(s.last_run_at)}</td>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>
+                          <div style={{ display: 'flex', gap: space['2'] }}>
+                            <button onClick={() => handleSend(s)} disabled={busy} style={secondaryBtn} data-testid={`button-send-report-${s.id}`}>Send now</button>
+                            <button onClick={() => handleToggle(s)} disabled={busy} style={secondaryBtn} data-testid={`button-toggle-report-${s.id}`}>{s.enabled ? 'Pause' : 'Resume'}</button>
+                            <button onClick={() => handleDelete(s)} disabled={busy} style={secondaryBtn} data-testid={`button-delete-report-${s.id}`}>Delete</button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </DashboardSection>
+
+          <DashboardSection title="Send History" description="Scheduled and manual sends, newest first." index={2}>
+            {loading ? (
+              <SkeletonCard height={200} lines={4} />
+            ) : runs.length === 0 ? (
+              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>No reports sent yet.</p>
+            ) : (
+              <div style={panelStyle} data-testid="table-report-runs">
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Sent</th>
+                      <th style={thStyle}>Schedule</th>
+                      <th style={thStyle}>Period</th>
+                      <th style={thStyle}>Trigger</th>
+                      <th style={thStyle}>Status</th>
+                      <th style={thStyle}>Delivered to</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {runs.map((r) => (
+                      <tr key={r.id} data-testid={`row-report-run-${r.id}`}>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{formatTimestamp(r.created_at)}</td>
+                        <td style={tdStyle}>
+                          <div>{r.schedule_name}</div>
+                          <div style={{ color: tc.text.muted }}>{REPORT_DASHBOARDS[r.dashboard]?.label ?? r.dashboard}</div>
+                        </td>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>{r.period_start} – {r.period_end}</td>
+                        <td style={tdStyle}>{r.trigger === 'manual' ? 'Send now' : 'Scheduled'}</td>
+                        <td style={tdStyle}>
+                          <div style={{ color: statusColor(r.status), fontWeight: fontWeight.medium }}>{r.status}</div>
+                          {r.error && <div style={{ color: tc.text.muted }}>{r.error}</div>}
+                        </td>
+                        <td style={tdStyle}>
+                          {r.delivered_channels.includes('email') && <div>{r.recipients.join(', ')}</div>}
+                          {r.storage_paths.map((p) => <div key={p} style={{ color: tc.text.muted }}>{p}</div>)}
+                          {r.delivered_channels.length === 0 && '—'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </DashboardSection>
+        </div>
+      </PermissionGuard>
+    </DashboardGuard>
+  );
+}
@@ -50,7 +50,7 @@ const provenanceStyle: React.CSSProperties = {
 
 export default function SeoSummaryPage() {
   const tc = useThemeColors();
-  const { data, loading, error } = useContext(MarketingContext);
+  const { data, loading, error, targets } = useContext(MarketingContext);
 
   const exportSections = useMemo<ExportSection[]>(() => {
     if (!data) return [];
@@ -150,7 +150,7 @@ export default function SeoSummaryPage() {
             const sessions = data?.timeseries?.sessions ?? [];
             if (!sessions.length && !loading) return null;
             const chartData = sessions.map((s) => ({ date: s.date, sessions: s.value }));
-            const target = getTargetForMetric('sessions', chartData.length || 30);
+            const target = getTargetForMetric('sessions', data?.period, targets);
             return (
               <>
                 <AreaLineChart
@@ -177,7 +177,7 @@ export default function SeoSummaryPage() {
               clicks: c.value,
               impressions: impressions[i]?.value ?? 0,
             }));
-            const clicksTarget = getTargetForMetric('clicks', merged.length || 30);
+            const clicksTarget = getTargetForMetric('clicks', data?.period, targets);
             return (
               <>
                 <AreaLineChart
@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { DashboardGuard, PermissionGuard } from '../../../../hooks/useRBAC';
+import { AccessDenied, DashboardCard, DashboardSection, SkeletonCard } from '../../../../components/dashboard';
+import { useThemeColors } from '../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../design/tokens/typography';
+import { space, radius, duration, easing } from '../../../../design/tokens/spacing';
+import { indigo } from '../../../../design/tokens/colors';
+import { DrilldownBreadcrumb } from '../components/adminto/DrilldownBreadcrumb';
+import { getTargets, saveTargets } from '../../../../lib/marketingApi';
+import {
+  TARGETS_EDIT_PERMISSION,
+  TARGET_DEFINITIONS,
+  targetForMonth,
+  type TargetUpdate,
+} from '../../../../lib/marketing-targets';
+import type { MarketingTarget, MarketingTargetMetric } from '../../../../types/activity-spine';
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function monthKey(year: number, index: number): string {
+  return `${year}-${String(index + 1).padStart(2, '0')}-01`;
+}
+
+function cellKey(metric: MarketingTargetMetric, month: string): string {
+  return `${metric}|${month}`;
+}
+
+export default function MarketingTargetsPage() {
+  const tc = useThemeColors();
+  const [year, setYear] = useState(() => new Date().getUTCFullYear());
+  const [stored, setStored] = useState<MarketingTarget[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  const load = useCallback(async (y: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setStored(await getTargets(`${y}-01-01`, `${y}-12-31`));
+      setDrafts({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(year); }, [load, year]);
+
+  const months = useMemo(() => MONTH_LABELS.map((_, i) => monthKey(year, i)), [year]);
+
+  const updates = useMemo<TargetUpdate[]>(() => {
+    const out: TargetUpdate[] = [];
+    Object.entries(drafts).forEach(([key, raw]) => {
+      const [metric, month] = key.split('|') as [MarketingTargetMetric, string];
+      const current = targetForMonth(stored, metric, month);
+      const trimmed = raw.trim();
+      if (trimmed === '') {
+        if (current.stored) out.push({ metric, month, value: null });
+        return;
+      }
+      const value = Number(trimmed);
+      if (Number.isFinite(value) && value >= 0 && (!current.stored || value !== current.value)) {
+        out.push({ metric, month, value });
+      }
+    });
+    return out;
+  }, [drafts, stored]);
+
+  const invalid = Object.values(drafts).some((raw) => raw.trim() !== '' && !(Number(raw) >= 0));
+
+  const handleSave = useCallback(async () => {
+    if (updates.length === 0) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveTargets(updates);
+      setSavedAt(new Date().toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }));
+      await load(year);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setSaving(false);
+    }
+  }, [updates, load, year]);
+
+  const btnStyle: React.CSSProperties = {
+    padding: `${space['1.5']} ${space['4']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    border: 'none',
+    borderRadius: radius.full,
+    cursor: 'pointer',
+    transition: `all ${duration.normal} ${easing.DEFAULT}`,
+  };
+
+  const thStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    fontWeight: fontWeight.medium,
+    color: tc.text.muted,
+    textAlign: 'left',
+    padding: `${space['2']} ${space['2']}`,
+    borderBottom: `1px solid ${tc.border.default}`,
+    whiteSpace: 'nowrap',
+  };
+
+  const tdStyle: React.CSSProperties = {
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    color: tc.text.primary,
+    padding: `${space['1.5']} ${space['2']}`,
+    borderBottom: `1px solid ${tc.border.subtle}`,
+  };
+
+  const inputStyle = (isStored: boolean, isDirty: boolean): React.CSSProperties => ({
+    width: 84,
+    padding: `${space['1']} ${space['2']}`,
+    fontFamily: fontFamily.body,
+    fontSize: fontSize.sm,
+    textAlign: 'right',
+    color: tc.text.primary,
+    backgroundColor: isDirty ? tc.semantic.warning.light : isStored ? tc.background.surface : tc.background.muted,
+    border: `1px solid ${isDirty ? tc.semantic.warning.base : tc.border.default}`,
+    borderRadius: radius.md,
+    outline: 'none',
+  });
+
+  return (
+    <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
+      <PermissionGuard permission={TARGETS_EDIT_PERMISSION} fallback={<AccessDenied />}>
+        <div style={{ maxWidth: 1400, margin: '0 auto', padding: `${space['6']} ${space['4']}` }}>
+          <DrilldownBreadcrumb items={[{ label: 'Marketing', href: '/dashboard/marketing' }, { label: 'System' }, { label: 'Targets' }]} />
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', flexWrap: 'wrap', gap: space['3'], marginBottom: space['6'] }}>
+            <div>
+              <h1
+                style={{
+                  fontFamily: fontFamily.display,
+                  fontSize: fontSize['3xl'],
+                  fontWeight: fontWeight.semibold,
+                  color: tc.text.primary,
+                  marginBottom: space['1'],
+                  lineHeight: lineHeight.snug,
+                }}
+                data-testid="text-page-title"
+              >
+                Marketing Targets
+              </h1>
+              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
+                Monthly targets per metric. Dashboards prorate them to the selected period; empty cells use the default shown in grey.
+              </p>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: space['2'] }}>
+              <button onClick={() => setYear((y) => y - 1)} style={{ ...btnStyle, backgroundColor: tc.background.muted, color: tc.text.secondary }} data-testid="button-targets-prev-year">
+                ‹
+              </button>
+              <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.semibold, color: tc.text.primary }} data-testid="text-targets-year">
+                {year}
+              </span>
+              <button onClick={() => setYear((y) => y + 1)} style={{ ...btnStyle, backgroundColor: tc.background.muted, color: tc.text.secondary }} data-testid="button-targets-next-year">
+                ›
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || invalid || updates.length === 0}
+                style={{ ...btnStyle, backgroundColor: indigo[950], color: '#fff', opacity: saving || invalid || updates.length === 0 ? 0.5 : 1 }}
+                data-testid="button-save-targets"
+              >
+                {saving ? 'Saving…' : updates.length > 0 ? `Save ${updates.length} change${updates.length !== 1 ? 's' : ''}` : 'Save'}
+              </button>
+            </div>
+          </div>
+
+          {error && <DashboardCard title="Error" error={error} />}
+          {savedAt && !error && (
+            <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.semantic.success.dark, marginBottom: space['3'] }}>
+              Saved at {savedAt}.
+            </p>
+          )}
+
+          <DashboardSection title={`${year} Targets`} description="Volume targets are prorated by day; rate targets (ROAS, CPC, CTR) are averaged across the months a period spans.">
+            {loading ? (
+              <SkeletonCard height={360} lines={8} />
+            ) : (
+              <div style={{ backgroundColor: tc.background.surface, border: `1px solid ${tc.border.default}`, borderRadius: radius.xl, padding: space['4'], overflow: 'auto' }} data-testid="table-targets">
+                <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                  <thead>
+                    <tr>
+                      <th style={thStyle}>Metric</th>
+                      {MONTH_LABELS.map((m) => <th key={m} style={{ ...thStyle, textAlign: 'right' }}>{m}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {TARGET_DEFINITIONS.map((def) => (
+                      <tr key={def.metric}>
+                        <td style={{ ...tdStyle, whiteSpace: 'nowrap' }}>
+                          <div style={{ fontWeight: fontWeight.medium }}>{def.label}</div>
+                          <div style={{ color: tc.text.muted }}>{def.kind === 'rate' ? 'rate · not prorated' : 'per month'}</div>
+                        </td>
+                        {months.map((month) => {
+                          const key = cellKey(def.metric, month);
+                          const current = targetForMonth(stored, def.metric, month);
+                          const draft = drafts[key];
+                          return (
+                            <td key={month} style={{ ...tdStyle, textAlign: 'right' }}>
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                value={draft ?? (current.stored ? String(current.value) : '')}
+                                placeholder={String(current.value)}
+                                onChange={(e) => setDrafts((d) => ({ ...d, [key]: e.target.value }))}
+                                style={inputStyle(current.stored, draft !== undefined)}
+                                title={current.stored ? `Stored by ${stored.find((t) => t.metric === def.metric && t.month === month)?.updated_by}` : 'Default'}
+                                data-testid={`input-target-${def.metric}-${month.slice(0, 7)}`}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </DashboardSection>
+        </div>
+      </PermissionGuard>
+    </DashboardGuard>
+  );
+}
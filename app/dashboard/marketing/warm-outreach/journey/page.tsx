@@ -0,0 +1,253 @@
+'use client';
+
+import React, { Suspense, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { DashboardGuard } from '../../../../../hooks/useRBAC';
+import { AccessDenied } from '../../../../../components/dashboard';
+import { DashboardSection } from '../../../../../components/dashboard/DashboardSection';
+import { DashboardGrid } from '../../../../../components/dashboard/DashboardGrid';
+import { DashboardCard } from '../../../../../components/dashboard/DashboardCard';
+import { useThemeColors } from '../../../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight, lineHeight } from '../../../../../design/tokens/typography';
+import { space, radius } from '../../../../../design/tokens/spacing';
+import { indigo, magenta } from '../../../../../design/tokens/colors';
+import { DrilldownBreadcrumb } from '../../components/adminto/DrilldownBreadcrumb';
+import { StatTile } from '../../components/adminto/StatTile';
+import { qmsStatusColor } from '../../lib/qmsStatusColors';
+import { ATTRIBUTION_CHANNEL_LABELS } from '../../../../../lib/attribution-models';
+import type { JourneySession, JourneyTimelineItem, QuoteJourney } from '../../../../../lib/quote-journey';
+
+function formatUSD(v: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(v);
+}
+
+function formatDateTime(iso: string | null): string {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function formatPath(url: string | null): string {
+  if (!url) return '—';
+  return url.replace(/^https?:\/\/(www\.)?/, '');
+}
+
+function sourceLabel(s: Pick<JourneySession, 'utm_source' | 'utm_medium' | 'utm_campaign' | 'click_id'>): string {
+  const parts = [s.utm_source, s.utm_medium, s.utm_campaign].filter(Boolean);
+  if (s.click_id) parts.push(s.click_id);
+  return parts.length ? parts.join(' / ') : '—';
+}
+
+function useQuoteJourney(quote: string | null) {
+  const [data, setData] = useState<QuoteJourney | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!quote) { setData(null); setError(null); return; }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetch(`/api/activity-spine/marketing/qms/journey?quote=${encodeURIComponent(quote)}`)
+      .then(async (res) => {
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error(json.error ?? `Journey fetch failed: ${res.status}`);
+        if (!cancelled) setData(json.data ?? null);
+      })
+      .catch((err) => { if (!cancelled) { setData(null); setError(err instanceof Error ? err.message : 'Unknown error'); } })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [quote]);
+
+  return { data, loading, error };
+}
+
+function TimelineEntry({ item, sessions, quoteId }: { item: JourneyTimelineItem; sessions: JourneySession[]; quoteId: string }) {
+  const tc = useThemeColors();
+  let color: string = indigo[500];
+  let title: string;
+  let detail: string;
+
+  if (item.kind === 'status') {
+    color = qmsStatusColor(item.stage);
+    title = item.from_stage ? `${item.from_stage} → ${item.stage}` : item.stage;
+    detail = item.is_current ? `Current stage · ${item.duration_days}d so far` : `${item.duration_days}d in stage`;
+  } else if (item.kind === 'conversion') {
+    const thisQuote = item.quote_id === quoteId;
+    color = thisQuote ? magenta[600] : indigo[300];
+    title = thisQuote ? 'Quote submitted on site' : 'Another quote submitted on site';
+    detail = formatPath(item.page_url);
+  } else {
+    const s = sessions[item.session_index];
+    title = `Session ${item.session_index + 1} · ${ATTRIBUTION_CHANNEL_LABELS[s.channel]}`;
+    detail = `${formatPath(s.landing_page)} · ${s.pages.length} event${s.pages.length === 1 ? '' : 's'}`;
+  }
+
+  return (
+    <li style={{ display: 'flex', gap: space['3'], paddingBottom: space['3'] }} data-testid={`timeline-${item.kind}`}>
+      <span style={{ width: 10, height: 10, marginTop: 6, borderRadius: radius.full, backgroundColor: color, flexShrink: 0 }} />
+      <div style={{ minWidth: 0 }}>
+        <div style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>{formatDateTime(item.at)}</div>
+        <div style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.medium, color: tc.text.primary }}>{title}</div>
+        <div style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, overflow: 'hidden', textOverflow: 'ellipsis' }}>{detail}</div>
+      </div>
+    </li>
+  );
+}
+
+function SessionCard({ session, index }: { session: JourneySession; index: number }) {
+  const tc = useThemeColors();
+  const cell: React.CSSProperties = { padding: `${space['1']} ${space['2']}`, fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, verticalAlign: 'top' };
+  return (
+    <DashboardCard title={`Session ${index + 1}${session.converted ? ' · converted' : ''}`}>
+      <div data-testid={`session-${index}`}>
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted, marginBottom: space['2'] }}>
+          {formatDateTime(session.started_at)} – {formatDateTime(session.ended_at)} · {ATTRIBUTION_CHANNEL_LABELS[session.channel]}
+        </p>
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, marginBottom: space['1'] }}>
+          Landing: {formatPath(session.landing_page)}
+        </p>
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, marginBottom: space['1'] }}>
+          Source: {sourceLabel(session)}
+        </p>
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.secondary, marginBottom: space['3'] }}>
+          Referrer: {formatPath(session.referrer)}
+        </p>
+        <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+          <tbody>
+            {session.pages.map((p, i) => (
+              <tr key={`${p.at}-${i}`} style={{ borderTop: `1px solid ${tc.border.subtle}` }}>
+                <td style={{ ...cell, whiteSpace: 'nowrap', color: tc.text.muted }}>{formatDateTime(p.at)}</td>
+                <td style={{ ...cell, whiteSpace: 'nowrap', fontWeight: p.event_type === 'conversion' ? fontWeight.semibold : undefined }}>{p.event_type}</td>
+                <td style={{ ...cell, wordBreak: 'break-all' }} title={p.page_url ?? undefined}>{p.page_title || formatPath(p.page_url)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </DashboardCard>
+  );
+}
+
+function JourneyContent() {
+  const tc = useThemeColors();
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const quote = searchParams.get('quote')?.trim() || null;
+  const [input, setInput] = useState(quote ?? '');
+  const { data, loading, error } = useQuoteJourney(quote);
+
+  useEffect(() => { setInput(quote ?? ''); }, [quote]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const q = input.trim();
+    if (q) router.replace(`/dashboard/marketing/warm-outreach/journey?quote=${encodeURIComponent(q)}`);
+  };
+
+  const firstSession = data?.sessions[0];
+  const daysToQuote = data && firstSession && data.quote.created_at
+    ? Math.max(0, Math.round((new Date(data.quote.created_at).getTime() - new Date(firstSession.started_at).getTime()) / 86400000))
+    : null;
+
+  return (
+    <div style={{ maxWidth: 1400, margin: '0 auto', padding: `${space['6']} ${space['4']}` }}>
+      <DrilldownBreadcrumb
+        items={[
+          { label: 'Marketing', href: '/dashboard/marketing' },
+          { label: 'Warm Outreach', href: '/dashboard/marketing/warm-outreach' },
+          { label: data ? `Journey · ${data.quote.quote_number}` : 'Journey' },
+        ]}
+      />
+      <div style={{ marginBottom: space['6'] }}>
+        <h1
+          style={{ fontFamily: fontFamily.display, fontSize: fontSize['3xl'], fontWeight: fontWeight.semibold, color: tc.text.primary, marginBottom: space['1'], lineHeight: lineHeight.snug }}
+          data-testid="text-page-title"
+        >
+          Visitor Journey
+        </h1>
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted, marginBottom: space['3'] }}>
+          Every site session, landing page and campaign tag behind a quote, alongside its QMS status changes.
+        </p>
+        <form onSubmit={submit} style={{ display: 'flex', gap: space['2'], flexWrap: 'wrap' }}>
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Quote number or convex quote id"
+            style={{ minWidth: 280, padding: `${space['1.5']} ${space['3']}`, fontFamily: fontFamily.body, fontSize: fontSize.sm, backgroundColor: tc.background.surface, color: tc.text.primary, border: `1px solid ${tc.border.default}`, borderRadius: radius.md }}
+            data-testid="input-journey-quote"
+          />
+          <button
+            type="submit"
+            style={{ padding: `${space['1.5']} ${space['4']}`, fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium, backgroundColor: indigo[600], color: '#fff', border: 'none', borderRadius: radius.md, cursor: 'pointer' }}
+            data-testid="button-journey-search"
+          >
+            Show journey
+          </button>
+        </form>
+      </div>
+
+      {!quote && (
+        <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>
+          Enter a quote, or open one from Recent Deals on the Warm Outreach page.
+        </p>
+      )}
+      {loading && <DashboardCard title="Loading journey" loading />}
+      {error && !loading && <DashboardCard title="Journey unavailable" error={error} />}
+
+      {data && !loading && (
+        <>
+          <DashboardSection title={`Quote ${data.quote.quote_number}`} description="Current QMS state and the attribution recorded on the deal." index={0}>
+            <DashboardGrid columns={{ sm: 2, md: 3, lg: 5 }}>
+              <StatTile label="Quote Value" value={formatUSD(data.quote.total_price_usd)} />
+              <StatTile label="Status" value={data.quote.status} />
+              <StatTile label="Sessions" value={data.sessions.length} />
+              <StatTile label="First Touch" value={firstSession ? ATTRIBUTION_CHANNEL_LABELS[firstSession.channel] : '—'} />
+              <StatTile label="First Visit to Quote" value={daysToQuote !== null ? `${daysToQuote}d` : '—'} />
+            </DashboardGrid>
+            <p style={{ marginTop: space['3'], fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }} data-testid="text-deal-attribution">
+              Deal attribution: {sourceLabel(data.quote)} · landing {formatPath(data.quote.landing_page)} · referrer {formatPath(data.quote.referrer)}
+            </p>
+          </DashboardSection>
+
+          <DashboardSection
+            title="Timeline"
+            description={`Sessions from ${data.lookback_days} days before the quote onward, with QMS status changes.${data.truncated ? ' Event limit reached: later sessions are not shown.' : ''}`}
+            index={1}
+          >
+            {data.timeline.length === 0 ? (
+              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }}>No web sessions or QMS events recorded for this quote.</p>
+            ) : (
+              <ol style={{ listStyle: 'none', margin: 0, padding: 0 }} data-testid="list-journey-timeline">
+                {data.timeline.map((item, i) => <TimelineEntry key={`${item.kind}-${item.at}-${i}`} item={item} sessions={data.sessions} quoteId={data.quote.convex_quote_id} />)}
+              </ol>
+            )}
+          </DashboardSection>
+
+          {data.sessions.length === 0 ? (
+            <DashboardSection title="Sessions" description="Landing page, campaign tags and the page sequence of each visit." index={2}>
+              <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.muted }} data-testid="text-no-sessions">
+                No conversion event on the site carries this quote&apos;s id, so its visits cannot be linked. The deal attribution above is all that was recorded.
+              </p>
+            </DashboardSection>
+          ) : (
+            <DashboardSection title="Sessions" description="Landing page, campaign tags and the page sequence of each visit." index={2}>
+              <DashboardGrid columns={{ sm: 1, md: 2, lg: 2 }}>
+                {data.sessions.map((s, i) => <SessionCard key={`${s.session_id ?? 'anon'}-${i}`} session={s} index={i} />)}
+              </DashboardGrid>
+            </DashboardSection>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function QuoteJourneyPage() {
+  return (
+    <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
+      <Suspense fallback={null}>
+        <JourneyContent />
+      </Suspense>
+    </DashboardGuard>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useContext, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
 import { DashboardGuard } from '../../../../hooks/useRBAC';
 import { AccessDenied } from '../../../../components/dashboard';
 import { DashboardSection } from '../../../../components/dashboard/DashboardSection';
@@ -16,7 +17,9 @@ import { StatTile } from '../components/adminto/StatTile';
 import { AreaLineChart } from '../../../../components/dashboard/charts/AreaLineChart';
 import { magenta, indigo, violet } from '../../../../design/tokens/colors';
 import { getTargetForMetric } from '../lib/marketingTargets';
-import type { ExportSection } from '../../../../lib/exportUtils';
+import { qmsStatusColor } from '../lib/qmsStatusColors';
+import { QuoteCohortsPanel } from '../components/QuoteCohortsPanel';
+import { warmOutreachSections } from '../../../../lib/marketing-report-sections';
 import type {
   QMSAnalytics,
   QMSRecentDeal,
@@ -43,22 +46,6 @@ function timeAgo(iso: string | null): string {
   return `${days}d ago`;
 }
 
-const STATUS_COLORS: Record<string, string> = {
-  'Quote Submitted': indigo[500],
-  'Awaiting Response': indigo[600],
-  'Quote Approved': violet[500],
-  'Awaiting Deposit': violet[600],
-  'Deposit Paid': magenta[500],
-  'Mockups In Review': magenta[600],
-  'Revisions Requested': indigo[400],
-  'Revisions Adjusted': indigo[500],
-  'Design Approved': violet[500],
-  'Quote Paid': magenta[700],
-  'Not Interested': indigo[800],
-  'Pending Management Review': violet[400],
-  'Admin Review Changes Requested': violet[600],
-};
-
 function useQMSData(queryParams: Record<string, string>): { data: QMSAnalytics | null; loading: boolean; error: string | null } {
   const [data, setData] = useState<QMSAnalytics | null>(null);
   const [loading, setLoading] = useState(true);
@@ -121,7 +108,7 @@ function AgingBar({ label, count, total, color }: { label: string; count: number
 function StatusBreakdownRow({ item, maxCount }: { item: QMSStatusBreakdown; maxCount: number }) {
   const tc = useThemeColors();
   const pct = maxCount > 0 ? (item.count / maxCount) * 100 : 0;
-  const color = STATUS_COLORS[item.status] ?? indigo[500];
+  const color = qmsStatusColor(item.status);
   return (
     <div style={{ marginBottom: space['3'] }} data-testid={`status-row-${item.status.toLowerCase().replace(/\s+/g, '-')}`}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: space['1'] }}>
@@ -140,11 +127,18 @@ function StatusBreakdownRow({ item, maxCount }: { item: QMSStatusBreakdown; maxC
 
 function DealRow({ deal }: { deal: QMSRecentDeal }) {
   const tc = useThemeColors();
-  const color = STATUS_COLORS[deal.status] ?? indigo[500];
+  const color = qmsStatusColor(deal.status);
   return (
     <tr data-testid={`deal-row-${deal.quote_number}`}>
       <td style={{ padding: `${space['2']} ${space['3']}`, fontFamily: fontFamily.body, fontSize: fontSize.base, fontWeight: fontWeight.medium, color: tc.text.primary }}>
-        {deal.quote_number}
+        <Link
+          href={`/dashboard/marketing/warm-outreach/journey?quote=${encodeURIComponent(deal.quote_number)}`}
+          title="View visitor journey"
+          style={{ color: indigo[600], textDecoration: 'none' }}
+          data-testid={`link-journey-${deal.quote_number}`}
+        >
+          {deal.quote_number}
+        </Link>
       </td>
       <td style={{ padding: `${space['2']} ${space['3']}`, fontFamily: fontFamily.body, fontSize: fontSize.base, color: tc.text.secondary }}>
         {deal.customer_name ?? '\u2014'}
@@ -207,7 +201,7 @@ function EmptyDataCard({ title, description }: { title: string; description: str
 
 export default function WarmOutreachPage() {
   const tc = useThemeColors();
-  const { data, loading, error, queryParams } = useContext(MarketingContext);
+  const { data, loading, error, queryParams, targets } = useContext(MarketingContext);
   const qms = useQMSData(queryParams);
 
   const conversions = data?.recent_conversions ?? [];
@@ -228,148 +222,7 @@ export default function WarmOutreachPage() {
     : 0;
   const maxStatusCount = qmsStatusBreakdown.reduce((m, s) => Math.max(m, s.count), 0);
 
-  const exportSections = useMemo<ExportSection[]>(() => {
-    const sections: ExportSection[] = [];
-
-    if (qmsAvailable && qmsPipeline) {
-      sections.push({
-        type: 'kpis',
-        title: 'QMS Pipeline Summary',
-        items: [
-          { label: 'Active Pipeline', value: formatUSD(qmsPipeline.pipeline_value_usd) },
-          { label: 'Active Deals', value: qmsPipeline.active_deals },
-          { label: 'Won Revenue', value: formatUSD(qmsPipeline.won_revenue_usd) },
-          { label: 'Avg Deal Size', value: formatUSD(qmsPipeline.avg_deal_value_usd) },
-        ],
-      });
-    }
-
-    if (qmsAvailable && qmsCloseRate) {
-      sections.push({
-        type: 'kpis',
-        title: 'Close Rate (90d)',
-        items: [
-          { label: 'Close Rate', value: `${(qmsCloseRate.rate * 100).toFixed(1)}%` },
-          { label: 'Won', value: qmsCloseRate.won },
-          { label: 'Lost', value: qmsCloseRate.lost },
-          { label: 'Open', value: qmsCloseRate.open },
-          { label: 'Total', value: qmsCloseRate.total },
-          { label: 'Won Revenue', value: formatUSD(qmsCloseRate.won_revenue_usd) },
-          { label: 'Lost Revenue', value: formatUSD(qmsCloseRate.lost_revenue_usd) },
-          ...(qmsCloseRate.decision_rate > 0 ? [{ label: 'Decision Win Rate', value: `${(qmsCloseRate.decision_rate * 100).toFixed(0)}%` }] : []),
-        ],
-      });
-    }
-
-    if (qmsAvailable && qmsVelocity) {
-      sections.push({
-        type: 'kpis',
-        title: 'Deal Velocity (90d)',
-        items: [
-          { label: 'Avg Days to Close', value: qmsVelocity.avg_days_to_close },
-          { label: 'Avg Days to Deposit', value: qmsVelocity.avg_days_to_deposit },
-          { label: 'Sample Size', value: qmsVelocity.sample_size },
-        ],
-      });
-    }
-
-    if (qmsAvailable && qmsAging) {
-      sections.push({
-        type: 'kpis',
-        title: 'Quote Aging',
-        items: [
-          { label: '0-2 Days', value: qmsAging.bucket_0_2d },
-          { label: '3-7 Days', value: qmsAging.bucket_3_7d },
-          { label: '8-14 Days', value: qmsAging.bucket_8_14d },
-          { label: '15+ Days', value: qmsAging.bucket_15_plus },
-        ],
-      });
-    }
-
-    if (qmsStatusBreakdown.length > 0) {
-      sections.push({
-        type: 'table',
-        title: 'Status Breakdown',
-        columns: [
-          { key: 'status', label: 'Status' },
-          { key: 'count', label: 'Count', format: 'number' },
-          { key: 'value_usd', label: 'Value', format: 'currency' },
-        ],
-        rows: qmsStatusBreakdown.map((s) => ({ status: s.status, count: s.count, value_usd: s.value_usd })),
-      });
-    }
-
-    if (qmsAvailable && qms.data?.click_to_quote) {
-      const ctq = qms.data.click_to_quote;
-      sections.push({
-        type: 'kpis',
-        title: 'Click-to-Quote Rate (90d)',
-        items: [
-          { label: 'Blended Rate', value: `${(ctq.blended_rate * 100).toFixed(2)}%` },
-          { label: 'Total Quotes', value: ctq.total_quotes },
-          { label: 'Organic Rate', value: `${(ctq.organic_rate * 100).toFixed(2)}%` },
-          { label: 'Organic Clicks', value: ctq.organic_clicks },
-          { label: 'Organic Quotes', value: ctq.organic_quotes },
-          { label: 'Paid Rate', value: `${(ctq.paid_rate * 100).toFixed(2)}%` },
-          { label: 'Paid Clicks', value: ctq.paid_clicks },
-          { label: 'Paid Quotes', value: ctq.paid_quotes },
-        ],
-      });
-    }
-
-    if (qmsAvailable && qmsDiscount) {
-      sections.push({
-        type: 'kpis',
-        title: 'Discount Usage (90d)',
-        items: [
-          { label: 'With Discount', value: qmsDiscount.with_discount },
-          { label: 'Redeemed', value: qmsDiscount.discount_redeemed },
-          { label: 'Total', value: qmsDiscount.total },
-          { label: 'Offer Rate', value: qmsDiscount.total > 0 ? `${((qmsDiscount.with_discount / qmsDiscount.total) * 100).toFixed(0)}%` : '0%' },
-          ...(qmsDiscount.avg_discount_pct > 0 ? [{ label: 'Avg Discount', value: `${qmsDiscount.avg_discount_pct}%` }] : []),
-        ],
-      });
-    }
-
-    if (qmsAttribution.length > 0) {
-      sections.push({
-        type: 'table',
-        title: 'Source Attribution',
-        columns: [
-          { key: 'source', label: 'Source' },
-          { key: 'count', label: 'Quotes', format: 'number' },
-          { key: 'value_usd', label: 'Pipeline', format: 'currency' },
-          { key: 'won', label: 'Won', format: 'number' },
-        ],
-        rows: qmsAttribution.map((a) => ({ source: a.source, count: a.count, value_usd: a.value_usd, won: a.won })),
-      });
-    }
-
-    if (qmsRecentDeals.length > 0) {
-      sections.push({
-        type: 'table',
-        title: 'Recent Deals',
-        columns: [
-          { key: 'quote_number', label: 'Quote #' },
-          { key: 'customer_name', label: 'Customer' },
-          { key: 'status', label: 'Status' },
-          { key: 'total_price_usd', label: 'Value', format: 'currency' },
-          { key: 'sign_type', label: 'Type' },
-          { key: 'updated_at', label: 'Updated' },
-        ],
-        rows: qmsRecentDeals.map((d) => ({
-          quote_number: d.quote_number,
-          customer_name: d.customer_name ?? '',
-          status: d.status,
-          total_price_usd: d.total_price_usd,
-          sign_type: d.sign_type ?? '',
-          updated_at: d.updated_at ? formatDate(d.updated_at) : '',
-        })),
-      });
-    }
-
-    return sections;
-  }, [qmsAvailable, qmsPipeline, qmsCloseRate, qmsVelocity, qmsAging, qmsStatusBreakdown, qmsDiscount, qms.data?.click_to_quote, qmsAttribution, qmsRecentDeals]);
+  const exportSections = useMemo(() => warmOutreachSections(qms.data), [qms.data]);
 
   return (
     <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
@@ -461,7 +314,7 @@ export default function WarmOutreachPage() {
             const submissions = data?.timeseries?.submissions ?? [];
             if (!submissions.length && !loading) return null;
             const chartData = submissions.map((s) => ({ date: s.date, submissions: s.value }));
-            const target = getTargetForMetric('submissions', chartData.length || 30);
+            const target = getTargetForMetric('submissions', data?.period, targets);
             return (
               <AreaLineChart
                 data={chartData}
@@ -565,11 +418,24 @@ export default function WarmOutreachPage() {
                       <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted, marginTop: space['2'] }}>
                         Based on {qmsVelocity.sample_size} closed deals
                       </p>
+                      {qmsVelocity.stage_durations && qmsVelocity.stage_durations.length > 0 && (
+                        <div style={{ marginTop: space['3'], paddingTop: space['3'], borderTop: `1px solid ${tc.border.default}` }} data-testid="list-stage-durations">
+                          <p style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, fontWeight: fontWeight.medium, color: tc.text.secondary, marginBottom: space['1'] }}>
+                            Avg time in stage
+                          </p>
+                          {qmsVelocity.stage_durations.slice(0, 6).map((s) => (
+                            <div key={s.stage} style={{ display: 'flex', justifyContent: 'space-between', fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>
+                              <span>{s.stage}</span>
+                              <span title={`${s.sample_size} completed transitions`}>{s.avg_days}d</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
                 </DashboardCard>
 
-                <DashboardCard title="Quote Aging" loading={qms.loading}>
+                <DashboardCard title="Quote Aging (time in current stage)" loading={qms.loading}>
                   {qmsAging && (
                     <div data-testid="card-aging">
                       <AgingBar label="0-2 days" count={qmsAging.bucket_0_2d} total={agingTotal} color={magenta[500]} />
@@ -700,7 +566,7 @@ export default function WarmOutreachPage() {
             )}
 
             {qmsRecentDeals.length > 0 && (
-              <DashboardSection title="Recent Deals" description="Latest updated quotes from the QMS." index={8}>
+              <DashboardSection title="Recent Deals" description="Latest updated quotes from the QMS. Click a quote number for its visitor journey." index={8}>
                 <div style={{
                   backgroundColor: tc.background.surface,
                   border: `1px solid ${tc.border.default}`,
@@ -739,6 +605,8 @@ export default function WarmOutreachPage() {
                 </div>
               </DashboardSection>
             )}
+
+            <QuoteCohortsPanel index={9} />
           </>
         )}
 
@@ -776,7 +644,7 @@ export default function WarmOutreachPage() {
           </DashboardSection>
         )}
 
-        <DashboardSection title="Web Analytics" description="Conversion events and pipeline from existing sources." index={9}>
+        <DashboardSection title="Web Analytics" description="Conversion events and pipeline from existing sources." index={10}>
           <DashboardGrid columns={{ sm: 1, md: 2, lg: 3 }}>
             <DashboardCard title="Recent Conversions" loading={loading}>
               <p style={{ fontFamily: fontFamily.body, fontSize: fontSize['3xl'], fontWeight: fontWeight.semibold, color: tc.text.primary }} data-testid="text-warm-conversions">
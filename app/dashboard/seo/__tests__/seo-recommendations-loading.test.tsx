@@ -27,6 +27,7 @@ vi.mock('../../../../lib/seoApi', () => ({
   approveSeoPageEnhancement: vi.fn(),
   bulkApproveSeoPageEnhancements: vi.fn(),
   rejectSeoPageEnhancement: vi.fn(),
+  revertSeoPageEnhancement: vi.fn(),
   skipSeoCandidate: vi.fn(),
 }));
 
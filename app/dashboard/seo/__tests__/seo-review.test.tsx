@@ -72,6 +72,7 @@ vi.mock('../../../../lib/seoApi', () => ({
   getSeoShipped: vi.fn(),
   getSeoOffpageBriefs: vi.fn(),
   getSeoSystemHealth: vi.fn(),
+  getSeoMetricContractHealth: vi.fn(),
   getSeoOverviewKpis: vi.fn(),
 }));
 
@@ -272,6 +273,7 @@ beforeEach(() => {
   vi.mocked(seoApi.getSeoShipped).mockResolvedValue([] as never);
   vi.mocked(seoApi.getSeoOffpageBriefs).mockResolvedValue([] as never);
   vi.mocked(seoApi.getSeoSystemHealth).mockResolvedValue([] as never);
+  vi.mocked(seoApi.getSeoMetricContractHealth).mockResolvedValue({ last_checked_at: null, counts: { pass: 0, breach: 0, error: 0, unchecked: 0 }, rows: [] });
   vi.mocked(seoApi.getSeoOverviewKpis).mockResolvedValue({ metric_contracts: [] } as never);
 });
 
@@ -21,9 +21,10 @@ import {
 } from '../../../lib/seoApi';
 import { fmtDataForSeoCpc, fmtDataForSeoDifficulty, fmtDataForSeoVolume } from '../../../lib/dataforseoFormat';
 import { Term, TERM_DEFS, LANE_EXPLAINER } from '../../../design/components/Term';
+import { formatReviewer } from '../../../lib/seo-review';
 import type {
   PortfolioPage, PortfolioBucket, PageDossier, PageDossierCandidate,
-  PageDossierMeta, PageDossierKeywordTarget, PageGateTransition, SeoOffpageBrief,
+  PageDossierMeta, PageDossierKeywordTarget, PageGateTransition, PageReviewDecision, SeoOffpageBrief,
   PageDossierRankedAction, SeoWindowRequest,
 } from '../../../lib/seoApi';
 
@@ -626,6 +627,7 @@ export function CandidateCard({
 
   const statusLabel = done ?? c.approval_status ?? 'pending';
   const statusToneKey: ToneKey = statusLabel === 'approved' ? 'good' : statusLabel === 'rejected' ? 'bad' : 'warn';
+  const reviewedBy = done ? null : formatReviewer(c);
 
   return (
     <div
@@ -661,6 +663,11 @@ export function CandidateCard({
           {c.why ?? c.evidence_summary}
         </div>
       )}
+      {reviewedBy && c.reviewed_at && (
+        <div style={{ marginTop: space['1'], fontFamily: fontFamily.body, fontSize: '11px', color: tc.text.muted }} data-testid={`text-reviewed-by-${c.candidate_id}`}>
+          Last reviewed by {reviewedBy} · {new Date(c.reviewed_at).toLocaleDateString()}
+        </div>
+      )}
 
       {err && (
         <div style={{ marginTop: space['2'], fontSize: '12px', color: PALETTE.bad, fontFamily: fontFamily.body }}>
@@ -914,6 +921,32 @@ export function GateTransitionNote({ transitions, tc }: { transitions: PageGateT
   );
 }
 
+// Who approved or rejected this page's candidates. Renders NOTHING when no
+// candidate has been reviewed. Decisions made before reviewer identity was
+// recorded show as "unrecorded reviewer" rather than a guessed name.
+export function ReviewDecisionTrail({ reviews, tc }: { reviews: PageReviewDecision[] | null | undefined; tc: Tc }) {
+  const list = reviews ?? [];
+  if (list.length === 0) return null;
+  return (
+    <div style={{ marginTop: space['4'] }} data-testid="section-review-decisions">
+      <div style={sectionLabelStyle(tc)}>Review decisions</div>
+      <div style={{ border: `1px solid ${tc.border.default}`, borderRadius: radius.md, padding: space['3'], background: tc.background.surface }}>
+        {list.map((r, i) => (
+          <div key={`${r.candidate_id}-${i}`} style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.secondary, paddingTop: i ? space['2'] : 0 }} data-testid={`row-review-decision-${i}`}>
+            <span style={{ fontWeight: fontWeight.medium, color: r.approval_status === 'approved' ? PALETTE.good : r.approval_status === 'rejected' ? PALETTE.bad : tc.text.primary }}>
+              {r.approval_status || '—'}
+            </span>
+            <span> · {r.mutation_label || 'change'}</span>
+            <span> · {formatReviewer(r) ?? 'unrecorded reviewer'}</span>
+            {r.reviewed_at && <span style={{ color: tc.text.muted }}> · {new Date(r.reviewed_at).toLocaleDateString()}</span>}
+            {r.review_notes && <div style={{ color: tc.text.muted }}>{r.review_notes}</div>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 // Lane 3 off-page briefs. Self-fetches by url so it is reusable in either screen.
 export function OffpageBriefSection({ url, tc, window }: { url: string; tc: Tc; window?: SeoWindowRequest }) {
   const [briefs, setBriefs] = useState<SeoOffpageBrief[] | null>(null);
@@ -1255,6 +1288,9 @@ export function PageDossierDrawer({
             {/* Gate decision trail (renders nothing when empty) */}
             <GateTransitionNote transitions={dossier.transitions} tc={tc} />
 
+            {/* Who approved / rejected this page's changes (renders nothing when empty) */}
+            <ReviewDecisionTrail reviews={dossier.reviews} tc={tc} />
+
             {/* Keyword targets (engine-selected) */}
             <KeywordTargetsSection meta={dossier.dossier} tc={tc} />
 
@@ -0,0 +1,149 @@
+'use client';
+
+// =============================================================================
+// Contract Health panel (read-only).
+// One row per enabled metric contract (analytics.seo_dashboard_metric_contract)
+// with its latest reconciliation from /api/cron/metric-contracts: the
+// authoritative value, the value the dashboard serves, the drift between them
+// and whether it is within the contract's tolerance. Shared by the SEO
+// Command Center and Marketing › Data Health so both surfaces show the same
+// verdict when they disagree on a number such as organic clicks.
+// =============================================================================
+
+import React from 'react';
+import { fontFamily, fontWeight } from '../../../../design/tokens/typography';
+import { space, radius } from '../../../../design/tokens/spacing';
+import type { SeoMetricContractHealth, SeoMetricContractRow } from '../../../../lib/seoApi';
+import { PALETTE, monoStack, Tc, ToneKey, Pill, sectionLabelStyle } from '../_shared';
+import { formatHealthTime } from './SystemHealthPanel';
+
+export function contractTone(row: SeoMetricContractRow): ToneKey {
+  if (row.status === 'breach') return 'bad';
+  if (row.status === 'error') return 'warn';
+  if (row.status === 'pass') return 'good';
+  return 'neutral';
+}
+
+const STATUS_LABEL: Record<string, string> = {
+  pass: 'in tolerance',
+  breach: 'drift',
+  error: 'check failed',
+};
+
+export function fmtContractValue(n: number | null): string {
+  if (n == null) return '—';
+  return n.toLocaleString('en-US', { maximumFractionDigits: Math.abs(n) < 100 ? 3 : 0 });
+}
+
+function toleranceText(row: SeoMetricContractRow): string {
+  const parts: string[] = [];
+  parts.push(row.tolerance_abs > 0 ? `±${fmtContractValue(row.tolerance_abs)}` : 'exact');
+  if (row.tolerance_pct > 0) parts.push(`or ±${row.tolerance_pct}%`);
+  return parts.join(' ');
+}
+
+export function MetricContractHealthPanel({
+  tc,
+  health,
+  error,
+  title = 'Contract Health',
+  description = 'Each dashboard number checked daily against its authoritative query. Drift means two surfaces disagree on the same metric.',
+}: {
+  tc: Tc;
+  health: SeoMetricContractHealth | null;
+  error: string | null;
+  title?: string;
+  description?: string;
+}) {
+  const counts = health?.counts ?? { pass: 0, breach: 0, error: 0, unchecked: 0 };
+  const rows = health?.rows ?? [];
+
+  return (
+    <div
+      style={{ background: tc.background.surface, border: `1px solid ${tc.border.default}`, borderRadius: radius.md, padding: 0, marginBottom: space['6'] }}
+      data-testid="panel-contract-health"
+    >
+      <div style={{ padding: space['5'], borderBottom: `1px solid ${tc.border.subtle}`, display: 'flex', justifyContent: 'space-between', gap: space['4'], flexWrap: 'wrap', alignItems: 'flex-start' }}>
+        <div>
+          <div style={sectionLabelStyle(tc)}>{title}</div>
+          <div style={{ fontFamily: fontFamily.body, fontSize: '13px', color: tc.text.muted, marginTop: '3px' }}>
+            {description}
+          </div>
+          {health && (
+            <div style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted, marginTop: '3px' }}>
+              Last checked {formatHealthTime(health.last_checked_at)}
+            </div>
+          )}
+        </div>
+        <div style={{ display: 'flex', gap: space['2'], flexWrap: 'wrap', justifyContent: 'flex-end' }}>
+          <Pill tone={counts.breach ? 'bad' : 'good'} tc={tc}>{counts.breach} drifting</Pill>
+          <Pill tone={counts.error ? 'warn' : 'good'} tc={tc}>{counts.error} failed</Pill>
+          <Pill tone="good" tc={tc}>{counts.pass} in tolerance</Pill>
+          {counts.unchecked > 0 && <Pill tone="neutral" tc={tc}>{counts.unchecked} unchecked</Pill>}
+        </div>
+      </div>
+
+      {error && (
+        <div style={{ padding: space['5'], color: PALETTE.bad, fontFamily: fontFamily.body, fontSize: '13px' }} data-testid="error-contract-health">
+          Contract health unavailable.
+        </div>
+      )}
+      {!error && !health && (
+        <div style={{ padding: space['5'], color: tc.text.muted, fontFamily: fontFamily.body, fontSize: '13px' }}>
+          Loading contract health…
+        </div>
+      )}
+      {!error && health && rows.length === 0 && (
+        <div style={{ padding: space['5'], color: tc.text.muted, fontFamily: fontFamily.body, fontSize: '13px' }}>
+          No metric contracts are enabled — contracts live in analytics.seo_dashboard_metric_contract.
+        </div>
+      )}
+      {!error && rows.length > 0 && (
+        <div style={{ padding: `0 ${space['5']}` }}>
+          {rows.map((row) => {
+            const tone = contractTone(row);
+            return (
+              <div
+                key={row.metric_key}
+                style={{ padding: `${space['3']} 0`, borderBottom: `1px solid ${tc.border.subtle}`, display: 'flex', justifyContent: 'space-between', gap: space['3'], alignItems: 'flex-start', flexWrap: 'wrap' }}
+                data-testid={`contract-health-${row.metric_key}`}
+              >
+                <div style={{ minWidth: 0, flex: '1 1 320px' }}>
+                  <div style={{ display: 'flex', gap: space['2'], alignItems: 'center', flexWrap: 'wrap' }}>
+                    <Pill tone={tone} tc={tc}>{row.status ? STATUS_LABEL[row.status] : 'not checked'}</Pill>
+                    <span style={{ fontFamily: fontFamily.body, fontSize: '14px', fontWeight: fontWeight.semibold, color: tc.text.primary }}>{row.label}</span>
+                    {row.window_label && (
+                      <span style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted }}>{row.window_label}</span>
+                    )}
+                  </div>
+                  <div style={{ marginTop: '4px', fontFamily: monoStack, fontSize: '11px', color: tc.text.muted }}>
+                    {row.metric_key} · tolerance {toleranceText(row)}
+                  </div>
+                  {row.error && (
+                    <div style={{ marginTop: '6px', fontFamily: fontFamily.body, fontSize: '12px', color: PALETTE.warn, wordBreak: 'break-word' }}>
+                      {row.error}
+                    </div>
+                  )}
+                </div>
+                <div style={{ textAlign: 'right', minWidth: 200 }}>
+                  <div style={{ fontFamily: monoStack, fontSize: '13px', color: tc.text.primary }}>
+                    {fmtContractValue(row.authoritative_value)} vs {fmtContractValue(row.served_value)}
+                  </div>
+                  <div style={{ fontFamily: fontFamily.body, fontSize: '11px', color: tone === 'bad' ? PALETTE.bad : tc.text.muted }}>
+                    authoritative vs served
+                    {row.drift_abs != null && row.drift_abs > 0 && (
+                      <> · drift {fmtContractValue(row.drift_abs)}{row.drift_pct != null ? ` (${row.drift_pct.toFixed(2)}%)` : ''}</>
+                    )}
+                  </div>
+                  <div style={{ fontFamily: fontFamily.body, fontSize: '11px', color: tc.text.muted }}>
+                    {formatHealthTime(row.checked_at)}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { space, radius } from '../../../../design/tokens/spacing';
 import { magenta, violet } from '../../../../design/tokens/colors';
 import { Icon } from '../../../../design/components/Icon';
 import { useBootstrap } from '../../../../contexts/BootstrapContext';
+import { SEO_APPROVE_PERMISSION } from '../../../../lib/seo-review';
 import type { SeoRecommendation } from '../../../../lib/seoApi';
 
 interface RecommendationPanelProps {
@@ -27,7 +28,7 @@ const STATUS_STYLES: Record<string, { bg: string; text: string; label: string }>
 export function RecommendationPanel({ recommendation, onClose, onApprove, onReject, onFeedback, actionLoading }: RecommendationPanelProps) {
   const tc = useThemeColors();
   const { hasPermission } = useBootstrap();
-  const canApprove = hasPermission('seo:approve');
+  const canApprove = hasPermission(SEO_APPROVE_PERMISSION);
   const isPending = recommendation.status === 'pending_review';
   const status = STATUS_STYLES[recommendation.status] || STATUS_STYLES.pending_review;
 
@@ -3,10 +3,12 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { DashboardGuard } from '../../../hooks/useRBAC';
 import { AccessDenied } from '../../../components/dashboard';
-import { getSeoNorthStar } from '../../../lib/seoApi';
-import type { SeoNorthStar, SeoPipelineCounts } from '../../../lib/seoApi';
+import { useThemeColors } from '../../../hooks/useThemeColors';
+import { getSeoMetricContractHealth, getSeoNorthStar } from '../../../lib/seoApi';
+import type { SeoMetricContractHealth, SeoNorthStar, SeoPipelineCounts } from '../../../lib/seoApi';
 import { EmptyState, SeoCard } from './_shared';
 import { PipelineTile } from './components/PipelineTile';
+import { MetricContractHealthPanel } from './components/MetricContractHealthPanel';
 
 function fmtPct(n: number): string {
   const sign = n > 0 ? '+' : n < 0 ? '-' : '';
@@ -150,11 +152,14 @@ function NorthStarSkeleton() {
 }
 
 function CommandCenterContent() {
+  const tc = useThemeColors();
   const [ns, setNs] = useState<SeoNorthStar | null>(null);
   const [pipeline, setPipeline] = useState<SeoPipelineCounts | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [tick, setTick] = useState(0);
+  const [contracts, setContracts] = useState<SeoMetricContractHealth | null>(null);
+  const [contractsError, setContractsError] = useState<string | null>(null);
 
   useEffect(() => {
     let alive = true;
@@ -181,6 +186,14 @@ function CommandCenterContent() {
     return () => { alive = false; clearTimeout(timeout); };
   }, [tick]);
 
+  useEffect(() => {
+    let alive = true;
+    getSeoMetricContractHealth()
+      .then((health) => { if (alive) setContracts(health); })
+      .catch((err) => { if (alive) setContractsError(err instanceof Error ? err.message : 'Failed to load'); });
+    return () => { alive = false; };
+  }, []);
+
   const freshLabel = ns
     ? new Date(ns.data_freshness_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })
     : null;
@@ -219,6 +232,10 @@ function CommandCenterContent() {
       ) : (
         <EmptyState icon="!" title="Pipeline unavailable" body="The North Star API responded without pipeline counts." />
       )}
+
+      <div style={{ marginTop: 24 }}>
+        <MetricContractHealthPanel tc={tc} health={contracts} error={contractsError} />
+      </div>
     </div>
   );
 }
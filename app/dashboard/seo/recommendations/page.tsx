@@ -5,6 +5,9 @@
 // Decision unit: one page enhancement package from
 // analytics.v_seo_page_enhancement_queue. Candidate-level rows remain available
 // only as drill-down details behind each field chip.
+// Approved packages sit in "Pending release" for the server's grace window
+// (SEO_RELEASE_GRACE_MINUTES) and can be reverted there; released packages in
+// evaluation can be rolled back to their pre-change values.
 // =============================================================================
 
 import React, { useCallback, useEffect, useMemo, useState } from 'react';
@@ -20,9 +23,11 @@ import {
   bulkApproveSeoPageEnhancements,
   getSeoPageEnhancements,
   rejectSeoPageEnhancement,
+  revertSeoPageEnhancement,
   skipSeoCandidate,
 } from '../../../../lib/seoApi';
-import type { SeoPageEnhancementChange, SeoPageEnhancementLifecycle, SeoPageEnhancementMember, SeoPageEnhancementPackage, SeoPageEnhancementsResponse } from '../../../../lib/seoApi';
+import type { SeoPackageReleaseHold, SeoPageEnhancementChange, SeoPageEnhancementLifecycle, SeoPageEnhancementMember, SeoPageEnhancementPackage, SeoPageEnhancementsResponse } from '../../../../lib/seoApi';
+import { formatReviewer } from '../../../../lib/seo-review';
 import { EmptyState, PALETTE, monoStack, Pill, fmtInt, pathOf } from '../_shared';
 
 type Stage = 'review' | 'evaluating' | 'resolved';
@@ -609,13 +614,74 @@ function PackageCard({
   );
 }
 
+function releaseText(hold: SeoPackageReleaseHold, now: number): string {
+  const ms = new Date(hold.release_after).getTime() - now;
+  if (Number.isNaN(ms)) return 'Release time unknown';
+  if (ms <= 0) return hold.release_error ? `Release retrying · ${hold.release_error}` : 'Releasing shortly';
+  const mins = Math.ceil(ms / 60_000);
+  return `Releases in ${mins} min`;
+}
+
+function PendingReleaseCard({
+  hold,
+  now,
+  busy,
+  onRevert,
+  tc,
+}: {
+  hold: SeoPackageReleaseHold;
+  now: number;
+  busy: boolean;
+  onRevert: (hold: SeoPackageReleaseHold, e: React.MouseEvent) => void;
+  tc: ReturnType<typeof useThemeColors>;
+}) {
+  const approvedBy = formatReviewer({
+    reviewer_id: hold.approved_by,
+    reviewer_email: hold.approved_by_email,
+    reviewer_name: hold.approved_by_name,
+  }) ?? 'you';
+  return (
+    <article
+      style={{ display: 'flex', justifyContent: 'space-between', gap: space['3'], alignItems: 'center', flexWrap: 'wrap', border: `1px solid ${tc.border.default}`, borderLeft: `3px solid ${PALETTE.warn}`, borderRadius: radius.md, background: tc.background.surface, padding: space['3'] }}
+      data-testid={`pending-release-card-${hold.enhancement_id}`}
+    >
+      <div style={{ minWidth: 0 }}>
+        <div style={{ display: 'flex', gap: space['2'], alignItems: 'center', flexWrap: 'wrap', marginBottom: '2px' }}>
+          <Pill tone="warn" tc={tc}>pending release</Pill>
+          <Pill tone="violet" tc={tc}>{fmtInt(hold.member_count)} fields</Pill>
+        </div>
+        <div style={{ fontSize: '15px', fontWeight: fontWeight.semibold, color: tc.text.primary, wordBreak: 'break-word' }}>
+          {pathOf(hold.rep_url || hold.canonical_url || '')}
+        </div>
+        <div style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted }}>
+          Approved by {approvedBy} · {releaseText(hold, now)}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={(e) => onRevert(hold, e)}
+        disabled={busy}
+        className="seo-button seo-button-secondary"
+        data-testid={`button-revert-package-${hold.enhancement_id}`}
+      >
+        Revert
+      </button>
+    </article>
+  );
+}
+
 function LifecycleCard({
   row,
   policy,
+  busy,
+  onRevert,
   tc,
 }: {
   row: SeoPageEnhancementLifecycle;
   policy: SeoPageEnhancementsResponse['policy'];
+  busy?: boolean;
+  // Present for packages still in evaluation: rolls released changes back.
+  onRevert?: (row: SeoPageEnhancementLifecycle, e: React.MouseEvent) => void;
   tc: ReturnType<typeof useThemeColors>;
 }) {
   const path = pathOf(row.rep_url || row.canonical_url);
@@ -640,6 +706,19 @@ function LifecycleCard({
         </div>
         <div style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted, textAlign: 'right' }}>
           {countdownText(row, policy)}
+          {onRevert && (
+            <div style={{ marginTop: space['2'] }}>
+              <button
+                type="button"
+                onClick={(e) => onRevert(row, e)}
+                disabled={busy}
+                className="seo-button seo-button-secondary"
+                data-testid={`button-rollback-package-${row.enhancement_id}`}
+              >
+                Roll back
+              </button>
+            </div>
+          )}
         </div>
       </div>
       <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(180px, 1fr))', gap: space['2'], marginTop: space['4'] }}>
@@ -661,6 +740,8 @@ function RecommendationsContent() {
   const tc = useThemeColors();
   const [data, setData] = useState<SeoPageEnhancementsResponse | null>(null);
   const [packages, setPackages] = useState<SeoPageEnhancementPackage[]>([]);
+  const [pendingRelease, setPendingRelease] = useState<SeoPackageReleaseHold[]>([]);
+  const [now, setNow] = useState(() => Date.now());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState('');
@@ -700,6 +781,7 @@ function RecommendationsContent() {
         clearTimeout(timeout);
         setData(res);
         setPackages(res.packages ?? []);
+        setPendingRelease(res.pending_release ?? []);
         setActiveIndex(0);
         setLoading(false);
       })
@@ -714,6 +796,14 @@ function RecommendationsContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [tick]);
 
+  // Keep the release countdown current while anything is held.
+  useEffect(() => {
+    if (pendingRelease.length === 0) return;
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(id);
+  }, [pendingRelease.length]);
+
   const filtered = useMemo(() => {
     const term = search.trim().toLowerCase();
     return packages
@@ -761,6 +851,29 @@ function RecommendationsContent() {
     setPackages(prev => prev.filter(p => p.enhancement_id !== enhancementId));
   }, []);
 
+  // Shows a just-approved package under "Pending release" without a reload.
+  const addPendingRelease = useCallback((pkg: SeoPageEnhancementPackage, releaseAfter: string | undefined) => {
+    if (!releaseAfter) return;
+    setPendingRelease(prev => [
+      ...prev.filter(h => h.enhancement_id !== pkg.enhancement_id),
+      {
+        hold_id: '',
+        enhancement_id: pkg.enhancement_id,
+        canonical_url: pkg.canonical_url,
+        rep_url: pkg.rep_url,
+        member_count: pkg.members.length,
+        status: 'held',
+        approved_by: '',
+        approved_by_email: null,
+        approved_by_name: null,
+        approved_at: new Date().toISOString(),
+        release_after: releaseAfter,
+        released_at: null,
+        release_error: null,
+      },
+    ]);
+  }, []);
+
   const removeCandidate = useCallback((candidateId: string, enhancementId: string) => {
     setPackages(prev =>
       prev
@@ -788,9 +901,11 @@ function RecommendationsContent() {
         setBusy(true);
         setActionMsg(null);
         try {
-          await approveSeoPageEnhancement(pkg.enhancement_id);
+          const result = await approveSeoPageEnhancement(pkg.enhancement_id);
           removePackage(pkg.enhancement_id);
-          setActionMsg(`Approved ${pathOf(pkg.rep_url || pkg.canonical_url)}.`);
+          const held = result?.release_status === 'held';
+          if (held) addPendingRelease(pkg, result?.release_after);
+          setActionMsg(`Approved ${pathOf(pkg.rep_url || pkg.canonical_url)}.${held ? ' Held under Pending release — revert before it ships.' : ''}`);
         } catch (err) {
           setActionMsg(err instanceof Error ? err.message : 'Approval failed');
         } finally {
@@ -798,7 +913,39 @@ function RecommendationsContent() {
         }
       },
     });
-  }, [removePackage]);
+  }, [addPendingRelease, removePackage]);
+
+  const revertPackage = useCallback((target: { enhancement_id: string; rep_url: string | null; canonical_url: string | null }, released: boolean, e?: React.MouseEvent) => {
+    const path = pathOf(target.rep_url || target.canonical_url || '');
+    setPendingConfirm({
+      title: released
+        ? `Roll back ${path}? Fields not yet applied return to review; published fields are restored to their previous values.`
+        : `Revert approval of ${path}? Its fields return to the review queue and nothing is released.`,
+      anchorRect: (e?.currentTarget as HTMLElement | undefined)?.getBoundingClientRect(),
+      onConfirm: async () => {
+        setPendingConfirm(null);
+        setBusy(true);
+        setActionMsg(null);
+        try {
+          const result = await revertSeoPageEnhancement(target.enhancement_id);
+          if (result.status === 'skipped') {
+            setActionMsg(`Nothing to revert for ${path} (${result.reason ?? 'skipped'}).`);
+          } else {
+            setPendingRelease(prev => prev.filter(h => h.enhancement_id !== target.enhancement_id));
+            setActionMsg(
+              `Reverted ${path}: ${result.restored} field${result.restored === 1 ? '' : 's'} back to review`
+              + (result.rolled_back > 0 ? `, ${result.rolled_back} rollback${result.rolled_back === 1 ? '' : 's'} queued.` : '.'),
+            );
+            load();
+          }
+        } catch (err) {
+          setActionMsg(err instanceof Error ? err.message : 'Revert failed');
+        } finally {
+          setBusy(false);
+        }
+      },
+    });
+  }, [load]);
 
   const rejectPackage = useCallback(async (pkg: SeoPageEnhancementPackage, e?: React.MouseEvent) => {
     setPendingConfirm({
@@ -860,7 +1007,15 @@ function RecommendationsContent() {
           const approvedIds = new Set(safePackages.map(p => p.enhancement_id));
           const result = await bulkApproveSeoPageEnhancements(safePackages.map((pkg) => pkg.enhancement_id));
           setPackages(prev => prev.filter(p => !approvedIds.has(p.enhancement_id)));
-          setActionMsg(`Bulk approve complete: ${result.summary.approved} pages approved, ${result.summary.skipped} skipped.`);
+          for (const r of result.results ?? []) {
+            const pkg = safePackages.find((p) => p.enhancement_id === r.enhancement_id);
+            if (pkg && r.status === 'approved' && r.release_status === 'held') addPendingRelease(pkg, r.release_after);
+          }
+          const held = result.summary.held ?? 0;
+          setActionMsg(
+            `Bulk approve complete: ${result.summary.approved} pages approved, ${result.summary.skipped} skipped.`
+            + (held > 0 ? ` ${held} held under Pending release — revert any before they ship.` : ''),
+          );
         } catch (err) {
           setActionMsg(err instanceof Error ? err.message : 'Bulk approval failed');
         } finally {
@@ -1067,6 +1222,29 @@ function RecommendationsContent() {
         <EmptyState icon="⌕" title="No matches" body="No page packages match this filter." />
       )}
 
+      {stage === 'review' && !loading && !error && pendingRelease.length > 0 && (
+        <section style={{ marginBottom: space['5'] }} data-testid="section-pending-release">
+          <div style={{ display: 'flex', alignItems: 'baseline', gap: space['2'], marginBottom: space['2'] }}>
+            <h2 style={{ margin: 0, fontSize: '15px', fontWeight: fontWeight.semibold, color: tc.text.primary }}>Pending release</h2>
+            <span style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted }}>
+              Approved packages wait {fmtInt(data?.release_grace_minutes ?? 0)} min before they are released to publish.
+            </span>
+          </div>
+          <div style={{ display: 'grid', gap: space['2'] }}>
+            {pendingRelease.map((hold) => (
+              <PendingReleaseCard
+                key={hold.enhancement_id}
+                hold={hold}
+                now={now}
+                busy={busy}
+                onRevert={(h, e) => revertPackage(h, false, e)}
+                tc={tc}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {stage === 'review' && <div style={{ display: 'grid', gap: space['4'] }}>
         {!loading && !error && filtered.map((pkg, index) => (
           <PackageCard
@@ -1101,7 +1279,16 @@ function RecommendationsContent() {
                 <span style={{ fontFamily: fontFamily.body, fontSize: '12px', color: tc.text.muted }}>{fmtInt(rows.length)} page{rows.length === 1 ? '' : 's'}</span>
               </div>
               <div style={{ display: 'grid', gap: space['3'] }}>
-                {rows.map((row) => <LifecycleCard key={row.enhancement_id} row={row} policy={data?.policy ?? { first_verdict_days: 30, final_days: 60 }} tc={tc} />)}
+                {rows.map((row) => (
+                  <LifecycleCard
+                    key={row.enhancement_id}
+                    row={row}
+                    policy={data?.policy ?? { first_verdict_days: 30, final_days: 60 }}
+                    busy={busy}
+                    onRevert={stage === 'evaluating' ? (r, e) => revertPackage(r, true, e) : undefined}
+                    tc={tc}
+                  />
+                ))}
               </div>
             </section>
           ))}
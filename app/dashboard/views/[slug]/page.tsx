@@ -0,0 +1,32 @@
+'use client';
+
+// =============================================================================
+// Saved view short link.
+// /dashboard/views/:slug resolves a saved marketing view and replaces itself
+// with the sub-page and query string that reproduce its state.
+// =============================================================================
+
+import React, { useEffect, useState } from 'react';
+import { DashboardGuard } from '../../../../hooks/useRBAC';
+import { AccessDenied, EmptyStateCard } from '../../../../components/dashboard';
+import { resolveSavedViewLink } from '../../../../lib/marketingApi';
+
+export default function SavedViewLinkPage({ params }: { params: { slug: string } }) {
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    resolveSavedViewLink(params.slug)
+      .then(({ href }) => { if (alive) window.location.replace(href); })
+      .catch((err) => { if (alive) setError(err instanceof Error ? err.message : 'Saved view not found'); });
+    return () => { alive = false; };
+  }, [params.slug]);
+
+  return (
+    <DashboardGuard dashboard="marketing" fallback={<AccessDenied />}>
+      <div data-testid="saved-view-link">
+        <EmptyStateCard message={error ?? 'Opening saved view…'} />
+      </div>
+    </DashboardGuard>
+  );
+}
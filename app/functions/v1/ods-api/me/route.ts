@@ -31,6 +31,9 @@ export async function GET() {
       'dashboard:seo:view',
       'seo:read',
       'seo:approve',
+      'marketing:targets:edit',
+      'marketing:reports:manage',
+      'campaigns:review:manage',
     ],
     environment: {
       name: 'development' as const,
@@ -1,27 +1,193 @@
 'use client';
 
-import { useEffect } from 'react';
+/**
+ * Review Queue
+ *
+ * Campaigns waiting for review (PENDING_REVIEW), longest waiting first, with
+ * approval progress, assigned reviewers and comment counts. "Assigned to me"
+ * keeps campaigns the current user is a reviewer of. Reviewing happens on the
+ * campaign detail page.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { NSD_COLORS } from '../lib/design-tokens';
+import { PageHeader, Button, DataTable, SkeletonTable, EmptyState } from '../components/ui';
+import { NSD_COLORS, NSD_RADIUS, NSD_SPACING } from '../lib/design-tokens';
+import { getReviewQueue } from '../lib/api';
+import { formatReviewTime } from '../lib/campaign-review';
+import type { ReviewQueueFilter, ReviewQueueItem } from '../types/campaign-review';
+
+const FILTERS: { value: ReviewQueueFilter; label: string }[] = [
+  { value: 'all', label: 'All Pending' },
+  { value: 'mine', label: 'Assigned to Me' },
+];
 
 export default function ApprovalsPage() {
   const router = useRouter();
+  const [filter, setFilter] = useState<ReviewQueueFilter>('all');
+  const [items, setItems] = useState<ReviewQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    router.replace('/sales-engine?filter=PENDING_REVIEW');
-  }, [router]);
+    let alive = true;
+    setLoading(true);
+    getReviewQueue(filter).then((result) => {
+      if (!alive) return;
+      if (result.success) {
+        setItems(result.data);
+        setError(null);
+      } else {
+        setItems([]);
+        setError(result.error);
+      }
+      setLoading(false);
+    });
+    return () => { alive = false; };
+  }, [filter]);
+
+  const columns = [
+    {
+      key: 'name',
+      header: 'Campaign',
+      render: (item: ReviewQueueItem) => (
+        <div>
+          <div style={{ fontSize: '14px', fontWeight: 500, color: NSD_COLORS.text.primary, marginBottom: '2px' }}>
+            {item.name}
+          </div>
+          <div style={{ fontSize: '12px', color: NSD_COLORS.text.muted }}>
+            Round {item.review_round}
+            {item.submitted_by && <> · submitted by {item.submitted_by}</>}
+          </div>
+        </div>
+      ),
+    },
+    {
+      key: 'submitted_at',
+      header: 'Waiting Since',
+      hideOnMobile: true,
+      render: (item: ReviewQueueItem) => (
+        <span style={{ fontSize: '13px', color: NSD_COLORS.text.secondary }}>
+          {item.submitted_at ? formatReviewTime(item.submitted_at) : '—'}
+        </span>
+      ),
+    },
+    {
+      key: 'approvals',
+      header: 'Approvals',
+      render: (item: ReviewQueueItem) => (
+        <span
+          style={{
+            padding: '2px 8px',
+            fontSize: '12px',
+            fontWeight: 500,
+            color: NSD_COLORS.semantic.attention.text,
+            backgroundColor: NSD_COLORS.semantic.attention.bg,
+            borderRadius: NSD_RADIUS.sm,
+          }}
+        >
+          {item.approvals} of {item.required_approvals}
+        </span>
+      ),
+    },
+    {
+      key: 'reviewers',
+      header: 'Reviewers',
+      hideOnMobile: true,
+      render: (item: ReviewQueueItem) => (
+        <span style={{ fontSize: '13px', color: item.reviewers.length ? NSD_COLORS.text.secondary : NSD_COLORS.text.muted }}>
+          {item.reviewers.length ? item.reviewers.join(', ') : 'Anyone'}
+        </span>
+      ),
+    },
+    {
+      key: 'comments',
+      header: 'Comments',
+      align: 'right' as const,
+      hideOnMobile: true,
+      render: (item: ReviewQueueItem) => (
+        <span style={{ fontSize: '13px', color: NSD_COLORS.text.secondary }}>{item.comments}</span>
+      ),
+    },
+    {
+      key: 'viewer_decision',
+      header: 'Your Decision',
+      render: (item: ReviewQueueItem) => (
+        <span style={{ fontSize: '13px', color: item.viewer_decision ? NSD_COLORS.text.primary : NSD_COLORS.text.muted }}>
+          {item.viewer_decision === 'approved'
+            ? 'Approved'
+            : item.viewer_decision === 'changes_requested'
+              ? 'Changes requested'
+              : item.assigned_to_viewer ? 'Awaiting you' : '—'}
+        </span>
+      ),
+    },
+  ];
 
   return (
-    <div
-      style={{
-        minHeight: '100vh',
-        display: 'flex',
-        alignItems: 'center',
-        justifyContent: 'center',
-        backgroundColor: NSD_COLORS.surface,
-      }}
-    >
-      <p style={{ color: NSD_COLORS.text.secondary, fontSize: '14px' }}>Redirecting to campaigns...</p>
+    <div style={{ minHeight: '100vh', backgroundColor: NSD_COLORS.surface }}>
+      <div style={{ maxWidth: '1280px', margin: '0 auto', padding: 'clamp(16px, 4vw, 48px) clamp(16px, 4vw, 32px)' }}>
+        <PageHeader
+          title="Review Queue"
+          description="Campaigns waiting for approval. Open a campaign to comment, approve or request changes."
+          backHref="/sales-engine"
+          backLabel="Back to Campaigns"
+        />
+
+        <div style={{ display: 'flex', gap: NSD_SPACING.sm, marginBottom: NSD_SPACING.lg }}>
+          {FILTERS.map((f) => (
+            <Button
+              key={f.value}
+              variant={filter === f.value ? 'primary' : 'secondary'}
+              size="sm"
+              onClick={() => setFilter(f.value)}
+            >
+              {f.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading && <SkeletonTable rows={5} columns={5} />}
+
+        {!loading && error && (
+          <div
+            style={{
+              padding: NSD_SPACING.lg,
+              backgroundColor: NSD_COLORS.semantic.critical.bg,
+              borderRadius: NSD_RADIUS.xl,
+              color: NSD_COLORS.semantic.critical.text,
+              border: `1px solid ${NSD_COLORS.semantic.critical.border}`,
+              marginBottom: NSD_SPACING.lg,
+            }}
+          >
+            {error}{' '}
+            <Link href="/sales-engine?filter=PENDING_REVIEW" style={{ color: NSD_COLORS.semantic.critical.text }}>
+              View pending campaigns
+            </Link>
+          </div>
+        )}
+
+        {!loading && !error && items.length === 0 && (
+          <EmptyState
+            title={filter === 'mine' ? 'Nothing assigned to you' : 'No campaigns waiting for review'}
+            description={
+              filter === 'mine'
+                ? 'Campaigns appear here when you are assigned as a reviewer.'
+                : 'Campaigns appear here once they are submitted for approval.'
+            }
+          />
+        )}
+
+        {!loading && !error && items.length > 0 && (
+          <DataTable
+            columns={columns}
+            data={items}
+            keyExtractor={(item) => item.campaign_id}
+            onRowClick={(item) => router.push(`/sales-engine/campaigns/${item.campaign_id}`)}
+          />
+        )}
+      </div>
     </div>
   );
 }
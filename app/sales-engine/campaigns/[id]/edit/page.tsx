@@ -17,8 +17,11 @@ import Link from 'next/link';
 import { useRouter, useParams } from 'next/navigation';
 import { Icon } from '../../../../../design/components/Icon';
 import { WizardStep, WizardNav, FormField, TagInput } from '../../../components/wizard';
+import { VariantEditor } from '../../../components/variants';
 import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../../lib/design-tokens';
 import { updateCampaign } from '../../../lib/api';
+import { normalizeVariants, validateVariants } from '../../../lib/campaign-variants';
+import type { CampaignVariant } from '../../../types/campaign';
 import { featureFlags } from '../../../../../config/appConfig';
 
 /**
@@ -58,6 +61,7 @@ const WIZARD_STEPS = [
   { id: 'icp', label: 'ICP Definition' },
   { id: 'targeting', label: 'Contact Targeting' },
   { id: 'outreach', label: 'Outreach Context' },
+  { id: 'variants', label: 'Email Variants' },
   { id: 'targets', label: 'Targets (Optional)' },
 ];
 
@@ -79,6 +83,9 @@ type FormData = {
   valuePropositions: string[];
   painPoints: string[];
   callToAction: string;
+  personalizationFields: string[];
+  // Email variants (A/B weights sum to 100)
+  variants: CampaignVariant[];
   // Targets
   targetLeads: number | null;
   targetEmails: number | null;
@@ -104,6 +111,8 @@ const initialFormData: FormData = {
   valuePropositions: [],
   painPoints: [],
   callToAction: '',
+  personalizationFields: [],
+  variants: [],
   // Targets
   targetLeads: null,
   targetEmails: null,
@@ -175,6 +184,8 @@ export default function EditCampaignPage() {
           valuePropositions: (outreach.value_propositions as string[]) || [],
           painPoints: (outreach.pain_points as string[]) || [],
           callToAction: (outreach.call_to_action as string) || '',
+          personalizationFields: (outreach.personalization_fields as string[]) || [],
+          variants: normalizeVariants(sourcingAny.variants),
           targetLeads: (targets.target_leads as number) ?? null,
           targetEmails: (targets.target_emails as number) ?? null,
           targetReplyRate: (targets.target_reply_rate as number) ?? null,
@@ -262,6 +273,7 @@ export default function EditCampaignPage() {
     if (!formData.name.trim()) allErrors['campaign_identity.name'] = 'Campaign name is required';
     if (formData.keywords.length === 0) allErrors['icp.keywords'] = 'At least one keyword is required';
     if (formData.geographies.length === 0) allErrors['icp.geographies'] = 'At least one geography is required';
+    Object.assign(allErrors, validateVariants(formData.variants, formData.personalizationFields));
     if (Object.keys(allErrors).length > 0) {
       setErrors(allErrors);
       return false;
@@ -305,7 +317,9 @@ export default function EditCampaignPage() {
           value_propositions: formData.valuePropositions,
           pain_points: formData.painPoints,
           call_to_action: formData.callToAction,
+          personalization_fields: formData.personalizationFields,
         },
+        variants: formData.variants,
         campaign_targets: {
           target_leads: formData.targetLeads,
           target_emails: formData.targetEmails,
@@ -336,6 +350,9 @@ export default function EditCampaignPage() {
         if (formData.keywords.length === 0) stepErrors['icp.keywords'] = 'At least one keyword is required';
         if (formData.geographies.length === 0) stepErrors['icp.geographies'] = 'At least one geography is required';
         break;
+      case 4:
+        Object.assign(stepErrors, validateVariants(formData.variants, formData.personalizationFields));
+        break;
     }
     if (Object.keys(stepErrors).length > 0) {
       setErrors(stepErrors);
@@ -504,9 +521,14 @@ export default function EditCampaignPage() {
               <TagInput label="Value Propositions" name="valuePropositions" values={formData.valuePropositions} onChange={(v) => updateField('valuePropositions', v)} placeholder="Add value propositions (press Enter)" />
               <TagInput label="Pain Points" name="painPoints" values={formData.painPoints} onChange={(v) => updateField('painPoints', v)} placeholder="Add pain points (press Enter)" />
               <FormField label="Call to Action" name="callToAction" type="textarea" value={formData.callToAction} onChange={(v) => updateField('callToAction', String(v))} placeholder="What action should contacts take?" />
+              <TagInput label="Personalization Fields" name="personalizationFields" values={formData.personalizationFields} onChange={(v) => updateField('personalizationFields', v)} placeholder="e.g., first_name, company" helpText="Fields that email variants can use as {{field}} tokens" />
+            </WizardStep>
+
+            <WizardStep title="Email Variants" description="Write the email and split sends between A/B variants" isActive={currentStep === 4} stepNumber={5} totalSteps={WIZARD_STEPS.length}>
+              <VariantEditor variants={formData.variants} personalizationFields={formData.personalizationFields} errors={errors} onChange={(v) => updateField('variants', v)} />
             </WizardStep>
 
-            <WizardStep title="Targets (Optional)" description="Set benchmark targets for this campaign" isActive={currentStep === 4} stepNumber={5} totalSteps={WIZARD_STEPS.length}>
+            <WizardStep title="Targets (Optional)" description="Set benchmark targets for this campaign" isActive={currentStep === 5} stepNumber={6} totalSteps={WIZARD_STEPS.length}>
               <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: NSD_COLORS.text.muted }}>Targets are benchmarks only and do not affect campaign execution.</p>
               <FormField label="Target Leads" name="targetLeads" type="number" value={formData.targetLeads ?? ''} onChange={(v) => updateField('targetLeads', v === '' ? null : Number(v))} placeholder="e.g., 100" />
               <FormField label="Target Emails" name="targetEmails" type="number" value={formData.targetEmails ?? ''} onChange={(v) => updateField('targetEmails', v === '' ? null : Number(v))} placeholder="e.g., 500" />
@@ -57,6 +57,10 @@ import {
   type CampaignPhase,
   type ExecutionStage,
 } from '../../components/campaign-details';
+import { SaveAsTemplateModal, TemplateOriginNotice } from '../../components/templates';
+import { VariantResultsTable } from '../../components/variants';
+import { CampaignReviewPanel } from '../../components/review';
+import { normalizeVariants } from '../../lib/campaign-variants';
 
 export default function CampaignDetailPage() {
   const params = useParams();
@@ -81,6 +85,8 @@ export default function CampaignDetailPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isApproving, setIsApproving] = useState(false);
   const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [reviewRefreshKey, setReviewRefreshKey] = useState(0);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
   
   // Run intent
   const [runIntent, setRunIntent] = useState<RunIntent>('HARVEST_ONLY');
@@ -274,6 +280,7 @@ export default function CampaignDetailPage() {
       // Refresh campaign data with new status
       const updatedCampaign = await getCampaign(campaign.id);
       setCampaign(updatedCampaign);
+      setReviewRefreshKey((k) => k + 1);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to submit campaign';
       setActionMessage(message);
@@ -296,6 +303,7 @@ export default function CampaignDetailPage() {
       // Refresh campaign data with new status
       const updatedCampaign = await getCampaign(campaign.id);
       setCampaign(updatedCampaign);
+      setReviewRefreshKey((k) => k + 1);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to approve campaign';
       setActionMessage(message);
@@ -387,6 +395,7 @@ export default function CampaignDetailPage() {
 
   // Derived state
   const isPlanningOnly = campaign.sourcing_config?.benchmarks_only === true;
+  const variants = normalizeVariants(campaign.sourcing_config?.variants);
   const isApproved = campaign.status === 'RUNNABLE';
   const hasRun = executionState?.run !== null;
   const runStatus = executionState?.run?.status;
@@ -511,6 +520,7 @@ export default function CampaignDetailPage() {
           onApprove={campaign.status === 'PENDING_REVIEW' ? handleApproveCampaign : undefined}
           onEdit={campaign.status !== 'ARCHIVED' ? handleEditCampaign : undefined}
           onDuplicate={handleDuplicateCampaign}
+          onSaveAsTemplate={isTest ? undefined : () => setIsSaveTemplateOpen(true)}
           isRunRequesting={isRunRequesting}
           isSubmitting={isSubmitting}
           isApproving={isApproving}
@@ -528,6 +538,23 @@ export default function CampaignDetailPage() {
           />
         )}
 
+        {/* Template this campaign started from, and what changed in it since */}
+        {!isTest && <TemplateOriginNotice campaignId={campaign.id} />}
+
+        {/* Reviewers, approvals, change requests, comments and audit log */}
+        {!isTest && (
+          <CampaignReviewPanel
+            campaignId={campaign.id}
+            status={campaign.status}
+            refreshKey={reviewRefreshKey}
+            onStatusChange={() => {
+              getCampaign(campaign.id).then(setCampaign).catch((err) => {
+                console.error('Failed to refresh campaign after review:', err);
+              });
+            }}
+          />
+        )}
+
         {/* 3. Campaign Intent & Scope - Why this campaign exists */}
         <CampaignIntentScope
           industries={industries}
@@ -556,6 +583,11 @@ export default function CampaignDetailPage() {
           outcomeDescription={executionState?.run?.outcomeReason}
         />
 
+        {/* Per-variant send outcomes and A/B significance */}
+        {!isTest && variants.length > 0 && (
+          <VariantResultsTable campaignId={campaign.id} variants={variants} />
+        )}
+
         {/* 6. Learning Signals - Collapsed by default */}
         <CollapsibleLearningSignals
           hasExecutionCompleted={isExecutionComplete}
@@ -592,6 +624,21 @@ export default function CampaignDetailPage() {
             operationalSet={operationalSet}
           />
         )}
+
+        <SaveAsTemplateModal
+          isOpen={isSaveTemplateOpen}
+          campaignId={campaign.id}
+          campaignName={campaign.name}
+          onClose={() => setIsSaveTemplateOpen(false)}
+          onSaved={(template, mode) => {
+            setIsSaveTemplateOpen(false);
+            setActionMessage(
+              mode === 'new'
+                ? `Saved as template "${template.name}".`
+                : `Saved as version ${template.current_version} of template "${template.name}".`
+            );
+          }}
+        />
       </div>
     </div>
   );
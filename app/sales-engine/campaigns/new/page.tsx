@@ -17,6 +17,8 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { Icon } from '../../../../design/components/Icon';
 import { WizardStep, WizardNav, FormField, TagInput } from '../../components/wizard';
+import { TemplatePicker } from '../../components/templates';
+import { MarketSizePreview } from '../../components/MarketSizePreview';
 import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY, NSD_SPACING, NSD_GRADIENTS, NSD_SHADOWS, NSD_GLOW, NSD_TRANSITIONS } from '../../lib/design-tokens';
 import type {
   CampaignCreatePayload,
@@ -24,6 +26,7 @@ import type {
   ValidationError,
   isCampaignCreateSuccess,
 } from '../../types/campaign-create';
+import type { CampaignTemplate, CampaignTemplateContent, CampaignTemplateRef } from '../../types/campaign-template';
 import { isApiDisabled, featureFlags } from '../../../../config/appConfig';
 
 /**
@@ -68,6 +71,9 @@ type FormData = {
   keywords: string[];
   companySizeMin: number;
   companySizeMax: number;
+  // ICP exclusions (organizations never matched)
+  excludedIndustries: string[];
+  excludedDomains: string[];
   // Consolidated contact targeting fields (shown in Contact Targeting step)
   jobTitles: string[];      // Maps to both icp.job_titles AND contact_targeting.roles
   seniorityLevels: string[]; // Maps to both icp.seniority_levels AND contact_targeting.seniority
@@ -94,6 +100,8 @@ const initialFormData: FormData = {
   keywords: [],
   companySizeMin: 0,
   companySizeMax: 10000,
+  excludedIndustries: [],
+  excludedDomains: [],
   // Consolidated contact targeting
   jobTitles: [],
   seniorityLevels: [],
@@ -112,12 +120,42 @@ const initialFormData: FormData = {
   planningOnly: false,
 };
 
+/**
+ * Form fields a template fills in. Identity (name, description) and the
+ * planning-only flag are left as entered; everything else is replaced so the
+ * form matches the template exactly.
+ */
+function templateFormFields(content: CampaignTemplateContent): Omit<FormData, 'name' | 'description' | 'planningOnly'> {
+  const { icp, contact_targeting, outreach_context, campaign_targets } = content;
+  return {
+    industries: icp.industries ?? [],
+    geographies: icp.geographies ?? [],
+    keywords: icp.keywords ?? [],
+    companySizeMin: icp.company_size?.min ?? initialFormData.companySizeMin,
+    companySizeMax: icp.company_size?.max ?? initialFormData.companySizeMax,
+    excludedIndustries: icp.exclusions?.industries ?? [],
+    excludedDomains: icp.exclusions?.domains ?? [],
+    jobTitles: icp.job_titles?.length ? icp.job_titles : contact_targeting.roles ?? [],
+    seniorityLevels: icp.seniority_levels?.length ? icp.seniority_levels : contact_targeting.seniority ?? [],
+    maxContactsPerOrg: contact_targeting.max_contacts_per_org ?? initialFormData.maxContactsPerOrg,
+    requireVerifiedEmail: contact_targeting.email_requirements?.require_verified ?? initialFormData.requireVerifiedEmail,
+    tone: outreach_context.tone ?? initialFormData.tone,
+    valuePropositions: outreach_context.value_propositions ?? [],
+    painPoints: outreach_context.pain_points ?? [],
+    callToAction: outreach_context.call_to_action ?? '',
+    targetLeads: campaign_targets.target_leads ?? null,
+    targetEmails: campaign_targets.target_emails ?? null,
+    targetReplyRate: campaign_targets.target_reply_rate ?? null,
+  };
+}
+
 export default function NewCampaignPage() {
   const router = useRouter();
   const [currentStep, setCurrentStep] = useState(0);
   const [formData, setFormData] = useState<FormData>(initialFormData);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [appliedTemplate, setAppliedTemplate] = useState<(CampaignTemplateRef & { name: string }) | null>(null);
   const [submitResult, setSubmitResult] = useState<{
     success: boolean;
     campaignId?: string;
@@ -218,6 +256,17 @@ export default function NewCampaignPage() {
     }
   };
 
+  const applyTemplate = (template: CampaignTemplate) => {
+    setFormData((prev) => ({ ...prev, ...templateFormFields(template.content) }));
+    setAppliedTemplate({ template_id: template.id, version: template.current_version, name: template.name });
+    setErrors({});
+  };
+
+  const clearTemplate = () => {
+    setFormData((prev) => ({ ...initialFormData, name: prev.name, description: prev.description, planningOnly: prev.planningOnly }));
+    setAppliedTemplate(null);
+  };
+
   /**
    * M67-14 Payload Builder
    * 
@@ -256,6 +305,10 @@ export default function NewCampaignPage() {
       job_titles: formData.jobTitles,
       seniority_levels: formData.seniorityLevels,
       keywords: formData.keywords,
+      exclusions: {
+        industries: formData.excludedIndustries,
+        domains: formData.excludedDomains,
+      },
     },
     contact_targeting: {
       // Consolidated: jobTitles also stored as roles for contact targeting
@@ -283,6 +336,10 @@ export default function NewCampaignPage() {
     sourcing_config: {
       benchmarks_only: formData.planningOnly,
     },
+    // Template version the form was prefilled from (recorded, never enforced)
+    template: appliedTemplate
+      ? { template_id: appliedTemplate.template_id, version: appliedTemplate.version }
+      : undefined,
   });
 
   /**
@@ -685,6 +742,11 @@ export default function NewCampaignPage() {
           stepNumber={1}
           totalSteps={WIZARD_STEPS.length}
         >
+          <TemplatePicker
+            selectedId={appliedTemplate?.template_id ?? null}
+            onApply={applyTemplate}
+            onClear={clearTemplate}
+          />
           <FormField
             label="Campaign Name"
             name="name"
@@ -860,6 +922,33 @@ export default function NewCampaignPage() {
               onChange={(v) => updateField('companySizeMax', Number(v))}
             />
           </div>
+          <TagInput
+            label="Excluded Industries"
+            name="excludedIndustries"
+            values={formData.excludedIndustries}
+            onChange={(v) => updateField('excludedIndustries', v)}
+            placeholder="e.g., Government, Education"
+            helpText="Organizations in these industries are never matched"
+          />
+          <TagInput
+            label="Excluded Domains"
+            name="excludedDomains"
+            values={formData.excludedDomains}
+            onChange={(v) => updateField('excludedDomains', v)}
+            placeholder="e.g., competitor.com"
+            helpText="Existing customers, competitors or partners to leave out"
+          />
+
+          {/* Live market size estimate from observations.* */}
+          <MarketSizePreview
+            icp={{
+              keywords: formData.keywords,
+              geographies: formData.geographies,
+              industries: formData.industries,
+              company_size: { min: formData.companySizeMin, max: formData.companySizeMax },
+              exclusions: { industries: formData.excludedIndustries, domains: formData.excludedDomains },
+            }}
+          />
 
           {/* Organization Sourcing Info Callout */}
           <div
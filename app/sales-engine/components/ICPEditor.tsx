@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import { MarketSizePreview } from './MarketSizePreview';
 
 interface ICP {
   keywords: string[];
@@ -169,6 +170,14 @@ function TagInput({
   );
 }
 
+/**
+ * Locations as the "City, State, Country" geographies the market scope
+ * preview matches on.
+ */
+function locationLabels(locations: ICP['locations']): string[] {
+  return locations.map((l) => [l.city, l.state, l.country].filter(Boolean).join(', ')).filter(Boolean);
+}
+
 export function ICPEditor({ icp, onChange }: ICPEditorProps) {
   return (
     <div>
@@ -247,6 +256,15 @@ export function ICPEditor({ icp, onChange }: ICPEditorProps) {
         </div>
       </div>
 
+      <MarketSizePreview
+        icp={{
+          keywords: icp.keywords,
+          geographies: locationLabels(icp.locations),
+          industries: icp.industries,
+          company_size: { min: icp.employeeSize.min || undefined, max: icp.employeeSize.max || undefined },
+        }}
+      />
+
       <TagInput
         label="Pain Points"
         tags={icp.painPoints}
@@ -0,0 +1,152 @@
+/**
+ * MarketSizePreview Component
+ *
+ * Live estimate of how many observed organizations and contacts match the
+ * ICP being edited, with the top geographies and industries. Shown in the
+ * ICP step of the campaign wizards so the ICP can be tuned before it is
+ * submitted for review, instead of finding out from a VALID_EMPTY_OBSERVATION
+ * run.
+ *
+ * OBSERVATIONS-FIRST: this is market reality from observations.*, the same
+ * source as the campaign's Market Scope once it has run. Read-only.
+ */
+
+'use client';
+
+import React from 'react';
+import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../lib/design-tokens';
+import { Icon } from '../../../design/components/Icon';
+import { useMarketScopePreview } from '../hooks/useMarketScopePreview';
+import { assessMarketSize, type MarketSizeLevel, type PreviewIcp } from '../lib/market-scope-preview';
+import type { MarketScopeBreakdownRow } from '../types/campaign';
+
+export interface MarketSizePreviewProps {
+  icp: PreviewIcp;
+}
+
+const LEVEL_STYLES: Record<MarketSizeLevel, { bg: string; text: string; border: string }> = {
+  unavailable: { bg: NSD_COLORS.surface, text: NSD_COLORS.text.secondary, border: NSD_COLORS.border.light },
+  empty: NSD_COLORS.semantic.critical,
+  narrow: NSD_COLORS.semantic.attention,
+  healthy: NSD_COLORS.semantic.positive,
+};
+
+function Stat({ label, value }: { label: string; value: number }) {
+  return (
+    <div style={{ flex: 1 }}>
+      <div style={{ fontSize: '22px', fontWeight: 600, fontFamily: NSD_TYPOGRAPHY.fontDisplay, color: NSD_COLORS.text.primary }}>
+        {value.toLocaleString()}
+      </div>
+      <div style={{ ...NSD_TYPOGRAPHY.label, color: NSD_COLORS.text.secondary }}>{label}</div>
+    </div>
+  );
+}
+
+function Breakdown({ title, rows }: { title: string; rows: MarketScopeBreakdownRow[] }) {
+  const max = Math.max(1, ...rows.map((r) => r.organizations));
+  return (
+    <div style={{ flex: 1, minWidth: '200px' }}>
+      <div style={{ ...NSD_TYPOGRAPHY.label, color: NSD_COLORS.text.secondary, marginBottom: '8px' }}>{title}</div>
+      {rows.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>No matches</p>
+      ) : (
+        rows.map((row) => (
+          <div key={row.label} style={{ marginBottom: '6px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', color: NSD_COLORS.text.primary }}>
+              <span>{row.label}</span>
+              <span style={{ color: NSD_COLORS.text.secondary }}>
+                {row.organizations.toLocaleString()} orgs · {row.contacts.toLocaleString()} contacts
+              </span>
+            </div>
+            <div style={{ height: '4px', marginTop: '3px', backgroundColor: NSD_COLORS.border.light, borderRadius: NSD_RADIUS.full }}>
+              <div
+                style={{
+                  width: `${(row.organizations / max) * 100}%`,
+                  height: '100%',
+                  backgroundColor: NSD_COLORS.secondary,
+                  borderRadius: NSD_RADIUS.full,
+                }}
+              />
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function MarketSizePreview({ icp }: MarketSizePreviewProps) {
+  const { ready, preview, isLoading, error } = useMarketScopePreview(icp);
+  const assessment = preview ? assessMarketSize(preview) : null;
+  const level = LEVEL_STYLES[assessment?.level ?? 'unavailable'];
+
+  return (
+    <div
+      style={{
+        marginBottom: '24px',
+        padding: '16px 20px',
+        backgroundColor: NSD_COLORS.background,
+        border: `1px solid ${NSD_COLORS.border.light}`,
+        borderRadius: NSD_RADIUS.md,
+      }}
+      data-testid="market-size-preview"
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '12px' }}>
+        <Icon name="globe" size={16} color={NSD_COLORS.secondary} />
+        <span style={{ flex: 1, fontSize: '14px', fontWeight: 600, color: NSD_COLORS.text.primary }}>
+          Estimated Market Size
+        </span>
+        {isLoading && <span style={{ fontSize: '12px', color: NSD_COLORS.text.muted }}>Updating…</span>}
+      </div>
+
+      {!ready ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.secondary }}>
+          Add at least one keyword to estimate how many observed organizations match this ICP.
+        </p>
+      ) : error ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.semantic.critical.text }}>
+          Could not estimate market size: {error}
+        </p>
+      ) : !preview ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>Estimating…</p>
+      ) : (
+        <div style={{ opacity: isLoading ? 0.6 : 1 }}>
+          {preview.available && (
+            <div style={{ display: 'flex', gap: '16px', marginBottom: '12px' }}>
+              <Stat label="Organizations" value={preview.observedOrganizations} />
+              <Stat label="Contacts" value={preview.observedContacts} />
+              <Stat label="Reachable" value={preview.estimatedReachable} />
+            </div>
+          )}
+          {assessment && (
+            <div
+              style={{
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: '8px',
+                padding: '10px 12px',
+                marginBottom: preview.available && preview.observedOrganizations > 0 ? '16px' : 0,
+                backgroundColor: level.bg,
+                border: `1px solid ${level.border}`,
+                borderRadius: NSD_RADIUS.sm,
+                fontSize: '13px',
+                color: level.text,
+              }}
+            >
+              <Icon name={assessment.level === 'healthy' ? 'check' : assessment.level === 'unavailable' ? 'info' : 'warning'} size={14} color={level.text} />
+              <span>{assessment.message}</span>
+            </div>
+          )}
+          {preview.available && preview.observedOrganizations > 0 && (
+            <div style={{ display: 'flex', gap: '24px', flexWrap: 'wrap' }}>
+              <Breakdown title="By Geography" rows={preview.byGeography} />
+              <Breakdown title="By Industry" rows={preview.byIndustry} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MarketSizePreview;
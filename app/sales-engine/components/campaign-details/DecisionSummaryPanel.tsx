@@ -68,6 +68,8 @@ interface DecisionSummaryPanelProps {
   onEdit?: () => void;
   /** Handler for duplicate action */
   onDuplicate?: () => void;
+  /** Handler for save-as-template action */
+  onSaveAsTemplate?: () => void;
   /** Is a run being requested */
   isRunRequesting?: boolean;
   /** Is submit in progress */
@@ -217,6 +219,7 @@ export function DecisionSummaryPanel({
   onApprove,
   onEdit,
   onDuplicate,
+  onSaveAsTemplate,
   isRunRequesting = false,
   isSubmitting = false,
   isApproving = false,
@@ -566,6 +569,27 @@ export function DecisionSummaryPanel({
               {isDuplicating ? 'Duplicating...' : 'Duplicate'}
             </button>
           )}
+          {onSaveAsTemplate && (
+            <button
+              onClick={onSaveAsTemplate}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+                padding: '8px 14px',
+                fontSize: '13px',
+                fontWeight: 500,
+                backgroundColor: 'transparent',
+                color: NSD_COLORS.text.secondary,
+                border: `1px solid ${NSD_COLORS.border.default}`,
+                borderRadius: NSD_RADIUS.md,
+                cursor: 'pointer',
+              }}
+            >
+              <Icon name="star" size={14} color={NSD_COLORS.text.secondary} />
+              Save as Template
+            </button>
+          )}
         </div>
       </div>
     </div>
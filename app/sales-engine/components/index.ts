@@ -10,6 +10,7 @@ export { MetricsDisplay } from './MetricsDisplay';
 export { RunsDisplay } from './RunsDisplay';
 export { VariantsDisplay } from './VariantsDisplay';
 export { ICPEditor } from './ICPEditor';
+export { MarketSizePreview } from './MarketSizePreview';
 export { PersonalizationEditor } from './PersonalizationEditor';
 export { SalesEngineDashboard } from './SalesEngineDashboard';
 
@@ -45,3 +46,21 @@ export {
   CampaignRunHistoryTable,
   SendMetricsPanel,
 } from './observability';
+
+// Campaign templates
+// Templates only prefill the wizard; campaigns are still created as DRAFT
+export {
+  TemplatePicker,
+  SaveAsTemplateModal,
+  TemplateOriginNotice,
+  TemplateChangesList,
+} from './templates';
+
+// Email variants
+// Variants are edited on DRAFT campaigns; results are observed, never inferred
+export { VariantEditor, VariantResultsTable } from './variants';
+
+// Campaign review
+// Status transitions stay on the v1 submit / approve / revert routes; every
+// governance action is recorded in an append-only audit log
+export { CampaignReviewPanel, GovernanceAuditLog } from './review';
@@ -0,0 +1,492 @@
+/**
+ * CampaignReviewPanel Component
+ *
+ * The review workflow on the campaign detail page: assigned reviewers and
+ * their decisions, the number of approvals required, progress for the
+ * current round, request-changes (back to DRAFT with a reason) and threaded
+ * comments on specific ICP / outreach fields, followed by the governance
+ * audit log. Assigning reviewers and changing the required approvals need
+ * campaigns:review:manage; without it they are shown read-only.
+ *
+ * Approving stays on the Decision Summary's Approve action
+ * (approveCampaignAction); the parent bumps refreshKey after it so the
+ * progress shown here catches up.
+ */
+
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../lib/design-tokens';
+import { Icon } from '../../../../design/components/Icon';
+import { Button } from '../ui/Button';
+import { useBootstrap } from '../../../../contexts/BootstrapContext';
+import {
+  addCampaignReviewComment,
+  assignCampaignReviewer,
+  getCampaignReview,
+  removeCampaignReviewer,
+  requestCampaignChanges,
+  updateReviewPolicy,
+} from '../../lib/api';
+import {
+  CAMPAIGN_REVIEW_MANAGE_PERMISSION,
+  MAX_REQUIRED_APPROVALS,
+  REVIEW_FIELDS,
+  formatActor,
+  formatReviewTime,
+  reviewFieldLabel,
+  threadComments,
+} from '../../lib/campaign-review';
+import type { CampaignStatus } from '../../types/campaign';
+import type {
+  CampaignReviewComment,
+  CampaignReviewState,
+  CampaignReviewStateResponse,
+  ReviewDecision,
+} from '../../types/campaign-review';
+import { GovernanceAuditLog } from './GovernanceAuditLog';
+
+export interface CampaignReviewPanelProps {
+  campaignId: string;
+  status: CampaignStatus;
+  /** Change to reload the review state (e.g. after an approval elsewhere on the page). */
+  refreshKey?: number;
+  /** Called after an action here changed the campaign status (request changes). */
+  onStatusChange?: () => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 10px',
+  fontSize: '14px',
+  color: NSD_COLORS.text.primary,
+  backgroundColor: NSD_COLORS.background,
+  border: `1px solid ${NSD_COLORS.border.default}`,
+  borderRadius: NSD_RADIUS.md,
+  boxSizing: 'border-box',
+};
+
+const sectionLabelStyle: React.CSSProperties = {
+  ...NSD_TYPOGRAPHY.label,
+  color: NSD_COLORS.text.secondary,
+  marginBottom: '10px',
+};
+
+const linkStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  fontSize: '12px',
+  color: NSD_COLORS.secondary,
+  cursor: 'pointer',
+};
+
+const DECISION_STYLES: Record<ReviewDecision, { label: string; bg: string; text: string }> = {
+  approved: { label: 'Approved', ...NSD_COLORS.semantic.positive },
+  changes_requested: { label: 'Changes requested', ...NSD_COLORS.semantic.attention },
+};
+
+function FieldChip({ field }: { field: string | null }) {
+  return (
+    <span
+      style={{
+        padding: '2px 8px',
+        fontSize: '11px',
+        fontWeight: 500,
+        color: field ? NSD_COLORS.violet.dark : NSD_COLORS.text.secondary,
+        backgroundColor: field ? NSD_COLORS.violet.light : NSD_COLORS.surfaceHover,
+        borderRadius: NSD_RADIUS.sm,
+      }}
+    >
+      {reviewFieldLabel(field)}
+    </span>
+  );
+}
+
+function CommentBody({ comment }: { comment: CampaignReviewComment }) {
+  return (
+    <div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '4px' }}>
+        <strong style={{ fontSize: '13px', color: NSD_COLORS.text.primary }}>{formatActor(comment.author)}</strong>
+        <span style={{ fontSize: '12px', color: NSD_COLORS.text.muted }}>
+          {formatReviewTime(comment.created_at)} · round {comment.review_round}
+        </span>
+      </div>
+      <p style={{ margin: 0, fontSize: '14px', color: NSD_COLORS.text.primary, whiteSpace: 'pre-wrap', lineHeight: 1.5 }}>
+        {comment.body}
+      </p>
+    </div>
+  );
+}
+
+export function CampaignReviewPanel({ campaignId, status, refreshKey = 0, onStatusChange }: CampaignReviewPanelProps) {
+  const { hasPermission } = useBootstrap();
+  const canManage = hasPermission(CAMPAIGN_REVIEW_MANAGE_PERMISSION);
+  const [review, setReview] = useState<CampaignReviewState | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [reviewerEmail, setReviewerEmail] = useState('');
+  const [commentField, setCommentField] = useState('');
+  const [commentBody, setCommentBody] = useState('');
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [requestingChanges, setRequestingChanges] = useState(false);
+  const [changesField, setChangesField] = useState('');
+  const [changesReason, setChangesReason] = useState('');
+
+  useEffect(() => {
+    let alive = true;
+    getCampaignReview(campaignId).then((result) => {
+      if (!alive) return;
+      if (result.success) {
+        setReview(result.data);
+        setLoadError(null);
+      } else {
+        setLoadError(result.error);
+      }
+    });
+    return () => { alive = false; };
+  }, [campaignId, refreshKey]);
+
+  /** Runs a review action and applies the returned state; returns whether it succeeded. */
+  const run = useCallback(async (action: () => Promise<CampaignReviewStateResponse>): Promise<boolean> => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      const result = await action();
+      if (!result.success) {
+        setActionError(result.error);
+        return false;
+      }
+      setReview(result.data);
+      return true;
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  if (!review) {
+    return loadError ? (
+      <div
+        style={{
+          marginBottom: '24px',
+          padding: '16px 20px',
+          backgroundColor: NSD_COLORS.surface,
+          border: `1px solid ${NSD_COLORS.border.light}`,
+          borderRadius: NSD_RADIUS.md,
+          fontSize: '13px',
+          color: NSD_COLORS.text.muted,
+        }}
+        data-testid="campaign-review-panel"
+      >
+        Review workflow unavailable: {loadError}
+      </div>
+    ) : null;
+  }
+
+  const isPendingReview = status === 'PENDING_REVIEW';
+  const { progress } = review;
+  const threads = threadComments(review.comments);
+  const tooFewReviewers = review.reviewers.length > 0 && review.reviewers.length < review.required_approvals;
+
+  const handleAddReviewer = async () => {
+    if (await run(() => assignCampaignReviewer(campaignId, { email: reviewerEmail }))) setReviewerEmail('');
+  };
+
+  const handleComment = async () => {
+    const ok = await run(() => addCampaignReviewComment(campaignId, { body: commentBody, field: commentField || null }));
+    if (ok) setCommentBody('');
+  };
+
+  const handleReply = async (parentId: string) => {
+    if (await run(() => addCampaignReviewComment(campaignId, { body: replyBody, parent_id: parentId }))) {
+      setReplyTo(null);
+      setReplyBody('');
+    }
+  };
+
+  const handleRequestChanges = async () => {
+    const ok = await run(() => requestCampaignChanges(campaignId, { reason: changesReason, field: changesField || null }));
+    if (ok) {
+      setRequestingChanges(false);
+      setChangesReason('');
+      setChangesField('');
+      onStatusChange?.();
+    }
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '24px',
+        padding: '20px',
+        backgroundColor: NSD_COLORS.background,
+        border: `1px solid ${NSD_COLORS.border.light}`,
+        borderRadius: NSD_RADIUS.lg,
+      }}
+      data-testid="campaign-review-panel"
+    >
+      <div style={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: '16px', marginBottom: '16px' }}>
+        <div>
+          <h3 style={{ margin: '0 0 4px 0', fontSize: '16px', fontWeight: 600, fontFamily: NSD_TYPOGRAPHY.fontDisplay, color: NSD_COLORS.primary }}>
+            Review
+          </h3>
+          <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.secondary }}>
+            {review.review_round === 0
+              ? 'Not submitted for review yet.'
+              : isPendingReview
+                ? `Round ${review.review_round} · ${progress.approvals} of ${progress.required} approval${progress.required === 1 ? '' : 's'}`
+                : `Last review round: ${review.review_round}`}
+          </p>
+        </div>
+        {isPendingReview && (
+          <span
+            style={{
+              padding: '4px 10px',
+              fontSize: '12px',
+              fontWeight: 500,
+              color: progress.complete ? NSD_COLORS.semantic.positive.text : NSD_COLORS.semantic.attention.text,
+              backgroundColor: progress.complete ? NSD_COLORS.semantic.positive.bg : NSD_COLORS.semantic.attention.bg,
+              borderRadius: NSD_RADIUS.sm,
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {progress.complete ? 'Approvals complete' : `${progress.remaining} more approval${progress.remaining === 1 ? '' : 's'} needed`}
+          </span>
+        )}
+      </div>
+
+      {actionError && (
+        <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: NSD_COLORS.semantic.critical.text }}>{actionError}</p>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(280px, 1fr))', gap: '24px', marginBottom: '24px' }}>
+        {/* Reviewers and policy */}
+        <div>
+          <div style={sectionLabelStyle}>Reviewers</div>
+          {review.reviewers.length === 0 ? (
+            <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: NSD_COLORS.text.muted }}>
+              No reviewers assigned. Anyone signed in, except the submitter, can approve.
+            </p>
+          ) : (
+            <ul style={{ margin: '0 0 12px 0', padding: 0, listStyle: 'none' }}>
+              {review.reviewers.map((reviewer) => {
+                const decision = reviewer.decision ? DECISION_STYLES[reviewer.decision] : null;
+                return (
+                  <li key={reviewer.email} style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '6px 0' }}>
+                    <Icon name="users" size={14} color={NSD_COLORS.text.secondary} />
+                    <span style={{ flex: 1, fontSize: '14px', color: NSD_COLORS.text.primary }}>
+                      {reviewer.name ? `${reviewer.name} (${reviewer.email})` : reviewer.email}
+                    </span>
+                    {isPendingReview && (
+                      <span
+                        style={{
+                          padding: '2px 8px',
+                          fontSize: '12px',
+                          color: decision ? decision.text : NSD_COLORS.text.secondary,
+                          backgroundColor: decision ? decision.bg : NSD_COLORS.surfaceHover,
+                          borderRadius: NSD_RADIUS.sm,
+                        }}
+                      >
+                        {decision ? decision.label : 'Pending'}
+                      </span>
+                    )}
+                    {canManage && (
+                      <button
+                        type="button"
+                        onClick={() => run(() => removeCampaignReviewer(campaignId, reviewer.email))}
+                        disabled={busy}
+                        aria-label={`Remove reviewer ${reviewer.email}`}
+                        style={{ background: 'none', border: 'none', cursor: 'pointer', padding: '2px' }}
+                      >
+                        <Icon name="close" size={14} color={NSD_COLORS.text.muted} />
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          {canManage && (
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '16px' }}>
+              <input
+                type="email"
+                style={inputStyle}
+                value={reviewerEmail}
+                placeholder="reviewer@company.com"
+                aria-label="Reviewer email"
+                onChange={(e) => setReviewerEmail(e.target.value)}
+              />
+              <Button variant="secondary" size="sm" icon="plus" onClick={handleAddReviewer} disabled={busy || !reviewerEmail.trim()}>
+                Add
+              </Button>
+            </div>
+          )}
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '13px', color: NSD_COLORS.text.primary }}>
+            Required approvals
+            <select
+              style={{ ...inputStyle, width: 'auto' }}
+              value={review.required_approvals}
+              disabled={busy || !canManage}
+              onChange={(e) => run(() => updateReviewPolicy(campaignId, Number(e.target.value)))}
+            >
+              {Array.from({ length: MAX_REQUIRED_APPROVALS }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </label>
+          {tooFewReviewers && (
+            <p style={{ margin: '8px 0 0 0', fontSize: '12px', color: NSD_COLORS.semantic.attention.text }}>
+              Only {review.reviewers.length} reviewer{review.reviewers.length === 1 ? ' is' : 's are'} assigned; {review.required_approvals} approvals can never be reached.
+            </p>
+          )}
+        </div>
+
+        {/* Decision */}
+        <div>
+          <div style={sectionLabelStyle}>Decision</div>
+          {!isPendingReview ? (
+            <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+              Decisions open once the campaign is submitted for approval.
+            </p>
+          ) : !review.viewer_can_review ? (
+            <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+              {review.viewer_is_submitter
+                ? 'You submitted this campaign, so another reviewer must approve it or request changes.'
+                : 'Only assigned reviewers can approve or request changes.'}
+            </p>
+          ) : requestingChanges ? (
+            <div>
+              <select
+                style={{ ...inputStyle, marginBottom: '8px' }}
+                value={changesField}
+                aria-label="Field needing changes"
+                onChange={(e) => setChangesField(e.target.value)}
+              >
+                <option value="">General</option>
+                {REVIEW_FIELDS.map((f) => (
+                  <option key={f.field} value={f.field}>{f.label}</option>
+                ))}
+              </select>
+              <textarea
+                style={{ ...inputStyle, minHeight: '80px', resize: 'vertical', marginBottom: '8px' }}
+                value={changesReason}
+                placeholder="What needs to change before this campaign can be approved?"
+                aria-label="Reason for requesting changes"
+                onChange={(e) => setChangesReason(e.target.value)}
+              />
+              <div style={{ display: 'flex', gap: '8px' }}>
+                <Button variant="secondary" size="sm" onClick={() => setRequestingChanges(false)} disabled={busy}>
+                  Cancel
+                </Button>
+                <Button variant="danger" size="sm" onClick={handleRequestChanges} disabled={busy || !changesReason.trim()} loading={busy}>
+                  Send Back to Draft
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div>
+              <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: NSD_COLORS.text.secondary }}>
+                {review.viewer_decision === 'approved'
+                  ? 'You approved this round.'
+                  : 'Approve with the Approve action above, or send the campaign back with a reason.'}
+              </p>
+              <Button variant="secondary" size="sm" icon="warning" onClick={() => setRequestingChanges(true)}>
+                Request Changes
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Comments */}
+      <div style={{ marginBottom: '24px' }}>
+        <div style={sectionLabelStyle}>Comments</div>
+        {threads.length === 0 && (
+          <p style={{ margin: '0 0 12px 0', fontSize: '13px', color: NSD_COLORS.text.muted }}>No comments yet.</p>
+        )}
+        {threads.map((thread) => (
+          <div
+            key={thread.id}
+            style={{
+              marginBottom: '12px',
+              padding: '12px 14px',
+              backgroundColor: NSD_COLORS.surface,
+              border: `1px solid ${NSD_COLORS.border.light}`,
+              borderRadius: NSD_RADIUS.md,
+            }}
+          >
+            <div style={{ marginBottom: '8px' }}>
+              <FieldChip field={thread.field} />
+            </div>
+            <CommentBody comment={thread} />
+            {thread.replies.map((reply) => (
+              <div key={reply.id} style={{ marginTop: '10px', paddingLeft: '14px', borderLeft: `2px solid ${NSD_COLORS.border.light}` }}>
+                <CommentBody comment={reply} />
+              </div>
+            ))}
+            {replyTo === thread.id ? (
+              <div style={{ marginTop: '10px', paddingLeft: '14px' }}>
+                <textarea
+                  style={{ ...inputStyle, minHeight: '60px', resize: 'vertical', marginBottom: '8px' }}
+                  value={replyBody}
+                  aria-label="Reply"
+                  onChange={(e) => setReplyBody(e.target.value)}
+                />
+                <div style={{ display: 'flex', gap: '8px' }}>
+                  <Button variant="secondary" size="sm" onClick={() => setReplyTo(null)} disabled={busy}>
+                    Cancel
+                  </Button>
+                  <Button variant="primary" size="sm" onClick={() => handleReply(thread.id)} disabled={busy || !replyBody.trim()}>
+                    Reply
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <button
+                type="button"
+                onClick={() => { setReplyTo(thread.id); setReplyBody(''); }}
+                style={{ ...linkStyle, marginTop: '8px' }}
+              >
+                Reply
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div style={{ display: 'grid', gridTemplateColumns: '200px 1fr', gap: '8px', alignItems: 'start' }}>
+          <select
+            style={inputStyle}
+            value={commentField}
+            aria-label="Comment on field"
+            onChange={(e) => setCommentField(e.target.value)}
+          >
+            <option value="">General</option>
+            {REVIEW_FIELDS.map((f) => (
+              <option key={f.field} value={f.field}>{f.label}</option>
+            ))}
+          </select>
+          <textarea
+            style={{ ...inputStyle, minHeight: '60px', resize: 'vertical' }}
+            value={commentBody}
+            placeholder="Add a comment for the campaign owner and other reviewers"
+            aria-label="Comment"
+            onChange={(e) => setCommentBody(e.target.value)}
+          />
+        </div>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '8px' }}>
+          <Button variant="primary" size="sm" icon="chat" onClick={handleComment} disabled={busy || !commentBody.trim()}>
+            Comment
+          </Button>
+        </div>
+      </div>
+
+      <GovernanceAuditLog events={review.events} />
+    </div>
+  );
+}
+
+export default CampaignReviewPanel;
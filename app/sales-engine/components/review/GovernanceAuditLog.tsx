@@ -0,0 +1,108 @@
+/**
+ * GovernanceAuditLog Component
+ *
+ * The append-only record of governance actions on a campaign: who submitted,
+ * commented, approved, requested changes, reverted or changed reviewers and
+ * when. Newest first; long logs are collapsed to the latest entries.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { NSD_COLORS, NSD_TYPOGRAPHY } from '../../lib/design-tokens';
+import { Icon } from '../../../../design/components/Icon';
+import { describeEvent, formatActor, formatReviewTime } from '../../lib/campaign-review';
+import type { GovernanceAction, GovernanceEvent } from '../../types/campaign-review';
+
+export interface GovernanceAuditLogProps {
+  /** Newest first. */
+  events: GovernanceEvent[];
+}
+
+const COLLAPSED_COUNT = 8;
+
+type IconName = React.ComponentProps<typeof Icon>['name'];
+
+const ACTION_ICONS: Record<GovernanceAction, { icon: IconName; color: string }> = {
+  submitted: { icon: 'send', color: NSD_COLORS.indigo.base },
+  commented: { icon: 'chat', color: NSD_COLORS.text.secondary },
+  approved: { icon: 'check', color: NSD_COLORS.semantic.positive.text },
+  changes_requested: { icon: 'warning', color: NSD_COLORS.semantic.attention.text },
+  reverted: { icon: 'draft', color: NSD_COLORS.text.secondary },
+  reviewer_assigned: { icon: 'users', color: NSD_COLORS.text.secondary },
+  reviewer_removed: { icon: 'users', color: NSD_COLORS.text.muted },
+  policy_changed: { icon: 'shield', color: NSD_COLORS.text.secondary },
+  activated: { icon: 'check', color: NSD_COLORS.semantic.positive.text },
+};
+
+export function GovernanceAuditLog({ events }: GovernanceAuditLogProps) {
+  const [expanded, setExpanded] = useState(false);
+  const shown = expanded ? events : events.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div data-testid="governance-audit-log">
+      <div style={{ ...NSD_TYPOGRAPHY.label, color: NSD_COLORS.text.secondary, marginBottom: '10px' }}>
+        Audit Log
+      </div>
+      {events.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+          No governance actions recorded yet.
+        </p>
+      ) : (
+        <ol style={{ margin: 0, padding: 0, listStyle: 'none' }}>
+          {shown.map((event) => {
+            const style = ACTION_ICONS[event.action] ?? { icon: 'info' as IconName, color: NSD_COLORS.text.muted };
+            return (
+              <li
+                key={event.id}
+                style={{
+                  display: 'flex',
+                  alignItems: 'flex-start',
+                  gap: '10px',
+                  padding: '8px 0',
+                  borderBottom: `1px solid ${NSD_COLORS.border.light}`,
+                }}
+              >
+                <span style={{ marginTop: '2px' }}>
+                  <Icon name={style.icon} size={14} color={style.color} />
+                </span>
+                <span style={{ flex: 1, fontSize: '13px', color: NSD_COLORS.text.primary, lineHeight: 1.4 }}>
+                  {event.action !== 'activated' && (
+                    <strong style={{ fontWeight: 600 }}>{formatActor(event.actor)} </strong>
+                  )}
+                  {describeEvent(event)}
+                </span>
+                <span style={{ fontSize: '12px', color: NSD_COLORS.text.muted, whiteSpace: 'nowrap' }}>
+                  {formatReviewTime(event.created_at)}
+                </span>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+      {events.length > COLLAPSED_COUNT && (
+        <button
+          type="button"
+          onClick={() => setExpanded(!expanded)}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '4px',
+            marginTop: '8px',
+            background: 'none',
+            border: 'none',
+            padding: 0,
+            fontSize: '13px',
+            color: NSD_COLORS.secondary,
+            cursor: 'pointer',
+          }}
+        >
+          {expanded ? 'Show latest only' : `Show all ${events.length} entries`}
+          <Icon name={expanded ? 'chevron-up' : 'chevron-down'} size={14} color={NSD_COLORS.secondary} />
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default GovernanceAuditLog;
@@ -0,0 +1,9 @@
+/**
+ * Campaign Review Components
+ *
+ * The approval workflow on the campaign detail page: reviewers, required
+ * approvals, change requests, field comments and the governance audit log.
+ */
+
+export { CampaignReviewPanel } from './CampaignReviewPanel';
+export { GovernanceAuditLog } from './GovernanceAuditLog';
@@ -0,0 +1,233 @@
+/**
+ * SaveAsTemplateModal Component
+ *
+ * Saves a campaign's ICP, contact targeting, outreach context and targets
+ * either as a new template or as a new version of a template the user owns.
+ * The server reads the campaign itself (source_campaign_id), so what is saved
+ * is what is stored, not what the page happens to show. The campaign is not
+ * modified.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../lib/design-tokens';
+import { Button } from '../ui/Button';
+import { createCampaignTemplate, listCampaignTemplates, updateCampaignTemplate } from '../../lib/api';
+import type { CampaignTemplate, CampaignTemplateScope } from '../../types/campaign-template';
+
+export interface SaveAsTemplateModalProps {
+  isOpen: boolean;
+  campaignId: string;
+  campaignName: string;
+  onClose: () => void;
+  /** Called with the saved template after a successful save. */
+  onSaved: (template: CampaignTemplate, mode: 'new' | 'version') => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '10px 12px',
+  fontSize: '14px',
+  color: NSD_COLORS.text.primary,
+  backgroundColor: NSD_COLORS.background,
+  border: `1px solid ${NSD_COLORS.border.default}`,
+  borderRadius: NSD_RADIUS.md,
+  boxSizing: 'border-box',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '6px',
+  fontSize: '13px',
+  fontWeight: 500,
+  color: NSD_COLORS.text.primary,
+};
+
+export function SaveAsTemplateModal({ isOpen, campaignId, campaignName, onClose, onSaved }: SaveAsTemplateModalProps) {
+  const [mode, setMode] = useState<'new' | 'version'>('new');
+  const [name, setName] = useState(campaignName);
+  const [description, setDescription] = useState('');
+  const [scope, setScope] = useState<CampaignTemplateScope>('team');
+  const [ownTemplates, setOwnTemplates] = useState<CampaignTemplate[]>([]);
+  const [targetId, setTargetId] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let alive = true;
+    setName(campaignName);
+    setError(null);
+    listCampaignTemplates().then((result) => {
+      if (!alive || !result.success) return;
+      const owned = result.data.filter((t) => t.is_owner);
+      setOwnTemplates(owned);
+      setTargetId((current) => current || owned[0]?.id || '');
+    });
+    return () => { alive = false; };
+  }, [isOpen, campaignName]);
+
+  if (!isOpen) return null;
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const result = mode === 'new'
+      ? await createCampaignTemplate({
+          name,
+          description: description || undefined,
+          scope,
+          source_campaign_id: campaignId,
+        })
+      : await updateCampaignTemplate(targetId, {
+          source_campaign_id: campaignId,
+          change_note: changeNote || undefined,
+        });
+    setSaving(false);
+    if (result.success) {
+      onSaved(result.data, mode);
+    } else {
+      setError(result.error);
+    }
+  };
+
+  const canSave = mode === 'new' ? name.trim() !== '' : targetId !== '';
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      }}
+      onClick={saving ? undefined : onClose}
+    >
+      <div
+        style={{
+          backgroundColor: NSD_COLORS.background,
+          borderRadius: NSD_RADIUS.lg,
+          padding: '32px',
+          maxWidth: '480px',
+          width: '90%',
+          boxShadow: '0 20px 40px rgba(0, 0, 0, 0.15)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+        data-testid="save-as-template-modal"
+      >
+        <h2
+          style={{
+            margin: '0 0 8px 0',
+            fontSize: '20px',
+            fontWeight: 600,
+            fontFamily: NSD_TYPOGRAPHY.fontDisplay,
+            color: NSD_COLORS.primary,
+          }}
+        >
+          Save as Template
+        </h2>
+        <p style={{ margin: '0 0 20px 0', fontSize: '14px', color: NSD_COLORS.text.secondary, lineHeight: 1.5 }}>
+          Saves this campaign&apos;s ICP, contact targeting, outreach context and targets. The campaign itself is not changed.
+        </p>
+
+        <div style={{ display: 'flex', gap: '16px', marginBottom: '20px', fontSize: '14px', color: NSD_COLORS.text.primary }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px', cursor: 'pointer' }}>
+            <input type="radio" checked={mode === 'new'} onChange={() => setMode('new')} />
+            New template
+          </label>
+          <label
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+              cursor: ownTemplates.length ? 'pointer' : 'not-allowed',
+              opacity: ownTemplates.length ? 1 : 0.5,
+            }}
+          >
+            <input
+              type="radio"
+              checked={mode === 'version'}
+              disabled={ownTemplates.length === 0}
+              onChange={() => setMode('version')}
+            />
+            New version of a template
+          </label>
+        </div>
+
+        {mode === 'new' ? (
+          <>
+            <div style={{ marginBottom: '16px' }}>
+              <label style={labelStyle} htmlFor="template-name">Template name</label>
+              <input id="template-name" style={inputStyle} value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div style={{ marginBottom: '16px' }}>
+              <label style={labelStyle} htmlFor="template-description">Description</label>
+              <input
+                id="template-description"
+                style={inputStyle}
+                value={description}
+                placeholder="When to use this template"
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div style={{ marginBottom: '24px' }}>
+              <label style={labelStyle} htmlFor="template-scope">Shared with</label>
+              <select
+                id="template-scope"
+                style={inputStyle}
+                value={scope}
+                onChange={(e) => setScope(e.target.value as CampaignTemplateScope)}
+              >
+                <option value="team">My team</option>
+                <option value="user">Only me</option>
+              </select>
+            </div>
+          </>
+        ) : (
+          <>
+            <div style={{ marginBottom: '16px' }}>
+              <label style={labelStyle} htmlFor="template-target">Template</label>
+              <select id="template-target" style={inputStyle} value={targetId} onChange={(e) => setTargetId(e.target.value)}>
+                {ownTemplates.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {t.name} (v{t.current_version} → v{t.current_version + 1})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div style={{ marginBottom: '24px' }}>
+              <label style={labelStyle} htmlFor="template-change-note">What changed</label>
+              <input
+                id="template-change-note"
+                style={inputStyle}
+                value={changeNote}
+                placeholder="Optional note shown in the version history"
+                onChange={(e) => setChangeNote(e.target.value)}
+              />
+            </div>
+          </>
+        )}
+
+        {error && (
+          <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: NSD_COLORS.semantic.critical.text }}>{error}</p>
+        )}
+
+        <div style={{ display: 'flex', gap: '12px', justifyContent: 'flex-end' }}>
+          <Button variant="secondary" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSave} disabled={!canSave || saving} loading={saving}>
+            {mode === 'new' ? 'Save Template' : 'Save Version'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default SaveAsTemplateModal;
@@ -0,0 +1,86 @@
+/**
+ * TemplateChangesList Component
+ *
+ * Field-by-field changes between two template versions
+ * (diffTemplateContent). List fields show the entries added and removed;
+ * single values show before → after.
+ */
+
+'use client';
+
+import React from 'react';
+import { NSD_COLORS, NSD_RADIUS } from '../../lib/design-tokens';
+import type { TemplateFieldChange } from '../../types/campaign-template';
+
+export interface TemplateChangesListProps {
+  changes: TemplateFieldChange[];
+}
+
+function Chip({ value, kind }: { value: string; kind: 'added' | 'removed' }) {
+  const tone = kind === 'added' ? NSD_COLORS.semantic.positive : NSD_COLORS.semantic.critical;
+  return (
+    <span
+      style={{
+        display: 'inline-block',
+        padding: '2px 8px',
+        margin: '0 6px 6px 0',
+        fontSize: '12px',
+        borderRadius: NSD_RADIUS.full,
+        backgroundColor: tone.bg,
+        color: tone.text,
+        textDecoration: kind === 'removed' ? 'line-through' : 'none',
+      }}
+    >
+      {kind === 'added' ? '+ ' : '− '}
+      {value}
+    </span>
+  );
+}
+
+export function TemplateChangesList({ changes }: TemplateChangesListProps) {
+  if (changes.length === 0) {
+    return (
+      <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+        No field changes.
+      </p>
+    );
+  }
+
+  return (
+    <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} style={{ borderTop: `1px solid ${NSD_COLORS.border.light}` }}>
+            <td
+              style={{
+                padding: '8px 12px 8px 0',
+                width: '35%',
+                verticalAlign: 'top',
+                fontWeight: 500,
+                color: NSD_COLORS.text.primary,
+              }}
+            >
+              {change.label}
+            </td>
+            <td style={{ padding: '8px 0', verticalAlign: 'top', color: NSD_COLORS.text.secondary }}>
+              {change.added || change.removed ? (
+                <div>
+                  {change.added?.map((v) => <Chip key={`+${v}`} value={v} kind="added" />)}
+                  {change.removed?.map((v) => <Chip key={`-${v}`} value={v} kind="removed" />)}
+                </div>
+              ) : (
+                <span>
+                  <span style={{ color: NSD_COLORS.text.muted }}>{change.before || '(empty)'}</span>
+                  {' → '}
+                  <span style={{ color: NSD_COLORS.text.primary, fontWeight: 500 }}>{change.after || '(empty)'}</span>
+                </span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default TemplateChangesList;
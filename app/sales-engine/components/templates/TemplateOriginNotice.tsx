@@ -0,0 +1,91 @@
+/**
+ * TemplateOriginNotice Component
+ *
+ * Shown on the campaign detail page when the campaign was created from a
+ * template. If the template has had new versions since, lists what changed
+ * between the version the campaign started from and the current one. The
+ * campaign is never updated automatically; the changes are informational.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { NSD_COLORS, NSD_RADIUS } from '../../lib/design-tokens';
+import { Icon } from '../../../../design/components/Icon';
+import { getCampaignTemplateOrigin } from '../../lib/api';
+import type { CampaignTemplateOrigin } from '../../types/campaign-template';
+import { TemplateChangesList } from './TemplateChangesList';
+
+export interface TemplateOriginNoticeProps {
+  campaignId: string;
+}
+
+export function TemplateOriginNotice({ campaignId }: TemplateOriginNoticeProps) {
+  const [origin, setOrigin] = useState<CampaignTemplateOrigin | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    getCampaignTemplateOrigin(campaignId).then((result) => {
+      if (alive && result.success) setOrigin(result.data);
+    });
+    return () => { alive = false; };
+  }, [campaignId]);
+
+  if (!origin) return null;
+
+  const outdated = origin.created_from_version < origin.template.current_version;
+
+  return (
+    <div
+      style={{
+        marginBottom: '24px',
+        padding: '16px 20px',
+        backgroundColor: outdated ? NSD_COLORS.semantic.attention.bg : NSD_COLORS.surface,
+        border: `1px solid ${NSD_COLORS.border.light}`,
+        borderRadius: NSD_RADIUS.md,
+      }}
+      data-testid="template-origin-notice"
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+        <Icon name={outdated ? 'info' : 'duplicate'} size={16} color={outdated ? NSD_COLORS.semantic.attention.text : NSD_COLORS.text.secondary} />
+        <p style={{ margin: 0, flex: 1, fontSize: '14px', color: NSD_COLORS.text.primary }}>
+          Created from template <strong>{origin.template.name}</strong> v{origin.created_from_version}
+          {outdated && (
+            <> — the template is now at v{origin.template.current_version} with {origin.changes.length} changed field{origin.changes.length === 1 ? '' : 's'}.</>
+          )}
+        </p>
+        {outdated && origin.changes.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              fontSize: '13px',
+              color: NSD_COLORS.secondary,
+              cursor: 'pointer',
+            }}
+          >
+            {expanded ? 'Hide changes' : 'Show changes'}
+            <Icon name={expanded ? 'chevron-up' : 'chevron-down'} size={14} color={NSD_COLORS.secondary} />
+          </button>
+        )}
+      </div>
+      {outdated && expanded && (
+        <div style={{ marginTop: '12px' }}>
+          <TemplateChangesList changes={origin.changes} />
+          <p style={{ margin: '12px 0 0 0', fontSize: '12px', color: NSD_COLORS.text.muted }}>
+            This campaign keeps its own settings. Edit it to adopt any of these changes.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TemplateOriginNotice;
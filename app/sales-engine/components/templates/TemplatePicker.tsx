@@ -0,0 +1,145 @@
+/**
+ * TemplatePicker Component
+ *
+ * "Start from a template" list at the top of the campaign wizard. Loads the
+ * templates visible to the user (their own and their team's) and hands the
+ * chosen one to the wizard, which copies its content into the form. The form
+ * stays fully editable; nothing is saved until the campaign is created.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { NSD_COLORS, NSD_RADIUS } from '../../lib/design-tokens';
+import { Icon } from '../../../../design/components/Icon';
+import { listCampaignTemplates } from '../../lib/api';
+import type { CampaignTemplate } from '../../types/campaign-template';
+
+export interface TemplatePickerProps {
+  /** Id of the template currently applied to the form, if any. */
+  selectedId: string | null;
+  onApply: (template: CampaignTemplate) => void;
+  onClear: () => void;
+}
+
+function summary(template: CampaignTemplate): string {
+  const { icp } = template.content;
+  const parts = [
+    icp.industries?.length ? icp.industries.slice(0, 3).join(', ') : null,
+    icp.geographies?.length ? icp.geographies.slice(0, 3).join(', ') : null,
+    icp.keywords?.length ? `${icp.keywords.length} keyword${icp.keywords.length === 1 ? '' : 's'}` : null,
+  ];
+  return parts.filter(Boolean).join(' · ') || 'No ICP fields set';
+}
+
+export function TemplatePicker({ selectedId, onApply, onClear }: TemplatePickerProps) {
+  const [templates, setTemplates] = useState<CampaignTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    listCampaignTemplates().then((result) => {
+      if (!alive) return;
+      if (result.success) {
+        setTemplates(result.data);
+      } else {
+        setError(result.error);
+      }
+      setLoading(false);
+    });
+    return () => { alive = false; };
+  }, []);
+
+  return (
+    <div
+      style={{
+        marginBottom: '24px',
+        padding: '16px',
+        backgroundColor: NSD_COLORS.surface,
+        border: `1px solid ${NSD_COLORS.border.light}`,
+        borderRadius: NSD_RADIUS.md,
+      }}
+      data-testid="template-picker"
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '12px' }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <Icon name="duplicate" size={16} color={NSD_COLORS.secondary} />
+          <span style={{ fontSize: '14px', fontWeight: 600, color: NSD_COLORS.primary }}>
+            Start from a template
+          </span>
+        </div>
+        {selectedId && (
+          <button
+            type="button"
+            onClick={onClear}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              fontSize: '13px',
+              color: NSD_COLORS.secondary,
+              cursor: 'pointer',
+            }}
+          >
+            Start blank
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>Loading templates...</p>
+      ) : error ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+          Templates are unavailable: {error}
+        </p>
+      ) : templates.length === 0 ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>
+          No templates yet. Use &quot;Save as Template&quot; on any campaign to create one.
+        </p>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', maxHeight: '260px', overflowY: 'auto' }}>
+          {templates.map((template) => {
+            const selected = template.id === selectedId;
+            return (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => onApply(template)}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'flex-start',
+                  gap: '4px',
+                  width: '100%',
+                  padding: '10px 12px',
+                  textAlign: 'left',
+                  backgroundColor: selected ? NSD_COLORS.violet.light : NSD_COLORS.background,
+                  border: `1px solid ${selected ? NSD_COLORS.secondary : NSD_COLORS.border.light}`,
+                  borderRadius: NSD_RADIUS.md,
+                  cursor: 'pointer',
+                }}
+                data-testid={`template-option-${template.id}`}
+              >
+                <span style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', fontWeight: 500, color: NSD_COLORS.primary }}>
+                  {selected && <Icon name="check" size={14} color={NSD_COLORS.secondary} />}
+                  {template.name}
+                  <span style={{ fontSize: '12px', fontWeight: 400, color: NSD_COLORS.text.muted }}>
+                    v{template.current_version} · {template.scope === 'team' ? 'Team' : 'Only me'}
+                    {!template.is_owner && template.owner_email ? ` · ${template.owner_email}` : ''}
+                  </span>
+                </span>
+                {template.description && (
+                  <span style={{ fontSize: '13px', color: NSD_COLORS.text.secondary }}>{template.description}</span>
+                )}
+                <span style={{ fontSize: '12px', color: NSD_COLORS.text.muted }}>{summary(template)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default TemplatePicker;
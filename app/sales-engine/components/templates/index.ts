@@ -0,0 +1,12 @@
+/**
+ * Campaign Template Components
+ *
+ * Picking a template in the campaign wizard, saving a campaign as a template
+ * (or a new template version), and showing what changed in a template since
+ * a campaign was created from it.
+ */
+
+export { TemplatePicker } from './TemplatePicker';
+export { SaveAsTemplateModal } from './SaveAsTemplateModal';
+export { TemplateOriginNotice } from './TemplateOriginNotice';
+export { TemplateChangesList } from './TemplateChangesList';
@@ -0,0 +1,246 @@
+/**
+ * VariantEditor Component
+ *
+ * Creates and edits a campaign's email variants in the campaign editor:
+ * name, subject, body and A/B weight, with a preview that fills the
+ * personalization tokens the campaign allows (OutreachContext
+ * personalization_fields) with sample values. Adding or removing a variant
+ * splits the weights evenly; weights must total 100 before saving.
+ */
+
+'use client';
+
+import React from 'react';
+import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../lib/design-tokens';
+import { Icon } from '../../../../design/components/Icon';
+import { FormField } from '../wizard/FormField';
+import {
+  MAX_VARIANTS,
+  WEIGHT_TOTAL,
+  bodyPreview,
+  evenWeights,
+  renderPreview,
+  totalWeight,
+} from '../../lib/campaign-variants';
+import type { CampaignVariant } from '../../types/campaign';
+
+export interface VariantEditorProps {
+  variants: CampaignVariant[];
+  /** Tokens that may be used as {{field}} in subjects and bodies. */
+  personalizationFields: string[];
+  /** Errors from validateVariants, keyed `variants.<index>.<field>` / `variants.weights`. */
+  errors: Record<string, string>;
+  onChange: (variants: CampaignVariant[]) => void;
+}
+
+const VARIANT_LETTERS = 'ABCDEFGHIJ';
+
+function withEvenWeights(variants: CampaignVariant[]): CampaignVariant[] {
+  const weights = evenWeights(variants.length);
+  return variants.map((v, i) => ({ ...v, weight: weights[i] }));
+}
+
+function newVariant(index: number): CampaignVariant {
+  return {
+    id: crypto.randomUUID(),
+    name: `Variant ${VARIANT_LETTERS[index] ?? index + 1}`,
+    subject_line: '',
+    body_preview: '',
+    body: '',
+    weight: 0,
+  };
+}
+
+const linkButtonStyle: React.CSSProperties = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  gap: '6px',
+  padding: '8px 14px',
+  fontSize: '13px',
+  fontWeight: 500,
+  color: NSD_COLORS.secondary,
+  backgroundColor: NSD_COLORS.background,
+  border: `1px solid ${NSD_COLORS.border.default}`,
+  borderRadius: NSD_RADIUS.md,
+  cursor: 'pointer',
+};
+
+export function VariantEditor({ variants, personalizationFields, errors, onChange }: VariantEditorProps) {
+  const total = totalWeight(variants);
+
+  const update = (index: number, changes: Partial<CampaignVariant>) => {
+    onChange(
+      variants.map((v, i) => {
+        if (i !== index) return v;
+        const next = { ...v, ...changes };
+        return { ...next, body_preview: bodyPreview(next.body ?? '') };
+      })
+    );
+  };
+
+  const insertToken = (index: number, field: string) => {
+    const body = variants[index].body ?? '';
+    update(index, { body: `${body}${body && !body.endsWith(' ') ? ' ' : ''}{{${field}}}` });
+  };
+
+  return (
+    <div data-testid="variant-editor">
+      {variants.length === 0 && (
+        <p style={{ margin: '0 0 16px 0', fontSize: '14px', color: NSD_COLORS.text.secondary }}>
+          No variants yet. Add one to write the email; add a second to A/B test subject lines or copy.
+        </p>
+      )}
+
+      {variants.map((variant, index) => {
+        const key = `variants.${index}`;
+        const previewSubject = renderPreview(variant.subject_line, personalizationFields);
+        const previewBody = renderPreview(variant.body ?? variant.body_preview, personalizationFields);
+        return (
+          <div
+            key={variant.id}
+            style={{
+              marginBottom: '20px',
+              padding: '20px',
+              backgroundColor: NSD_COLORS.surface,
+              border: `1px solid ${NSD_COLORS.border.light}`,
+              borderRadius: NSD_RADIUS.lg,
+            }}
+          >
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 120px auto', gap: '16px', alignItems: 'start' }}>
+              <FormField
+                label="Variant Name"
+                name={`${key}.name`}
+                value={variant.name}
+                onChange={(v) => update(index, { name: String(v) })}
+                error={errors[`${key}.name`]}
+              />
+              <FormField
+                label="Weight (%)"
+                name={`${key}.weight`}
+                type="number"
+                value={variant.weight}
+                onChange={(v) => update(index, { weight: Number(v) })}
+                error={errors[`${key}.weight`]}
+              />
+              <button
+                type="button"
+                onClick={() => onChange(withEvenWeights(variants.filter((_, i) => i !== index)))}
+                aria-label={`Remove ${variant.name || 'variant'}`}
+                style={{ ...linkButtonStyle, marginTop: '28px', color: NSD_COLORS.text.secondary }}
+              >
+                <Icon name="close" size={14} color={NSD_COLORS.text.secondary} />
+                Remove
+              </button>
+            </div>
+
+            <FormField
+              label="Subject Line"
+              name={`${key}.subject_line`}
+              value={variant.subject_line}
+              onChange={(v) => update(index, { subject_line: String(v) })}
+              placeholder="e.g., Quick question about {{company}}"
+              error={errors[`${key}.subject_line`]}
+            />
+            <FormField
+              label="Body"
+              name={`${key}.body`}
+              type="textarea"
+              rows={6}
+              value={variant.body ?? variant.body_preview}
+              onChange={(v) => update(index, { body: String(v) })}
+              placeholder="Hi {{first_name}}, ..."
+              error={errors[`${key}.body`]}
+            />
+
+            {personalizationFields.length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', margin: '-8px 0 16px 0' }}>
+                <span style={{ fontSize: '12px', color: NSD_COLORS.text.muted }}>Insert:</span>
+                {personalizationFields.map((field) => (
+                  <button
+                    key={field}
+                    type="button"
+                    onClick={() => insertToken(index, field)}
+                    style={{
+                      padding: '2px 8px',
+                      fontSize: '12px',
+                      fontFamily: 'monospace',
+                      color: NSD_COLORS.violet.dark,
+                      backgroundColor: NSD_COLORS.violet.light,
+                      border: 'none',
+                      borderRadius: NSD_RADIUS.sm,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {`{{${field}}}`}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div
+              style={{
+                padding: '14px 16px',
+                backgroundColor: NSD_COLORS.background,
+                border: `1px dashed ${NSD_COLORS.border.default}`,
+                borderRadius: NSD_RADIUS.md,
+              }}
+            >
+              <div style={{ ...NSD_TYPOGRAPHY.label, color: NSD_COLORS.text.muted, marginBottom: '8px' }}>Preview</div>
+              <p style={{ margin: '0 0 8px 0', fontSize: '14px', fontWeight: 600, color: NSD_COLORS.text.primary }}>
+                {previewSubject || <span style={{ color: NSD_COLORS.text.muted, fontWeight: 400 }}>No subject</span>}
+              </p>
+              <p style={{ margin: 0, fontSize: '14px', color: NSD_COLORS.text.secondary, whiteSpace: 'pre-wrap', lineHeight: 1.5 }}>
+                {previewBody || <span style={{ color: NSD_COLORS.text.muted }}>No body</span>}
+              </p>
+            </div>
+          </div>
+        );
+      })}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+        <button
+          type="button"
+          onClick={() => onChange(withEvenWeights([...variants, newVariant(variants.length)]))}
+          disabled={variants.length >= MAX_VARIANTS}
+          style={{
+            ...linkButtonStyle,
+            opacity: variants.length >= MAX_VARIANTS ? 0.5 : 1,
+            cursor: variants.length >= MAX_VARIANTS ? 'not-allowed' : 'pointer',
+          }}
+        >
+          <Icon name="plus" size={14} color={NSD_COLORS.secondary} />
+          Add Variant
+        </button>
+        {variants.length > 1 && (
+          <button type="button" onClick={() => onChange(withEvenWeights(variants))} style={linkButtonStyle}>
+            Split Evenly
+          </button>
+        )}
+        {variants.length > 0 && (
+          <span
+            style={{
+              marginLeft: 'auto',
+              fontSize: '13px',
+              fontWeight: 500,
+              color: total === WEIGHT_TOTAL ? NSD_COLORS.text.secondary : NSD_COLORS.semantic.critical.text,
+            }}
+          >
+            Total weight: {total}% {total === WEIGHT_TOTAL ? '' : `(must be ${WEIGHT_TOTAL}%)`}
+          </span>
+        )}
+      </div>
+      {errors['variants.weights'] && (
+        <p style={{ margin: '8px 0 0 0', fontSize: '12px', color: NSD_COLORS.semantic.critical.text }}>
+          {errors['variants.weights']}
+        </p>
+      )}
+      {personalizationFields.length === 0 && variants.length > 0 && (
+        <p style={{ margin: '12px 0 0 0', fontSize: '12px', color: NSD_COLORS.text.muted }}>
+          Add Personalization Fields in the Outreach Context step to use {'{{tokens}}'} such as {'{{first_name}}'}.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default VariantEditor;
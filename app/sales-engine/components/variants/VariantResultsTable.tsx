@@ -0,0 +1,187 @@
+/**
+ * VariantResultsTable Component
+ *
+ * Per-variant send outcomes (sent, opens, replies, positive replies,
+ * bounces) for a campaign's email variants. Each variant's reply rate is
+ * compared with the first variant (control); a significance verdict is only
+ * shown once both have MIN_SENDS_FOR_SIGNIFICANCE sends.
+ *
+ * Read-only: counts come from the Sales Engine via /api/proxy/variant-results.
+ */
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../lib/design-tokens';
+import { getVariantResults } from '../../lib/api';
+import {
+  MIN_SENDS_FOR_SIGNIFICANCE,
+  compareVariantResults,
+  type VariantComparisonRow,
+  type VariantSignificance,
+} from '../../lib/campaign-variants';
+import type { CampaignVariant, VariantResult } from '../../types/campaign';
+
+export interface VariantResultsTableProps {
+  campaignId: string;
+  /** Configured variants, in order; the first is the control. */
+  variants: CampaignVariant[];
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function significanceLabel(row: VariantComparisonRow): string {
+  const labels: Record<VariantSignificance, string> = {
+    control: 'Control',
+    insufficient_data: `Needs ${MIN_SENDS_FOR_SIGNIFICANCE} sends`,
+    better: 'Significantly better',
+    worse: 'Significantly worse',
+    no_difference: 'No significant difference',
+  };
+  return row.p_value !== null && row.significance !== 'no_difference'
+    ? `${labels[row.significance]} (p=${row.p_value < 0.001 ? '<0.001' : row.p_value.toFixed(3)})`
+    : labels[row.significance];
+}
+
+const SIGNIFICANCE_STYLES: Record<VariantSignificance, { bg: string; text: string }> = {
+  control: { bg: NSD_COLORS.indigo.light, text: NSD_COLORS.indigo.base },
+  insufficient_data: { bg: NSD_COLORS.surfaceHover, text: NSD_COLORS.text.secondary },
+  better: NSD_COLORS.semantic.positive,
+  worse: NSD_COLORS.semantic.critical,
+  no_difference: { bg: NSD_COLORS.surfaceHover, text: NSD_COLORS.text.secondary },
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '10px 12px',
+  fontSize: '13px',
+  color: NSD_COLORS.text.primary,
+  borderBottom: `1px solid ${NSD_COLORS.border.light}`,
+  textAlign: 'right',
+  whiteSpace: 'nowrap',
+};
+
+const headerStyle: React.CSSProperties = {
+  ...cellStyle,
+  ...NSD_TYPOGRAPHY.label,
+  color: NSD_COLORS.text.secondary,
+  backgroundColor: NSD_COLORS.surface,
+};
+
+export function VariantResultsTable({ campaignId, variants }: VariantResultsTableProps) {
+  const [results, setResults] = useState<VariantResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    getVariantResults(campaignId)
+      .then((response) => {
+        if (alive) setResults(response.variants);
+      })
+      .catch((err) => {
+        console.error('[VariantResultsTable] Failed to load results:', err);
+        if (alive) setError(err instanceof Error ? err.message : 'Failed to load variant results');
+      });
+    return () => { alive = false; };
+  }, [campaignId]);
+
+  if (variants.length === 0 && (!results || results.length === 0)) return null;
+
+  const rows = compareVariantResults(variants, results ?? []);
+  const anySent = rows.some((r) => r.sent > 0);
+
+  return (
+    <div
+      style={{
+        marginBottom: '24px',
+        padding: '20px',
+        backgroundColor: NSD_COLORS.background,
+        border: `1px solid ${NSD_COLORS.border.light}`,
+        borderRadius: NSD_RADIUS.lg,
+      }}
+      data-testid="variant-results-table"
+    >
+      <h3 style={{ margin: '0 0 4px 0', fontSize: '16px', fontWeight: 600, fontFamily: NSD_TYPOGRAPHY.fontDisplay, color: NSD_COLORS.primary }}>
+        Email Variant Results
+      </h3>
+      <p style={{ margin: '0 0 16px 0', fontSize: '13px', color: NSD_COLORS.text.secondary }}>
+        Reply rates are compared with {rows[0]?.name ?? 'the first variant'} (control).
+      </p>
+
+      {error ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.semantic.critical.text }}>{error}</p>
+      ) : results === null ? (
+        <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.muted }}>Loading results…</p>
+      ) : (
+        <>
+          <div style={{ overflowX: 'auto' }}>
+            <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headerStyle, textAlign: 'left' }}>Variant</th>
+                  <th style={headerStyle}>Weight</th>
+                  <th style={headerStyle}>Sent</th>
+                  <th style={headerStyle}>Opens</th>
+                  <th style={headerStyle}>Replies</th>
+                  <th style={headerStyle}>Positive</th>
+                  <th style={headerStyle}>Bounce</th>
+                  <th style={{ ...headerStyle, textAlign: 'left' }}>Significance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => {
+                  const badge = SIGNIFICANCE_STYLES[row.significance];
+                  return (
+                    <tr key={row.variant_id}>
+                      <td style={{ ...cellStyle, textAlign: 'left', fontWeight: 500 }}>
+                        {row.name}
+                        {row.weight === null && (
+                          <span style={{ marginLeft: '6px', fontSize: '11px', color: NSD_COLORS.text.muted }}>(removed)</span>
+                        )}
+                      </td>
+                      <td style={cellStyle}>{row.weight === null ? '—' : `${row.weight}%`}</td>
+                      <td style={cellStyle}>{row.sent.toLocaleString()}</td>
+                      <td style={cellStyle}>{row.opened.toLocaleString()} · {percent(row.open_rate)}</td>
+                      <td style={cellStyle}>
+                        {row.replied.toLocaleString()} · {percent(row.reply_rate)}
+                        {row.lift !== null && row.significance !== 'control' && (
+                          <span style={{ marginLeft: '6px', fontSize: '11px', color: NSD_COLORS.text.muted }}>
+                            {row.lift >= 0 ? '+' : ''}{Math.round(row.lift * 100)}%
+                          </span>
+                        )}
+                      </td>
+                      <td style={cellStyle}>{row.positive_replies.toLocaleString()} · {percent(row.positive_reply_rate)}</td>
+                      <td style={cellStyle}>{row.bounced.toLocaleString()} · {percent(row.bounce_rate)}</td>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>
+                        <span
+                          style={{
+                            padding: '2px 8px',
+                            fontSize: '12px',
+                            fontWeight: 500,
+                            color: badge.text,
+                            backgroundColor: badge.bg,
+                            borderRadius: NSD_RADIUS.sm,
+                          }}
+                        >
+                          {significanceLabel(row)}
+                        </span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {!anySent && (
+            <p style={{ margin: '12px 0 0 0', fontSize: '13px', color: NSD_COLORS.text.muted }}>
+              No emails have been sent for these variants yet.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default VariantResultsTable;
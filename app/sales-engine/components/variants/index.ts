@@ -0,0 +1,9 @@
+/**
+ * Email Variant Components
+ *
+ * Editing a campaign's email variants and A/B weights, and comparing
+ * observed per-variant results.
+ */
+
+export { VariantEditor } from './VariantEditor';
+export { VariantResultsTable } from './VariantResultsTable';
@@ -4,65 +4,60 @@ import { useState } from 'react';
 import { useWizard } from '../WizardContext';
 import { Icon } from '../../../../../design/components/Icon';
 import { NSD_COLORS, NSD_RADIUS, NSD_TYPOGRAPHY } from '../../../lib/design-tokens';
+import { suggestCampaignDraft } from '../../../lib/api';
+import type { CampaignSuggestion, SuggestionRationale } from '../../../types/campaign-suggest';
 
-interface AIGeneratedContent {
-  icp: {
-    keywords: string[];
-    industries: string[];
-    roles: string[];
-    painPoints: string[];
-    valuePropositions: string[];
-    employeeSize: { min: number; max: number };
-  };
-  personalization: {
-    toneOfVoice: string;
-    cta: string;
-    usp: string;
-  };
-  rationale: {
-    targeting: string;
-    messaging: string;
-    keywordStrategy: string;
-  };
+/** "City, ST" → wizard location; QMS customers are US addresses. */
+function toLocation(geography: string): { country: string; state?: string; city?: string } {
+  const [city, state] = geography.split(',').map((p) => p.trim());
+  return state ? { country: 'US', state, city } : { country: 'US', city };
 }
 
 export function StepAI() {
   const { data, updateICP, updatePersonalization } = useWizard();
   const [isGenerating, setIsGenerating] = useState(false);
   const [hasGenerated, setHasGenerated] = useState(false);
-  const [generatedContent, setGeneratedContent] = useState<AIGeneratedContent | null>(null);
+  const [generatedContent, setGeneratedContent] = useState<CampaignSuggestion | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [showRationale, setShowRationale] = useState(false);
 
   const handleGenerate = async () => {
     setIsGenerating(true);
-    
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    const content: AIGeneratedContent = {
-      icp: {
-        keywords: ['custom neon signs', 'led signage', 'business signs', 'storefront lighting'],
-        industries: ['Retail', 'Hospitality', 'Entertainment', 'Food & Beverage'],
-        roles: ['Business Owner', 'Marketing Manager', 'Store Manager', 'Brand Director'],
-        painPoints: ['Low storefront visibility', 'Outdated signage', 'Brand differentiation', 'Customer attraction'],
-        valuePropositions: ['Eye-catching custom designs', 'Energy-efficient LED technology', 'Quick turnaround time', 'Premium quality at competitive prices'],
-        employeeSize: { min: 1, max: 500 },
-      },
-      personalization: {
-        toneOfVoice: 'professional',
-        cta: 'Get a free custom design mockup',
-        usp: 'Transform your storefront with stunning custom neon signs that attract customers and elevate your brand',
-      },
-      rationale: {
-        targeting: 'Based on the campaign name, we identified businesses likely to benefit from custom signage solutions. The selected industries (Retail, Hospitality, Entertainment) have high storefront visibility needs and regularly invest in branding.',
-        messaging: 'The messaging emphasizes visual impact and brand differentiation, key concerns for businesses in competitive retail environments. The CTA offers immediate value without commitment.',
-        keywordStrategy: 'Keywords focus on commercial intent terms that indicate active search for signage solutions. Location-based modifiers can be added for local targeting.',
+    setError(null);
+
+    const result = await suggestCampaignDraft({
+      name: data.name,
+      description: data.description,
+      keywords: data.icp.keywords,
+    });
+
+    if (!result.success) {
+      setError(result.error);
+      setIsGenerating(false);
+      return;
+    }
+
+    const { icp, outreach_context: outreach } = result.data;
+    // Empty suggestions leave what the user already entered.
+    updateICP({
+      keywords: icp.keywords.length ? icp.keywords : data.icp.keywords,
+      industries: icp.industries?.length ? icp.industries : data.icp.industries,
+      locations: icp.geographies.length ? icp.geographies.map(toLocation) : data.icp.locations,
+      roles: icp.job_titles?.length ? icp.job_titles : data.icp.roles,
+      painPoints: outreach.pain_points?.length ? outreach.pain_points : data.icp.painPoints,
+      valuePropositions: outreach.value_propositions?.length ? outreach.value_propositions : data.icp.valuePropositions,
+      employeeSize: {
+        min: icp.company_size?.min ?? data.icp.employeeSize.min,
+        max: icp.company_size?.max ?? data.icp.employeeSize.max,
       },
-    };
-    
-    updateICP(content.icp);
-    updatePersonalization(content.personalization);
-    setGeneratedContent(content);
-    
+    });
+    updatePersonalization({
+      toneOfVoice: outreach.tone || data.personalization.toneOfVoice,
+      cta: outreach.call_to_action || data.personalization.cta,
+      usp: outreach.value_propositions?.[0] || data.personalization.usp,
+    });
+    setGeneratedContent(result.data);
+
     setIsGenerating(false);
     setHasGenerated(true);
   };
@@ -88,7 +83,7 @@ export function StepAI() {
           fontFamily: NSD_TYPOGRAPHY.fontBody,
         }}
       >
-        Let AI analyze your campaign and generate targeting criteria and personalization settings.
+        Generate targeting criteria and personalization settings from our quote data and past campaign results.
       </p>
 
       <div
@@ -154,7 +149,7 @@ export function StepAI() {
                 marginRight: 'auto',
               }}
             >
-              Based on &quot;{data.name || 'your campaign'}&quot;, AI will generate ICP targeting, keyword suggestions, and personalization settings with explanations.
+              Based on &quot;{data.name || 'your campaign'}&quot;, the last year of quotes and past campaign lead approvals, AI will suggest ICP targeting, keywords and personalization settings with the evidence behind them.
             </p>
 
             <button
@@ -236,6 +231,11 @@ export function StepAI() {
             >
               ICP and personalization settings have been populated. Review and edit them in the next steps.
             </p>
+            {generatedContent?.fallback_reason && (
+              <p style={{ margin: '-8px 0 20px 0', fontSize: '12px', color: NSD_COLORS.text.muted }}>
+                The AI provider was unavailable ({generatedContent.fallback_reason}); this draft was built directly from the data.
+              </p>
+            )}
 
             <div style={{ display: 'flex', gap: '12px', justifyContent: 'center' }}>
               <button
@@ -284,6 +284,22 @@ export function StepAI() {
         )}
       </div>
 
+      {error && (
+        <div
+          style={{
+            marginTop: '16px',
+            padding: '12px 16px',
+            backgroundColor: NSD_COLORS.semantic.critical.bg,
+            border: `1px solid ${NSD_COLORS.semantic.critical.border}`,
+            borderRadius: NSD_RADIUS.md,
+            fontSize: '13px',
+            color: NSD_COLORS.semantic.critical.text,
+          }}
+        >
+          Could not generate a draft: {error}
+        </div>
+      )}
+
       {hasGenerated && showRationale && generatedContent && (
         <div style={{ marginTop: '24px' }}>
           <h4
@@ -298,9 +314,9 @@ export function StepAI() {
             AI Rationale
           </h4>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
-            <RationaleCard title="Targeting Strategy" content={generatedContent.rationale.targeting} icon="target" />
-            <RationaleCard title="Messaging Approach" content={generatedContent.rationale.messaging} icon="message" />
-            <RationaleCard title="Keyword Strategy" content={generatedContent.rationale.keywordStrategy} icon="ai" />
+            <RationaleCard title="Targeting Strategy" rationale={generatedContent.rationale.targeting} icon="target" />
+            <RationaleCard title="Messaging Approach" rationale={generatedContent.rationale.messaging} icon="message" />
+            <RationaleCard title="Keyword Strategy" rationale={generatedContent.rationale.keyword_strategy} icon="ai" />
           </div>
         </div>
       )}
@@ -349,7 +365,13 @@ export function StepAI() {
   );
 }
 
-function RationaleCard({ title, content, icon }: { title: string; content: string; icon: string }) {
+const EVIDENCE_SOURCE_LABELS: Record<SuggestionRationale['evidence'][number]['source'], string> = {
+  campaign_basics: 'Campaign',
+  qms_deals: 'Quotes',
+  past_campaigns: 'Past campaigns',
+};
+
+function RationaleCard({ title, rationale, icon }: { title: string; rationale: SuggestionRationale; icon: string }) {
   return (
     <div
       style={{
@@ -363,7 +385,19 @@ function RationaleCard({ title, content, icon }: { title: string; content: strin
         <Icon name={icon as any} size={16} color={NSD_COLORS.secondary} />
         <span style={{ fontSize: '14px', fontWeight: 600, color: NSD_COLORS.primary }}>{title}</span>
       </div>
-      <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.secondary, lineHeight: 1.6 }}>{content}</p>
+      <p style={{ margin: 0, fontSize: '13px', color: NSD_COLORS.text.secondary, lineHeight: 1.6 }}>{rationale.summary}</p>
+      {rationale.evidence.length > 0 && (
+        <ul style={{ margin: '12px 0 0 0', padding: 0, listStyle: 'none', display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          {rationale.evidence.map((e, i) => (
+            <li key={i} style={{ fontSize: '12px', color: NSD_COLORS.text.secondary, display: 'flex', gap: '8px' }}>
+              <span style={{ color: NSD_COLORS.text.muted, minWidth: '96px' }}>{EVIDENCE_SOURCE_LABELS[e.source]}</span>
+              <span>
+                <span style={{ color: NSD_COLORS.text.primary, fontWeight: 500 }}>{e.label}</span> — {e.value}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
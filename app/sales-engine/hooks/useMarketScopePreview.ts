@@ -0,0 +1,108 @@
+/**
+ * useMarketScopePreview Hook
+ * 
+ * Live market size estimate for an ICP that is being edited. Requests are
+ * debounced, superseded requests are aborted, and results are cached per
+ * criteria hash so toggling a value back does not refetch.
+ * 
+ * OBSERVATIONS-FIRST: counts come from observations.* via the Sales Engine.
+ * Read-only; nothing is harvested or stored.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { previewMarketScope } from '../lib/api';
+import {
+  buildPreviewCriteria,
+  canPreview,
+  previewCriteriaHash,
+  type PreviewIcp,
+} from '../lib/market-scope-preview';
+import type { MarketScopePreview, MarketScopePreviewCriteria } from '../types/campaign';
+
+const DEFAULT_DEBOUNCE_MS = 600;
+const MAX_CACHE_ENTRIES = 50;
+
+const previewCache = new Map<string, MarketScopePreview>();
+
+function remember(hash: string, preview: MarketScopePreview) {
+  previewCache.delete(hash);
+  previewCache.set(hash, preview);
+  if (previewCache.size > MAX_CACHE_ENTRIES) {
+    const oldest = previewCache.keys().next().value;
+    if (oldest !== undefined) previewCache.delete(oldest);
+  }
+}
+
+interface UseMarketScopePreviewOptions {
+  debounceMs?: number;
+  enabled?: boolean;
+}
+
+interface UseMarketScopePreviewResult {
+  criteria: MarketScopePreviewCriteria;
+  /** False until the ICP has at least one keyword. */
+  ready: boolean;
+  preview: MarketScopePreview | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function useMarketScopePreview(
+  icp: PreviewIcp,
+  { debounceMs = DEFAULT_DEBOUNCE_MS, enabled = true }: UseMarketScopePreviewOptions = {}
+): UseMarketScopePreviewResult {
+  // Key the criteria by hash so a new-but-equal ICP object does not refetch
+  const nextCriteria = buildPreviewCriteria(icp);
+  const hash = previewCriteriaHash(nextCriteria);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const criteria = useMemo(() => nextCriteria, [hash]);
+  const ready = canPreview(criteria);
+
+  const [preview, setPreview] = useState<MarketScopePreview | null>(() => previewCache.get(hash) ?? null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (!enabled || !ready) {
+      setPreview(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const cached = previewCache.get(hash);
+    if (cached) {
+      setPreview(cached);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timer = setTimeout(() => {
+      previewMarketScope(criteria, controller.signal)
+        .then((result) => {
+          remember(hash, result);
+          setPreview(result);
+          setIsLoading(false);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          console.error('[useMarketScopePreview] Preview failed:', err);
+          setError(err instanceof Error ? err.message : 'Failed to estimate market size');
+          setIsLoading(false);
+        });
+    }, debounceMs);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [hash, criteria, ready, enabled, debounceMs]);
+
+  return { criteria, ready, preview, isLoading, error };
+}
+
+export default useMarketScopePreview;
@@ -0,0 +1,121 @@
+/**
+ * Campaign Review - Unit Tests
+ *
+ * Request validation, reviewer eligibility, approval progress, comment
+ * threading and audit-log descriptions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  approvalProgress,
+  canReview,
+  isSubmitter,
+  describeEvent,
+  threadComments,
+  validateCommentInput,
+  validatePolicyInput,
+  validateRequestChangesInput,
+  validateReviewerInput,
+} from '../campaign-review';
+import type { CampaignReviewComment, GovernanceEvent, ReviewActor } from '../../types/campaign-review';
+
+const alice: ReviewActor = { id: 'u1', email: 'alice@example.com', name: 'Alice' };
+const bob: ReviewActor = { id: 'u2', email: 'bob@example.com', name: 'Bob' };
+
+function comment(id: string, created_at: string, parent_id: string | null = null): CampaignReviewComment {
+  return { id, parent_id, field: null, review_round: 1, body: id, author: alice, created_at };
+}
+
+describe('request validation', () => {
+  it('requires a comment body and a known field', () => {
+    expect(validateCommentInput({ body: '  ' })).toEqual({ error: 'body is required' });
+    expect(validateCommentInput({ body: 'x', field: 'icp.nope' })).toMatchObject({ error: expect.stringContaining('field must be one of') });
+    expect(validateCommentInput({ body: ' Too broad ', field: 'icp.keywords' }))
+      .toEqual({ value: { body: 'Too broad', field: 'icp.keywords', parent_id: null } });
+  });
+
+  it('requires a reason to request changes', () => {
+    expect(validateRequestChangesInput({ field: 'outreach_context.tone' })).toEqual({ error: 'reason is required' });
+    expect(validateRequestChangesInput({ reason: 'Tone is off', field: 'outreach_context.tone' }))
+      .toEqual({ value: { reason: 'Tone is off', field: 'outreach_context.tone' } });
+  });
+
+  it('bounds required approvals and lowercases reviewer emails', () => {
+    expect(validatePolicyInput({ required_approvals: 0 })).toHaveProperty('error');
+    expect(validatePolicyInput({ required_approvals: 2.5 })).toHaveProperty('error');
+    expect(validatePolicyInput({ required_approvals: 3 })).toEqual({ value: { required_approvals: 3 } });
+    expect(validateReviewerInput({ email: 'not-an-email' })).toHaveProperty('error');
+    expect(validateReviewerInput({ email: ' Bob@Example.com ' })).toEqual({ value: { email: 'bob@example.com' } });
+  });
+});
+
+describe('canReview', () => {
+  it('allows anyone when no reviewers are assigned, otherwise only assigned reviewers', () => {
+    expect(canReview([], bob)).toBe(true);
+    expect(canReview([{ email: 'alice@example.com' }], { id: 'u1', email: 'Alice@Example.com' })).toBe(true);
+    expect(canReview([{ email: 'alice@example.com' }], bob)).toBe(false);
+    expect(canReview([{ email: 'alice@example.com' }], { id: 'u9', email: null })).toBe(false);
+  });
+
+  it('never lets the submitter review their own round', () => {
+    expect(canReview([], bob, bob)).toBe(false);
+    expect(canReview([{ email: 'bob@example.com' }], bob, { id: null, email: 'Bob@Example.com' })).toBe(false);
+    expect(canReview([], bob, alice)).toBe(true);
+    expect(isSubmitter(null, bob)).toBe(false);
+  });
+});
+
+describe('approvalProgress', () => {
+  it('counts approvals against the required number', () => {
+    const progress = approvalProgress(2, [], [{ reviewer: alice, decision: 'approved' }]);
+    expect(progress).toEqual({ approvals: 1, required: 2, remaining: 1, pending_reviewers: [], complete: false });
+    expect(approvalProgress(2, [], [
+      { reviewer: alice, decision: 'approved' },
+      { reviewer: bob, decision: 'approved' },
+    ]).complete).toBe(true);
+  });
+
+  it('only counts assigned reviewers and lists those still to decide', () => {
+    const progress = approvalProgress(
+      1,
+      [{ email: 'alice@example.com' }, { email: 'carol@example.com' }],
+      [{ reviewer: bob, decision: 'approved' }, { reviewer: alice, decision: 'changes_requested' }],
+    );
+    expect(progress.approvals).toBe(0);
+    expect(progress.pending_reviewers).toEqual(['carol@example.com']);
+    expect(progress.complete).toBe(false);
+  });
+});
+
+describe('threadComments', () => {
+  it('nests replies, including replies to replies, under their root in time order', () => {
+    const threads = threadComments([
+      comment('reply-2', '2026-10-01T12:00:00Z', 'reply-1'),
+      comment('root-b', '2026-10-01T11:00:00Z'),
+      comment('root-a', '2026-10-01T09:00:00Z'),
+      comment('reply-1', '2026-10-01T10:00:00Z', 'root-a'),
+      comment('orphan', '2026-10-01T13:00:00Z', 'deleted'),
+    ]);
+    expect(threads.map((t) => t.id)).toEqual(['root-a', 'root-b', 'orphan']);
+    expect(threads[0].replies.map((r) => r.id)).toEqual(['reply-1', 'reply-2']);
+  });
+});
+
+describe('describeEvent', () => {
+  const base: GovernanceEvent = {
+    id: 'e1',
+    action: 'submitted',
+    review_round: 2,
+    actor: alice,
+    details: {},
+    created_at: '2026-10-01T09:00:00Z',
+  };
+
+  it('describes submissions, approvals and change requests', () => {
+    expect(describeEvent(base)).toBe('submitted the campaign for review (round 2)');
+    expect(describeEvent({ ...base, action: 'approved', details: { approvals: 1, required_approvals: 2 } }))
+      .toBe('approved (1 of 2)');
+    expect(describeEvent({ ...base, action: 'changes_requested', details: { field: 'icp.keywords', reason: 'Too broad' } }))
+      .toBe('requested changes to Keywords: Too broad');
+  });
+});
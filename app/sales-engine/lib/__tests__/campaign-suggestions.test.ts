@@ -0,0 +1,156 @@
+/**
+ * Campaign Suggestions - Unit Tests
+ *
+ * Industry inference, quote signal aggregation and the local / chat providers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MIN_CAMPAIGN_LEADS,
+  createChatSuggestionProvider,
+  inferIndustry,
+  localSuggestionProvider,
+  suggestionProviderFromEnv,
+  summarizeQuoteSignals,
+  type QuoteSignalRow,
+  type SuggestionSignals,
+} from '../campaign-suggestions';
+
+function row(partial: Partial<QuoteSignalRow>): QuoteSignalRow {
+  return {
+    customer_company: null,
+    customer_city: null,
+    customer_state: null,
+    sign_text: null,
+    sign_type: null,
+    utm_term: null,
+    utm_medium: null,
+    cancel_reason: null,
+    quote_activity: 'Quote Submitted',
+    total_price_cents: 50000,
+    created_at: '2026-05-01T00:00:00Z',
+    quote_paid_at: null,
+    ...partial,
+  };
+}
+
+const rows: QuoteSignalRow[] = [
+  row({ customer_company: 'Bean There Coffee', customer_city: 'Austin', customer_state: 'tx', sign_type: 'LED Neon', utm_term: 'Custom Neon Sign', utm_medium: 'cpc', quote_activity: 'Quote Paid', quote_paid_at: '2026-05-11T00:00:00Z', total_price_cents: 120000 }),
+  row({ customer_company: 'Main St Pizza', customer_city: 'Austin', customer_state: 'TX', sign_type: 'LED Neon', quote_activity: 'Quote Paid', quote_paid_at: '2026-05-05T00:00:00Z', total_price_cents: 80000 }),
+  row({ customer_company: 'Glow Salon', customer_city: 'Denver', customer_state: 'CO', sign_type: 'Channel Letters', utm_term: 'salon sign', utm_medium: 'organic' }),
+  row({ customer_company: 'Acme Holdings', customer_city: 'Denver', customer_state: 'CO', cancel_reason: 'Price too high', quote_activity: 'Not Interested' }),
+  row({ customer_city: 'Austin', customer_state: 'TX', sign_text: 'Good Vibes', cancel_reason: 'price too high', quote_activity: 'Not Interested' }),
+];
+
+function signals(overrides: Partial<SuggestionSignals> = {}): SuggestionSignals {
+  return {
+    window_days: 365,
+    quotes: summarizeQuoteSignals(rows),
+    past_campaigns: [
+      { id: 'c1', name: 'Spring Cafes', industries: ['Food & Beverage'], keywords: ['coffee shop signs'], job_titles: ['Owner'], company_size: { min: 1, max: 50 }, leads: 40, approved_leads: 30 },
+      { id: 'c2', name: 'Gyms', industries: ['Fitness'], keywords: ['gym signs'], job_titles: ['General Manager'], company_size: null, leads: 50, approved_leads: 10 },
+      { id: 'c3', name: 'Tiny test', industries: ['Healthcare'], keywords: [], job_titles: ['Dentist'], company_size: null, leads: MIN_CAMPAIGN_LEADS - 1, approved_leads: MIN_CAMPAIGN_LEADS - 1 },
+    ],
+    ...overrides,
+  };
+}
+
+describe('inferIndustry', () => {
+  it('classifies from company name and sign text, and leaves unknowns unclassified', () => {
+    expect(inferIndustry('Bean There Coffee')).toBe('Food & Beverage');
+    expect(inferIndustry('The Rusty Tap', 'Brewing Co')).toBe('Bars & Nightlife');
+    expect(inferIndustry('Glow Salon & Spa')).toBe('Beauty & Wellness');
+    expect(inferIndustry('Acme Holdings')).toBeNull();
+    expect(inferIndustry(null, null)).toBeNull();
+  });
+});
+
+describe('summarizeQuoteSignals', () => {
+  it('aggregates industries, cities, paid-search terms, sign types and lost-quote reasons', () => {
+    const q = summarizeQuoteSignals(rows);
+    expect(q).toMatchObject({ total: 5, business: 4, classified: 3, paid: 2, median_days_to_paid: 7 });
+    expect(q.industries[0]).toEqual({ key: 'Food & Beverage', quotes: 2, paid_quotes: 2, paid_revenue_cents: 200000 });
+    expect(q.cities[0]).toEqual({ city: 'Austin', state: 'TX', quotes: 3, paid_quotes: 2 });
+    // Only paid-search terms count
+    expect(q.search_terms.map((t) => t.key)).toEqual(['custom neon sign']);
+    expect(q.sign_types[0]).toMatchObject({ key: 'LED Neon', quotes: 2, paid_quotes: 2 });
+    expect(q.objections).toEqual([{ reason: 'Price too high', quotes: 2 }]);
+  });
+});
+
+describe('localSuggestionProvider', () => {
+  it('is deterministic and builds the ICP from the signals', async () => {
+    const input = { name: 'Austin cafes', keywords: ['neon menu boards'] };
+    const a = await localSuggestionProvider.generate(input, signals());
+    const b = await localSuggestionProvider.generate(input, signals());
+    expect(a).toEqual(b);
+
+    expect(a.provider).toBe('local');
+    expect(a.icp.industries).toEqual(['Food & Beverage', 'Beauty & Wellness', 'Fitness']);
+    expect(a.icp.geographies).toEqual(['Austin, TX', 'Denver, CO']);
+    expect(a.icp.keywords.slice(0, 3)).toEqual(['neon menu boards', 'custom neon sign', 'led neon signs']);
+    // Best-approving past campaign with enough leads
+    expect(a.icp.job_titles).toEqual(['Owner']);
+    expect(a.icp.company_size).toEqual({ min: 1, max: 50 });
+    expect(a.outreach_context.pain_points).toEqual(['Price too high']);
+  });
+
+  it('backs every rationale with evidence from the data', async () => {
+    const s = await localSuggestionProvider.generate({ name: 'Austin cafes' }, signals());
+    expect(s.rationale.targeting.summary).toContain('account for 3 of 3 business quotes we could place by industry in the last 365 days (2 paid)');
+    expect(s.rationale.targeting.evidence).toContainEqual({ source: 'qms_deals', label: 'Food & Beverage', value: '2 quotes, 2 paid ($2,000)' });
+    expect(s.rationale.targeting.evidence).toContainEqual({ source: 'past_campaigns', label: 'Food & Beverage', value: '30 of 40 leads approved (75%) across 1 campaign' });
+    expect(s.rationale.messaging.evidence).toContainEqual({ source: 'qms_deals', label: 'Median quote-to-paid time', value: '7 days over 2 paid quotes' });
+    expect(s.rationale.keyword_strategy.evidence.some((e) => e.label === 'Search term "custom neon sign"')).toBe(true);
+  });
+
+  it('says what is missing instead of inventing it', async () => {
+    const s = await localSuggestionProvider.generate({ name: 'Empty' }, signals({ quotes: summarizeQuoteSignals([]), past_campaigns: [] }));
+    expect(s.icp).toMatchObject({ keywords: [], geographies: [], industries: [] });
+    expect(s.rationale.targeting.summary).toContain('No customer city data');
+    expect(s.rationale.keyword_strategy.summary).toContain('enter keywords manually');
+    expect(s.rationale.targeting.evidence).toEqual([]);
+  });
+});
+
+describe('createChatSuggestionProvider', () => {
+  it('takes the model lists and prose but keeps the local evidence', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        choices: [{ message: { content: JSON.stringify({
+          icp: { keywords: ['cafe neon signs'], industries: ['Food & Beverage'], geographies: 'Austin' },
+          outreach_context: { tone: 'friendly' },
+          rationale: { targeting: 'Cafes paid 2 of 2 quotes.' },
+        }) } }],
+      }),
+    });
+    const provider = createChatSuggestionProvider({ baseUrl: 'https://llm.test/v1/', apiKey: 'k', model: 'm', fetchImpl });
+    const local = await localSuggestionProvider.generate({ name: 'Austin cafes' }, signals());
+    const s = await provider.generate({ name: 'Austin cafes' }, signals());
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('https://llm.test/v1/chat/completions');
+    expect(fetchImpl.mock.calls[0][1].body).not.toContain('Bean There');
+    expect(s.provider).toBe('chat:m');
+    expect(s.icp.keywords).toEqual(['cafe neon signs']);
+    // Not a list: the draft's geographies stay
+    expect(s.icp.geographies).toEqual(local.icp.geographies);
+    expect(s.outreach_context.tone).toBe('friendly');
+    expect(s.rationale.targeting).toEqual({ summary: 'Cafes paid 2 of 2 quotes.', evidence: local.rationale.targeting.evidence });
+    expect(s.rationale.messaging).toEqual(local.rationale.messaging);
+  });
+
+  it('throws on an HTTP error so the route can fall back', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue({ ok: false, status: 429 });
+    const provider = createChatSuggestionProvider({ baseUrl: 'https://llm.test/v1', apiKey: 'k', model: 'm', fetchImpl });
+    await expect(provider.generate({ name: 'x' }, signals())).rejects.toThrow('HTTP 429');
+  });
+});
+
+describe('suggestionProviderFromEnv', () => {
+  it('is local unless the chat provider is fully configured', () => {
+    expect(suggestionProviderFromEnv({}).id).toBe('local');
+    expect(suggestionProviderFromEnv({ CAMPAIGN_SUGGEST_PROVIDER: 'chat', CAMPAIGN_SUGGEST_API_KEY: 'k' }).id).toBe('local');
+    expect(suggestionProviderFromEnv({ CAMPAIGN_SUGGEST_PROVIDER: 'chat', CAMPAIGN_SUGGEST_API_KEY: 'k', CAMPAIGN_SUGGEST_MODEL: 'm' }).id).toBe('chat:m');
+  });
+});
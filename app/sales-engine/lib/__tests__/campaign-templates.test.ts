@@ -0,0 +1,148 @@
+/**
+ * Campaign Templates - Unit Tests
+ *
+ * Content normalization from payloads and stored campaigns, request
+ * validation, and the version diff.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  diffTemplateContent,
+  normalizeTemplateContent,
+  templateContentFromCampaign,
+  templateContentFromPayload,
+  validateTemplateInput,
+} from '../campaign-templates';
+import type { CampaignCreatePayload } from '../../types/campaign-create';
+
+const payload: CampaignCreatePayload = {
+  campaign_identity: { name: 'Restaurants Q3', description: 'Storefront signage' },
+  icp: {
+    company_size: { min: 10, max: 500 },
+    industries: ['Food & Beverage'],
+    geographies: ['US'],
+    job_titles: ['Owner'],
+    seniority_levels: ['Owner'],
+    keywords: ['neon sign', 'restaurant'],
+  },
+  contact_targeting: {
+    roles: ['Owner'],
+    seniority: ['Owner'],
+    max_contacts_per_org: 2,
+    email_requirements: { require_verified: true, exclude_generic: true },
+  },
+  outreach_context: {
+    tone: 'friendly',
+    value_propositions: ['Custom LED neon'],
+    pain_points: ['Low foot traffic'],
+    call_to_action: 'Get a free mockup',
+  },
+  campaign_targets: { target_leads: 200, target_emails: null, target_reply_rate: 5 },
+  sourcing_config: { benchmarks_only: false },
+};
+
+describe('templateContentFromPayload', () => {
+  it('keeps ICP, targeting, outreach and targets but not identity', () => {
+    const content = templateContentFromPayload(payload);
+    expect(content.icp.keywords).toEqual(['neon sign', 'restaurant']);
+    expect(content.contact_targeting.max_contacts_per_org).toBe(2);
+    expect(content.outreach_context.call_to_action).toBe('Get a free mockup');
+    expect(content.campaign_targets).toEqual({ target_leads: 200, target_emails: null, target_reply_rate: 5 });
+    expect(content).not.toHaveProperty('campaign_identity');
+  });
+
+  it('keeps ICP exclusions and defaults them to empty lists', () => {
+    expect(templateContentFromPayload(payload).icp.exclusions).toEqual({ industries: [], domains: [] });
+    const content = templateContentFromPayload({
+      ...payload,
+      icp: { ...payload.icp, exclusions: { domains: ['competitor.com'] } },
+    });
+    expect(content.icp.exclusions).toEqual({ industries: [], domains: ['competitor.com'] });
+  });
+});
+
+describe('templateContentFromCampaign', () => {
+  it('reads job titles and contact limits from lead_qualification_config for created campaigns', () => {
+    const content = templateContentFromCampaign({
+      icp: { keywords: ['bar'], geographies: ['US'], industries: ['Hospitality'], company_size: { min: 1, max: 50 } },
+      sourcing_config: { benchmarks_only: false, targets: { target_leads: 100 } },
+      lead_qualification_config: {
+        job_titles: ['Manager'],
+        seniority_levels: ['Director'],
+        require_verified_email: false,
+        max_contacts_per_org: 4,
+      },
+    });
+    expect(content.icp.job_titles).toEqual(['Manager']);
+    expect(content.contact_targeting.roles).toEqual(['Manager']);
+    expect(content.contact_targeting.seniority).toEqual(['Director']);
+    expect(content.contact_targeting.max_contacts_per_org).toBe(4);
+    expect(content.contact_targeting.email_requirements?.require_verified).toBe(false);
+    expect(content.campaign_targets.target_leads).toBe(100);
+  });
+
+  it('prefers the edited locations in icp and sourcing_config', () => {
+    const content = templateContentFromCampaign({
+      icp: { keywords: ['bar'], geographies: ['US'], job_titles: ['Owner'] },
+      sourcing_config: {
+        contact_targeting: { roles: ['Owner'], max_contacts_per_org: 1 },
+        outreach_context: { tone: 'direct', value_propositions: ['Fast turnaround'] },
+      },
+      lead_qualification_config: { job_titles: ['Manager'], max_contacts_per_org: 4 },
+    });
+    expect(content.icp.job_titles).toEqual(['Owner']);
+    expect(content.contact_targeting.max_contacts_per_org).toBe(1);
+    expect(content.outreach_context.tone).toBe('direct');
+    expect(content.outreach_context.value_propositions).toEqual(['Fast turnaround']);
+  });
+});
+
+describe('validateTemplateInput', () => {
+  it('requires a name and a content source on create', () => {
+    expect(validateTemplateInput({ content: {} }, false)).toEqual({ error: 'name is required' });
+    expect(validateTemplateInput({ name: 'A' }, false)).toEqual({ error: 'content or source_campaign_id is required' });
+    expect(validateTemplateInput({ name: 'A', content: {}, source_campaign_id: 'x' }, false))
+      .toEqual({ error: 'Pass either content or source_campaign_id, not both' });
+  });
+
+  it('leaves scope unset unless given and rejects unknown scopes', () => {
+    const ok = validateTemplateInput({ name: ' Restaurants ', source_campaign_id: 'abc' }, false);
+    expect(ok).toEqual({ value: { name: 'Restaurants', source_campaign_id: 'abc' } });
+    expect(validateTemplateInput({ scope: 'org' }, true)).toEqual({ error: 'scope must be one of: user, team' });
+  });
+
+  it('accepts metadata-only updates', () => {
+    expect(validateTemplateInput({ description: '', change_note: 'x' }, true))
+      .toEqual({ value: { description: null, change_note: 'x' } });
+  });
+});
+
+describe('diffTemplateContent', () => {
+  const before = templateContentFromPayload(payload);
+
+  it('returns no changes for identical or reordered content', () => {
+    const reordered = normalizeTemplateContent({
+      ...before,
+      icp: { ...before.icp, keywords: ['restaurant', 'neon sign'] },
+    });
+    expect(diffTemplateContent(before, reordered)).toEqual([]);
+  });
+
+  it('reports added and removed list entries and scalar changes in field order', () => {
+    const after = normalizeTemplateContent({
+      ...before,
+      icp: { ...before.icp, keywords: ['neon sign', 'bar'] },
+      outreach_context: { ...before.outreach_context, tone: 'direct' },
+      campaign_targets: { ...before.campaign_targets, target_emails: 500 },
+    });
+    const changes = diffTemplateContent(before, after);
+    expect(changes.map((c) => c.field)).toEqual([
+      'icp.keywords',
+      'outreach_context.tone',
+      'campaign_targets.target_emails',
+    ]);
+    expect(changes[0]).toMatchObject({ added: ['bar'], removed: ['restaurant'] });
+    expect(changes[1]).toMatchObject({ before: 'friendly', after: 'direct' });
+    expect(changes[2]).toMatchObject({ before: '', after: '500' });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Campaign Variants - Unit Tests
+ *
+ * Token preview, weight and content validation, stored-variant
+ * normalization, and the per-variant significance comparison.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compareVariantResults,
+  evenWeights,
+  extractTokens,
+  normalizeVariants,
+  variantsShapeError,
+  renderPreview,
+  twoProportionPValue,
+  validateVariants,
+} from '../campaign-variants';
+import type { CampaignVariant } from '../../types/campaign';
+
+function variant(overrides: Partial<CampaignVariant>): CampaignVariant {
+  return {
+    id: 'a',
+    name: 'A',
+    subject_line: 'Hello {{first_name}}',
+    body_preview: '',
+    body: 'Hi {{first_name}}, a sign for {{company}}?',
+    weight: 50,
+    ...overrides,
+  };
+}
+
+describe('personalization tokens', () => {
+  it('extracts distinct tokens and renders only configured ones', () => {
+    const text = 'Hi {{ first_name }}, {{company}} and {{first_name}} {{deal_size}}';
+    expect(extractTokens(text)).toEqual(['first_name', 'company', 'deal_size']);
+    expect(renderPreview(text, ['first_name', 'company', 'deal_size'])).toBe('Hi Alex, Acme Signs and Alex [deal_size]');
+    expect(renderPreview(text, ['first_name'])).toBe('Hi Alex, {{company}} and Alex {{deal_size}}');
+  });
+});
+
+describe('evenWeights', () => {
+  it('splits 100 with the remainder on the first variants', () => {
+    expect(evenWeights(3)).toEqual([34, 33, 33]);
+    expect(evenWeights(2)).toEqual([50, 50]);
+    expect(evenWeights(0)).toEqual([]);
+  });
+});
+
+describe('validateVariants', () => {
+  const fields = ['first_name', 'company'];
+
+  it('accepts no variants and a valid 50/50 split', () => {
+    expect(validateVariants([], fields)).toEqual({});
+    expect(validateVariants([variant({}), variant({ id: 'b', name: 'B' })], fields)).toEqual({});
+  });
+
+  it('requires weights to sum to 100', () => {
+    const errors = validateVariants([variant({ weight: 60 }), variant({ id: 'b', name: 'B', weight: 30 })], fields);
+    expect(errors).toEqual({ 'variants.weights': 'Weights must add up to 100 (currently 90)' });
+  });
+
+  it('reports per-variant errors for names, subjects, tokens and weights', () => {
+    const errors = validateVariants(
+      [
+        variant({ subject_line: ' ' }),
+        variant({ id: 'b', name: 'a', body: 'Hi {{title}}', weight: 50.5 }),
+      ],
+      fields
+    );
+    expect(errors['variants.0.subject_line']).toBe('Subject line is required');
+    expect(errors['variants.1.name']).toBe('Variant names must be unique');
+    expect(errors['variants.1.body']).toContain('{{title}}');
+    expect(errors['variants.1.weight']).toBe('Weight must be a whole number from 0 to 100');
+  });
+});
+
+describe('normalizeVariants', () => {
+  it('drops entries without an id and derives body_preview from body', () => {
+    const long = 'word '.repeat(60);
+    const result = normalizeVariants([{ name: 'no id' }, { id: 'a', name: ' A ', body: long, weight: '100' }]);
+    expect(result).toHaveLength(1);
+    expect(result[0]).toMatchObject({ id: 'a', name: 'A', weight: 100 });
+    expect(result[0].body_preview.length).toBe(140);
+    expect(result[0].body_preview.endsWith('…')).toBe(true);
+  });
+});
+
+describe('variantsShapeError', () => {
+  it('rejects non-arrays and entries without an id instead of filtering them', () => {
+    expect(variantsShapeError([{ id: 'a' }, { id: 'b' }])).toBeNull();
+    expect(variantsShapeError([])).toBeNull();
+    expect(variantsShapeError({ id: 'a' })).toBe('variants must be an array');
+    expect(variantsShapeError(null)).toBe('variants must be an array');
+    expect(variantsShapeError([{ id: 'a' }, { name: 'no id' }])).toBe('variants[1] must be an object with a non-empty id');
+    expect(variantsShapeError(['a'])).toMatch(/variants\[0\]/);
+  });
+});
+
+describe('compareVariantResults', () => {
+  const variants = [variant({}), variant({ id: 'b', name: 'B' })];
+
+  it('marks variants without enough sends as insufficient data', () => {
+    const rows = compareVariantResults(variants, [
+      { variant_id: 'a', sent: 500, opened: 200, replied: 25, positive_replies: 10, bounced: 5 },
+      { variant_id: 'b', sent: 40, opened: 20, replied: 4, positive_replies: 2, bounced: 0 },
+    ]);
+    expect(rows.map((r) => r.significance)).toEqual(['control', 'insufficient_data']);
+    expect(rows[0].reply_rate).toBeCloseTo(0.05);
+    expect(rows[1].lift).toBeCloseTo(1);
+  });
+
+  it('reports a significant winner and keeps results for removed variants', () => {
+    const rows = compareVariantResults(variants, [
+      { variant_id: 'a', sent: 1000, opened: 400, replied: 30, positive_replies: 12, bounced: 10 },
+      { variant_id: 'b', sent: 1000, opened: 420, replied: 70, positive_replies: 30, bounced: 8 },
+      { variant_id: 'old', name: 'Old', sent: 1000, opened: 390, replied: 33, positive_replies: 10, bounced: 9 },
+    ]);
+    expect(rows.map((r) => [r.name, r.weight, r.significance])).toEqual([
+      ['A', 50, 'control'],
+      ['B', 50, 'better'],
+      ['Old', null, 'no_difference'],
+    ]);
+    expect(rows[1].p_value).toBeLessThan(0.001);
+  });
+
+  it('fills configured variants that have no results with zeros', () => {
+    const rows = compareVariantResults(variants, []);
+    expect(rows[1]).toMatchObject({ sent: 0, reply_rate: 0, significance: 'insufficient_data' });
+  });
+});
+
+describe('twoProportionPValue', () => {
+  it('is below 0.05 for a clear difference and 1 for identical rates', () => {
+    // 10% vs 13.3% with 1000 sends each gives z of about 2.3
+    expect(twoProportionPValue(100, 1000, 133, 1000)).toBeLessThan(0.05);
+    expect(twoProportionPValue(100, 1000, 100, 1000)).toBeCloseTo(1);
+    expect(twoProportionPValue(0, 1000, 0, 1000)).toBe(1);
+  });
+});
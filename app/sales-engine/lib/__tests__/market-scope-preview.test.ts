@@ -0,0 +1,107 @@
+/**
+ * Market Scope Preview - Unit Tests
+ *
+ * Criteria normalization and hashing, request validation, response
+ * coercion and the market size assessment.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  assessMarketSize,
+  buildPreviewCriteria,
+  normalizePreviewResponse,
+  previewCriteriaHash,
+  unavailablePreview,
+  validatePreviewCriteria,
+} from '../market-scope-preview';
+
+describe('buildPreviewCriteria', () => {
+  it('trims, de-duplicates case-insensitively and sorts lists', () => {
+    const criteria = buildPreviewCriteria({
+      keywords: [' restaurant ', 'Neon sign', 'RESTAURANT', ''],
+      geographies: ['US'],
+      industries: [],
+      company_size: { min: 500, max: 10 },
+      exclusions: { domains: ['https://Example.com/about'] },
+    });
+    expect(criteria.keywords).toEqual(['Neon sign', 'restaurant']);
+    expect(criteria.company_size).toEqual({ min: 10, max: 500 });
+    expect(criteria.exclusions).toEqual({ industries: [], domains: ['example.com'] });
+  });
+
+  it('hashes equivalent ICPs to the same value', () => {
+    const a = buildPreviewCriteria({ keywords: ['bar', 'pub'], geographies: ['US', 'CA'] });
+    const b = buildPreviewCriteria({ keywords: ['Pub', 'bar '], geographies: ['ca', 'US'] });
+    const c = buildPreviewCriteria({ keywords: ['bar'], geographies: ['US', 'CA'] });
+    expect(previewCriteriaHash(a)).toBe(previewCriteriaHash(b));
+    expect(previewCriteriaHash(a)).not.toBe(previewCriteriaHash(c));
+  });
+});
+
+describe('validatePreviewCriteria', () => {
+  it('rejects non-object bodies, non-array lists and missing keywords', () => {
+    expect(validatePreviewCriteria(null)).toEqual({ error: 'Request body must be an object' });
+    expect(validatePreviewCriteria({ keywords: 'bar' })).toEqual({ error: 'keywords must be an array of strings' });
+    expect(validatePreviewCriteria({ keywords: [' '], geographies: ['US'] })).toEqual({ error: 'At least one keyword is required' });
+  });
+
+  it('normalizes a valid body', () => {
+    const result = validatePreviewCriteria({ keywords: ['bar'], company_size: { min: '5' } });
+    expect(result).toEqual({
+      value: {
+        keywords: ['bar'],
+        geographies: [],
+        industries: [],
+        company_size: { min: 5, max: undefined },
+        exclusions: { industries: [], domains: [] },
+      },
+    });
+  });
+});
+
+describe('normalizePreviewResponse', () => {
+  it('coerces counts and sorts breakdown rows by organizations', () => {
+    const preview = normalizePreviewResponse(
+      {
+        observedOrganizations: '120',
+        observedContacts: 300,
+        estimatedReachable: -4,
+        byGeography: [
+          { label: 'CA', organizations: 20, contacts: 40 },
+          { label: 'US', organizations: 100, contacts: 260 },
+          { organizations: 5 },
+        ],
+      },
+      'abc',
+    );
+    expect(preview).toMatchObject({
+      available: true,
+      observedOrganizations: 120,
+      observedContacts: 300,
+      estimatedReachable: 0,
+      icpHash: 'abc',
+      byIndustry: [],
+    });
+    expect(preview.byGeography.map((r) => r.label)).toEqual(['US', 'CA']);
+  });
+});
+
+describe('assessMarketSize', () => {
+  const base = normalizePreviewResponse({ observedOrganizations: 200, observedContacts: 500, estimatedReachable: 350 }, 'h');
+
+  it('flags an empty market as a VALID_EMPTY_OBSERVATION run', () => {
+    const result = assessMarketSize({ ...base, observedOrganizations: 0, observedContacts: 0, estimatedReachable: 0 });
+    expect(result.level).toBe('empty');
+    expect(result.message).toContain('VALID_EMPTY_OBSERVATION');
+  });
+
+  it('distinguishes unavailable, narrow and healthy markets', () => {
+    expect(assessMarketSize(unavailablePreview('h', 'Sales Engine not configured'))).toEqual({
+      level: 'unavailable',
+      message: 'Sales Engine not configured',
+    });
+    expect(assessMarketSize({ ...base, observedOrganizations: 1 }).level).toBe('narrow');
+    expect(assessMarketSize({ ...base, estimatedReachable: 0 }).level).toBe('empty');
+    expect(assessMarketSize(base).level).toBe('healthy');
+  });
+});
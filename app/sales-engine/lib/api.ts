@@ -53,12 +53,33 @@ import type {
   FunnelScope,
   FunnelExecution,
   DualLayerFunnel,
+  MarketScopePreview,
+  MarketScopePreviewCriteria,
+  VariantResultsResponse,
 } from '../types/campaign';
+import { previewCriteriaHash, unavailablePreview } from './market-scope-preview';
 import {
   assertReadOnly,
   ReadOnlyViolationError,
 } from './read-only-guard';
 import { isApiDisabled } from '../../../config/appConfig';
+import type { CampaignSuggestRequest, CampaignSuggestResponse } from '../types/campaign-suggest';
+import type {
+  CampaignTemplateCreateRequest,
+  CampaignTemplateDetailResponse,
+  CampaignTemplateListResponse,
+  CampaignTemplateOriginResponse,
+  CampaignTemplateResponse,
+  CampaignTemplateUpdateRequest,
+} from '../types/campaign-template';
+import type {
+  CampaignReviewStateResponse,
+  RequestChangesRequest,
+  ReviewCommentRequest,
+  ReviewQueueFilter,
+  ReviewQueueResponse,
+  ReviewerRequest,
+} from '../types/campaign-review';
 
 const getApiBaseUrl = () => {
   if (typeof window !== 'undefined') {
@@ -996,7 +1017,9 @@ export interface UpdateCampaignPayload {
     value_propositions?: string[];
     pain_points?: string[];
     call_to_action?: string;
+    personalization_fields?: string[];
   };
+  variants?: CampaignVariant[];
   campaign_targets?: {
     target_leads?: number | null;
     target_emails?: number | null;
@@ -1264,8 +1287,10 @@ export interface ApproveCampaignResponse {
 
 /**
  * Approve a campaign.
- * Changes status from PENDING_REVIEW to RUNNABLE (active).
- * 
+ * Changes status from PENDING_REVIEW to RUNNABLE (active) once the review
+ * round has its required approvals; before that the approval is recorded,
+ * status stays PENDING_REVIEW and message reports the progress.
+ *
  * @param campaignId - The ID of the campaign to approve
  * @returns The updated campaign with new governance state
  * @throws Error if campaign is not in PENDING_REVIEW status
@@ -1310,7 +1335,7 @@ export async function approveCampaignAction(
       id: data.id || campaignId,
       name: data.name,
       status: data.status || 'RUNNABLE',
-      message: 'Campaign approved and ready to run',
+      message: data.message || 'Campaign approved and ready to run',
       canEdit: data.canEdit ?? false,
       canSubmit: data.canSubmit ?? false,
       canApprove: data.canApprove ?? false,
@@ -1404,6 +1429,306 @@ export async function duplicateCampaign(
   }
 }
 
+// =============================================================================
+// CAMPAIGN SUGGESTIONS
+// Drafts ICP and outreach settings for the wizard's AI Assist step from quote
+// data and past campaign lead yield. Read-only and advisory: nothing is saved.
+// =============================================================================
+
+/**
+ * Request an ICP / outreach draft for the campaign basics.
+ * Errors are returned as { success: false } rather than thrown.
+ */
+export async function suggestCampaignDraft(
+  request: CampaignSuggestRequest
+): Promise<CampaignSuggestResponse> {
+  if (isApiDisabled) {
+    return { success: false, error: 'Suggestions are unavailable while API mode is disabled.' };
+  }
+
+  try {
+    const response = await fetch('/api/campaign-suggest', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || `Suggestion failed: ${response.status}`,
+      };
+    }
+
+    return data as CampaignSuggestResponse;
+  } catch (error) {
+    console.error('[API] suggestCampaignDraft error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+// =============================================================================
+// CAMPAIGN TEMPLATES
+// Named, versioned ICP / targeting / outreach / target presets the wizard can
+// start from. Saving a template never changes a campaign.
+// =============================================================================
+
+async function templateRequest<T extends { success: boolean }>(
+  url: string,
+  init: RequestInit | undefined,
+  label: string
+): Promise<T | { success: false; error: string }> {
+  if (isApiDisabled) {
+    return { success: false, error: 'Templates are unavailable while API mode is disabled.' };
+  }
+
+  try {
+    const response = await fetch(url, init);
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || `${label} failed: ${response.status}`,
+      };
+    }
+
+    return data as T;
+  } catch (error) {
+    console.error(`[API] ${label} error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+/** Templates visible to the current user: their own and their team's. */
+export async function listCampaignTemplates(): Promise<CampaignTemplateListResponse> {
+  return templateRequest<CampaignTemplateListResponse>('/api/campaign-templates', undefined, 'listCampaignTemplates');
+}
+
+/** A template with its version history and the campaigns created from it. */
+export async function getCampaignTemplate(id: string): Promise<CampaignTemplateDetailResponse> {
+  return templateRequest<CampaignTemplateDetailResponse>(
+    `/api/campaign-templates/${encodeURIComponent(id)}`,
+    undefined,
+    'getCampaignTemplate'
+  );
+}
+
+/** Save a new template from wizard content or an existing campaign. */
+export async function createCampaignTemplate(
+  request: CampaignTemplateCreateRequest
+): Promise<CampaignTemplateResponse> {
+  return templateRequest<CampaignTemplateResponse>(
+    '/api/campaign-templates',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    },
+    'createCampaignTemplate'
+  );
+}
+
+/** Rename / re-scope a template, or save a new version of its content. */
+export async function updateCampaignTemplate(
+  id: string,
+  request: CampaignTemplateUpdateRequest
+): Promise<CampaignTemplateResponse> {
+  return templateRequest<CampaignTemplateResponse>(
+    `/api/campaign-templates/${encodeURIComponent(id)}`,
+    {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    },
+    'updateCampaignTemplate'
+  );
+}
+
+/** The template version a campaign was created from and the changes since. */
+export async function getCampaignTemplateOrigin(campaignId: string): Promise<CampaignTemplateOriginResponse> {
+  return templateRequest<CampaignTemplateOriginResponse>(
+    `/api/campaigns/${encodeURIComponent(campaignId)}/template-origin`,
+    undefined,
+    'getCampaignTemplateOrigin'
+  );
+}
+
+// =============================================================================
+// MARKET SCOPE PREVIEW (OBSERVATIONS-FIRST)
+// POST /api/proxy/market-scope/preview
+// Live estimate of observed organizations / contacts matching an ICP that has
+// not been run yet. Read-only: nothing is harvested or stored.
+// =============================================================================
+
+/**
+ * Estimate the observed market for ICP criteria.
+ * Throws on request failure; aborts propagate as AbortError.
+ */
+export async function previewMarketScope(
+  criteria: MarketScopePreviewCriteria,
+  signal?: AbortSignal
+): Promise<MarketScopePreview> {
+  if (isApiDisabled) {
+    return unavailablePreview(previewCriteriaHash(criteria), 'Market size estimates are unavailable while API mode is disabled.');
+  }
+
+  const response = await fetch('/api/proxy/market-scope/preview', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(criteria),
+    signal,
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `previewMarketScope failed: ${response.status}`);
+  }
+
+  return data as MarketScopePreview;
+}
+
+// =============================================================================
+// VARIANT RESULTS
+// GET /api/proxy/variant-results?campaignId=xxx
+// Per-variant send outcomes observed by the Sales Engine (read-only).
+// =============================================================================
+
+/**
+ * Get observed send outcomes per email variant.
+ * Throws on request failure.
+ */
+export async function getVariantResults(campaignId: string): Promise<VariantResultsResponse> {
+  if (isApiDisabled) {
+    return { campaignId, variants: [], observedAt: new Date().toISOString() };
+  }
+
+  const response = await fetch(`/api/proxy/variant-results?campaignId=${encodeURIComponent(campaignId)}`);
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `getVariantResults failed: ${response.status}`);
+  }
+
+  return data as VariantResultsResponse;
+}
+
+// =============================================================================
+// CAMPAIGN REVIEW
+// Reviewers, required approvals, field comments, change requests and the
+// governance audit log. Approving and submitting stay on
+// approveCampaignAction / submitCampaignForApproval.
+// =============================================================================
+
+async function reviewRequest<T extends { success: boolean }>(
+  url: string,
+  init: RequestInit | undefined,
+  label: string
+): Promise<T | { success: false; error: string }> {
+  if (isApiDisabled) {
+    return { success: false, error: 'Campaign review is unavailable while API mode is disabled.' };
+  }
+
+  try {
+    const response = await fetch(url, init);
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || `${label} failed: ${response.status}`,
+      };
+    }
+
+    return data as T;
+  } catch (error) {
+    console.error(`[API] ${label} error:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    };
+  }
+}
+
+function reviewUrl(campaignId: string, path = ''): string {
+  return `/api/campaigns/${encodeURIComponent(campaignId)}/review${path}`;
+}
+
+function jsonInit(method: string, body: unknown): RequestInit {
+  return { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) };
+}
+
+/** Campaigns waiting for review; 'mine' keeps those assigned to the current user. */
+export async function getReviewQueue(filter: ReviewQueueFilter = 'all'): Promise<ReviewQueueResponse> {
+  return reviewRequest<ReviewQueueResponse>(`/api/campaign-reviews?filter=${filter}`, undefined, 'getReviewQueue');
+}
+
+/** Reviewers, approval progress, comments and audit log for a campaign. */
+export async function getCampaignReview(campaignId: string): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(reviewUrl(campaignId), undefined, 'getCampaignReview');
+}
+
+export async function updateReviewPolicy(
+  campaignId: string,
+  requiredApprovals: number
+): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(
+    reviewUrl(campaignId),
+    jsonInit('PATCH', { required_approvals: requiredApprovals }),
+    'updateReviewPolicy'
+  );
+}
+
+export async function assignCampaignReviewer(
+  campaignId: string,
+  request: ReviewerRequest
+): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(
+    reviewUrl(campaignId, '/reviewers'),
+    jsonInit('POST', request),
+    'assignCampaignReviewer'
+  );
+}
+
+export async function removeCampaignReviewer(campaignId: string, email: string): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(
+    reviewUrl(campaignId, `/reviewers?email=${encodeURIComponent(email)}`),
+    { method: 'DELETE' },
+    'removeCampaignReviewer'
+  );
+}
+
+export async function addCampaignReviewComment(
+  campaignId: string,
+  request: ReviewCommentRequest
+): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(
+    reviewUrl(campaignId, '/comments'),
+    jsonInit('POST', request),
+    'addCampaignReviewComment'
+  );
+}
+
+/** Send a PENDING_REVIEW campaign back to DRAFT with a reason. */
+export async function requestCampaignChanges(
+  campaignId: string,
+  request: RequestChangesRequest
+): Promise<CampaignReviewStateResponse> {
+  return reviewRequest<CampaignReviewStateResponse>(
+    reviewUrl(campaignId, '/request-changes'),
+    jsonInit('POST', request),
+    'requestCampaignChanges'
+  );
+}
+
 // =============================================================================
 // EXECUTION STATE (CANONICAL - SOLE AUTHORITY)
 // GET /api/v1/campaigns/:id/execution-state
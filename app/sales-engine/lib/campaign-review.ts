@@ -0,0 +1,253 @@
+/**
+ * Campaign Review
+ *
+ * Pure helpers for the campaign approval workflow shared by the review routes
+ * (/api/campaigns/:id/review/*, /api/v1/campaigns/:id/approve) and the review
+ * panel:
+ *
+ * - REVIEW_FIELDS: the ICP, outreach and variant fields a comment can target
+ * - request-body validation for comments, change requests, the approval
+ *   policy and reviewer assignment
+ * - approval progress and reviewer eligibility for the current round
+ * - threading and audit-log descriptions for display
+ */
+
+import type {
+  CampaignReviewComment,
+  CampaignReviewDecisionRecord,
+  CampaignReviewProgress,
+  CampaignReviewThread,
+  CampaignReviewer,
+  GovernanceEvent,
+  RequestChangesRequest,
+  ReviewActor,
+  ReviewCommentRequest,
+  ReviewPolicyRequest,
+  ReviewerRequest,
+} from '../types/campaign-review';
+
+export const MIN_REQUIRED_APPROVALS = 1;
+export const MAX_REQUIRED_APPROVALS = 10;
+export const MAX_REVIEWERS = 10;
+export const MAX_COMMENT_LENGTH = 4000;
+export const MAX_REASON_LENGTH = 2000;
+
+/** Bootstrap permission for assigning reviewers and changing the approval policy. */
+export const CAMPAIGN_REVIEW_MANAGE_PERMISSION = 'campaigns:review:manage';
+
+/** Campaign fields a review comment or change request can point at, in editor order. */
+export const REVIEW_FIELDS: { field: string; label: string }[] = [
+  { field: 'icp.keywords', label: 'Keywords' },
+  { field: 'icp.industries', label: 'Industries' },
+  { field: 'icp.geographies', label: 'Geographies' },
+  { field: 'icp.company_size', label: 'Company size' },
+  { field: 'icp.exclusions', label: 'Exclusions' },
+  { field: 'icp.job_titles', label: 'Job titles' },
+  { field: 'icp.seniority_levels', label: 'Seniority levels' },
+  { field: 'outreach_context.tone', label: 'Tone' },
+  { field: 'outreach_context.value_propositions', label: 'Value propositions' },
+  { field: 'outreach_context.pain_points', label: 'Pain points' },
+  { field: 'outreach_context.call_to_action', label: 'Call to action' },
+  { field: 'outreach_context.personalization_fields', label: 'Personalization fields' },
+  { field: 'variants', label: 'Email variants' },
+];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Json = Record<string, unknown>;
+
+function text(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() !== '' ? v.trim() : undefined;
+}
+
+export function reviewFieldLabel(field: string | null | undefined): string {
+  if (!field) return 'General';
+  return REVIEW_FIELDS.find((f) => f.field === field)?.label ?? field;
+}
+
+function validField(v: unknown): { value: string | null } | { error: string } {
+  if (v === undefined || v === null || v === '') return { value: null };
+  if (typeof v !== 'string' || !REVIEW_FIELDS.some((f) => f.field === v)) {
+    return { error: `field must be one of: ${REVIEW_FIELDS.map((f) => f.field).join(', ')}` };
+  }
+  return { value: v };
+}
+
+export function validateCommentInput(body: unknown): { value: ReviewCommentRequest } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Json;
+  const comment = text(b.body);
+  if (!comment) return { error: 'body is required' };
+  if (comment.length > MAX_COMMENT_LENGTH) return { error: `body must be at most ${MAX_COMMENT_LENGTH} characters` };
+  const field = validField(b.field);
+  if ('error' in field) return field;
+  if (b.parent_id !== undefined && b.parent_id !== null && !text(b.parent_id)) {
+    return { error: 'parent_id must be a non-empty string' };
+  }
+  return { value: { body: comment, field: field.value, parent_id: text(b.parent_id) ?? null } };
+}
+
+export function validateRequestChangesInput(body: unknown): { value: RequestChangesRequest } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Json;
+  const reason = text(b.reason);
+  if (!reason) return { error: 'reason is required' };
+  if (reason.length > MAX_REASON_LENGTH) return { error: `reason must be at most ${MAX_REASON_LENGTH} characters` };
+  const field = validField(b.field);
+  if ('error' in field) return field;
+  return { value: { reason, field: field.value } };
+}
+
+export function validatePolicyInput(body: unknown): { value: ReviewPolicyRequest } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const n = (body as Json).required_approvals;
+  if (typeof n !== 'number' || !Number.isInteger(n) || n < MIN_REQUIRED_APPROVALS || n > MAX_REQUIRED_APPROVALS) {
+    return { error: `required_approvals must be a whole number from ${MIN_REQUIRED_APPROVALS} to ${MAX_REQUIRED_APPROVALS}` };
+  }
+  return { value: { required_approvals: n } };
+}
+
+/** Reviewer emails are compared and stored lowercased. */
+export function validateReviewerInput(body: unknown): { value: ReviewerRequest } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Json;
+  const email = text(b.email)?.toLowerCase();
+  if (!email || !EMAIL_RE.test(email)) return { error: 'A valid reviewer email is required' };
+  const name = text(b.name);
+  return { value: name ? { email, name } : { email } };
+}
+
+/** Whether the actor submitted the current round (matched by user id or email). */
+export function isSubmitter(
+  submitter: Pick<ReviewActor, 'id' | 'email'> | null,
+  actor: Pick<ReviewActor, 'id' | 'email'>,
+): boolean {
+  if (!submitter) return false;
+  if (submitter.id && actor.id && submitter.id === actor.id) return true;
+  return !!submitter.email && !!actor.email && submitter.email.toLowerCase() === actor.email.toLowerCase();
+}
+
+/**
+ * Whether an actor may approve or request changes. The round's submitter
+ * never may; otherwise, with no assigned reviewers any authenticated user
+ * may, and with assigned reviewers only they may.
+ */
+export function canReview(
+  reviewers: Pick<CampaignReviewer, 'email'>[],
+  actor: Pick<ReviewActor, 'id' | 'email'>,
+  submitter: Pick<ReviewActor, 'id' | 'email'> | null = null,
+): boolean {
+  if (isSubmitter(submitter, actor)) return false;
+  if (reviewers.length === 0) return true;
+  const email = actor.email?.toLowerCase();
+  return !!email && reviewers.some((r) => r.email === email);
+}
+
+/**
+ * Approval progress for the current round. When reviewers are assigned, only
+ * their approvals count, so removing a reviewer withdraws their approval.
+ */
+export function approvalProgress(
+  requiredApprovals: number,
+  reviewers: Pick<CampaignReviewer, 'email'>[],
+  decisions: Pick<CampaignReviewDecisionRecord, 'reviewer' | 'decision'>[],
+): CampaignReviewProgress {
+  const assigned = new Set(reviewers.map((r) => r.email));
+  const counted = decisions.filter(
+    (d) => assigned.size === 0 || (d.reviewer.email !== null && assigned.has(d.reviewer.email.toLowerCase())),
+  );
+  const decided = new Set(counted.map((d) => d.reviewer.email?.toLowerCase()));
+  const approvals = counted.filter((d) => d.decision === 'approved').length;
+  const required = Math.max(MIN_REQUIRED_APPROVALS, requiredApprovals);
+  return {
+    approvals,
+    required,
+    remaining: Math.max(0, required - approvals),
+    pending_reviewers: reviewers.map((r) => r.email).filter((e) => !decided.has(e)),
+    complete: approvals >= required,
+  };
+}
+
+/**
+ * Groups comments into threads, oldest first. Replies to replies join the
+ * root thread; replies whose parent is missing become threads of their own.
+ */
+export function threadComments(comments: CampaignReviewComment[]): CampaignReviewThread[] {
+  const sorted = [...comments].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const byId = new Map(sorted.map((c) => [c.id, c]));
+  const rootOf = (c: CampaignReviewComment): string => {
+    const seen = new Set<string>();
+    let current = c;
+    while (current.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parent_id) as CampaignReviewComment;
+    }
+    return current.id;
+  };
+
+  const threads = new Map<string, CampaignReviewThread>();
+  sorted.forEach((c) => {
+    const root = rootOf(c);
+    if (root === c.id) {
+      threads.set(c.id, { ...c, replies: [] });
+    } else {
+      threads.get(root)?.replies.push(c);
+    }
+  });
+  return Array.from(threads.values());
+}
+
+/** Display label for an actor: "Name (email)", the email, or 'System'. */
+export function formatActor(actor: ReviewActor): string {
+  if (actor.name) return actor.email ? `${actor.name} (${actor.email})` : actor.name;
+  return actor.email ?? actor.id ?? 'System';
+}
+
+/** Short local date and time for comments and audit entries. */
+export function formatReviewTime(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function detail(event: GovernanceEvent, key: string): string | undefined {
+  const v = event.details[key];
+  return typeof v === 'string' || typeof v === 'number' ? String(v) : undefined;
+}
+
+/**
+ * What happened, phrased to follow the actor's name in the audit log.
+ * 'activated' is recorded by the final approver but reads on its own.
+ */
+export function describeEvent(event: GovernanceEvent): string {
+  const reason = detail(event, 'reason');
+  const field = detail(event, 'field');
+  switch (event.action) {
+    case 'submitted':
+      return `submitted the campaign for review (round ${event.review_round})`;
+    case 'commented':
+      return field ? `commented on ${reviewFieldLabel(field)}` : 'commented';
+    case 'approved': {
+      const approvals = detail(event, 'approvals');
+      const required = detail(event, 'required_approvals');
+      return approvals && required ? `approved (${approvals} of ${required})` : 'approved';
+    }
+    case 'changes_requested':
+      return `requested changes${field ? ` to ${reviewFieldLabel(field)}` : ''}${reason ? `: ${reason}` : ''}`;
+    case 'reverted': {
+      const from = detail(event, 'from_status');
+      return from ? `reverted the campaign from ${from} to draft` : 'reverted the campaign to draft';
+    }
+    case 'reviewer_assigned':
+      return `assigned ${detail(event, 'reviewer_email') ?? 'a reviewer'} as reviewer`;
+    case 'reviewer_removed':
+      return `removed ${detail(event, 'reviewer_email') ?? 'a reviewer'} as reviewer`;
+    case 'policy_changed':
+      return `set required approvals to ${detail(event, 'required_approvals') ?? '?'}`;
+    case 'activated':
+      return 'Approval complete; campaign is ready to run';
+    default:
+      return event.action;
+  }
+}
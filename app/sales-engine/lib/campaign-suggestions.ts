@@ -0,0 +1,597 @@
+/**
+ * Campaign Suggestions — ICP and outreach drafts from our own data
+ *
+ * The wizard's AI Assist step asks POST /api/campaign-suggest for an
+ * ICPDefinition and OutreachContext. services/campaignSuggestions.ts gathers
+ * the SuggestionSignals (aggregated QMS quotes and past campaign lead yield);
+ * a SuggestionProvider turns basics + signals into a CampaignSuggestion.
+ *
+ *   localSuggestionProvider — deterministic: ranks the signals and writes the
+ *                             rationale from the numbers. Used in tests and
+ *                             whenever no model provider is configured.
+ *   createChatSuggestionProvider — an OpenAI-compatible chat completions API
+ *                             refines the local draft's lists and prose.
+ *
+ * Whatever the provider, every rationale's evidence list is the local
+ * provider's: a model may reword a summary but cannot add evidence.
+ *
+ * Industries are not a QMS field. inferIndustry classifies a quote from its
+ * customer company name and sign text; quotes that match no rule are counted
+ * as unclassified, never guessed.
+ */
+
+import type { ICPDefinition, OutreachContext } from '../types/campaign-create';
+import type {
+  CampaignSuggestRequest,
+  CampaignSuggestion,
+  SuggestionEvidence,
+  SuggestionRationale,
+} from '../types/campaign-suggest';
+
+// ============================================
+// Signals
+// ============================================
+
+export interface QuoteSegmentSignal {
+  key: string;
+  quotes: number;
+  paid_quotes: number;
+  paid_revenue_cents: number;
+}
+
+export interface QuoteCitySignal {
+  city: string;
+  state: string | null;
+  quotes: number;
+  paid_quotes: number;
+}
+
+export interface PastCampaignSignal {
+  id: string;
+  name: string;
+  industries: string[];
+  keywords: string[];
+  job_titles: string[];
+  company_size: { min?: number; max?: number } | null;
+  leads: number;
+  approved_leads: number;
+}
+
+export interface SuggestionSignals {
+  window_days: number;
+  quotes: {
+    total: number;
+    /** Quotes with a customer company — the B2B share. */
+    business: number;
+    /** Business quotes inferIndustry could place. */
+    classified: number;
+    paid: number;
+    median_days_to_paid: number | null;
+    industries: QuoteSegmentSignal[];
+    cities: QuoteCitySignal[];
+    /** utm_term of quotes from paid search. */
+    search_terms: QuoteSegmentSignal[];
+    sign_types: QuoteSegmentSignal[];
+    /** cancel_reason of lost quotes. */
+    objections: Array<{ reason: string; quotes: number }>;
+  };
+  past_campaigns: PastCampaignSignal[];
+}
+
+/** One analytics.raw_qms_deals row as read for signals; company and sign text never leave this module. */
+export interface QuoteSignalRow {
+  customer_company: string | null;
+  customer_city: string | null;
+  customer_state: string | null;
+  sign_text: string | null;
+  sign_type: string | null;
+  utm_term: string | null;
+  utm_medium: string | null;
+  cancel_reason: string | null;
+  quote_activity: string;
+  total_price_cents: number;
+  created_at: string;
+  quote_paid_at: string | null;
+}
+
+const PAID_SEARCH_MEDIUMS = new Set(['cpc', 'ppc', 'paid', 'paidsearch', 'paid_search']);
+const MAX_SEGMENTS = 10;
+const DAY_MS = 86_400_000;
+
+function tally<K>(map: Map<string, K>, key: string, init: () => K): K {
+  let row = map.get(key);
+  if (!row) {
+    row = init();
+    map.set(key, row);
+  }
+  return row;
+}
+
+function topSegments(map: Map<string, QuoteSegmentSignal>): QuoteSegmentSignal[] {
+  return Array.from(map.values()).sort(byPaidThenQuotes).slice(0, MAX_SEGMENTS);
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const m = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  return Math.round(m);
+}
+
+/** Aggregate quote rows into the quote half of SuggestionSignals. */
+export function summarizeQuoteSignals(rows: QuoteSignalRow[]): SuggestionSignals['quotes'] {
+  const industries = new Map<string, QuoteSegmentSignal>();
+  const searchTerms = new Map<string, QuoteSegmentSignal>();
+  const signTypes = new Map<string, QuoteSegmentSignal>();
+  const cities = new Map<string, QuoteCitySignal>();
+  const objections = new Map<string, { reason: string; quotes: number }>();
+  const daysToPaid: number[] = [];
+  let business = 0;
+  let classified = 0;
+  let paid = 0;
+
+  const segment = (key: string) => () => ({ key, quotes: 0, paid_quotes: 0, paid_revenue_cents: 0 });
+  const count = (row: QuoteSegmentSignal, isPaid: boolean, cents: number) => {
+    row.quotes++;
+    if (isPaid) {
+      row.paid_quotes++;
+      row.paid_revenue_cents += cents;
+    }
+  };
+
+  for (const r of rows) {
+    const isPaid = r.quote_activity === 'Quote Paid' || r.quote_paid_at !== null;
+    const cents = Number(r.total_price_cents) || 0;
+    if (isPaid) {
+      paid++;
+      if (r.quote_paid_at) {
+        const days = (new Date(r.quote_paid_at).getTime() - new Date(r.created_at).getTime()) / DAY_MS;
+        if (days >= 0) daysToPaid.push(days);
+      }
+    }
+
+    if (r.customer_company?.trim()) {
+      business++;
+      const industry = inferIndustry(r.customer_company, r.sign_text);
+      if (industry) {
+        classified++;
+        count(tally(industries, industry, segment(industry)), isPaid, cents);
+      }
+    }
+
+    const city = r.customer_city?.trim();
+    if (city) {
+      const state = r.customer_state?.trim().toUpperCase() || null;
+      const key = `${city.toLowerCase()}|${state ?? ''}`;
+      const row = tally(cities, key, () => ({ city, state, quotes: 0, paid_quotes: 0 }));
+      row.quotes++;
+      if (isPaid) row.paid_quotes++;
+    }
+
+    const term = r.utm_term?.trim().toLowerCase();
+    if (term && PAID_SEARCH_MEDIUMS.has((r.utm_medium ?? '').trim().toLowerCase())) {
+      count(tally(searchTerms, term, segment(term)), isPaid, cents);
+    }
+
+    const signType = r.sign_type?.trim();
+    if (signType) count(tally(signTypes, signType.toLowerCase(), segment(signType)), isPaid, cents);
+
+    const reason = r.cancel_reason?.trim();
+    if (reason && !isPaid) tally(objections, reason.toLowerCase(), () => ({ reason, quotes: 0 })).quotes++;
+  }
+
+  return {
+    total: rows.length,
+    business,
+    classified,
+    paid,
+    median_days_to_paid: median(daysToPaid),
+    industries: topSegments(industries),
+    cities: Array.from(cities.values()).sort(byPaidThenQuotes).slice(0, MAX_SEGMENTS),
+    search_terms: topSegments(searchTerms),
+    sign_types: topSegments(signTypes),
+    objections: Array.from(objections.values()).sort((a, b) => b.quotes - a.quotes).slice(0, MAX_SEGMENTS),
+  };
+}
+
+export interface SuggestionProvider {
+  id: string;
+  generate(input: CampaignSuggestRequest, signals: SuggestionSignals): Promise<CampaignSuggestion>;
+}
+
+// ============================================
+// Industry inference
+// ============================================
+
+/** First matching rule wins; patterns match whole words of company name + sign text. */
+const INDUSTRY_RULES: Array<{ industry: string; pattern: RegExp }> = [
+  { industry: 'Food & Beverage', pattern: /\b(cafe|café|coffee|restaurant|pizza|pizzeria|grill|kitchen|bakery|diner|taco|burger|sushi|bistro|deli|eatery|food|juice|tea)\b/ },
+  { industry: 'Bars & Nightlife', pattern: /\b(bar|pub|tavern|lounge|brewery|brewing|taproom|saloon|club|nightclub|cocktails?|wine|winery|distillery)\b/ },
+  { industry: 'Hospitality', pattern: /\b(hotel|motel|inn|resort|hostel|suites|lodge)\b/ },
+  { industry: 'Beauty & Wellness', pattern: /\b(salon|spa|barber|barbershop|nails?|beauty|lash|lashes|brows?|esthetics|tattoo|med ?spa)\b/ },
+  { industry: 'Fitness', pattern: /\b(gym|fitness|yoga|pilates|crossfit|boxing|martial|dance|studio)\b/ },
+  { industry: 'Healthcare', pattern: /\b(dental|dentist|clinic|medical|health|chiropractic|pharmacy|veterinary|vet|orthodontics)\b/ },
+  { industry: 'Retail', pattern: /\b(shop|store|boutique|market|mart|outlet|apparel|clothing|jewelry|florist|gifts?|vape|smoke)\b/ },
+  { industry: 'Automotive', pattern: /\b(auto|automotive|motors|garage|tire|tires|car ?wash|detailing)\b/ },
+  { industry: 'Events & Entertainment', pattern: /\b(events?|wedding|weddings|party|parties|entertainment|arcade|bowling|theater|theatre|cinema|music|records)\b/ },
+  { industry: 'Religious Organizations', pattern: /\b(church|ministry|ministries|temple|mosque|synagogue)\b/ },
+  { industry: 'Education', pattern: /\b(school|academy|university|college|preschool|daycare|learning)\b/ },
+  { industry: 'Real Estate', pattern: /\b(realty|real estate|properties|property|apartments|homes)\b/ },
+  { industry: 'Professional Services', pattern: /\b(law|legal|attorneys?|accounting|cpa|consulting|agency|marketing|insurance|financial)\b/ },
+];
+
+export function inferIndustry(company: string | null | undefined, signText?: string | null): string | null {
+  const text = `${company ?? ''} ${signText ?? ''}`.toLowerCase();
+  if (!text.trim()) return null;
+  return INDUSTRY_RULES.find((r) => r.pattern.test(text))?.industry ?? null;
+}
+
+// ============================================
+// Local provider
+// ============================================
+
+/** Past campaigns need this many leads before their approval rate is used. */
+export const MIN_CAMPAIGN_LEADS = 20;
+
+const MAX_INDUSTRIES = 5;
+const MAX_GEOGRAPHIES = 5;
+const MAX_KEYWORDS = 12;
+
+function pct(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '0%';
+}
+
+function usd(cents: number): string {
+  return `$${Math.round(cents / 100).toLocaleString('en-US')}`;
+}
+
+function uniq(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((v) => {
+    const k = v.trim().toLowerCase();
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+function byPaidThenQuotes<T extends { paid_quotes: number; quotes: number }>(a: T, b: T): number {
+  return b.paid_quotes - a.paid_quotes || b.quotes - a.quotes;
+}
+
+function approvalRate(c: PastCampaignSignal): number {
+  return c.leads > 0 ? c.approved_leads / c.leads : 0;
+}
+
+/** Past campaigns with enough leads, best approval rate first. */
+function rankedCampaigns(signals: SuggestionSignals): PastCampaignSignal[] {
+  return signals.past_campaigns
+    .filter((c) => c.leads >= MIN_CAMPAIGN_LEADS)
+    .sort((a, b) => approvalRate(b) - approvalRate(a) || b.approved_leads - a.approved_leads);
+}
+
+/** Per industry across ranked past campaigns: leads and approved leads. */
+function campaignIndustryYield(campaigns: PastCampaignSignal[]): Map<string, { campaigns: number; leads: number; approved: number }> {
+  const out = new Map<string, { campaigns: number; leads: number; approved: number }>();
+  for (const c of campaigns) {
+    for (const industry of c.industries) {
+      const row = out.get(industry) ?? { campaigns: 0, leads: 0, approved: 0 };
+      row.campaigns++;
+      row.leads += c.leads;
+      row.approved += c.approved_leads;
+      out.set(industry, row);
+    }
+  }
+  return out;
+}
+
+function targeting(input: CampaignSuggestRequest, signals: SuggestionSignals): {
+  icp: Pick<ICPDefinition, 'industries' | 'geographies' | 'job_titles' | 'company_size'>;
+  rationale: SuggestionRationale;
+} {
+  const q = signals.quotes;
+  const campaigns = rankedCampaigns(signals);
+  const yieldByIndustry = campaignIndustryYield(campaigns);
+  const evidence: SuggestionEvidence[] = [];
+
+  const quoteIndustries = [...q.industries].sort(byPaidThenQuotes).slice(0, MAX_INDUSTRIES);
+  for (const s of quoteIndustries) {
+    evidence.push({
+      source: 'qms_deals',
+      label: s.key,
+      value: `${s.quotes} quotes, ${s.paid_quotes} paid (${usd(s.paid_revenue_cents)})`,
+    });
+  }
+
+  const campaignIndustries = Array.from(yieldByIndustry.entries())
+    .sort((a, b) => b[1].approved / Math.max(1, b[1].leads) - a[1].approved / Math.max(1, a[1].leads))
+    .map(([industry]) => industry);
+  for (const industry of campaignIndustries.slice(0, 3)) {
+    const y = yieldByIndustry.get(industry)!;
+    evidence.push({
+      source: 'past_campaigns',
+      label: industry,
+      value: `${y.approved} of ${y.leads} leads approved (${pct(y.approved, y.leads)}) across ${y.campaigns} campaign${y.campaigns === 1 ? '' : 's'}`,
+    });
+  }
+
+  const industries = uniq([...quoteIndustries.map((s) => s.key), ...campaignIndustries]).slice(0, MAX_INDUSTRIES);
+
+  const cities = [...q.cities].sort(byPaidThenQuotes).slice(0, MAX_GEOGRAPHIES);
+  const geographies = cities.map((c) => (c.state ? `${c.city}, ${c.state}` : c.city));
+  for (const c of cities) {
+    evidence.push({
+      source: 'qms_deals',
+      label: c.state ? `${c.city}, ${c.state}` : c.city,
+      value: `${c.quotes} quotes, ${c.paid_quotes} paid`,
+    });
+  }
+
+  const best = campaigns.find((c) => c.job_titles.length > 0 || c.company_size);
+  if (best) {
+    evidence.push({
+      source: 'past_campaigns',
+      label: best.name,
+      value: `best lead approval rate: ${best.approved_leads} of ${best.leads} (${pct(best.approved_leads, best.leads)})`,
+    });
+  }
+
+  const parts: string[] = [];
+  if (quoteIndustries.length > 0) {
+    const covered = quoteIndustries.reduce((s, r) => s + r.quotes, 0);
+    const paid = quoteIndustries.reduce((s, r) => s + r.paid_quotes, 0);
+    parts.push(
+      `${quoteIndustries.map((s) => s.key).join(', ')} account for ${covered} of ${q.classified} business quotes we could place by industry in the last ${signals.window_days} days (${paid} paid).`,
+    );
+  } else {
+    parts.push(`None of the ${q.business} business quotes in the last ${signals.window_days} days could be placed by industry, so no industry is suggested from quote data.`);
+  }
+  if (campaignIndustries.length > 0) {
+    const top = campaignIndustries[0];
+    const y = yieldByIndustry.get(top)!;
+    parts.push(`Among past campaigns with at least ${MIN_CAMPAIGN_LEADS} leads, ${top} had the best approval rate (${pct(y.approved, y.leads)}).`);
+  }
+  if (geographies.length > 0) {
+    parts.push(`Locations are the cities with the most paid quotes, led by ${geographies[0]}.`);
+  } else {
+    parts.push('No customer city data was available; add geographies manually.');
+  }
+  if (best) {
+    parts.push(`Job titles and company size are copied from "${best.name}", the past campaign with the best lead approval rate that defined them.`);
+  }
+  if (input.description?.trim()) {
+    evidence.push({ source: 'campaign_basics', label: 'Description', value: input.description.trim() });
+  }
+
+  return {
+    icp: {
+      industries,
+      geographies,
+      job_titles: best?.job_titles.length ? best.job_titles : undefined,
+      company_size: best?.company_size ?? undefined,
+    },
+    rationale: { summary: parts.join(' '), evidence },
+  };
+}
+
+function keywordStrategy(input: CampaignSuggestRequest, signals: SuggestionSignals): {
+  keywords: string[];
+  rationale: SuggestionRationale;
+} {
+  const q = signals.quotes;
+  const evidence: SuggestionEvidence[] = [];
+  const userKeywords = uniq(input.keywords ?? []);
+  if (userKeywords.length > 0) {
+    evidence.push({ source: 'campaign_basics', label: 'Entered keywords', value: userKeywords.join(', ') });
+  }
+
+  const terms = [...q.search_terms].sort(byPaidThenQuotes).slice(0, 6);
+  for (const t of terms) {
+    evidence.push({ source: 'qms_deals', label: `Search term "${t.key}"`, value: `${t.quotes} quotes, ${t.paid_quotes} paid` });
+  }
+
+  const signTypes = [...q.sign_types].sort(byPaidThenQuotes).slice(0, 4);
+  for (const s of signTypes) {
+    evidence.push({ source: 'qms_deals', label: `Sign type "${s.key}"`, value: `${s.quotes} quotes, ${s.paid_quotes} paid (${usd(s.paid_revenue_cents)})` });
+  }
+
+  const pastKeywords = rankedCampaigns(signals).slice(0, 1).flatMap((c) => c.keywords);
+  const keywords = uniq([
+    ...userKeywords,
+    ...terms.map((t) => t.key.toLowerCase()),
+    ...signTypes.map((s) => `${s.key.toLowerCase()} signs`),
+    ...pastKeywords,
+  ]).slice(0, MAX_KEYWORDS);
+
+  const parts: string[] = [];
+  if (userKeywords.length > 0) parts.push('Your keywords are kept first.');
+  if (terms.length > 0) {
+    parts.push(`Paid-search terms are ranked by the paid quotes they produced; "${terms[0].key}" leads with ${terms[0].paid_quotes} of ${terms[0].quotes}.`);
+  }
+  if (signTypes.length > 0) {
+    parts.push(`Product keywords follow the sign types customers order most, led by ${signTypes[0].key} (${signTypes[0].paid_quotes} paid quotes).`);
+  }
+  if (pastKeywords.length > 0) parts.push('Remaining slots reuse the keywords of the past campaign with the best lead approval rate.');
+  if (parts.length === 0) parts.push('No search term, sign type or past campaign data was available; enter keywords manually.');
+
+  return { keywords, rationale: { summary: parts.join(' '), evidence } };
+}
+
+function messaging(signals: SuggestionSignals, industries: string[]): {
+  outreach: OutreachContext;
+  rationale: SuggestionRationale;
+} {
+  const q = signals.quotes;
+  const evidence: SuggestionEvidence[] = [];
+  const signTypes = [...q.sign_types].sort(byPaidThenQuotes).slice(0, 2);
+  const objections = [...q.objections].sort((a, b) => b.quotes - a.quotes).slice(0, 3);
+
+  const valueProps: string[] = signTypes.map((s) =>
+    industries[0] ? `Custom ${s.key.toLowerCase()} signs for ${industries[0].toLowerCase()} businesses` : `Custom ${s.key.toLowerCase()} signs`);
+  if (q.median_days_to_paid !== null) {
+    valueProps.push(`From free design quote to order in a median of ${q.median_days_to_paid} days`);
+    evidence.push({ source: 'qms_deals', label: 'Median quote-to-paid time', value: `${q.median_days_to_paid} days over ${q.paid} paid quotes` });
+  }
+  if (q.total > 0) {
+    evidence.push({ source: 'qms_deals', label: 'Quote-to-paid rate', value: `${q.paid} of ${q.total} quotes (${pct(q.paid, q.total)})` });
+  }
+  for (const o of objections) {
+    evidence.push({ source: 'qms_deals', label: `Lost-quote reason "${o.reason}"`, value: `${o.quotes} quotes` });
+  }
+
+  const parts: string[] = [];
+  if (signTypes.length > 0) parts.push(`Value propositions lead with the sign types that produced the most paid quotes (${signTypes.map((s) => s.key).join(', ')}).`);
+  if (objections.length > 0) {
+    parts.push(`Pain points are the most common reasons quotes were lost, so the copy can answer them up front; "${objections[0].reason}" ended ${objections[0].quotes} quotes.`);
+  } else {
+    parts.push('No lost-quote reasons were recorded, so no pain points are suggested.');
+  }
+  parts.push('The call to action offers the free design quote every paid order in the data started from. Tone is left at the default: there is no reply data by tone to choose from.');
+
+  return {
+    outreach: {
+      tone: 'professional',
+      value_propositions: valueProps,
+      pain_points: objections.map((o) => o.reason),
+      call_to_action: 'Request a free custom design quote',
+    },
+    rationale: { summary: parts.join(' '), evidence },
+  };
+}
+
+export const localSuggestionProvider: SuggestionProvider = {
+  id: 'local',
+  async generate(input, signals) {
+    const t = targeting(input, signals);
+    const k = keywordStrategy(input, signals);
+    const m = messaging(signals, t.icp.industries ?? []);
+    return {
+      icp: {
+        keywords: k.keywords,
+        geographies: t.icp.geographies,
+        industries: t.icp.industries,
+        ...(t.icp.job_titles ? { job_titles: t.icp.job_titles } : {}),
+        ...(t.icp.company_size ? { company_size: t.icp.company_size } : {}),
+      },
+      outreach_context: m.outreach,
+      rationale: {
+        targeting: t.rationale,
+        messaging: m.rationale,
+        keyword_strategy: k.rationale,
+      },
+      provider: 'local',
+    };
+  },
+};
+
+// ============================================
+// Chat completions provider
+// ============================================
+
+export interface ChatProviderConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+const SYSTEM_PROMPT = [
+  'You draft B2B outreach targeting for a custom neon and LED sign company.',
+  'You receive the campaign basics, aggregated data (quotes by industry, city, search term, sign type, lost-quote reasons; past campaign lead approval) and a draft built from that data.',
+  'Improve the draft. Only use industries, locations and terms supported by the data or the campaign basics.',
+  'Every rationale summary must cite numbers from the data. Do not invent statistics.',
+  'Reply with JSON only: {"icp":{"keywords":[],"industries":[],"geographies":[],"job_titles":[]},',
+  '"outreach_context":{"tone":"","value_propositions":[],"pain_points":[],"call_to_action":""},',
+  '"rationale":{"targeting":"","messaging":"","keyword_strategy":""}}',
+].join(' ');
+
+function stringList(value: unknown, fallback: string[] | undefined, max: number): string[] | undefined {
+  if (!Array.isArray(value)) return fallback;
+  const list = uniq(value.filter((v): v is string => typeof v === 'string')).slice(0, max);
+  return list.length > 0 ? list : fallback;
+}
+
+function text(value: unknown, fallback: string | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : fallback;
+}
+
+/** Model output over the local draft: lists and prose replace the draft's, evidence stays. */
+export function mergeModelSuggestion(draft: CampaignSuggestion, output: unknown, provider: string): CampaignSuggestion {
+  const o = (output && typeof output === 'object' ? output : {}) as Record<string, Record<string, unknown> | undefined>;
+  const icp = o.icp ?? {};
+  const outreach = o.outreach_context ?? {};
+  const rationale = o.rationale ?? {};
+
+  return {
+    icp: {
+      ...draft.icp,
+      keywords: stringList(icp.keywords, draft.icp.keywords, MAX_KEYWORDS) ?? [],
+      industries: stringList(icp.industries, draft.icp.industries, MAX_INDUSTRIES),
+      geographies: stringList(icp.geographies, draft.icp.geographies, MAX_GEOGRAPHIES) ?? [],
+      job_titles: stringList(icp.job_titles, draft.icp.job_titles, 8),
+    },
+    outreach_context: {
+      ...draft.outreach_context,
+      tone: text(outreach.tone, draft.outreach_context.tone),
+      value_propositions: stringList(outreach.value_propositions, draft.outreach_context.value_propositions, 5),
+      pain_points: stringList(outreach.pain_points, draft.outreach_context.pain_points, 5),
+      call_to_action: text(outreach.call_to_action, draft.outreach_context.call_to_action),
+    },
+    rationale: {
+      targeting: { ...draft.rationale.targeting, summary: text(rationale.targeting, draft.rationale.targeting.summary)! },
+      messaging: { ...draft.rationale.messaging, summary: text(rationale.messaging, draft.rationale.messaging.summary)! },
+      keyword_strategy: { ...draft.rationale.keyword_strategy, summary: text(rationale.keyword_strategy, draft.rationale.keyword_strategy.summary)! },
+    },
+    provider,
+  };
+}
+
+export function createChatSuggestionProvider(config: ChatProviderConfig): SuggestionProvider {
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const id = `chat:${config.model}`;
+
+  return {
+    id,
+    async generate(input, signals) {
+      const draft = await localSuggestionProvider.generate(input, signals);
+      const res = await fetchImpl(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.apiKey}` },
+        body: JSON.stringify({
+          model: config.model,
+          temperature: 0.2,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: JSON.stringify({ campaign: input, data: signals, draft: { icp: draft.icp, outreach_context: draft.outreach_context } }) },
+          ],
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs ?? 30000),
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+
+      const json = await res.json();
+      const content = json?.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') throw new Error('Empty completion');
+      return mergeModelSuggestion(draft, JSON.parse(content), id);
+    },
+  };
+}
+
+/**
+ * CAMPAIGN_SUGGEST_PROVIDER=chat with CAMPAIGN_SUGGEST_API_KEY and
+ * CAMPAIGN_SUGGEST_MODEL (CAMPAIGN_SUGGEST_BASE_URL optional) selects the
+ * chat provider; anything else, or a missing key or model, is local.
+ */
+export function suggestionProviderFromEnv(env: Record<string, string | undefined> = process.env): SuggestionProvider {
+  const apiKey = env.CAMPAIGN_SUGGEST_API_KEY;
+  const model = env.CAMPAIGN_SUGGEST_MODEL;
+  if (env.CAMPAIGN_SUGGEST_PROVIDER !== 'chat' || !apiKey || !model) return localSuggestionProvider;
+  return createChatSuggestionProvider({
+    baseUrl: env.CAMPAIGN_SUGGEST_BASE_URL || 'https://api.openai.com/v1',
+    apiKey,
+    model,
+  });
+}
@@ -0,0 +1,322 @@
+/**
+ * Campaign Templates
+ *
+ * Pure helpers behind /api/campaign-templates and the wizard's template
+ * picker: request validation, normalizing template content from a wizard
+ * payload or a stored core.campaigns row, and a field-level diff between two
+ * template versions.
+ *
+ * A stored campaign keeps its settings in several places depending on how it
+ * was written — campaign-create puts job titles and contact limits in
+ * lead_qualification_config, campaign-update puts them in icp and
+ * sourcing_config.contact_targeting, and outreach context only ever lives in
+ * sourcing_config.outreach_context. templateContentFromCampaign reads all of
+ * them, preferring the later (campaign-update) location.
+ */
+
+import type { CampaignCreatePayload } from '../types/campaign-create';
+import type {
+  CampaignTemplateContent,
+  CampaignTemplateScope,
+  TemplateFieldChange,
+} from '../types/campaign-template';
+
+export const CAMPAIGN_TEMPLATE_SCOPES: CampaignTemplateScope[] = ['user', 'team'];
+
+const MAX_NAME = 120;
+const MAX_DESCRIPTION = 1000;
+const MAX_CHANGE_NOTE = 500;
+
+export interface CampaignTemplateInput {
+  name?: string;
+  description?: string | null;
+  scope?: CampaignTemplateScope;
+  content?: CampaignTemplateContent;
+  source_campaign_id?: string;
+  change_note?: string | null;
+}
+
+type Json = Record<string, unknown>;
+
+function obj(v: unknown): Json {
+  return v && typeof v === 'object' && !Array.isArray(v) ? (v as Json) : {};
+}
+
+function strings(v: unknown): string[] {
+  return Array.isArray(v)
+    ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map((s) => s.trim())
+    : [];
+}
+
+function num(v: unknown): number | undefined {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function numOrNull(v: unknown): number | null {
+  return num(v) ?? null;
+}
+
+function bool(v: unknown): boolean | undefined {
+  return typeof v === 'boolean' ? v : undefined;
+}
+
+function text(v: unknown): string | undefined {
+  return typeof v === 'string' && v.trim() !== '' ? v.trim() : undefined;
+}
+
+function firstList(...candidates: unknown[]): string[] {
+  for (const c of candidates) {
+    const list = strings(c);
+    if (list.length > 0) return list;
+  }
+  return [];
+}
+
+/**
+ * Coerces stored or submitted JSON into CampaignTemplateContent. Unknown keys
+ * are dropped and missing lists become empty, so older versions always diff
+ * cleanly against newer ones.
+ */
+export function normalizeTemplateContent(raw: unknown): CampaignTemplateContent {
+  const c = obj(raw);
+  const icp = obj(c.icp);
+  const size = obj(icp.company_size);
+  const exclusions = obj(icp.exclusions);
+  const targeting = obj(c.contact_targeting);
+  const email = obj(targeting.email_requirements);
+  const outreach = obj(c.outreach_context);
+  const targets = obj(c.campaign_targets);
+
+  return {
+    icp: {
+      company_size: { min: num(size.min), max: num(size.max) },
+      industries: strings(icp.industries),
+      geographies: strings(icp.geographies),
+      job_titles: strings(icp.job_titles),
+      seniority_levels: strings(icp.seniority_levels),
+      keywords: strings(icp.keywords),
+      exclusions: {
+        industries: strings(exclusions.industries),
+        domains: strings(exclusions.domains),
+      },
+    },
+    contact_targeting: {
+      roles: strings(targeting.roles),
+      seniority: strings(targeting.seniority),
+      max_contacts_per_org: num(targeting.max_contacts_per_org),
+      email_requirements: {
+        require_verified: bool(email.require_verified),
+        exclude_generic: bool(email.exclude_generic),
+      },
+    },
+    outreach_context: {
+      tone: text(outreach.tone),
+      value_propositions: strings(outreach.value_propositions),
+      pain_points: strings(outreach.pain_points),
+      call_to_action: text(outreach.call_to_action),
+    },
+    campaign_targets: {
+      target_leads: numOrNull(targets.target_leads),
+      target_emails: numOrNull(targets.target_emails),
+      target_reply_rate: numOrNull(targets.target_reply_rate),
+    },
+  };
+}
+
+/** The template part of a wizard payload (everything but identity and planning flag). */
+export function templateContentFromPayload(payload: CampaignCreatePayload): CampaignTemplateContent {
+  return normalizeTemplateContent({
+    icp: payload.icp,
+    contact_targeting: payload.contact_targeting,
+    outreach_context: payload.outreach_context,
+    campaign_targets: payload.campaign_targets,
+  });
+}
+
+export interface StoredCampaignConfig {
+  icp: unknown;
+  sourcing_config: unknown;
+  lead_qualification_config: unknown;
+}
+
+/** Template content from a core.campaigns row; see the module comment for field locations. */
+export function templateContentFromCampaign(row: StoredCampaignConfig): CampaignTemplateContent {
+  const icp = obj(row.icp);
+  const sourcing = obj(row.sourcing_config);
+  const qualification = obj(row.lead_qualification_config);
+  const targeting = obj(sourcing.contact_targeting);
+  const email = obj(targeting.email_requirements);
+
+  return normalizeTemplateContent({
+    icp: {
+      company_size: icp.company_size,
+      industries: icp.industries,
+      geographies: icp.geographies,
+      keywords: icp.keywords,
+      exclusions: icp.exclusions,
+      job_titles: firstList(icp.job_titles, qualification.job_titles),
+      seniority_levels: firstList(icp.seniority_levels, qualification.seniority_levels),
+    },
+    contact_targeting: {
+      roles: firstList(targeting.roles, icp.roles, qualification.roles, qualification.job_titles),
+      seniority: firstList(targeting.seniority, qualification.seniority_levels),
+      max_contacts_per_org: targeting.max_contacts_per_org ?? qualification.max_contacts_per_org,
+      email_requirements: {
+        require_verified: email.require_verified ?? qualification.require_verified_email,
+        exclude_generic: email.exclude_generic,
+      },
+    },
+    outreach_context: sourcing.outreach_context,
+    campaign_targets: sourcing.targets,
+  });
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) body.
+ * Creates need a name and either content or source_campaign_id; scope is
+ * left unset when omitted so the store can default it.
+ */
+export function validateTemplateInput(
+  body: unknown,
+  partial: boolean,
+): { value: CampaignTemplateInput } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Json;
+  const out: CampaignTemplateInput = {};
+
+  if (b.name !== undefined || !partial) {
+    const name = typeof b.name === 'string' ? b.name.trim().slice(0, MAX_NAME) : '';
+    if (!name) return { error: 'name is required' };
+    out.name = name;
+  }
+
+  if (b.description !== undefined) {
+    if (b.description !== null && typeof b.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    out.description = text(b.description)?.slice(0, MAX_DESCRIPTION) ?? null;
+  }
+
+  if (b.scope !== undefined) {
+    if (!CAMPAIGN_TEMPLATE_SCOPES.includes(b.scope as CampaignTemplateScope)) {
+      return { error: `scope must be one of: ${CAMPAIGN_TEMPLATE_SCOPES.join(', ')}` };
+    }
+    out.scope = b.scope as CampaignTemplateScope;
+  }
+
+  if (b.content !== undefined && b.source_campaign_id !== undefined) {
+    return { error: 'Pass either content or source_campaign_id, not both' };
+  }
+  if (b.content !== undefined) {
+    if (!b.content || typeof b.content !== 'object' || Array.isArray(b.content)) {
+      return { error: 'content must be an object' };
+    }
+    out.content = normalizeTemplateContent(b.content);
+  }
+  if (b.source_campaign_id !== undefined) {
+    const id = text(b.source_campaign_id);
+    if (!id) return { error: 'source_campaign_id must be a non-empty string' };
+    out.source_campaign_id = id;
+  }
+  if (!partial && !out.content && !out.source_campaign_id) {
+    return { error: 'content or source_campaign_id is required' };
+  }
+
+  if (b.change_note !== undefined) {
+    out.change_note = text(b.change_note)?.slice(0, MAX_CHANGE_NOTE) ?? null;
+  }
+
+  return { value: out };
+}
+
+// =============================================================================
+// VERSION DIFF
+// =============================================================================
+
+type FieldValue = string | string[];
+
+interface TemplateField {
+  field: string;
+  label: string;
+  read: (c: CampaignTemplateContent) => FieldValue;
+}
+
+function listValue(v: string[] | undefined): string[] {
+  return v ?? [];
+}
+
+function scalarValue(v: string | number | boolean | null | undefined): string {
+  if (v === null || v === undefined || v === '') return '';
+  if (typeof v === 'boolean') return v ? 'Yes' : 'No';
+  return String(v);
+}
+
+/** Every field a template carries, in wizard order. */
+export const TEMPLATE_FIELDS: TemplateField[] = [
+  { field: 'icp.industries', label: 'Industries', read: (c) => listValue(c.icp.industries) },
+  { field: 'icp.geographies', label: 'Geographies', read: (c) => listValue(c.icp.geographies) },
+  { field: 'icp.keywords', label: 'Keywords', read: (c) => listValue(c.icp.keywords) },
+  { field: 'icp.company_size.min', label: 'Company size (min)', read: (c) => scalarValue(c.icp.company_size?.min) },
+  { field: 'icp.company_size.max', label: 'Company size (max)', read: (c) => scalarValue(c.icp.company_size?.max) },
+  { field: 'icp.exclusions.industries', label: 'Excluded industries', read: (c) => listValue(c.icp.exclusions?.industries) },
+  { field: 'icp.exclusions.domains', label: 'Excluded domains', read: (c) => listValue(c.icp.exclusions?.domains) },
+  { field: 'icp.job_titles', label: 'Job titles', read: (c) => listValue(c.icp.job_titles) },
+  { field: 'icp.seniority_levels', label: 'Seniority levels', read: (c) => listValue(c.icp.seniority_levels) },
+  { field: 'contact_targeting.roles', label: 'Contact roles', read: (c) => listValue(c.contact_targeting.roles) },
+  { field: 'contact_targeting.seniority', label: 'Contact seniority', read: (c) => listValue(c.contact_targeting.seniority) },
+  {
+    field: 'contact_targeting.max_contacts_per_org',
+    label: 'Max contacts per organization',
+    read: (c) => scalarValue(c.contact_targeting.max_contacts_per_org),
+  },
+  {
+    field: 'contact_targeting.email_requirements.require_verified',
+    label: 'Require verified email',
+    read: (c) => scalarValue(c.contact_targeting.email_requirements?.require_verified),
+  },
+  { field: 'outreach_context.tone', label: 'Tone', read: (c) => scalarValue(c.outreach_context.tone) },
+  {
+    field: 'outreach_context.value_propositions',
+    label: 'Value propositions',
+    read: (c) => listValue(c.outreach_context.value_propositions),
+  },
+  { field: 'outreach_context.pain_points', label: 'Pain points', read: (c) => listValue(c.outreach_context.pain_points) },
+  { field: 'outreach_context.call_to_action', label: 'Call to action', read: (c) => scalarValue(c.outreach_context.call_to_action) },
+  { field: 'campaign_targets.target_leads', label: 'Target leads', read: (c) => scalarValue(c.campaign_targets.target_leads) },
+  { field: 'campaign_targets.target_emails', label: 'Target emails', read: (c) => scalarValue(c.campaign_targets.target_emails) },
+  {
+    field: 'campaign_targets.target_reply_rate',
+    label: 'Target reply rate (%)',
+    read: (c) => scalarValue(c.campaign_targets.target_reply_rate),
+  },
+];
+
+function display(v: FieldValue): string {
+  return Array.isArray(v) ? v.join(', ') : v;
+}
+
+/**
+ * Fields that differ between two versions, in TEMPLATE_FIELDS order. List
+ * fields compare as sets (reordering is not a change) and report the added and
+ * removed entries; empty values display as ''.
+ */
+export function diffTemplateContent(
+  before: CampaignTemplateContent,
+  after: CampaignTemplateContent,
+): TemplateFieldChange[] {
+  const changes: TemplateFieldChange[] = [];
+  for (const { field, label, read } of TEMPLATE_FIELDS) {
+    const a = read(before);
+    const b = read(after);
+    if (Array.isArray(a) && Array.isArray(b)) {
+      const added = b.filter((v) => !a.includes(v));
+      const removed = a.filter((v) => !b.includes(v));
+      if (added.length === 0 && removed.length === 0) continue;
+      changes.push({ field, label, before: display(a), after: display(b), added, removed });
+    } else if (a !== b) {
+      changes.push({ field, label, before: display(a), after: display(b) });
+    }
+  }
+  return changes;
+}
@@ -0,0 +1,282 @@
+/**
+ * Campaign Variants
+ *
+ * Pure helpers for email variants edited in the campaign editor and stored in
+ * core.campaigns.sourcing_config.variants:
+ *
+ * - personalization tokens ({{first_name}}) and their sample-value preview,
+ *   limited to OutreachContext.personalization_fields
+ * - validation shared by the editor and /api/campaign-update (weights are
+ *   whole percentages summing to 100)
+ * - per-variant result comparison with a two-proportion z-test on reply rate
+ *   against the first (control) variant, once both sides have enough sends
+ */
+
+import type { CampaignVariant, VariantResult } from '../types/campaign';
+
+export const WEIGHT_TOTAL = 100;
+export const MAX_VARIANTS = 5;
+export const MAX_SUBJECT_LENGTH = 200;
+export const BODY_PREVIEW_LENGTH = 140;
+
+/** Sends each side needs before a difference is tested. */
+export const MIN_SENDS_FOR_SIGNIFICANCE = 100;
+
+/** Two-sided p-value below which a difference is reported as significant. */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+const TOKEN_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+/** Sample values for the preview; unknown fields render as [field]. */
+export const PERSONALIZATION_SAMPLES: Record<string, string> = {
+  first_name: 'Alex',
+  last_name: 'Morgan',
+  full_name: 'Alex Morgan',
+  company: 'Acme Signs',
+  company_name: 'Acme Signs',
+  title: 'Owner',
+  job_title: 'Owner',
+  city: 'Austin',
+  state: 'TX',
+  country: 'United States',
+  industry: 'Hospitality',
+  website: 'acmesigns.com',
+};
+
+type Json = Record<string, unknown>;
+
+function obj(v: unknown): Json {
+  return v && typeof v === 'object' && !Array.isArray(v) ? (v as Json) : {};
+}
+
+function text(v: unknown): string {
+  return typeof v === 'string' ? v : '';
+}
+
+/** Distinct token names used in a text, in order of first use. */
+export function extractTokens(value: string): string[] {
+  const seen = new Set<string>();
+  Array.from(value.matchAll(TOKEN_PATTERN)).forEach((match) => seen.add(match[1]));
+  return Array.from(seen);
+}
+
+export function sampleValue(field: string): string {
+  return PERSONALIZATION_SAMPLES[field] ?? `[${field}]`;
+}
+
+/**
+ * Replaces tokens that are in personalizationFields with sample values.
+ * Tokens that are not configured are left as written so they stand out.
+ */
+export function renderPreview(value: string, personalizationFields: string[]): string {
+  const allowed = new Set(personalizationFields);
+  return value.replace(TOKEN_PATTERN, (whole, field: string) => (allowed.has(field) ? sampleValue(field) : whole));
+}
+
+export function bodyPreview(body: string): string {
+  const flat = body.replace(/\s+/g, ' ').trim();
+  return flat.length > BODY_PREVIEW_LENGTH ? `${flat.slice(0, BODY_PREVIEW_LENGTH - 1)}…` : flat;
+}
+
+/** Splits 100 across n variants; the remainder goes to the first ones (34/33/33). */
+export function evenWeights(count: number): number[] {
+  if (count <= 0) return [];
+  const base = Math.floor(WEIGHT_TOTAL / count);
+  const remainder = WEIGHT_TOTAL - base * count;
+  return Array.from({ length: count }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+export function totalWeight(variants: Pick<CampaignVariant, 'weight'>[]): number {
+  return variants.reduce((sum, v) => sum + (Number.isFinite(v.weight) ? v.weight : 0), 0);
+}
+
+/**
+ * Field errors keyed like the editor's error map: `variants.<index>.<field>`
+ * for a single variant and `variants.weights` for the total.
+ */
+export function validateVariants(variants: CampaignVariant[], personalizationFields: string[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (variants.length === 0) return errors;
+  if (variants.length > MAX_VARIANTS) {
+    errors['variants.weights'] = `At most ${MAX_VARIANTS} variants are allowed`;
+    return errors;
+  }
+
+  const allowed = new Set(personalizationFields);
+  const names = new Set<string>();
+
+  variants.forEach((v, i) => {
+    const key = `variants.${i}`;
+    const name = v.name.trim();
+    if (!name) {
+      errors[`${key}.name`] = 'Name is required';
+    } else if (names.has(name.toLowerCase())) {
+      errors[`${key}.name`] = 'Variant names must be unique';
+    }
+    names.add(name.toLowerCase());
+
+    if (!v.subject_line.trim()) {
+      errors[`${key}.subject_line`] = 'Subject line is required';
+    } else if (v.subject_line.length > MAX_SUBJECT_LENGTH) {
+      errors[`${key}.subject_line`] = `Subject line must be at most ${MAX_SUBJECT_LENGTH} characters`;
+    }
+
+    const body = v.body ?? v.body_preview;
+    if (!body.trim()) errors[`${key}.body`] = 'Body is required';
+
+    const unknown = extractTokens(`${v.subject_line}\n${body}`).filter((t) => !allowed.has(t));
+    if (unknown.length > 0 && !errors[`${key}.body`]) {
+      errors[`${key}.body`] = `Unknown personalization token${unknown.length === 1 ? '' : 's'}: ${unknown.map((t) => `{{${t}}}`).join(', ')}. Add ${unknown.length === 1 ? 'it' : 'them'} to Personalization Fields or remove ${unknown.length === 1 ? 'it' : 'them'}.`;
+    }
+
+    if (!Number.isInteger(v.weight) || v.weight < 0 || v.weight > WEIGHT_TOTAL) {
+      errors[`${key}.weight`] = 'Weight must be a whole number from 0 to 100';
+    }
+  });
+
+  const total = totalWeight(variants);
+  if (total !== WEIGHT_TOTAL) {
+    errors['variants.weights'] = `Weights must add up to ${WEIGHT_TOTAL} (currently ${total})`;
+  }
+  return errors;
+}
+
+/**
+ * Shape check for a submitted variant list, run before normalizeVariants so
+ * a malformed payload is rejected instead of silently replacing the stored
+ * variants with whatever survives normalization. Null when well-formed.
+ */
+export function variantsShapeError(raw: unknown): string | null {
+  if (!Array.isArray(raw)) return 'variants must be an array';
+  const missing = raw.findIndex((r) => typeof obj(r).id !== 'string' || obj(r).id === '');
+  return missing === -1 ? null : `variants[${missing}] must be an object with a non-empty id`;
+}
+
+/**
+ * Coerces stored or submitted variants. Entries without an id are dropped;
+ * body_preview is always derived from the body when one is present.
+ */
+export function normalizeVariants(raw: unknown): CampaignVariant[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((r) => obj(r))
+    .filter((r) => typeof r.id === 'string' && r.id !== '')
+    .map((r) => {
+      const body = typeof r.body === 'string' ? r.body : undefined;
+      const weight = Number(r.weight);
+      return {
+        id: String(r.id),
+        name: text(r.name).trim(),
+        subject_line: text(r.subject_line).trim(),
+        body_preview: body !== undefined ? bodyPreview(body) : text(r.body_preview),
+        ...(body !== undefined && { body }),
+        weight: Number.isFinite(weight) ? weight : 0,
+      };
+    });
+}
+
+// =============================================================================
+// RESULTS
+// =============================================================================
+
+export type VariantSignificance = 'control' | 'insufficient_data' | 'better' | 'worse' | 'no_difference';
+
+export interface VariantComparisonRow extends VariantResult {
+  name: string;
+  /** Configured weight; null when the variant is no longer configured. */
+  weight: number | null;
+  open_rate: number;
+  reply_rate: number;
+  positive_reply_rate: number;
+  bounce_rate: number;
+  /** Reply-rate change relative to control (0.25 = +25%); null for control or when control has no replies. */
+  lift: number | null;
+  p_value: number | null;
+  significance: VariantSignificance;
+}
+
+function rate(part: number, whole: number): number {
+  return whole > 0 ? part / whole : 0;
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26, |error| < 1.5e-7). */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** Two-sided p-value of a two-proportion z-test; 1 when the pooled rate is 0 or 1. */
+export function twoProportionPValue(successesA: number, totalA: number, successesB: number, totalB: number): number {
+  if (totalA <= 0 || totalB <= 0) return 1;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (se === 0) return 1;
+  const z = (successesB / totalB - successesA / totalA) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Joins configured variants with their observed results (configured order,
+ * then any results for variants no longer configured) and compares each
+ * variant's reply rate with the first row, the control.
+ */
+export function compareVariantResults(variants: CampaignVariant[], results: VariantResult[]): VariantComparisonRow[] {
+  const byId = new Map(results.map((r) => [r.variant_id, r]));
+  const configuredIds = new Set(variants.map((v) => v.id));
+  const empty = { sent: 0, opened: 0, replied: 0, positive_replies: 0, bounced: 0 };
+
+  const joined = [
+    ...variants.map((v) => ({ ...empty, ...byId.get(v.id), variant_id: v.id, name: v.name, weight: v.weight as number | null })),
+    ...results
+      .filter((r) => !configuredIds.has(r.variant_id))
+      .map((r) => ({ ...r, name: r.name || r.variant_id, weight: null })),
+  ];
+
+  const control = joined[0];
+  return joined.map((row, index) => {
+    const base = {
+      ...row,
+      open_rate: rate(row.opened, row.sent),
+      reply_rate: rate(row.replied, row.sent),
+      positive_reply_rate: rate(row.positive_replies, row.sent),
+      bounce_rate: rate(row.bounced, row.sent),
+    };
+    if (index === 0) return { ...base, lift: null, p_value: null, significance: 'control' as const };
+
+    const controlRate = rate(control.replied, control.sent);
+    const lift = controlRate > 0 ? base.reply_rate / controlRate - 1 : null;
+    if (row.sent < MIN_SENDS_FOR_SIGNIFICANCE || control.sent < MIN_SENDS_FOR_SIGNIFICANCE) {
+      return { ...base, lift, p_value: null, significance: 'insufficient_data' as const };
+    }
+
+    const pValue = twoProportionPValue(control.replied, control.sent, row.replied, row.sent);
+    const significance: VariantSignificance =
+      pValue >= SIGNIFICANCE_LEVEL ? 'no_difference' : base.reply_rate > controlRate ? 'better' : 'worse';
+    return { ...base, lift, p_value: pValue, significance };
+  });
+}
+
+/** Coerces the Sales Engine variant-results payload. */
+export function normalizeVariantResults(raw: unknown): VariantResult[] {
+  const list = Array.isArray(raw) ? raw : obj(raw).variants;
+  if (!Array.isArray(list)) return [];
+  const count = (v: unknown) => {
+    const n = Number(v);
+    return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+  };
+  return list
+    .map((r) => obj(r))
+    .filter((r) => typeof r.variant_id === 'string' && r.variant_id !== '')
+    .map((r) => ({
+      variant_id: String(r.variant_id),
+      ...(typeof r.name === 'string' && { name: r.name }),
+      sent: count(r.sent),
+      opened: count(r.opened),
+      replied: count(r.replied),
+      positive_replies: count(r.positive_replies),
+      bounced: count(r.bounced),
+    }));
+}
@@ -0,0 +1,196 @@
+/**
+ * Market Scope Preview
+ *
+ * Pure helpers for the live market size estimate shown while an ICP is being
+ * edited (MarketSizePreview, /api/proxy/market-scope/preview):
+ *
+ * - buildPreviewCriteria: the ICP fields that decide which observed
+ *   organizations match, trimmed, de-duplicated case-insensitively and sorted
+ *   so that equivalent ICPs give the same previewCriteriaHash
+ * - validatePreviewCriteria: request-body check for the proxy route
+ * - normalizePreviewResponse: coerces the Sales Engine response
+ * - assessMarketSize: whether a run would likely end as VALID_EMPTY_OBSERVATION
+ *
+ * OBSERVATIONS-FIRST: counts come from observations.* (market reality), not
+ * from operational public.* tables, so they match what a run would harvest.
+ */
+
+import type { ICPDefinition } from '../types/campaign-create';
+import type {
+  MarketScopeBreakdownRow,
+  MarketScopePreview,
+  MarketScopePreviewCriteria,
+} from '../types/campaign';
+
+/** Per-list cap on criteria values sent upstream. */
+export const MAX_CRITERIA_VALUES = 50;
+
+/** Breakdown rows kept per dimension. */
+export const MAX_BREAKDOWN_ROWS = 10;
+
+/** Below this many observed organizations the ICP is flagged as narrow. */
+export const NARROW_MARKET_ORGANIZATIONS = 25;
+
+type Json = Record<string, unknown>;
+
+function obj(v: unknown): Json {
+  return v && typeof v === 'object' && !Array.isArray(v) ? (v as Json) : {};
+}
+
+function cleanList(values: unknown): string[] {
+  if (!Array.isArray(values)) return [];
+  const seen = new Map<string, string>();
+  for (const v of values) {
+    if (typeof v !== 'string') continue;
+    const trimmed = v.trim();
+    const key = trimmed.toLowerCase();
+    if (trimmed && !seen.has(key)) seen.set(key, trimmed);
+  }
+  return Array.from(seen.values())
+    .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+    .slice(0, MAX_CRITERIA_VALUES);
+}
+
+function size(v: unknown): number | undefined {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0 ? Math.floor(n) : undefined;
+}
+
+export type PreviewIcp = Pick<ICPDefinition, 'keywords' | 'geographies' | 'industries' | 'company_size' | 'exclusions'>;
+
+export function buildPreviewCriteria(icp: PreviewIcp): MarketScopePreviewCriteria {
+  let min = size(icp.company_size?.min);
+  let max = size(icp.company_size?.max);
+  if (min !== undefined && max !== undefined && min > max) [min, max] = [max, min];
+  return {
+    keywords: cleanList(icp.keywords),
+    geographies: cleanList(icp.geographies),
+    industries: cleanList(icp.industries),
+    company_size: { min, max },
+    exclusions: {
+      industries: cleanList(icp.exclusions?.industries),
+      domains: cleanList(icp.exclusions?.domains).map((d) => d.toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '')),
+    },
+  };
+}
+
+/** A preview needs at least one keyword; without one every organization would match. */
+export function canPreview(criteria: MarketScopePreviewCriteria): boolean {
+  return criteria.keywords.length > 0;
+}
+
+/**
+ * Stable short hash (FNV-1a, hex) of normalized criteria. Used as the client
+ * cache key and sent upstream as icpHash, matching MarketScope.icpHash.
+ */
+export function previewCriteriaHash(criteria: MarketScopePreviewCriteria): string {
+  const text = JSON.stringify([
+    criteria.keywords.map((k) => k.toLowerCase()),
+    criteria.geographies.map((g) => g.toLowerCase()),
+    criteria.industries.map((i) => i.toLowerCase()),
+    criteria.company_size.min ?? null,
+    criteria.company_size.max ?? null,
+    criteria.exclusions.industries.map((i) => i.toLowerCase()),
+    criteria.exclusions.domains,
+  ]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/** Validates the proxy request body and normalizes it like buildPreviewCriteria. */
+export function validatePreviewCriteria(body: unknown): { value: MarketScopePreviewCriteria } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return { error: 'Request body must be an object' };
+  const b = body as Json;
+  for (const key of ['keywords', 'geographies', 'industries'] as const) {
+    if (b[key] !== undefined && !Array.isArray(b[key])) return { error: `${key} must be an array of strings` };
+  }
+  const criteria = buildPreviewCriteria({
+    keywords: b.keywords as string[],
+    geographies: b.geographies as string[],
+    industries: b.industries as string[],
+    company_size: obj(b.company_size) as ICPDefinition['company_size'],
+    exclusions: obj(b.exclusions) as ICPDefinition['exclusions'],
+  });
+  if (!canPreview(criteria)) return { error: 'At least one keyword is required' };
+  return { value: criteria };
+}
+
+function count(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? Math.round(n) : 0;
+}
+
+function breakdown(v: unknown): MarketScopeBreakdownRow[] {
+  if (!Array.isArray(v)) return [];
+  return v
+    .map((r) => obj(r))
+    .filter((r) => typeof r.label === 'string' && r.label !== '')
+    .map((r) => ({ label: String(r.label), organizations: count(r.organizations), contacts: count(r.contacts) }))
+    .sort((a, b) => b.organizations - a.organizations || a.label.localeCompare(b.label))
+    .slice(0, MAX_BREAKDOWN_ROWS);
+}
+
+export function unavailablePreview(icpHash: string, note: string, now: Date = new Date()): MarketScopePreview {
+  return {
+    available: false,
+    observedOrganizations: 0,
+    observedContacts: 0,
+    estimatedReachable: 0,
+    observedAt: now.toISOString(),
+    icpHash,
+    byGeography: [],
+    byIndustry: [],
+    note,
+  };
+}
+
+/** Coerces a Sales Engine preview response; missing fields become 0 / empty. */
+export function normalizePreviewResponse(raw: unknown, icpHash: string, now: Date = new Date()): MarketScopePreview {
+  const r = obj(raw);
+  return {
+    available: true,
+    observedOrganizations: count(r.observedOrganizations),
+    observedContacts: count(r.observedContacts),
+    estimatedReachable: count(r.estimatedReachable),
+    observedAt: typeof r.observedAt === 'string' ? r.observedAt : now.toISOString(),
+    icpHash: typeof r.icpHash === 'string' ? r.icpHash : icpHash,
+    byGeography: breakdown(r.byGeography),
+    byIndustry: breakdown(r.byIndustry),
+  };
+}
+
+export type MarketSizeLevel = 'unavailable' | 'empty' | 'narrow' | 'healthy';
+
+export interface MarketSizeAssessment {
+  level: MarketSizeLevel;
+  message: string;
+}
+
+export function assessMarketSize(preview: MarketScopePreview): MarketSizeAssessment {
+  if (!preview.available) {
+    return { level: 'unavailable', message: preview.note || 'Market size estimate is unavailable.' };
+  }
+  if (preview.observedOrganizations === 0) {
+    return {
+      level: 'empty',
+      message: 'No observed organizations match this ICP. A run would complete with no results (VALID_EMPTY_OBSERVATION). Broaden keywords, geographies or industries, or relax exclusions.',
+    };
+  }
+  if (preview.estimatedReachable === 0) {
+    return {
+      level: 'empty',
+      message: 'Matching organizations were observed, but none has a reachable contact yet. A run would likely produce no leads.',
+    };
+  }
+  if (preview.observedOrganizations < NARROW_MARKET_ORGANIZATIONS) {
+    return {
+      level: 'narrow',
+      message: `Only ${preview.observedOrganizations} observed organization${preview.observedOrganizations === 1 ? '' : 's'} match. Consider broadening the ICP.`,
+    };
+  }
+  return { level: 'healthy', message: 'Observed market is large enough to run this ICP.' };
+}
@@ -22,6 +22,8 @@
  * - geographies[] (non-empty)
  */
 
+import type { CampaignTemplateRef } from './campaign-template';
+
 export interface CampaignIdentity {
   name: string;
   description?: string;
@@ -114,6 +116,8 @@ export interface CampaignCreatePayload {
   outreach_context: OutreachContext;
   campaign_targets?: CampaignTargets;
   sourcing_config?: SourcingConfig;
+  /** Template version the wizard started from; recorded in core.campaign_template_usages. */
+  template?: CampaignTemplateRef;
 }
 
 export interface CampaignCreateSuccessResponse {
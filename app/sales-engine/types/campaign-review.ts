@@ -0,0 +1,161 @@
+/**
+ * Campaign Review Types
+ *
+ * The approval workflow around the DRAFT → PENDING_REVIEW → RUNNABLE
+ * transitions, served by /api/campaigns/:id/review and /api/campaign-reviews.
+ *
+ * Each submission starts a review round. Assigned reviewers approve or
+ * request changes within the round; the campaign becomes RUNNABLE once the
+ * round has required_approvals approvals, and goes back to DRAFT when any
+ * reviewer requests changes. Every governance action is appended to an audit
+ * log that is never rewritten.
+ */
+
+export type ReviewDecision = 'approved' | 'changes_requested';
+
+export type GovernanceAction =
+  | 'submitted'
+  | 'commented'
+  | 'approved'
+  | 'changes_requested'
+  | 'reverted'
+  | 'reviewer_assigned'
+  | 'reviewer_removed'
+  | 'policy_changed'
+  | 'activated';
+
+/** Who performed an action; fields are null for system-recorded events. */
+export interface ReviewActor {
+  id: string | null;
+  email: string | null;
+  name: string | null;
+}
+
+export interface CampaignReviewer {
+  email: string;
+  /** Set once the reviewer has acted on this campaign. */
+  id: string | null;
+  name: string | null;
+  assigned_by: string;
+  assigned_at: string;
+  /** Decision in the current round, if any. */
+  decision: ReviewDecision | null;
+  decided_at: string | null;
+}
+
+export interface CampaignReviewComment {
+  id: string;
+  parent_id: string | null;
+  /** Dotted campaign path (e.g. 'icp.keywords'); null for a general comment. */
+  field: string | null;
+  review_round: number;
+  body: string;
+  author: ReviewActor;
+  created_at: string;
+}
+
+/** A top-level comment and its replies, oldest first. */
+export interface CampaignReviewThread extends CampaignReviewComment {
+  replies: CampaignReviewComment[];
+}
+
+export interface CampaignReviewDecisionRecord {
+  reviewer: ReviewActor;
+  decision: ReviewDecision;
+  reason: string | null;
+  review_round: number;
+  decided_at: string;
+}
+
+export interface CampaignReviewProgress {
+  approvals: number;
+  required: number;
+  remaining: number;
+  /** Assigned reviewers (emails) who have not decided in this round. */
+  pending_reviewers: string[];
+  complete: boolean;
+}
+
+export interface GovernanceEvent {
+  id: string;
+  action: GovernanceAction;
+  review_round: number;
+  actor: ReviewActor;
+  /** Action-specific: reason, field, reviewer_email, required_approvals, from/to status. */
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface CampaignReviewState {
+  campaign_id: string;
+  required_approvals: number;
+  /** 0 until the campaign is first submitted. */
+  review_round: number;
+  reviewers: CampaignReviewer[];
+  /** Decisions in the current round, newest first. */
+  decisions: CampaignReviewDecisionRecord[];
+  /** All rounds, oldest first; thread with threadComments. */
+  comments: CampaignReviewComment[];
+  /** Newest first. */
+  events: GovernanceEvent[];
+  progress: CampaignReviewProgress;
+  /** Whether the viewer may approve or request changes. */
+  viewer_can_review: boolean;
+  /** Whether the viewer submitted the current round (and so may not decide it). */
+  viewer_is_submitter: boolean;
+  viewer_decision: ReviewDecision | null;
+}
+
+/** A PENDING_REVIEW campaign in the review queue. */
+export interface ReviewQueueItem {
+  campaign_id: string;
+  name: string;
+  review_round: number;
+  submitted_at: string | null;
+  submitted_by: string | null;
+  required_approvals: number;
+  approvals: number;
+  reviewers: string[];
+  comments: number;
+  assigned_to_viewer: boolean;
+  viewer_decision: ReviewDecision | null;
+}
+
+export type ReviewQueueFilter = 'all' | 'mine';
+
+/** POST /api/campaigns/:id/review/comments body. */
+export interface ReviewCommentRequest {
+  body: string;
+  field?: string | null;
+  parent_id?: string | null;
+}
+
+/** POST /api/campaigns/:id/review/request-changes body. */
+export interface RequestChangesRequest {
+  reason: string;
+  field?: string | null;
+}
+
+/** PATCH /api/campaigns/:id/review body. */
+export interface ReviewPolicyRequest {
+  required_approvals: number;
+}
+
+/** POST /api/campaigns/:id/review/reviewers body; DELETE takes ?email=. */
+export interface ReviewerRequest {
+  email: string;
+  name?: string;
+}
+
+export interface CampaignReviewErrorResponse {
+  success: false;
+  error: string;
+}
+
+export type CampaignReviewStateResponse =
+  | { success: true; data: CampaignReviewState }
+  | CampaignReviewErrorResponse;
+
+export type ReviewQueueResponse =
+  | { success: true; data: ReviewQueueItem[] }
+  | CampaignReviewErrorResponse;
@@ -0,0 +1,59 @@
+/**
+ * Campaign Suggest Types
+ *
+ * Request and response of POST /api/campaign-suggest: an ICPDefinition and
+ * OutreachContext drafted from the campaign basics, past campaign lead yield
+ * and QMS quote data, for the wizard's AI Assist step.
+ *
+ * Suggestions are ADVISORY ONLY. Nothing is written; the user reviews and
+ * edits every field before the campaign is created as a DRAFT.
+ */
+
+import type { ICPDefinition, OutreachContext } from './campaign-create';
+
+export interface CampaignSuggestRequest {
+  name: string;
+  description?: string;
+  /** Keywords the user already entered; kept first in the suggestion. */
+  keywords?: string[];
+}
+
+export type SuggestionEvidenceSource = 'campaign_basics' | 'qms_deals' | 'past_campaigns';
+
+/** One data point a suggestion is based on, e.g. "Food & Beverage: 42 quotes, 18 paid". */
+export interface SuggestionEvidence {
+  source: SuggestionEvidenceSource;
+  label: string;
+  value: string;
+}
+
+export interface SuggestionRationale {
+  summary: string;
+  evidence: SuggestionEvidence[];
+}
+
+export interface CampaignSuggestion {
+  icp: ICPDefinition;
+  outreach_context: OutreachContext;
+  rationale: {
+    targeting: SuggestionRationale;
+    messaging: SuggestionRationale;
+    keyword_strategy: SuggestionRationale;
+  };
+  /** Provider that produced the suggestion ('local' or the configured model provider). */
+  provider: string;
+  /** Set when the configured provider failed and the local provider answered instead. */
+  fallback_reason?: string;
+}
+
+export interface CampaignSuggestSuccessResponse {
+  success: true;
+  data: CampaignSuggestion;
+}
+
+export interface CampaignSuggestErrorResponse {
+  success: false;
+  error: string;
+}
+
+export type CampaignSuggestResponse = CampaignSuggestSuccessResponse | CampaignSuggestErrorResponse;
@@ -0,0 +1,142 @@
+/**
+ * Campaign Template Types
+ *
+ * Named, versioned starting points for the campaign wizard, served by
+ * /api/campaign-templates. A template holds everything of a
+ * CampaignCreatePayload except the campaign identity and planning flag.
+ *
+ * Templates are owned by the bootstrap user who saved them; 'team' templates
+ * are listed for everyone in the owner's organization. Content changes always
+ * create a new version; campaigns remember the version they started from.
+ */
+
+import type {
+  CampaignTargets,
+  ContactTargeting,
+  ICPDefinition,
+  OutreachContext,
+} from './campaign-create';
+
+export type CampaignTemplateScope = 'user' | 'team';
+
+export interface CampaignTemplateContent {
+  icp: ICPDefinition;
+  contact_targeting: ContactTargeting;
+  outreach_context: OutreachContext;
+  campaign_targets: CampaignTargets;
+}
+
+export interface CampaignTemplate {
+  id: string;
+  name: string;
+  description: string | null;
+  scope: CampaignTemplateScope;
+  current_version: number;
+  owner_id: string;
+  owner_email: string | null;
+  /** True when the viewer owns the template and may change it. */
+  is_owner: boolean;
+  /** Campaigns created from any version. */
+  campaigns_created: number;
+  /** Content of current_version. */
+  content: CampaignTemplateContent;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignTemplateVersion {
+  version: number;
+  content: CampaignTemplateContent;
+  change_note: string | null;
+  source_campaign_id: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+/** A campaign created from the template and the version it started from. */
+export interface CampaignTemplateUsage {
+  campaign_id: string;
+  campaign_name: string | null;
+  template_version: number;
+  created_at: string;
+}
+
+/** One changed field between two template versions. */
+export interface TemplateFieldChange {
+  /** Dotted path into CampaignTemplateContent, e.g. 'icp.industries'. */
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  /** For list fields: entries only in `after` / only in `before`. */
+  added?: string[];
+  removed?: string[];
+}
+
+export interface CampaignTemplateDetail {
+  template: CampaignTemplate;
+  /** Newest first. */
+  versions: CampaignTemplateVersion[];
+  usages: CampaignTemplateUsage[];
+}
+
+/** The template a campaign was created from and what changed since. */
+export interface CampaignTemplateOrigin {
+  template: Pick<CampaignTemplate, 'id' | 'name' | 'current_version'>;
+  created_from_version: number;
+  /** Empty when the campaign is on the current version. */
+  changes: TemplateFieldChange[];
+}
+
+/**
+ * POST /api/campaign-templates body. Content comes either inline or from an
+ * existing campaign (source_campaign_id).
+ */
+export interface CampaignTemplateCreateRequest {
+  name: string;
+  description?: string;
+  scope?: CampaignTemplateScope;
+  content?: CampaignTemplateContent;
+  source_campaign_id?: string;
+}
+
+/**
+ * PATCH /api/campaign-templates/:id body. Passing content or
+ * source_campaign_id creates a new version; name, description and scope are
+ * updated in place.
+ */
+export interface CampaignTemplateUpdateRequest {
+  name?: string;
+  description?: string | null;
+  scope?: CampaignTemplateScope;
+  content?: CampaignTemplateContent;
+  source_campaign_id?: string;
+  change_note?: string;
+}
+
+/** The template version a new campaign starts from (CampaignCreatePayload.template). */
+export interface CampaignTemplateRef {
+  template_id: string;
+  version: number;
+}
+
+export interface CampaignTemplateErrorResponse {
+  success: false;
+  error: string;
+}
+
+export type CampaignTemplateListResponse =
+  | { success: true; data: CampaignTemplate[] }
+  | CampaignTemplateErrorResponse;
+
+export type CampaignTemplateResponse =
+  | { success: true; data: CampaignTemplate }
+  | CampaignTemplateErrorResponse;
+
+export type CampaignTemplateDetailResponse =
+  | { success: true; data: CampaignTemplateDetail }
+  | CampaignTemplateErrorResponse;
+
+export type CampaignTemplateOriginResponse =
+  | { success: true; data: CampaignTemplateOrigin | null }
+  | CampaignTemplateErrorResponse;
@@ -91,6 +91,47 @@ export interface MarketScope {
   icpHash?: string;
 }
 
+/**
+ * ICP criteria for a market scope preview: what the campaign would match
+ * in observations.* if it were run now. Lists are trimmed, de-duplicated and
+ * sorted (see app/sales-engine/lib/market-scope-preview.ts) so equal ICPs
+ * produce the same icpHash.
+ */
+export interface MarketScopePreviewCriteria {
+  keywords: string[];
+  geographies: string[];
+  industries: string[];
+  company_size: {
+    min?: number;
+    max?: number;
+  };
+  exclusions: {
+    industries: string[];
+    domains: string[];
+  };
+}
+
+/** Matching organizations and contacts for one geography or industry. */
+export interface MarketScopeBreakdownRow {
+  label: string;
+  organizations: number;
+  contacts: number;
+}
+
+/**
+ * Live market scope estimate for an ICP that has not been run yet.
+ * Source: observations.* tables (via Sales Engine).
+ *
+ * available = false when the Sales Engine is not configured or cannot
+ * estimate; the counts are then 0 and must not be read as an empty market.
+ */
+export interface MarketScopePreview extends MarketScope {
+  available: boolean;
+  byGeography: MarketScopeBreakdownRow[];
+  byIndustry: MarketScopeBreakdownRow[];
+  note?: string;
+}
+
 /**
  * Operational working set represents data actively being processed.
  * Source: public.* tables
@@ -137,6 +178,8 @@ export interface CampaignSourcingConfig {
     target_emails?: number | null;
     target_reply_rate?: number | null;
   };
+  /** Email variants edited in the campaign editor */
+  variants?: CampaignVariant[];
 }
 
 export interface Campaign {
@@ -277,9 +320,32 @@ export interface CampaignVariant {
   name: string;
   subject_line: string;
   body_preview: string;
+  /** Full email body with {{token}} placeholders; set for variants edited in the campaign editor. */
+  body?: string;
+  /** Share of sends, 0-100. Weights across a campaign's variants sum to 100. */
   weight: number;
 }
 
+/**
+ * Observed send outcomes for one variant.
+ * Source: Sales Engine (send events), never inferred in the UI.
+ */
+export interface VariantResult {
+  variant_id: string;
+  name?: string;
+  sent: number;
+  opened: number;
+  replied: number;
+  positive_replies: number;
+  bounced: number;
+}
+
+export interface VariantResultsResponse {
+  campaignId: string;
+  variants: VariantResult[];
+  observedAt: string;
+}
+
 export interface ThroughputConfig {
   campaign_id: string;
   daily_limit: number;
@@ -9,10 +9,12 @@ import { magenta } from '../../design/tokens/colors';
 export interface ExportMenuProps {
   onExportCSV: () => void;
   onExportPDF: () => void;
+  /** Adds an Excel option: one worksheet per table section. */
+  onExportXLSX?: () => void;
   disabled?: boolean;
 }
 
-export function ExportMenu({ onExportCSV, onExportPDF, disabled }: ExportMenuProps) {
+export function ExportMenu({ onExportCSV, onExportPDF, onExportXLSX, disabled }: ExportMenuProps) {
   const tc = useThemeColors();
   const [open, setOpen] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
@@ -112,6 +114,31 @@ export function ExportMenu({ onExportCSV, onExportPDF, disabled }: ExportMenuPro
           >
             PDF
           </button>
+          {onExportXLSX && (
+            <>
+              <div style={{ height: '1px', background: tc.border.default }} />
+              <button
+                onClick={() => { onExportXLSX(); setOpen(false); }}
+                data-testid="button-export-xlsx"
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  textAlign: 'left',
+                  fontFamily: fontFamily.body,
+                  fontSize: fontSize.sm,
+                  color: tc.text.primary,
+                  background: 'transparent',
+                  border: 'none',
+                  padding: `${space['2']} ${space['3']}`,
+                  cursor: 'pointer',
+                }}
+                onMouseEnter={e => (e.currentTarget.style.background = tc.background.hover || magenta[50])}
+                onMouseLeave={e => (e.currentTarget.style.background = 'transparent')}
+              >
+                Excel (XLSX)
+              </button>
+            </>
+          )}
         </div>
       )}
     </div>
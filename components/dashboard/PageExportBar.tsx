@@ -30,6 +30,12 @@ export function PageExportBar({ filename, pdfTitle, sections, meta, loading }: P
     });
   };
 
+  const handleExportXLSX = () => {
+    import('../../lib/exportUtils').then(({ exportXLSX }) => {
+      exportXLSX(filename, pdfTitle, sections, meta);
+    });
+  };
+
   return (
     <div style={{ display: 'flex', alignItems: 'center', gap: space['3'] }}>
       <span style={{ fontFamily: fontFamily.body, fontSize: fontSize.sm, color: tc.text.muted }}>
@@ -38,6 +44,7 @@ export function PageExportBar({ filename, pdfTitle, sections, meta, loading }: P
       <ExportMenu
         onExportCSV={handleExportCSV}
         onExportPDF={handleExportPDF}
+        onExportXLSX={handleExportXLSX}
         disabled={loading || sections.length === 0}
       />
     </div>
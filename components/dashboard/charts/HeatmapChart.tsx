@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { violet } from '../../../design/tokens/colors';
+import { useThemeColors } from '../../../hooks/useThemeColors';
+import { fontFamily, fontSize, fontWeight } from '../../../design/tokens/typography';
+import { radius, space } from '../../../design/tokens/spacing';
+
+export interface HeatmapChartRow {
+  label: string;
+  /** One value per column; null cells are drawn empty (not yet measured). */
+  values: Array<number | null>;
+  /** Shown after the label, e.g. the row's sample size. */
+  sublabel?: string;
+}
+
+export interface HeatmapChartProps {
+  columns: string[];
+  rows: HeatmapChartRow[];
+  formatValue?: (v: number) => string;
+  /** Value that gets the darkest shade; defaults to the largest value present. */
+  max?: number;
+  rowLabelWidth?: number;
+  emptyLabel?: string;
+}
+
+const SHADES = [violet[50], violet[100], violet[200], violet[300], violet[400], violet[500], violet[600], violet[700], violet[800]];
+
+function shadeFor(value: number, max: number): { background: string; dark: boolean } {
+  const ratio = max > 0 ? Math.min(1, Math.max(0, value / max)) : 0;
+  const idx = Math.round(ratio * (SHADES.length - 1));
+  return { background: SHADES[idx], dark: idx >= 5 };
+}
+
+export function HeatmapChart({
+  columns,
+  rows,
+  formatValue = (v) => v.toLocaleString(),
+  max,
+  rowLabelWidth = 140,
+  emptyLabel = '—',
+}: HeatmapChartProps) {
+  const tc = useThemeColors();
+
+  if (!rows.length) {
+    return (
+      <div style={{ height: 120, display: 'flex', alignItems: 'center', justifyContent: 'center', color: tc.text.muted, fontFamily: fontFamily.body }}>
+        No data available
+      </div>
+    );
+  }
+
+  const scaleMax = max ?? Math.max(0, ...rows.flatMap((r) => r.values.filter((v): v is number => v !== null)));
+
+  return (
+    <div
+      role="table"
+      style={{
+        display: 'grid',
+        gridTemplateColumns: `${rowLabelWidth}px repeat(${columns.length}, minmax(56px, 1fr))`,
+        gap: 2,
+        fontFamily: fontFamily.body,
+        fontSize: fontSize.xs,
+      }}
+    >
+      <div role="columnheader" />
+      {columns.map((c) => (
+        <div key={c} role="columnheader" style={{ textAlign: 'center', color: tc.text.muted, fontWeight: fontWeight.medium, padding: `${space['1']} 0` }}>
+          {c}
+        </div>
+      ))}
+      {rows.map((row) => (
+        <React.Fragment key={row.label}>
+          <div role="rowheader" style={{ display: 'flex', alignItems: 'center', gap: space['2'], color: tc.text.secondary, paddingRight: space['2'], whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            <span>{row.label}</span>
+            {row.sublabel && <span style={{ color: tc.text.muted }}>{row.sublabel}</span>}
+          </div>
+          {columns.map((c, i) => {
+            const value = row.values[i] ?? null;
+            if (value === null) {
+              return (
+                <div key={c} role="cell" title={`${row.label} · ${c}: not yet measured`} style={{
+                  border: `1px dashed ${tc.border.subtle}`,
+                  borderRadius: radius.sm,
+                  color: tc.text.muted,
+                  textAlign: 'center',
+                  padding: `${space['2']} 0`,
+                }}>
+                  {emptyLabel}
+                </div>
+              );
+            }
+            const shade = shadeFor(value, scaleMax);
+            return (
+              <div key={c} role="cell" title={`${row.label} · ${c}: ${formatValue(value)}`} style={{
+                backgroundColor: shade.background,
+                color: shade.dark ? '#ffffff' : violet[900],
+                borderRadius: radius.sm,
+                textAlign: 'center',
+                fontWeight: fontWeight.medium,
+                padding: `${space['2']} 0`,
+              }}>
+                {formatValue(value)}
+              </div>
+            );
+          })}
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -9,3 +9,6 @@ export type { BarChartProps } from './BarChart';
 
 export { Sparkline } from './Sparkline';
 export type { SparklineProps } from './Sparkline';
+
+export { HeatmapChart } from './HeatmapChart';
+export type { HeatmapChartProps, HeatmapChartRow } from './HeatmapChart';
@@ -19,6 +19,7 @@ import type {
   SLAMetrics,
   MockupSLAMetrics,
   MarketingOverviewResponse,
+  MarketingTarget,
   TimePeriod,
   AsyncState,
 } from '../types/activity-spine';
@@ -36,6 +37,7 @@ import {
   getSalesDashboardData,
   getMarketingDashboardData,
 } from '../lib/sdk';
+import { getTargets } from '../lib/marketingApi';
 
 // ============================================
 // Generic Async Hook
@@ -368,3 +370,33 @@ export function useMarketingDashboard(queryParams: Record<string, string> = { pe
 
   return { ...state, refetch: fetchData };
 }
+
+/**
+ * Fetch stored marketing targets for the months overlapping a period.
+ * Months without a stored value fall back to the defaults in
+ * lib/marketing-targets.ts, so an empty list is a valid result.
+ */
+export function useMarketingTargets(start: string | undefined, end: string | undefined) {
+  const [state, setState] = useState<AsyncState<MarketingTarget[]>>({
+    data: null,
+    loading: true,
+    error: null,
+  });
+
+  const fetchData = useCallback(async () => {
+    if (!start || !end) return;
+    setState((prev) => ({ ...prev, loading: true, error: null }));
+    try {
+      setState({ data: await getTargets(start, end), loading: false, error: null });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch targets';
+      setState({ data: null, loading: false, error: message });
+    }
+  }, [start, end]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  return { ...state, refetch: fetchData };
+}
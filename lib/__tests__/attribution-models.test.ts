@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  ATTRIBUTION_MODELS,
+  attributeJourneys,
+  attributionWeights,
+  classifyTouch,
+  touchSignalsFromUrl,
+  type AttributionJourney,
+} from '../attribution-models';
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2026, 9, 1);
+
+describe('classifyTouch', () => {
+  it('treats any Google click ID as Google Ads', () => {
+    expect(classifyTouch({ gclid: 'abc' })).toBe('google_ads');
+    expect(classifyTouch({ wbraid: 'x', utm_source: 'facebook' })).toBe('google_ads');
+  });
+
+  it('splits paid mediums by source', () => {
+    expect(classifyTouch({ utm_source: 'google', utm_medium: 'cpc' })).toBe('google_ads');
+    expect(classifyTouch({ utm_source: 'facebook', utm_medium: 'paid' })).toBe('paid_social');
+    expect(classifyTouch({ utm_source: 'bing', utm_medium: 'cpc' })).toBe('paid_other');
+  });
+
+  it('classifies unpaid sources and referrers', () => {
+    expect(classifyTouch({ utm_source: 'newsletter', utm_medium: 'email' })).toBe('email');
+    expect(classifyTouch({ utm_source: 'google' })).toBe('organic');
+    expect(classifyTouch({ referrer: 'https://www.google.co.uk/' })).toBe('organic');
+    expect(classifyTouch({ referrer: 'https://l.instagram.com/' })).toBe('social');
+    expect(classifyTouch({ referrer: 'https://blog.example.org/post' })).toBe('referral');
+  });
+
+  it('falls back to direct for own-site referrers and empty signals', () => {
+    expect(classifyTouch({ referrer: 'https://neonsignsdepot.com/custom/' })).toBe('direct');
+    expect(classifyTouch({ referrer: 'https://quote.neonsignsdepot.com/' })).toBe('direct');
+    expect(classifyTouch({ utm_source: '(direct)' })).toBe('direct');
+    expect(classifyTouch({})).toBe('direct');
+  });
+
+  it('reads UTM tags and click IDs from a landing URL', () => {
+    const s = touchSignalsFromUrl('https://neonsignsdepot.com/?utm_source=google&utm_medium=cpc&gclid=Cj0');
+    expect(s).toMatchObject({ utm_source: 'google', utm_medium: 'cpc', gclid: 'Cj0' });
+    expect(touchSignalsFromUrl('/for-businesses/')).toMatchObject({ utm_source: null });
+    expect(touchSignalsFromUrl(null)).toEqual({});
+  });
+});
+
+describe('attributionWeights', () => {
+  const times = [T0, T0 + 7 * DAY, T0 + 14 * DAY];
+  const converted = T0 + 14 * DAY;
+
+  it('sums to 1 under every model', () => {
+    for (const { id } of ATTRIBUTION_MODELS) {
+      const sum = attributionWeights(id, times, converted).reduce((a, b) => a + b, 0);
+      expect(sum).toBeCloseTo(1, 10);
+    }
+  });
+
+  it('gives single-touch models all credit to one end', () => {
+    expect(attributionWeights('first_touch', times, converted)).toEqual([1, 0, 0]);
+    expect(attributionWeights('last_touch', times, converted)).toEqual([0, 0, 1]);
+  });
+
+  it('halves time-decay credit per half-life before conversion', () => {
+    const [a, b, c] = attributionWeights('time_decay', times, converted);
+    expect(b / c).toBeCloseTo(0.5, 10);
+    expect(a / c).toBeCloseTo(0.25, 10);
+  });
+
+  it('splits position-based 40/20/40, and evenly for two touches', () => {
+    expect(attributionWeights('position_based', [...times, converted], converted)).toEqual([0.4, 0.1, 0.1, 0.4]);
+    expect(attributionWeights('position_based', times.slice(0, 2), converted)).toEqual([0.5, 0.5]);
+  });
+
+  it('gives a single touch all credit', () => {
+    for (const { id } of ATTRIBUTION_MODELS) {
+      expect(attributionWeights(id, [T0], T0)).toEqual([1]);
+    }
+  });
+});
+
+describe('attributeJourneys', () => {
+  const journeys: AttributionJourney[] = [
+    {
+      revenue_cents: 100_000,
+      converted_at: T0 + 2 * DAY,
+      touchpoints: [
+        { at: T0, channel: 'organic' },
+        { at: T0 + DAY, channel: 'email' },
+        { at: T0 + 2 * DAY, channel: 'google_ads' },
+      ],
+    },
+    { revenue_cents: 50_000, converted_at: T0, touchpoints: [{ at: T0, channel: 'google_ads' }] },
+  ];
+
+  it('reconciles every model to total paid revenue', () => {
+    const out = attributeJourneys(journeys);
+    for (const { id } of ATTRIBUTION_MODELS) {
+      expect(out[id].reduce((s, r) => s + r.paid_revenue_cents, 0)).toBe(150_000);
+      expect(out[id].reduce((s, r) => s + r.credited_quotes, 0)).toBeCloseTo(2, 1);
+    }
+  });
+
+  it('credits channels differently per model, highest revenue first', () => {
+    const out = attributeJourneys(journeys);
+    expect(out.first_touch).toEqual([
+      { channel: 'organic', credited_quotes: 1, paid_revenue_cents: 100_000 },
+      { channel: 'google_ads', credited_quotes: 1, paid_revenue_cents: 50_000 },
+    ]);
+    expect(out.last_touch).toEqual([{ channel: 'google_ads', credited_quotes: 2, paid_revenue_cents: 150_000 }]);
+    expect(out.linear[0]).toEqual({ channel: 'google_ads', credited_quotes: 1.33, paid_revenue_cents: 83_333 });
+    expect(out.linear.slice(1).map(r => r.paid_revenue_cents).sort()).toEqual([33_333, 33_334]);
+    expect(out.position_based.find(r => r.channel === 'email')?.paid_revenue_cents).toBe(20_000);
+  });
+});
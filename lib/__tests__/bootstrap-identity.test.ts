@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { authorizeRequest, clearIdentityCache, resolveRequestIdentity, viewerFromIdentity } from '../bootstrap-identity';
+import { SEO_APPROVE_PERMISSION, formatReviewer, reviewerFromUser } from '../seo-review';
+
+const USER = { id: 'u-42', email: 'jane@nsd.local', name: 'Jane Reviewer' };
+
+function request(headers: Record<string, string> = {}) {
+  return { headers: new Headers(headers), nextUrl: { origin: 'http://dash.local' } };
+}
+
+function bootstrapResponse(permissions: string[], status = 200) {
+  return new Response(JSON.stringify({ user: USER, permissions }), { status });
+}
+
+describe('resolveRequestIdentity', () => {
+  beforeEach(() => {
+    clearIdentityCache();
+    vi.stubEnv('ODS_API_URL', '');
+    vi.stubEnv('NEXT_PUBLIC_ODS_API_URL', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('forwards the caller credentials to the bootstrap endpoint and caches the result', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(bootstrapResponse([SEO_APPROVE_PERMISSION]));
+    const req = request({ authorization: 'Bearer tok-1' });
+
+    const identity = await resolveRequestIdentity(req);
+    expect(identity).toEqual({ user: USER, organization: null, permissions: [SEO_APPROVE_PERMISSION] });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://dash.local/functions/v1/ods-api/me');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer tok-1');
+
+    await resolveRequestIdentity(req);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns null when bootstrap rejects the credentials or returns no user', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ user: null, permissions: [] })));
+
+    expect(await resolveRequestIdentity(request({ authorization: 'Bearer bad' }))).toBeNull();
+    expect(await resolveRequestIdentity(request({ authorization: 'Bearer none' }))).toBeNull();
+  });
+});
+
+describe('authorizeRequest', () => {
+  beforeEach(() => clearIdentityCache());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('is 401 without an identity and 403 without the permission', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('{}', { status: 401 }))
+      .mockResolvedValueOnce(bootstrapResponse(['seo:read']));
+
+    expect(await authorizeRequest(request(), SEO_APPROVE_PERMISSION))
+      .toEqual({ ok: false, status: 401, error: 'Authentication required' });
+    expect(await authorizeRequest(request({ authorization: 'Bearer viewer' }), SEO_APPROVE_PERMISSION))
+      .toEqual({ ok: false, status: 403, error: `Missing permission: ${SEO_APPROVE_PERMISSION}` });
+  });
+
+  it('returns the identity when the permission is granted', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(bootstrapResponse(['seo:read', SEO_APPROVE_PERMISSION]));
+
+    const result = await authorizeRequest(request({ authorization: 'Bearer approver' }), SEO_APPROVE_PERMISSION);
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(reviewerFromUser(result.identity.user)).toEqual(USER);
+  });
+});
+
+describe('viewerFromIdentity', () => {
+  it('maps the user and organization, treating a blank email as none', () => {
+    expect(viewerFromIdentity({ user: USER, organization: { id: 'org-1', name: 'NSD' }, permissions: [] }))
+      .toEqual({ userId: 'u-42', email: 'jane@nsd.local', teamId: 'org-1' });
+    expect(viewerFromIdentity({ user: { ...USER, email: '' }, organization: null, permissions: [] }))
+      .toEqual({ userId: 'u-42', email: null, teamId: null });
+  });
+});
+
+describe('formatReviewer', () => {
+  it('prefers name and email and hides the legacy operator stamp', () => {
+    expect(formatReviewer({ reviewer_id: 'u-42', reviewer_email: USER.email, reviewer_name: USER.name }))
+      .toBe('Jane Reviewer (jane@nsd.local)');
+    expect(formatReviewer({ reviewer_id: 'u-42', reviewer_email: USER.email })).toBe(USER.email);
+    expect(formatReviewer({ reviewer_id: 'u-42' })).toBe('u-42');
+    expect(formatReviewer({ reviewer_id: 'operator' })).toBeNull();
+  });
+});
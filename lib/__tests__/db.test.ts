@@ -0,0 +1,109 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { pools } = vi.hoisted(() => ({
+  pools: [] as Array<{ config: Record<string, unknown>; query: ReturnType<typeof vi.fn>; connect: ReturnType<typeof vi.fn> }>,
+}));
+
+vi.mock('pg', () => ({
+  Pool: class MockPool {
+    config: Record<string, unknown>;
+    query = vi.fn(async () => ({ rows: [{ ok: true }], rowCount: 1 }));
+    connect = vi.fn(async () => ({ query: vi.fn(async () => ({ rows: [], rowCount: 0 })), release: vi.fn() }));
+    on = vi.fn();
+    constructor(config: Record<string, unknown>) {
+      this.config = config;
+      pools.push(this);
+    }
+  },
+}));
+
+import { createFakeDb, getDb, isDbConfigured, poolConfig, setTestDb } from '../db';
+
+afterEach(() => {
+  pools.length = 0;
+  setTestDb(null);
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getDb', () => {
+  it('shares one pool per role and database URL and tags each query', async () => {
+    vi.stubEnv('SUPABASE_DATABASE_URL', 'postgres://u:p@db.shared.test:5432/a');
+
+    const a = getDb('proxy/seo/actions');
+    const b = getDb('proxy/seo/page');
+    await a.query('SELECT 1', [1]);
+    await b.query('SELECT 2');
+    expect(pools).toHaveLength(1);
+    expect(pools[0].query).toHaveBeenNthCalledWith(1, '/* proxy/seo/actions */ SELECT 1', [1]);
+    expect(pools[0].query).toHaveBeenNthCalledWith(2, '/* proxy/seo/page */ SELECT 2', undefined);
+
+    await getDb('ingest/web-event', { role: 'write' }).query('INSERT 1');
+    expect(pools).toHaveLength(2);
+    expect(pools[1].config).toMatchObject({ max: 3, statement_timeout: 60000 });
+    expect(pools[1].config.options).toBeUndefined();
+  });
+
+  it('resolves the core database separately and reports configuration', async () => {
+    vi.stubEnv('SUPABASE_DATABASE_URL', '');
+    vi.stubEnv('DATABASE_URL', '');
+    vi.stubEnv('POSTGRES_URL', 'postgres://u:p@db.core.test:5432/core');
+
+    expect(isDbConfigured()).toBe(false);
+    expect(isDbConfigured('core')).toBe(true);
+    await expect(getDb('seo-db').query('SELECT 1')).rejects.toThrow('No database URL configured');
+
+    await getDb('campaigns/[id]/scope', { database: 'core' }).query('SELECT 1');
+    expect(pools[0].config.connectionString).toBe('postgres://u:p@db.core.test:5432/core');
+  });
+
+  it('logs queries slower than DB_SLOW_QUERY_MS with their tag', async () => {
+    vi.stubEnv('SUPABASE_DATABASE_URL', 'postgres://u:p@db.slow.test:5432/a');
+    vi.stubEnv('DB_SLOW_QUERY_MS', '500');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(Date, 'now').mockReturnValueOnce(1000).mockReturnValueOnce(1750);
+
+    await getDb('proxy/seo/intelligence').query(`SELECT *\n  FROM analytics.big_view`);
+    expect(warn).toHaveBeenCalledWith('[db:proxy/seo/intelligence] slow query (750ms): SELECT * FROM analytics.big_view');
+  });
+});
+
+describe('poolConfig', () => {
+  it('makes read sessions read-only and skips SSL for local databases', () => {
+    const read = poolConfig('postgres://u:p@db.remote.test:5432/a', 'read');
+    expect(read).toMatchObject({ max: 10, statement_timeout: 15000, options: '-c default_transaction_read_only=on' });
+    expect(read.ssl).toEqual({ rejectUnauthorized: false });
+    expect(poolConfig('postgres://u:p@localhost:5432/a', 'write').ssl).toBeUndefined();
+  });
+});
+
+describe('createFakeDb', () => {
+  it('routes every handle to the fake and records tag, role and values', async () => {
+    const fake = createFakeDb((text) => {
+      if (text.includes('FROM analytics.targets')) return [{ metric: 'sessions' }];
+      if (text.includes('boom')) return new Error('boom');
+      return undefined;
+    });
+    setTestDb(fake);
+
+    const db = getDb('activity-spine/marketing/targets', { role: 'write' });
+    const { rows, rowCount } = await db.query('SELECT * FROM analytics.targets WHERE month = $1', ['2026-10-01']);
+    expect(rows).toEqual([{ metric: 'sessions' }]);
+    expect(rowCount).toBe(1);
+    await expect(db.query('SELECT boom')).rejects.toThrow('boom');
+
+    const client = await db.connect();
+    expect(fake.openClients()).toBe(1);
+    await client.query('BEGIN');
+    client.release();
+    expect(fake.openClients()).toBe(0);
+
+    expect(fake.calls.map((c) => [c.tag, c.role, c.text])).toEqual([
+      ['activity-spine/marketing/targets', 'write', 'SELECT * FROM analytics.targets WHERE month = $1'],
+      ['activity-spine/marketing/targets', 'write', 'SELECT boom'],
+      ['activity-spine/marketing/targets', 'write', 'BEGIN'],
+    ]);
+    expect(pools).toHaveLength(0);
+  });
+});
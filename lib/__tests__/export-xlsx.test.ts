@@ -0,0 +1,104 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildXLSX, crc32, xlsxCell, xlsxSheetName } from '../exportXlsx';
+import type { ExportSection } from '../exportDocuments';
+
+/** Reads the stored (uncompressed) entries of a ZIP through its central directory. */
+function unzipStored(bytes: Uint8Array): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const out: Record<string, string> = {};
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const crc = view.getUint32(pos + 16, true);
+    const size = view.getUint32(pos + 20, true);
+    const nameLen = view.getUint16(pos + 28, true);
+    const local = view.getUint32(pos + 42, true);
+    const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLen));
+    const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + size);
+    expect(crc32(data)).toBe(crc);
+    out[name] = decoder.decode(data);
+    pos += 46 + nameLen;
+  }
+  return out;
+}
+
+const SECTIONS: ExportSection[] = [
+  { type: 'kpis', title: 'Summary', items: [{ label: 'Quotes', value: 12 }, { label: 'Conversion', value: '3.2%' }] },
+  {
+    type: 'table',
+    title: 'Traffic Sources',
+    columns: [
+      { key: 'source', label: 'Source' },
+      { key: 'pipeline', label: 'Pipeline', format: 'currency' },
+      { key: 'ctr', label: 'CTR', format: 'percent' },
+      { key: 'sessions', label: 'Sessions', format: 'number' },
+    ],
+    rows: [
+      { source: 'google & <partners>', pipeline: 1234.5, ctr: 12.5, sessions: 800 },
+      { source: 'direct', pipeline: null, ctr: 'n/a', sessions: '42' },
+    ],
+  },
+  { type: 'table', title: 'Traffic Sources', columns: [{ key: 'a', label: 'A' }], rows: [] },
+];
+
+describe('xlsxCell', () => {
+  it('writes numeric columns as numbers with their format', () => {
+    expect(xlsxCell(1234.5, 'currency')).toEqual({ value: 1234.5, style: 2 });
+    expect(xlsxCell(12.5, 'percent')).toEqual({ value: 0.125, style: 3 });
+    expect(xlsxCell('42', 'number')).toEqual({ value: 42, style: 4 });
+    expect(xlsxCell(1.25, 'number')).toEqual({ value: 1.25, style: 5 });
+  });
+
+  it('keeps text, blanks and non-numeric values as text', () => {
+    expect(xlsxCell(42)).toEqual({ value: '42', style: 0 });
+    expect(xlsxCell('n/a', 'percent')).toEqual({ value: 'n/a', style: 0 });
+    expect(xlsxCell(null, 'currency')).toEqual({ value: null, style: 0 });
+  });
+});
+
+describe('xlsxSheetName', () => {
+  it('strips forbidden characters, truncates and de-duplicates', () => {
+    const taken = new Set<string>(['cover']);
+    expect(xlsxSheetName('Leads: by source / week [beta]', taken)).toBe('Leads by source week beta');
+    expect(xlsxSheetName('Cover', taken)).toBe('Cover (2)');
+    const long = 'A very long section title that overflows';
+    expect(xlsxSheetName(long, taken)).toBe(long.slice(0, 31));
+    expect(xlsxSheetName(long, taken)).toBe(`${long.slice(0, 27)} (2)`);
+  });
+});
+
+describe('buildXLSX', () => {
+  const files = unzipStored(buildXLSX('Operator Hub', SECTIONS, { dateRange: '2026-10-01 to 2026-10-17', filters: 'channel: organic' }));
+
+  it('adds a cover sheet and one worksheet per table section', () => {
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Cover" sheetId="1" r:id="rId1"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Traffic Sources" sheetId="2" r:id="rId2"/>');
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Traffic Sources (2)" sheetId="3" r:id="rId3"/>');
+    expect(files['[Content_Types].xml']).toContain('/xl/worksheets/sheet3.xml');
+  });
+
+  it('puts the period, filters and KPI sections on the cover sheet', () => {
+    const cover = files['xl/worksheets/sheet1.xml'];
+    expect(cover).toContain('Operator Hub');
+    expect(cover).toContain('2026-10-01 to 2026-10-17');
+    expect(cover).toContain('channel: organic');
+    expect(cover).toMatch(/Quotes<\/t><\/is><\/c><c r="B\d+" s="4"><v>12<\/v>/);
+    expect(cover).not.toContain('state="frozen"');
+  });
+
+  it('freezes the header row and writes real numeric cells', () => {
+    const sheet = files['xl/worksheets/sheet2.xml'];
+    expect(sheet).toContain('<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>');
+    expect(sheet).toContain('google &amp; &lt;partners&gt;');
+    expect(sheet).toContain('<c r="B2" s="2"><v>1234.5</v></c>');
+    expect(sheet).toContain('<c r="C2" s="3"><v>0.125</v></c>');
+    expect(sheet).toContain('<c r="D3" s="4"><v>42</v></c>');
+    expect(sheet).not.toContain('r="B3"');
+  });
+});
@@ -0,0 +1,78 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, ReplayGuard, signWebhookPayload, verifyWebhookSignature } from '../ingest-auth';
+
+const NOW_MS = Date.UTC(2026, 9, 18, 12, 0, 0);
+const NOW_S = String(NOW_MS / 1000);
+
+describe('verifyWebhookSignature', () => {
+  const body = '{"convex_quote_id":"cq-1"}';
+
+  it('accepts a signature from any configured secret', () => {
+    for (const secret of ['new', 'old']) {
+      const result = verifyWebhookSignature({
+        rawBody: body,
+        timestamp: NOW_S,
+        signature: signWebhookPayload(secret, NOW_S, body),
+        secrets: ['new', 'old'],
+        nowMs: NOW_MS,
+      });
+      expect(result).toEqual({ ok: true });
+    }
+  });
+
+  it('rejects a body that was altered after signing', () => {
+    const result = verifyWebhookSignature({
+      rawBody: body.replace('cq-1', 'cq-2'),
+      timestamp: NOW_S,
+      signature: signWebhookPayload('new', NOW_S, body),
+      secrets: ['new'],
+      nowMs: NOW_MS,
+    });
+    expect(result).toEqual({ ok: false, reason: 'mismatch' });
+  });
+
+  it('reports missing headers, malformed and stale timestamps', () => {
+    const base = { rawBody: body, secrets: ['new'], nowMs: NOW_MS };
+    expect(verifyWebhookSignature({ ...base, timestamp: null, signature: 'v1=abc' }))
+      .toEqual({ ok: false, reason: 'missing_signature' });
+    expect(verifyWebhookSignature({ ...base, timestamp: 'yesterday', signature: 'v1=abc' }))
+      .toEqual({ ok: false, reason: 'invalid_timestamp' });
+
+    const stale = String(NOW_MS / 1000 - 301);
+    expect(verifyWebhookSignature({ ...base, timestamp: stale, signature: signWebhookPayload('new', stale, body) }))
+      .toEqual({ ok: false, reason: 'outside_tolerance' });
+  });
+
+  it('rejects the same signature twice within the window', () => {
+    const guard = new ReplayGuard();
+    const input = {
+      rawBody: body,
+      timestamp: NOW_S,
+      signature: signWebhookPayload('new', NOW_S, body),
+      secrets: ['new'],
+      replayGuard: guard,
+    };
+    expect(verifyWebhookSignature({ ...input, nowMs: NOW_MS }).ok).toBe(true);
+    expect(verifyWebhookSignature({ ...input, nowMs: NOW_MS + 1000 })).toEqual({ ok: false, reason: 'replayed' });
+  });
+});
+
+describe('RateLimiter', () => {
+  it('spends one token per unit of cost and refills over time', () => {
+    const limiter = new RateLimiter(10, 2);
+    expect(limiter.take('ip', 10, NOW_MS).allowed).toBe(true);
+
+    const denied = limiter.take('ip', 4, NOW_MS);
+    expect(denied).toEqual({ allowed: false, retryAfterSeconds: 2 });
+
+    expect(limiter.take('ip', 4, NOW_MS + 2000).allowed).toBe(true);
+  });
+
+  it('keeps separate buckets per key', () => {
+    const limiter = new RateLimiter(1, 1);
+    expect(limiter.take('a', 1, NOW_MS).allowed).toBe(true);
+    expect(limiter.take('a', 1, NOW_MS).allowed).toBe(false);
+    expect(limiter.take('b', 1, NOW_MS).allowed).toBe(true);
+  });
+});
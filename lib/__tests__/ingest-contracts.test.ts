@@ -0,0 +1,136 @@
+// @vitest-environment node
+import { describe, it, expect, vi } from 'vitest';
+import {
+  QMS_DEAL_CONTRACT,
+  WEB_EVENT_CONTRACT,
+  recordDeadLetters,
+  validateAgainstContract,
+} from '../ingest-contracts';
+
+const WEB_EVENT = {
+  event_type: 'conversion',
+  page_url: 'https://quote.neonsignsdepot.com',
+  visitor_id: 'v-1',
+  session_id: 's-1',
+};
+
+const QMS_DEAL = {
+  convex_quote_id: 'cq-1',
+  quote_number: 'Q-1001',
+  quote_activity: 'Deposit Paid',
+  created_at: '2026-10-01T12:00:00Z',
+  updated_at: '2026-10-02T12:00:00Z',
+  total_price_cents: 214400,
+};
+
+describe('validateAgainstContract — web-event', () => {
+  it('accepts a minimal valid event', () => {
+    expect(validateAgainstContract(WEB_EVENT_CONTRACT, WEB_EVENT)).toEqual({ valid: true });
+  });
+
+  it('rejects non-object bodies', () => {
+    expect(validateAgainstContract(WEB_EVENT_CONTRACT, [WEB_EVENT])).toMatchObject({ valid: false, field: null });
+    expect(validateAgainstContract(WEB_EVENT_CONTRACT, 'x')).toMatchObject({ valid: false, field: null });
+  });
+
+  it('reports the first missing required field', () => {
+    const result = validateAgainstContract(WEB_EVENT_CONTRACT, { ...WEB_EVENT, visitor_id: '  ' });
+    expect(result).toEqual({ valid: false, field: 'visitor_id', error: 'Missing or empty required field: visitor_id' });
+  });
+
+  it('rejects unknown event_type values', () => {
+    const result = validateAgainstContract(WEB_EVENT_CONTRACT, { ...WEB_EVENT, event_type: 'gtm.dom' });
+    expect(result).toMatchObject({ valid: false, field: 'event_type' });
+  });
+
+  it("accepts the 'other' catch-all the GTM tag sends for unmapped events", () => {
+    const result = validateAgainstContract(WEB_EVENT_CONTRACT, {
+      ...WEB_EVENT,
+      event_type: 'other',
+      event_data: { raw_event: 'gtm.scrollDepth' },
+    });
+    expect(result).toEqual({ valid: true });
+  });
+
+  it('rejects event_data that is not a JSON object', () => {
+    const result = validateAgainstContract(WEB_EVENT_CONTRACT, { ...WEB_EVENT, event_data: ['a'] });
+    expect(result).toMatchObject({ valid: false, field: 'event_data' });
+    if (!result.valid) expect(result.error).toMatch(/array/);
+  });
+
+  it('rejects oversized event_data', () => {
+    const result = validateAgainstContract(WEB_EVENT_CONTRACT, {
+      ...WEB_EVENT,
+      event_data: { blob: 'x'.repeat(20000) },
+    });
+    expect(result).toMatchObject({ valid: false, field: 'event_data' });
+  });
+
+  it('allows null for optional nullable fields', () => {
+    expect(validateAgainstContract(WEB_EVENT_CONTRACT, { ...WEB_EVENT, origin_page: null, referrer: null }).valid).toBe(true);
+  });
+
+  it('ignores fields that are not in the contract', () => {
+    expect(validateAgainstContract(WEB_EVENT_CONTRACT, { ...WEB_EVENT, extra: 1 }).valid).toBe(true);
+  });
+});
+
+describe('validateAgainstContract — qms-deal', () => {
+  it('accepts a valid lifecycle event', () => {
+    expect(validateAgainstContract(QMS_DEAL_CONTRACT, QMS_DEAL).valid).toBe(true);
+  });
+
+  it('rejects unknown quote_activity values', () => {
+    const result = validateAgainstContract(QMS_DEAL_CONTRACT, { ...QMS_DEAL, quote_activity: 'Shipped?' });
+    expect(result).toMatchObject({ valid: false, field: 'quote_activity' });
+  });
+
+  it('rejects fractional, negative or stringly cents', () => {
+    for (const total_price_cents of [10.5, -1, '21440']) {
+      const result = validateAgainstContract(QMS_DEAL_CONTRACT, { ...QMS_DEAL, total_price_cents });
+      expect(result).toMatchObject({ valid: false, field: 'total_price_cents' });
+    }
+  });
+
+  it('rejects invalid timestamps', () => {
+    const result = validateAgainstContract(QMS_DEAL_CONTRACT, { ...QMS_DEAL, deposit_paid_at: 'yesterday' });
+    expect(result).toEqual({ valid: false, field: 'deposit_paid_at', error: 'Invalid timestamp for deposit_paid_at' });
+  });
+
+  it('rejects out-of-range discount percentages', () => {
+    const result = validateAgainstContract(QMS_DEAL_CONTRACT, { ...QMS_DEAL, discount_percentage: 150 });
+    expect(result).toMatchObject({ valid: false, field: 'discount_percentage' });
+  });
+});
+
+describe('recordDeadLetters', () => {
+  it('writes all entries in one insert', async () => {
+    const query = vi.fn().mockResolvedValue({ rowCount: 2 });
+    await recordDeadLetters({ query }, [
+      { endpoint: 'web-event', reason: 'a', field: 'event_type', payload: { x: 1 } },
+      { endpoint: 'web-event', reason: 'b', field: null, payload: 'not json', sourceIp: '1.2.3.4' },
+    ]);
+    expect(query).toHaveBeenCalledTimes(1);
+    const [sql, values] = query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO analytics.ingest_dead_letter');
+    expect(values).toHaveLength(10);
+    expect(JSON.parse(values[8])).toEqual({ raw: 'not json' });
+    expect(values[9]).toBe('1.2.3.4');
+  });
+
+  it('does nothing for an empty list', async () => {
+    const query = vi.fn();
+    await recordDeadLetters({ query }, []);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('swallows write failures', async () => {
+    const query = vi.fn().mockRejectedValue(new Error('relation does not exist'));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await expect(recordDeadLetters({ query }, [
+      { endpoint: 'qms-deal', reason: 'a', field: null, payload: {} },
+    ])).resolves.toBeUndefined();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,45 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildSourceFreshness } from '../ingestion-freshness';
+
+const NOW = new Date('2026-10-18T09:00:00Z');
+const SOURCES = [
+  { source: 'ga4-events', label: 'GA4 events' },
+  { source: 'google-ads', label: 'Google Ads' },
+];
+
+describe('buildSourceFreshness', () => {
+  it('fills missing days with zero rows and reports them as gaps', () => {
+    const [ga4] = buildSourceFreshness(SOURCES, [
+      { source: 'ga4-events', day: '2026-10-14', rows: 120 },
+      { source: 'ga4-events', day: '2026-10-16', rows: 80 },
+      { source: 'ga4-events', day: '2026-10-17', rows: 95 },
+    ], 5, NOW);
+
+    expect(ga4.days.map((d) => [d.date, d.rows])).toEqual([
+      ['2026-10-14', 120],
+      ['2026-10-15', 0],
+      ['2026-10-16', 80],
+      ['2026-10-17', 95],
+      ['2026-10-18', 0],
+    ]);
+    expect(ga4.gap_dates).toEqual(['2026-10-15']);
+    expect(ga4.last_data_date).toBe('2026-10-17');
+    expect(ga4.yesterday_complete).toBe(true);
+  });
+
+  it('flags yesterday as incomplete when it has no rows', () => {
+    const [, ads] = buildSourceFreshness(SOURCES, [
+      { source: 'google-ads', day: '2026-10-16', rows: 12 },
+    ], 3, NOW);
+
+    expect(ads.yesterday_complete).toBe(false);
+    expect(ads.gap_dates).toEqual(['2026-10-17']);
+  });
+
+  it('marks unreadable sources unavailable instead of reporting every day as a gap', () => {
+    const [ga4] = buildSourceFreshness(SOURCES, [], 7, NOW, new Set(['ga4-events']));
+
+    expect(ga4).toMatchObject({ available: false, days: [], gap_dates: [], yesterday_complete: false });
+  });
+});
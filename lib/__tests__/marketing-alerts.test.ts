@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  alertWindow,
+  densifySeries,
+  evaluateAlertRule,
+  lastValueZScore,
+  previousAlertWindow,
+  type MarketingAlertRule,
+} from '../marketing-alerts';
+
+const NOW = new Date('2026-10-18T08:00:00Z');
+
+function rule(overrides: Partial<MarketingAlertRule>): MarketingAlertRule {
+  return {
+    id: 'test-rule',
+    name: 'Test rule',
+    metric: 'submissions',
+    condition: 'threshold',
+    operator: 'below',
+    threshold: 1,
+    windowDays: 7,
+    severity: 'warning',
+    channels: ['webhook'],
+    cooldownHours: 24,
+    ...overrides,
+  };
+}
+
+function result(opts: { submissions?: number; previous?: number; sessions?: { date: string; value: number }[] }) {
+  return {
+    kpis: { total_submissions: opts.submissions ?? 0, sessions: 0 },
+    comparisons: {
+      total_submissions: { current: opts.submissions ?? 0, previous: opts.previous ?? 0 },
+      sessions: { current: 0, previous: 0 },
+    },
+    timeseries: { sessions: opts.sessions ?? [], submissions: [] },
+  } as any;
+}
+
+describe('alertWindow', () => {
+  it('ends yesterday (UTC) and spans the requested number of days', () => {
+    expect(alertWindow(7, NOW)).toEqual({ startDate: '2026-10-11', endDate: '2026-10-17' });
+    expect(alertWindow(1, NOW)).toEqual({ startDate: '2026-10-17', endDate: '2026-10-17' });
+  });
+
+  it('returns the same-length window immediately before', () => {
+    expect(previousAlertWindow({ startDate: '2026-10-11', endDate: '2026-10-17' }))
+      .toEqual({ startDate: '2026-10-04', endDate: '2026-10-10' });
+  });
+});
+
+describe('densifySeries', () => {
+  it('fills days with no row with zero', () => {
+    const values = densifySeries(
+      [{ date: '2026-10-15', value: 4 }, { date: '2026-10-17T00:00:00Z', value: 6 }],
+      { startDate: '2026-10-14', endDate: '2026-10-17' },
+    );
+    expect(values).toEqual([0, 4, 0, 6]);
+  });
+});
+
+describe('lastValueZScore', () => {
+  it('returns null with too little history or a flat series', () => {
+    expect(lastValueZScore([1, 2, 3])).toBeNull();
+    expect(lastValueZScore([5, 5, 5, 5, 5, 5, 5, 5, 1])).toBeNull();
+  });
+});
+
+describe('evaluateAlertRule', () => {
+  const window = { startDate: '2026-10-11', endDate: '2026-10-17' };
+
+  it('fires a threshold rule when the window total crosses the threshold', () => {
+    const evaluation = evaluateAlertRule(rule({ threshold: 1 }), result({ submissions: 0 }), window);
+    expect(evaluation.fired).toBe(true);
+    expect(evaluation.observed).toBe(0);
+
+    expect(evaluateAlertRule(rule({ threshold: 1 }), result({ submissions: 3 }), window).fired).toBe(false);
+  });
+
+  it('fires a pct_change rule on a drop beyond the threshold fraction', () => {
+    const r = rule({ condition: 'pct_change', threshold: -0.3 });
+    const evaluation = evaluateAlertRule(r, result({ submissions: 6, previous: 10 }), window);
+    expect(evaluation.fired).toBe(true);
+    expect(evaluation.observed).toBeCloseTo(-0.4);
+    expect(evaluation.baseline).toBe(10);
+    expect(evaluation.message).toContain('down 40%');
+
+    expect(evaluateAlertRule(r, result({ submissions: 8, previous: 10 }), window).fired).toBe(false);
+  });
+
+  it('does not fire a pct_change rule when the previous window is zero', () => {
+    const evaluation = evaluateAlertRule(rule({ condition: 'pct_change', threshold: -0.3 }), result({ submissions: 0, previous: 0 }), window);
+    expect(evaluation.fired).toBe(false);
+    expect(evaluation.observed).toBeNull();
+    expect(evaluation.message).toContain('not enough data');
+  });
+
+  it('fires a zscore rule when the last day is far below the earlier days', () => {
+    const days = ['2026-10-04', '2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09', '2026-10-10', '2026-10-11'];
+    const sessions = days.map((date, i) => ({ date, value: 100 + (i % 2 === 0 ? 5 : -5) }));
+    sessions.push({ date: '2026-10-12', value: 20 });
+    const r = rule({ metric: 'sessions', condition: 'zscore', threshold: -2, windowDays: 9 });
+
+    const evaluation = evaluateAlertRule(r, result({ sessions }), { startDate: '2026-10-04', endDate: '2026-10-12' });
+    expect(evaluation.fired).toBe(true);
+    expect(evaluation.observed).toBeLessThan(-2);
+    expect(evaluation.baseline).toBeCloseTo(100);
+  });
+});
@@ -0,0 +1,112 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  ANOMALY_METRICS,
+  addDays,
+  attributeAnomaly,
+  detectSeriesAnomalies,
+  historyStart,
+  seasonalBaseline,
+  type DailyValue,
+} from '../marketing-anomalies';
+
+const SESSIONS = ANOMALY_METRICS.find((m) => m.metric === 'sessions')!;
+
+// 2026-09-05 is a Saturday.
+const START = '2026-09-01';
+const END = '2026-09-14';
+
+/** Weekdays around 100, weekends around 20, with a little week-to-week noise. */
+function weeklyPattern(from: string, to: string, overrides: Record<string, number> = {}): DailyValue[] {
+  const rows: DailyValue[] = [];
+  let i = 0;
+  for (let d = from; d <= to; d = addDays(d, 1), i++) {
+    const dow = new Date(`${d}T00:00:00Z`).getUTCDay();
+    const base = dow === 0 || dow === 6 ? 20 : 100;
+    rows.push({ date: d, value: overrides[d] ?? base + ((i % 3) - 1) * 3 });
+  }
+  return rows;
+}
+
+describe('seasonalBaseline', () => {
+  it('uses same-weekday history when there are enough samples', () => {
+    const values = new Map(weeklyPattern(historyStart(START), END).map((r) => [r.date, r.value]));
+    const saturday = seasonalBaseline(values, '2026-09-05')!;
+    const wednesday = seasonalBaseline(values, '2026-09-09')!;
+
+    expect(saturday.kind).toBe('weekday');
+    expect(saturday.expected).toBeGreaterThan(15);
+    expect(saturday.expected).toBeLessThan(25);
+    expect(wednesday.expected).toBeGreaterThan(95);
+  });
+
+  it('falls back to the trailing window when weekday history is short, and to null below that', () => {
+    const short = new Map(weeklyPattern('2026-08-20', END).map((r) => [r.date, r.value]));
+    expect(seasonalBaseline(short, '2026-09-09')!.kind).toBe('trailing');
+    expect(seasonalBaseline(new Map([['2026-09-08', 10]]), '2026-09-09')).toBeNull();
+  });
+});
+
+describe('detectSeriesAnomalies', () => {
+  it('does not flag ordinary weekend lows', () => {
+    const { anomalies, series } = detectSeriesAnomalies(SESSIONS, weeklyPattern(historyStart(START), END), START, END);
+    expect(anomalies).toEqual([]);
+    expect(series.points).toHaveLength(14);
+    expect(series.points.every((p) => p.lower != null && p.upper != null)).toBe(true);
+  });
+
+  it('distinguishes drops from spikes and reports the band', () => {
+    const rows = weeklyPattern(historyStart(START), END, { '2026-09-09': 30, '2026-09-12': 90 });
+    const { anomalies, series } = detectSeriesAnomalies(SESSIONS, rows, START, END);
+
+    const drop = anomalies.find((a) => a.date === '2026-09-09')!;
+    expect(drop.direction).toBe('drop');
+    expect(drop.value).toBe(30);
+    expect(drop.value).toBeLessThan(drop.lower);
+    expect(drop.z_score).toBeLessThan(-2);
+    expect(drop.deviation_pct).toBeLessThan(-0.6);
+    expect(drop.baseline).toBe('weekday');
+
+    const spike = anomalies.find((a) => a.date === '2026-09-12')!;
+    expect(spike.direction).toBe('spike');
+    expect(spike.severity).toBe('high');
+    expect(series.anomaly_count).toBe(2);
+    expect(series.points.find((p) => p.date === '2026-09-12')!.anomaly).toBe('spike');
+  });
+
+  it('treats days after the last loaded date as missing, not as a drop', () => {
+    const rows = weeklyPattern(historyStart(START), '2026-09-11');
+    const { anomalies, series } = detectSeriesAnomalies(SESSIONS, rows, START, END);
+
+    expect(anomalies).toEqual([]);
+    const lagging = series.points.filter((p) => p.value == null).map((p) => p.date);
+    expect(lagging).toEqual(['2026-09-12', '2026-09-13', '2026-09-14']);
+  });
+});
+
+describe('attributeAnomaly', () => {
+  it('names the key that explains most of the deviation', () => {
+    const rows = weeklyPattern(historyStart(START), END, { '2026-09-09': 30 });
+    const drop = detectSeriesAnomalies(SESSIONS, rows, START, END).anomalies[0];
+
+    const breakdown = [];
+    for (let w = 0; w <= 8; w++) {
+      const date = addDays('2026-09-09', -7 * w);
+      breakdown.push({ date, key: 'Organic Search', value: w === 0 ? 5 : 70 });
+      breakdown.push({ date, key: 'Direct', value: w === 0 ? 25 : 30 });
+    }
+
+    const driver = attributeAnomaly(drop, 'channel', breakdown)!;
+    expect(driver.key).toBe('Organic Search');
+    expect(driver.dimension).toBe('channel');
+    expect(driver.share).toBeGreaterThan(0.8);
+  });
+
+  it('returns null when no key moved in the direction of the anomaly', () => {
+    const rows = weeklyPattern(historyStart(START), END, { '2026-09-09': 30 });
+    const drop = detectSeriesAnomalies(SESSIONS, rows, START, END).anomalies[0];
+    const flat = [{ date: '2026-09-09', key: '/pricing/', value: 10 }, { date: '2026-09-02', key: '/pricing/', value: 10 }];
+
+    expect(attributeAnomaly(drop, 'landing_page', flat)).toBeNull();
+  });
+});
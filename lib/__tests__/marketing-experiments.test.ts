@@ -0,0 +1,79 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { computeLift, measurementIsStale, measurementWindows, validateExperimentInput } from '../marketing-experiments';
+
+const NOW = new Date('2026-10-18T08:00:00Z');
+
+describe('measurementWindows', () => {
+  it('compares a finished experiment with the equal-length window before it', () => {
+    expect(measurementWindows('2026-09-08', '2026-09-21', NOW)).toEqual({
+      experiment: { start: '2026-09-08', end: '2026-09-21' },
+      baseline: { start: '2026-08-25', end: '2026-09-07' },
+    });
+  });
+
+  it('clips a running experiment to yesterday', () => {
+    const w = measurementWindows('2026-10-10', null, NOW)!;
+    expect(w.experiment).toEqual({ start: '2026-10-10', end: '2026-10-17' });
+    expect(w.baseline).toEqual({ start: '2026-10-02', end: '2026-10-09' });
+    expect(measurementWindows('2026-10-10', '2026-12-31', NOW)!.experiment.end).toBe('2026-10-17');
+  });
+
+  it('returns null before the first complete day', () => {
+    expect(measurementWindows('2026-10-18', null, NOW)).toBeNull();
+  });
+});
+
+describe('measurementIsStale', () => {
+  const base = { engine: 'SEO Summary', start_date: '2026-10-10', end_date: null };
+
+  it('is stale while a running experiment has not been measured through yesterday', () => {
+    expect(measurementIsStale({ ...base, measured_end: '2026-10-16' }, NOW)).toBe(true);
+    expect(measurementIsStale({ ...base, measured_end: '2026-10-17' }, NOW)).toBe(false);
+  });
+
+  it('picks up an experiment created before its first complete day', () => {
+    const sameDay = { ...base, start_date: '2026-10-17', measured_end: null };
+    expect(measurementIsStale(sameDay, new Date('2026-10-17T12:00:00Z'))).toBe(false);
+    expect(measurementIsStale(sameDay, NOW)).toBe(true);
+  });
+
+  it('is settled once a finished experiment is measured to its end date, and for unmeasured engines', () => {
+    expect(measurementIsStale({ ...base, end_date: '2026-10-12', measured_end: '2026-10-12' }, NOW)).toBe(false);
+    expect(measurementIsStale({ ...base, engine: 'Cold Outreach', measured_end: null }, NOW)).toBe(false);
+  });
+});
+
+describe('computeLift', () => {
+  it('returns percent change to one decimal, and null for a zero baseline', () => {
+    expect(computeLift(40, 50)).toBe(25);
+    expect(computeLift(30, 20)).toBe(-33.3);
+    expect(computeLift(0, 5)).toBeNull();
+  });
+});
+
+describe('validateExperimentInput', () => {
+  const valid = { name: ' New hero copy ', engine: 'SEO Summary', start_date: '2026-10-01' };
+
+  it('fills defaults on create and ignores client-supplied lift', () => {
+    const parsed = validateExperimentInput({ ...valid, result_lift: 99 }, false);
+    expect(parsed).toEqual({
+      value: {
+        name: 'New hero copy', engine: 'SEO Summary', target_metric: 'quotes', start_date: '2026-10-01',
+        end_date: null, decision: 'pending', hypothesis: '', change_made: '', notes: null, owner: null,
+      },
+    });
+  });
+
+  it('rejects unknown engines, bad dates and reversed ranges', () => {
+    expect(validateExperimentInput({ ...valid, engine: 'Billboards' }, false)).toHaveProperty('error');
+    expect(validateExperimentInput({ ...valid, start_date: '10/01/2026' }, false)).toHaveProperty('error');
+    expect(validateExperimentInput({ ...valid, end_date: '2026-09-30' }, false)).toHaveProperty('error');
+    expect(validateExperimentInput({ ...valid, target_metric: 'bounce_rate' }, false)).toHaveProperty('error');
+  });
+
+  it('only returns the fields present on update', () => {
+    expect(validateExperimentInput({ decision: 'keep' }, true)).toEqual({ value: { decision: 'keep' } });
+    expect(validateExperimentInput({ end_date: '' }, true)).toEqual({ value: { end_date: null } });
+  });
+});
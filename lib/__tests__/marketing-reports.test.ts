@@ -0,0 +1,126 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  checkReportSchedule,
+  nextReportRun,
+  previousPeriodRange,
+  reportFilename,
+  reportPeriodRange,
+  validateReportScheduleInput,
+  type ReportScheduleInput,
+} from '../marketing-reports';
+import { buildCSV } from '../exportDocuments';
+
+const SUNDAY = new Date('2026-10-18T10:00:00Z');
+const MONDAY = new Date('2026-10-19T10:00:00Z');
+
+describe('reportPeriodRange', () => {
+  it('covers the last complete Monday–Sunday week', () => {
+    expect(reportPeriodRange('previous_week', MONDAY)).toEqual({ start: '2026-10-12', end: '2026-10-18' });
+    // Sent on a Sunday, the current week is not complete yet.
+    expect(reportPeriodRange('previous_week', SUNDAY)).toEqual({ start: '2026-10-05', end: '2026-10-11' });
+  });
+
+  it('covers calendar months and trailing windows ending yesterday', () => {
+    expect(reportPeriodRange('previous_month', SUNDAY)).toEqual({ start: '2026-09-01', end: '2026-09-30' });
+    expect(reportPeriodRange('month_to_date', SUNDAY)).toEqual({ start: '2026-10-01', end: '2026-10-17' });
+    expect(reportPeriodRange('month_to_date', new Date('2026-11-01T10:00:00Z'))).toEqual({ start: '2026-10-01', end: '2026-10-31' });
+    expect(reportPeriodRange('last_7d', SUNDAY)).toEqual({ start: '2026-10-11', end: '2026-10-17' });
+    expect(reportPeriodRange('last_30d', SUNDAY)).toEqual({ start: '2026-09-18', end: '2026-10-17' });
+  });
+
+  it('derives the same-length previous range', () => {
+    expect(previousPeriodRange({ start: '2026-10-12', end: '2026-10-18' })).toEqual({ start: '2026-10-05', end: '2026-10-11' });
+    expect(previousPeriodRange({ start: '2026-09-01', end: '2026-09-30' })).toEqual({ start: '2026-08-02', end: '2026-08-31' });
+  });
+});
+
+describe('nextReportRun', () => {
+  it('returns the next matching day strictly after the given time', () => {
+    const weekly = { cadence: 'weekly' as const, weekday: 1, day_of_month: null };
+    expect(nextReportRun(weekly, SUNDAY).toISOString()).toBe('2026-10-19T00:00:00.000Z');
+    expect(nextReportRun(weekly, MONDAY).toISOString()).toBe('2026-10-26T00:00:00.000Z');
+
+    const monthly = { cadence: 'monthly' as const, weekday: null, day_of_month: 18 };
+    expect(nextReportRun(monthly, SUNDAY).toISOString()).toBe('2026-11-18T00:00:00.000Z');
+    expect(nextReportRun({ ...monthly, day_of_month: 1 }, SUNDAY).toISOString()).toBe('2026-11-01T00:00:00.000Z');
+  });
+});
+
+describe('validateReportScheduleInput', () => {
+  const body = {
+    name: '  Weekly operator digest ',
+    dashboard: 'operator_hub',
+    period: 'previous_week',
+    cadence: 'weekly',
+    weekday: 1,
+    formats: ['pdf', 'csv', 'pdf'],
+    delivery: ['email'],
+    recipients: ['Ops@Example.com', 'ops@example.com', 'cmo@example.com'],
+  };
+
+  it('normalizes a create body and fills defaults', () => {
+    expect(validateReportScheduleInput(body, false)).toEqual({
+      value: {
+        name: 'Weekly operator digest',
+        dashboard: 'operator_hub',
+        period: 'previous_week',
+        cadence: 'weekly',
+        weekday: 1,
+        day_of_month: null,
+        formats: ['pdf', 'csv'],
+        delivery: ['email'],
+        recipients: ['ops@example.com', 'cmo@example.com'],
+        enabled: true,
+      },
+    });
+  });
+
+  it('rejects unknown values and bad recipients', () => {
+    expect(validateReportScheduleInput({ ...body, dashboard: 'paid_ads' }, false)).toHaveProperty('error');
+    expect(validateReportScheduleInput({ ...body, formats: ['xlsx'] }, false)).toHaveProperty('error');
+    expect(validateReportScheduleInput({ ...body, delivery: [] }, false)).toHaveProperty('error');
+    expect(validateReportScheduleInput({ ...body, day_of_month: 31 }, false)).toHaveProperty('error');
+    expect(validateReportScheduleInput({ ...body, recipients: ['not-an-email'] }, false)).toHaveProperty('error');
+  });
+
+  it('only returns the fields a partial update sets', () => {
+    expect(validateReportScheduleInput({ enabled: false }, true)).toEqual({ value: { enabled: false } });
+  });
+
+  it('checks cross-field rules on the merged schedule', () => {
+    const merged = (validateReportScheduleInput(body, false) as { value: ReportScheduleInput }).value;
+    expect(checkReportSchedule(merged)).toBeNull();
+    expect(checkReportSchedule({ ...merged, recipients: [] })).toMatch(/recipient/);
+    expect(checkReportSchedule({ ...merged, cadence: 'monthly' })).toMatch(/day_of_month/);
+  });
+});
+
+describe('report files', () => {
+  it('names files by dashboard and period', () => {
+    expect(reportFilename('seo_north_star', { start: '2026-10-12', end: '2026-10-18' }, 'csv'))
+      .toBe('seo-north-star_2026-10-12_2026-10-18.csv');
+  });
+
+  it('renders sections to CSV the same way the dashboard export does', () => {
+    const csv = buildCSV([
+      { type: 'kpis', title: 'Summary', items: [{ label: 'Quotes', value: 12 }] },
+      {
+        type: 'table',
+        title: 'Engines',
+        columns: [{ key: 'name', label: 'Engine' }, { key: 'note', label: 'Note' }],
+        rows: [{ name: 'SEO', note: 'up, "strong"' }],
+      },
+    ]);
+    expect(csv.split('\n')).toEqual([
+      '"Summary"',
+      '"Metric","Value"',
+      '"Quotes","12"',
+      '',
+      '"Engines"',
+      '"Engine","Note"',
+      '"SEO","up, ""strong"""',
+      '',
+    ]);
+  });
+});
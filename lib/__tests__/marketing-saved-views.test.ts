@@ -0,0 +1,68 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  isShareSlug,
+  savedViewHref,
+  shareSlugFromBytes,
+  validateSavedViewInput,
+  validateViewState,
+} from '../marketing-saved-views';
+
+describe('validateViewState', () => {
+  it('normalizes a partial state onto the dashboard defaults', () => {
+    const r = validateViewState({ path: '/dashboard/marketing/seo/', filters: { channel: ' organic ', bogus: 'x', geo: '' } });
+    expect(r).toEqual({
+      value: {
+        path: '/dashboard/marketing/seo',
+        period: { mode: 'preset', preset: 'monthly', start: '', end: '', compare: true, include_timeseries: false, view: 'operator' },
+        comparison_mode: 'prev',
+        filters: { channel: 'organic' },
+      },
+    });
+  });
+
+  it('rejects paths outside the marketing dashboards and bad ranges', () => {
+    expect(validateViewState({ path: '/dashboard/sales' })).toHaveProperty('error');
+    expect(validateViewState({ path: '/dashboard/marketing/../seo' })).toHaveProperty('error');
+    expect(validateViewState({ period: { mode: 'range', start: '2026-10-01' } })).toHaveProperty('error');
+    expect(validateViewState({ period: { mode: 'range', start: '2026-10-10', end: '2026-10-01' } })).toHaveProperty('error');
+  });
+});
+
+describe('validateSavedViewInput', () => {
+  it('requires name and state on create and defaults scope and is_default', () => {
+    expect(validateSavedViewInput({ state: {} }, false)).toEqual({ error: 'name is required' });
+    const r = validateSavedViewInput({ name: '  Paid weekly ', state: {} }, false);
+    expect(r).toMatchObject({ value: { name: 'Paid weekly', scope: 'user', is_default: false } });
+  });
+
+  it('only carries the fields present on update', () => {
+    expect(validateSavedViewInput({ is_default: true }, true)).toEqual({ value: { is_default: true } });
+    expect(validateSavedViewInput({ scope: 'org' }, true)).toHaveProperty('error');
+    expect(validateSavedViewInput({ is_default: 'yes' }, true)).toHaveProperty('error');
+  });
+});
+
+describe('savedViewHref', () => {
+  it('reproduces the state in the query string the layout reads', () => {
+    const { value } = validateViewState({
+      path: '/dashboard/marketing/paid-ads',
+      period: { mode: 'range', start: '2026-09-01', end: '2026-09-30', compare: false, view: 'executive' },
+      comparison_mode: 'mom',
+      filters: { channel: 'paid', campaign: 'Fall sale' },
+    }) as { value: Parameters<typeof savedViewHref>[0] };
+    expect(savedViewHref(value)).toBe(
+      '/dashboard/marketing/paid-ads?start=2026-09-01&end=2026-09-30&compare=false&view=executive&comparison=mom&channel=paid&campaign=Fall+sale',
+    );
+  });
+});
+
+describe('share slugs', () => {
+  it('encodes one base62 character per byte', () => {
+    const slug = shareSlugFromBytes(new Uint8Array([0, 10, 36, 61, 62, 255]));
+    expect(slug).toBe('0aAZ07');
+    expect(isShareSlug(slug)).toBe(true);
+    expect(isShareSlug('abc')).toBe(false);
+    expect(isShareSlug('abc-def-ghi')).toBe(false);
+  });
+});
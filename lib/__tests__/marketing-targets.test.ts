@@ -0,0 +1,65 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { monthsInRange, resolveTarget, validateTargetUpdates } from '../marketing-targets';
+import type { MarketingTarget } from '../../types/activity-spine';
+
+function stored(metric: MarketingTarget['metric'], month: string, value: number): MarketingTarget {
+  return { metric, month, value, updated_by: 'ops@example.com', updated_at: '2026-10-01T00:00:00Z' };
+}
+
+describe('resolveTarget', () => {
+  it('uses the default for a whole month without a stored value', () => {
+    const t = resolveTarget([], 'sessions', '2026-09-01', '2026-09-30')!;
+    expect(t.total).toBe(10000);
+    expect(t.daily).toBeCloseTo(10000 / 30);
+    expect(t.prorated).toBe(false);
+  });
+
+  it('prorates a partial month and mixes months with their own targets', () => {
+    const targets = [stored('sessions', '2026-10-01', 31000), stored('sessions', '2026-11-01', 6000)];
+    const partial = resolveTarget(targets, 'sessions', '2026-10-01', '2026-10-10')!;
+    expect(partial.total).toBeCloseTo(10000);
+    expect(partial.prorated).toBe(true);
+
+    // 2 days of October (1,000/day) + 3 days of November (200/day).
+    const spanning = resolveTarget(targets, 'sessions', '2026-10-30', '2026-11-03')!;
+    expect(spanning.total).toBeCloseTo(2600);
+    expect(spanning.daily).toBeCloseTo(520);
+    expect(spanning.monthly).toBe(6000);
+    expect(spanning.months.map((m) => [m.month, m.days, m.stored])).toEqual([
+      ['2026-10-01', 2, true],
+      ['2026-11-01', 3, true],
+    ]);
+  });
+
+  it('averages rate targets by day instead of prorating them', () => {
+    const targets = [stored('roas', '2026-11-01', 5)];
+    const t = resolveTarget(targets, 'roas', '2026-10-30', '2026-11-03')!;
+    expect(t.total).toBeCloseTo((3 * 2 + 5 * 3) / 5);
+    expect(t.daily).toBe(t.total);
+  });
+
+  it('returns null for unknown metrics', () => {
+    expect(resolveTarget([], 'bounce_rate', '2026-10-01', '2026-10-31')).toBeNull();
+  });
+});
+
+describe('monthsInRange', () => {
+  it('crosses year boundaries', () => {
+    expect(monthsInRange('2026-12-15', '2027-02-01')).toEqual(['2026-12-01', '2027-01-01', '2027-02-01']);
+  });
+});
+
+describe('validateTargetUpdates', () => {
+  it('normalises months and accepts null to clear a value', () => {
+    expect(validateTargetUpdates({ targets: [{ metric: 'clicks', month: '2026-11', value: 4000 }, { metric: 'roas', month: '2026-12-01', value: null }] }))
+      .toEqual({ value: [{ metric: 'clicks', month: '2026-11-01', value: 4000 }, { metric: 'roas', month: '2026-12-01', value: null }] });
+  });
+
+  it('rejects unknown metrics, bad months and negative values', () => {
+    expect(validateTargetUpdates({ targets: [{ metric: 'leads', month: '2026-11', value: 1 }] })).toHaveProperty('error');
+    expect(validateTargetUpdates({ targets: [{ metric: 'clicks', month: '2026-13', value: 1 }] })).toHaveProperty('error');
+    expect(validateTargetUpdates({ targets: [{ metric: 'clicks', month: '2026-11', value: -1 }] })).toHaveProperty('error');
+    expect(validateTargetUpdates({ targets: [] })).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,77 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { computeStageTransitions, summarizeStageDurations } from '../qms-stage-durations';
+
+const ev = (quote_activity: string, occurred_at: string, last_event: string | null = null) => ({
+  quote_activity,
+  occurred_at,
+  last_event,
+});
+
+describe('computeStageTransitions', () => {
+  it('turns ordered events into transitions with durations', () => {
+    const transitions = computeStageTransitions([
+      ev('Quote Submitted', '2026-10-01T00:00:00Z'),
+      ev('Deposit Paid', '2026-10-04T12:00:00Z'),
+      ev('Quote Paid', '2026-10-10T00:00:00Z'),
+    ]);
+
+    expect(transitions.map((t) => [t.stage, t.from_stage, t.duration_days])).toEqual([
+      ['Quote Submitted', null, 3.5],
+      ['Deposit Paid', 'Quote Submitted', 5.5],
+      ['Quote Paid', 'Deposit Paid', 0],
+    ]);
+    expect(transitions[2].is_current).toBe(true);
+    expect(transitions[2].exited_at).toBeNull();
+  });
+
+  it('sorts out-of-order events before computing transitions', () => {
+    const transitions = computeStageTransitions([
+      ev('Deposit Paid', '2026-10-04T00:00:00Z'),
+      ev('Quote Submitted', '2026-10-01T00:00:00Z'),
+    ], new Date('2026-10-05T00:00:00Z'));
+
+    expect(transitions.map((t) => t.stage)).toEqual(['Quote Submitted', 'Deposit Paid']);
+  });
+
+  it('folds same-status events into the stage in progress', () => {
+    const transitions = computeStageTransitions([
+      ev('Awaiting Deposit', '2026-10-01T00:00:00Z'),
+      ev('Awaiting Deposit', '2026-10-03T00:00:00Z', 'followup_sent'),
+      ev('Deposit Paid', '2026-10-05T00:00:00Z'),
+    ], new Date('2026-10-06T00:00:00Z'));
+
+    expect(transitions).toHaveLength(2);
+    expect(transitions[0]).toMatchObject({ stage: 'Awaiting Deposit', duration_days: 4, event_count: 2 });
+  });
+
+  it('measures an open stage up to now', () => {
+    const transitions = computeStageTransitions(
+      [ev('Mockups In Review', '2026-10-01T00:00:00Z')],
+      new Date('2026-10-03T06:00:00Z'),
+    );
+    expect(transitions[0]).toMatchObject({ duration_days: 2.3, is_current: true });
+  });
+
+  it('ignores events with unparseable timestamps', () => {
+    expect(computeStageTransitions([ev('Quote Submitted', 'garbage')])).toEqual([]);
+  });
+});
+
+describe('summarizeStageDurations', () => {
+  it('sums repeat visits to the same stage', () => {
+    const transitions = computeStageTransitions([
+      ev('Revisions Requested', '2026-10-01T00:00:00Z'),
+      ev('Revisions Adjusted', '2026-10-02T00:00:00Z'),
+      ev('Revisions Requested', '2026-10-03T00:00:00Z'),
+      ev('Revisions Adjusted', '2026-10-05T00:00:00Z'),
+      ev('Quote Paid', '2026-10-06T00:00:00Z'),
+    ]);
+
+    expect(summarizeStageDurations(transitions)).toEqual([
+      { stage: 'Revisions Requested', total_days: 3, entries: 2 },
+      { stage: 'Revisions Adjusted', total_days: 2, entries: 2 },
+      { stage: 'Quote Paid', total_days: 0, entries: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildQuoteCohorts, cohortStart, defaultCohortRangeStart, type CohortQuote } from '../quote-cohorts';
+
+function quote(partial: Partial<CohortQuote> & { created_at: string }): CohortQuote {
+  return {
+    deposit_paid_at: null,
+    quote_paid_at: null,
+    total_price_cents: 100000,
+    utm_source: null,
+    utm_medium: null,
+    referrer: null,
+    landing_page: null,
+    ...partial,
+  };
+}
+
+describe('cohortStart', () => {
+  it('starts weeks on Monday and months on the 1st, in UTC', () => {
+    expect(cohortStart(new Date('2026-04-05T23:30:00Z'), 'week').toISOString()).toBe('2026-03-30T00:00:00.000Z');
+    expect(cohortStart(new Date('2026-04-06T00:00:00Z'), 'week').toISOString()).toBe('2026-04-06T00:00:00.000Z');
+    expect(cohortStart(new Date('2026-04-17T12:00:00Z'), 'month').toISOString()).toBe('2026-04-01T00:00:00.000Z');
+  });
+
+  it('defaults the range to the 26th most recent week / 6th most recent month', () => {
+    const now = new Date('2026-10-18T12:00:00Z');
+    expect(defaultCohortRangeStart('week', now)).toBe('2026-04-20');
+    expect(defaultCohortRangeStart('month', now)).toBe('2026-05-01');
+  });
+});
+
+describe('buildQuoteCohorts', () => {
+  const now = new Date('2026-06-15T00:00:00Z');
+  const quotes = [
+    // Week of 2026-04-06, Google Ads
+    quote({ created_at: '2026-04-06T10:00:00Z', landing_page: '/custom?gclid=abc', deposit_paid_at: '2026-04-10T10:00:00Z', quote_paid_at: '2026-04-25T10:00:00Z', total_price_cents: 250000 }),
+    quote({ created_at: '2026-04-07T10:00:00Z', utm_source: 'google', utm_medium: 'cpc' }),
+    // Week of 2026-04-06, organic — paid in full with no separate deposit
+    quote({ created_at: '2026-04-08T10:00:00Z', referrer: 'https://www.google.com/', quote_paid_at: '2026-05-20T10:00:00Z', total_price_cents: 80000 }),
+    // Week of 2026-06-01 — too young for day 14+
+    quote({ created_at: '2026-06-01T10:00:00Z', deposit_paid_at: '2026-06-03T10:00:00Z' }),
+  ];
+
+  it('totals each period across groups and splits it by source group', () => {
+    const result = buildQuoteCohorts(quotes, 'week', { start: '2026-04-01', end: '2026-06-14' }, now);
+
+    expect(result.source_groups).toEqual(['google_ads', 'organic', 'direct']);
+    expect(result.rows.map((r) => `${r.cohort_start}:${r.source_group}`)).toEqual([
+      '2026-06-01:all',
+      '2026-06-01:direct',
+      '2026-04-06:all',
+      '2026-04-06:google_ads',
+      '2026-04-06:organic',
+    ]);
+
+    const april = result.rows.find((r) => r.cohort_start === '2026-04-06' && r.source_group === 'all')!;
+    expect(april).toMatchObject({
+      quotes: 3,
+      quoted_value_usd: 4300,
+      deposit_paid_quotes: 2,
+      quote_paid_quotes: 2,
+      paid_revenue_usd: 3300,
+    });
+  });
+
+  it('reports cumulative rates at each milestone, counting full payment as a deposit', () => {
+    const result = buildQuoteCohorts(quotes, 'week', { start: '2026-04-01', end: '2026-06-14' }, now);
+    const april = result.rows.find((r) => r.cohort_start === '2026-04-06' && r.source_group === 'all')!;
+
+    expect(april.milestones.map((m) => m.deposit_paid_rate)).toEqual([0.3333, 0.3333, 0.3333, 0.6667]);
+    expect(april.milestones.map((m) => m.quote_paid_rate)).toEqual([0, 0, 0.3333, 0.6667]);
+
+    const ads = result.rows.find((r) => r.cohort_start === '2026-04-06' && r.source_group === 'google_ads')!;
+    expect(ads.milestones.map((m) => m.deposit_paid_rate)).toEqual([0.5, 0.5, 0.5, 0.5]);
+  });
+
+  it('leaves milestones the cohort has not reached as null', () => {
+    const result = buildQuoteCohorts(quotes, 'week', { start: '2026-04-01', end: '2026-06-14' }, now);
+    const june = result.rows.find((r) => r.cohort_start === '2026-06-01' && r.source_group === 'all')!;
+
+    expect(june.milestones.map((m) => m.matured)).toEqual([true, false, false, false]);
+    expect(june.milestones.map((m) => m.deposit_paid_rate)).toEqual([1, null, null, null]);
+  });
+
+  it('groups by calendar month', () => {
+    const result = buildQuoteCohorts(quotes, 'month', { start: '2026-04-01', end: '2026-06-14' }, now);
+    expect(result.rows.filter((r) => r.source_group === 'all').map((r) => [r.cohort_start, r.quotes])).toEqual([
+      ['2026-06-01', 1],
+      ['2026-04-01', 3],
+    ]);
+  });
+});
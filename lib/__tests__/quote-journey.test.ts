@@ -0,0 +1,94 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { buildJourneySessions, buildJourneyTimeline, type JourneyWebEvent } from '../quote-journey';
+import { computeStageTransitions } from '../qms-stage-durations';
+
+function ev(partial: Partial<JourneyWebEvent> & { occurred_at: string }): JourneyWebEvent {
+  return {
+    visitor_id: 'v1',
+    session_id: null,
+    event_type: 'page_view',
+    page_url: null,
+    page_title: null,
+    referrer: null,
+    utm_source: null,
+    utm_medium: null,
+    utm_campaign: null,
+    gclid: null,
+    gbraid: null,
+    wbraid: null,
+    quote_id: null,
+    ...partial,
+  };
+}
+
+describe('buildJourneySessions', () => {
+  const events = [
+    ev({ session_id: 's2', occurred_at: '2026-04-08T10:00:00Z', page_url: 'https://neonsignsdepot.com/custom/?gclid=abc&utm_campaign=brand' }),
+    ev({ session_id: 's1', occurred_at: '2026-04-01T09:00:00Z', page_url: 'https://neonsignsdepot.com/', referrer: 'https://www.google.com/' }),
+    ev({ session_id: 's1', occurred_at: '2026-04-01T09:05:00Z', page_url: 'https://neonsignsdepot.com/pricing/' }),
+    ev({ session_id: 's2', occurred_at: '2026-04-08T10:12:00Z', event_type: 'conversion', quote_id: 'q1', page_url: 'https://quote.neonsignsdepot.com/' }),
+  ];
+
+  it('groups by session_id, oldest first, with landing page, channel and page sequence', () => {
+    const sessions = buildJourneySessions(events, 'q1');
+    expect(sessions).toHaveLength(2);
+
+    expect(sessions[0]).toMatchObject({
+      session_id: 's1',
+      landing_page: 'https://neonsignsdepot.com/',
+      channel: 'organic',
+      click_id: null,
+      converted: false,
+    });
+    expect(sessions[0].pages.map((p) => p.page_url)).toEqual([
+      'https://neonsignsdepot.com/',
+      'https://neonsignsdepot.com/pricing/',
+    ]);
+
+    expect(sessions[1]).toMatchObject({
+      session_id: 's2',
+      channel: 'google_ads',
+      click_id: 'gclid',
+      utm_campaign: 'brand',
+      converted: true,
+      ended_at: '2026-04-08T10:12:00.000Z',
+    });
+  });
+
+  it('splits session-less events on a 30-minute gap', () => {
+    const sessions = buildJourneySessions([
+      ev({ occurred_at: '2026-04-01T09:00:00Z' }),
+      ev({ occurred_at: '2026-04-01T09:20:00Z' }),
+      ev({ occurred_at: '2026-04-01T10:00:00Z' }),
+    ], 'q1');
+    expect(sessions.map((s) => s.pages.length)).toEqual([2, 1]);
+  });
+
+  it('does not mark a session converted for another quote', () => {
+    const sessions = buildJourneySessions([
+      ev({ session_id: 's1', occurred_at: '2026-04-01T09:00:00Z', event_type: 'conversion', quote_id: 'other' }),
+    ], 'q1');
+    expect(sessions[0].converted).toBe(false);
+  });
+});
+
+describe('buildJourneyTimeline', () => {
+  it('interleaves session starts, conversions and status changes by time', () => {
+    const sessions = buildJourneySessions([
+      ev({ session_id: 's1', occurred_at: '2026-04-01T09:00:00Z' }),
+      ev({ session_id: 's1', occurred_at: '2026-04-01T09:10:00Z', event_type: 'conversion', quote_id: 'q1' }),
+      ev({ session_id: 's2', occurred_at: '2026-04-03T12:00:00Z' }),
+    ], 'q1');
+    const transitions = computeStageTransitions([
+      { quote_activity: 'Quote Submitted', last_event: null, occurred_at: '2026-04-01T09:11:00Z' },
+      { quote_activity: 'Quote Paid', last_event: null, occurred_at: '2026-04-04T08:00:00Z' },
+    ], new Date('2026-04-10T00:00:00Z'));
+
+    const timeline = buildJourneyTimeline(sessions, transitions);
+    expect(timeline.map((t) => t.kind)).toEqual(['session', 'conversion', 'status', 'session', 'status']);
+    expect(timeline[2]).toMatchObject({ stage: 'Quote Submitted', from_stage: null, is_current: false });
+    expect(timeline[4]).toMatchObject({ stage: 'Quote Paid', from_stage: 'Quote Submitted', is_current: true });
+    expect(timeline[1]).toMatchObject({ session_index: 0, quote_id: 'q1' });
+  });
+});
@@ -60,50 +60,19 @@
  * - All event writes go through emitActivityEvent()
  */
 
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from './db';
 
 // ============================================================================
-// Connection Pool
+// Database Handle (shared pools, lib/db.ts)
 // ============================================================================
 
-let pool: Pool | null = null;
-
-/**
- * Get or create the connection pool for activity schema access.
- * Uses DATABASE_URL with SSL for secure connections.
- */
-function getPool(): Pool {
-  if (!pool) {
-    const databaseUrl = process.env.DATABASE_URL;
-    
-    if (!databaseUrl) {
-      throw new Error('DATABASE_URL is not configured. Required for activity.events writes.');
-    }
-
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: {
-        rejectUnauthorized: false, // Required for Supabase/cloud Postgres
-      },
-      max: 5, // Small pool for serverless
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-
-    // Log connection errors
-    pool.on('error', (err) => {
-      console.error('[activity-db] Pool error:', err);
-    });
-  }
-
-  return pool;
-}
+const db = getDb('activity-db', { role: 'write', database: 'core' });
 
 /**
  * Check if the activity database is configured.
  */
 export function isActivityDbConfigured(): boolean {
-  return Boolean(process.env.DATABASE_URL);
+  return isDbConfigured('core');
 }
 
 // ============================================================================
@@ -223,8 +192,6 @@ export interface ActivityEvent {
  * @throws Error if database write fails
  */
 export async function emitActivityEvent(event: ActivityEvent): Promise<void> {
-  const pool = getPool();
-
   // Generate event ID in application code.
   // IMPORTANT: The id column does NOT have a DEFAULT value.
   // We MUST provide a UUID to avoid NOT NULL constraint violation.
@@ -252,7 +219,7 @@ export async function emitActivityEvent(event: ActivityEvent): Promise<void> {
   ];
 
   try {
-    await pool.query(query, values);
+    await db.query(query, values);
     console.log(`[activity-db] Emitted event: ${event.event_type} (id: ${eventId}, entity: ${event.entity_type}/${event.entity_id})`);
   } catch (error) {
     console.error(`[activity-db] Failed to emit event ${event.event_type}:`, error);
@@ -324,7 +291,6 @@ export async function getLatestRunEvent(
   campaignId: string,
   eventTypes: string[]
 ): Promise<StoredEvent | null> {
-  const pool = getPool();
 
   // Query uses entity_type column for efficient filtering,
   // plus payload->>'campaignId' for campaign correlation
@@ -339,7 +305,7 @@ export async function getLatestRunEvent(
   `;
 
   try {
-    const result = await pool.query(query, [campaignId, eventTypes]);
+    const result = await db.query(query, [campaignId, eventTypes]);
     if (result.rows.length === 0) {
       return null;
     }
@@ -361,7 +327,6 @@ export async function getRunStartedEvents(
   campaignId: string,
   limit: number = 50
 ): Promise<StoredEvent[]> {
-  const pool = getPool();
 
   const query = `
     SELECT id, event_type, entity_type, entity_id, payload, created_at
@@ -374,7 +339,7 @@ export async function getRunStartedEvents(
   `;
 
   try {
-    const result = await pool.query(query, [campaignId, limit]);
+    const result = await db.query(query, [campaignId, limit]);
     return result.rows as StoredEvent[];
   } catch (error) {
     console.error(`[activity-db] Failed to get run started events:`, error);
@@ -397,8 +362,6 @@ export async function getCompletionEvents(
     return [];
   }
 
-  const pool = getPool();
-
   // Use entity_id (which is the runId) for efficient filtering
   const query = `
     SELECT id, event_type, entity_type, entity_id, payload, created_at
@@ -410,7 +373,7 @@ export async function getCompletionEvents(
   `;
 
   try {
-    const result = await pool.query(query, [campaignId, runIds]);
+    const result = await db.query(query, [campaignId, runIds]);
     return result.rows as StoredEvent[];
   } catch (error) {
     console.error(`[activity-db] Failed to get completion events:`, error);
@@ -429,7 +392,6 @@ export async function getStageCompletedEvents(
   campaignId: string,
   limit: number = 10
 ): Promise<StoredEvent[]> {
-  const pool = getPool();
 
   const query = `
     SELECT id, event_type, entity_type, entity_id, payload, created_at
@@ -442,7 +404,7 @@ export async function getStageCompletedEvents(
   `;
 
   try {
-    const result = await pool.query(query, [campaignId, limit]);
+    const result = await db.query(query, [campaignId, limit]);
     return result.rows as StoredEvent[];
   } catch (error) {
     console.error(`[activity-db] Failed to get stage completed events:`, error);
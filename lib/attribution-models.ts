@@ -0,0 +1,230 @@
+/**
+ * Multi-touch Attribution Models — touchpoint channels and credit weights.
+ *
+ * A paid quote's journey is the sessions its visitor had before converting
+ * (services/multiTouchAttribution.ts builds them from raw_web_events); each
+ * session is one touchpoint, classified into a channel from its UTM tags,
+ * click IDs and referrer. A model splits the quote's revenue across the
+ * touchpoints:
+ *
+ *   first_touch     — 100% to the first session
+ *   last_touch      — 100% to the converting session
+ *   linear          — equal shares
+ *   time_decay      — halves every TIME_DECAY_HALF_LIFE_DAYS before conversion
+ *   position_based  — 40% first, 40% last, 20% across the middle
+ *
+ * The ODS views (metrics.source_to_paid_funnel, channel_revenue_daily) stay
+ * the single-source record; these models are computed here, for comparison.
+ */
+
+import type { AttributionModel } from '../types/attribution';
+
+export const ATTRIBUTION_MODELS: Array<{ id: AttributionModel; label: string; description: string }> = [
+  { id: 'first_touch', label: 'First touch', description: 'All credit to the session that first brought the visitor in.' },
+  { id: 'last_touch', label: 'Last touch', description: 'All credit to the session the quote was submitted in.' },
+  { id: 'linear', label: 'Linear', description: 'Credit split equally across every session in the journey.' },
+  { id: 'time_decay', label: 'Time decay', description: 'Sessions closer to the conversion get more credit; weight halves every 7 days.' },
+  { id: 'position_based', label: 'Position based', description: '40% to the first session, 40% to the last, 20% shared by the sessions between.' },
+];
+
+export const TIME_DECAY_HALF_LIFE_DAYS = 7;
+export const POSITION_BASED_WEIGHTS = { first: 0.4, middle: 0.2, last: 0.4 };
+
+export const DEFAULT_LOOKBACK_DAYS = 90;
+export const MAX_LOOKBACK_DAYS = 365;
+
+const DAY_MS = 86_400_000;
+
+// ============================================
+// Channels
+// ============================================
+
+export const ATTRIBUTION_CHANNELS = [
+  'google_ads',
+  'paid_social',
+  'paid_other',
+  'organic',
+  'social',
+  'email',
+  'referral',
+  'direct',
+] as const;
+
+export type AttributionChannel = (typeof ATTRIBUTION_CHANNELS)[number];
+
+export const ATTRIBUTION_CHANNEL_LABELS: Record<AttributionChannel, string> = {
+  google_ads: 'Google Ads',
+  paid_social: 'Paid social',
+  paid_other: 'Other paid',
+  organic: 'Organic search',
+  social: 'Organic social',
+  email: 'Email',
+  referral: 'Referral',
+  direct: 'Direct',
+};
+
+const PAID_MEDIUMS = new Set(['cpc', 'ppc', 'paid', 'paidsearch', 'paid_search', 'paid-search', 'paid_social', 'paid-social', 'paidsocial', 'cpm', 'display', 'cpv']);
+const EMAIL_MEDIUMS = new Set(['email', 'e-mail', 'newsletter']);
+const SEARCH_HOSTS = ['google', 'bing', 'yahoo', 'duckduckgo', 'baidu', 'yandex', 'ecosia', 'aol'];
+const SOCIAL_HOSTS = ['facebook', 'fb', 'instagram', 'linkedin', 'lnkd', 'twitter', 't', 'x', 'tiktok', 'pinterest', 'youtube', 'reddit'];
+const OWN_HOSTS = ['neonsignsdepot.com'];
+
+export interface TouchSignals {
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  gclid?: string | null;
+  gbraid?: string | null;
+  wbraid?: string | null;
+  referrer?: string | null;
+}
+
+/** UTM tags and click IDs from a landing URL's query string, for events that carry them only there. */
+export function touchSignalsFromUrl(pageUrl: string | null | undefined): TouchSignals {
+  if (!pageUrl) return {};
+  let params: URLSearchParams;
+  try {
+    params = new URL(pageUrl, 'https://placeholder.invalid').searchParams;
+  } catch {
+    return {};
+  }
+  return {
+    utm_source: params.get('utm_source'),
+    utm_medium: params.get('utm_medium'),
+    gclid: params.get('gclid'),
+    gbraid: params.get('gbraid'),
+    wbraid: params.get('wbraid'),
+  };
+}
+
+function clean(v: string | null | undefined): string {
+  return (v ?? '').trim().toLowerCase();
+}
+
+function hostOf(value: string): string {
+  return value.replace(/^[a-z]+:\/\//, '').replace(/[/?#:].*$/, '').replace(/^www\./, '').replace(/^m\./, '');
+}
+
+/** True when `host` is `name` or `name.<tld>` (google.com, google.co.uk, t.co). */
+function hostIs(host: string, names: string[]): boolean {
+  return names.some((n) => host === n || host.startsWith(`${n}.`) || host.endsWith(`.${n}.com`));
+}
+
+export function classifyTouch(s: TouchSignals): AttributionChannel {
+  if (clean(s.gclid) || clean(s.gbraid) || clean(s.wbraid)) return 'google_ads';
+
+  const source = hostOf(clean(s.utm_source));
+  const medium = clean(s.utm_medium);
+
+  if (PAID_MEDIUMS.has(medium)) {
+    if (hostIs(source, ['google', 'adwords', 'googleads'])) return 'google_ads';
+    if (hostIs(source, SOCIAL_HOSTS) || medium.includes('social')) return 'paid_social';
+    return 'paid_other';
+  }
+  if (EMAIL_MEDIUMS.has(medium) || EMAIL_MEDIUMS.has(source)) return 'email';
+  if (medium === 'organic') return 'organic';
+  if (medium === 'social') return 'social';
+
+  if (source && source !== 'direct' && source !== '(direct)') {
+    if (hostIs(source, SEARCH_HOSTS)) return 'organic';
+    if (hostIs(source, SOCIAL_HOSTS)) return 'social';
+    if (!hostIs(source, OWN_HOSTS)) return 'referral';
+  }
+
+  const referrer = hostOf(clean(s.referrer));
+  if (referrer && !OWN_HOSTS.some((h) => referrer === h || referrer.endsWith(`.${h}`))) {
+    if (hostIs(referrer, SEARCH_HOSTS)) return 'organic';
+    if (hostIs(referrer, SOCIAL_HOSTS)) return 'social';
+    return 'referral';
+  }
+  return 'direct';
+}
+
+// ============================================
+// Weights
+// ============================================
+
+/**
+ * Credit per touchpoint (oldest first) under `model`; sums to 1.
+ * `touchTimes` and `convertedAt` are epoch ms and only matter for time_decay.
+ */
+export function attributionWeights(model: AttributionModel, touchTimes: number[], convertedAt: number): number[] {
+  const n = touchTimes.length;
+  if (n === 0) return [];
+  if (n === 1) return [1];
+
+  switch (model) {
+    case 'first_touch':
+      return touchTimes.map((_, i) => (i === 0 ? 1 : 0));
+    case 'last_touch':
+      return touchTimes.map((_, i) => (i === n - 1 ? 1 : 0));
+    case 'linear':
+      return touchTimes.map(() => 1 / n);
+    case 'time_decay': {
+      const raw = touchTimes.map((t) => Math.pow(0.5, Math.max(0, convertedAt - t) / (TIME_DECAY_HALF_LIFE_DAYS * DAY_MS)));
+      const total = raw.reduce((a, b) => a + b, 0);
+      return raw.map((w) => w / total);
+    }
+    case 'position_based': {
+      if (n === 2) return [0.5, 0.5];
+      const middle = POSITION_BASED_WEIGHTS.middle / (n - 2);
+      return touchTimes.map((_, i) => (i === 0 ? POSITION_BASED_WEIGHTS.first : i === n - 1 ? POSITION_BASED_WEIGHTS.last : middle));
+    }
+  }
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+export interface AttributionJourney {
+  revenue_cents: number;
+  /** Epoch ms of the conversion; the last touchpoint's time when unknown. */
+  converted_at: number;
+  /** Oldest first; never empty. */
+  touchpoints: Array<{ at: number; channel: AttributionChannel }>;
+}
+
+export interface ModelChannelTotals {
+  channel: AttributionChannel;
+  credited_quotes: number;
+  paid_revenue_cents: number;
+}
+
+/**
+ * Whole cents per channel that still add up to the model's total: floor every
+ * share, then hand the leftover cents to the largest remainders.
+ */
+function roundToTotal(rows: ModelChannelTotals[]): ModelChannelTotals[] {
+  const total = Math.round(rows.reduce((s, r) => s + r.paid_revenue_cents, 0));
+  const floored = rows.map((r) => ({ ...r, paid_revenue_cents: Math.floor(r.paid_revenue_cents), rem: r.paid_revenue_cents % 1 }));
+  let leftover = total - floored.reduce((s, r) => s + r.paid_revenue_cents, 0);
+  for (const r of [...floored].sort((a, b) => b.rem - a.rem)) {
+    if (leftover <= 0) break;
+    r.paid_revenue_cents += 1;
+    leftover--;
+  }
+  return floored.map(({ rem: _rem, ...r }) => r);
+}
+
+/** Per model, per channel credited quotes and revenue, highest revenue first. */
+export function attributeJourneys(journeys: AttributionJourney[]): Record<AttributionModel, ModelChannelTotals[]> {
+  const out = {} as Record<AttributionModel, ModelChannelTotals[]>;
+
+  for (const { id: model } of ATTRIBUTION_MODELS) {
+    const totals: Partial<Record<AttributionChannel, ModelChannelTotals>> = {};
+    for (const journey of journeys) {
+      const weights = attributionWeights(model, journey.touchpoints.map((t) => t.at), journey.converted_at);
+      journey.touchpoints.forEach((touch, i) => {
+        if (weights[i] === 0) return;
+        const row = totals[touch.channel] ?? (totals[touch.channel] = { channel: touch.channel, credited_quotes: 0, paid_revenue_cents: 0 });
+        row.credited_quotes += weights[i];
+        row.paid_revenue_cents += weights[i] * journey.revenue_cents;
+      });
+    }
+    out[model] = roundToTotal(Object.values(totals))
+      .map((r) => ({ ...r, credited_quotes: Math.round(r.credited_quotes * 100) / 100 }))
+      .sort((a, b) => b.paid_revenue_cents - a.paid_revenue_cents || a.channel.localeCompare(b.channel));
+  }
+
+  return out;
+}
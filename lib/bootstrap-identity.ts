@@ -0,0 +1,136 @@
+/**
+ * Bootstrap Identity — who is making an API request, resolved server-side.
+ *
+ * The dashboard authenticates against the ODS bootstrap endpoint (/me, see
+ * lib/sdk.ts getMe). API routes that need a real identity forward the
+ * caller's Authorization and Cookie headers to that same endpoint and use
+ * the user and permissions it returns. The bootstrap response stays the sole
+ * authority: tokens are passed verbatim, never parsed here.
+ *
+ * The identity resolved here may be used for authorization and for audit
+ * columns (created_by / updated_by).
+ *
+ * Successful lookups are cached per credential for a short TTL so a bulk
+ * review does not hit /me once per request.
+ */
+
+import type { BootstrapOrganization, BootstrapResponse, BootstrapUser } from '../types/bootstrap';
+
+export interface RequestIdentity {
+  user: BootstrapUser;
+  /** The caller's organization, when bootstrap returns one. */
+  organization: Pick<BootstrapOrganization, 'id' | 'name'> | null;
+  permissions: string[];
+}
+
+/**
+ * The caller as seen by owner-or-team records (saved views, campaign
+ * templates): a record is visible to its owner and, when shared, to the
+ * owner's organization.
+ */
+export interface RequestViewer {
+  userId: string;
+  email: string | null;
+  /** Bootstrap organization id; null when bootstrap returned none. */
+  teamId: string | null;
+}
+
+export type AuthorizeResult =
+  | { ok: true; identity: RequestIdentity }
+  | { ok: false; status: 401 | 403; error: string };
+
+const IDENTITY_TIMEOUT_MS = 5000;
+const IDENTITY_CACHE_TTL_MS = 60000;
+const IDENTITY_CACHE_MAX = 500;
+
+const identityCache = new Map<string, { identity: RequestIdentity; expires: number }>();
+
+interface IdentityRequest {
+  headers: Headers;
+  nextUrl: { origin: string };
+}
+
+function bootstrapUrl(origin: string): string {
+  const base = process.env.ODS_API_URL || process.env.NEXT_PUBLIC_ODS_API_URL || '/functions/v1/ods-api';
+  return new URL(`${base.replace(/\/$/, '')}/me`, origin).toString();
+}
+
+function toIdentity(body: Partial<BootstrapResponse> | null): RequestIdentity | null {
+  const user = body?.user;
+  if (!user || typeof user.id !== 'string' || user.id === '') return null;
+  const org = body?.organization;
+  return {
+    user: { id: user.id, email: String(user.email ?? ''), name: String(user.name ?? '') },
+    organization: org && typeof org.id === 'string' && org.id !== ''
+      ? { id: org.id, name: String(org.name ?? '') }
+      : null,
+    permissions: Array.isArray(body?.permissions) ? body!.permissions.filter((p) => typeof p === 'string') : [],
+  };
+}
+
+/**
+ * The bootstrap identity for the request's credentials, or null when there
+ * are none, the bootstrap endpoint rejects them, or it returns no user.
+ */
+export async function resolveRequestIdentity(
+  req: IdentityRequest,
+  nowMs: number = Date.now(),
+): Promise<RequestIdentity | null> {
+  const authorization = req.headers.get('authorization');
+  const cookie = req.headers.get('cookie');
+  const cacheKey = `${authorization ?? ''}\n${cookie ?? ''}`;
+
+  const cached = identityCache.get(cacheKey);
+  if (cached && cached.expires > nowMs) return cached.identity;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (authorization) headers['Authorization'] = authorization;
+  if (cookie) headers['Cookie'] = cookie;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), IDENTITY_TIMEOUT_MS);
+  try {
+    const res = await fetch(bootstrapUrl(req.nextUrl.origin), {
+      headers,
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+    if (!res.ok) return null;
+    const identity = toIdentity(await res.json().catch(() => null));
+    if (identity) {
+      if (identityCache.size >= IDENTITY_CACHE_MAX) identityCache.clear();
+      identityCache.set(cacheKey, { identity, expires: nowMs + IDENTITY_CACHE_TTL_MS });
+    }
+    return identity;
+  } catch (err) {
+    console.error('[bootstrap-identity] Error:', err instanceof Error ? err.message : String(err));
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Resolves the caller and checks that bootstrap granted them `permission`. */
+export async function authorizeRequest(req: IdentityRequest, permission: string): Promise<AuthorizeResult> {
+  const identity = await resolveRequestIdentity(req);
+  if (!identity) {
+    return { ok: false, status: 401, error: 'Authentication required' };
+  }
+  if (!identity.permissions.includes(permission)) {
+    return { ok: false, status: 403, error: `Missing permission: ${permission}` };
+  }
+  return { ok: true, identity };
+}
+
+export function viewerFromIdentity(identity: RequestIdentity): RequestViewer {
+  return {
+    userId: identity.user.id,
+    email: identity.user.email || null,
+    teamId: identity.organization?.id ?? null,
+  };
+}
+
+/** Test hook: forget cached identities. */
+export function clearIdentityCache(): void {
+  identityCache.clear();
+}
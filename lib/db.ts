@@ -0,0 +1,232 @@
+/**
+ * Database — shared Postgres access for API routes, services and cron jobs.
+ *
+ * Every server-side caller gets a handle from getDb() instead of creating its
+ * own pg.Pool. Handles are cheap and tagged with the calling route or job;
+ * the pools behind them are shared per process, one per (database, role):
+ *
+ *   database  'analytics' — SUPABASE_DATABASE_URL || DATABASE_URL (default)
+ *             'core'      — DATABASE_URL || POSTGRES_URL (campaign / activity)
+ *   role      'read'      — sessions default to read-only transactions
+ *             'write'     — read-write, longer statement timeout
+ *
+ * When both databases resolve to the same URL they share the same pools, so
+ * a serverless instance holds at most READ_POOL_MAX + WRITE_POOL_MAX
+ * connections instead of one pool per route.
+ *
+ * Each query is prefixed with a comment naming its tag (visible in
+ * pg_stat_activity and pg_stat_statements) and timed; queries slower than
+ * DB_SLOW_QUERY_MS (default 1000) are logged with their tag.
+ *
+ * Tests replace the pools with setTestDb(createFakeDb(...)) so routes can be
+ * exercised without a live database.
+ */
+
+import { Pool, type PoolClient, type PoolConfig, type QueryResult, type QueryResultRow } from 'pg';
+
+export type DbRole = 'read' | 'write';
+export type DbDatabase = 'analytics' | 'core';
+
+export interface DbQueryable {
+  query<R extends QueryResultRow = any>(text: string, values?: unknown[]): Promise<QueryResult<R>>;
+}
+
+/** A connection checked out for a transaction; release() it in finally. */
+export interface DbClient extends DbQueryable {
+  release(err?: Error | boolean): void;
+}
+
+/** What services need from a handle; a pg.Pool satisfies it too. */
+export interface DbPool extends DbQueryable {
+  connect(): Promise<DbClient>;
+}
+
+export interface Db extends DbPool {
+  readonly tag: string;
+  readonly role: DbRole;
+  readonly database: DbDatabase;
+}
+
+export interface DbOptions {
+  role?: DbRole;
+  database?: DbDatabase;
+}
+
+const READ_POOL_MAX = 10;
+const WRITE_POOL_MAX = 3;
+const READ_STATEMENT_TIMEOUT_MS = 15000;
+const WRITE_STATEMENT_TIMEOUT_MS = 60000;
+const DEFAULT_SLOW_QUERY_MS = 1000;
+const SLOW_QUERY_SQL_CHARS = 200;
+
+const pools = new Map<string, Pool>();
+let testDb: ((tag: string, role: DbRole, database: DbDatabase) => Db) | null = null;
+
+export function databaseUrl(database: DbDatabase = 'analytics'): string | undefined {
+  return database === 'core'
+    ? process.env.DATABASE_URL || process.env.POSTGRES_URL
+    : process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
+}
+
+export function isDbConfigured(database: DbDatabase = 'analytics'): boolean {
+  return Boolean(databaseUrl(database));
+}
+
+function usesSsl(url: string): boolean {
+  if (/sslmode=disable/i.test(url)) return false;
+  return !/@(localhost|127\.0\.0\.1)(:\d+)?\//.test(url);
+}
+
+export function poolConfig(url: string, role: DbRole): PoolConfig {
+  return {
+    connectionString: url,
+    ssl: usesSsl(url) ? { rejectUnauthorized: false } : undefined,
+    max: role === 'read' ? READ_POOL_MAX : WRITE_POOL_MAX,
+    idleTimeoutMillis: 30000,
+    connectionTimeoutMillis: 10000,
+    statement_timeout: role === 'read' ? READ_STATEMENT_TIMEOUT_MS : WRITE_STATEMENT_TIMEOUT_MS,
+    ...(role === 'read' ? { options: '-c default_transaction_read_only=on' } : {}),
+  };
+}
+
+function poolFor(role: DbRole, database: DbDatabase): Pool {
+  const url = databaseUrl(database);
+  if (!url) {
+    throw new Error('No database URL configured');
+  }
+  const key = `${role}|${url}`;
+  let pool = pools.get(key);
+  if (!pool) {
+    pool = new Pool(poolConfig(url, role));
+    pool.on('error', (err) => {
+      console.error(`[db] ${role} pool error:`, err);
+    });
+    pools.set(key, pool);
+  }
+  return pool;
+}
+
+function slowQueryMs(): number {
+  const n = Number(process.env.DB_SLOW_QUERY_MS);
+  return Number.isFinite(n) && n > 0 ? n : DEFAULT_SLOW_QUERY_MS;
+}
+
+/** Prefixes the SQL with a comment naming the caller. */
+export function tagSql(tag: string, text: string): string {
+  return `/* ${tag.replace(/\*\//g, '')} */ ${text}`;
+}
+
+async function timedQuery<R extends QueryResultRow>(
+  target: { query: (text: string, values?: unknown[]) => Promise<QueryResult<R>> },
+  tag: string,
+  text: string,
+  values?: unknown[],
+): Promise<QueryResult<R>> {
+  const started = Date.now();
+  try {
+    return await target.query(tagSql(tag, text), values);
+  } finally {
+    const ms = Date.now() - started;
+    if (ms >= slowQueryMs()) {
+      const sql = text.replace(/\s+/g, ' ').trim().slice(0, SLOW_QUERY_SQL_CHARS);
+      console.warn(`[db:${tag}] slow query (${ms}ms): ${sql}`);
+    }
+  }
+}
+
+function wrapClient(client: PoolClient, tag: string): DbClient {
+  return {
+    query: (text, values) => timedQuery(client, tag, text, values),
+    release: (err) => client.release(err),
+  };
+}
+
+/**
+ * A handle for `tag` (the route path or job name, e.g. 'seo/actions').
+ * Safe to create at module scope: nothing connects until the first query.
+ */
+export function getDb(tag: string, options: DbOptions = {}): Db {
+  const role = options.role ?? 'read';
+  const database = options.database ?? 'analytics';
+  const current = () => (testDb ? testDb(tag, role, database) : null);
+  return {
+    tag,
+    role,
+    database,
+    query: async (text, values) => {
+      const fake = current();
+      return fake ? fake.query(text, values) : timedQuery(poolFor(role, database), tag, text, values);
+    },
+    connect: async () => {
+      const fake = current();
+      if (fake) return fake.connect();
+      return wrapClient(await poolFor(role, database).connect(), tag);
+    },
+  };
+}
+
+// =============================================================================
+// Test double
+// =============================================================================
+
+export interface FakeDbCall {
+  tag: string;
+  role: DbRole;
+  text: string;
+  values: unknown[];
+}
+
+type FakeResponse = Partial<QueryResult> | unknown[] | Error | undefined | void;
+
+export interface FakeDb {
+  /** Every query issued through any handle, in order. */
+  calls: FakeDbCall[];
+  /** Number of connect() checkouts not yet released. */
+  openClients: () => number;
+}
+
+/**
+ * An in-memory stand-in for the pools. `respond` sees each query and returns
+ * rows, a partial QueryResult, or an Error to reject with.
+ */
+export function createFakeDb(
+  respond: (text: string, values: unknown[], call: FakeDbCall) => FakeResponse = () => undefined,
+): FakeDb & { factory: (tag: string, role: DbRole, database: DbDatabase) => Db } {
+  const calls: FakeDbCall[] = [];
+  let open = 0;
+
+  const run = async (tag: string, role: DbRole, text: string, values: unknown[] = []): Promise<QueryResult> => {
+    const call = { tag, role, text, values };
+    calls.push(call);
+    const r = respond(text, values, call);
+    if (r instanceof Error) throw r;
+    const rows = Array.isArray(r) ? r : (r?.rows ?? []);
+    const partial = Array.isArray(r) ? {} : (r ?? {});
+    return { command: '', oid: 0, fields: [], ...partial, rows, rowCount: partial.rowCount ?? rows.length } as QueryResult;
+  };
+
+  const factory = (tag: string, role: DbRole, database: DbDatabase): Db => ({
+    tag,
+    role,
+    database,
+    query: (text, values) => run(tag, role, text, values) as Promise<QueryResult<any>>,
+    connect: async () => {
+      open += 1;
+      let released = false;
+      return {
+        query: (text, values) => run(tag, role, text, values) as Promise<QueryResult<any>>,
+        release: () => {
+          if (!released) open -= 1;
+          released = true;
+        },
+      };
+    },
+  });
+
+  return { calls, openClients: () => open, factory };
+}
+
+/** Routes every getDb() handle to `fake` until called again with null. */
+export function setTestDb(fake: { factory: (tag: string, role: DbRole, database: DbDatabase) => Db } | null): void {
+  testDb = fake ? fake.factory : null;
+}
@@ -0,0 +1,322 @@
+/**
+ * Export Workbook — XLSX rendering of ExportSection[].
+ *
+ * One worksheet per table section, with numeric cells and number formats
+ * from ExportColumn.format and a frozen header row, plus a cover sheet with
+ * the title, export time, period, filters and any KPI sections. Written
+ * without a spreadsheet library: SpreadsheetML parts in an uncompressed
+ * (stored) ZIP, which Excel, Numbers, Sheets and LibreOffice all open.
+ */
+
+import type { ExportColumn, ExportMeta, ExportSection, ExportTableSection } from './exportDocuments';
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAX_SHEET_NAME = 31;
+const MIN_COL_WIDTH = 8;
+const MAX_COL_WIDTH = 60;
+
+// cellXfs indexes in STYLES_XML.
+const STYLE = {
+  text: 0,
+  header: 1,
+  currency: 2,
+  percent: 3,
+  integer: 4,
+  decimal: 5,
+  title: 6,
+} as const;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="0.0%"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="14"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+interface Cell {
+  value: string | number | null;
+  style: number;
+}
+
+interface Sheet {
+  name: string;
+  rows: Cell[][];
+  frozenHeader: boolean;
+}
+
+function escapeXml(s: string): string {
+  return s
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let n = index + 1;
+  let out = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    out = String.fromCharCode(65 + rem) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+}
+
+/** A numeric cell for currency / percent / number columns; text otherwise. */
+export function xlsxCell(value: unknown, format?: ExportColumn['format']): Cell {
+  if (value == null || value === '') return { value: null, style: STYLE.text };
+  const num = typeof value === 'number' ? value : Number(value);
+  if (!format || format === 'text' || typeof value === 'boolean' || !Number.isFinite(num)) {
+    return { value: String(value), style: STYLE.text };
+  }
+  switch (format) {
+    case 'currency':
+      return { value: num, style: STYLE.currency };
+    case 'percent':
+      // Sections carry percentages as 0–100 (formatCellValue prints them with a
+      // trailing %); Excel percent cells hold the fraction.
+      return { value: num / 100, style: STYLE.percent };
+    case 'number':
+      return { value: num, style: Number.isInteger(num) ? STYLE.integer : STYLE.decimal };
+  }
+}
+
+/** Excel sheet names: at most 31 chars, none of []:*?/\, unique ignoring case. */
+export function xlsxSheetName(title: string, taken: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_SHEET_NAME) || 'Sheet';
+  let name = base;
+  for (let i = 2; taken.has(name.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    name = `${base.slice(0, MAX_SHEET_NAME - suffix.length)}${suffix}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+function coverSheet(title: string, sections: ExportSection[], meta: ExportMeta | undefined, exportedAt: Date, tableSheets: string[]): Sheet {
+  const text = (value: string, style: number = STYLE.text): Cell => ({ value, style });
+  const rows: Cell[][] = [
+    [text(title, STYLE.title)],
+    [],
+    [text('Exported', STYLE.header), text(exportedAt.toLocaleString('en-US', { year: 'numeric', month: 'long', day: 'numeric', hour: '2-digit', minute: '2-digit' }))],
+  ];
+  if (meta?.dateRange) rows.push([text('Period', STYLE.header), text(meta.dateRange)]);
+  if (meta?.filters) rows.push([text('Filters', STYLE.header), text(meta.filters)]);
+
+  for (const section of sections) {
+    if (section.type !== 'kpis') continue;
+    rows.push([], [text(section.title, STYLE.header)]);
+    for (const item of section.items) {
+      rows.push([text(item.label), typeof item.value === 'number' ? xlsxCell(item.value, 'number') : text(String(item.value))]);
+    }
+  }
+
+  if (tableSheets.length > 0) {
+    rows.push([], [text('Sheets', STYLE.header)]);
+    for (const name of tableSheets) rows.push([text(name)]);
+  }
+
+  return { name: 'Cover', rows, frozenHeader: false };
+}
+
+function tableSheet(section: ExportTableSection, name: string): Sheet {
+  return {
+    name,
+    rows: [
+      section.columns.map((c) => ({ value: c.label, style: STYLE.header })),
+      ...section.rows.map((row) => section.columns.map((c) => xlsxCell(row[c.key], c.format))),
+    ],
+    frozenHeader: true,
+  };
+}
+
+function sheetXml(sheet: Sheet): string {
+  const widths: number[] = [];
+  sheet.rows.forEach((row) => row.forEach((cell, c) => {
+    const len = cell.value == null ? 0 : typeof cell.value === 'number' ? 14 : cell.value.length + 2;
+    widths[c] = Math.max(widths[c] ?? MIN_COL_WIDTH, Math.min(len, MAX_COL_WIDTH));
+  }));
+
+  const cols = widths.length > 0
+    ? `<cols>${widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const view = sheet.frozenHeader
+    ? '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    : '<sheetViews><sheetView workbookViewId="0"/></sheetViews>';
+
+  const rows = sheet.rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnLetter(c)}${r + 1}`;
+      const style = cell.style ? ` s="${cell.style}"` : '';
+      if (cell.value == null) return cell.style ? `<c r="${ref}"${style}/>` : '';
+      if (typeof cell.value === 'number') return `<c r="${ref}"${style}><v>${cell.value}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell.value)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + `${view}${cols}<sheetData>${rows}</sheetData></worksheet>`;
+}
+
+function workbookParts(sheets: Sheet[]): Array<{ path: string; content: string }> {
+  const sheetEntries = sheets.map((s, i) => `<sheet name="${escapeXml(s.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('');
+  const sheetRels = sheets
+    .map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+    .join('');
+  const sheetOverrides = sheets
+    .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+    .join('');
+  const xmlHead = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+  return [
+    {
+      path: '[Content_Types].xml',
+      content: `${xmlHead}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + `${sheetOverrides}</Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      content: `${xmlHead}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: `${xmlHead}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + `<sheets>${sheetEntries}</sheets></workbook>`,
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHead}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetRels}`
+        + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>',
+    },
+    { path: 'xl/styles.xml', content: STYLES_XML },
+    ...sheets.map((s, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(s) })),
+  ];
+}
+
+// ============================================
+// ZIP (stored, no compression)
+// ============================================
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function zipStored(files: Array<{ path: string; content: string }>, modified: Date): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const dosTime = (modified.getHours() << 11) | (modified.getMinutes() << 5) | Math.floor(modified.getSeconds() / 2);
+  const dosDate = ((Math.max(modified.getFullYear(), 1980) - 1980) << 9) | ((modified.getMonth() + 1) << 5) | modified.getDate();
+
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint16(10, dosTime, true);
+    lv.setUint16(12, dosDate, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, dosTime, true);
+    cv.setUint16(14, dosDate, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
+
+/** The workbook's bytes; callers wrap them in a Blob (browser) or Buffer (server). */
+export function buildXLSX(
+  title: string,
+  sections: ExportSection[],
+  meta?: ExportMeta,
+  exportedAt: Date = new Date(),
+): Uint8Array<ArrayBuffer> {
+  const taken = new Set<string>(['cover']);
+  const tables = sections
+    .filter((s): s is ExportTableSection => s.type === 'table')
+    .map((s) => tableSheet(s, xlsxSheetName(s.title, taken)));
+  const sheets = [coverSheet(title, sections, meta, exportedAt, tables.map((t) => t.name)), ...tables];
+  return zipStored(workbookParts(sheets), exportedAt);
+}
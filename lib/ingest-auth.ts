@@ -0,0 +1,154 @@
+/**
+ * Ingest Auth — webhook signature verification and per-source rate limiting
+ *
+ * Signed webhooks (POST /api/ingest/qms-deal):
+ *   X-NSD-Timestamp: <unix seconds>
+ *   X-NSD-Signature: v1=<hex HMAC-SHA256(secret, `${timestamp}.${rawBody}`)>
+ *
+ * The signature is checked against NSD_WEBHOOK_SIGNING_SECRET and, during a
+ * rotation, NSD_WEBHOOK_SIGNING_SECRET_PREVIOUS (same convention as
+ * NSD_AUTH_SIGNING_KEY_PREVIOUS in docs/security/secrets.md). Requests outside
+ * the tolerance window are rejected, and a signature already accepted inside
+ * the window is rejected as a replay.
+ *
+ * The replay guard and rate limiter are in-memory per server instance. They
+ * bound abuse of a single instance; the ingest tables' own dedupe keys
+ * (idempotency_key, the QMS event replay index) remain the durable backstop.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+export const SIGNATURE_HEADER = 'x-nsd-signature';
+export const TIMESTAMP_HEADER = 'x-nsd-timestamp';
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = 'v1';
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+export function getWebhookSigningSecrets(): string[] {
+  return [
+    process.env.NSD_WEBHOOK_SIGNING_SECRET,
+    process.env.NSD_WEBHOOK_SIGNING_SECRET_PREVIOUS,
+  ].filter((s): s is string => typeof s === 'string' && s.trim() !== '');
+}
+
+export function signWebhookPayload(secret: string, timestamp: string | number, rawBody: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+  return `${SIGNATURE_VERSION}=${digest}`;
+}
+
+export type SignatureFailure = 'missing_signature' | 'invalid_timestamp' | 'outside_tolerance' | 'mismatch' | 'replayed';
+
+export type SignatureResult = { ok: true } | { ok: false; reason: SignatureFailure };
+
+function safeEqual(a: string, b: string): boolean {
+  const ab = Buffer.from(a);
+  const bb = Buffer.from(b);
+  return ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+/**
+ * Remembers accepted signatures until they fall out of the tolerance window,
+ * so the exact same signed request cannot be delivered twice.
+ */
+export class ReplayGuard {
+  private seen = new Map<string, number>();
+
+  constructor(private readonly ttlMs: number = SIGNATURE_TOLERANCE_SECONDS * 1000) {}
+
+  /** Returns true if the key was already seen; records it otherwise. */
+  checkAndRemember(key: string, nowMs: number = Date.now()): boolean {
+    this.seen.forEach((expires, k) => {
+      if (expires <= nowMs) this.seen.delete(k);
+    });
+    if (this.seen.has(key)) return true;
+    this.seen.set(key, nowMs + this.ttlMs);
+    return false;
+  }
+}
+
+export interface VerifySignatureInput {
+  rawBody: string;
+  timestamp: string | null;
+  signature: string | null;
+  secrets: string[];
+  replayGuard?: ReplayGuard;
+  toleranceSeconds?: number;
+  nowMs?: number;
+}
+
+export function verifyWebhookSignature({
+  rawBody,
+  timestamp,
+  signature,
+  secrets,
+  replayGuard,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+  nowMs = Date.now(),
+}: VerifySignatureInput): SignatureResult {
+  if (!signature || !timestamp) return { ok: false, reason: 'missing_signature' };
+
+  if (!/^\d{9,11}$/.test(timestamp)) return { ok: false, reason: 'invalid_timestamp' };
+  const skewSeconds = Math.abs(nowMs / 1000 - Number(timestamp));
+  if (skewSeconds > toleranceSeconds) return { ok: false, reason: 'outside_tolerance' };
+
+  const provided = signature.trim();
+  const matched = secrets.some((secret) => safeEqual(signWebhookPayload(secret, timestamp, rawBody), provided));
+  if (!matched) return { ok: false, reason: 'mismatch' };
+
+  if (replayGuard?.checkAndRemember(provided, nowMs)) return { ok: false, reason: 'replayed' };
+
+  return { ok: true };
+}
+
+// ============================================================================
+// Rate limiting
+// ============================================================================
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Whole seconds until `cost` tokens are available again (0 when allowed). */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Token bucket per source key. Each key holds up to `capacity` tokens and
+ * regains `refillPerSecond`; a request spends `cost` tokens (one per event,
+ * so a 50-event batch costs the same as 50 single posts).
+ */
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updatedMs: number }>();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number,
+    private readonly maxKeys: number = 10_000,
+  ) {}
+
+  take(key: string, cost: number = 1, nowMs: number = Date.now()): RateLimitResult {
+    const bucket = this.buckets.get(key) ?? { tokens: this.capacity, updatedMs: nowMs };
+    const elapsed = Math.max(0, nowMs - bucket.updatedMs) / 1000;
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + elapsed * this.refillPerSecond);
+    bucket.updatedMs = nowMs;
+
+    let result: RateLimitResult;
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      result = { allowed: true, retryAfterSeconds: 0 };
+    } else {
+      const deficit = Math.min(cost, this.capacity) - bucket.tokens;
+      result = { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(deficit / this.refillPerSecond)) };
+    }
+
+    if (!this.buckets.has(key) && this.buckets.size >= this.maxKeys) {
+      // Evict the oldest entry; Map iteration order is insertion order.
+      const oldest = this.buckets.keys().next().value;
+      if (oldest !== undefined) this.buckets.delete(oldest);
+    }
+    this.buckets.set(key, bucket);
+    return result;
+  }
+}
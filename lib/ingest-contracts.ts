@@ -0,0 +1,284 @@
+/**
+ * Ingest Contracts — declarative payload validation for /api/ingest/*
+ *
+ * Each ingest endpoint declares its accepted shape as an IngestContract:
+ * field types, enums, max lengths and numeric bounds. validateAgainstContract()
+ * checks a parsed body against it and returns the first violation, and
+ * recordDeadLetters() keeps every rejected payload (with the reason) in
+ * analytics.ingest_dead_letter so bad producer data is visible on the
+ * Marketing Data Health page instead of silently landing in raw tables.
+ *
+ * GOVERNANCE: analytics.ingest_dead_letter is written ONLY from the ingest
+ * routes via recordDeadLetters(). Everything else reads it.
+ */
+
+import type { DbQueryable } from './db';
+
+// ============================================================================
+// Contract model
+// ============================================================================
+
+export type IngestFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'timestamp' | 'object';
+
+export interface IngestFieldRule {
+  type: IngestFieldType;
+  required?: boolean;
+  /** Accept explicit null for optional fields (Convex sends null for unset). */
+  nullable?: boolean;
+  enum?: readonly string[];
+  maxLength?: number;
+  min?: number;
+  max?: number;
+  /** For 'object' fields: upper bound on the JSON-serialized size. */
+  maxBytes?: number;
+}
+
+export interface IngestContract {
+  endpoint: string;
+  fields: Record<string, IngestFieldRule>;
+}
+
+export type ContractResult =
+  | { valid: true }
+  | { valid: false; error: string; field: string | null };
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function checkField(field: string, rule: IngestFieldRule, value: unknown): string | null {
+  if (value === undefined || value === null) {
+    if (rule.required) return `Missing or empty required field: ${field}`;
+    if (value === null && !rule.nullable) return `Field ${field} must not be null`;
+    return null;
+  }
+
+  switch (rule.type) {
+    case 'string':
+    case 'timestamp': {
+      if (typeof value !== 'string') return `Field ${field} must be a string (got ${describeType(value)})`;
+      if (rule.required && value.trim() === '') return `Missing or empty required field: ${field}`;
+      if (rule.maxLength != null && value.length > rule.maxLength) {
+        return `Field ${field} exceeds ${rule.maxLength} characters`;
+      }
+      if (rule.type === 'timestamp' && value !== '' && isNaN(new Date(value).getTime())) {
+        return `Invalid timestamp for ${field}`;
+      }
+      if (rule.enum && !rule.enum.includes(value)) {
+        return `Field ${field} has unknown value "${value.slice(0, 64)}"`;
+      }
+      return null;
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `Field ${field} must be a finite number (got ${describeType(value)})`;
+      }
+      if (rule.type === 'integer' && !Number.isInteger(value)) return `Field ${field} must be an integer`;
+      if (rule.min != null && value < rule.min) return `Field ${field} must be >= ${rule.min}`;
+      if (rule.max != null && value > rule.max) return `Field ${field} must be <= ${rule.max}`;
+      return null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Field ${field} must be a boolean (got ${describeType(value)})`;
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return `Field ${field} must be a JSON object (got ${describeType(value)})`;
+      }
+      if (rule.maxBytes != null && JSON.stringify(value).length > rule.maxBytes) {
+        return `Field ${field} exceeds ${rule.maxBytes} bytes`;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate a parsed request body against a contract. Unknown fields are
+ * ignored (producers may send extra context); declared fields are checked in
+ * declaration order and the first violation is returned.
+ */
+export function validateAgainstContract(contract: IngestContract, body: unknown): ContractResult {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { valid: false, error: 'Request body must be a JSON object', field: null };
+  }
+  const b = body as Record<string, unknown>;
+  for (const [field, rule] of Object.entries(contract.fields)) {
+    const error = checkField(field, rule, b[field]);
+    if (error) return { valid: false, error, field };
+  }
+  return { valid: true };
+}
+
+// ============================================================================
+// Contracts
+// ============================================================================
+
+/**
+ * event_type values the GTM tags (snippets/) and the quote site emit.
+ * A new event type must be added here before it will be ingested under its
+ * own name; until then the universal tag sends it as 'other' with the GTM
+ * event name in event_data.raw_event.
+ */
+export const WEB_EVENT_TYPES = [
+  'page_view',
+  'conversion',
+  'add_to_cart',
+  'begin_checkout',
+  'purchase',
+  'view_item',
+  'view_cart',
+  'form_submit',
+  'contact_form_submit',
+  'partner_form_submit',
+  'channel_letter_quote',
+  'wholesale_quote_submit',
+  'click',
+  'click_email',
+  'click_phone',
+  'other',
+] as const;
+
+const URL_MAX = 2048;
+
+export const WEB_EVENT_CONTRACT: IngestContract = {
+  endpoint: 'web-event',
+  fields: {
+    event_type: { type: 'string', required: true, enum: WEB_EVENT_TYPES },
+    page_url: { type: 'string', required: true, maxLength: URL_MAX },
+    visitor_id: { type: 'string', required: true, maxLength: 128 },
+    session_id: { type: 'string', required: true, maxLength: 128 },
+    event_id: { type: 'string', nullable: true, maxLength: 128 },
+    occurred_at: { type: 'timestamp', nullable: true },
+    event_data: { type: 'object', nullable: true, maxBytes: 16384 },
+    ip_address: { type: 'string', nullable: true, maxLength: 64 },
+    user_agent: { type: 'string', nullable: true, maxLength: 1024 },
+    referrer: { type: 'string', nullable: true, maxLength: URL_MAX },
+    page_title: { type: 'string', nullable: true, maxLength: 512 },
+    source: { type: 'string', nullable: true, maxLength: 128 },
+    origin_page: { type: 'string', nullable: true, maxLength: URL_MAX },
+    origin_url: { type: 'string', nullable: true, maxLength: URL_MAX },
+    landing_page: { type: 'string', nullable: true, maxLength: URL_MAX },
+  },
+};
+
+/**
+ * Convex QMS quote_activity values (the Warm Outreach STATUS_COLORS set).
+ */
+export const QMS_QUOTE_ACTIVITIES = [
+  'Quote Submitted',
+  'Awaiting Response',
+  'Quote Approved',
+  'Awaiting Deposit',
+  'Deposit Paid',
+  'Mockups In Review',
+  'Revisions Requested',
+  'Revisions Adjusted',
+  'Design Approved',
+  'Quote Paid',
+  'Not Interested',
+  'Pending Management Review',
+  'Admin Review Changes Requested',
+] as const;
+
+const optionalText = (maxLength: number): IngestFieldRule => ({ type: 'string', nullable: true, maxLength });
+const optionalTimestamp: IngestFieldRule = { type: 'timestamp', nullable: true };
+
+export const QMS_DEAL_CONTRACT: IngestContract = {
+  endpoint: 'qms-deal',
+  fields: {
+    convex_quote_id: { type: 'string', required: true, maxLength: 128 },
+    quote_number: { type: 'string', required: true, maxLength: 64 },
+    quote_activity: { type: 'string', required: true, enum: QMS_QUOTE_ACTIVITIES },
+    created_at: { type: 'timestamp', required: true },
+    updated_at: { type: 'timestamp', required: true },
+    quote_type: optionalText(64),
+    quote_active: { type: 'boolean', nullable: true },
+    // BIGINT cents; anything above $10M is a unit mistake, not a sign order.
+    total_price_cents: { type: 'integer', nullable: true, min: 0, max: 1_000_000_000 },
+    customer_name: optionalText(256),
+    customer_email: optionalText(320),
+    customer_company: optionalText(256),
+    customer_city: optionalText(128),
+    customer_state: optionalText(64),
+    sign_text: optionalText(2000),
+    sign_type: optionalText(128),
+    landing_page: optionalText(URL_MAX),
+    referrer: optionalText(URL_MAX),
+    utm_source: optionalText(256),
+    utm_medium: optionalText(256),
+    utm_campaign: optionalText(256),
+    utm_content: optionalText(256),
+    utm_term: optionalText(256),
+    gclid: optionalText(256),
+    gbraid: optionalText(256),
+    wbraid: optionalText(256),
+    deposit_paid_at: optionalTimestamp,
+    quote_paid_at: optionalTimestamp,
+    cancel_reason: optionalText(256),
+    cancel_details: optionalText(2000),
+    followup_lane: optionalText(64),
+    followup_count: { type: 'integer', nullable: true, min: 0 },
+    followup_last_sent_at: optionalTimestamp,
+    discount_code: optionalText(64),
+    discount_percentage: { type: 'number', nullable: true, min: 0, max: 100 },
+    discount_used_at: optionalTimestamp,
+    revision_round: { type: 'integer', nullable: true, min: 0 },
+    production_assigned_at: optionalTimestamp,
+    production_delivered_at: optionalTimestamp,
+    shipping_carrier: optionalText(64),
+    shipping_tracking_number: optionalText(128),
+    last_event: optionalText(128),
+  },
+};
+
+// ============================================================================
+// Dead-letter store
+// ============================================================================
+
+export interface DeadLetterEntry {
+  endpoint: string;
+  reason: string;
+  field: string | null;
+  /** Parsed body when available, otherwise the raw request text. */
+  payload: unknown;
+  sourceIp?: string | null;
+}
+
+/** Raw text bodies are truncated so one bad producer cannot bloat the table. */
+const MAX_RAW_PAYLOAD_CHARS = 8192;
+
+function toStoredPayload(payload: unknown): string {
+  if (typeof payload === 'string') {
+    return JSON.stringify({ raw: payload.slice(0, MAX_RAW_PAYLOAD_CHARS) });
+  }
+  const json = JSON.stringify(payload ?? null);
+  return json.length > MAX_RAW_PAYLOAD_CHARS
+    ? JSON.stringify({ raw: json.slice(0, MAX_RAW_PAYLOAD_CHARS), truncated: true })
+    : json;
+}
+
+/**
+ * Persist rejected payloads. Never throws: a dead-letter write failure must
+ * not turn a 400 for the producer into a 500.
+ */
+export async function recordDeadLetters(db: DbQueryable, entries: DeadLetterEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const values: unknown[] = [];
+  const rows = entries.map((e, i) => {
+    values.push(e.endpoint, e.reason, e.field, toStoredPayload(e.payload), e.sourceIp ?? null);
+    const o = i * 5;
+    return `($${o + 1}, $${o + 2}, $${o + 3}, $${o + 4}::jsonb, $${o + 5})`;
+  });
+  try {
+    await db.query(
+      `INSERT INTO analytics.ingest_dead_letter (endpoint, reason, field, payload, source_ip)
+       VALUES ${rows.join(', ')}`,
+      values,
+    );
+  } catch (err) {
+    console.warn(`[ingest/${entries[0].endpoint}] Dead-letter write failed (non-fatal):`, err);
+  }
+}
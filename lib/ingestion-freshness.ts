@@ -0,0 +1,65 @@
+/**
+ * Ingestion Freshness — per-source daily row timeline for Data Health
+ *
+ * Turns sparse per-day row counts (only days that have data come back from
+ * SQL) into a dense timeline per source, so a day with zero rows shows up
+ * as a gap instead of silently disappearing. Today is included in the
+ * timeline but never counted as a gap, since its data is still arriving.
+ */
+
+import type { SourceFreshness } from '../types/activity-spine';
+
+export interface FreshnessSourceDef {
+  source: string;
+  label: string;
+}
+
+export interface DailyRowCount {
+  source: string;
+  /** YYYY-MM-DD (UTC). */
+  day: string;
+  rows: number;
+}
+
+const DAY_MS = 86400000;
+
+function utcDate(ms: number): string {
+  return new Date(ms).toISOString().split('T')[0];
+}
+
+export function buildSourceFreshness(
+  sources: FreshnessSourceDef[],
+  counts: DailyRowCount[],
+  windowDays: number,
+  now: Date = new Date(),
+  unavailable: ReadonlySet<string> = new Set(),
+): SourceFreshness[] {
+  const todayMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const today = utcDate(todayMs);
+  const yesterday = utcDate(todayMs - DAY_MS);
+  const dates = Array.from({ length: windowDays }, (_, i) => utcDate(todayMs - (windowDays - 1 - i) * DAY_MS));
+
+  return sources.map(({ source, label }) => {
+    if (unavailable.has(source)) {
+      return { source, label, available: false, days: [], gap_dates: [], last_data_date: null, yesterday_complete: false };
+    }
+
+    const byDay = new Map<string, number>();
+    for (const c of counts) {
+      if (c.source === source) byDay.set(c.day, (byDay.get(c.day) ?? 0) + c.rows);
+    }
+
+    const days = dates.map((date) => ({ date, rows: byDay.get(date) ?? 0 }));
+    const withData = days.filter((d) => d.rows > 0);
+
+    return {
+      source,
+      label,
+      available: true,
+      days,
+      gap_dates: days.filter((d) => d.rows === 0 && d.date !== today).map((d) => d.date),
+      last_data_date: withData.length > 0 ? withData[withData.length - 1].date : null,
+      yesterday_complete: (byDay.get(yesterday) ?? 0) > 0,
+    };
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Marketing Alert Rules — declarative rules over executeMarketingQueries output
+ *
+ * Each rule reads one metric from a MarketingQueryResult computed for a
+ * trailing window of complete days (ending yesterday, UTC) and fires when:
+ *
+ *   threshold   — the window total is above / below `threshold`
+ *   pct_change  — the change vs the previous window of the same length is
+ *                 above / below `threshold` (a fraction: -0.3 = down 30%),
+ *                 matching MarketingKPIComparison.delta_pct
+ *   zscore      — the last day's z-score against the earlier days of the
+ *                 window is above / below `threshold`
+ *
+ * Rules are evaluated by the marketing-alerts cron (services/marketingAlerts.ts),
+ * which dedupes, records and delivers the alerts that fire.
+ */
+
+import type { MarketingQueryResult } from '../services/marketingQueries';
+import type { MarketingTimeseriesPoint } from '../types/activity-spine';
+
+export type AlertMetricKey =
+  | 'sessions'
+  | 'submissions'
+  | 'pipeline_value_usd'
+  | 'organic_clicks'
+  | 'impressions'
+  | 'ads_spend';
+
+export type AlertCondition = 'threshold' | 'pct_change' | 'zscore';
+export type AlertOperator = 'above' | 'below';
+export type AlertSeverity = 'critical' | 'warning' | 'info';
+export type AlertChannel = 'email' | 'webhook';
+
+export interface MarketingAlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetricKey;
+  condition: AlertCondition;
+  operator: AlertOperator;
+  threshold: number;
+  /** Trailing window of complete days the metric is computed over. */
+  windowDays: number;
+  severity: AlertSeverity;
+  channels: AlertChannel[];
+  /** A rule that fired within this many hours is recorded but not re-delivered. */
+  cooldownHours: number;
+}
+
+interface AlertMetricDef {
+  label: string;
+  format: 'count' | 'usd';
+  value: (r: MarketingQueryResult) => number;
+  previous?: (r: MarketingQueryResult) => number;
+  series?: (r: MarketingQueryResult) => MarketingTimeseriesPoint[] | undefined;
+}
+
+export const ALERT_METRICS: Record<AlertMetricKey, AlertMetricDef> = {
+  sessions: {
+    label: 'Sessions',
+    format: 'count',
+    value: (r) => r.kpis.sessions,
+    previous: (r) => r.comparisons.sessions.previous,
+    series: (r) => r.timeseries?.sessions,
+  },
+  submissions: {
+    label: 'Quote submissions',
+    format: 'count',
+    value: (r) => r.kpis.total_submissions,
+    previous: (r) => r.comparisons.total_submissions.previous,
+    series: (r) => r.timeseries?.submissions,
+  },
+  pipeline_value_usd: {
+    label: 'Pipeline value',
+    format: 'usd',
+    value: (r) => r.kpis.total_pipeline_value_usd,
+    previous: (r) => r.comparisons.total_pipeline_value_usd.previous,
+    series: (r) => r.timeseries?.pipeline_value_usd,
+  },
+  organic_clicks: {
+    label: 'Organic clicks',
+    format: 'count',
+    value: (r) => r.kpis.organic_clicks,
+    previous: (r) => r.comparisons.organic_clicks.previous,
+    series: (r) => r.timeseries?.clicks,
+  },
+  impressions: {
+    label: 'Search impressions',
+    format: 'count',
+    value: (r) => r.kpis.impressions,
+    previous: (r) => r.comparisons.impressions.previous,
+    series: (r) => r.timeseries?.impressions,
+  },
+  ads_spend: {
+    label: 'Google Ads spend',
+    format: 'usd',
+    value: (r) => r.google_ads_overview.spend,
+    series: (r) => r.google_ads_timeseries.spend,
+  },
+};
+
+export const MARKETING_ALERT_RULES: MarketingAlertRule[] = [
+  {
+    id: 'submissions-drop-wow',
+    name: 'Quote submissions down week over week',
+    metric: 'submissions',
+    condition: 'pct_change',
+    operator: 'below',
+    threshold: -0.3,
+    windowDays: 7,
+    severity: 'critical',
+    channels: ['email', 'webhook'],
+    cooldownHours: 72,
+  },
+  {
+    id: 'pipeline-drop-wow',
+    name: 'Pipeline value down week over week',
+    metric: 'pipeline_value_usd',
+    condition: 'pct_change',
+    operator: 'below',
+    threshold: -0.3,
+    windowDays: 7,
+    severity: 'critical',
+    channels: ['email', 'webhook'],
+    cooldownHours: 72,
+  },
+  {
+    id: 'sessions-drop-wow',
+    name: 'Sessions down week over week',
+    metric: 'sessions',
+    condition: 'pct_change',
+    operator: 'below',
+    threshold: -0.25,
+    windowDays: 7,
+    severity: 'warning',
+    channels: ['webhook'],
+    cooldownHours: 72,
+  },
+  {
+    id: 'no-submissions-yesterday',
+    name: 'No quote submissions yesterday',
+    metric: 'submissions',
+    condition: 'threshold',
+    operator: 'below',
+    threshold: 1,
+    windowDays: 1,
+    severity: 'critical',
+    channels: ['email', 'webhook'],
+    cooldownHours: 24,
+  },
+  {
+    id: 'sessions-zscore-low',
+    name: 'Sessions unusually low yesterday',
+    metric: 'sessions',
+    condition: 'zscore',
+    operator: 'below',
+    threshold: -2,
+    windowDays: 28,
+    severity: 'warning',
+    channels: ['webhook'],
+    cooldownHours: 24,
+  },
+  {
+    id: 'ads-spend-zscore-high',
+    name: 'Google Ads spend unusually high yesterday',
+    metric: 'ads_spend',
+    condition: 'zscore',
+    operator: 'above',
+    threshold: 2.5,
+    windowDays: 28,
+    severity: 'warning',
+    channels: ['email', 'webhook'],
+    cooldownHours: 24,
+  },
+];
+
+export interface AlertWindow {
+  startDate: string;
+  endDate: string;
+}
+
+export interface AlertEvaluation {
+  rule: MarketingAlertRule;
+  fired: boolean;
+  /** The number compared against the threshold (total, fraction or z-score); null when not computable. */
+  observed: number | null;
+  /** Window total of the metric. */
+  value: number;
+  /** Previous-window total (pct_change) or mean of the earlier days (zscore). */
+  baseline: number | null;
+  message: string;
+}
+
+const MIN_ZSCORE_HISTORY = 7;
+const DAY_MS = 86400000;
+
+/** Fill the window with zero-valued days the query returned no row for. */
+export function densifySeries(points: MarketingTimeseriesPoint[], window: AlertWindow): number[] {
+  const byDate = new Map(points.map((p) => [p.date.slice(0, 10), p.value]));
+  const values: number[] = [];
+  const end = new Date(`${window.endDate}T00:00:00Z`).getTime();
+  for (let t = new Date(`${window.startDate}T00:00:00Z`).getTime(); t <= end; t += DAY_MS) {
+    values.push(byDate.get(new Date(t).toISOString().slice(0, 10)) ?? 0);
+  }
+  return values;
+}
+
+/** z-score of the last value against the values before it; null when history is too short or flat. */
+export function lastValueZScore(values: number[]): { z: number; mean: number } | null {
+  const history = values.slice(0, -1);
+  if (history.length < MIN_ZSCORE_HISTORY) return null;
+  const mean = history.reduce((s, v) => s + v, 0) / history.length;
+  const variance = history.reduce((s, v) => s + (v - mean) ** 2, 0) / (history.length - 1);
+  const stddev = Math.sqrt(variance);
+  if (stddev <= 0) return null;
+  return { z: (values[values.length - 1] - mean) / stddev, mean };
+}
+
+function formatValue(value: number, format: 'count' | 'usd'): string {
+  const rounded = Math.round(value);
+  return format === 'usd' ? `$${rounded.toLocaleString('en-US')}` : rounded.toLocaleString('en-US');
+}
+
+export function evaluateAlertRule(
+  rule: MarketingAlertRule,
+  result: MarketingQueryResult,
+  window: AlertWindow,
+): AlertEvaluation {
+  const def = ALERT_METRICS[rule.metric];
+  const value = def.value(result);
+  const shown = formatValue(value, def.format);
+  const range = window.startDate === window.endDate ? window.endDate : `${window.startDate} – ${window.endDate}`;
+
+  let observed: number | null = null;
+  let baseline: number | null = null;
+  let detail = '';
+
+  switch (rule.condition) {
+    case 'threshold': {
+      observed = value;
+      detail = `${def.label} was ${shown} (${range}), ${rule.operator} the ${formatValue(rule.threshold, def.format)} threshold.`;
+      break;
+    }
+    case 'pct_change': {
+      const previous = def.previous?.(result) ?? null;
+      baseline = previous;
+      if (previous != null && previous > 0) {
+        observed = (value - previous) / previous;
+        const pct = Math.round(observed * 100);
+        detail = `${def.label} ${pct >= 0 ? 'up' : 'down'} ${Math.abs(pct)}% vs the previous ${rule.windowDays} days (${shown} vs ${formatValue(previous, def.format)}, ${range}).`;
+      }
+      break;
+    }
+    case 'zscore': {
+      const points = def.series?.(result);
+      const series = points ? densifySeries(points, window) : null;
+      const stats = series ? lastValueZScore(series) : null;
+      if (series && stats) {
+        observed = Math.round(stats.z * 100) / 100;
+        baseline = stats.mean;
+        detail = `${def.label} on ${window.endDate} was ${formatValue(series[series.length - 1], def.format)} vs a ${rule.windowDays - 1}-day mean of ${formatValue(stats.mean, def.format)} (z = ${observed}).`;
+      }
+      break;
+    }
+  }
+
+  const fired = observed != null && (rule.operator === 'above' ? observed > rule.threshold : observed < rule.threshold);
+  return { rule, fired, observed, value, baseline, message: detail || `${def.label}: not enough data to evaluate.` };
+}
+
+/** Trailing window of `days` complete UTC days ending the day before `now`. */
+export function alertWindow(days: number, now: Date = new Date()): AlertWindow {
+  const todayMs = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const fmt = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+  return { startDate: fmt(todayMs - days * DAY_MS), endDate: fmt(todayMs - DAY_MS) };
+}
+
+/** Same-length window immediately before `window`. */
+export function previousAlertWindow(window: AlertWindow): AlertWindow {
+  const start = new Date(`${window.startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${window.endDate}T00:00:00Z`).getTime();
+  const fmt = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+  return { startDate: fmt(start - (end - start) - DAY_MS), endDate: fmt(start - DAY_MS) };
+}
@@ -0,0 +1,224 @@
+/**
+ * Marketing Anomaly Detection — seasonal expected bands
+ *
+ * For every day of the window the expected value is the mean of the same
+ * weekday over the preceding BASELINE_WEEKS weeks, and the band is
+ * expected ± BAND_Z standard deviations of those same-weekday values. Weekly
+ * seasonality (quiet weekends, Monday peaks) therefore does not read as an
+ * anomaly. With fewer than MIN_WEEKDAY_SAMPLES same-weekday days of history
+ * the baseline falls back to the trailing TRAILING_DAYS days.
+ *
+ * A day above the band is a spike, below it a drop. Days after a source's
+ * last loaded date are treated as missing rather than zero, so ingestion lag
+ * (Search Console runs ~3 days behind) does not show up as a drop.
+ *
+ * Attribution compares each channel / landing page / campaign on the
+ * anomalous day against its own same-weekday baseline and reports the key
+ * that explains the largest share of the deviation.
+ *
+ * Data is loaded by services/marketingAnomalies.ts; this module is pure.
+ */
+
+import type {
+  MarketingAnomaly,
+  MarketingAnomalyBandPoint,
+  MarketingAnomalyDimension,
+  MarketingAnomalyDriver,
+  MarketingAnomalyMetric,
+  MarketingAnomalySeries,
+} from '../types/activity-spine';
+
+export const BASELINE_WEEKS = 8;
+export const BAND_Z = 2;
+const HIGH_Z = 3;
+const MIN_WEEKDAY_SAMPLES = 4;
+const TRAILING_DAYS = 28;
+const MIN_TRAILING_SAMPLES = 7;
+/** Spread floor as a fraction of expected, so near-flat history doesn't flag tiny moves. */
+const MIN_RELATIVE_SPREAD = 0.05;
+/** A driver must explain at least this share of the deviation to be reported. */
+const MIN_DRIVER_SHARE = 0.25;
+
+const DAY_MS = 86400000;
+
+export interface AnomalyMetricDef {
+  metric: MarketingAnomalyMetric;
+  label: string;
+  format: 'count' | 'usd';
+}
+
+export const ANOMALY_METRICS: AnomalyMetricDef[] = [
+  { metric: 'sessions', label: 'Sessions', format: 'count' },
+  { metric: 'submissions', label: 'Submissions', format: 'count' },
+  { metric: 'pipeline_value_usd', label: 'Pipeline Value', format: 'usd' },
+  { metric: 'impressions', label: 'Impressions', format: 'count' },
+  { metric: 'clicks', label: 'Organic Clicks', format: 'count' },
+  { metric: 'ads_spend', label: 'Ads Spend', format: 'usd' },
+  { metric: 'ads_clicks', label: 'Ads Clicks', format: 'count' },
+  { metric: 'ads_conversions', label: 'Ads Conversions', format: 'count' },
+];
+
+export interface DailyValue {
+  date: string;
+  value: number;
+}
+
+export interface DimensionDailyValue {
+  date: string;
+  key: string;
+  value: number;
+}
+
+export interface Baseline {
+  expected: number;
+  spread: number;
+  kind: 'weekday' | 'trailing';
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** First day of history needed to baseline a window starting at `start`. */
+export function historyStart(start: string): string {
+  return addDays(start, -BASELINE_WEEKS * 7);
+}
+
+/** The earlier dates a day's baseline is computed from. */
+export function baselineDates(date: string, kind: Baseline['kind']): string[] {
+  const dates: string[] = [];
+  if (kind === 'weekday') {
+    for (let w = 1; w <= BASELINE_WEEKS; w++) dates.push(addDays(date, -7 * w));
+  } else {
+    for (let d = 1; d <= TRAILING_DAYS; d++) dates.push(addDays(date, -d));
+  }
+  return dates;
+}
+
+function meanAndStddev(samples: number[]): { mean: number; stddev: number } {
+  const mean = samples.reduce((s, v) => s + v, 0) / samples.length;
+  const variance = samples.length > 1
+    ? samples.reduce((s, v) => s + (v - mean) ** 2, 0) / (samples.length - 1)
+    : 0;
+  return { mean, stddev: Math.sqrt(variance) };
+}
+
+/** Same-weekday baseline for `date`, or the trailing fallback; null when history is too short. */
+export function seasonalBaseline(values: Map<string, number>, date: string): Baseline | null {
+  let kind: Baseline['kind'] = 'weekday';
+  let samples = baselineDates(date, 'weekday').map((d) => values.get(d)).filter((v): v is number => v !== undefined);
+  if (samples.length < MIN_WEEKDAY_SAMPLES) {
+    kind = 'trailing';
+    samples = baselineDates(date, 'trailing').map((d) => values.get(d)).filter((v): v is number => v !== undefined);
+    if (samples.length < MIN_TRAILING_SAMPLES) return null;
+  }
+  const { mean, stddev } = meanAndStddev(samples);
+  return { expected: mean, spread: Math.max(stddev, MIN_RELATIVE_SPREAD * Math.abs(mean)), kind };
+}
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+/**
+ * Band and anomalies for one metric over [start, end]. `rows` should cover
+ * historyStart(start)..end and contain only days the source returned; days
+ * up to the last returned date with no row count as zero.
+ */
+export function detectSeriesAnomalies(
+  def: AnomalyMetricDef,
+  rows: DailyValue[],
+  start: string,
+  end: string,
+): { series: MarketingAnomalySeries; anomalies: MarketingAnomaly[] } {
+  const raw = new Map(rows.map((r) => [r.date.slice(0, 10), r.value]));
+  const lastDataDate = rows.reduce((max, r) => (r.date.slice(0, 10) > max ? r.date.slice(0, 10) : max), '');
+
+  const values = new Map<string, number>();
+  for (let d = historyStart(start); d <= end && d <= lastDataDate; d = addDays(d, 1)) {
+    values.set(d, raw.get(d) ?? 0);
+  }
+
+  const points: MarketingAnomalyBandPoint[] = [];
+  const anomalies: MarketingAnomaly[] = [];
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const value = values.get(date) ?? null;
+    const baseline = seasonalBaseline(values, date);
+    if (!baseline) {
+      points.push({ date, value, expected: null, lower: null, upper: null, anomaly: null });
+      continue;
+    }
+
+    const lower = Math.max(0, baseline.expected - BAND_Z * baseline.spread);
+    const upper = baseline.expected + BAND_Z * baseline.spread;
+    let direction: MarketingAnomaly['direction'] | null = null;
+    if (value != null && baseline.spread > 0) {
+      if (value > upper) direction = 'spike';
+      else if (value < lower) direction = 'drop';
+    }
+    points.push({
+      date,
+      value,
+      expected: round2(baseline.expected),
+      lower: round2(lower),
+      upper: round2(upper),
+      anomaly: direction,
+    });
+
+    if (direction && value != null) {
+      const z = (value - baseline.expected) / baseline.spread;
+      anomalies.push({
+        metric: def.metric,
+        label: def.label,
+        date,
+        direction,
+        value,
+        expected: round2(baseline.expected),
+        lower: round2(lower),
+        upper: round2(upper),
+        z_score: round2(z),
+        deviation_pct: baseline.expected !== 0 ? round2((value - baseline.expected) / baseline.expected) : null,
+        severity: Math.abs(z) >= HIGH_Z ? 'high' : 'medium',
+        baseline: baseline.kind,
+        driver: null,
+      });
+    }
+  }
+
+  return {
+    series: { metric: def.metric, label: def.label, format: def.format, points, anomaly_count: anomalies.length },
+    anomalies,
+  };
+}
+
+/**
+ * The dimension key whose own deviation on the anomalous day explains the
+ * largest share of the metric's deviation. A key with no row on a baseline
+ * day counts as zero that day.
+ */
+export function attributeAnomaly(
+  anomaly: MarketingAnomaly,
+  dimension: MarketingAnomalyDimension,
+  rows: DimensionDailyValue[],
+): MarketingAnomalyDriver | null {
+  const deviation = anomaly.value - anomaly.expected;
+  if (deviation === 0) return null;
+
+  const byKey = new Map<string, Map<string, number>>();
+  rows.forEach((r) => {
+    const series = byKey.get(r.key) ?? new Map<string, number>();
+    series.set(r.date.slice(0, 10), (series.get(r.date.slice(0, 10)) ?? 0) + r.value);
+    byKey.set(r.key, series);
+  });
+
+  const dates = baselineDates(anomaly.date, anomaly.baseline);
+  let best: MarketingAnomalyDriver | null = null;
+  byKey.forEach((series, key) => {
+    const value = series.get(anomaly.date) ?? 0;
+    const expected = dates.reduce((s, d) => s + (series.get(d) ?? 0), 0) / dates.length;
+    const share = (value - expected) / deviation;
+    if (share >= MIN_DRIVER_SHARE && (!best || share > best.share)) {
+      best = { dimension, key, value, expected: round2(expected), share: round2(share) };
+    }
+  });
+  return best;
+}
@@ -0,0 +1,176 @@
+/**
+ * Marketing Experiments — engines, target metrics, input validation and the
+ * before/after windows used for automatic lift measurement.
+ *
+ * Lift compares the target metric over the experiment window
+ * (start_date..end_date, or ..yesterday while running) with the
+ * equal-length window immediately before start_date, using the Core 4
+ * engine metrics from executeMarketingQueries (core4_summary). Measurement
+ * itself runs in services/marketingExperiments.ts.
+ */
+
+import type {
+  Core4Engine,
+  MarketingExperiment,
+  MarketingExperimentDecision,
+  MarketingExperimentMetric,
+} from '../types/activity-spine';
+
+/** Experiment log engines and the Core 4 engine each is measured against. */
+export const EXPERIMENT_ENGINES: Array<{ label: string; core4: Core4Engine }> = [
+  { label: 'SEO Summary', core4: 'post_free_content' },
+  { label: 'Paid Summary', core4: 'run_paid_ads' },
+  { label: 'Warm Outreach', core4: 'warm_outreach' },
+  { label: 'Cold Outreach', core4: 'cold_outreach' },
+  { label: 'Social Automation', core4: 'post_free_content' },
+];
+
+export const EXPERIMENT_METRICS: Array<{ key: MarketingExperimentMetric; label: string }> = [
+  { key: 'quotes', label: 'Quotes' },
+  { key: 'pipeline_value_usd', label: 'Pipeline value' },
+  { key: 'sessions', label: 'Sessions' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'quote_rate', label: 'Quote rate' },
+  { key: 'spend', label: 'Spend' },
+  { key: 'cac', label: 'CAC' },
+  { key: 'roas', label: 'ROAS' },
+];
+
+export const EXPERIMENT_DECISIONS: MarketingExperimentDecision[] = ['keep', 'revert', 'iterate', 'pending'];
+
+/** Engines whose Core 4 metrics are not populated by the marketing spine. */
+export const UNMEASURED_ENGINES: Core4Engine[] = ['cold_outreach'];
+
+export interface ExperimentInput {
+  name: string;
+  engine: string;
+  target_metric: MarketingExperimentMetric;
+  hypothesis: string;
+  change_made: string;
+  start_date: string;
+  end_date: string | null;
+  decision: MarketingExperimentDecision;
+  notes: string | null;
+  owner: string | null;
+}
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TEXT = 5000;
+const DAY_MS = 86400000;
+
+function text(v: unknown, max = MAX_TEXT): string | null {
+  if (v == null) return null;
+  if (typeof v !== 'string') return null;
+  return v.trim().slice(0, max);
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) body.
+ * Unknown fields are ignored; result_lift is never accepted from clients.
+ */
+export function validateExperimentInput(
+  body: unknown,
+  partial: boolean,
+): { value: Partial<ExperimentInput> } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Record<string, unknown>;
+  const out: Partial<ExperimentInput> = {};
+
+  if (b.name !== undefined || !partial) {
+    const name = text(b.name, 200);
+    if (!name) return { error: 'name is required' };
+    out.name = name;
+  }
+  if (b.engine !== undefined || !partial) {
+    if (!EXPERIMENT_ENGINES.some((e) => e.label === b.engine)) {
+      return { error: `engine must be one of: ${EXPERIMENT_ENGINES.map((e) => e.label).join(', ')}` };
+    }
+    out.engine = b.engine as string;
+  }
+  if (b.target_metric !== undefined || !partial) {
+    const metric = b.target_metric ?? 'quotes';
+    if (!EXPERIMENT_METRICS.some((m) => m.key === metric)) {
+      return { error: `target_metric must be one of: ${EXPERIMENT_METRICS.map((m) => m.key).join(', ')}` };
+    }
+    out.target_metric = metric as MarketingExperimentMetric;
+  }
+  if (b.start_date !== undefined || !partial) {
+    if (typeof b.start_date !== 'string' || !ISO_DATE_RE.test(b.start_date)) {
+      return { error: 'start_date must be YYYY-MM-DD' };
+    }
+    out.start_date = b.start_date;
+  }
+  if (b.end_date !== undefined) {
+    if (b.end_date === null || b.end_date === '') {
+      out.end_date = null;
+    } else if (typeof b.end_date !== 'string' || !ISO_DATE_RE.test(b.end_date)) {
+      return { error: 'end_date must be YYYY-MM-DD or null' };
+    } else {
+      out.end_date = b.end_date;
+    }
+  } else if (!partial) {
+    out.end_date = null;
+  }
+  if (out.start_date && out.end_date && out.end_date < out.start_date) {
+    return { error: 'end_date must not be before start_date' };
+  }
+  if (b.decision !== undefined || !partial) {
+    const decision = b.decision ?? 'pending';
+    if (!EXPERIMENT_DECISIONS.includes(decision as MarketingExperimentDecision)) {
+      return { error: `decision must be one of: ${EXPERIMENT_DECISIONS.join(', ')}` };
+    }
+    out.decision = decision as MarketingExperimentDecision;
+  }
+  if (b.hypothesis !== undefined || !partial) out.hypothesis = text(b.hypothesis) ?? '';
+  if (b.change_made !== undefined || !partial) out.change_made = text(b.change_made) ?? '';
+  if (b.notes !== undefined || !partial) out.notes = text(b.notes) || null;
+  if (b.owner !== undefined || !partial) out.owner = text(b.owner, 200) || null;
+
+  return { value: out };
+}
+
+export interface MeasurementWindows {
+  experiment: { start: string; end: string };
+  baseline: { start: string; end: string };
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Experiment window clipped to complete days (ending yesterday, UTC) and the
+ * equal-length baseline before it; null if the experiment has not started.
+ */
+export function measurementWindows(startDate: string, endDate: string | null, now: Date = new Date()): MeasurementWindows | null {
+  const yesterday = addDays(now.toISOString().slice(0, 10), -1);
+  const end = endDate && endDate < yesterday ? endDate : yesterday;
+  if (end < startDate) return null;
+  const days = Math.round((new Date(`${end}T00:00:00Z`).getTime() - new Date(`${startDate}T00:00:00Z`).getTime()) / DAY_MS) + 1;
+  return {
+    experiment: { start: startDate, end },
+    baseline: { start: addDays(startDate, -days), end: addDays(startDate, -1) },
+  };
+}
+
+/**
+ * Whether the stored measurement lags the window it would cover today: a
+ * running experiment gains a complete day every day, and one created before
+ * its first complete day has not been measured at all. Engines without a
+ * metrics source never go stale.
+ */
+export function measurementIsStale(
+  experiment: Pick<MarketingExperiment, 'engine' | 'start_date' | 'end_date' | 'measured_end'>,
+  now: Date = new Date(),
+): boolean {
+  const engine = EXPERIMENT_ENGINES.find((e) => e.label === experiment.engine);
+  if (!engine || UNMEASURED_ENGINES.includes(engine.core4)) return false;
+  const windows = measurementWindows(experiment.start_date, experiment.end_date, now);
+  return windows !== null && experiment.measured_end !== windows.experiment.end;
+}
+
+/** Percent change, one decimal; null when the baseline is zero. */
+export function computeLift(baseline: number, experiment: number): number | null {
+  if (!Number.isFinite(baseline) || !Number.isFinite(experiment) || baseline === 0) return null;
+  return Math.round(((experiment - baseline) / Math.abs(baseline)) * 1000) / 10;
+}
@@ -0,0 +1,442 @@
+/**
+ * Marketing Report Sections — the ExportSection[] behind each exportable
+ * dashboard.
+ *
+ * The dashboard pages feed these builders the data they already render and
+ * hand the result to PageExportBar; services/marketingReports.ts feeds them
+ * the same data read on the server and renders scheduled reports with
+ * lib/exportDocuments.ts. Keeping one builder per dashboard means a scheduled
+ * report and a manual export of the same period carry the same tables.
+ */
+
+import type { ExportSection } from './exportDocuments';
+import type { SeoNorthStar, SeoPipelineCounts } from './seoApi';
+import type { Core4Summary, MarketingOverviewResponse, QMSAnalytics } from '../types/activity-spine';
+
+// ============================================
+// Operator Hub
+// ============================================
+
+export type OperatorHubSectionData = Pick<
+  MarketingOverviewResponse,
+  'sources' | 'recent_conversions' | 'pipeline_health' | 'device_breakdown' | 'country_breakdown' | 'pipeline_categories'
+>;
+
+export function operatorHubSections(data: OperatorHubSectionData | null): ExportSection[] {
+  if (!data) return [];
+  const sections: ExportSection[] = [];
+
+  if (data.sources?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Traffic Sources',
+      columns: [
+        { key: 'source', label: 'Source' },
+        { key: 'sessions', label: 'Sessions', format: 'number' },
+        { key: 'clicks', label: 'Clicks', format: 'number' },
+        { key: 'quotes', label: 'Quotes', format: 'number' },
+        { key: 'pipeline_value_usd', label: 'Pipeline', format: 'currency' },
+      ],
+      rows: data.sources as unknown as Record<string, unknown>[],
+    });
+  }
+
+  if (data.recent_conversions?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Recent Conversions',
+      columns: [
+        { key: 'landing_page', label: 'Landing Page' },
+        { key: 'source', label: 'Source' },
+        { key: 'event_name', label: 'Event' },
+        { key: 'event_date', label: 'Date' },
+        { key: 'value_usd', label: 'Value', format: 'currency' },
+      ],
+      rows: data.recent_conversions as unknown as Record<string, unknown>[],
+    });
+  }
+
+  if (data.pipeline_health?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Pipeline Health',
+      columns: [
+        { key: 'metric', label: 'Metric' },
+        { key: 'value', label: 'Value' },
+        { key: 'status', label: 'Status' },
+      ],
+      rows: data.pipeline_health as unknown as Record<string, unknown>[],
+    });
+  }
+
+  if (data.device_breakdown?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Audience — Devices',
+      columns: [
+        { key: 'device', label: 'Device' },
+        { key: 'sessions', label: 'Sessions', format: 'number' },
+        { key: 'percentage', label: 'Share', format: 'percent' },
+      ],
+      rows: data.device_breakdown as unknown as Record<string, unknown>[],
+    });
+  }
+  if (data.country_breakdown?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Audience — Countries',
+      columns: [
+        { key: 'country', label: 'Country' },
+        { key: 'sessions', label: 'Sessions', format: 'number' },
+        { key: 'percentage', label: 'Share', format: 'percent' },
+      ],
+      rows: data.country_breakdown as unknown as Record<string, unknown>[],
+    });
+  }
+
+  if (data.pipeline_categories?.length) {
+    sections.push({
+      type: 'table',
+      title: 'Pipeline Categories',
+      columns: [
+        { key: 'category', label: 'Category' },
+        { key: 'count', label: 'Count', format: 'number' },
+        { key: 'value_usd', label: 'Value', format: 'currency' },
+      ],
+      rows: data.pipeline_categories as unknown as Record<string, unknown>[],
+    });
+  }
+
+  return sections;
+}
+
+// ============================================
+// Core 4
+// ============================================
+
+// D-17: cells with no governed source render an em dash, never a fabricated zero.
+export const NA = '—';
+
+export interface Core4EngineRow {
+  name: string;
+  href: string;
+  subLabel?: string;
+  sessions: string;
+  clicks: string;
+  quotes: string;
+  quoteRate: string;
+  pipeline: string;
+  spend: string;
+  cac: string;
+  roas: string;
+}
+
+/** Sales Engine summary shown under the Cold Outreach row (/api/proxy/cold-outreach-summary). */
+export interface ColdOutreachSummary {
+  emailsSent: number;
+  replyRate: number;
+  leadsPushed: number;
+}
+
+function fmt(n: number | undefined, prefix = '') {
+  if (n === undefined || !isFinite(n) || isNaN(n)) return NA;
+  return prefix + n.toLocaleString(undefined, { maximumFractionDigits: 1 });
+}
+
+function fmtCurrency(n: number | undefined) {
+  if (n === undefined || !isFinite(n) || isNaN(n)) return NA;
+  return '$' + n.toLocaleString(undefined, { maximumFractionDigits: 0 });
+}
+
+function fmtPct(n: number | undefined) {
+  if (n === undefined || !isFinite(n) || isNaN(n)) return NA;
+  return n.toFixed(1) + '%';
+}
+
+const EMPTY_ENGINE_ROWS: Core4EngineRow[] = [
+  { name: 'Warm Outreach', href: '/dashboard/marketing/warm-outreach', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
+  { name: 'Cold Outreach', href: '/dashboard/marketing/cold-outreach', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
+  { name: 'SEO Summary', href: '/dashboard/marketing/seo', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
+  { name: 'Paid Summary', href: '/dashboard/marketing/paid-ads', sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA },
+];
+
+export function core4EngineRows(core4: Core4Summary | undefined, coldSummary: ColdOutreachSummary | null): Core4EngineRow[] {
+  const coldSubLabel = coldSummary
+    ? `Sales Engine · last 30d: ${coldSummary.emailsSent.toLocaleString()} emails sent · ${(coldSummary.replyRate * 100).toFixed(1)}% reply · ${coldSummary.leadsPushed.toLocaleString()} leads pushed`
+    : 'No governed session/quote source wired — engine metrics live on the Cold Outreach page';
+
+  if (!core4) {
+    return EMPTY_ENGINE_ROWS.map((row) => (row.name === 'Cold Outreach' ? { ...row, subLabel: coldSubLabel } : row));
+  }
+
+  const map: { key: keyof typeof core4; name: string; href: string }[] = [
+    { key: 'warm_outreach', name: 'Warm Outreach', href: '/dashboard/marketing/warm-outreach' },
+    { key: 'post_free_content', name: 'SEO Summary', href: '/dashboard/marketing/seo' },
+    { key: 'run_paid_ads', name: 'Paid Summary', href: '/dashboard/marketing/paid-ads' },
+  ];
+
+  const rows = map.map(({ key, name, href }) => {
+    const c = core4[key]?.current;
+    const hasSpend = (c?.spend ?? 0) > 0;
+    return {
+      name,
+      href,
+      sessions: fmt(c?.sessions),
+      clicks: fmt(c?.clicks),
+      quotes: fmt(c?.quotes),
+      quoteRate: c != null ? fmtPct(c.quote_rate * 100) : NA,
+      pipeline: fmtCurrency(c?.pipeline_value_usd),
+      spend: fmtCurrency(c?.spend),
+      // D-17: CAC/ROAS only exist where spend exists. $0-spend engines get an
+      // em dash, not a fabricated 0.
+      cac: hasSpend && c ? fmtCurrency(c.cac) : NA,
+      roas: hasSpend && c ? `${fmt(c.roas)}x` : NA,
+    };
+  });
+
+  // Cold outreach: the overview API has no governed source for this engine
+  // (sessions/quotes/pipeline were hardcoded zeros) — render em dashes plus
+  // the live Sales Engine summary as a sub-label.
+  const coldRow: Core4EngineRow = {
+    name: 'Cold Outreach',
+    href: '/dashboard/marketing/cold-outreach',
+    subLabel: coldSubLabel,
+    sessions: NA, clicks: NA, quotes: NA, quoteRate: NA, pipeline: NA, spend: NA, cac: NA, roas: NA,
+  };
+
+  return [rows[0], coldRow, rows[1], rows[2]];
+}
+
+export function core4Sections(engines: Core4EngineRow[]): ExportSection[] {
+  return [
+    {
+      type: 'table' as const,
+      title: 'Core 4 Engine Comparison',
+      columns: [
+        { key: 'name', label: 'Engine' },
+        { key: 'sessions', label: 'Sessions' },
+        { key: 'clicks', label: 'Clicks' },
+        { key: 'quotes', label: 'Quotes' },
+        { key: 'quoteRate', label: 'Quote Rate' },
+        { key: 'pipeline', label: 'Pipeline' },
+        { key: 'spend', label: 'Spend' },
+        { key: 'cac', label: 'CAC/CPA' },
+        { key: 'roas', label: 'ROAS/MER' },
+      ],
+      rows: engines.map(({ href: _href, ...rest }) => rest),
+    },
+  ];
+}
+
+// ============================================
+// Warm Outreach (QMS)
+// ============================================
+
+function formatUSD(usd: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 0, maximumFractionDigits: 0 }).format(usd);
+}
+
+function formatShortDate(iso: string | null): string {
+  if (!iso) return '—';
+  const d = new Date(iso);
+  return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function warmOutreachSections(qms: QMSAnalytics | null): ExportSection[] {
+  const sections: ExportSection[] = [];
+  const qmsAvailable = qms?.available === true;
+  const qmsPipeline = qms?.pipeline;
+  const qmsCloseRate = qms?.close_rate;
+  const qmsVelocity = qms?.velocity;
+  const qmsAging = qms?.aging;
+  const qmsDiscount = qms?.discount_usage;
+  const qmsStatusBreakdown = qms?.status_breakdown ?? [];
+  const qmsAttribution = qms?.attribution ?? [];
+  const qmsRecentDeals = qms?.recent_deals ?? [];
+
+  if (qmsAvailable && qmsPipeline) {
+    sections.push({
+      type: 'kpis',
+      title: 'QMS Pipeline Summary',
+      items: [
+        { label: 'Active Pipeline', value: formatUSD(qmsPipeline.pipeline_value_usd) },
+        { label: 'Active Deals', value: qmsPipeline.active_deals },
+        { label: 'Won Revenue', value: formatUSD(qmsPipeline.won_revenue_usd) },
+        { label: 'Avg Deal Size', value: formatUSD(qmsPipeline.avg_deal_value_usd) },
+      ],
+    });
+  }
+
+  if (qmsAvailable && qmsCloseRate) {
+    sections.push({
+      type: 'kpis',
+      title: 'Close Rate (90d)',
+      items: [
+        { label: 'Close Rate', value: `${(qmsCloseRate.rate * 100).toFixed(1)}%` },
+        { label: 'Won', value: qmsCloseRate.won },
+        { label: 'Lost', value: qmsCloseRate.lost },
+        { label: 'Open', value: qmsCloseRate.open },
+        { label: 'Total', value: qmsCloseRate.total },
+        { label: 'Won Revenue', value: formatUSD(qmsCloseRate.won_revenue_usd) },
+        { label: 'Lost Revenue', value: formatUSD(qmsCloseRate.lost_revenue_usd) },
+        ...(qmsCloseRate.decision_rate > 0 ? [{ label: 'Decision Win Rate', value: `${(qmsCloseRate.decision_rate * 100).toFixed(0)}%` }] : []),
+      ],
+    });
+  }
+
+  if (qmsAvailable && qmsVelocity) {
+    sections.push({
+      type: 'kpis',
+      title: 'Deal Velocity (90d)',
+      items: [
+        { label: 'Avg Days to Close', value: qmsVelocity.avg_days_to_close },
+        { label: 'Avg Days to Deposit', value: qmsVelocity.avg_days_to_deposit },
+        { label: 'Sample Size', value: qmsVelocity.sample_size },
+      ],
+    });
+  }
+
+  if (qmsAvailable && qmsAging) {
+    sections.push({
+      type: 'kpis',
+      title: 'Quote Aging',
+      items: [
+        { label: '0-2 Days', value: qmsAging.bucket_0_2d },
+        { label: '3-7 Days', value: qmsAging.bucket_3_7d },
+        { label: '8-14 Days', value: qmsAging.bucket_8_14d },
+        { label: '15+ Days', value: qmsAging.bucket_15_plus },
+      ],
+    });
+  }
+
+  if (qmsStatusBreakdown.length > 0) {
+    sections.push({
+      type: 'table',
+      title: 'Status Breakdown',
+      columns: [
+        { key: 'status', label: 'Status' },
+        { key: 'count', label: 'Count', format: 'number' },
+        { key: 'value_usd', label: 'Value', format: 'currency' },
+      ],
+      rows: qmsStatusBreakdown.map((s) => ({ status: s.status, count: s.count, value_usd: s.value_usd })),
+    });
+  }
+
+  if (qmsAvailable && qms?.click_to_quote) {
+    const ctq = qms.click_to_quote;
+    sections.push({
+      type: 'kpis',
+      title: 'Click-to-Quote Rate (90d)',
+      items: [
+        { label: 'Blended Rate', value: `${(ctq.blended_rate * 100).toFixed(2)}%` },
+        { label: 'Total Quotes', value: ctq.total_quotes },
+        { label: 'Organic Rate', value: `${(ctq.organic_rate * 100).toFixed(2)}%` },
+        { label: 'Organic Clicks', value: ctq.organic_clicks },
+        { label: 'Organic Quotes', value: ctq.organic_quotes },
+        { label: 'Paid Rate', value: `${(ctq.paid_rate * 100).toFixed(2)}%` },
+        { label: 'Paid Clicks', value: ctq.paid_clicks },
+        { label: 'Paid Quotes', value: ctq.paid_quotes },
+      ],
+    });
+  }
+
+  if (qmsAvailable && qmsDiscount) {
+    sections.push({
+      type: 'kpis',
+      title: 'Discount Usage (90d)',
+      items: [
+        { label: 'With Discount', value: qmsDiscount.with_discount },
+        { label: 'Redeemed', value: qmsDiscount.discount_redeemed },
+        { label: 'Total', value: qmsDiscount.total },
+        { label: 'Offer Rate', value: qmsDiscount.total > 0 ? `${((qmsDiscount.with_discount / qmsDiscount.total) * 100).toFixed(0)}%` : '0%' },
+        ...(qmsDiscount.avg_discount_pct > 0 ? [{ label: 'Avg Discount', value: `${qmsDiscount.avg_discount_pct}%` }] : []),
+      ],
+    });
+  }
+
+  if (qmsAttribution.length > 0) {
+    sections.push({
+      type: 'table',
+      title: 'Source Attribution',
+      columns: [
+        { key: 'source', label: 'Source' },
+        { key: 'count', label: 'Quotes', format: 'number' },
+        { key: 'value_usd', label: 'Pipeline', format: 'currency' },
+        { key: 'won', label: 'Won', format: 'number' },
+      ],
+      rows: qmsAttribution.map((a) => ({ source: a.source, count: a.count, value_usd: a.value_usd, won: a.won })),
+    });
+  }
+
+  if (qmsRecentDeals.length > 0) {
+    sections.push({
+      type: 'table',
+      title: 'Recent Deals',
+      columns: [
+        { key: 'quote_number', label: 'Quote #' },
+        { key: 'customer_name', label: 'Customer' },
+        { key: 'status', label: 'Status' },
+        { key: 'total_price_usd', label: 'Value', format: 'currency' },
+        { key: 'sign_type', label: 'Type' },
+        { key: 'updated_at', label: 'Updated' },
+      ],
+      rows: qmsRecentDeals.map((d) => ({
+        quote_number: d.quote_number,
+        customer_name: d.customer_name ?? '',
+        status: d.status,
+        total_price_usd: d.total_price_usd,
+        sign_type: d.sign_type ?? '',
+        updated_at: d.updated_at ? formatShortDate(d.updated_at) : '',
+      })),
+    });
+  }
+
+  return sections;
+}
+
+// ============================================
+// SEO North Star
+// ============================================
+
+export function seoNorthStarSections(
+  northStar: SeoNorthStar | null,
+  pipeline: SeoPipelineCounts | null,
+): ExportSection[] {
+  const sections: ExportSection[] = [];
+
+  if (northStar) {
+    sections.push({
+      type: 'kpis',
+      title: 'North Star (28d)',
+      items: [
+        { label: 'Clicks 28d', value: northStar.total_clicks_28d.toLocaleString('en-US') },
+        { label: 'Clicks prev 28d', value: Number(northStar.clicks_prev28d ?? 0).toLocaleString('en-US') },
+        { label: 'Clicks change', value: `${northStar.clicks_delta_pct.toFixed(1)}%` },
+        { label: '% Page 1', value: `${northStar.pct_page_one.toFixed(1)}%` },
+        { label: 'Top-10 pages', value: Number(northStar.ranked_top10 ?? 0).toLocaleString('en-US') },
+        { label: 'Pages with traffic', value: Number(northStar.pages_with_traffic ?? 0).toLocaleString('en-US') },
+        { label: 'Improving pages', value: northStar.improving_pages },
+        { label: 'Declining pages', value: northStar.declining_pages },
+        { label: 'Data as of', value: northStar.data_freshness_at.slice(0, 10) },
+      ],
+    });
+  }
+
+  if (pipeline) {
+    sections.push({
+      type: 'table',
+      title: 'Page Pipeline',
+      columns: [
+        { key: 'stage', label: 'Stage' },
+        { key: 'pages', label: 'Pages', format: 'number' },
+      ],
+      rows: [
+        { stage: 'Review', pages: pipeline.review },
+        { stage: 'In Evaluation', pages: pipeline.evaluation },
+        { stage: 'Resolved', pages: pipeline.resolved },
+      ],
+    });
+  }
+
+  return sections;
+}
@@ -0,0 +1,268 @@
+/**
+ * Marketing Scheduled Reports — dashboard catalog, report periods, send
+ * dates and schedule validation.
+ *
+ * A schedule names a dashboard, a period and a cadence (weekly on a weekday
+ * or monthly on a day of the month, both in UTC). The daily cron
+ * (/api/cron/marketing-reports) runs every schedule whose next_run_at has
+ * passed; services/marketingReports.ts builds the dashboard's ExportSection[]
+ * (lib/marketing-report-sections.ts), renders PDF and/or CSV
+ * (lib/exportDocuments.ts) and emails it or drops it in storage.
+ *
+ * Schedules are managed from /dashboard/marketing/reports by holders of the
+ * bootstrap permission marketing:reports:manage, enforced server-side.
+ */
+
+import type {
+  MarketingReportCadence,
+  MarketingReportDashboard,
+  MarketingReportDelivery,
+  MarketingReportFormat,
+  MarketingReportPeriod,
+} from '../types/activity-spine';
+
+export const REPORTS_MANAGE_PERMISSION = 'marketing:reports:manage';
+
+export interface ReportDashboardDef {
+  label: string;
+  /** Title on the PDF and the email subject. */
+  title: string;
+  path: string;
+  /** Shown next to the period when the dashboard ignores it. */
+  periodNote?: string;
+}
+
+export const REPORT_DASHBOARDS: Record<MarketingReportDashboard, ReportDashboardDef> = {
+  operator_hub: { label: 'Operator Hub', title: 'Operator Hub', path: '/dashboard/marketing/operator' },
+  core4: { label: 'Core 4', title: 'Core 4 Engine Comparison', path: '/dashboard/marketing/core4' },
+  warm_outreach: { label: 'Warm Outreach', title: 'Warm Outreach', path: '/dashboard/marketing/warm-outreach' },
+  seo_north_star: {
+    label: 'SEO North Star',
+    title: 'SEO North Star',
+    path: '/dashboard/seo',
+    periodNote: 'North Star is a rolling 28-day view',
+  },
+};
+
+export const REPORT_PERIODS: Record<MarketingReportPeriod, string> = {
+  previous_week: 'Previous week (Mon–Sun)',
+  previous_month: 'Previous calendar month',
+  last_7d: 'Last 7 days',
+  last_30d: 'Last 30 days',
+  last_90d: 'Last 90 days',
+  month_to_date: 'Month to date',
+};
+
+export const REPORT_CADENCES: MarketingReportCadence[] = ['weekly', 'monthly'];
+export const REPORT_FORMATS: MarketingReportFormat[] = ['pdf', 'csv'];
+export const REPORT_DELIVERY: MarketingReportDelivery[] = ['email', 'storage'];
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DAY_MS = 86_400_000;
+const MAX_NAME = 120;
+const MAX_RECIPIENTS = 20;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export interface ReportPeriodRange {
+  start: string;
+  end: string;
+}
+
+function isoDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function utcMidnight(d: Date): number {
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+}
+
+/** The date range a report sent at `sentAt` covers. */
+export function reportPeriodRange(period: MarketingReportPeriod, sentAt: Date): ReportPeriodRange {
+  const today = utcMidnight(sentAt);
+  const yesterday = today - DAY_MS;
+  const y = sentAt.getUTCFullYear();
+  const m = sentAt.getUTCMonth();
+
+  switch (period) {
+    case 'previous_week': {
+      // Monday-based weeks: the last Sunday before today ends the week.
+      const sinceMonday = (sentAt.getUTCDay() + 6) % 7;
+      const thisMonday = today - sinceMonday * DAY_MS;
+      return { start: isoDay(thisMonday - 7 * DAY_MS), end: isoDay(thisMonday - DAY_MS) };
+    }
+    case 'previous_month':
+      return { start: isoDay(Date.UTC(y, m - 1, 1)), end: isoDay(Date.UTC(y, m, 0)) };
+    case 'month_to_date':
+      // On the 1st there is no complete day this month yet: report last month.
+      if (sentAt.getUTCDate() === 1) return reportPeriodRange('previous_month', sentAt);
+      return { start: isoDay(Date.UTC(y, m, 1)), end: isoDay(yesterday) };
+    case 'last_7d':
+    case 'last_30d':
+    case 'last_90d': {
+      const days = Number(period.slice(5, -1));
+      return { start: isoDay(today - days * DAY_MS), end: isoDay(yesterday) };
+    }
+  }
+}
+
+/** Same-length range immediately before `range`, for period-over-period deltas. */
+export function previousPeriodRange(range: ReportPeriodRange): ReportPeriodRange {
+  const start = new Date(`${range.start}T00:00:00Z`).getTime();
+  const end = new Date(`${range.end}T00:00:00Z`).getTime();
+  return { start: isoDay(start - (end - start) - DAY_MS), end: isoDay(start - DAY_MS) };
+}
+
+/**
+ * First send date (00:00 UTC) strictly after `after`. The daily cron picks a
+ * schedule up on the first run at or after that instant.
+ */
+export function nextReportRun(
+  schedule: { cadence: MarketingReportCadence; weekday: number | null; day_of_month: number | null },
+  after: Date,
+): Date {
+  let day = utcMidnight(after) + DAY_MS;
+  for (let i = 0; i < 62; i++, day += DAY_MS) {
+    const d = new Date(day);
+    if (schedule.cadence === 'weekly' ? d.getUTCDay() === (schedule.weekday ?? 1) : d.getUTCDate() === (schedule.day_of_month ?? 1)) {
+      return d;
+    }
+  }
+  throw new Error('No send date within 62 days');
+}
+
+export function describeSchedule(s: { cadence: MarketingReportCadence; weekday: number | null; day_of_month: number | null }): string {
+  return s.cadence === 'weekly'
+    ? `Weekly on ${WEEKDAY_LABELS[s.weekday ?? 1]}`
+    : `Monthly on day ${s.day_of_month ?? 1}`;
+}
+
+export interface ReportScheduleInput {
+  name: string;
+  dashboard: MarketingReportDashboard;
+  period: MarketingReportPeriod;
+  cadence: MarketingReportCadence;
+  weekday: number | null;
+  day_of_month: number | null;
+  formats: MarketingReportFormat[];
+  delivery: MarketingReportDelivery[];
+  recipients: string[];
+  enabled: boolean;
+}
+
+function subset<T extends string>(raw: unknown, allowed: T[], field: string): { value: T[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { error: `${field} must be a non-empty array` };
+  const out: T[] = [];
+  for (const v of raw) {
+    if (!allowed.includes(v as T)) return { error: `${field} must only contain: ${allowed.join(', ')}` };
+    if (!out.includes(v as T)) out.push(v as T);
+  }
+  return { value: out };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) body.
+ * Cross-field rules (weekday for weekly, recipients for email) are checked
+ * on the merged schedule with checkReportSchedule.
+ */
+export function validateReportScheduleInput(
+  body: unknown,
+  partial: boolean,
+): { value: Partial<ReportScheduleInput> } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Record<string, unknown>;
+  const out: Partial<ReportScheduleInput> = {};
+
+  if (b.name !== undefined || !partial) {
+    const name = typeof b.name === 'string' ? b.name.trim().slice(0, MAX_NAME) : '';
+    if (!name) return { error: 'name is required' };
+    out.name = name;
+  }
+
+  if (b.dashboard !== undefined || !partial) {
+    if (typeof b.dashboard !== 'string' || !(b.dashboard in REPORT_DASHBOARDS)) {
+      return { error: `dashboard must be one of: ${Object.keys(REPORT_DASHBOARDS).join(', ')}` };
+    }
+    out.dashboard = b.dashboard as MarketingReportDashboard;
+  }
+
+  if (b.period !== undefined || !partial) {
+    if (typeof b.period !== 'string' || !(b.period in REPORT_PERIODS)) {
+      return { error: `period must be one of: ${Object.keys(REPORT_PERIODS).join(', ')}` };
+    }
+    out.period = b.period as MarketingReportPeriod;
+  }
+
+  if (b.cadence !== undefined || !partial) {
+    if (!REPORT_CADENCES.includes(b.cadence as MarketingReportCadence)) {
+      return { error: `cadence must be one of: ${REPORT_CADENCES.join(', ')}` };
+    }
+    out.cadence = b.cadence as MarketingReportCadence;
+  }
+
+  if (b.weekday !== undefined) {
+    if (b.weekday !== null && (!Number.isInteger(b.weekday) || (b.weekday as number) < 0 || (b.weekday as number) > 6)) {
+      return { error: 'weekday must be an integer from 0 (Sunday) to 6' };
+    }
+    out.weekday = b.weekday as number | null;
+  } else if (!partial) {
+    out.weekday = null;
+  }
+
+  if (b.day_of_month !== undefined) {
+    if (b.day_of_month !== null && (!Number.isInteger(b.day_of_month) || (b.day_of_month as number) < 1 || (b.day_of_month as number) > 28)) {
+      return { error: 'day_of_month must be an integer from 1 to 28' };
+    }
+    out.day_of_month = b.day_of_month as number | null;
+  } else if (!partial) {
+    out.day_of_month = null;
+  }
+
+  if (b.formats !== undefined || !partial) {
+    const formats = subset(b.formats, REPORT_FORMATS, 'formats');
+    if ('error' in formats) return formats;
+    out.formats = formats.value;
+  }
+
+  if (b.delivery !== undefined || !partial) {
+    const delivery = subset(b.delivery, REPORT_DELIVERY, 'delivery');
+    if ('error' in delivery) return delivery;
+    out.delivery = delivery.value;
+  }
+
+  if (b.recipients !== undefined || !partial) {
+    const raw = b.recipients ?? [];
+    if (!Array.isArray(raw)) return { error: 'recipients must be an array of email addresses' };
+    const recipients: string[] = [];
+    for (const r of raw) {
+      const email = typeof r === 'string' ? r.trim().toLowerCase() : '';
+      if (!EMAIL_RE.test(email)) return { error: `Invalid recipient: ${String(r)}` };
+      if (!recipients.includes(email)) recipients.push(email);
+    }
+    if (recipients.length > MAX_RECIPIENTS) return { error: `At most ${MAX_RECIPIENTS} recipients` };
+    out.recipients = recipients;
+  }
+
+  if (b.enabled !== undefined) {
+    if (typeof b.enabled !== 'boolean') return { error: 'enabled must be a boolean' };
+    out.enabled = b.enabled;
+  } else if (!partial) {
+    out.enabled = true;
+  }
+
+  return { value: out };
+}
+
+/** Cross-field rules on a complete schedule; returns an error message or null. */
+export function checkReportSchedule(s: ReportScheduleInput): string | null {
+  if (s.cadence === 'weekly' && s.weekday == null) return 'weekday is required for a weekly schedule';
+  if (s.cadence === 'monthly' && s.day_of_month == null) return 'day_of_month is required for a monthly schedule';
+  if (s.delivery.includes('email') && s.recipients.length === 0) return 'Email delivery needs at least one recipient';
+  return null;
+}
+
+/** Attachment / object name, e.g. operator-hub_2026-10-05_2026-10-11.pdf */
+export function reportFilename(dashboard: MarketingReportDashboard, range: ReportPeriodRange, format: MarketingReportFormat): string {
+  const slug = REPORT_DASHBOARDS[dashboard].label.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `${slug}_${range.start}_${range.end}.${format}`;
+}
@@ -0,0 +1,192 @@
+/**
+ * Marketing Saved Views — input validation and URL encoding for named
+ * dashboard states.
+ *
+ * A saved view captures what the marketing layout keeps in its URL and
+ * GlobalFilters: the period (app/dashboard/marketing/lib/period.ts), the
+ * MarketingFilters dimensions, the comparison mode and the sub-page. Views
+ * are stored in analytics.marketing_saved_views by
+ * services/marketingSavedViews.ts, either for their owner (scope 'user') or
+ * for everyone in the owner's bootstrap organization (scope 'team'). Each
+ * view has a short share_slug; /dashboard/views/:slug resolves it and opens
+ * savedViewHref(state).
+ */
+
+import type {
+  MarketingViewComparisonMode,
+  MarketingFilterKey,
+  MarketingSavedViewScope,
+  MarketingSavedViewState,
+} from '../types/activity-spine';
+
+export const SAVED_VIEW_BASE_PATH = '/dashboard/marketing';
+
+export const MARKETING_FILTER_KEYS: MarketingFilterKey[] = ['channel', 'campaign', 'device', 'geo', 'landing_page'];
+
+export const SAVED_VIEW_SCOPES: MarketingSavedViewScope[] = ['user', 'team'];
+
+const COMPARISON_MODES: MarketingViewComparisonMode[] = ['prev', 'wow', 'mom'];
+
+/** UI presets accepted by parsePeriodState. */
+const PERIOD_PRESETS = [
+  'daily', 'weekly', 'monthly', 'quarterly', 'yearly',
+  'last_7d', 'last_30d', 'last_90d', 'mtd', 'qtd', 'ytd',
+];
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const PATH_RE = /^\/dashboard\/marketing(\/[a-z0-9-]+)*$/;
+const MAX_NAME = 120;
+const MAX_FILTER_VALUE = 300;
+const SLUG_ALPHABET = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ';
+export const SHARE_SLUG_LENGTH = 10;
+const SLUG_RE = /^[0-9a-zA-Z]{6,32}$/;
+
+/** Matches DEFAULT_STATE in app/dashboard/marketing/lib/period.ts. */
+export const DEFAULT_VIEW_STATE: MarketingSavedViewState = {
+  path: SAVED_VIEW_BASE_PATH,
+  period: { mode: 'preset', preset: 'monthly', start: '', end: '', compare: true, include_timeseries: false, view: 'operator' },
+  comparison_mode: 'prev',
+  filters: {},
+};
+
+export interface SavedViewInput {
+  name: string;
+  scope: MarketingSavedViewScope;
+  state: MarketingSavedViewState;
+  is_default: boolean;
+}
+
+/** Checks and normalizes a stored or submitted view state. */
+export function validateViewState(raw: unknown): { value: MarketingSavedViewState } | { error: string } {
+  if (!raw || typeof raw !== 'object') return { error: 'state must be an object' };
+  const s = raw as Record<string, unknown>;
+
+  const path = typeof s.path === 'string' ? s.path.replace(/\/+$/, '') || SAVED_VIEW_BASE_PATH : SAVED_VIEW_BASE_PATH;
+  if (!PATH_RE.test(path)) return { error: `state.path must be a page under ${SAVED_VIEW_BASE_PATH}` };
+
+  const p = (s.period && typeof s.period === 'object' ? s.period : {}) as Record<string, unknown>;
+  const mode = p.mode === 'range' ? 'range' : 'preset';
+  const preset = typeof p.preset === 'string' && PERIOD_PRESETS.includes(p.preset) ? p.preset : 'monthly';
+  const start = typeof p.start === 'string' ? p.start : '';
+  const end = typeof p.end === 'string' ? p.end : '';
+  if (mode === 'range') {
+    if (!ISO_DATE_RE.test(start) || !ISO_DATE_RE.test(end)) {
+      return { error: 'state.period.start and end must be YYYY-MM-DD for a custom range' };
+    }
+    if (end < start) return { error: 'state.period.end must not be before start' };
+  }
+
+  const comparison = COMPARISON_MODES.includes(s.comparison_mode as MarketingViewComparisonMode)
+    ? (s.comparison_mode as MarketingViewComparisonMode)
+    : 'prev';
+
+  const filters: MarketingSavedViewState['filters'] = {};
+  const rawFilters = (s.filters && typeof s.filters === 'object' ? s.filters : {}) as Record<string, unknown>;
+  for (const key of MARKETING_FILTER_KEYS) {
+    const v = rawFilters[key];
+    if (typeof v === 'string' && v.trim() !== '') filters[key] = v.trim().slice(0, MAX_FILTER_VALUE);
+  }
+
+  return {
+    value: {
+      path,
+      period: {
+        mode,
+        preset,
+        start: mode === 'range' ? start : '',
+        end: mode === 'range' ? end : '',
+        compare: p.compare !== false,
+        include_timeseries: p.include_timeseries === true,
+        view: p.view === 'executive' ? 'executive' : 'operator',
+      },
+      comparison_mode: comparison,
+      filters,
+    },
+  };
+}
+
+/**
+ * Validates a create (partial = false) or update (partial = true) body.
+ * Unknown fields are ignored.
+ */
+export function validateSavedViewInput(
+  body: unknown,
+  partial: boolean,
+): { value: Partial<SavedViewInput> } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Request body must be an object' };
+  const b = body as Record<string, unknown>;
+  const out: Partial<SavedViewInput> = {};
+
+  if (b.name !== undefined || !partial) {
+    const name = typeof b.name === 'string' ? b.name.trim().slice(0, MAX_NAME) : '';
+    if (!name) return { error: 'name is required' };
+    out.name = name;
+  }
+
+  if (b.scope !== undefined || !partial) {
+    const scope = b.scope ?? 'user';
+    if (!SAVED_VIEW_SCOPES.includes(scope as MarketingSavedViewScope)) {
+      return { error: `scope must be one of: ${SAVED_VIEW_SCOPES.join(', ')}` };
+    }
+    out.scope = scope as MarketingSavedViewScope;
+  }
+
+  if (b.state !== undefined || !partial) {
+    const state = validateViewState(b.state);
+    if ('error' in state) return state;
+    out.state = state.value;
+  }
+
+  if (b.is_default !== undefined) {
+    if (typeof b.is_default !== 'boolean') return { error: 'is_default must be a boolean' };
+    out.is_default = b.is_default;
+  } else if (!partial) {
+    out.is_default = false;
+  }
+
+  return { value: out };
+}
+
+/**
+ * The query string the marketing layout reads back (parsePeriodState,
+ * parseComparisonMode, parseFilterState).
+ */
+export function savedViewSearchParams(state: MarketingSavedViewState): URLSearchParams {
+  const sp = new URLSearchParams();
+  const p = state.period;
+  if (p.mode === 'range' && p.start && p.end) {
+    sp.set('start', p.start);
+    sp.set('end', p.end);
+  } else {
+    sp.set('preset', p.preset);
+  }
+  if (p.include_timeseries) sp.set('include_timeseries', 'true');
+  if (!p.compare) sp.set('compare', 'false');
+  if (p.view === 'executive') sp.set('view', 'executive');
+  if (state.comparison_mode !== 'prev') sp.set('comparison', state.comparison_mode);
+  for (const key of MARKETING_FILTER_KEYS) {
+    const v = state.filters[key];
+    if (v) sp.set(key, v);
+  }
+  return sp;
+}
+
+/** Sub-page plus query string that reproduces the saved state. */
+export function savedViewHref(state: MarketingSavedViewState): string {
+  return `${state.path}?${savedViewSearchParams(state).toString()}`;
+}
+
+export function sharePath(slug: string): string {
+  return `/dashboard/views/${slug}`;
+}
+
+export function isShareSlug(v: unknown): v is string {
+  return typeof v === 'string' && SLUG_RE.test(v);
+}
+
+/** Encodes random bytes (one per character) as a base62 share slug. */
+export function shareSlugFromBytes(bytes: Uint8Array): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += SLUG_ALPHABET[bytes[i] % SLUG_ALPHABET.length];
+  return out;
+}
@@ -0,0 +1,175 @@
+/**
+ * Marketing Targets — metric definitions, defaults and period resolution.
+ *
+ * Targets are stored per metric per calendar month in
+ * analytics.marketing_targets; a month without a row uses the default below
+ * (the values that used to be hardcoded in the dashboard). Resolving a target
+ * for an arbitrary date range prorates each month by the share of its days
+ * that fall in the range, so a 10-day window in a 10k-sessions month gets a
+ * ~3.3k target and a range spanning two months mixes both months' targets.
+ *
+ * Rate targets (ROAS, CPC, CTR) are not prorated: the range target is the
+ * day-weighted average of the months it spans.
+ */
+
+import type { MarketingTarget, MarketingTargetMetric } from '../types/activity-spine';
+
+/** Bootstrap permission required to edit targets (/dashboard/marketing/targets). */
+export const TARGETS_EDIT_PERMISSION = 'marketing:targets:edit';
+
+export type MarketingTargetKind = 'volume' | 'rate';
+
+export interface MarketingTargetDefinition {
+  metric: MarketingTargetMetric;
+  label: string;
+  kind: MarketingTargetKind;
+  format: 'number' | 'usd' | 'ratio' | 'pct';
+  defaultValue: number;
+}
+
+export const TARGET_DEFINITIONS: MarketingTargetDefinition[] = [
+  { metric: 'sessions', label: 'Sessions Target', kind: 'volume', format: 'number', defaultValue: 10000 },
+  { metric: 'submissions', label: 'Submissions Target', kind: 'volume', format: 'number', defaultValue: 150 },
+  { metric: 'pipeline_value_usd', label: 'Pipeline Target', kind: 'volume', format: 'usd', defaultValue: 50000 },
+  { metric: 'impressions', label: 'Impressions Target', kind: 'volume', format: 'number', defaultValue: 200000 },
+  { metric: 'clicks', label: 'Clicks Target', kind: 'volume', format: 'number', defaultValue: 5000 },
+  { metric: 'monthly_budget_usd', label: 'Ad Budget', kind: 'volume', format: 'usd', defaultValue: 5000 },
+  { metric: 'roas', label: 'ROAS Target', kind: 'rate', format: 'ratio', defaultValue: 3.0 },
+  { metric: 'cpc_target_usd', label: 'CPC Target', kind: 'rate', format: 'usd', defaultValue: 2.5 },
+  { metric: 'ctr_target_pct', label: 'CTR Target', kind: 'rate', format: 'pct', defaultValue: 5.0 },
+];
+
+const DEFINITIONS = new Map(TARGET_DEFINITIONS.map((d) => [d.metric, d]));
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_RE = /^(\d{4})-(\d{2})(?:-01)?$/;
+const DAY_MS = 86400000;
+const MAX_UPDATES = 500;
+
+export function getTargetDefinition(metric: string): MarketingTargetDefinition | undefined {
+  return DEFINITIONS.get(metric as MarketingTargetMetric);
+}
+
+/** First day of the month containing `date`, YYYY-MM-01. */
+export function monthOf(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function daysInMonth(month: string): number {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(y, m, 0)).getUTCDate();
+}
+
+function dayNumber(date: string): number {
+  return Math.round(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+}
+
+function nextMonth(month: string): string {
+  const [y, m] = month.split('-').map(Number);
+  return new Date(Date.UTC(y, m, 1)).toISOString().slice(0, 10);
+}
+
+/** Months (YYYY-MM-01) overlapping start..end, inclusive. */
+export function monthsInRange(start: string, end: string): string[] {
+  const months: string[] = [];
+  for (let m = monthOf(start); m <= end; m = nextMonth(m)) months.push(m);
+  return months;
+}
+
+/** The stored value for a month, or the metric's default. */
+export function targetForMonth(
+  targets: MarketingTarget[],
+  metric: MarketingTargetMetric,
+  month: string,
+): { value: number; stored: boolean } {
+  const row = targets.find((t) => t.metric === metric && t.month === month);
+  if (row) return { value: row.value, stored: true };
+  return { value: DEFINITIONS.get(metric)?.defaultValue ?? 0, stored: false };
+}
+
+export interface ResolvedTarget {
+  metric: MarketingTargetMetric;
+  label: string;
+  kind: MarketingTargetKind;
+  /** Target for the whole range: prorated sum (volume) or day-weighted average (rate). */
+  total: number;
+  /** Average per-day target over the range (equal to total for rate targets). */
+  daily: number;
+  /** Full-month target for the month containing the range end. */
+  monthly: number;
+  /** True when the range does not cover whole calendar months. */
+  prorated: boolean;
+  days: number;
+  months: Array<{ month: string; value: number; days: number; stored: boolean }>;
+}
+
+export function resolveTarget(
+  targets: MarketingTarget[],
+  metric: string,
+  start: string,
+  end: string,
+): ResolvedTarget | null {
+  const def = DEFINITIONS.get(metric as MarketingTargetMetric);
+  if (!def || end < start) return null;
+
+  const first = dayNumber(start);
+  const last = dayNumber(end);
+  const days = last - first + 1;
+  let prorated = false;
+  let total = 0;
+  const months: ResolvedTarget['months'] = [];
+
+  for (const month of monthsInRange(start, end)) {
+    const monthDays = daysInMonth(month);
+    const monthFirst = dayNumber(month);
+    const overlap = Math.min(last, monthFirst + monthDays - 1) - Math.max(first, monthFirst) + 1;
+    if (overlap < monthDays) prorated = true;
+    const { value, stored } = targetForMonth(targets, def.metric, month);
+    months.push({ month, value, days: overlap, stored });
+    total += def.kind === 'volume' ? (value * overlap) / monthDays : (value * overlap) / days;
+  }
+
+  return {
+    metric: def.metric,
+    label: def.label,
+    kind: def.kind,
+    total,
+    daily: def.kind === 'volume' ? total / days : total,
+    monthly: months[months.length - 1].value,
+    prorated,
+    days,
+    months,
+  };
+}
+
+export interface TargetUpdate {
+  metric: MarketingTargetMetric;
+  month: string;
+  /** null clears the stored value so the month falls back to the default. */
+  value: number | null;
+}
+
+export function validateTargetUpdates(body: unknown): { value: TargetUpdate[] } | { error: string } {
+  const list = (body as { targets?: unknown })?.targets;
+  if (!Array.isArray(list) || list.length === 0) return { error: 'targets must be a non-empty array' };
+  if (list.length > MAX_UPDATES) return { error: `At most ${MAX_UPDATES} targets per request` };
+
+  const out: TargetUpdate[] = [];
+  for (const item of list) {
+    const t = item as Record<string, unknown>;
+    if (!DEFINITIONS.has(t?.metric as MarketingTargetMetric)) return { error: `Unknown metric: ${String(t?.metric)}` };
+    const match = typeof t.month === 'string' ? MONTH_RE.exec(t.month) : null;
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return { error: `month must be YYYY-MM: ${String(t.month)}` };
+    }
+    if (t.value !== null && (typeof t.value !== 'number' || !Number.isFinite(t.value) || t.value < 0)) {
+      return { error: `value must be a non-negative number or null (${t.metric} ${t.month})` };
+    }
+    out.push({ metric: t.metric as MarketingTargetMetric, month: `${match[1]}-${match[2]}-01`, value: t.value as number | null });
+  }
+  return { value: out };
+}
+
+export function isIsoDate(v: string | null): v is string {
+  return v != null && ISO_DATE_RE.test(v);
+}
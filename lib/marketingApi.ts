@@ -0,0 +1,186 @@
+'use client';
+
+import type {
+  MarketingExperiment,
+  MarketingReportRun,
+  MarketingReportSchedule,
+  MarketingReportsResponse,
+  MarketingSavedView,
+  MarketingSavedViewScope,
+  MarketingSavedViewState,
+  MarketingTarget,
+} from '../types/activity-spine';
+import type { TargetUpdate } from './marketing-targets';
+import type { ReportScheduleInput } from './marketing-reports';
+
+export type MarketingExperimentInput = Pick<
+  MarketingExperiment,
+  'name' | 'engine' | 'target_metric' | 'hypothesis' | 'change_made' | 'start_date' | 'end_date' | 'decision' | 'notes'
+> & { owner?: string | null };
+
+function getHeaders(): HeadersInit {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (typeof window !== 'undefined') {
+    const windowWithToken = window as unknown as { __NSD_AUTH_TOKEN__?: string; __SALES_ENGINE_TOKEN__?: string };
+    const token =
+      windowWithToken.__NSD_AUTH_TOKEN__ ||
+      windowWithToken.__SALES_ENGINE_TOKEN__ ||
+      process.env.NEXT_PUBLIC_NSD_DEV_JWT;
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+  }
+  return headers;
+}
+
+async function marketingFetch<T>(url: string, options?: RequestInit): Promise<T> {
+  const res = await fetch(url, {
+    ...options,
+    headers: {
+      ...getHeaders(),
+      ...(options?.headers || {}),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Marketing API error ${res.status}`);
+  }
+  return res.json();
+}
+
+const EXPERIMENTS_URL = '/api/activity-spine/marketing/experiments';
+
+export async function listExperiments(): Promise<MarketingExperiment[]> {
+  const data = await marketingFetch<{ data: MarketingExperiment[] }>(EXPERIMENTS_URL);
+  return data.data ?? [];
+}
+
+export async function createExperiment(input: MarketingExperimentInput): Promise<MarketingExperiment> {
+  const data = await marketingFetch<{ data: MarketingExperiment }>(EXPERIMENTS_URL, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.data;
+}
+
+export async function updateExperiment(
+  id: string,
+  patch: Partial<MarketingExperimentInput>,
+): Promise<MarketingExperiment> {
+  const data = await marketingFetch<{ data: MarketingExperiment }>(`${EXPERIMENTS_URL}/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+  });
+  return data.data;
+}
+
+export async function deleteExperiment(id: string): Promise<void> {
+  await marketingFetch(`${EXPERIMENTS_URL}/${id}`, { method: 'DELETE' });
+}
+
+export async function measureExperiment(id: string): Promise<MarketingExperiment> {
+  const data = await marketingFetch<{ data: MarketingExperiment }>(`${EXPERIMENTS_URL}/${id}/measure`, {
+    method: 'POST',
+  });
+  return data.data;
+}
+
+const TARGETS_URL = '/api/activity-spine/marketing/targets';
+
+export async function getTargets(start: string, end: string): Promise<MarketingTarget[]> {
+  const data = await marketingFetch<{ data: MarketingTarget[] }>(`${TARGETS_URL}?start=${start}&end=${end}`);
+  return data.data ?? [];
+}
+
+export async function saveTargets(targets: TargetUpdate[]): Promise<number> {
+  const data = await marketingFetch<{ data: { updated: number } }>(TARGETS_URL, {
+    method: 'PUT',
+    body: JSON.stringify({ targets }),
+  });
+  return data.data.updated;
+}
+
+const SAVED_VIEWS_URL = '/api/activity-spine/marketing/saved-views';
+
+export interface SavedViewCreateInput {
+  name: string;
+  scope: MarketingSavedViewScope;
+  state: MarketingSavedViewState;
+  is_default?: boolean;
+}
+
+export async function listSavedViews(): Promise<MarketingSavedView[]> {
+  const data = await marketingFetch<{ data: MarketingSavedView[] }>(SAVED_VIEWS_URL);
+  return data.data ?? [];
+}
+
+export async function createSavedView(input: SavedViewCreateInput): Promise<MarketingSavedView> {
+  const data = await marketingFetch<{ data: MarketingSavedView }>(SAVED_VIEWS_URL, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.data;
+}
+
+export async function updateSavedView(
+  id: string,
+  patch: Partial<SavedViewCreateInput>,
+): Promise<MarketingSavedView> {
+  const data = await marketingFetch<{ data: MarketingSavedView }>(`${SAVED_VIEWS_URL}/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+  });
+  return data.data;
+}
+
+export async function deleteSavedView(id: string): Promise<void> {
+  await marketingFetch(`${SAVED_VIEWS_URL}/${id}`, { method: 'DELETE' });
+}
+
+/** The saved view behind a share link, with the dashboard URL it opens. */
+export async function resolveSavedViewLink(slug: string): Promise<{ view: MarketingSavedView; href: string }> {
+  const data = await marketingFetch<{ data: MarketingSavedView; meta: { href: string } }>(
+    `${SAVED_VIEWS_URL}/share/${encodeURIComponent(slug)}`,
+  );
+  return { view: data.data, href: data.meta.href };
+}
+
+const REPORTS_URL = '/api/activity-spine/marketing/reports';
+
+export async function listReports(): Promise<MarketingReportsResponse> {
+  const data = await marketingFetch<{ data: MarketingReportsResponse }>(REPORTS_URL);
+  return data.data ?? { schedules: [], runs: [] };
+}
+
+export async function createReportSchedule(input: ReportScheduleInput): Promise<MarketingReportSchedule> {
+  const data = await marketingFetch<{ data: MarketingReportSchedule }>(REPORTS_URL, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return data.data;
+}
+
+export async function updateReportSchedule(
+  id: string,
+  patch: Partial<ReportScheduleInput>,
+): Promise<MarketingReportSchedule> {
+  const data = await marketingFetch<{ data: MarketingReportSchedule }>(`${REPORTS_URL}/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(patch),
+  });
+  return data.data;
+}
+
+export async function deleteReportSchedule(id: string): Promise<void> {
+  await marketingFetch(`${REPORTS_URL}/${id}`, { method: 'DELETE' });
+}
+
+/** Sends the schedule's report now; the run's status says whether it was delivered. */
+export async function sendReportNow(id: string): Promise<MarketingReportRun> {
+  const data = await marketingFetch<{ data: MarketingReportRun }>(`${REPORTS_URL}/${id}/send`, {
+    method: 'POST',
+  });
+  return data.data;
+}
@@ -0,0 +1,95 @@
+/**
+ * QMS Stage Durations — transition history math over analytics.raw_qms_deal_events
+ *
+ * The QMS deal event log holds one row per lifecycle event a quote emitted
+ * (Quote Submitted → Deposit Paid → Quote Paid …). These helpers turn a
+ * quote's ordered events into status transitions and time-in-stage totals.
+ *
+ * Events that repeat the current status (follow-up sent, discount applied)
+ * are not transitions: they are folded into the stage already in progress.
+ * The last stage is open-ended and is measured up to `now` unless the quote
+ * reached a terminal status.
+ */
+
+export interface QMSDealEvent {
+  quote_activity: string;
+  last_event: string | null;
+  occurred_at: string;
+}
+
+export interface QMSStageTransition {
+  stage: string;
+  from_stage: string | null;
+  entered_at: string;
+  exited_at: string | null;
+  /** Days spent in this stage; open stages are measured up to `now`. */
+  duration_days: number;
+  is_current: boolean;
+  /** Number of raw events received while the quote sat in this stage. */
+  event_count: number;
+}
+
+export interface QMSStageDuration {
+  stage: string;
+  total_days: number;
+  entries: number;
+}
+
+export const QMS_TERMINAL_STAGES: readonly string[] = ['Quote Paid', 'Not Interested'];
+
+const DAY_MS = 86_400_000;
+
+function roundDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+export function computeStageTransitions(events: QMSDealEvent[], now: Date = new Date()): QMSStageTransition[] {
+  const ordered = [...events]
+    .filter((e) => !isNaN(new Date(e.occurred_at).getTime()))
+    .sort((a, b) => new Date(a.occurred_at).getTime() - new Date(b.occurred_at).getTime());
+
+  const transitions: Array<Omit<QMSStageTransition, 'duration_days' | 'exited_at' | 'is_current'>> = [];
+  for (const e of ordered) {
+    const current = transitions[transitions.length - 1];
+    if (current && current.stage === e.quote_activity) {
+      current.event_count += 1;
+      continue;
+    }
+    transitions.push({
+      stage: e.quote_activity,
+      from_stage: current?.stage ?? null,
+      entered_at: new Date(e.occurred_at).toISOString(),
+      event_count: 1,
+    });
+  }
+
+  return transitions.map((t, i) => {
+    const next = transitions[i + 1];
+    const isLast = next === undefined;
+    const terminal = isLast && QMS_TERMINAL_STAGES.includes(t.stage);
+    const exitedAt = next ? next.entered_at : null;
+    const endMs = next ? new Date(next.entered_at).getTime() : terminal ? new Date(t.entered_at).getTime() : now.getTime();
+    return {
+      ...t,
+      exited_at: exitedAt,
+      duration_days: roundDays(Math.max(0, endMs - new Date(t.entered_at).getTime())),
+      is_current: isLast,
+    };
+  });
+}
+
+/**
+ * Total time per stage across all visits (a quote can bounce between
+ * "Revisions Requested" and "Revisions Adjusted" several times).
+ * Ordered by first entry into the stage.
+ */
+export function summarizeStageDurations(transitions: QMSStageTransition[]): QMSStageDuration[] {
+  const byStage = new Map<string, QMSStageDuration>();
+  for (const t of transitions) {
+    const entry = byStage.get(t.stage) ?? { stage: t.stage, total_days: 0, entries: 0 };
+    entry.total_days = Math.round((entry.total_days + t.duration_days) * 10) / 10;
+    entry.entries += 1;
+    byStage.set(t.stage, entry);
+  }
+  return Array.from(byStage.values());
+}
@@ -0,0 +1,245 @@
+/**
+ * Quote Cohorts — conversion of quotes grouped by submission week/month and source group
+ *
+ * Every quote submitted in a period (ISO week starting Monday, or calendar
+ * month, UTC) and source group forms one cohort. For each milestone in
+ * COHORT_MILESTONE_DAYS the cohort shows the cumulative share of its quotes
+ * that had paid a deposit / paid in full within that many days of submission.
+ * A fully paid quote counts as deposit-paid from its payment date even when no
+ * separate deposit was recorded.
+ *
+ * A milestone is only reported once the whole cohort is old enough to have
+ * reached it (the period's end is at least that many days ago); younger
+ * cohorts get null instead of a rate that would still climb.
+ *
+ * marketing.quote_dashboard_deals carries no source_group, so each quote's
+ * group is the channel lib/attribution-models.ts classifies from its UTM tags,
+ * landing-page click IDs and referrer — the same vocabulary as the
+ * multi-touch and journey views.
+ */
+
+import { ATTRIBUTION_CHANNELS, classifyTouch, touchSignalsFromUrl, type AttributionChannel } from './attribution-models';
+
+export const COHORT_MILESTONE_DAYS = [7, 14, 30, 60] as const;
+
+export type CohortGrain = 'week' | 'month';
+
+export const COHORT_GRAINS: CohortGrain[] = ['week', 'month'];
+
+/** Cohorts shown when no start date is given: about six months either way. */
+export const DEFAULT_COHORT_PERIODS: Record<CohortGrain, number> = { week: 26, month: 6 };
+
+/** source_group of the row that totals every group in a period. */
+export const ALL_SOURCE_GROUPS = 'all';
+
+const DAY_MS = 86_400_000;
+
+export interface CohortQuote {
+  created_at: string;
+  deposit_paid_at: string | null;
+  quote_paid_at: string | null;
+  total_price_cents: number;
+  utm_source: string | null;
+  utm_medium: string | null;
+  referrer: string | null;
+  landing_page: string | null;
+}
+
+export interface CohortMilestone {
+  day: number;
+  /** False while the cohort is younger than `day`; the rates are then null. */
+  matured: boolean;
+  /** 0–1 share of the cohort's quotes. */
+  deposit_paid_rate: number | null;
+  quote_paid_rate: number | null;
+}
+
+export interface QuoteCohortRow {
+  /** YYYY-MM-DD, first day of the week (Monday) or month. */
+  cohort_start: string;
+  source_group: AttributionChannel | typeof ALL_SOURCE_GROUPS;
+  quotes: number;
+  quoted_value_usd: number;
+  /** Ever, regardless of milestone. */
+  deposit_paid_quotes: number;
+  quote_paid_quotes: number;
+  /** Value of the cohort's quotes that have been paid in full. */
+  paid_revenue_usd: number;
+  milestones: CohortMilestone[];
+}
+
+/** GET /api/activity-spine/marketing/qms/cohorts response data. */
+export interface QuoteCohorts {
+  grain: CohortGrain;
+  period: { start: string; end: string };
+  milestone_days: number[];
+  source_groups: AttributionChannel[];
+  /** Newest cohort first; within a period the 'all' row, then groups by quotes. */
+  rows: QuoteCohortRow[];
+}
+
+function toDate(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+/** First day (UTC) of the week or month containing `at`. */
+export function cohortStart(at: Date, grain: CohortGrain): Date {
+  const d = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  if (grain === 'month') {
+    d.setUTCDate(1);
+  } else {
+    d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  }
+  return d;
+}
+
+/** First day of the period after the one starting at `start`. */
+export function nextCohortStart(start: Date, grain: CohortGrain): Date {
+  const d = new Date(start);
+  if (grain === 'month') {
+    d.setUTCMonth(d.getUTCMonth() + 1);
+  } else {
+    d.setUTCDate(d.getUTCDate() + 7);
+  }
+  return d;
+}
+
+/** YYYY-MM-DD start of the DEFAULT_COHORT_PERIODS-th most recent period. */
+export function defaultCohortRangeStart(grain: CohortGrain, now: Date = new Date()): string {
+  const d = cohortStart(now, grain);
+  const periods = DEFAULT_COHORT_PERIODS[grain] - 1;
+  if (grain === 'month') {
+    d.setUTCMonth(d.getUTCMonth() - periods);
+  } else {
+    d.setUTCDate(d.getUTCDate() - periods * 7);
+  }
+  return toDate(d.toISOString());
+}
+
+export function cohortSourceGroup(q: Pick<CohortQuote, 'utm_source' | 'utm_medium' | 'referrer' | 'landing_page'>): AttributionChannel {
+  const fromUrl = touchSignalsFromUrl(q.landing_page);
+  return classifyTouch({
+    utm_source: q.utm_source || fromUrl.utm_source,
+    utm_medium: q.utm_medium || fromUrl.utm_medium,
+    gclid: fromUrl.gclid,
+    gbraid: fromUrl.gbraid,
+    wbraid: fromUrl.wbraid,
+    referrer: q.referrer,
+  });
+}
+
+interface Accumulator {
+  cohort_start: string;
+  source_group: QuoteCohortRow['source_group'];
+  period_end: number;
+  quotes: number;
+  quoted_cents: number;
+  deposit_paid: number;
+  quote_paid: number;
+  paid_cents: number;
+  deposit_by_day: number[];
+  paid_by_day: number[];
+}
+
+/** Days from submission to `at`, or null when it never happened. */
+function daysAfter(createdMs: number, at: string | null): number | null {
+  if (!at) return null;
+  const ms = new Date(at).getTime();
+  return isNaN(ms) ? null : Math.max(0, (ms - createdMs) / DAY_MS);
+}
+
+function round4(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+export function buildQuoteCohorts(
+  quotes: CohortQuote[],
+  grain: CohortGrain,
+  period: { start: string; end: string },
+  now: Date = new Date(),
+): QuoteCohorts {
+  const cohorts = new Map<string, Accumulator>();
+  const groups = new Set<AttributionChannel>();
+
+  const bucket = (start: Date, group: QuoteCohortRow['source_group']): Accumulator => {
+    const key = `${start.toISOString()}|${group}`;
+    let acc = cohorts.get(key);
+    if (!acc) {
+      acc = {
+        cohort_start: toDate(start.toISOString()),
+        source_group: group,
+        period_end: nextCohortStart(start, grain).getTime(),
+        quotes: 0,
+        quoted_cents: 0,
+        deposit_paid: 0,
+        quote_paid: 0,
+        paid_cents: 0,
+        deposit_by_day: COHORT_MILESTONE_DAYS.map(() => 0),
+        paid_by_day: COHORT_MILESTONE_DAYS.map(() => 0),
+      };
+      cohorts.set(key, acc);
+    }
+    return acc;
+  };
+
+  for (const q of quotes) {
+    const created = new Date(q.created_at);
+    if (isNaN(created.getTime())) continue;
+
+    const group = cohortSourceGroup(q);
+    groups.add(group);
+    const paidDays = daysAfter(created.getTime(), q.quote_paid_at);
+    const depositDays = [daysAfter(created.getTime(), q.deposit_paid_at), paidDays]
+      .filter((d): d is number => d !== null)
+      .reduce<number | null>((min, d) => (min === null || d < min ? d : min), null);
+    const cents = Number(q.total_price_cents) || 0;
+    const start = cohortStart(created, grain);
+
+    for (const acc of [bucket(start, ALL_SOURCE_GROUPS), bucket(start, group)]) {
+      acc.quotes++;
+      acc.quoted_cents += cents;
+      if (depositDays !== null) acc.deposit_paid++;
+      if (paidDays !== null) {
+        acc.quote_paid++;
+        acc.paid_cents += cents;
+      }
+      COHORT_MILESTONE_DAYS.forEach((day, i) => {
+        if (depositDays !== null && depositDays <= day) acc.deposit_by_day[i]++;
+        if (paidDays !== null && paidDays <= day) acc.paid_by_day[i]++;
+      });
+    }
+  }
+
+  const rows = Array.from(cohorts.values())
+    .sort((a, b) =>
+      b.cohort_start.localeCompare(a.cohort_start)
+      || Number(b.source_group === ALL_SOURCE_GROUPS) - Number(a.source_group === ALL_SOURCE_GROUPS)
+      || b.quotes - a.quotes
+      || a.source_group.localeCompare(b.source_group))
+    .map((acc): QuoteCohortRow => ({
+      cohort_start: acc.cohort_start,
+      source_group: acc.source_group,
+      quotes: acc.quotes,
+      quoted_value_usd: acc.quoted_cents / 100,
+      deposit_paid_quotes: acc.deposit_paid,
+      quote_paid_quotes: acc.quote_paid,
+      paid_revenue_usd: acc.paid_cents / 100,
+      milestones: COHORT_MILESTONE_DAYS.map((day, i) => {
+        const matured = now.getTime() - acc.period_end >= day * DAY_MS;
+        return {
+          day,
+          matured,
+          deposit_paid_rate: matured ? round4(acc.deposit_by_day[i] / acc.quotes) : null,
+          quote_paid_rate: matured ? round4(acc.paid_by_day[i] / acc.quotes) : null,
+        };
+      }),
+    }));
+
+  return {
+    grain,
+    period,
+    milestone_days: [...COHORT_MILESTONE_DAYS],
+    source_groups: ATTRIBUTION_CHANNELS.filter((c) => groups.has(c)),
+    rows,
+  };
+}
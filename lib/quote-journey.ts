@@ -0,0 +1,209 @@
+/**
+ * Quote Journey — one quote's visitor sessions and QMS lifecycle on a single timeline
+ *
+ * The web side comes from analytics.raw_web_events: every event of the
+ * visitor(s) whose conversion event carries the quote's id, plus any event in
+ * the converting session itself. Events are grouped into sessions by
+ * session_id; events without one start a new session after
+ * SESSION_GAP_MINUTES of inactivity. Each session keeps its landing page, UTM
+ * tags, click ID, channel (lib/attribution-models.ts) and page sequence.
+ *
+ * The QMS side is the status transition list from lib/qms-stage-durations.ts.
+ * buildJourneyTimeline interleaves session starts, conversions and status
+ * changes in time order.
+ */
+
+import { classifyTouch, touchSignalsFromUrl, type AttributionChannel } from './attribution-models';
+import type { QMSStageDuration, QMSStageTransition } from './qms-stage-durations';
+
+export const SESSION_GAP_MINUTES = 30;
+
+export interface JourneyWebEvent {
+  visitor_id: string | null;
+  session_id: string | null;
+  occurred_at: string;
+  event_type: string;
+  page_url: string | null;
+  page_title: string | null;
+  referrer: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  gclid: string | null;
+  gbraid: string | null;
+  wbraid: string | null;
+  /** Set on conversion events only. */
+  quote_id: string | null;
+}
+
+export interface JourneyPageStep {
+  at: string;
+  event_type: string;
+  page_url: string | null;
+  page_title: string | null;
+  /** Conversion events only: the quote the submission created. */
+  quote_id: string | null;
+}
+
+export interface JourneySession {
+  session_id: string | null;
+  visitor_id: string | null;
+  started_at: string;
+  ended_at: string;
+  landing_page: string | null;
+  referrer: string | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  click_id: 'gclid' | 'gbraid' | 'wbraid' | null;
+  channel: AttributionChannel;
+  pages: JourneyPageStep[];
+  /** True when the session holds a conversion event for this quote. */
+  converted: boolean;
+}
+
+export type JourneyTimelineItem =
+  | { at: string; kind: 'session'; session_index: number }
+  | { at: string; kind: 'conversion'; session_index: number; page_url: string | null; quote_id: string | null }
+  | { at: string; kind: 'status'; stage: string; from_stage: string | null; duration_days: number; is_current: boolean };
+
+/** GET /api/activity-spine/marketing/qms/journey response data. */
+export interface QuoteJourney {
+  quote: {
+    convex_quote_id: string;
+    quote_number: string;
+    status: string;
+    total_price_usd: number;
+    sign_type: string | null;
+    created_at: string | null;
+    updated_at: string | null;
+    deposit_paid_at: string | null;
+    quote_paid_at: string | null;
+    utm_source: string | null;
+    utm_medium: string | null;
+    utm_campaign: string | null;
+    click_id: 'gclid' | 'gbraid' | 'wbraid' | null;
+    landing_page: string | null;
+    referrer: string | null;
+  };
+  visitor_ids: string[];
+  sessions: JourneySession[];
+  transitions: QMSStageTransition[];
+  stage_durations: QMSStageDuration[];
+  timeline: JourneyTimelineItem[];
+  lookback_days: number;
+  /** The web event cap was reached; the oldest sessions are shown, later ones are missing. */
+  truncated: boolean;
+}
+
+const GAP_MS = SESSION_GAP_MINUTES * 60_000;
+
+function ms(iso: string): number {
+  return new Date(iso).getTime();
+}
+
+function firstSet<K extends keyof JourneyWebEvent>(events: JourneyWebEvent[], key: K): JourneyWebEvent[K] | null {
+  for (const e of events) {
+    if (e[key]) return e[key];
+  }
+  return null;
+}
+
+function campaignFromUrl(pageUrl: string | null): string | null {
+  if (!pageUrl) return null;
+  try {
+    return new URL(pageUrl, 'https://placeholder.invalid').searchParams.get('utm_campaign');
+  } catch {
+    return null;
+  }
+}
+
+function toSession(events: JourneyWebEvent[], quoteId: string): JourneySession {
+  const first = events[0];
+  const fromUrl = touchSignalsFromUrl(first.page_url);
+  const utm_source = first.utm_source || fromUrl.utm_source || null;
+  const utm_medium = first.utm_medium || fromUrl.utm_medium || null;
+  const gclid = first.gclid || fromUrl.gclid;
+  const gbraid = first.gbraid || fromUrl.gbraid;
+  const wbraid = first.wbraid || fromUrl.wbraid;
+
+  return {
+    session_id: first.session_id,
+    visitor_id: firstSet(events, 'visitor_id'),
+    started_at: new Date(first.occurred_at).toISOString(),
+    ended_at: new Date(events[events.length - 1].occurred_at).toISOString(),
+    landing_page: firstSet(events, 'page_url'),
+    referrer: first.referrer,
+    utm_source,
+    utm_medium,
+    utm_campaign: first.utm_campaign || campaignFromUrl(first.page_url),
+    click_id: gclid ? 'gclid' : gbraid ? 'gbraid' : wbraid ? 'wbraid' : null,
+    channel: classifyTouch({ utm_source, utm_medium, gclid, gbraid, wbraid, referrer: first.referrer }),
+    pages: events.map((e) => ({
+      at: new Date(e.occurred_at).toISOString(),
+      event_type: e.event_type,
+      page_url: e.page_url,
+      page_title: e.page_title,
+      quote_id: e.event_type === 'conversion' ? e.quote_id : null,
+    })),
+    converted: events.some((e) => e.event_type === 'conversion' && e.quote_id === quoteId),
+  };
+}
+
+/** Group events into sessions, oldest first. `quoteId` marks the converting session(s). */
+export function buildJourneySessions(events: JourneyWebEvent[], quoteId: string): JourneySession[] {
+  const ordered = [...events]
+    .filter((e) => !isNaN(ms(e.occurred_at)))
+    .sort((a, b) => ms(a.occurred_at) - ms(b.occurred_at));
+
+  const groups = new Map<string, JourneyWebEvent[][]>();
+  const sessions: JourneyWebEvent[][] = [];
+
+  for (const e of ordered) {
+    const key = e.session_id ? `s:${e.session_id}` : `v:${e.visitor_id ?? ''}`;
+    const runs = groups.get(key) ?? [];
+    const current = runs[runs.length - 1];
+    const sameRun = current && (e.session_id || ms(e.occurred_at) - ms(current[current.length - 1].occurred_at) <= GAP_MS);
+    if (sameRun) {
+      current.push(e);
+    } else {
+      const run = [e];
+      runs.push(run);
+      sessions.push(run);
+      groups.set(key, runs);
+    }
+  }
+
+  return sessions.map((s) => toSession(s, quoteId));
+}
+
+/** Session starts, conversions and QMS status changes in time order. */
+export function buildJourneyTimeline(sessions: JourneySession[], transitions: QMSStageTransition[]): JourneyTimelineItem[] {
+  const items: JourneyTimelineItem[] = [];
+
+  sessions.forEach((s, i) => {
+    items.push({ at: s.started_at, kind: 'session', session_index: i });
+    for (const p of s.pages) {
+      if (p.event_type === 'conversion') {
+        items.push({ at: p.at, kind: 'conversion', session_index: i, page_url: p.page_url, quote_id: p.quote_id });
+      }
+    }
+  });
+
+  for (const t of transitions) {
+    items.push({
+      at: t.entered_at,
+      kind: 'status',
+      stage: t.stage,
+      from_stage: t.from_stage,
+      duration_days: t.duration_days,
+      is_current: t.is_current,
+    });
+  }
+
+  // Stable on ties so a session start precedes the conversion it contains.
+  return items
+    .map((item, order) => ({ item, order }))
+    .sort((a, b) => ms(a.item.at) - ms(b.item.at) || a.order - b.order)
+    .map(({ item }) => item);
+}
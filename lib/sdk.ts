@@ -38,6 +38,7 @@ import type {
   SeoPagePerformanceRow,
   SeoClusterPerformanceRow,
   AttributionReviewSnapshotResponse,
+  MultiTouchAttributionResponse,
 } from '../types/attribution';
 import type { BootstrapResponse } from '../types/bootstrap';
 import { isApiDisabled } from '../config/appConfig';
@@ -609,6 +610,41 @@ export async function getAttributionReviewSnapshot(
   return res.json();
 }
 
+/**
+ * GET /activity-spine/marketing/attribution?view=multi-touch
+ *
+ * Paid revenue per channel under first-touch, last-touch, linear,
+ * time-decay and position-based models over each paid quote's visitor
+ * journey. Defaults to the last 30 days and a 90-day lookback.
+ */
+export async function getMultiTouchAttribution(
+  params: { start_date?: string; end_date?: string; lookback_days?: number } = {}
+): Promise<MultiTouchAttributionResponse> {
+  if (isApiDisabled) {
+    return {
+      data: null,
+      meta: {
+        view: 'multi-touch',
+        window_start: params.start_date ?? '',
+        window_end: params.end_date ?? '',
+        lookback_days: params.lookback_days ?? 0,
+        generated_at: new Date().toISOString(),
+        source: 'mock',
+      },
+    };
+  }
+  const sp = new URLSearchParams({ view: 'multi-touch' });
+  if (params.start_date) sp.set('start_date', params.start_date);
+  if (params.end_date) sp.set('end_date', params.end_date);
+  if (params.lookback_days) sp.set('lookback_days', String(params.lookback_days));
+  const res = await fetchWithTimeout(`${sdkConfig.activitySpineUrl}/marketing/attribution?${sp}`, {
+    method: 'GET',
+    headers: buildHeaders(),
+  });
+  if (!res.ok) throw new ActivitySpineError(`Attribution multi-touch: ${res.status}`, res.status);
+  return res.json();
+}
+
 // ============================================
 // Marketing Metrics API
 // ============================================
@@ -1,34 +1,14 @@
-import { Pool } from 'pg';
+import { getDb, isDbConfigured } from './db';
+import type { SeoReviewer } from './seo-review';
 
-let pool: Pool | null = null;
-
-function getPool(): Pool {
-  if (!pool) {
-    const databaseUrl = process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL;
-    if (!databaseUrl) {
-      throw new Error('No database URL configured');
-    }
-    pool = new Pool({
-      connectionString: databaseUrl,
-      ssl: { rejectUnauthorized: false },
-      max: 5,
-      idleTimeoutMillis: 30000,
-      connectionTimeoutMillis: 10000,
-    });
-    pool.on('error', (err) => {
-      console.error('[seo-db] Pool error:', err);
-    });
-  }
-  return pool;
-}
+const db = getDb('seo-db', { role: 'write' });
 
 export function isSeoDbConfigured(): boolean {
-  return Boolean(process.env.SUPABASE_DATABASE_URL || process.env.DATABASE_URL);
+  return isDbConfigured();
 }
 
 export async function getClusters() {
-  const p = getPool();
-  const result = await p.query(`
+  const result = await db.query(`
     SELECT
       kc.id,
       kc.primary_keyword AS cluster_topic,
@@ -53,8 +33,7 @@ export async function getClusters() {
 }
 
 export async function getClusterById(id: string) {
-  const p = getPool();
-  const clusterResult = await p.query(`
+  const clusterResult = await db.query(`
     SELECT
       kc.id,
       kc.primary_keyword AS cluster_topic,
@@ -74,7 +53,7 @@ export async function getClusterById(id: string) {
 
   const cluster = clusterResult.rows[0];
 
-  const membersResult = await p.query(`
+  const membersResult = await db.query(`
     SELECT
       kcm.keyword,
       COALESCE(kcm.impressions, 0) AS impressions,
@@ -108,8 +87,7 @@ export async function getClusterById(id: string) {
 }
 
 export async function getClusterOpportunities() {
-  const p = getPool();
-  const result = await p.query(`
+  const result = await db.query(`
     SELECT
       MIN(q.candidate_id::text) AS id,
       q.mutation_type AS cluster_id,
@@ -130,8 +108,7 @@ export async function getClusterOpportunities() {
 }
 
 export async function getRecommendations() {
-  const p = getPool();
-  const result = await p.query(`
+  const result = await db.query(`
     SELECT
       q.candidate_id AS id,
       q.mutation_type AS cluster_id,
@@ -162,8 +139,7 @@ export async function getRecommendations() {
 }
 
 export async function approveRecommendation(id: string) {
-  const p = getPool();
-  const upd = await p.query(
+  const upd = await db.query(
     `UPDATE analytics.seo_action
        SET human_decision = 'approved',
            human_decided_at = NOW(),
@@ -175,8 +151,7 @@ export async function approveRecommendation(id: string) {
 }
 
 export async function rejectRecommendation(id: string) {
-  const p = getPool();
-  const upd = await p.query(
+  const upd = await db.query(
     `UPDATE analytics.seo_action
        SET human_decision = 'rejected',
            human_decided_at = NOW(),
@@ -187,19 +162,20 @@ export async function rejectRecommendation(id: string) {
   if (upd.rowCount === 0) throw new Error('Recommendation not found');
 }
 
-export async function approveExecutionCandidate(candidateId: string, reviewNotes?: string) {
-  const p = getPool();
-  const upd = await p.query(
+export async function approveExecutionCandidate(candidateId: string, reviewer: SeoReviewer, reviewNotes?: string) {
+  const upd = await db.query(
     `UPDATE analytics.seo_execution_candidate
      SET approval_status = 'approved',
          execution_status = 'approved',
-         reviewer_id = 'operator',
+         reviewer_id = $3,
+         reviewer_email = $4,
+         reviewer_name = $5,
          reviewed_at = NOW(),
          review_notes = $2
      WHERE candidate_id = $1::uuid
        AND execution_status = 'proposed'
        AND approval_status = 'pending'`,
-    [candidateId, reviewNotes || null]
+    [candidateId, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
   );
   if (upd.rowCount === 0) throw new Error('Execution candidate not found or already reviewed');
 }
@@ -215,17 +191,16 @@ export interface BulkApprovalResult {
 
 export async function bulkApproveExecutionCandidates(
   candidateIds: string[],
+  reviewer: SeoReviewer,
   opts: { reviewNotes?: string; qualityFloor?: number } = {},
 ): Promise<BulkApprovalResult[]> {
   const ids = Array.from(new Set(candidateIds.filter(Boolean)));
   if (ids.length === 0) return [];
-
-  const p = getPool();
   const results: BulkApprovalResult[] = [];
 
   for (const candidateId of ids) {
     try {
-      const { rows } = await p.query(
+      const { rows } = await db.query(
         `WITH candidate AS (
            SELECT c.*,
                   CASE c.mutation_type
@@ -330,11 +305,13 @@ export async function bulkApproveExecutionCandidates(
         continue;
       }
 
-      const upd = await p.query(
+      const upd = await db.query(
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'approved',
              execution_status = 'approved',
-             reviewer_id = 'operator',
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
              reviewed_at = NOW(),
              review_notes = $2
          WHERE candidate_id = $1::uuid
@@ -342,7 +319,7 @@ export async function bulkApproveExecutionCandidates(
            AND approval_status = 'pending'
            AND gate_status = 'accepted'
            AND is_active = true`,
-        [candidateId, opts.reviewNotes || 'bulk approve; canonical_copy_quality_gate=pass'],
+        [candidateId, opts.reviewNotes || 'bulk approve; canonical_copy_quality_gate=pass', reviewer.id, reviewer.email, reviewer.name],
       );
 
       results.push({
@@ -361,9 +338,8 @@ export async function bulkApproveExecutionCandidates(
   return results;
 }
 
-export async function rejectExecutionCandidate(candidateId: string, reviewNotes?: string) {
-  const p = getPool();
-  const upd = await p.query(
+export async function rejectExecutionCandidate(candidateId: string, reviewer: SeoReviewer, reviewNotes?: string) {
+  const upd = await db.query(
     `UPDATE analytics.seo_execution_candidate
      SET approval_status = 'rejected',
          execution_status = 'rejected',
@@ -371,23 +347,29 @@ export async function rejectExecutionCandidate(candidateId: string, reviewNotes?
          -- forbids an is_active=true row in a rejected state, so a rejected candidate must
          -- be deactivated in the same write or the UPDATE fails with a 500.
          is_active = false,
-         reviewer_id = 'operator',
+         reviewer_id = $3,
+         reviewer_email = $4,
+         reviewer_name = $5,
          reviewed_at = NOW(),
          review_notes = $2
      WHERE candidate_id = $1::uuid
        AND execution_status = 'proposed'
        AND approval_status = 'pending'`,
-    [candidateId, reviewNotes || null]
+    [candidateId, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
   );
   if (upd.rowCount === 0) throw new Error('Execution candidate not found or already reviewed');
 }
 
-export async function approveByOpportunityId(opportunityId: string, reviewNotes?: string, opts?: { proposed_value?: string; target_page_url?: string }) {
-  const p = getPool();
+export async function approveByOpportunityId(
+  opportunityId: string,
+  reviewer: SeoReviewer,
+  reviewNotes?: string,
+  opts?: { proposed_value?: string; target_page_url?: string },
+) {
 
   // Phase 1: Check for pending candidates — approve them directly
   // Cast opportunity_id to text for comparison (column is text, but UI may send UUID format)
-  const pending = await p.query(
+  const pending = await db.query(
     `SELECT candidate_id FROM analytics.seo_execution_candidate
      WHERE opportunity_id = $1::text
        AND execution_status = 'proposed'
@@ -395,23 +377,25 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
     [opportunityId]
   );
   if (pending.rowCount && pending.rowCount > 0) {
-    const upd = await p.query(
+    const upd = await db.query(
       `UPDATE analytics.seo_execution_candidate
        SET approval_status = 'approved',
            execution_status = 'approved',
-           reviewer_id = 'operator',
+           reviewer_id = $3,
+           reviewer_email = $4,
+           reviewer_name = $5,
            reviewed_at = NOW(),
            review_notes = $2
        WHERE opportunity_id = $1::text
          AND execution_status = 'proposed'
          AND approval_status = 'pending'`,
-      [opportunityId, reviewNotes || null]
+      [opportunityId, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
     );
     return { mode: 'updated', rowCount: upd.rowCount };
   }
 
   // Phase 2: Check for already-reviewed candidates (previously rejected or failed)
-  const reviewed = await p.query(
+  const reviewed = await db.query(
     `SELECT candidate_id, execution_status, approval_status FROM analytics.seo_execution_candidate
      WHERE opportunity_id = $1::text
      ORDER BY created_at DESC
@@ -423,15 +407,17 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
     if (row.approval_status === 'approved' && ['approved', 'draft_applied', 'published'].includes(row.execution_status)) {
       return { mode: 'already_approved', rowCount: 0 };
     }
-    const upd = await p.query(
+    const upd = await db.query(
       `UPDATE analytics.seo_execution_candidate
        SET approval_status = 'approved',
            execution_status = 'approved',
-           reviewer_id = 'operator',
+           reviewer_id = $3,
+           reviewer_email = $4,
+           reviewer_name = $5,
            reviewed_at = NOW(),
            review_notes = $2
        WHERE candidate_id = $1`,
-      [row.candidate_id, reviewNotes || null]
+      [row.candidate_id, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
     );
     return { mode: 're_approved', rowCount: upd.rowCount };
   }
@@ -439,7 +425,7 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
   // Phase 3: No candidate found by opportunity_id — search by page+mutation
   // The candidate may have been created by generate_execution_candidates() with
   // a different opportunity_id (MD5 hash from scoring queue, not Phase 1 UUID).
-  const phase1 = await p.query(
+  const phase1 = await db.query(
     `SELECT opportunity_id::text, topic_cluster, strategic_intent, max_keyword_score,
             urgency_band, confidence_score, recommended_target_page,
             bottleneck_primary, resolved_existing_page_url
@@ -462,7 +448,7 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
 
   // Search for any existing candidate matching this page+mutation (any opportunity_id)
   if (targetUrl) {
-    const pageMatch = await p.query(
+    const pageMatch = await db.query(
       `SELECT candidate_id, execution_status, approval_status
        FROM analytics.seo_execution_candidate
        WHERE target_page_url = $1 AND mutation_type = $2
@@ -475,12 +461,13 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
       if (row.approval_status === 'approved' && ['approved', 'draft_applied', 'published'].includes(row.execution_status)) {
         return { mode: 'already_approved', rowCount: 0 };
       }
-      await p.query(
+      await db.query(
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'approved', execution_status = 'approved',
-             reviewer_id = 'operator', reviewed_at = NOW(), review_notes = $2
+             reviewer_id = $3, reviewer_email = $4, reviewer_name = $5,
+             reviewed_at = NOW(), review_notes = $2
          WHERE candidate_id = $1`,
-        [row.candidate_id, reviewNotes || null]
+        [row.candidate_id, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
       );
       return { mode: 'page_match_approved', rowCount: 1 };
     }
@@ -488,7 +475,7 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
 
   // Also try matching by attributed_cluster + mutation_type (for candidates without a target URL)
   if (opp.topic_cluster) {
-    const clusterMatch = await p.query(
+    const clusterMatch = await db.query(
       `SELECT candidate_id, execution_status, approval_status
        FROM analytics.seo_execution_candidate
        WHERE attributed_cluster = $1 AND mutation_type = $2
@@ -502,12 +489,13 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
       if (row.approval_status === 'approved') {
         return { mode: 'already_approved', rowCount: 0 };
       }
-      await p.query(
+      await db.query(
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'approved', execution_status = 'approved',
-             reviewer_id = 'operator', reviewed_at = NOW(), review_notes = $2
+             reviewer_id = $3, reviewer_email = $4, reviewer_name = $5,
+             reviewed_at = NOW(), review_notes = $2
          WHERE candidate_id = $1`,
-        [row.candidate_id, reviewNotes || null]
+        [row.candidate_id, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
       );
       return { mode: 'cluster_match_approved', rowCount: 1 };
     }
@@ -526,7 +514,7 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
     proposedValue = `Shop ${topicKw} at Neon Signs Depot.`;
   }
   const evidenceSummary = `Phase-1 opportunity: ${opp.strategic_intent} for cluster "${opp.topic_cluster || 'unknown'}"`;
-  await p.query(
+  await db.query(
     `INSERT INTO analytics.seo_execution_candidate
        (generation_run_id, created_reason,
         opportunity_id, opportunity_family, opportunity_score,
@@ -534,12 +522,12 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
         target_page_url, target_field, proposed_value, evidence_summary,
         attributed_cluster,
         execution_status, approval_status, approval_required,
-        reviewer_id, reviewed_at, review_notes)
+        reviewer_id, reviewer_email, reviewer_name, reviewed_at, review_notes)
      VALUES (
         'shell-phase1-' || to_char(NOW(), 'YYYYMMDD-HH24MISS'), 'shell_phase1_approval',
         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
         'approved', 'approved', true,
-        'operator', NOW(), $12)
+        $13, $14, $15, NOW(), $12)
      ON CONFLICT DO NOTHING`,
     [
       opp.opportunity_id,
@@ -554,17 +542,23 @@ export async function approveByOpportunityId(opportunityId: string, reviewNotes?
       evidenceSummary,
       opp.topic_cluster || null,
       reviewNotes || null,
+      reviewer.id,
+      reviewer.email,
+      reviewer.name,
     ]
   );
   return { mode: 'inserted', rowCount: 1 };
 }
 
-export async function rejectByOpportunityId(opportunityId: string, reviewNotes?: string): Promise<{ mode: string; rowCount: number | null; error?: string }> {
+export async function rejectByOpportunityId(
+  opportunityId: string,
+  reviewer: SeoReviewer,
+  reviewNotes?: string,
+): Promise<{ mode: string; rowCount: number | null; error?: string }> {
   try {
-    const p = getPool();
 
     // Phase 1: Try rejecting pending execution candidates
-    const pending = await p.query(
+    const pending = await db.query(
       `SELECT candidate_id FROM analytics.seo_execution_candidate
        WHERE opportunity_id = $1
          AND execution_status = 'proposed'
@@ -572,24 +566,26 @@ export async function rejectByOpportunityId(opportunityId: string, reviewNotes?:
       [opportunityId]
     );
     if (pending.rowCount && pending.rowCount > 0) {
-      const upd = await p.query(
+      const upd = await db.query(
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'rejected',
              execution_status = 'rejected',
              is_active = false, -- required by seo_execution_candidate_active_viable_chk
-             reviewer_id = 'operator',
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
              reviewed_at = NOW(),
              review_notes = $2
          WHERE opportunity_id = $1
            AND execution_status = 'proposed'
            AND approval_status = 'pending'`,
-        [opportunityId, reviewNotes || null]
+        [opportunityId, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
       );
       return { mode: 'updated', rowCount: upd.rowCount };
     }
 
     // Phase 2: Try rejecting any existing candidate (already approved, re-rejecting)
-    const any = await p.query(
+    const any = await db.query(
       `SELECT candidate_id, execution_status, approval_status FROM analytics.seo_execution_candidate
        WHERE opportunity_id = $1
        ORDER BY created_at DESC
@@ -601,23 +597,25 @@ export async function rejectByOpportunityId(opportunityId: string, reviewNotes?:
       if (row.approval_status === 'rejected') {
         return { mode: 'already_rejected', rowCount: 0 };
       }
-      const upd = await p.query(
+      const upd = await db.query(
         `UPDATE analytics.seo_execution_candidate
          SET approval_status = 'rejected',
              execution_status = 'rejected',
              is_active = false, -- required by seo_execution_candidate_active_viable_chk
-             reviewer_id = 'operator',
+             reviewer_id = $3,
+             reviewer_email = $4,
+             reviewer_name = $5,
              reviewed_at = NOW(),
              review_notes = $2
          WHERE candidate_id = $1`,
-        [row.candidate_id, reviewNotes || null]
+        [row.candidate_id, reviewNotes || null, reviewer.id, reviewer.email, reviewer.name]
       );
       return { mode: 'rejected', rowCount: upd.rowCount };
     }
 
     // Phase 3: No execution candidate — try seo_recommendations table
     try {
-      const recUpd = await p.query(
+      const recUpd = await db.query(
         `UPDATE analytics.seo_recommendations
          SET status = 'rejected'
          WHERE (supporting_data->>'cluster_id' = $1 OR id::text = $1)
@@ -640,8 +638,7 @@ export async function rejectByOpportunityId(opportunityId: string, reviewNotes?:
 
 export async function submitFeedback(id: string, feedbackText: string) {
   // Migrated 2026-05-12: write human notes onto seo_action directly.
-  const p = getPool();
-  const result = await p.query(
+  const result = await db.query(
     `UPDATE analytics.seo_action
        SET human_notes = $2,
            human_decided_at = COALESCE(human_decided_at, NOW())
@@ -659,8 +656,7 @@ export async function getOutcomes() {
   // + seo_execution_log four-way join.
   //
   // measured_at_90d isn't tracked in seo_action — returned as null.
-  const p = getPool();
-  const result = await p.query(`
+  const result = await db.query(`
     SELECT
       sa.id,
       COALESCE(sa.source_cluster, sa.source_keyword, 'Unknown') AS cluster_topic,
@@ -0,0 +1,38 @@
+/**
+ * SEO review identity — who approved or rejected an execution candidate.
+ *
+ * Write routes under /api/proxy/seo resolve the caller with
+ * lib/bootstrap-identity.ts, require SEO_APPROVE_PERMISSION, and stamp the
+ * reviewer on analytics.seo_execution_candidate (reviewer_id, reviewer_email,
+ * reviewer_name). Rows decided before identities were recorded carry
+ * reviewer_id = 'operator'.
+ */
+
+import type { BootstrapUser } from '../types/bootstrap';
+
+export const SEO_APPROVE_PERMISSION = 'seo:approve';
+
+/** reviewer_id on rows decided before reviewer identity was recorded. */
+export const LEGACY_REVIEWER_ID = 'operator';
+
+export interface SeoReviewer {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export function reviewerFromUser(user: BootstrapUser): SeoReviewer {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+/** Display label for a decision's reviewer, or null when it predates identity. */
+export function formatReviewer(r: {
+  reviewer_id?: string | null;
+  reviewer_email?: string | null;
+  reviewer_name?: string | null;
+}): string | null {
+  if (r.reviewer_name) return r.reviewer_email ? `${r.reviewer_name} (${r.reviewer_email})` : r.reviewer_name;
+  if (r.reviewer_email) return r.reviewer_email;
+  if (r.reviewer_id && r.reviewer_id !== LEGACY_REVIEWER_ID) return r.reviewer_id;
+  return null;
+}
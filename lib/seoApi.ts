@@ -1,5 +1,7 @@
 'use client';
 
+import { formatReviewer } from './seo-review';
+
 export interface SeoCluster {
   id: string;
   cluster_topic: string;
@@ -195,6 +197,35 @@ export async function getSeoSystemHealth(): Promise<SeoSystemHealthRow[]> {
   return data.data ?? [];
 }
 
+export interface SeoMetricContractRow {
+  metric_key: string;
+  panel: string;
+  label: string;
+  source_label: string | null;
+  window_label: string | null;
+  tolerance_abs: number;
+  tolerance_pct: number;
+  /** null until /api/cron/metric-contracts has checked the contract. */
+  status: 'pass' | 'breach' | 'error' | null;
+  authoritative_value: number | null;
+  served_value: number | null;
+  drift_abs: number | null;
+  drift_pct: number | null;
+  error: string | null;
+  checked_at: string | null;
+}
+
+export interface SeoMetricContractHealth {
+  last_checked_at: string | null;
+  counts: { pass: number; breach: number; error: number; unchecked: number };
+  rows: SeoMetricContractRow[];
+}
+
+export async function getSeoMetricContractHealth(): Promise<SeoMetricContractHealth> {
+  const data = await seoFetch<{ data: SeoMetricContractHealth }>('/api/proxy/seo/metric-contracts');
+  return data.data;
+}
+
 export interface SeoOverviewKpis {
   total_clusters: number;
   total_opportunities: number;
@@ -1137,6 +1168,12 @@ export interface PageDossierCandidate {
   regate_review_flag?: boolean | null;
   lane?: number | null;
   executor?: string | null;
+  // Last human decision on the candidate (analytics.seo_execution_candidate).
+  // reviewer_id = 'operator' predates recorded reviewer identity.
+  reviewer_id?: string | null;
+  reviewer_email?: string | null;
+  reviewer_name?: string | null;
+  reviewed_at?: string | null;
 }
 
 // Dossier meta = the engine's per-page reasoning record (analytics.seo_page_dossier).
@@ -1222,6 +1259,19 @@ export interface PageGateTransition {
   gated_at: string | null;
 }
 
+// Human approve/reject decisions on a page's candidates, newest first.
+export interface PageReviewDecision {
+  candidate_id: string;
+  mutation_label: string | null;
+  approval_status: string | null;
+  execution_status: string | null;
+  reviewer_id: string | null;
+  reviewer_email: string | null;
+  reviewer_name: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
 export interface PageDossier {
   page: PageDossierPage;
   demand: PageDossierDemandRow[];
@@ -1230,6 +1280,7 @@ export interface PageDossier {
   // dossier record. Null/empty is an honest "engine has not analyzed this page".
   dossier?: PageDossierMeta | null;
   transitions?: PageGateTransition[];
+  reviews?: PageReviewDecision[];
 }
 
 export async function getSeoPageDossier(url: string, window?: SeoWindowRequest): Promise<PageDossier> {
@@ -1375,11 +1426,40 @@ export interface SeoNorthStarMoneyPage {
   pos_28d: number | null;
 }
 
+// An approved package held in its grace window before release to the executor
+// (analytics.seo_package_release_hold). Revertible until release_after.
+export interface SeoPackageReleaseHold {
+  hold_id: string;
+  enhancement_id: string;
+  canonical_url: string | null;
+  rep_url: string | null;
+  member_count: number;
+  status: 'held' | 'released' | 'reverted';
+  approved_by: string;
+  approved_by_email: string | null;
+  approved_by_name: string | null;
+  approved_at: string;
+  release_after: string;
+  released_at: string | null;
+  release_error: string | null;
+}
+
+export interface SeoPackageRevertResult {
+  enhancement_id: string;
+  status: 'reverted' | 'skipped';
+  reason?: string;
+  restored: number;
+  rolled_back: number;
+  was_released: boolean;
+}
+
 export interface SeoPageEnhancementsResponse {
   packages: SeoPageEnhancementPackage[];
   lifecycle: SeoPageEnhancementLifecycle[];
   counts: { review: number; evaluating: number; resolved: number };
   policy: { first_verdict_days: number; final_days: number };
+  pending_release?: SeoPackageReleaseHold[];
+  release_grace_minutes?: number;
   north_star: SeoNorthStar | null;
   money_pages: SeoNorthStarMoneyPage[];
 }
@@ -1389,8 +1469,10 @@ export async function getSeoPageEnhancements(): Promise<SeoPageEnhancementsRespo
   return data.data;
 }
 
-export async function approveSeoPageEnhancement(enhancementId: string): Promise<void> {
-  await seoFetch('/api/proxy/seo/page-enhancements', {
+export async function approveSeoPageEnhancement(enhancementId: string): Promise<{
+  enhancement_id: string; status: string; release_status?: string; release_after?: string;
+} | undefined> {
+  const data = await seoFetch<{ data?: { enhancement_id: string; status: string; release_status?: string; release_after?: string } }>('/api/proxy/seo/page-enhancements', {
     method: 'POST',
     body: JSON.stringify({
       action: 'approve_package',
@@ -1399,6 +1481,7 @@ export async function approveSeoPageEnhancement(enhancementId: string): Promise<
       review_notes: 'page package approval from recommendations queue',
     }),
   });
+  return data?.data;
 }
 
 export async function rejectSeoPageEnhancement(enhancementId: string): Promise<void> {
@@ -1412,6 +1495,16 @@ export async function rejectSeoPageEnhancement(enhancementId: string): Promise<v
   });
 }
 
+// Undo a package approval: held / unapplied members return to pending review;
+// already-applied members get a reverse change restoring current_value_snapshot.
+export async function revertSeoPageEnhancement(enhancementId: string): Promise<SeoPackageRevertResult> {
+  const data = await seoFetch<{ data: SeoPackageRevertResult }>('/api/proxy/seo/page-enhancements', {
+    method: 'POST',
+    body: JSON.stringify({ action: 'revert_package', enhancement_id: enhancementId }),
+  });
+  return data.data;
+}
+
 export async function approveSeoCandidate(candidateId: string): Promise<void> {
   await seoFetch('/api/proxy/seo/page-enhancements', {
     method: 'POST',
@@ -1429,12 +1522,12 @@ export async function skipSeoCandidate(candidateId: string): Promise<void> {
 }
 
 export async function bulkApproveSeoPageEnhancements(enhancementIds: string[]): Promise<{
-  results: Array<{ enhancement_id: string; status: string; reason?: string; approved?: number; auto_publish_count?: number; draft_count?: number }>;
-  summary: { requested: number; approved: number; skipped: number; auto_publish_count: number; draft_count: number };
+  results: Array<{ enhancement_id: string; status: string; reason?: string; approved?: number; auto_publish_count?: number; draft_count?: number; release_status?: string; release_after?: string }>;
+  summary: { requested: number; approved: number; held?: number; skipped: number; auto_publish_count: number; draft_count: number };
 }> {
   const data = await seoFetch<{ data: {
-    results: Array<{ enhancement_id: string; status: string; reason?: string; approved?: number; auto_publish_count?: number; draft_count?: number }>;
-    summary: { requested: number; approved: number; skipped: number; auto_publish_count: number; draft_count: number };
+    results: Array<{ enhancement_id: string; status: string; reason?: string; approved?: number; auto_publish_count?: number; draft_count?: number; release_status?: string; release_after?: string }>;
+    summary: { requested: number; approved: number; held?: number; skipped: number; auto_publish_count: number; draft_count: number };
   } }>('/api/proxy/seo/page-enhancements', {
     method: 'POST',
     body: JSON.stringify({
@@ -1616,6 +1709,9 @@ export interface SeoShippedAction {
   created_at: string | null;
   executed_at: string | null;
   outcome_clicks_delta: number | null;
+  // Who approved it (formatReviewer); null for decisions that predate
+  // recorded reviewer identity.
+  reviewed_by: string | null;
 }
 
 // Shipped lifecycle statuses from analytics.seo_execution_candidate. Pending
@@ -1635,6 +1731,7 @@ export async function getSeoShipped(limit = 8): Promise<SeoShippedAction[]> {
       created_at: (r.created_at as string) ?? null,
       executed_at: ((r.executed_at ?? r.published_at) as string) ?? null,
       outcome_clicks_delta: r.outcome_clicks_delta != null ? Number(r.outcome_clicks_delta) : null,
+      reviewed_by: formatReviewer(r as Parameters<typeof formatReviewer>[0]),
     }));
 }
 
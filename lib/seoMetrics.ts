@@ -14,7 +14,7 @@
 // is page-grain and host-filtered, a different grain that will not reconcile.
 // =============================================================================
 
-import type { Pool } from 'pg';
+import type { DbPool } from './db';
 
 const TABLE = 'analytics.metrics_search_console_daily';
 
@@ -27,7 +27,7 @@ export interface OrganicWindow {
 }
 
 /** Latest metric_date present in the GSC daily rollup, or null if empty. */
-export async function getMaxMetricDate(pool: Pool): Promise<string | null> {
+export async function getMaxMetricDate(pool: DbPool): Promise<string | null> {
   const { rows } = await pool.query<{ max_date: string | null }>(
     `SELECT MAX(date)::text AS max_date FROM ${TABLE}`,
   );
@@ -44,7 +44,7 @@ export async function getMaxMetricDate(pool: Pool): Promise<string | null> {
  * anchor - offset], so adjacent windows never double-count a boundary day.
  */
 export async function organicWindow(
-  pool: Pool,
+  pool: DbPool,
   windowDays: number,
   offsetDays = 0,
 ): Promise<OrganicWindow> {
@@ -76,16 +76,16 @@ export async function organicWindow(
 }
 
 /** Convenience: organic clicks over the most recent `windowDays` days. */
-export async function organicClicks(pool: Pool, windowDays: number): Promise<number> {
+export async function organicClicks(pool: DbPool, windowDays: number): Promise<number> {
   return (await organicWindow(pool, windowDays)).clicks;
 }
 
 /** Convenience: organic impressions over the most recent `windowDays` days. */
-export async function organicImpressions(pool: Pool, windowDays: number): Promise<number> {
+export async function organicImpressions(pool: DbPool, windowDays: number): Promise<number> {
   return (await organicWindow(pool, windowDays)).impressions;
 }
 
 /** Convenience: impression-weighted average position over `windowDays` days. */
-export async function avgPosition(pool: Pool, windowDays: number): Promise<number | null> {
+export async function avgPosition(pool: DbPool, windowDays: number): Promise<number | null> {
   return (await organicWindow(pool, windowDays)).avgPosition;
 }
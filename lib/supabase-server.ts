@@ -88,6 +88,10 @@ export interface ICPConfig {
     min?: number;
     max?: number;
   };
+  exclusions?: {
+    industries?: string[];
+    domains?: string[];
+  };
   metadata?: {
     description?: string;
   };
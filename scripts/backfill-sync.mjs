@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+/**
+ * Backfill GA4 / Google Ads syncs for a historical date range.
+ *
+ * Drives POST /api/sync/backfill until the whole range is done. Each request
+ * processes chunks until its time budget runs out; completed chunks are
+ * recorded in analytics.ingestion_runs, so re-running the same command after
+ * a failure or interruption resumes from the first unfinished chunk.
+ *
+ * Usage:
+ *   SYNC_SECRET=... node scripts/backfill-sync.mjs \
+ *     --source ga4|google-ads|all --start 2026-01-01 --end 2026-06-30 \
+ *     [--chunk-days 7] [--no-resume] [--base-url http://localhost:3000]
+ *
+ * --no-resume re-pulls chunks that already completed (only on the first
+ * request; follow-up requests always resume).
+ */
+
+function parseArgs(argv) {
+  const args = { source: null, start: null, end: null, chunkDays: 7, resume: true, baseUrl: 'http://localhost:3000' };
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const next = () => argv[++i];
+    switch (flag) {
+      case '--source': args.source = next(); break;
+      case '--start': args.start = next(); break;
+      case '--end': args.end = next(); break;
+      case '--chunk-days': args.chunkDays = Number(next()); break;
+      case '--base-url': args.baseUrl = next(); break;
+      case '--no-resume': args.resume = false; break;
+      default:
+        throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+  if (!args.source || !args.start || !args.end) {
+    throw new Error('--source, --start and --end are required');
+  }
+  return args;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const secret = process.env.SYNC_SECRET;
+  if (!secret) throw new Error('SYNC_SECRET env var is not set');
+
+  const url = `${args.baseUrl.replace(/\/$/, '')}/api/sync/backfill`;
+  let resume = args.resume;
+
+  // eslint-disable-next-line no-constant-condition
+  while (true) {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${secret}` },
+      body: JSON.stringify({
+        source: args.source,
+        startDate: args.start,
+        endDate: args.end,
+        chunkDays: args.chunkDays,
+        resume,
+      }),
+    });
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      throw new Error(`Backfill request failed (${res.status}): ${json.message ?? json.error ?? 'unknown error'}`);
+    }
+
+    for (const chunk of json.chunks ?? []) {
+      if (chunk.status === 'skipped') continue;
+      const detail = chunk.status === 'failed' ? ` — ${chunk.errors.join('; ')}` : '';
+      console.log(`[${chunk.source}] ${chunk.startDate}..${chunk.endDate} ${chunk.status} rows=${chunk.rows} ${chunk.duration_ms}ms${detail}`);
+    }
+
+    if (json.failed > 0) {
+      console.error(`Backfill stopped on a failed chunk (${json.remaining} remaining). Re-run the same command to resume.`);
+      process.exitCode = 1;
+      return;
+    }
+    if (json.done) {
+      console.log(`Backfill complete: ${json.completed} chunks synced this request, ${json.skipped} already done.`);
+      return;
+    }
+
+    console.log(`${json.remaining} chunks remaining, continuing…`);
+    resume = true;
+  }
+}
+
+main().catch((err) => {
+  console.error(err.message);
+  process.exit(1);
+});
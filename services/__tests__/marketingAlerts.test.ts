@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { queries } = vi.hoisted(() => ({
+  queries: { executeMarketingQueries: vi.fn() },
+}));
+
+vi.mock('../marketingQueries', () => queries);
+
+import { runMarketingAlerts, buildWebhookPayload, type AlertDeliveryConfig } from '../marketingAlerts';
+import type { MarketingAlertRule } from '../../lib/marketing-alerts';
+
+const NOW = new Date('2026-10-18T08:00:00Z');
+
+const RULE: MarketingAlertRule = {
+  id: 'submissions-drop-wow',
+  name: 'Quote submissions down week over week',
+  metric: 'submissions',
+  condition: 'pct_change',
+  operator: 'below',
+  threshold: -0.3,
+  windowDays: 7,
+  severity: 'critical',
+  channels: ['email', 'webhook'],
+  cooldownHours: 72,
+};
+
+const CONFIG: AlertDeliveryConfig = {
+  webhookUrl: 'https://hooks.example.com/alerts',
+  email: { apiKey: 're_test', from: 'alerts@example.com', to: ['ops@example.com'] },
+};
+
+function makePool(opts: { inserted?: boolean; cooldown?: boolean } = {}) {
+  const { inserted = true, cooldown = false } = opts;
+  return {
+    query: vi.fn(async (sql: string) => {
+      if (sql.includes('INSERT INTO analytics.marketing_alert_events')) return { rows: inserted ? [{ id: 42 }] : [] };
+      if (sql.includes('SELECT 1 FROM analytics.marketing_alert_events')) return { rows: cooldown ? [{ '?column?': 1 }] : [] };
+      return { rows: [] };
+    }),
+  } as any;
+}
+
+function okFetch() {
+  return vi.fn(async () => ({ ok: true, status: 200 })) as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  queries.executeMarketingQueries.mockResolvedValue({
+    kpis: { total_submissions: 5 },
+    comparisons: { total_submissions: { current: 5, previous: 10 } },
+  });
+});
+
+describe('runMarketingAlerts', () => {
+  it('queries the trailing window ending yesterday against the previous window', async () => {
+    await runMarketingAlerts(makePool(), { now: NOW, rules: [RULE], config: CONFIG, fetchImpl: okFetch() });
+
+    expect(queries.executeMarketingQueries).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      startDate: '2026-10-11',
+      endDate: '2026-10-17',
+      prevStartDate: '2026-10-04',
+      prevEndDate: '2026-10-10',
+    }));
+  });
+
+  it('delivers a new alert to both channels and marks it delivered', async () => {
+    const pool = makePool();
+    const fetchImpl = okFetch();
+    const summary = await runMarketingAlerts(pool, { now: NOW, rules: [RULE], config: CONFIG, fetchImpl });
+
+    expect(summary).toMatchObject({ evaluated: 1, fired: 1, delivered: 1, failed: 0, duplicates: 0 });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+
+    const urls = fetchImpl.mock.calls.map((c: any[]) => c[0]);
+    expect(urls).toContain('https://hooks.example.com/alerts');
+    expect(urls).toContain('https://api.resend.com/emails');
+
+    const update = pool.query.mock.calls.find((c: any[]) => c[0].includes('SET delivery_status = $1'));
+    expect(update[1]).toEqual(['delivered', ['email', 'webhook'], null, '42']);
+  });
+
+  it('records a partial delivery when one channel fails', async () => {
+    const pool = makePool();
+    const fetchImpl = vi.fn(async (url: string) => ({ ok: !url.includes('resend'), status: url.includes('resend') ? 503 : 200 })) as any;
+    const summary = await runMarketingAlerts(pool, { now: NOW, rules: [RULE], config: CONFIG, fetchImpl });
+
+    expect(summary.alerts[0].status).toBe('partial');
+    const update = pool.query.mock.calls.find((c: any[]) => c[0].includes('SET delivery_status = $1'));
+    expect(update[1]).toEqual(['partial', ['webhook'], 'email: HTTP 503', '42']);
+  });
+
+  it('treats an alert already recorded for the window as a duplicate and sends nothing', async () => {
+    const fetchImpl = okFetch();
+    const summary = await runMarketingAlerts(makePool({ inserted: false }), { now: NOW, rules: [RULE], config: CONFIG, fetchImpl });
+
+    expect(summary).toMatchObject({ fired: 1, duplicates: 1, delivered: 0 });
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  it('retries delivery when the recorded alert for the window failed or never finished', async () => {
+    const pool = makePool();
+    const fetchImpl = okFetch();
+    const summary = await runMarketingAlerts(pool, { now: NOW, rules: [RULE], config: CONFIG, fetchImpl });
+
+    const insert = pool.query.mock.calls.find((c: any[]) => c[0].includes('INSERT INTO analytics.marketing_alert_events'));
+    expect(insert[0]).toContain('ON CONFLICT (rule_id, window_end) DO UPDATE');
+    expect(insert[0]).toContain("delivery_status IN ('pending', 'failed')");
+    expect(summary).toMatchObject({ duplicates: 0, delivered: 1 });
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('records but does not deliver an alert inside the rule cooldown', async () => {
+    const pool = makePool({ cooldown: true });
+    const fetchImpl = okFetch();
+    const summary = await runMarketingAlerts(pool, { now: NOW, rules: [RULE], config: CONFIG, fetchImpl });
+
+    expect(summary).toMatchObject({ suppressed: 1, delivered: 0 });
+    expect(fetchImpl).not.toHaveBeenCalled();
+    expect(pool.query.mock.calls.some((c: any[]) => c[0].includes("SET delivery_status = 'suppressed'"))).toBe(true);
+  });
+
+  it('reports unconfigured channels as failed without throwing', async () => {
+    const summary = await runMarketingAlerts(makePool(), {
+      now: NOW, rules: [RULE], config: { webhookUrl: null, email: null }, fetchImpl: okFetch(),
+    });
+
+    expect(summary).toMatchObject({ delivered: 0, failed: 1 });
+  });
+
+  it('does nothing when no rule fires', async () => {
+    queries.executeMarketingQueries.mockResolvedValue({
+      kpis: { total_submissions: 9 },
+      comparisons: { total_submissions: { current: 9, previous: 10 } },
+    });
+    const pool = makePool();
+    const summary = await runMarketingAlerts(pool, { now: NOW, rules: [RULE], config: CONFIG, fetchImpl: okFetch() });
+
+    expect(summary).toMatchObject({ evaluated: 1, fired: 0 });
+    expect(pool.query).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildWebhookPayload', () => {
+  it('produces a Slack-compatible text field plus structured alerts', () => {
+    const payload = buildWebhookPayload([{
+      rule: RULE, fired: true, observed: -0.5, value: 5, baseline: 10,
+      message: 'Quote submissions down 50%', window: { startDate: '2026-10-11', endDate: '2026-10-17' },
+    }]);
+
+    expect(payload.text).toContain('Quote submissions down week over week');
+    expect(payload.alerts).toEqual([expect.objectContaining({ rule_id: RULE.id, window_end: '2026-10-17', observed: -0.5 })]);
+  });
+});
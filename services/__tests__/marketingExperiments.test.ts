@@ -0,0 +1,118 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { queries } = vi.hoisted(() => ({
+  queries: { executeMarketingQueries: vi.fn() },
+}));
+
+vi.mock('../marketingQueries', () => queries);
+
+import {
+  createExperiment,
+  measureExperimentLift,
+  remeasureStaleExperiments,
+  updateExperiment,
+} from '../marketingExperiments';
+
+const NOW = new Date('2026-10-18T08:00:00Z');
+const pool = { query: vi.fn() } as any;
+
+function engineMetrics(quotes: number) {
+  return { sessions: 0, clicks: 0, quotes, pipeline_value_usd: 0, spend: 0, cac: 0, roas: 0, quote_rate: 0 };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  queries.executeMarketingQueries.mockResolvedValue({
+    core4_summary: {
+      post_free_content: { current: engineMetrics(30), previous: engineMetrics(20) },
+      run_paid_ads: { current: engineMetrics(5), previous: engineMetrics(0) },
+    },
+  });
+});
+
+describe('measureExperimentLift', () => {
+  it('reads the target metric for the mapped engine over both windows', async () => {
+    const m = await measureExperimentLift(pool, {
+      engine: 'SEO Summary', target_metric: 'quotes', start_date: '2026-09-08', end_date: '2026-09-21',
+    }, NOW);
+
+    expect(queries.executeMarketingQueries).toHaveBeenCalledWith(pool, {
+      startDate: '2026-09-08', endDate: '2026-09-21',
+      prevStartDate: '2026-08-25', prevEndDate: '2026-09-07',
+      includeTimeseries: false,
+    });
+    expect(m).toMatchObject({ result_lift: 50, baseline_value: 20, experiment_value: 30, measurement_error: null });
+  });
+
+  it('reports why lift could not be measured instead of throwing', async () => {
+    const zero = await measureExperimentLift(pool, {
+      engine: 'Paid Summary', target_metric: 'quotes', start_date: '2026-09-08', end_date: '2026-09-21',
+    }, NOW);
+    expect(zero.result_lift).toBeNull();
+    expect(zero.measurement_error).toMatch(/baseline is zero/i);
+
+    const cold = await measureExperimentLift(pool, {
+      engine: 'Cold Outreach', target_metric: 'quotes', start_date: '2026-09-08', end_date: null,
+    }, NOW);
+    expect(cold.measurement_error).toMatch(/no governed metrics source/);
+
+    queries.executeMarketingQueries.mockRejectedValueOnce(new Error('connection reset'));
+    const failed = await measureExperimentLift(pool, {
+      engine: 'SEO Summary', target_metric: 'quotes', start_date: '2026-09-08', end_date: null,
+    }, NOW);
+    expect(failed.measurement_error).toBe('connection reset');
+    expect(failed.measured_end).toBe('2026-10-17');
+  });
+});
+
+describe('updateExperiment', () => {
+  it('records the actor and flags re-measurement only for measured inputs', async () => {
+    pool.query.mockResolvedValue({ rows: [{ id: 'e1', name: 'x', engine: 'SEO Summary', target_metric: 'quotes', start_date: '2026-09-08', decision: 'keep', owner: 'a', created_by: 'a', created_at: NOW, updated_by: 'b', updated_at: NOW }] });
+
+    const decisionOnly = await updateExperiment(pool, 'e1', { decision: 'keep' }, 'b@example.com');
+    expect(decisionOnly!.remeasure).toBe(false);
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain('decision = $3');
+    expect(params).toEqual(['e1', 'b@example.com', 'keep']);
+
+    const moved = await updateExperiment(pool, 'e1', { start_date: '2026-09-01' }, 'b@example.com');
+    expect(moved!.remeasure).toBe(true);
+  });
+});
+
+describe('createExperiment', () => {
+  it('measures before inserting so the row and its lift are written in one statement', async () => {
+    pool.query.mockResolvedValue({ rows: [{ id: 'e1', name: 'x', engine: 'SEO Summary', target_metric: 'quotes', start_date: '2026-09-08', decision: 'pending', owner: 'a', created_by: 'a', created_at: NOW, updated_by: 'a', updated_at: NOW }] });
+
+    await createExperiment(pool, {
+      name: 'x', engine: 'SEO Summary', target_metric: 'quotes', hypothesis: '', change_made: '',
+      start_date: '2026-09-08', end_date: '2026-09-21', decision: 'pending', notes: null, owner: null,
+    }, 'a@example.com', NOW);
+
+    expect(pool.query).toHaveBeenCalledTimes(1);
+    const [sql, params] = pool.query.mock.calls[0];
+    expect(sql).toContain('INSERT INTO analytics.marketing_experiments');
+    expect(params.slice(11)).toEqual([50, 20, 30, '2026-08-25', '2026-09-07', '2026-09-21', null]);
+  });
+});
+
+describe('remeasureStaleExperiments', () => {
+  it('re-measures only experiments whose measurement lags yesterday', async () => {
+    const row = { name: 'x', engine: 'SEO Summary', target_metric: 'quotes', decision: 'pending', owner: 'a', created_by: 'a', created_at: NOW, updated_by: 'a', updated_at: NOW };
+    pool.query.mockImplementation(async (sql: string) => (sql.startsWith('SELECT')
+      ? { rows: [
+        { ...row, id: 'running', start_date: '2026-10-01', end_date: null, measured_end: '2026-10-15' },
+        { ...row, id: 'current', start_date: '2026-10-01', end_date: null, measured_end: '2026-10-17' },
+        { ...row, id: 'finished', start_date: '2026-09-08', end_date: '2026-09-21', measured_end: '2026-09-21' },
+      ] }
+      : { rows: [] }));
+
+    const summary = await remeasureStaleExperiments(pool, NOW);
+
+    expect(summary).toEqual({ checked: 3, remeasured: 1, errors: [] });
+    const updates = pool.query.mock.calls.filter((c: any[]) => c[0].includes('UPDATE analytics.marketing_experiments'));
+    expect(updates).toHaveLength(1);
+    expect(updates[0][1][0]).toBe('running');
+  });
+});
@@ -0,0 +1,158 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { queries, qms, northStar } = vi.hoisted(() => ({
+  queries: { executeMarketingQueries: vi.fn() },
+  qms: { qmsTableExists: vi.fn(), executeQmsQueries: vi.fn(), QMS_UNAVAILABLE: { available: false } },
+  northStar: { getSeoNorthStarSnapshot: vi.fn() },
+}));
+
+vi.mock('../marketingQueries', () => queries);
+vi.mock('../qmsAnalytics', () => qms);
+vi.mock('../seoNorthStar', () => northStar);
+
+import { runDueReports, runReport, type ReportDeliveryConfig } from '../marketingReports';
+import type { MarketingReportSchedule } from '../../types/activity-spine';
+
+const NOW = new Date('2026-10-19T10:00:00Z');
+
+const SCHEDULE: MarketingReportSchedule = {
+  id: '0f8b6c1e-3a52-4d5e-9b1c-2f7a8e4d6c01',
+  name: 'Weekly operator digest',
+  dashboard: 'operator_hub',
+  period: 'previous_week',
+  cadence: 'weekly',
+  weekday: 1,
+  day_of_month: null,
+  formats: ['pdf', 'csv'],
+  delivery: ['email', 'storage'],
+  recipients: ['ops@example.com'],
+  enabled: true,
+  next_run_at: '2026-10-19T00:00:00.000Z',
+  last_run_at: null,
+  created_by: 'ops@example.com',
+  created_at: '2026-10-01T00:00:00.000Z',
+  updated_at: '2026-10-01T00:00:00.000Z',
+};
+
+const CONFIG: ReportDeliveryConfig = {
+  email: { apiKey: 're_test', from: 'reports@example.com' },
+  storage: { url: 'https://proj.supabase.co', serviceKey: 'service', bucket: 'reports' },
+};
+
+const RUN_PARAMS = [
+  'schedule_id', 'schedule_name', 'dashboard', 'trigger', 'period_start', 'period_end', 'status',
+  'formats', 'delivered_channels', 'recipients', 'storage_paths', 'section_count', 'error', 'duration_ms',
+];
+
+function makePool(opts: { due?: MarketingReportSchedule[]; claimed?: boolean } = {}) {
+  const { due = [], claimed = true } = opts;
+  return {
+    query: vi.fn(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('WHERE enabled AND next_run_at <= $1')) return { rows: due, rowCount: due.length };
+      if (sql.includes('WHERE id = $1 AND next_run_at = $2')) return { rows: [], rowCount: claimed ? 1 : 0 };
+      if (sql.includes('INSERT INTO analytics.marketing_report_runs')) {
+        const row = Object.fromEntries(RUN_PARAMS.map((k, i) => [k, params[i]]));
+        return { rows: [{ id: 7, created_at: NOW, ...row }], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+  } as any;
+}
+
+function okFetch() {
+  return vi.fn(async () => ({ ok: true, status: 200 })) as any;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  queries.executeMarketingQueries.mockResolvedValue({
+    sources: [{ source: 'google / organic', sessions: 800, clicks: 120, quotes: 12, pipeline_value_usd: 48000 }],
+  });
+});
+
+describe('runReport', () => {
+  it('queries the report period, emails both attachments and uploads both files', async () => {
+    const pool = makePool();
+    const fetchImpl = okFetch();
+    const run = await runReport(pool, SCHEDULE, { trigger: 'manual', now: NOW, config: CONFIG, fetchImpl });
+
+    expect(queries.executeMarketingQueries).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+      startDate: '2026-10-12',
+      endDate: '2026-10-18',
+      prevStartDate: '2026-10-05',
+      prevEndDate: '2026-10-11',
+    }));
+
+    expect(run).toMatchObject({
+      status: 'delivered',
+      trigger: 'manual',
+      period_start: '2026-10-12',
+      period_end: '2026-10-18',
+      delivered_channels: ['email', 'storage'],
+      error: null,
+    });
+    expect(run.storage_paths).toEqual([
+      `reports/operator_hub/2026-10-18/${SCHEDULE.id}/operator-hub_2026-10-12_2026-10-18.pdf`,
+      `reports/operator_hub/2026-10-18/${SCHEDULE.id}/operator-hub_2026-10-12_2026-10-18.csv`,
+    ]);
+
+    const email = fetchImpl.mock.calls.find((c: any[]) => c[0] === 'https://api.resend.com/emails');
+    const body = JSON.parse(email[1].body);
+    expect(body.to).toEqual(['ops@example.com']);
+    expect(body.attachments.map((a: any) => a.filename)).toEqual([
+      'operator-hub_2026-10-12_2026-10-18.pdf',
+      'operator-hub_2026-10-12_2026-10-18.csv',
+    ]);
+    expect(Buffer.from(body.attachments[0].content, 'base64').subarray(0, 5).toString()).toBe('%PDF-');
+    expect(Buffer.from(body.attachments[1].content, 'base64').toString()).toContain('"google / organic","800"');
+
+    const upload = fetchImpl.mock.calls.find((c: any[]) => String(c[0]).startsWith('https://proj.supabase.co/storage/v1/object/reports/'));
+    expect(upload[1].headers).toMatchObject({ Authorization: 'Bearer service', 'x-upsert': 'true' });
+  });
+
+  it('records a partial run when a channel is not configured', async () => {
+    const fetchImpl = okFetch();
+    const run = await runReport(makePool(), SCHEDULE, {
+      trigger: 'schedule',
+      now: NOW,
+      config: { ...CONFIG, storage: null },
+      fetchImpl,
+    });
+
+    expect(run.status).toBe('partial');
+    expect(run.delivered_channels).toEqual(['email']);
+    expect(run.error).toMatch(/^storage: REPORT_STORAGE_BUCKET/);
+  });
+
+  it('records a failed run instead of throwing when the data read fails', async () => {
+    queries.executeMarketingQueries.mockRejectedValueOnce(new Error('connection refused'));
+    const fetchImpl = okFetch();
+    const run = await runReport(makePool(), SCHEDULE, { trigger: 'schedule', now: NOW, config: CONFIG, fetchImpl });
+
+    expect(run.status).toBe('failed');
+    expect(run.error).toBe('build: connection refused');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
+
+describe('runDueReports', () => {
+  it('claims a due schedule by advancing next_run_at before sending', async () => {
+    const pool = makePool({ due: [SCHEDULE] });
+    const summary = await runDueReports(pool, { now: NOW, config: CONFIG, fetchImpl: okFetch() });
+
+    expect(summary).toMatchObject({ due: 1, skipped: 0, delivered: 1, partial: 0, failed: 0 });
+    const claim = pool.query.mock.calls.find((c: any[]) => c[0].includes('WHERE id = $1 AND next_run_at = $2'));
+    expect(claim[1]).toEqual([SCHEDULE.id, SCHEDULE.next_run_at, '2026-10-26T00:00:00.000Z', NOW.toISOString()]);
+  });
+
+  it('skips a schedule another run already claimed', async () => {
+    const pool = makePool({ due: [SCHEDULE], claimed: false });
+    const fetchImpl = okFetch();
+    const summary = await runDueReports(pool, { now: NOW, config: CONFIG, fetchImpl });
+
+    expect(summary).toMatchObject({ due: 1, skipped: 1, delivered: 0 });
+    expect(queries.executeMarketingQueries).not.toHaveBeenCalled();
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import type { RequestViewer } from '../../lib/bootstrap-identity';
+import { createFakeDb } from '../../lib/db';
+import { DEFAULT_VIEW_STATE } from '../../lib/marketing-saved-views';
+import {
+  createSavedView,
+  deleteSavedView,
+  listSavedViews,
+  updateSavedView,
+} from '../marketingSavedViews';
+
+const VIEWER: RequestViewer = { userId: 'u-1', email: 'ana@example.com', teamId: 'org-1' };
+
+function row(overrides: Record<string, unknown> = {}) {
+  return {
+    id: '11111111-1111-1111-1111-111111111111',
+    name: 'Paid weekly',
+    scope: 'team',
+    state: { path: '/dashboard/marketing/paid-ads', period: { preset: 'weekly' }, filters: { channel: 'paid' } },
+    share_slug: 'Ab12Cd34Ef',
+    owner_id: 'u-2',
+    owner_email: 'ben@example.com',
+    created_at: new Date('2026-10-01T00:00:00Z'),
+    updated_at: new Date('2026-10-02T00:00:00Z'),
+    is_default: false,
+    is_owner: false,
+    ...overrides,
+  };
+}
+
+describe('listSavedViews', () => {
+  it('scopes the listing to the viewer and their team', async () => {
+    const fake = createFakeDb(() => [row({ state: { path: '/dashboard/sales' } })]);
+    const views = await listSavedViews(fake.factory('t', 'read', 'analytics'), VIEWER);
+    expect(fake.calls[0].values).toEqual(['u-1', 'org-1']);
+    expect(views[0]).toMatchObject({ scope: 'team', is_owner: false, updated_at: '2026-10-02T00:00:00.000Z' });
+    // A stored state that no longer validates falls back to the defaults.
+    expect(views[0].state).toEqual(DEFAULT_VIEW_STATE);
+  });
+});
+
+describe('createSavedView', () => {
+  it('inserts the view and the default in one transaction', async () => {
+    const fake = createFakeDb((text) => {
+      if (text.includes('RETURNING id')) return [{ id: 'new-id' }];
+      if (text.includes('AND v.id = $3')) return [row({ id: 'new-id', owner_id: 'u-1', is_owner: true, is_default: true })];
+      return undefined;
+    });
+    const view = await createSavedView(
+      fake.factory('t', 'write', 'analytics'),
+      VIEWER,
+      { name: 'Mine', scope: 'user', state: DEFAULT_VIEW_STATE, is_default: true },
+      'Zz99Yy88Xx',
+    );
+    const texts = fake.calls.map((c) => c.text.trim().split(/\s+/).slice(0, 3).join(' '));
+    expect(texts.slice(0, 4)).toEqual([
+      'BEGIN',
+      'INSERT INTO analytics.marketing_saved_views',
+      'INSERT INTO analytics.marketing_saved_view_defaults',
+      'COMMIT',
+    ]);
+    expect(fake.calls[1].values).toContain('Zz99Yy88Xx');
+    expect(view).toMatchObject({ id: 'new-id', is_default: true, is_owner: true });
+    expect(fake.openClients()).toBe(0);
+  });
+});
+
+describe('updateSavedView / deleteSavedView', () => {
+  it('lets a teammate set their default but not edit or delete', async () => {
+    const fake = createFakeDb((text) => (text.includes('AND v.id = $3') ? [row()] : undefined));
+    const db = fake.factory('t', 'write', 'analytics');
+    const id = row().id;
+
+    expect(await updateSavedView(db, VIEWER, id, { name: 'Renamed' })).toEqual({ ok: false, reason: 'forbidden' });
+    expect(await deleteSavedView(db, VIEWER, id)).toEqual({ ok: false, reason: 'forbidden' });
+    expect(fake.calls.some((c) => c.text.includes('UPDATE analytics.marketing_saved_views'))).toBe(false);
+
+    const result = await updateSavedView(db, VIEWER, id, { is_default: true });
+    expect(result.ok).toBe(true);
+    const insert = fake.calls.find((c) => c.text.includes('INSERT INTO analytics.marketing_saved_view_defaults'));
+    expect(insert?.values).toEqual(['u-1', 'org-1', id]);
+  });
+
+  it('reports not_found for views outside the viewer\'s reach', async () => {
+    const fake = createFakeDb(() => []);
+    const db = fake.factory('t', 'write', 'analytics');
+    expect(await updateSavedView(db, VIEWER, 'x', { is_default: true })).toEqual({ ok: false, reason: 'not_found' });
+    expect(await deleteSavedView(db, VIEWER, 'x')).toEqual({ ok: false, reason: 'not_found' });
+  });
+});
@@ -0,0 +1,125 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createFakeDb } from '../../lib/db';
+import {
+  compareContractValues,
+  getContractHealth,
+  reconcileMetricContracts,
+  scalarValue,
+} from '../metricContractReconciliation';
+
+const CONTRACTS = [
+  {
+    metric_key: 'cross_surface_organic_clicks_7d', label: 'Organic clicks',
+    authoritative_sql: 'SELECT auth_clicks', served_sql: 'SELECT served_clicks',
+    tolerance_abs: '0', tolerance_pct: '0',
+  },
+  {
+    metric_key: 'cross_surface_avg_position_7d', label: 'Avg position',
+    authoritative_sql: 'SELECT auth_position', served_sql: 'SELECT served_position',
+    tolerance_abs: '0.1', tolerance_pct: '0',
+  },
+  {
+    metric_key: 'cross_surface_quotes_30d', label: 'Quotes',
+    authoritative_sql: 'SELECT auth_quotes', served_sql: 'SELECT broken_quotes',
+    tolerance_abs: '0', tolerance_pct: '0',
+  },
+];
+
+const VALUES: Record<string, unknown> = {
+  'SELECT auth_clicks': '1200',
+  'SELECT served_clicks': '1187',
+  'SELECT auth_position': '8.43',
+  'SELECT served_position': '8.5',
+  'SELECT auth_quotes': '42',
+};
+
+function fakeDb() {
+  const fake = createFakeDb((text) => {
+    if (text.includes('FROM analytics.seo_dashboard_metric_contract')) return CONTRACTS;
+    if (text === 'SELECT broken_quotes') return new Error('relation "analytics.quotes_served" does not exist');
+    if (text in VALUES) return [{ numeric: VALUES[text] }];
+    return undefined;
+  });
+  return { fake, db: fake.factory('cron/metric-contracts', 'write', 'analytics') };
+}
+
+describe('compareContractValues', () => {
+  it('applies the absolute tolerance, then the percentage one', () => {
+    expect(compareContractValues(100, 100, 0, 0)).toEqual({ drift_abs: 0, drift_pct: 0, within_tolerance: true });
+    expect(compareContractValues(100, 101, 0, 0).within_tolerance).toBe(false);
+    expect(compareContractValues(8.43, 8.5, 0.1, 0).within_tolerance).toBe(true);
+    expect(compareContractValues(1000, 1005, 0, 1)).toMatchObject({ drift_pct: 0.5, within_tolerance: true });
+    expect(compareContractValues(0, 3, 0, 5)).toEqual({ drift_abs: 3, drift_pct: null, within_tolerance: false });
+  });
+});
+
+describe('scalarValue', () => {
+  it('reads the first column of the first row', () => {
+    expect(scalarValue([{ coalesce: '12.5' }])).toBe(12.5);
+    expect(scalarValue([])).toBeNull();
+    expect(scalarValue([{ v: null }])).toBeNull();
+  });
+});
+
+describe('reconcileMetricContracts', () => {
+  it('records pass, breach and error per contract under one run', async () => {
+    const { fake, db } = fakeDb();
+    const summary = await reconcileMetricContracts(db);
+
+    expect(summary).toMatchObject({ checked: 3, passed: 1, breached: 1, errored: 1 });
+    expect(summary.breaches).toEqual([
+      { metric_key: 'cross_surface_organic_clicks_7d', authoritative_value: 1200, served_value: 1187, drift_abs: 13 },
+    ]);
+    expect(summary.errors[0]).toEqual({
+      metric_key: 'cross_surface_quotes_30d',
+      error: 'relation "analytics.quotes_served" does not exist',
+    });
+
+    const inserts = fake.calls.filter((c) => c.text.includes('INSERT INTO analytics.seo_metric_contract_check'));
+    expect(inserts.map((c) => [c.values[0], c.values[1], c.values[2]])).toEqual([
+      [summary.run_id, 'cross_surface_organic_clicks_7d', 'breach'],
+      [summary.run_id, 'cross_surface_avg_position_7d', 'pass'],
+      [summary.run_id, 'cross_surface_quotes_30d', 'error'],
+    ]);
+    expect(fake.openClients()).toBe(0);
+  });
+
+  it('runs contract SQL inside a read-only transaction that is rolled back', async () => {
+    const { fake, db } = fakeDb();
+    await reconcileMetricContracts(db);
+
+    const texts = fake.calls.map((c) => c.text);
+    const first = texts.indexOf('SELECT auth_clicks');
+    expect(texts.slice(first - 2, first + 3)).toEqual([
+      'BEGIN READ ONLY',
+      'SET LOCAL statement_timeout = 30000',
+      'SELECT auth_clicks',
+      'SELECT served_clicks',
+      'ROLLBACK',
+    ]);
+    expect(texts[texts.indexOf('SELECT broken_quotes') + 1]).toBe('ROLLBACK');
+  });
+
+  it('restricts the run to the requested metric keys', async () => {
+    const { fake, db } = fakeDb();
+    await reconcileMetricContracts(db, { metricKeys: ['cross_surface_quotes_30d'] });
+    expect(fake.calls[0].values).toEqual([['cross_surface_quotes_30d']]);
+  });
+});
+
+describe('getContractHealth', () => {
+  it('counts statuses, including contracts never checked', async () => {
+    const fake = createFakeDb(() => [
+      { metric_key: 'a', panel: 'p', label: 'A', status: 'breach', authoritative_value: '10', served_value: '9', drift_abs: '1', drift_pct: '10', tolerance_abs: '0', tolerance_pct: '0', checked_at: new Date('2026-10-18T09:00:00Z') },
+      { metric_key: 'b', panel: 'p', label: 'B', status: 'pass', authoritative_value: '5', served_value: '5', drift_abs: '0', drift_pct: '0', tolerance_abs: '0', tolerance_pct: '0', checked_at: new Date('2026-10-18T09:00:01Z') },
+      { metric_key: 'c', panel: 'p', label: 'C', status: null, tolerance_abs: '0.1', tolerance_pct: '0', checked_at: null },
+    ]);
+    const health = await getContractHealth(fake.factory('proxy/seo/metric-contracts', 'read', 'analytics'));
+
+    expect(health.counts).toEqual({ pass: 1, breach: 1, error: 0, unchecked: 1 });
+    expect(health.last_checked_at).toBe('2026-10-18T09:00:01.000Z');
+    expect(health.rows[0]).toMatchObject({ metric_key: 'a', status: 'breach', authoritative_value: 10, served_value: 9, drift_pct: 10 });
+    expect(health.rows[2]).toMatchObject({ metric_key: 'c', status: null, served_value: null, tolerance_abs: 0.1 });
+  });
+});
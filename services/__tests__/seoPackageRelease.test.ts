@@ -0,0 +1,142 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  DEFAULT_RELEASE_GRACE_MINUTES,
+  HELD_EXECUTION_STATUS,
+  holdPackageRelease,
+  releaseDuePackages,
+  releaseGraceMinutes,
+  revertPackage,
+} from '../seoPackageRelease';
+
+const REVIEWER = { id: 'u-42', email: 'jane@nsd.local', name: 'Jane Reviewer' };
+
+const HOLD_ROW = {
+  hold_id: '7', enhancement_id: '101', canonical_url: 'https://x.test/a/', rep_url: null,
+  member_count: 2, status: 'held', approved_by: 'u-42', approved_by_email: REVIEWER.email,
+  approved_by_name: REVIEWER.name, approved_at: new Date('2026-10-18T08:00:00Z'),
+  release_after: new Date('2026-10-18T08:15:00Z'), released_at: null, release_error: null,
+};
+
+function fakeClient(respond: (text: string, values: unknown[]) => { rows?: unknown[]; rowCount?: number } | Error) {
+  return {
+    query: vi.fn(async (text: string, values: unknown[] = []) => {
+      const r = respond(text, values);
+      if (r instanceof Error) throw r;
+      return { rows: r.rows ?? [], rowCount: r.rowCount ?? (r.rows ?? []).length };
+    }),
+    release: vi.fn(),
+  };
+}
+
+beforeEach(() => vi.clearAllMocks());
+
+describe('releaseGraceMinutes', () => {
+  it('parses the env value, clamps it and falls back on junk', () => {
+    expect(releaseGraceMinutes(undefined)).toBe(DEFAULT_RELEASE_GRACE_MINUTES);
+    expect(releaseGraceMinutes('0')).toBe(0);
+    expect(releaseGraceMinutes('30')).toBe(30);
+    expect(releaseGraceMinutes('99999')).toBe(1440);
+    expect(releaseGraceMinutes('-5')).toBe(DEFAULT_RELEASE_GRACE_MINUTES);
+    expect(releaseGraceMinutes('soon')).toBe(DEFAULT_RELEASE_GRACE_MINUTES);
+  });
+});
+
+describe('holdPackageRelease', () => {
+  const input = {
+    enhancementId: '101', canonicalUrl: 'https://x.test/a/', repUrl: null,
+    memberIds: ['c1', 'c2'], reviewer: REVIEWER,
+  };
+
+  it('holds the package without releasing it inside the grace window', async () => {
+    const client = fakeClient(() => ({ rows: [HOLD_ROW] }));
+    const hold = await holdPackageRelease(client as any, { ...input, graceMinutes: 15 });
+
+    // Only the hold is written: members stay 'held', none moves to 'approved'.
+    expect(client.query).toHaveBeenCalledTimes(1);
+    expect(client.query.mock.calls[0][0]).toContain('INSERT INTO analytics.seo_package_release_hold');
+    expect(client.query.mock.calls[0][1]).toEqual(['101', 'https://x.test/a/', null, ['c1', 'c2'], 'held', 'u-42', REVIEWER.email, REVIEWER.name, 15]);
+    expect(hold).toMatchObject({ enhancement_id: '101', status: 'held', member_count: 2, release_after: '2026-10-18T08:15:00.000Z' });
+  });
+
+  it('dispatches held members and releases immediately when the window is 0', async () => {
+    const client = fakeClient(() => ({ rows: [{ ...HOLD_ROW, status: 'released' }] }));
+    await holdPackageRelease(client as any, { ...input, graceMinutes: 0 });
+
+    expect(client.query.mock.calls[0][0]).toContain("SET execution_status = 'approved'");
+    expect(client.query.mock.calls[0][1]).toEqual([['c1', 'c2'], HELD_EXECUTION_STATUS]);
+    expect(client.query.mock.calls[1][0]).toContain('seo_release_page_enhancement');
+    expect(client.query.mock.calls[2][1]).toContain('released');
+  });
+});
+
+describe('releaseDuePackages', () => {
+  it('releases each due hold in its own transaction and records failures', async () => {
+    const client = fakeClient((text, values) => {
+      if (text.includes('FOR UPDATE SKIP LOCKED')) return { rows: [{ hold_id: values[0], ids: [`m-${values[0]}`] }] };
+      if (text.includes('seo_release_page_enhancement') && values[0] === '102') return new Error('executor offline');
+      return {};
+    });
+    const pool = {
+      query: vi.fn(async (text: string) => (text.includes('release_after <= NOW()')
+        ? { rows: [{ hold_id: '7', enhancement_id: '101' }, { hold_id: '8', enhancement_id: '102' }] }
+        : { rows: [] })),
+      connect: vi.fn(async () => client),
+    };
+
+    const summary = await releaseDuePackages(pool as any);
+
+    expect(summary).toEqual({ released: 1, failed: 1, errors: [{ enhancement_id: '102', error: 'executor offline' }] });
+    expect(client.query).toHaveBeenCalledWith('COMMIT');
+    expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+    expect(pool.query).toHaveBeenLastCalledWith(expect.stringContaining('SET release_error'), ['8', 'executor offline']);
+    expect(client.release).toHaveBeenCalledTimes(2);
+
+    // Held members become dispatchable just before the executor is called.
+    const texts = client.query.mock.calls.map(([text]) => String(text));
+    const dispatch = texts.findIndex((t) => t.includes("SET execution_status = 'approved'"));
+    expect(dispatch).toBeGreaterThan(-1);
+    expect(client.query.mock.calls[dispatch][1]).toEqual([['m-7'], HELD_EXECUTION_STATUS]);
+    expect(texts[dispatch + 1]).toContain('seo_release_page_enhancement');
+  });
+});
+
+describe('revertPackage', () => {
+  it('restores unapplied members, queues rollbacks for applied ones and closes the hold', async () => {
+    const client = fakeClient((text) => {
+      if (text.includes('FROM analytics.seo_package_release_hold')) return { rows: [{ hold_id: '7', status: 'released', ids: ['c1', 'c2', 'c3'] }] };
+      if (text.includes("SET approval_status = 'pending'")) return { rowCount: 1 };
+      if (text.includes("'package_revert'")) return { rowCount: 2 };
+      return {};
+    });
+
+    const result = await revertPackage(client as any, '101', REVIEWER);
+
+    expect(result).toEqual({ enhancement_id: '101', status: 'reverted', restored: 1, rolled_back: 2, was_released: true });
+    const restore = client.query.mock.calls.find(([text]) => String(text).includes("SET approval_status = 'pending'"));
+    expect(restore?.[1]?.[2]).toEqual([HELD_EXECUTION_STATUS, 'approved']);
+    const close = client.query.mock.calls.find(([text]) => String(text).includes("SET status = 'reverted'"));
+    expect(close?.[1]).toEqual(['7', 'u-42', REVIEWER.email, 1, 2]);
+  });
+
+  it('skips a package that was already reverted', async () => {
+    const client = fakeClient(() => ({ rows: [{ hold_id: '7', status: 'reverted', ids: ['c1'] }] }));
+    const result = await revertPackage(client as any, '101', REVIEWER);
+
+    expect(result).toMatchObject({ status: 'skipped', reason: 'already_reverted' });
+    expect(client.query).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the package members for approvals made before holds existed', async () => {
+    const client = fakeClient((text) => {
+      if (text.includes('FROM analytics.seo_page_enhancement')) return { rows: [{ ids: ['c1'] }] };
+      if (text.includes("'package_revert'")) return { rowCount: 1 };
+      return {};
+    });
+
+    const result = await revertPackage(client as any, '101', REVIEWER);
+
+    expect(result).toMatchObject({ status: 'reverted', restored: 0, rolled_back: 1, was_released: true });
+    expect(client.query.mock.calls.some(([text]) => String(text).includes("SET status = 'reverted'"))).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { ga4, ads } = vi.hoisted(() => ({
+  ga4: {
+    syncPageEngagement: vi.fn(),
+    syncGA4Events: vi.fn(),
+    syncDeviceCountry: vi.fn(),
+    syncChannelSessions: vi.fn(),
+    createIngestionRun: vi.fn(),
+    completeIngestionRun: vi.fn(),
+  },
+  ads: {
+    syncCampaignPerformance: vi.fn(),
+    syncSearchTerms: vi.fn(),
+  },
+}));
+
+vi.mock('../ga4Sync', () => ga4);
+vi.mock('../googleAdsSync', () => ads);
+
+import { runBackfill, splitDateRange, validateBackfillRange, backfillId } from '../syncBackfill';
+
+function makePool(completedStarts: string[] = []) {
+  return {
+    query: vi.fn(async () => ({ rows: completedStarts.map((start_date) => ({ start_date })) })),
+  } as any;
+}
+
+const ok = (rows: number) => ({ rows, errors: [] });
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  let n = 0;
+  ga4.createIngestionRun.mockImplementation(async () => `run-${++n}`);
+  ga4.completeIngestionRun.mockResolvedValue(undefined);
+  for (const fn of [ga4.syncPageEngagement, ga4.syncGA4Events, ga4.syncDeviceCountry, ga4.syncChannelSessions]) {
+    fn.mockResolvedValue(ok(1));
+  }
+  ads.syncCampaignPerformance.mockResolvedValue(ok(2));
+  ads.syncSearchTerms.mockResolvedValue(ok(3));
+});
+
+describe('splitDateRange', () => {
+  it('splits an inclusive range into chunks with a short final chunk', () => {
+    expect(splitDateRange('2026-01-01', '2026-01-17', 7)).toEqual([
+      { startDate: '2026-01-01', endDate: '2026-01-07' },
+      { startDate: '2026-01-08', endDate: '2026-01-14' },
+      { startDate: '2026-01-15', endDate: '2026-01-17' },
+    ]);
+  });
+
+  it('returns a single one-day chunk for a one-day range', () => {
+    expect(splitDateRange('2026-03-01', '2026-03-01', 7)).toEqual([
+      { startDate: '2026-03-01', endDate: '2026-03-01' },
+    ]);
+  });
+});
+
+describe('validateBackfillRange', () => {
+  it('rejects malformed, inverted, oversized ranges and bad chunk sizes', () => {
+    expect(validateBackfillRange('2026/01/01', '2026-01-02', 7)).toMatch(/YYYY-MM-DD/);
+    expect(validateBackfillRange('2026-02-01', '2026-01-01', 7)).toMatch(/before or equal/);
+    expect(validateBackfillRange('2023-01-01', '2026-01-01', 7)).toMatch(/must not exceed/);
+    expect(validateBackfillRange('2026-01-01', '2026-01-31', 0)).toMatch(/chunkDays/);
+    expect(validateBackfillRange('2026-01-01', '2026-01-31', 7)).toBeNull();
+  });
+});
+
+describe('runBackfill', () => {
+  it('runs every sync per chunk and records each chunk as an ingestion run', async () => {
+    const pool = makePool();
+    const result = await runBackfill(pool, {
+      sources: ['ga4', 'google-ads'],
+      startDate: '2026-01-01',
+      endDate: '2026-01-10',
+      chunkDays: 5,
+    });
+
+    expect(result).toMatchObject({ completed: 4, skipped: 0, failed: 0, remaining: 0, done: true });
+    expect(ga4.syncGA4Events).toHaveBeenCalledWith(pool, '2026-01-06', '2026-01-10', expect.any(String));
+    expect(ads.syncSearchTerms).toHaveBeenCalledWith(pool, '2026-01-01', '2026-01-05', expect.any(String));
+
+    expect(ga4.createIngestionRun).toHaveBeenCalledWith(pool, 'ga4-api-backfill', 'ga4-backfill-chunk', {
+      startDate: '2026-01-01',
+      endDate: '2026-01-05',
+      backfillId: backfillId('ga4', '2026-01-01', '2026-01-10', 5),
+    });
+    expect(result.chunks.find((c) => c.source === 'google-ads')?.rows).toBe(5);
+  });
+
+  it('skips chunks already completed under the same backfill', async () => {
+    const pool = makePool(['2026-01-01']);
+    const result = await runBackfill(pool, {
+      sources: ['google-ads'],
+      startDate: '2026-01-01',
+      endDate: '2026-01-10',
+      chunkDays: 5,
+    });
+
+    expect(result.chunks.map((c) => c.status)).toEqual(['skipped', 'completed']);
+    expect(ads.syncCampaignPerformance).toHaveBeenCalledTimes(1);
+    expect(pool.query.mock.calls[0][1]).toEqual([backfillId('google-ads', '2026-01-01', '2026-01-10', 5)]);
+  });
+
+  it('stops at the first failed chunk and reports the rest as remaining', async () => {
+    ads.syncCampaignPerformance.mockRejectedValueOnce(new Error('BigQuery quota exceeded'));
+    const result = await runBackfill(makePool(), {
+      sources: ['google-ads'],
+      startDate: '2026-01-01',
+      endDate: '2026-01-15',
+      chunkDays: 5,
+    });
+
+    expect(result).toMatchObject({ completed: 0, failed: 1, remaining: 2, done: false });
+    expect(ga4.completeIngestionRun).toHaveBeenCalledWith(
+      expect.anything(), 'run-1', 'failed', 0, 1, expect.any(Number), 'BigQuery quota exceeded',
+    );
+  });
+
+  it('stops starting new chunks once the time budget is spent', async () => {
+    const result = await runBackfill(makePool(), {
+      sources: ['ga4'],
+      startDate: '2026-01-01',
+      endDate: '2026-01-10',
+      chunkDays: 5,
+      timeBudgetMs: 0,
+    });
+
+    expect(result).toMatchObject({ completed: 0, remaining: 2, done: false });
+    expect(ga4.createIngestionRun).not.toHaveBeenCalled();
+  });
+});
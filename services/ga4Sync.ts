@@ -18,7 +18,7 @@
 import { BetaAnalyticsDataClient } from '@google-analytics/data';
 import type { protos } from '@google-analytics/data';
 import { normalizeToPath } from '../lib/normalize-landing-page';
-import type { Pool } from 'pg';
+import type { DbPool } from '../lib/db';
 
 type GA4Row = protos.google.analytics.data.v1beta.IRow;
 type GA4ReportRequest = protos.google.analytics.data.v1beta.IRunReportRequest;
@@ -104,7 +104,7 @@ function getPropertyId(): string {
  * Uses ON CONFLICT upsert so re-runs for the same date range are idempotent.
  */
 export async function syncPageEngagement(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   clientOverride?: BetaAnalyticsDataClient,
@@ -198,7 +198,7 @@ export async function syncPageEngagement(
  * dimensions in the payload for Audience panel support.
  */
 export async function syncGA4Events(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   ingestionRunId: string,
@@ -307,7 +307,7 @@ export async function syncGA4Events(
  * more accurate data than Search Console provides.
  */
 export async function syncDeviceCountry(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   ingestionRunId: string,
@@ -402,7 +402,7 @@ export async function syncDeviceCountry(
  * event_name='channel_session_summary' distinguishes from device/country rows.
  */
 export async function syncChannelSessions(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   ingestionRunId: string,
@@ -495,20 +495,32 @@ export async function syncChannelSessions(
   return { rows: inserted, errors };
 }
 
+/**
+ * Optional scope recorded with an ingestion run: the date range it pulled
+ * and, for backfills, the backfill it belongs to (used to resume).
+ */
+export interface IngestionRunScope {
+  startDate?: string;
+  endDate?: string;
+  backfillId?: string;
+}
+
 /**
  * Record an ingestion run in analytics.ingestion_runs.
  * Returns the generated run ID for linking to raw_ga4_events rows.
  */
 export async function createIngestionRun(
-  pool: Pool,
+  pool: DbPool,
   source: string,
   dataType: string,
+  scope: IngestionRunScope = {},
 ): Promise<string> {
   const result = await pool.query(
-    `INSERT INTO analytics.ingestion_runs (source, status, started_at, data_type)
-     VALUES ($1, 'started', NOW(), $2)
+    `INSERT INTO analytics.ingestion_runs
+       (source, status, started_at, data_type, date_range_start, date_range_end, backfill_id)
+     VALUES ($1, 'started', NOW(), $2, $3, $4, $5)
      RETURNING id`,
-    [source, dataType],
+    [source, dataType, scope.startDate ?? null, scope.endDate ?? null, scope.backfillId ?? null],
   );
   return result.rows[0].id;
 }
@@ -518,7 +530,7 @@ export async function createIngestionRun(
  * Allowed status values: 'completed', 'failed' (per ingestion_runs_status_check constraint).
  */
 export async function completeIngestionRun(
-  pool: Pool,
+  pool: DbPool,
   runId: string,
   status: 'completed' | 'failed',
   recordsProcessed: number,
@@ -18,7 +18,7 @@
  */
 
 import { BigQuery } from '@google-cloud/bigquery';
-import type { Pool } from 'pg';
+import type { DbPool } from '../lib/db';
 
 export interface SyncResult {
   rows: number;
@@ -67,7 +67,7 @@ function getBQConfig(): { projectId: string; dataset: string; customerId: string
  *   Campaign: campaign_name
  */
 export async function syncCampaignPerformance(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   ingestionRunId: string,
@@ -198,7 +198,7 @@ export async function syncCampaignPerformance(
  * This function gracefully returns 0 rows if the table is not found.
  */
 export async function syncSearchTerms(
-  pool: Pool,
+  pool: DbPool,
   startDate: string,
   endDate: string,
   ingestionRunId: string,
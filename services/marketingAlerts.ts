@@ -0,0 +1,302 @@
+/**
+ * Marketing Alerts Service
+ *
+ * Evaluates the rules in lib/marketing-alerts.ts against
+ * executeMarketingQueries output, records every alert that fires in
+ * analytics.marketing_alert_events and delivers new ones by email and/or a
+ * Slack-compatible webhook.
+ *
+ * Dedupe: the (rule_id, window_end) unique index means a re-run for the same
+ * day records nothing new and delivers nothing, unless the earlier delivery
+ * failed or never finished ('failed' / 'pending'), in which case the row is
+ * refreshed and delivery is retried. A rule that was delivered
+ * within its cooldown is still recorded, as 'suppressed', so a drop that
+ * persists for several days notifies once and stays visible in history.
+ *
+ * Delivery config (server-side only):
+ *   NSD_SLACK_WEBHOOK_URL     — webhook channel; any endpoint accepting a
+ *                               Slack incoming-webhook payload ({ text }) works
+ *   ALERT_EMAIL_TO            — comma-separated recipients for the email channel
+ *   ALERT_EMAIL_FROM          — sender address
+ *   ALERT_EMAIL_API_KEY       — Resend API key used to send the email
+ * A channel that is not configured is reported in delivery_errors, not thrown.
+ *
+ * GOVERNANCE: This module performs WRITE operations to
+ * analytics.marketing_alert_events only. Metrics are read through
+ * executeMarketingQueries.
+ */
+
+import type { DbPool } from '../lib/db';
+import { executeMarketingQueries, type MarketingQueryResult } from './marketingQueries';
+import {
+  MARKETING_ALERT_RULES,
+  alertWindow,
+  evaluateAlertRule,
+  previousAlertWindow,
+  type AlertChannel,
+  type AlertEvaluation,
+  type AlertWindow,
+  type MarketingAlertRule,
+} from '../lib/marketing-alerts';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+
+export interface AlertDeliveryConfig {
+  webhookUrl: string | null;
+  email: { apiKey: string; from: string; to: string[] } | null;
+}
+
+export function alertDeliveryConfigFromEnv(): AlertDeliveryConfig {
+  const to = (process.env.ALERT_EMAIL_TO ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+  const apiKey = process.env.ALERT_EMAIL_API_KEY;
+  const from = process.env.ALERT_EMAIL_FROM;
+  return {
+    webhookUrl: process.env.NSD_SLACK_WEBHOOK_URL || null,
+    email: apiKey && from && to.length > 0 ? { apiKey, from, to } : null,
+  };
+}
+
+export interface FiredAlert extends AlertEvaluation {
+  window: AlertWindow;
+}
+
+export type AlertDeliveryStatus = 'delivered' | 'partial' | 'failed' | 'suppressed' | 'no_channel';
+
+export interface AlertRunSummary {
+  evaluated: number;
+  fired: number;
+  /** Fired but already recorded for this window by an earlier run. */
+  duplicates: number;
+  suppressed: number;
+  delivered: number;
+  failed: number;
+  alerts: Array<{ rule_id: string; window_end: string; status: AlertDeliveryStatus | 'duplicate'; message: string }>;
+  errors: string[];
+}
+
+export interface RunMarketingAlertsOptions {
+  now?: Date;
+  rules?: MarketingAlertRule[];
+  config?: AlertDeliveryConfig;
+  fetchImpl?: typeof fetch;
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+const SEVERITY_EMOJI: Record<string, string> = { critical: ':rotating_light:', warning: ':warning:', info: ':information_source:' };
+
+export function buildWebhookPayload(alerts: FiredAlert[]): Record<string, unknown> {
+  const lines = alerts.map((a) => `${SEVERITY_EMOJI[a.rule.severity] ?? ''} *${a.rule.name}* — ${a.message}`.trim());
+  return {
+    text: `Marketing alerts (${alerts.length}):\n${lines.join('\n')}`,
+    alerts: alerts.map((a) => ({
+      rule_id: a.rule.id,
+      name: a.rule.name,
+      severity: a.rule.severity,
+      metric: a.rule.metric,
+      condition: a.rule.condition,
+      threshold: a.rule.threshold,
+      observed: a.observed,
+      value: a.value,
+      baseline: a.baseline,
+      window_start: a.window.startDate,
+      window_end: a.window.endDate,
+      message: a.message,
+    })),
+  };
+}
+
+function buildEmail(alerts: FiredAlert[]): { subject: string; text: string } {
+  const critical = alerts.filter((a) => a.rule.severity === 'critical').length;
+  const subject = critical > 0
+    ? `[Marketing alert] ${critical} critical: ${alerts[0].rule.name}${alerts.length > 1 ? ` (+${alerts.length - 1} more)` : ''}`
+    : `[Marketing alert] ${alerts[0].rule.name}${alerts.length > 1 ? ` (+${alerts.length - 1} more)` : ''}`;
+  const text = [
+    'The following marketing alerts fired:',
+    '',
+    ...alerts.map((a) => `- [${a.rule.severity.toUpperCase()}] ${a.rule.name}\n  ${a.message}`),
+    '',
+    'Alert history: /dashboard/marketing/alerts',
+  ].join('\n');
+  return { subject, text };
+}
+
+async function postJson(fetchImpl: typeof fetch, url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const res = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+async function deliver(
+  channel: AlertChannel,
+  alerts: FiredAlert[],
+  config: AlertDeliveryConfig,
+  fetchImpl: typeof fetch,
+): Promise<string | null> {
+  try {
+    if (channel === 'webhook') {
+      if (!config.webhookUrl) return 'webhook: NSD_SLACK_WEBHOOK_URL not configured';
+      await postJson(fetchImpl, config.webhookUrl, buildWebhookPayload(alerts));
+      return null;
+    }
+    if (!config.email) return 'email: ALERT_EMAIL_TO / ALERT_EMAIL_FROM / ALERT_EMAIL_API_KEY not configured';
+    const { subject, text } = buildEmail(alerts);
+    await postJson(
+      fetchImpl,
+      RESEND_API_URL,
+      { from: config.email.from, to: config.email.to, subject, text },
+      { Authorization: `Bearer ${config.email.apiKey}` },
+    );
+    return null;
+  } catch (err) {
+    return `${channel}: ${(err as Error).message}`;
+  }
+}
+
+// ============================================
+// Evaluation run
+// ============================================
+
+/**
+ * Inserts the alert, or reclaims the existing row for the window when its
+ * delivery failed or was interrupted. Returns null for a window already
+ * delivered, suppressed or without channels.
+ */
+async function recordAlert(pool: DbPool, alert: FiredAlert): Promise<string | null> {
+  const result = await pool.query(
+    `INSERT INTO analytics.marketing_alert_events (
+       rule_id, rule_name, metric, condition, severity, threshold,
+       observed, value, baseline, message, window_start, window_end, channels
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+     ON CONFLICT (rule_id, window_end) DO UPDATE SET
+       observed = EXCLUDED.observed,
+       value = EXCLUDED.value,
+       baseline = EXCLUDED.baseline,
+       message = EXCLUDED.message,
+       channels = EXCLUDED.channels,
+       delivery_status = 'pending'
+     WHERE analytics.marketing_alert_events.delivery_status IN ('pending', 'failed')
+     RETURNING id`,
+    [
+      alert.rule.id,
+      alert.rule.name,
+      alert.rule.metric,
+      alert.rule.condition,
+      alert.rule.severity,
+      alert.rule.threshold,
+      alert.observed,
+      alert.value,
+      alert.baseline,
+      alert.message,
+      alert.window.startDate,
+      alert.window.endDate,
+      alert.rule.channels,
+    ],
+  );
+  return result.rows[0]?.id != null ? String(result.rows[0].id) : null;
+}
+
+async function inCooldown(pool: DbPool, rule: MarketingAlertRule, eventId: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT 1 FROM analytics.marketing_alert_events
+     WHERE rule_id = $1 AND id <> $2
+       AND delivery_status IN ('delivered', 'partial')
+       AND fired_at > NOW() - make_interval(hours => $3)
+     LIMIT 1`,
+    [rule.id, eventId, rule.cooldownHours],
+  );
+  return result.rows.length > 0;
+}
+
+export async function runMarketingAlerts(pool: DbPool, options: RunMarketingAlertsOptions = {}): Promise<AlertRunSummary> {
+  const now = options.now ?? new Date();
+  const rules = options.rules ?? MARKETING_ALERT_RULES;
+  const config = options.config ?? alertDeliveryConfigFromEnv();
+  const fetchImpl = options.fetchImpl ?? fetch;
+
+  const summary: AlertRunSummary = {
+    evaluated: 0, fired: 0, duplicates: 0, suppressed: 0, delivered: 0, failed: 0, alerts: [], errors: [],
+  };
+
+  // One metrics query per distinct window length.
+  const fired: FiredAlert[] = [];
+  const windowLengths = Array.from(new Set(rules.map((r) => r.windowDays)));
+  for (const days of windowLengths) {
+    const window = alertWindow(days, now);
+    const prev = previousAlertWindow(window);
+    let result: MarketingQueryResult;
+    try {
+      result = await executeMarketingQueries(pool, {
+        startDate: window.startDate,
+        endDate: window.endDate,
+        prevStartDate: prev.startDate,
+        prevEndDate: prev.endDate,
+        includeTimeseries: true,
+      });
+    } catch (err) {
+      summary.errors.push(`${days}-day window: ${(err as Error).message}`);
+      continue;
+    }
+    for (const rule of rules.filter((r) => r.windowDays === days)) {
+      summary.evaluated += 1;
+      const evaluation = evaluateAlertRule(rule, result, window);
+      if (evaluation.fired) fired.push({ ...evaluation, window });
+    }
+  }
+  summary.fired = fired.length;
+
+  const toDeliver: Array<{ alert: FiredAlert; eventId: string }> = [];
+  for (const alert of fired) {
+    const eventId = await recordAlert(pool, alert);
+    if (!eventId) {
+      summary.duplicates += 1;
+      summary.alerts.push({ rule_id: alert.rule.id, window_end: alert.window.endDate, status: 'duplicate', message: alert.message });
+      continue;
+    }
+    if (await inCooldown(pool, alert.rule, eventId)) {
+      summary.suppressed += 1;
+      await pool.query(
+        `UPDATE analytics.marketing_alert_events SET delivery_status = 'suppressed' WHERE id = $1`,
+        [eventId],
+      );
+      summary.alerts.push({ rule_id: alert.rule.id, window_end: alert.window.endDate, status: 'suppressed', message: alert.message });
+      continue;
+    }
+    toDeliver.push({ alert, eventId });
+  }
+
+  // One message per channel, carrying every alert routed to it.
+  const channelErrors = new Map<AlertChannel, string | null>();
+  for (const channel of ['email', 'webhook'] as AlertChannel[]) {
+    const batch = toDeliver.filter((d) => d.alert.rule.channels.includes(channel)).map((d) => d.alert);
+    if (batch.length > 0) channelErrors.set(channel, await deliver(channel, batch, config, fetchImpl));
+  }
+
+  for (const { alert, eventId } of toDeliver) {
+    const channels = alert.rule.channels;
+    const delivered = channels.filter((c) => channelErrors.get(c) === null);
+    const errors = channels.map((c) => channelErrors.get(c)).filter((e): e is string => typeof e === 'string');
+    const status: AlertDeliveryStatus = channels.length === 0
+      ? 'no_channel'
+      : delivered.length === channels.length ? 'delivered' : delivered.length > 0 ? 'partial' : 'failed';
+
+    await pool.query(
+      `UPDATE analytics.marketing_alert_events
+       SET delivery_status = $1, delivered_channels = $2, delivery_errors = $3
+       WHERE id = $4`,
+      [status, delivered, errors.length > 0 ? errors.join('; ') : null, eventId],
+    );
+
+    if (status === 'delivered' || status === 'partial') summary.delivered += 1;
+    if (status === 'failed') summary.failed += 1;
+    summary.alerts.push({ rule_id: alert.rule.id, window_end: alert.window.endDate, status, message: alert.message });
+  }
+
+  return summary;
+}
@@ -0,0 +1,262 @@
+/**
+ * Marketing Anomalies Service
+ *
+ * Loads BASELINE_WEEKS weeks of daily history for every Executive Overview
+ * and Google Ads series, runs the seasonal band detector in
+ * lib/marketing-anomalies.ts over the requested window, and attributes the
+ * largest anomalies to a channel, landing page or campaign.
+ *
+ * Series are read from the same tables as executeMarketingQueries:
+ *   sessions                        analytics.metrics_page_engagement_daily
+ *   submissions, pipeline_value_usd marketing.quote_facts_unified
+ *   impressions, clicks             analytics.metrics_search_console_daily
+ *   ads_spend/clicks/conversions    analytics.metrics_google_ads_campaign_daily
+ *
+ * Each query only returns days that have rows, so the detector can tell a
+ * lagging source (no row yet) from a real zero. A source that fails to load
+ * yields empty series instead of failing the whole response.
+ *
+ * GOVERNANCE: Read-only.
+ */
+
+import type { DbPool } from '../lib/db';
+import type {
+  MarketingAnomaliesResponse,
+  MarketingAnomaly,
+  MarketingAnomalyDimension,
+  MarketingAnomalyMetric,
+  MarketingAnomalySeries,
+} from '../types/activity-spine';
+import {
+  ANOMALY_METRICS,
+  BASELINE_WEEKS,
+  attributeAnomaly,
+  baselineDates,
+  detectSeriesAnomalies,
+  historyStart,
+  type DailyValue,
+  type DimensionDailyValue,
+} from '../lib/marketing-anomalies';
+
+type Row = Record<string, unknown>;
+
+/** Anomalies (largest |z| first) that get a driver lookup. */
+const MAX_ATTRIBUTED = 12;
+
+// ============================================
+// SQL — daily series ($1 = history start, $2 = window end)
+// ============================================
+
+const CANON_PATH = (col: string) =>
+  `RTRIM(split_part(regexp_replace(${col}, '^https?://[^/]*', ''), '?', 1), '/') || '/'`;
+
+interface SeriesSource {
+  name: string;
+  sql: string;
+  columns: Partial<Record<MarketingAnomalyMetric, string>>;
+}
+
+const SERIES_SOURCES: SeriesSource[] = [
+  {
+    name: 'engagement',
+    sql: `SELECT metric_date::text AS date, SUM(sessions) AS sessions
+          FROM analytics.metrics_page_engagement_daily
+          WHERE metric_date BETWEEN $1::date AND $2::date
+          GROUP BY metric_date`,
+    columns: { sessions: 'sessions' },
+  },
+  {
+    name: 'quotes',
+    sql: `SELECT submitted_at::date::text AS date,
+                 COUNT(*) AS submissions,
+                 COALESCE(SUM(submitted_value_cents), 0) / 100.0 AS pipeline_value_usd
+          FROM marketing.quote_facts_unified
+          WHERE NOT is_test
+            AND submitted_at >= $1::date AND submitted_at < ($2::date + INTERVAL '1 day')
+          GROUP BY submitted_at::date`,
+    columns: { submissions: 'submissions', pipeline_value_usd: 'pipeline_value_usd' },
+  },
+  {
+    name: 'search_console',
+    sql: `SELECT date::text AS date, SUM(impressions) AS impressions, SUM(clicks) AS clicks
+          FROM analytics.metrics_search_console_daily
+          WHERE date BETWEEN $1::date AND $2::date
+          GROUP BY date`,
+    columns: { impressions: 'impressions', clicks: 'clicks' },
+  },
+  {
+    name: 'google_ads',
+    sql: `SELECT metric_date::text AS date, SUM(cost) AS spend, SUM(clicks) AS clicks, SUM(conversions) AS conversions
+          FROM analytics.metrics_google_ads_campaign_daily
+          WHERE metric_date BETWEEN $1::date AND $2::date
+          GROUP BY metric_date`,
+    columns: { ads_spend: 'spend', ads_clicks: 'clicks', ads_conversions: 'conversions' },
+  },
+];
+
+// ============================================
+// SQL — driver breakdowns ($1 = date[])
+// ============================================
+
+interface DriverSource {
+  name: string;
+  dimension: MarketingAnomalyDimension;
+  sql: string;
+  columns: Partial<Record<MarketingAnomalyMetric, string>>;
+}
+
+const DRIVER_SOURCES: DriverSource[] = [
+  {
+    name: 'ga4_channel',
+    dimension: 'channel',
+    sql: `SELECT occurred_at::date::text AS date,
+                 COALESCE(NULLIF(payload->>'channel', ''), '(not set)') AS key,
+                 SUM((payload->>'sessions')::int) AS sessions
+          FROM analytics.raw_ga4_events
+          WHERE event_name = 'channel_session_summary'
+            AND source_system = 'ga4-api'
+            AND occurred_at::date = ANY($1::date[])
+          GROUP BY 1, 2`,
+    columns: { sessions: 'sessions' },
+  },
+  {
+    name: 'engagement_page',
+    dimension: 'landing_page',
+    sql: `SELECT metric_date::text AS date,
+                 ${CANON_PATH('page_path')} AS key,
+                 SUM(sessions) AS sessions
+          FROM analytics.metrics_page_engagement_daily
+          WHERE metric_date = ANY($1::date[])
+          GROUP BY 1, 2`,
+    columns: { sessions: 'sessions' },
+  },
+  {
+    name: 'quote_source',
+    dimension: 'channel',
+    sql: `SELECT submitted_at::date::text AS date,
+                 COALESCE(NULLIF(source_group, ''), 'unknown') AS key,
+                 COUNT(*) AS submissions,
+                 COALESCE(SUM(submitted_value_cents), 0) / 100.0 AS pipeline_value_usd
+          FROM marketing.quote_facts_unified
+          WHERE NOT is_test
+            AND submitted_at::date = ANY($1::date[])
+          GROUP BY 1, 2`,
+    columns: { submissions: 'submissions', pipeline_value_usd: 'pipeline_value_usd' },
+  },
+  {
+    name: 'search_console_page',
+    dimension: 'landing_page',
+    sql: `SELECT metric_date::text AS date,
+                 ${CANON_PATH('page_url')} AS key,
+                 SUM(impressions::int) AS impressions,
+                 SUM(clicks::int) AS clicks
+          FROM analytics.metrics_search_console_page_daily
+          WHERE metric_date = ANY($1::date[])
+          GROUP BY 1, 2`,
+    columns: { impressions: 'impressions', clicks: 'clicks' },
+  },
+  {
+    name: 'google_ads_campaign',
+    dimension: 'campaign',
+    sql: `SELECT metric_date::text AS date,
+                 COALESCE(NULLIF(campaign_name, ''), campaign_id::text) AS key,
+                 SUM(cost) AS spend,
+                 SUM(clicks) AS clicks,
+                 SUM(conversions) AS conversions
+          FROM analytics.metrics_google_ads_campaign_daily
+          WHERE metric_date = ANY($1::date[])
+          GROUP BY 1, 2`,
+    columns: { ads_spend: 'spend', ads_clicks: 'clicks', ads_conversions: 'conversions' },
+  },
+];
+
+function toNumber(v: unknown): number {
+  const n = Number(v);
+  return Number.isFinite(n) ? n : 0;
+}
+
+async function safeQuery(db: DbPool, name: string, sql: string, params: unknown[]): Promise<Row[]> {
+  try {
+    const result = await db.query(sql, params);
+    return result.rows;
+  } catch (err) {
+    console.error(`[marketingAnomalies] ${name} query failed:`, (err as Error).message);
+    return [];
+  }
+}
+
+// ============================================
+// Public interface
+// ============================================
+
+export interface MarketingAnomalyOptions {
+  startDate: string;
+  endDate: string;
+}
+
+export async function detectMarketingAnomalies(
+  db: DbPool,
+  opts: MarketingAnomalyOptions,
+): Promise<MarketingAnomaliesResponse> {
+  const from = historyStart(opts.startDate);
+  const sourceRows = await Promise.all(
+    SERIES_SOURCES.map((s) => safeQuery(db, s.name, s.sql, [from, opts.endDate])),
+  );
+
+  const seriesRows = new Map<MarketingAnomalyMetric, DailyValue[]>();
+  SERIES_SOURCES.forEach((source, i) => {
+    (Object.keys(source.columns) as MarketingAnomalyMetric[]).forEach((metric) => {
+      const column = source.columns[metric] as string;
+      seriesRows.set(metric, sourceRows[i].map((r) => ({ date: String(r.date), value: toNumber(r[column]) })));
+    });
+  });
+
+  const series: MarketingAnomalySeries[] = [];
+  const anomalies: MarketingAnomaly[] = [];
+  for (const def of ANOMALY_METRICS) {
+    const detected = detectSeriesAnomalies(def, seriesRows.get(def.metric) ?? [], opts.startDate, opts.endDate);
+    series.push(detected.series);
+    anomalies.push(...detected.anomalies);
+  }
+  anomalies.sort((a, b) => Math.abs(b.z_score) - Math.abs(a.z_score));
+
+  await attributeTopAnomalies(db, anomalies.slice(0, MAX_ATTRIBUTED));
+
+  return {
+    start: opts.startDate,
+    end: opts.endDate,
+    baseline_weeks: BASELINE_WEEKS,
+    series,
+    anomalies,
+  };
+}
+
+/** One breakdown query per driver source, covering every anomaly it can explain. */
+async function attributeTopAnomalies(db: DbPool, anomalies: MarketingAnomaly[]): Promise<void> {
+  const lookups = DRIVER_SOURCES
+    .map((source) => {
+      const targets = anomalies.filter((a) => source.columns[a.metric] != null);
+      const dates = new Set<string>();
+      targets.forEach((a) => {
+        dates.add(a.date);
+        baselineDates(a.date, a.baseline).forEach((d) => dates.add(d));
+      });
+      return { source, targets, dates: Array.from(dates) };
+    })
+    .filter((l) => l.targets.length > 0);
+
+  const rows = await Promise.all(lookups.map((l) => safeQuery(db, l.source.name, l.source.sql, [l.dates])));
+
+  lookups.forEach(({ source, targets }, i) => {
+    for (const anomaly of targets) {
+      const column = source.columns[anomaly.metric] as string;
+      const dimensionRows: DimensionDailyValue[] = rows[i].map((r) => ({
+        date: String(r.date),
+        key: String(r.key),
+        value: toNumber(r[column]),
+      }));
+      const driver = attributeAnomaly(anomaly, source.dimension, dimensionRows);
+      if (driver && (!anomaly.driver || driver.share > anomaly.driver.share)) anomaly.driver = driver;
+    }
+  });
+}
@@ -0,0 +1,276 @@
+/**
+ * Marketing Experiments Service
+ *
+ * CRUD for analytics.marketing_experiments and automatic lift measurement.
+ * Lift is read from executeMarketingQueries: the experiment window is passed
+ * as the current period and the equal-length window before start_date as the
+ * previous period, and the target metric is taken from core4_summary for the
+ * engine the experiment log entry maps to (lib/marketing-experiments.ts).
+ *
+ * Experiments are measured when created, when a measured field is edited,
+ * from the "measure" action and by the daily marketing-experiments cron,
+ * which re-measures running experiments as each new day completes.
+ *
+ * Deletes are soft (deleted_at / deleted_by) so the audit trail survives.
+ *
+ * GOVERNANCE: This module performs WRITE operations to
+ * analytics.marketing_experiments only. Metrics are read through
+ * executeMarketingQueries.
+ */
+
+import type { DbPool } from '../lib/db';
+import type { MarketingExperiment } from '../types/activity-spine';
+import { executeMarketingQueries } from './marketingQueries';
+import {
+  EXPERIMENT_ENGINES,
+  UNMEASURED_ENGINES,
+  computeLift,
+  measurementIsStale,
+  measurementWindows,
+  type ExperimentInput,
+} from '../lib/marketing-experiments';
+
+const COLUMNS = `
+  id, name, engine, target_metric, hypothesis, change_made,
+  start_date::text AS start_date, end_date::text AS end_date, decision, notes, owner,
+  result_lift::float AS result_lift, baseline_value::float AS baseline_value,
+  experiment_value::float AS experiment_value,
+  baseline_start::text AS baseline_start, baseline_end::text AS baseline_end,
+  measured_end::text AS measured_end, measured_at, measurement_error,
+  created_by, created_at, updated_by, updated_at`;
+
+const EDITABLE: Array<keyof ExperimentInput> = [
+  'name', 'engine', 'target_metric', 'hypothesis', 'change_made',
+  'start_date', 'end_date', 'decision', 'notes', 'owner',
+];
+
+/** Fields whose change invalidates the stored measurement. */
+const MEASURED_INPUTS: Array<keyof ExperimentInput> = ['engine', 'target_metric', 'start_date', 'end_date'];
+
+function iso(v: unknown): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function mapRow(r: Record<string, unknown>): MarketingExperiment {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    engine: String(r.engine),
+    target_metric: r.target_metric as MarketingExperiment['target_metric'],
+    hypothesis: String(r.hypothesis ?? ''),
+    change_made: String(r.change_made ?? ''),
+    start_date: String(r.start_date),
+    end_date: (r.end_date as string | null) ?? null,
+    decision: r.decision as MarketingExperiment['decision'],
+    notes: (r.notes as string | null) ?? null,
+    owner: String(r.owner),
+    result_lift: r.result_lift != null ? Number(r.result_lift) : null,
+    baseline_value: r.baseline_value != null ? Number(r.baseline_value) : null,
+    experiment_value: r.experiment_value != null ? Number(r.experiment_value) : null,
+    baseline_start: (r.baseline_start as string | null) ?? null,
+    baseline_end: (r.baseline_end as string | null) ?? null,
+    measured_end: (r.measured_end as string | null) ?? null,
+    measured_at: iso(r.measured_at),
+    measurement_error: (r.measurement_error as string | null) ?? null,
+    created_by: String(r.created_by),
+    created_at: iso(r.created_at) as string,
+    updated_by: String(r.updated_by),
+    updated_at: iso(r.updated_at) as string,
+  };
+}
+
+export async function listExperiments(pool: DbPool): Promise<MarketingExperiment[]> {
+  const result = await pool.query(
+    `SELECT ${COLUMNS} FROM analytics.marketing_experiments
+     WHERE deleted_at IS NULL
+     ORDER BY start_date DESC, created_at DESC`,
+  );
+  return result.rows.map(mapRow);
+}
+
+export async function getExperiment(pool: DbPool, id: string): Promise<MarketingExperiment | null> {
+  const result = await pool.query(
+    `SELECT ${COLUMNS} FROM analytics.marketing_experiments WHERE id = $1 AND deleted_at IS NULL`,
+    [id],
+  );
+  return result.rows[0] ? mapRow(result.rows[0]) : null;
+}
+
+/**
+ * Measures first and inserts the row with its measurement in one statement,
+ * so a failure leaves nothing behind for a retry to duplicate.
+ */
+export async function createExperiment(
+  pool: DbPool,
+  input: ExperimentInput,
+  actor: string,
+  now: Date = new Date(),
+): Promise<MarketingExperiment> {
+  const m = await measureExperimentLift(pool, input, now);
+  const result = await pool.query(
+    `INSERT INTO analytics.marketing_experiments
+       (name, engine, target_metric, hypothesis, change_made, start_date, end_date,
+        decision, notes, owner, created_by, updated_by,
+        result_lift, baseline_value, experiment_value, baseline_start, baseline_end,
+        measured_end, measurement_error, measured_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $11,
+             $12, $13, $14, $15, $16, $17, $18, NOW())
+     RETURNING ${COLUMNS}`,
+    [
+      input.name, input.engine, input.target_metric, input.hypothesis, input.change_made,
+      input.start_date, input.end_date, input.decision, input.notes, input.owner ?? actor, actor,
+      m.result_lift, m.baseline_value, m.experiment_value, m.baseline_start, m.baseline_end,
+      m.measured_end, m.measurement_error,
+    ],
+  );
+  return mapRow(result.rows[0]);
+}
+
+/**
+ * Applies a partial update. Returns null when the experiment does not exist,
+ * and whether the change requires a new measurement.
+ */
+export async function updateExperiment(
+  pool: DbPool,
+  id: string,
+  patch: Partial<ExperimentInput>,
+  actor: string,
+): Promise<{ experiment: MarketingExperiment; remeasure: boolean } | null> {
+  const sets: string[] = [];
+  const params: unknown[] = [id, actor];
+  for (const key of EDITABLE) {
+    if (patch[key] === undefined) continue;
+    params.push(patch[key]);
+    sets.push(`${key} = $${params.length}`);
+  }
+  const result = await pool.query(
+    `UPDATE analytics.marketing_experiments
+     SET ${[...sets, 'updated_by = $2', 'updated_at = NOW()'].join(', ')}
+     WHERE id = $1 AND deleted_at IS NULL
+     RETURNING ${COLUMNS}`,
+    params,
+  );
+  if (!result.rows[0]) return null;
+  return {
+    experiment: mapRow(result.rows[0]),
+    remeasure: MEASURED_INPUTS.some((k) => patch[k] !== undefined),
+  };
+}
+
+export async function deleteExperiment(pool: DbPool, id: string, actor: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE analytics.marketing_experiments
+     SET deleted_at = NOW(), deleted_by = $2
+     WHERE id = $1 AND deleted_at IS NULL`,
+    [id, actor],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export interface ExperimentMeasurement {
+  result_lift: number | null;
+  baseline_value: number | null;
+  experiment_value: number | null;
+  baseline_start: string | null;
+  baseline_end: string | null;
+  measured_end: string | null;
+  measurement_error: string | null;
+}
+
+/** Computes lift for one experiment; failures are returned in measurement_error, not thrown. */
+export async function measureExperimentLift(
+  pool: DbPool,
+  experiment: Pick<MarketingExperiment, 'engine' | 'target_metric' | 'start_date' | 'end_date'>,
+  now: Date = new Date(),
+): Promise<ExperimentMeasurement> {
+  const empty: ExperimentMeasurement = {
+    result_lift: null, baseline_value: null, experiment_value: null,
+    baseline_start: null, baseline_end: null, measured_end: null, measurement_error: null,
+  };
+
+  const engine = EXPERIMENT_ENGINES.find((e) => e.label === experiment.engine);
+  if (!engine) return { ...empty, measurement_error: `Unknown engine: ${experiment.engine}` };
+  if (UNMEASURED_ENGINES.includes(engine.core4)) {
+    return { ...empty, measurement_error: `${experiment.engine} has no governed metrics source yet` };
+  }
+
+  const windows = measurementWindows(experiment.start_date, experiment.end_date, now);
+  if (!windows) return { ...empty, measurement_error: 'Experiment has not started yet' };
+
+  const base = {
+    ...empty,
+    baseline_start: windows.baseline.start,
+    baseline_end: windows.baseline.end,
+    measured_end: windows.experiment.end,
+  };
+
+  try {
+    const result = await executeMarketingQueries(pool, {
+      startDate: windows.experiment.start,
+      endDate: windows.experiment.end,
+      prevStartDate: windows.baseline.start,
+      prevEndDate: windows.baseline.end,
+      includeTimeseries: false,
+    });
+    const comparison = result.core4_summary[engine.core4];
+    const baselineValue = comparison.previous[experiment.target_metric];
+    const experimentValue = comparison.current[experiment.target_metric];
+    const lift = computeLift(baselineValue, experimentValue);
+    return {
+      ...base,
+      baseline_value: baselineValue,
+      experiment_value: experimentValue,
+      result_lift: lift,
+      measurement_error: lift == null ? 'Baseline is zero; lift is undefined' : null,
+    };
+  } catch (err) {
+    return { ...base, measurement_error: (err as Error).message };
+  }
+}
+
+/** Measures and stores the result on the row. */
+export async function measureAndSaveExperiment(
+  pool: DbPool,
+  experiment: MarketingExperiment,
+  now: Date = new Date(),
+): Promise<MarketingExperiment> {
+  const m = await measureExperimentLift(pool, experiment, now);
+  const result = await pool.query(
+    `UPDATE analytics.marketing_experiments
+     SET result_lift = $2, baseline_value = $3, experiment_value = $4,
+         baseline_start = $5, baseline_end = $6, measured_end = $7,
+         measurement_error = $8, measured_at = NOW()
+     WHERE id = $1
+     RETURNING ${COLUMNS}`,
+    [
+      experiment.id, m.result_lift, m.baseline_value, m.experiment_value,
+      m.baseline_start, m.baseline_end, m.measured_end, m.measurement_error,
+    ],
+  );
+  return result.rows[0] ? mapRow(result.rows[0]) : { ...experiment, ...m };
+}
+
+export interface ExperimentRemeasureSummary {
+  checked: number;
+  remeasured: number;
+  errors: string[];
+}
+
+/** Re-measures every experiment whose stored measurement is stale (daily cron). */
+export async function remeasureStaleExperiments(
+  pool: DbPool,
+  now: Date = new Date(),
+): Promise<ExperimentRemeasureSummary> {
+  const experiments = await listExperiments(pool);
+  const summary: ExperimentRemeasureSummary = { checked: experiments.length, remeasured: 0, errors: [] };
+  for (const experiment of experiments.filter((e) => measurementIsStale(e, now))) {
+    try {
+      await measureAndSaveExperiment(pool, experiment, now);
+      summary.remeasured += 1;
+    } catch (err) {
+      summary.errors.push(`${experiment.id}: ${(err as Error).message}`);
+    }
+  }
+  return summary;
+}
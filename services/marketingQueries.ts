@@ -6,7 +6,7 @@
  * All date filtering uses BETWEEN $1 AND $2 (UTC dates).
  */
 
-import type { Pool } from 'pg';
+import type { DbPool } from '../lib/db';
 import { toNumber, safeDivide, clamp, nonNegative } from '../lib/aggregation';
 import { normalizeToPath } from '../lib/normalize-landing-page';
 import { NO_LANDING_PAGE_SENTINEL } from '../types/activity-spine';
@@ -1297,7 +1297,7 @@ export interface MarketingQueryResult {
 }
 
 export async function executeMarketingQueries(
-  db: Pool,
+  db: DbPool,
   opts: MarketingQueryOptions
 ): Promise<MarketingQueryResult> {
   const filters = opts.filters;
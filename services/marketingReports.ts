@@ -0,0 +1,512 @@
+/**
+ * Marketing Reports Service
+ *
+ * CRUD for analytics.marketing_report_schedules, and report generation:
+ * reads the scheduled dashboard's data server-side (executeMarketingQueries,
+ * executeQmsQueries, getSeoNorthStarSnapshot), builds the same
+ * ExportSection[] the dashboard exports (lib/marketing-report-sections.ts),
+ * renders PDF and/or CSV (lib/exportDocuments.ts), delivers it and records
+ * the outcome in analytics.marketing_report_runs.
+ *
+ * Due schedules are claimed by advancing next_run_at with a conditional
+ * UPDATE before the report is built, so an overlapping or repeated cron run
+ * sends each report once.
+ *
+ * Delivery config (server-side only):
+ *   REPORT_EMAIL_FROM         — sender address (falls back to ALERT_EMAIL_FROM)
+ *   REPORT_EMAIL_API_KEY      — Resend API key (falls back to ALERT_EMAIL_API_KEY)
+ *   REPORT_STORAGE_BUCKET     — Supabase Storage bucket for the storage channel;
+ *                               uploads use NEXT_PUBLIC_SUPABASE_URL and
+ *                               SUPABASE_SERVICE_ROLE_KEY
+ * A channel that is not configured is reported in the run's error, not thrown.
+ *
+ * GOVERNANCE: This module performs WRITE operations to
+ * analytics.marketing_report_schedules and analytics.marketing_report_runs
+ * only. Dashboard data is read through the services listed above.
+ */
+
+import type { DbPool } from '../lib/db';
+import type {
+  MarketingReportDelivery,
+  MarketingReportFormat,
+  MarketingReportRun,
+  MarketingReportRunStatus,
+  MarketingReportSchedule,
+} from '../types/activity-spine';
+import { buildCSV, buildPDF, type ExportMeta, type ExportSection } from '../lib/exportDocuments';
+import {
+  REPORT_DASHBOARDS,
+  REPORT_PERIODS,
+  nextReportRun,
+  previousPeriodRange,
+  reportFilename,
+  reportPeriodRange,
+  type ReportPeriodRange,
+  type ReportScheduleInput,
+} from '../lib/marketing-reports';
+import {
+  core4EngineRows,
+  core4Sections,
+  operatorHubSections,
+  seoNorthStarSections,
+  warmOutreachSections,
+} from '../lib/marketing-report-sections';
+import { executeMarketingQueries } from './marketingQueries';
+import { QMS_UNAVAILABLE, executeQmsQueries, qmsTableExists } from './qmsAnalytics';
+import { getSeoNorthStarSnapshot } from './seoNorthStar';
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+const DAY_MS = 86_400_000;
+
+export interface ReportDeliveryConfig {
+  email: { apiKey: string; from: string } | null;
+  storage: { url: string; serviceKey: string; bucket: string } | null;
+}
+
+export function reportDeliveryConfigFromEnv(): ReportDeliveryConfig {
+  const apiKey = process.env.REPORT_EMAIL_API_KEY || process.env.ALERT_EMAIL_API_KEY;
+  const from = process.env.REPORT_EMAIL_FROM || process.env.ALERT_EMAIL_FROM;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  const bucket = process.env.REPORT_STORAGE_BUCKET;
+  return {
+    email: apiKey && from ? { apiKey, from } : null,
+    storage: url && serviceKey && bucket ? { url: url.replace(/\/+$/, ''), serviceKey, bucket } : null,
+  };
+}
+
+// ============================================
+// Schedules
+// ============================================
+
+const SCHEDULE_COLUMNS = `
+  id, name, dashboard, period, cadence, weekday, day_of_month, formats, delivery,
+  recipients, enabled, next_run_at, last_run_at, created_by, created_at, updated_at`;
+
+function iso(v: unknown): string {
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function mapSchedule(r: Record<string, unknown>): MarketingReportSchedule {
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    dashboard: r.dashboard as MarketingReportSchedule['dashboard'],
+    period: r.period as MarketingReportSchedule['period'],
+    cadence: r.cadence as MarketingReportSchedule['cadence'],
+    weekday: r.weekday == null ? null : Number(r.weekday),
+    day_of_month: r.day_of_month == null ? null : Number(r.day_of_month),
+    formats: (r.formats as MarketingReportFormat[]) ?? [],
+    delivery: (r.delivery as MarketingReportDelivery[]) ?? [],
+    recipients: (r.recipients as string[]) ?? [],
+    enabled: Boolean(r.enabled),
+    next_run_at: iso(r.next_run_at),
+    last_run_at: r.last_run_at == null ? null : iso(r.last_run_at),
+    created_by: String(r.created_by),
+    created_at: iso(r.created_at),
+    updated_at: iso(r.updated_at),
+  };
+}
+
+function mapRun(r: Record<string, unknown>): MarketingReportRun {
+  return {
+    id: String(r.id),
+    schedule_id: r.schedule_id == null ? null : String(r.schedule_id),
+    schedule_name: String(r.schedule_name),
+    dashboard: r.dashboard as MarketingReportRun['dashboard'],
+    trigger: r.trigger === 'manual' ? 'manual' : 'schedule',
+    period_start: String(r.period_start),
+    period_end: String(r.period_end),
+    status: r.status as MarketingReportRunStatus,
+    formats: (r.formats as MarketingReportFormat[]) ?? [],
+    delivered_channels: (r.delivered_channels as MarketingReportDelivery[]) ?? [],
+    recipients: (r.recipients as string[]) ?? [],
+    storage_paths: (r.storage_paths as string[]) ?? [],
+    section_count: Number(r.section_count ?? 0),
+    error: (r.error as string | null) ?? null,
+    duration_ms: Number(r.duration_ms ?? 0),
+    created_at: iso(r.created_at),
+  };
+}
+
+export async function listReportSchedules(pool: DbPool): Promise<MarketingReportSchedule[]> {
+  const result = await pool.query(
+    `SELECT ${SCHEDULE_COLUMNS} FROM analytics.marketing_report_schedules ORDER BY lower(name), created_at`,
+  );
+  return result.rows.map(mapSchedule);
+}
+
+export async function getReportSchedule(pool: DbPool, id: string): Promise<MarketingReportSchedule | null> {
+  const result = await pool.query(
+    `SELECT ${SCHEDULE_COLUMNS} FROM analytics.marketing_report_schedules WHERE id = $1`,
+    [id],
+  );
+  return result.rows[0] ? mapSchedule(result.rows[0]) : null;
+}
+
+export async function createReportSchedule(
+  pool: DbPool,
+  input: ReportScheduleInput,
+  createdBy: string,
+  now: Date = new Date(),
+): Promise<MarketingReportSchedule> {
+  const result = await pool.query(
+    `INSERT INTO analytics.marketing_report_schedules
+       (name, dashboard, period, cadence, weekday, day_of_month, formats, delivery,
+        recipients, enabled, next_run_at, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     RETURNING ${SCHEDULE_COLUMNS}`,
+    [
+      input.name,
+      input.dashboard,
+      input.period,
+      input.cadence,
+      input.cadence === 'weekly' ? input.weekday : null,
+      input.cadence === 'monthly' ? input.day_of_month : null,
+      input.formats,
+      input.delivery,
+      input.recipients,
+      input.enabled,
+      nextReportRun(input, now).toISOString(),
+      createdBy,
+    ],
+  );
+  return mapSchedule(result.rows[0]);
+}
+
+/** Replaces the schedule with `merged` (the stored schedule plus the patch). */
+export async function updateReportSchedule(
+  pool: DbPool,
+  id: string,
+  merged: ReportScheduleInput,
+  now: Date = new Date(),
+): Promise<MarketingReportSchedule | null> {
+  const result = await pool.query(
+    `UPDATE analytics.marketing_report_schedules
+     SET name = $2, dashboard = $3, period = $4, cadence = $5, weekday = $6, day_of_month = $7,
+         formats = $8, delivery = $9, recipients = $10, enabled = $11, next_run_at = $12,
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING ${SCHEDULE_COLUMNS}`,
+    [
+      id,
+      merged.name,
+      merged.dashboard,
+      merged.period,
+      merged.cadence,
+      merged.cadence === 'weekly' ? merged.weekday : null,
+      merged.cadence === 'monthly' ? merged.day_of_month : null,
+      merged.formats,
+      merged.delivery,
+      merged.recipients,
+      merged.enabled,
+      nextReportRun(merged, now).toISOString(),
+    ],
+  );
+  return result.rows[0] ? mapSchedule(result.rows[0]) : null;
+}
+
+export async function deleteReportSchedule(pool: DbPool, id: string): Promise<boolean> {
+  const result = await pool.query(`DELETE FROM analytics.marketing_report_schedules WHERE id = $1`, [id]);
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function listReportRuns(pool: DbPool, limit = 50): Promise<MarketingReportRun[]> {
+  const result = await pool.query(
+    `SELECT id, schedule_id, schedule_name, dashboard, trigger,
+            to_char(period_start, 'YYYY-MM-DD') AS period_start,
+            to_char(period_end, 'YYYY-MM-DD') AS period_end,
+            status, formats, delivered_channels, recipients, storage_paths,
+            section_count, error, duration_ms, created_at
+     FROM analytics.marketing_report_runs
+     ORDER BY created_at DESC
+     LIMIT $1`,
+    [limit],
+  );
+  return result.rows.map(mapRun);
+}
+
+// ============================================
+// Generation
+// ============================================
+
+export interface ReportContent {
+  title: string;
+  range: ReportPeriodRange;
+  sections: ExportSection[];
+  meta: ExportMeta;
+}
+
+/** Reads the dashboard's data for the schedule's period and builds its sections. */
+export async function buildReportContent(
+  pool: DbPool,
+  schedule: Pick<MarketingReportSchedule, 'dashboard' | 'period'>,
+  sentAt: Date,
+): Promise<ReportContent> {
+  const def = REPORT_DASHBOARDS[schedule.dashboard];
+  const range = reportPeriodRange(schedule.period, sentAt);
+  const dateRange = `${range.start} to ${range.end} (${REPORT_PERIODS[schedule.period]})`;
+  const meta: ExportMeta = { dateRange: def.periodNote ? `${dateRange} · ${def.periodNote}` : dateRange };
+
+  let sections: ExportSection[];
+  switch (schedule.dashboard) {
+    case 'operator_hub':
+    case 'core4': {
+      const prev = previousPeriodRange(range);
+      const result = await executeMarketingQueries(pool, {
+        startDate: range.start,
+        endDate: range.end,
+        prevStartDate: prev.start,
+        prevEndDate: prev.end,
+        includeTimeseries: false,
+      });
+      // The Cold Outreach sub-label comes from the Sales Engine in the
+      // browser only; the report keeps its em-dash row.
+      sections = schedule.dashboard === 'operator_hub'
+        ? operatorHubSections(result)
+        : core4Sections(core4EngineRows(result.core4_summary, null));
+      break;
+    }
+    case 'warm_outreach': {
+      const days = Math.round((Date.parse(range.end) - Date.parse(range.start)) / DAY_MS) + 1;
+      const qms = (await qmsTableExists(pool))
+        ? (await executeQmsQueries(pool, { start: range.start, end: range.end, days })).data
+        : QMS_UNAVAILABLE;
+      sections = warmOutreachSections(qms);
+      break;
+    }
+    case 'seo_north_star': {
+      const snapshot = await getSeoNorthStarSnapshot(pool);
+      sections = seoNorthStarSections(snapshot.north_star, snapshot.pipeline);
+      break;
+    }
+  }
+
+  return { title: def.title, range, sections, meta };
+}
+
+export interface ReportFile {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export function renderReportFiles(
+  content: ReportContent,
+  dashboard: MarketingReportSchedule['dashboard'],
+  formats: MarketingReportFormat[],
+  sentAt: Date,
+): ReportFile[] {
+  return formats.map((format) => ({
+    filename: reportFilename(dashboard, content.range, format),
+    contentType: format === 'pdf' ? 'application/pdf' : 'text/csv; charset=utf-8',
+    content: format === 'pdf'
+      ? Buffer.from(buildPDF(content.title, content.sections, content.meta, sentAt).output('arraybuffer'))
+      : Buffer.from(buildCSV(content.sections), 'utf8'),
+  }));
+}
+
+// ============================================
+// Delivery
+// ============================================
+
+function buildEmail(schedule: MarketingReportSchedule, content: ReportContent): { subject: string; text: string } {
+  const def = REPORT_DASHBOARDS[schedule.dashboard];
+  return {
+    subject: `[Marketing report] ${schedule.name} — ${content.range.start} to ${content.range.end}`,
+    text: [
+      `${def.title} for ${content.meta.dateRange}.`,
+      '',
+      content.sections.length > 0
+        ? `Attached: ${content.sections.map((s) => s.title).join(', ')}.`
+        : 'No data was available for this period.',
+      '',
+      `Dashboard: ${def.path}`,
+      'Manage scheduled reports: /dashboard/marketing/reports',
+    ].join('\n'),
+  };
+}
+
+async function sendEmail(
+  fetchImpl: typeof fetch,
+  config: NonNullable<ReportDeliveryConfig['email']>,
+  to: string[],
+  email: { subject: string; text: string },
+  files: ReportFile[],
+): Promise<void> {
+  const res = await fetchImpl(RESEND_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${config.apiKey}` },
+    body: JSON.stringify({
+      from: config.from,
+      to,
+      subject: email.subject,
+      text: email.text,
+      attachments: files.map((f) => ({ filename: f.filename, content: f.content.toString('base64') })),
+    }),
+    signal: AbortSignal.timeout(20000),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+async function uploadFile(
+  fetchImpl: typeof fetch,
+  config: NonNullable<ReportDeliveryConfig['storage']>,
+  path: string,
+  file: ReportFile,
+): Promise<void> {
+  const res = await fetchImpl(`${config.url}/storage/v1/object/${config.bucket}/${path}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.serviceKey}`,
+      'Content-Type': file.contentType,
+      'x-upsert': 'true',
+    },
+    body: new Uint8Array(file.content),
+    signal: AbortSignal.timeout(20000),
+  });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+}
+
+/** Storage object path: <dashboard>/<period_end>/<schedule id>/<file>. */
+export function reportStoragePath(schedule: MarketingReportSchedule, range: ReportPeriodRange, filename: string): string {
+  return `${schedule.dashboard}/${range.end}/${schedule.id}/${filename}`;
+}
+
+// ============================================
+// Runs
+// ============================================
+
+export interface RunReportOptions {
+  trigger: 'schedule' | 'manual';
+  now?: Date;
+  config?: ReportDeliveryConfig;
+  fetchImpl?: typeof fetch;
+}
+
+/** Builds, renders and delivers one report and records it as a run. Never throws for delivery. */
+export async function runReport(
+  pool: DbPool,
+  schedule: MarketingReportSchedule,
+  options: RunReportOptions,
+): Promise<MarketingReportRun> {
+  const now = options.now ?? new Date();
+  const config = options.config ?? reportDeliveryConfigFromEnv();
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const startTime = Date.now();
+
+  const delivered: MarketingReportDelivery[] = [];
+  const storagePaths: string[] = [];
+  const errors: string[] = [];
+  let range = reportPeriodRange(schedule.period, now);
+  let sectionCount = 0;
+
+  try {
+    const content = await buildReportContent(pool, schedule, now);
+    range = content.range;
+    sectionCount = content.sections.length;
+    const files = renderReportFiles(content, schedule.dashboard, schedule.formats, now);
+
+    for (const channel of schedule.delivery) {
+      try {
+        if (channel === 'email') {
+          if (!config.email) throw new Error('REPORT_EMAIL_FROM / REPORT_EMAIL_API_KEY not configured');
+          await sendEmail(fetchImpl, config.email, schedule.recipients, buildEmail(schedule, content), files);
+        } else {
+          if (!config.storage) throw new Error('REPORT_STORAGE_BUCKET / SUPABASE_SERVICE_ROLE_KEY not configured');
+          for (const file of files) {
+            const path = reportStoragePath(schedule, range, file.filename);
+            await uploadFile(fetchImpl, config.storage, path, file);
+            storagePaths.push(`${config.storage.bucket}/${path}`);
+          }
+        }
+        delivered.push(channel);
+      } catch (err) {
+        errors.push(`${channel}: ${(err as Error).message}`);
+      }
+    }
+  } catch (err) {
+    errors.push(`build: ${(err as Error).message}`);
+  }
+
+  const status: MarketingReportRunStatus = delivered.length === schedule.delivery.length
+    ? 'delivered'
+    : delivered.length > 0 ? 'partial' : 'failed';
+
+  const result = await pool.query(
+    `INSERT INTO analytics.marketing_report_runs (
+       schedule_id, schedule_name, dashboard, trigger, period_start, period_end, status,
+       formats, delivered_channels, recipients, storage_paths, section_count, error, duration_ms
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     RETURNING id, schedule_id, schedule_name, dashboard, trigger,
+               to_char(period_start, 'YYYY-MM-DD') AS period_start,
+               to_char(period_end, 'YYYY-MM-DD') AS period_end,
+               status, formats, delivered_channels, recipients, storage_paths,
+               section_count, error, duration_ms, created_at`,
+    [
+      schedule.id,
+      schedule.name,
+      schedule.dashboard,
+      options.trigger,
+      range.start,
+      range.end,
+      status,
+      schedule.formats,
+      delivered,
+      schedule.delivery.includes('email') ? schedule.recipients : [],
+      storagePaths,
+      sectionCount,
+      errors.length > 0 ? errors.join('; ') : null,
+      Date.now() - startTime,
+    ],
+  );
+  return mapRun(result.rows[0]);
+}
+
+export interface ReportRunSummary {
+  due: number;
+  /** Due schedules another run claimed first. */
+  skipped: number;
+  delivered: number;
+  partial: number;
+  failed: number;
+  runs: Array<{ schedule_id: string; name: string; status: MarketingReportRunStatus; error: string | null }>;
+}
+
+export async function runDueReports(
+  pool: DbPool,
+  options: Omit<RunReportOptions, 'trigger'> = {},
+): Promise<ReportRunSummary> {
+  const now = options.now ?? new Date();
+  const summary: ReportRunSummary = { due: 0, skipped: 0, delivered: 0, partial: 0, failed: 0, runs: [] };
+
+  const due = await pool.query(
+    `SELECT ${SCHEDULE_COLUMNS}
+     FROM analytics.marketing_report_schedules
+     WHERE enabled AND next_run_at <= $1
+     ORDER BY next_run_at`,
+    [now.toISOString()],
+  );
+
+  for (const row of due.rows) {
+    const schedule = mapSchedule(row);
+    summary.due += 1;
+
+    const claimed = await pool.query(
+      `UPDATE analytics.marketing_report_schedules
+       SET next_run_at = $3, last_run_at = $4
+       WHERE id = $1 AND next_run_at = $2`,
+      [schedule.id, row.next_run_at, nextReportRun(schedule, now).toISOString(), now.toISOString()],
+    );
+    if ((claimed.rowCount ?? 0) === 0) {
+      summary.skipped += 1;
+      continue;
+    }
+
+    const run = await runReport(pool, schedule, { ...options, trigger: 'schedule', now });
+    summary[run.status] += 1;
+    summary.runs.push({ schedule_id: schedule.id, name: schedule.name, status: run.status, error: run.error });
+  }
+
+  return summary;
+}
@@ -0,0 +1,209 @@
+/**
+ * Marketing Saved Views Service
+ *
+ * CRUD for analytics.marketing_saved_views, per-user defaults in
+ * analytics.marketing_saved_view_defaults, and share-link resolution.
+ *
+ * Every call is made on behalf of a viewer — the bootstrap identity of the
+ * request (lib/bootstrap-identity.ts). A viewer sees their own views plus the
+ * 'team' views of their organization; only the owner may edit or delete a
+ * view. Share links open any view of the viewer's organization, whatever its
+ * scope, so a personal view can still be sent to a colleague.
+ *
+ * Deletes are soft (deleted_at); a deleted view drops out of every listing
+ * and its share link stops resolving.
+ *
+ * GOVERNANCE: This module performs WRITE operations to
+ * analytics.marketing_saved_views and analytics.marketing_saved_view_defaults
+ * only.
+ */
+
+import type { DbPool } from '../lib/db';
+import type { RequestViewer } from '../lib/bootstrap-identity';
+import type { MarketingSavedView, MarketingSavedViewState } from '../types/activity-spine';
+import { DEFAULT_VIEW_STATE, validateViewState, type SavedViewInput } from '../lib/marketing-saved-views';
+
+// $1 = viewer user id, $2 = viewer team id
+const SELECT_VIEWS = `
+  SELECT v.id, v.name, v.scope, v.state, v.share_slug, v.owner_id, v.owner_email,
+         v.created_at, v.updated_at,
+         (d.view_id IS NOT NULL) AS is_default,
+         (v.owner_id = $1) AS is_owner
+  FROM analytics.marketing_saved_views v
+  LEFT JOIN analytics.marketing_saved_view_defaults d
+    ON d.view_id = v.id AND d.user_id = $1
+  WHERE v.deleted_at IS NULL`;
+
+const LISTED = `(v.owner_id = $1 OR (v.scope = 'team' AND v.team_id IS NOT NULL AND v.team_id = $2))`;
+const SHAREABLE = `(v.owner_id = $1 OR (v.team_id IS NOT NULL AND v.team_id = $2))`;
+
+function iso(v: unknown): string {
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function mapRow(r: Record<string, unknown>): MarketingSavedView {
+  const parsed = validateViewState(r.state);
+  const state: MarketingSavedViewState = 'error' in parsed ? DEFAULT_VIEW_STATE : parsed.value;
+  return {
+    id: String(r.id),
+    name: String(r.name),
+    scope: r.scope === 'team' ? 'team' : 'user',
+    state,
+    share_slug: String(r.share_slug),
+    owner_id: String(r.owner_id),
+    owner_email: (r.owner_email as string | null) ?? null,
+    is_default: Boolean(r.is_default),
+    is_owner: Boolean(r.is_owner),
+    created_at: iso(r.created_at),
+    updated_at: iso(r.updated_at),
+  };
+}
+
+/** The viewer's own views and their team's shared views, team views last. */
+export async function listSavedViews(pool: DbPool, viewer: RequestViewer): Promise<MarketingSavedView[]> {
+  const result = await pool.query(
+    `${SELECT_VIEWS} AND ${LISTED}
+     ORDER BY (v.scope = 'team'), lower(v.name), v.created_at`,
+    [viewer.userId, viewer.teamId],
+  );
+  return result.rows.map(mapRow);
+}
+
+export async function getSavedView(pool: DbPool, viewer: RequestViewer, id: string): Promise<MarketingSavedView | null> {
+  const result = await pool.query(
+    `${SELECT_VIEWS} AND ${SHAREABLE} AND v.id = $3`,
+    [viewer.userId, viewer.teamId, id],
+  );
+  return result.rows[0] ? mapRow(result.rows[0]) : null;
+}
+
+/** The view behind a share link, if the viewer's organization may open it. */
+export async function resolveShareSlug(pool: DbPool, viewer: RequestViewer, slug: string): Promise<MarketingSavedView | null> {
+  const result = await pool.query(
+    `${SELECT_VIEWS} AND ${SHAREABLE} AND v.share_slug = $3`,
+    [viewer.userId, viewer.teamId, slug],
+  );
+  return result.rows[0] ? mapRow(result.rows[0]) : null;
+}
+
+/**
+ * Makes `viewId` the viewer's default, or clears it with null. Returns false
+ * when the view is not one the viewer can see.
+ */
+export async function setDefaultSavedView(pool: DbPool, viewer: RequestViewer, viewId: string | null): Promise<boolean> {
+  if (viewId == null) {
+    await pool.query(`DELETE FROM analytics.marketing_saved_view_defaults WHERE user_id = $1`, [viewer.userId]);
+    return true;
+  }
+  const result = await pool.query(
+    `INSERT INTO analytics.marketing_saved_view_defaults (user_id, view_id)
+     SELECT $1, v.id
+     FROM analytics.marketing_saved_views v
+     WHERE v.id = $3 AND v.deleted_at IS NULL AND ${SHAREABLE}
+     ON CONFLICT (user_id) DO UPDATE SET view_id = EXCLUDED.view_id, updated_at = NOW()`,
+    [viewer.userId, viewer.teamId, viewId],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+export async function createSavedView(
+  pool: DbPool,
+  viewer: RequestViewer,
+  input: SavedViewInput,
+  shareSlug: string,
+): Promise<MarketingSavedView> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const inserted = await client.query(
+      `INSERT INTO analytics.marketing_saved_views
+         (name, scope, state, share_slug, owner_id, owner_email, team_id)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7)
+       RETURNING id`,
+      [input.name, input.scope, JSON.stringify(input.state), shareSlug, viewer.userId, viewer.email, viewer.teamId],
+    );
+    const id = String(inserted.rows[0].id);
+    if (input.is_default) {
+      await client.query(
+        `INSERT INTO analytics.marketing_saved_view_defaults (user_id, view_id)
+         VALUES ($1, $2)
+         ON CONFLICT (user_id) DO UPDATE SET view_id = EXCLUDED.view_id, updated_at = NOW()`,
+        [viewer.userId, id],
+      );
+    }
+    await client.query('COMMIT');
+    return (await getSavedView(pool, viewer, id)) as MarketingSavedView;
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+export type SavedViewWriteResult =
+  | { ok: true; view: MarketingSavedView }
+  | { ok: false; reason: 'not_found' | 'forbidden' };
+
+/**
+ * Applies a partial update. Name, scope and state are owner-only; is_default
+ * is the viewer's own preference and may be set on any view they can see.
+ */
+export async function updateSavedView(
+  pool: DbPool,
+  viewer: RequestViewer,
+  id: string,
+  patch: Partial<SavedViewInput>,
+): Promise<SavedViewWriteResult> {
+  const current = await getSavedView(pool, viewer, id);
+  if (!current) return { ok: false, reason: 'not_found' };
+
+  const sets: string[] = [];
+  const params: unknown[] = [id];
+  if (patch.name !== undefined) {
+    params.push(patch.name);
+    sets.push(`name = $${params.length}`);
+  }
+  if (patch.scope !== undefined) {
+    params.push(patch.scope);
+    sets.push(`scope = $${params.length}`);
+  }
+  if (patch.state !== undefined) {
+    params.push(JSON.stringify(patch.state));
+    sets.push(`state = $${params.length}::jsonb`);
+  }
+
+  if (sets.length > 0) {
+    if (!current.is_owner) return { ok: false, reason: 'forbidden' };
+    await pool.query(
+      `UPDATE analytics.marketing_saved_views
+       SET ${[...sets, 'updated_at = NOW()'].join(', ')}
+       WHERE id = $1 AND deleted_at IS NULL`,
+      params,
+    );
+  }
+  if (patch.is_default === true) {
+    await setDefaultSavedView(pool, viewer, id);
+  } else if (patch.is_default === false && current.is_default) {
+    await setDefaultSavedView(pool, viewer, null);
+  }
+
+  const view = await getSavedView(pool, viewer, id);
+  return view ? { ok: true, view } : { ok: false, reason: 'not_found' };
+}
+
+export async function deleteSavedView(
+  pool: DbPool,
+  viewer: RequestViewer,
+  id: string,
+): Promise<{ ok: true } | { ok: false; reason: 'not_found' | 'forbidden' }> {
+  const current = await getSavedView(pool, viewer, id);
+  if (!current) return { ok: false, reason: 'not_found' };
+  if (!current.is_owner) return { ok: false, reason: 'forbidden' };
+  await pool.query(
+    `UPDATE analytics.marketing_saved_views SET deleted_at = NOW() WHERE id = $1 AND deleted_at IS NULL`,
+    [id],
+  );
+  await pool.query(`DELETE FROM analytics.marketing_saved_view_defaults WHERE view_id = $1`, [id]);
+  return { ok: true };
+}
@@ -0,0 +1,303 @@
+/**
+ * Metric Contract Reconciliation Service
+ *
+ * analytics.seo_dashboard_metric_contract pins, per metric key, the SQL that
+ * is authoritative for a number (authoritative_sql) and the SQL a dashboard
+ * surface actually serves (served_sql), each returning a single value. This
+ * service runs both for every enabled contract, records the drift in
+ * analytics.seo_metric_contract_check and flags a breach when it exceeds the
+ * contract's tolerance — so the SEO Command Center and Marketing surfaces
+ * are known to agree on organic clicks rather than assumed to.
+ *
+ * Tolerance: a metric passes when |served - authoritative| <= tolerance_abs,
+ * or when tolerance_pct > 0 and the drift is within that many percent of the
+ * authoritative value. Both tolerances at 0 require an exact match.
+ *
+ * Contract SQL runs in its own READ ONLY transaction with a statement
+ * timeout, so a broken or slow contract is recorded as 'error' without
+ * holding back the rest or writing anything.
+ *
+ * GOVERNANCE: WRITE operations to analytics.seo_metric_contract_check only.
+ * Contract SQL is executed read-only.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { DbPool, DbQueryable } from '../lib/db';
+
+const CONTRACT_STATEMENT_TIMEOUT_MS = 30000;
+
+export type ContractCheckStatus = 'pass' | 'breach' | 'error';
+
+export interface MetricContract {
+  metric_key: string;
+  label: string;
+  authoritative_sql: string;
+  served_sql: string;
+  tolerance_abs: number;
+  tolerance_pct: number;
+}
+
+export interface ContractComparison {
+  drift_abs: number;
+  /** Drift as a percentage of the authoritative value; null when that is 0. */
+  drift_pct: number | null;
+  within_tolerance: boolean;
+}
+
+function toNumber(v: unknown): number {
+  const n = Number(v ?? 0);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export function compareContractValues(
+  authoritative: number,
+  served: number,
+  toleranceAbs: number,
+  tolerancePct: number,
+): ContractComparison {
+  const driftAbs = Math.abs(served - authoritative);
+  const driftPct = authoritative === 0 ? (driftAbs === 0 ? 0 : null) : (driftAbs / Math.abs(authoritative)) * 100;
+  // Compare with a little slack so float noise on NUMERIC → number does not
+  // breach an exact-match contract.
+  const epsilon = 1e-9 * Math.max(1, Math.abs(authoritative));
+  const withinAbs = driftAbs <= Math.max(0, toleranceAbs) + epsilon;
+  const withinPct = tolerancePct > 0 && driftPct != null && driftPct <= tolerancePct;
+  return { drift_abs: driftAbs, drift_pct: driftPct, within_tolerance: withinAbs || withinPct };
+}
+
+/** First column of the first row; contract SQL returns a single value. */
+export function scalarValue(rows: Array<Record<string, unknown>>): number | null {
+  const first = rows[0];
+  if (!first) return null;
+  const raw = Object.values(first)[0];
+  if (raw == null) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+export interface ContractCheckResult {
+  metric_key: string;
+  label: string;
+  status: ContractCheckStatus;
+  authoritative_value: number | null;
+  served_value: number | null;
+  drift_abs: number | null;
+  drift_pct: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+async function runContract(pool: DbPool, contract: MetricContract): Promise<ContractCheckResult> {
+  const started = Date.now();
+  const base = { metric_key: contract.metric_key, label: contract.label };
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN READ ONLY');
+    await client.query(`SET LOCAL statement_timeout = ${CONTRACT_STATEMENT_TIMEOUT_MS}`);
+    const authoritative = scalarValue((await client.query(contract.authoritative_sql)).rows);
+    const served = scalarValue((await client.query(contract.served_sql)).rows);
+    await client.query('ROLLBACK');
+
+    if (authoritative == null || served == null) {
+      const missing = authoritative == null ? 'authoritative_sql' : 'served_sql';
+      return {
+        ...base,
+        status: 'error',
+        authoritative_value: authoritative,
+        served_value: served,
+        drift_abs: null,
+        drift_pct: null,
+        error: `${missing} returned no numeric value`,
+        duration_ms: Date.now() - started,
+      };
+    }
+
+    const cmp = compareContractValues(authoritative, served, contract.tolerance_abs, contract.tolerance_pct);
+    return {
+      ...base,
+      status: cmp.within_tolerance ? 'pass' : 'breach',
+      authoritative_value: authoritative,
+      served_value: served,
+      drift_abs: cmp.drift_abs,
+      drift_pct: cmp.drift_pct,
+      error: null,
+      duration_ms: Date.now() - started,
+    };
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    return {
+      ...base,
+      status: 'error',
+      authoritative_value: null,
+      served_value: null,
+      drift_abs: null,
+      drift_pct: null,
+      error: err instanceof Error ? err.message : String(err),
+      duration_ms: Date.now() - started,
+    };
+  } finally {
+    client.release();
+  }
+}
+
+export interface ReconciliationSummary {
+  run_id: string;
+  checked: number;
+  passed: number;
+  breached: number;
+  errored: number;
+  breaches: Array<{ metric_key: string; authoritative_value: number; served_value: number; drift_abs: number }>;
+  errors: Array<{ metric_key: string; error: string }>;
+}
+
+/**
+ * Runs every enabled contract (or only `metricKeys`) and records the results
+ * under one run_id.
+ */
+export async function reconcileMetricContracts(
+  pool: DbPool,
+  options: { metricKeys?: string[] } = {},
+): Promise<ReconciliationSummary> {
+  const keys = options.metricKeys?.length ? options.metricKeys : null;
+  const { rows } = await pool.query(
+    `SELECT metric_key, label, authoritative_sql, served_sql, tolerance_abs, tolerance_pct
+     FROM analytics.seo_dashboard_metric_contract
+     WHERE enabled
+       AND ($1::text[] IS NULL OR metric_key = ANY($1::text[]))
+     ORDER BY panel, display_order, metric_key`,
+    [keys],
+  );
+  const contracts: MetricContract[] = rows.map((r) => ({
+    metric_key: String(r.metric_key),
+    label: String(r.label ?? r.metric_key),
+    authoritative_sql: String(r.authoritative_sql),
+    served_sql: String(r.served_sql),
+    tolerance_abs: toNumber(r.tolerance_abs),
+    tolerance_pct: toNumber(r.tolerance_pct),
+  }));
+
+  const summary: ReconciliationSummary = {
+    run_id: randomUUID(),
+    checked: 0,
+    passed: 0,
+    breached: 0,
+    errored: 0,
+    breaches: [],
+    errors: [],
+  };
+
+  for (const contract of contracts) {
+    const result = await runContract(pool, contract);
+    await pool.query(
+      `INSERT INTO analytics.seo_metric_contract_check
+         (run_id, metric_key, status, authoritative_value, served_value,
+          drift_abs, drift_pct, tolerance_abs, tolerance_pct, error, duration_ms)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        summary.run_id,
+        result.metric_key,
+        result.status,
+        result.authoritative_value,
+        result.served_value,
+        result.drift_abs,
+        result.drift_pct,
+        contract.tolerance_abs,
+        contract.tolerance_pct,
+        result.error,
+        result.duration_ms,
+      ],
+    );
+
+    summary.checked += 1;
+    if (result.status === 'pass') {
+      summary.passed += 1;
+    } else if (result.status === 'breach') {
+      summary.breached += 1;
+      summary.breaches.push({
+        metric_key: result.metric_key,
+        authoritative_value: result.authoritative_value ?? 0,
+        served_value: result.served_value ?? 0,
+        drift_abs: result.drift_abs ?? 0,
+      });
+    } else {
+      summary.errored += 1;
+      summary.errors.push({ metric_key: result.metric_key, error: result.error ?? 'unknown error' });
+    }
+  }
+
+  return summary;
+}
+
+export interface ContractHealthRow {
+  metric_key: string;
+  panel: string;
+  label: string;
+  source_label: string | null;
+  window_label: string | null;
+  tolerance_abs: number;
+  tolerance_pct: number;
+  /** null when the contract has not been checked yet. */
+  status: ContractCheckStatus | null;
+  authoritative_value: number | null;
+  served_value: number | null;
+  drift_abs: number | null;
+  drift_pct: number | null;
+  error: string | null;
+  checked_at: string | null;
+}
+
+export interface ContractHealth {
+  last_checked_at: string | null;
+  counts: { pass: number; breach: number; error: number; unchecked: number };
+  rows: ContractHealthRow[];
+}
+
+function numOrNull(v: unknown): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Latest result per enabled contract, breaches and errors first. */
+export async function getContractHealth(db: DbQueryable): Promise<ContractHealth> {
+  const { rows } = await db.query(
+    `SELECT metric_key, panel, label, source_label, window_label,
+            tolerance_abs, tolerance_pct, status,
+            authoritative_value, served_value, drift_abs, drift_pct, error, checked_at
+     FROM analytics.v_seo_metric_contract_health
+     ORDER BY
+       CASE status WHEN 'breach' THEN 1 WHEN 'error' THEN 2 WHEN 'pass' THEN 4 ELSE 3 END,
+       panel, display_order, metric_key`,
+  );
+
+  const health: ContractHealth = {
+    last_checked_at: null,
+    counts: { pass: 0, breach: 0, error: 0, unchecked: 0 },
+    rows: [],
+  };
+  for (const r of rows) {
+    const checkedAt = r.checked_at == null ? null : r.checked_at instanceof Date ? r.checked_at.toISOString() : String(r.checked_at);
+    const status = (r.status ?? null) as ContractCheckStatus | null;
+    health.counts[status ?? 'unchecked'] += 1;
+    if (checkedAt && (!health.last_checked_at || checkedAt > health.last_checked_at)) {
+      health.last_checked_at = checkedAt;
+    }
+    health.rows.push({
+      metric_key: String(r.metric_key),
+      panel: String(r.panel ?? ''),
+      label: String(r.label ?? r.metric_key),
+      source_label: r.source_label ?? null,
+      window_label: r.window_label ?? null,
+      tolerance_abs: toNumber(r.tolerance_abs),
+      tolerance_pct: toNumber(r.tolerance_pct),
+      status,
+      authoritative_value: numOrNull(r.authoritative_value),
+      served_value: numOrNull(r.served_value),
+      drift_abs: numOrNull(r.drift_abs),
+      drift_pct: numOrNull(r.drift_pct),
+      error: r.error ?? null,
+      checked_at: checkedAt,
+    });
+  }
+  return health;
+}
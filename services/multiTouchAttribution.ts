@@ -0,0 +1,176 @@
+/**
+ * Multi-touch Attribution Service
+ *
+ * Builds each paid quote's visitor journey and credits its revenue to
+ * channels under every model in lib/attribution-models.ts.
+ *
+ * A quote is paid in the window when raw_qms_deals.quote_activity is
+ * 'Quote Paid' and COALESCE(quote_paid_at, updated_at) falls inside it. Its
+ * journey is found through the earliest conversion event carrying the quote's
+ * id (event_data / payload quote_id, as in the qms-deal enrichment): every
+ * session that visitor had in the lookback before that conversion is one
+ * touchpoint, classified from the session's first event. Quotes with no linked
+ * conversion — or a conversion without a visitor_id — are credited whole to
+ * the channel of the UTM / click-ID / referrer fields on raw_qms_deals, so
+ * every model's totals reconcile to the paid revenue in the window.
+ *
+ * GOVERNANCE: Read-only. analytics.raw_qms_deals and analytics.raw_web_events
+ * are only read here.
+ */
+
+import type { DbPool } from '../lib/db';
+import type { AttributionModel, MultiTouchAttribution, MultiTouchChannelRow } from '../types/attribution';
+import {
+  POSITION_BASED_WEIGHTS,
+  TIME_DECAY_HALF_LIFE_DAYS,
+  attributeJourneys,
+  classifyTouch,
+  touchSignalsFromUrl,
+  type AttributionJourney,
+  type TouchSignals,
+} from '../lib/attribution-models';
+
+const JOURNEYS_SQL = `
+  WITH paid AS (
+    SELECT convex_quote_id, total_price_cents,
+           utm_source, utm_medium, gclid, gbraid, wbraid, referrer,
+           COALESCE(quote_paid_at, updated_at) AS paid_at
+    FROM analytics.raw_qms_deals
+    WHERE quote_activity = 'Quote Paid'
+      AND total_price_cents > 0
+      AND COALESCE(quote_paid_at, updated_at) >= $1::date
+      AND COALESCE(quote_paid_at, updated_at) < ($2::date + INTERVAL '1 day')
+  ),
+  conversions AS (
+    SELECT DISTINCT ON (p.convex_quote_id)
+      p.convex_quote_id, we.visitor_id, we.occurred_at AS converted_at
+    FROM paid p
+    JOIN analytics.raw_web_events we
+      ON we.event_type = 'conversion'
+     AND COALESCE(we.event_data->>'quote_id', we.payload->>'quote_id') = p.convex_quote_id
+    WHERE we.visitor_id IS NOT NULL AND we.visitor_id <> ''
+    ORDER BY p.convex_quote_id, we.occurred_at
+  ),
+  sessions AS (
+    SELECT DISTINCT ON (c.convex_quote_id, COALESCE(we.session_id, we.anonymous_session_id, we.occurred_at::text))
+      c.convex_quote_id,
+      we.occurred_at,
+      COALESCE(NULLIF(we.event_data->>'utm_source', ''), NULLIF(we.payload->>'utm_source', ''), we.source) AS utm_source,
+      COALESCE(NULLIF(we.event_data->>'utm_medium', ''), we.payload->>'utm_medium') AS utm_medium,
+      COALESCE(NULLIF(we.event_data->>'gclid', ''), we.payload->>'gclid') AS gclid,
+      COALESCE(NULLIF(we.event_data->>'gbraid', ''), we.payload->>'gbraid') AS gbraid,
+      COALESCE(NULLIF(we.event_data->>'wbraid', ''), we.payload->>'wbraid') AS wbraid,
+      we.referrer,
+      we.page_url
+    FROM conversions c
+    JOIN analytics.raw_web_events we
+      ON we.visitor_id = c.visitor_id
+     AND we.occurred_at <= c.converted_at
+     AND we.occurred_at >= c.converted_at - make_interval(days => $3::int)
+    ORDER BY c.convex_quote_id, COALESCE(we.session_id, we.anonymous_session_id, we.occurred_at::text), we.occurred_at
+  ),
+  journeys AS (
+    SELECT convex_quote_id,
+           jsonb_agg(jsonb_build_object(
+             'at', occurred_at,
+             'utm_source', utm_source, 'utm_medium', utm_medium,
+             'gclid', gclid, 'gbraid', gbraid, 'wbraid', wbraid,
+             'referrer', referrer, 'page_url', page_url
+           ) ORDER BY occurred_at) AS touchpoints
+    FROM sessions
+    GROUP BY convex_quote_id
+  )
+  SELECT p.convex_quote_id, p.total_price_cents, p.paid_at,
+         p.utm_source, p.utm_medium, p.gclid, p.gbraid, p.wbraid, p.referrer,
+         c.converted_at, j.touchpoints
+  FROM paid p
+  LEFT JOIN conversions c ON c.convex_quote_id = p.convex_quote_id
+  LEFT JOIN journeys j ON j.convex_quote_id = p.convex_quote_id
+`;
+
+type RawTouch = TouchSignals & { at: string; page_url?: string | null };
+
+function time(v: unknown): number {
+  return v instanceof Date ? v.getTime() : new Date(String(v)).getTime();
+}
+
+/** Event fields first, then whatever the landing URL's query string carries. */
+function touchSignals(t: RawTouch): TouchSignals {
+  const fromUrl = touchSignalsFromUrl(t.page_url);
+  return {
+    utm_source: t.utm_source || fromUrl.utm_source,
+    utm_medium: t.utm_medium || fromUrl.utm_medium,
+    gclid: t.gclid || fromUrl.gclid,
+    gbraid: t.gbraid || fromUrl.gbraid,
+    wbraid: t.wbraid || fromUrl.wbraid,
+    referrer: t.referrer,
+  };
+}
+
+function toRows(totals: ReturnType<typeof attributeJourneys>[AttributionModel]): MultiTouchChannelRow[] {
+  return totals.map((t) => ({
+    channel: t.channel,
+    credited_quotes: t.credited_quotes,
+    paid_revenue_cents: t.paid_revenue_cents,
+    paid_revenue_usd: t.paid_revenue_cents / 100,
+  }));
+}
+
+export async function getMultiTouchAttribution(
+  pool: DbPool,
+  start: string,
+  end: string,
+  lookbackDays: number,
+): Promise<MultiTouchAttribution> {
+  const { rows } = await pool.query(JOURNEYS_SQL, [start, end, lookbackDays]);
+
+  const journeys: AttributionJourney[] = [];
+  let paidRevenue = 0;
+  let withJourney = 0;
+  let touchpointTotal = 0;
+
+  for (const r of rows) {
+    const revenue = Number(r.total_price_cents);
+    paidRevenue += revenue;
+    const touches = (r.touchpoints ?? []) as RawTouch[];
+
+    if (touches.length > 0) {
+      withJourney++;
+      touchpointTotal += touches.length;
+      journeys.push({
+        revenue_cents: revenue,
+        converted_at: r.converted_at ? time(r.converted_at) : time(touches[touches.length - 1].at),
+        touchpoints: touches.map((t) => ({ at: time(t.at), channel: classifyTouch(touchSignals(t)) })),
+      });
+    } else {
+      const at = time(r.paid_at);
+      journeys.push({
+        revenue_cents: revenue,
+        converted_at: at,
+        touchpoints: [{ at, channel: classifyTouch(r as TouchSignals) }],
+      });
+    }
+  }
+
+  const totals = attributeJourneys(journeys);
+  const models = {} as Record<AttributionModel, MultiTouchChannelRow[]>;
+  for (const model of Object.keys(totals) as AttributionModel[]) {
+    models[model] = toRows(totals[model]);
+  }
+
+  return {
+    models,
+    coverage: {
+      paid_quotes: rows.length,
+      paid_revenue_cents: paidRevenue,
+      quotes_with_journey: withJourney,
+      quotes_deal_fallback: rows.length - withJourney,
+      avg_touchpoints: withJourney > 0 ? Math.round((touchpointTotal / withJourney) * 100) / 100 : null,
+    },
+    settings: {
+      lookback_days: lookbackDays,
+      time_decay_half_life_days: TIME_DECAY_HALF_LIFE_DAYS,
+      position_based_weights: POSITION_BASED_WEIGHTS,
+    },
+  };
+}
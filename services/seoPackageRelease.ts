@@ -0,0 +1,338 @@
+/**
+ * SEO Package Release Service — grace window and revert for page packages.
+ *
+ * Approving a page enhancement package (/api/proxy/seo/page-enhancements)
+ * marks its member candidates approved with execution_status 'held' and
+ * records a hold in analytics.seo_package_release_hold. The executor only
+ * picks up execution_status 'approved', so held members stay put until
+ * release_after has passed: /api/cron/seo-package-release then moves them to
+ * 'approved' and hands the package to analytics.seo_release_page_enhancement.
+ * A mis-click can be reverted before anything ships. With a grace window of 0
+ * the package is released in the approving transaction, as before, and the
+ * hold is recorded as released.
+ *
+ * Reverting a package:
+ *   - members still held, or approved but not applied, go back to
+ *     pending/proposed and reappear in the review queue;
+ *   - members already applied (draft_applied / published) get a reverse
+ *     candidate that writes their current_value_snapshot back, approved by
+ *     the reverting reviewer. The executor ships it like any other change.
+ *
+ * Config (server-side only):
+ *   SEO_RELEASE_GRACE_MINUTES — hold before release, default 15, 0 disables
+ *
+ * GOVERNANCE: WRITE operations to analytics.seo_package_release_hold and
+ * analytics.seo_execution_candidate only.
+ */
+
+import type { DbClient, DbPool, DbQueryable } from '../lib/db';
+import type { SeoReviewer } from '../lib/seo-review';
+
+export const DEFAULT_RELEASE_GRACE_MINUTES = 15;
+const MAX_RELEASE_GRACE_MINUTES = 1440;
+const RELEASE_BATCH_SIZE = 50;
+
+/** Execution statuses whose change is live (or drafted) on the site. */
+const APPLIED_STATUSES = ['draft_applied', 'published'];
+
+/**
+ * execution_status of approved package members inside the grace window. Not
+ * dispatchable: the executor only picks up 'approved'.
+ */
+export const HELD_EXECUTION_STATUS = 'held';
+
+export function releaseGraceMinutes(raw: string | undefined = process.env.SEO_RELEASE_GRACE_MINUTES): number {
+  if (raw == null || raw.trim() === '') return DEFAULT_RELEASE_GRACE_MINUTES;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) return DEFAULT_RELEASE_GRACE_MINUTES;
+  return Math.min(Math.floor(n), MAX_RELEASE_GRACE_MINUTES);
+}
+
+export interface PackageReleaseHold {
+  hold_id: string;
+  enhancement_id: string;
+  canonical_url: string | null;
+  rep_url: string | null;
+  member_count: number;
+  status: 'held' | 'released' | 'reverted';
+  approved_by: string;
+  approved_by_email: string | null;
+  approved_by_name: string | null;
+  approved_at: string;
+  release_after: string;
+  released_at: string | null;
+  release_error: string | null;
+}
+
+function iso(v: unknown): string | null {
+  if (v == null) return null;
+  return v instanceof Date ? v.toISOString() : String(v);
+}
+
+function mapHold(r: Record<string, unknown>): PackageReleaseHold {
+  return {
+    hold_id: String(r.hold_id),
+    enhancement_id: String(r.enhancement_id),
+    canonical_url: (r.canonical_url as string | null) ?? null,
+    rep_url: (r.rep_url as string | null) ?? null,
+    member_count: Number(r.member_count ?? 0),
+    status: r.status as PackageReleaseHold['status'],
+    approved_by: String(r.approved_by),
+    approved_by_email: (r.approved_by_email as string | null) ?? null,
+    approved_by_name: (r.approved_by_name as string | null) ?? null,
+    approved_at: iso(r.approved_at) ?? '',
+    release_after: iso(r.release_after) ?? '',
+    released_at: iso(r.released_at),
+    release_error: (r.release_error as string | null) ?? null,
+  };
+}
+
+const HOLD_COLUMNS = `
+  hold_id, enhancement_id::text AS enhancement_id, canonical_url, rep_url,
+  cardinality(member_candidate_ids) AS member_count, status,
+  approved_by, approved_by_email, approved_by_name, approved_at,
+  release_after, released_at, release_error`;
+
+export interface HoldPackageInput {
+  enhancementId: string;
+  canonicalUrl: string | null;
+  repUrl: string | null;
+  memberIds: string[];
+  reviewer: SeoReviewer;
+  graceMinutes: number;
+}
+
+/** Moves a package's held members to 'approved' so the executor picks them up. */
+async function dispatchHeldMembers(client: DbQueryable, memberIds: string[]): Promise<void> {
+  await client.query(
+    `UPDATE analytics.seo_execution_candidate
+     SET execution_status = 'approved'
+     WHERE candidate_id = ANY($1::uuid[])
+       AND approval_status = 'approved'
+       AND execution_status = $2`,
+    [memberIds, HELD_EXECUTION_STATUS],
+  );
+}
+
+/**
+ * Records the approval of a package whose members the caller has already
+ * set to HELD_EXECUTION_STATUS. Within a grace window the package is
+ * held; with no window it is released here, in the caller's transaction.
+ */
+export async function holdPackageRelease(client: DbQueryable, input: HoldPackageInput): Promise<PackageReleaseHold> {
+  const releaseNow = input.graceMinutes <= 0;
+  if (releaseNow) {
+    await dispatchHeldMembers(client, input.memberIds);
+    await client.query(`SELECT analytics.seo_release_page_enhancement($1::bigint)`, [input.enhancementId]);
+  }
+  const result = await client.query(
+    `INSERT INTO analytics.seo_package_release_hold
+       (enhancement_id, canonical_url, rep_url, member_candidate_ids, status,
+        approved_by, approved_by_email, approved_by_name, release_after, released_at)
+     VALUES ($1::bigint, $2, $3, $4::uuid[], $5, $6, $7, $8,
+             NOW() + make_interval(mins => $9::int), CASE WHEN $5 = 'released' THEN NOW() END)
+     RETURNING ${HOLD_COLUMNS}`,
+    [
+      input.enhancementId,
+      input.canonicalUrl,
+      input.repUrl,
+      input.memberIds,
+      releaseNow ? 'released' : 'held',
+      input.reviewer.id,
+      input.reviewer.email,
+      input.reviewer.name,
+      Math.max(0, input.graceMinutes),
+    ],
+  );
+  return mapHold(result.rows[0]);
+}
+
+/** Packages approved but not yet released, soonest release first. */
+export async function listPendingReleases(client: DbQueryable): Promise<PackageReleaseHold[]> {
+  const result = await client.query(
+    `SELECT ${HOLD_COLUMNS}
+     FROM analytics.seo_package_release_hold
+     WHERE status = 'held'
+     ORDER BY release_after ASC`,
+  );
+  return result.rows.map(mapHold);
+}
+
+export interface ReleaseSummary {
+  released: number;
+  failed: number;
+  errors: Array<{ enhancement_id: string; error: string }>;
+}
+
+/**
+ * Releases every hold whose window has lapsed. Each package is released in
+ * its own transaction so one failure does not hold back the rest; a failed
+ * release stays held (with release_error) and is retried on the next run.
+ */
+export async function releaseDuePackages(pool: DbPool): Promise<ReleaseSummary> {
+  const summary: ReleaseSummary = { released: 0, failed: 0, errors: [] };
+  const due = await pool.query(
+    `SELECT hold_id, enhancement_id::text AS enhancement_id
+     FROM analytics.seo_package_release_hold
+     WHERE status = 'held' AND release_after <= NOW()
+     ORDER BY release_after ASC
+     LIMIT ${RELEASE_BATCH_SIZE}`,
+  );
+
+  for (const row of due.rows) {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      // Re-check under lock: the package may have been reverted meanwhile.
+      const locked = await client.query(
+        `SELECT hold_id, member_candidate_ids::text[] AS ids
+         FROM analytics.seo_package_release_hold
+         WHERE hold_id = $1 AND status = 'held'
+         FOR UPDATE SKIP LOCKED`,
+        [row.hold_id],
+      );
+      if (locked.rowCount === 0) {
+        await client.query('ROLLBACK');
+        continue;
+      }
+      await dispatchHeldMembers(client, locked.rows[0].ids ?? []);
+      await client.query(`SELECT analytics.seo_release_page_enhancement($1::bigint)`, [row.enhancement_id]);
+      await client.query(
+        `UPDATE analytics.seo_package_release_hold
+         SET status = 'released', released_at = NOW(), release_error = NULL
+         WHERE hold_id = $1`,
+        [row.hold_id],
+      );
+      await client.query('COMMIT');
+      summary.released += 1;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      const message = err instanceof Error ? err.message : String(err);
+      summary.failed += 1;
+      summary.errors.push({ enhancement_id: row.enhancement_id, error: message });
+      await pool.query(
+        `UPDATE analytics.seo_package_release_hold SET release_error = $2 WHERE hold_id = $1`,
+        [row.hold_id, message],
+      ).catch(() => undefined);
+    } finally {
+      client.release();
+    }
+  }
+  return summary;
+}
+
+export interface RevertResult {
+  enhancement_id: string;
+  status: 'reverted' | 'skipped';
+  reason?: string;
+  /** Held or unapplied members put back to pending. */
+  restored: number;
+  /** Applied members for which a reverse candidate was queued. */
+  rolled_back: number;
+  /** Whether the package had already been released to the executor. */
+  was_released: boolean;
+}
+
+/**
+ * Reverts the latest approval of a package. Packages approved before holds
+ * were recorded fall back to the member list on analytics.seo_page_enhancement.
+ */
+export async function revertPackage(
+  client: DbClient,
+  enhancementId: string,
+  reviewer: SeoReviewer,
+): Promise<RevertResult> {
+  const empty = { enhancement_id: enhancementId, restored: 0, rolled_back: 0 };
+  const holdResult = await client.query(
+    `SELECT hold_id, status, member_candidate_ids::text[] AS ids
+     FROM analytics.seo_package_release_hold
+     WHERE enhancement_id = $1::bigint
+     ORDER BY approved_at DESC
+     LIMIT 1
+     FOR UPDATE`,
+    [enhancementId],
+  );
+  let hold = holdResult.rows[0] as { hold_id: string; status: string; ids: string[] } | undefined;
+  if (hold?.status === 'reverted') {
+    return { ...empty, status: 'skipped', reason: 'already_reverted', was_released: false };
+  }
+  if (!hold) {
+    const legacy = await client.query(
+      `SELECT member_candidate_ids::text[] AS ids
+       FROM analytics.seo_page_enhancement
+       WHERE enhancement_id = $1::bigint
+       LIMIT 1`,
+      [enhancementId],
+    );
+    const ids = legacy.rows[0]?.ids;
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return { ...empty, status: 'skipped', reason: 'no_approval_on_record', was_released: false };
+    }
+    hold = { hold_id: '', status: 'released', ids };
+  }
+
+  const note = `reverted by ${reviewer.email || reviewer.id}`;
+  const restored = await client.query(
+    `UPDATE analytics.seo_execution_candidate
+     SET approval_status = 'pending',
+         execution_status = 'proposed',
+         reviewer_id = NULL,
+         reviewer_email = NULL,
+         reviewer_name = NULL,
+         reviewed_at = NULL,
+         review_notes = $2
+     WHERE candidate_id = ANY($1::uuid[])
+       AND approval_status = 'approved'
+       AND execution_status = ANY($3::text[])`,
+    [hold.ids, note, [HELD_EXECUTION_STATUS, 'approved']],
+  );
+
+  const rolledBack = await client.query(
+    `INSERT INTO analytics.seo_execution_candidate
+       (generation_run_id, created_reason,
+        opportunity_id, opportunity_family, opportunity_score,
+        primary_remedy, source_confidence, mutation_type,
+        target_page_url, target_field, current_value_snapshot, proposed_value,
+        evidence_summary, attributed_cluster,
+        execution_status, approval_status, approval_required,
+        reviewer_id, reviewer_email, reviewer_name, reviewed_at, review_notes)
+     SELECT 'package-revert-' || to_char(NOW(), 'YYYYMMDD-HH24MISS'), 'package_revert',
+            c.opportunity_id, c.opportunity_family, c.opportunity_score,
+            c.primary_remedy, c.source_confidence, c.mutation_type,
+            c.target_page_url, c.target_field, c.proposed_value, c.current_value_snapshot,
+            'Revert of candidate ' || c.candidate_id || ' (page package ' || $2 || ')', c.attributed_cluster,
+            'approved', 'approved', true,
+            $3, $4, $5, NOW(), $6
+     FROM analytics.seo_execution_candidate c
+     WHERE c.candidate_id = ANY($1::uuid[])
+       AND c.execution_status = ANY($7::text[])
+       AND c.current_value_snapshot IS NOT NULL
+     ON CONFLICT DO NOTHING`,
+    [hold.ids, enhancementId, reviewer.id, reviewer.email, reviewer.name, note, APPLIED_STATUSES],
+  );
+
+  if (hold.hold_id) {
+    await client.query(
+      `UPDATE analytics.seo_package_release_hold
+       SET status = 'reverted', reverted_by = $2, reverted_by_email = $3, reverted_at = NOW(),
+           restored_count = $4, rollback_count = $5
+       WHERE hold_id = $1`,
+      [hold.hold_id, reviewer.id, reviewer.email, restored.rowCount ?? 0, rolledBack.rowCount ?? 0],
+    );
+  }
+
+  // is_active is managed by the dedupe function — direct writes are rejected by trigger
+  try {
+    await client.query(`SELECT analytics.seo_dedupe_candidates()`);
+  } catch {
+    // non-fatal if function doesn't exist in this schema version
+  }
+
+  return {
+    enhancement_id: enhancementId,
+    status: 'reverted',
+    restored: restored.rowCount ?? 0,
+    rolled_back: rolledBack.rowCount ?? 0,
+    was_released: hold.status === 'released',
+  };
+}
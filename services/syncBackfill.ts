@@ -0,0 +1,240 @@
+/**
+ * Sync Backfill Service
+ *
+ * Re-pulls a historical date range for the GA4 and Google Ads syncs, which
+ * the daily crons never do (they only cover the last 3 days). The range is
+ * split into fixed-size chunks; each chunk of each source runs the same sync
+ * functions as the cron and is recorded as its own row in
+ * analytics.ingestion_runs, tagged with the chunk's dates and a backfill_id.
+ *
+ * Resume: the backfill_id is derived from (source, range, chunk size), so
+ * re-running the same backfill skips chunks that already completed and
+ * starts from the first chunk that failed or never ran. A run stops at the
+ * first failed chunk, and stops early (reporting the remaining chunks) once
+ * its time budget is spent, so a serverless caller can simply call again.
+ *
+ * GOVERNANCE: This module performs WRITE operations through the GA4 and
+ * Google Ads sync services, plus analytics.ingestion_runs (insert/update).
+ */
+
+import type { DbPool } from '../lib/db';
+import {
+  syncPageEngagement,
+  syncGA4Events,
+  syncDeviceCountry,
+  syncChannelSessions,
+  createIngestionRun,
+  completeIngestionRun,
+  type SyncResult,
+} from './ga4Sync';
+import { syncCampaignPerformance, syncSearchTerms } from './googleAdsSync';
+
+export type BackfillSource = 'ga4' | 'google-ads';
+
+export const BACKFILL_SOURCES: readonly BackfillSource[] = ['ga4', 'google-ads'];
+
+export const DEFAULT_CHUNK_DAYS = 7;
+export const MAX_CHUNK_DAYS = 31;
+export const MAX_BACKFILL_DAYS = 730;
+
+const DAY_MS = 86400000;
+
+export interface DateChunk {
+  startDate: string;
+  endDate: string;
+}
+
+export interface BackfillOptions {
+  sources: BackfillSource[];
+  startDate: string;
+  endDate: string;
+  chunkDays?: number;
+  /** Skip chunks that already completed under the same backfill_id (default true). */
+  resume?: boolean;
+  /** Stop starting new chunks after this many ms; omitted = run to the end. */
+  timeBudgetMs?: number;
+}
+
+export type BackfillChunkStatus = 'completed' | 'failed' | 'skipped';
+
+export interface BackfillChunkResult extends DateChunk {
+  source: BackfillSource;
+  status: BackfillChunkStatus;
+  ingestion_run_id: string | null;
+  rows: number;
+  errors: string[];
+  duration_ms: number;
+}
+
+export interface BackfillResult {
+  backfill_ids: Record<BackfillSource, string | undefined>;
+  chunks: BackfillChunkResult[];
+  completed: number;
+  skipped: number;
+  failed: number;
+  /** Chunks not attempted because of a failure or the time budget. */
+  remaining: number;
+  done: boolean;
+}
+
+interface SourceRunner {
+  ingestSource: string;
+  dataType: string;
+  run: (pool: DbPool, chunk: DateChunk, runId: string) => Promise<SyncResult[]>;
+}
+
+const RUNNERS: Record<BackfillSource, SourceRunner> = {
+  ga4: {
+    ingestSource: 'ga4-api-backfill',
+    dataType: 'ga4-backfill-chunk',
+    run: async (pool, { startDate, endDate }, runId) => {
+      const results = await Promise.all([
+        syncPageEngagement(pool, startDate, endDate),
+        syncGA4Events(pool, startDate, endDate, runId),
+        syncDeviceCountry(pool, startDate, endDate, runId),
+      ]);
+      results.push(await syncChannelSessions(pool, startDate, endDate, runId));
+      return results;
+    },
+  },
+  'google-ads': {
+    ingestSource: 'google-ads-bq-backfill',
+    dataType: 'google-ads-backfill-chunk',
+    run: async (pool, { startDate, endDate }, runId) => [
+      await syncCampaignPerformance(pool, startDate, endDate, runId),
+      await syncSearchTerms(pool, startDate, endDate, runId),
+    ],
+  },
+};
+
+function formatDate(d: Date): string {
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Split an inclusive YYYY-MM-DD range into consecutive inclusive chunks of
+ * at most `chunkDays` days.
+ */
+export function splitDateRange(startDate: string, endDate: string, chunkDays: number): DateChunk[] {
+  const chunks: DateChunk[] = [];
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  let cursor = new Date(`${startDate}T00:00:00Z`).getTime();
+  while (cursor <= end) {
+    const chunkEnd = Math.min(cursor + (chunkDays - 1) * DAY_MS, end);
+    chunks.push({ startDate: formatDate(new Date(cursor)), endDate: formatDate(new Date(chunkEnd)) });
+    cursor = chunkEnd + DAY_MS;
+  }
+  return chunks;
+}
+
+export function backfillId(source: BackfillSource, startDate: string, endDate: string, chunkDays: number): string {
+  return `backfill:${source}:${startDate}..${endDate}:${chunkDays}d`;
+}
+
+/**
+ * Validate a backfill request. Returns an error message, or null when the
+ * range is usable.
+ */
+export function validateBackfillRange(startDate: string, endDate: string, chunkDays: number): string | null {
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(startDate) || !dateRegex.test(endDate)) {
+    return 'Dates must be in YYYY-MM-DD format';
+  }
+  const start = new Date(`${startDate}T00:00:00Z`).getTime();
+  const end = new Date(`${endDate}T00:00:00Z`).getTime();
+  if (isNaN(start) || isNaN(end)) return 'Dates must be valid calendar dates';
+  if (start > end) return 'startDate must be before or equal to endDate';
+  if ((end - start) / DAY_MS + 1 > MAX_BACKFILL_DAYS) {
+    return `Date range must not exceed ${MAX_BACKFILL_DAYS} days`;
+  }
+  if (!Number.isInteger(chunkDays) || chunkDays < 1 || chunkDays > MAX_CHUNK_DAYS) {
+    return `chunkDays must be an integer between 1 and ${MAX_CHUNK_DAYS}`;
+  }
+  return null;
+}
+
+async function completedChunkStarts(pool: DbPool, id: string): Promise<Set<string>> {
+  const result = await pool.query(
+    `SELECT DISTINCT to_char(date_range_start, 'YYYY-MM-DD') AS start_date
+     FROM analytics.ingestion_runs
+     WHERE backfill_id = $1 AND status = 'completed'`,
+    [id],
+  );
+  return new Set(result.rows.map((r: { start_date: string }) => r.start_date));
+}
+
+export async function runBackfill(pool: DbPool, options: BackfillOptions): Promise<BackfillResult> {
+  const chunkDays = options.chunkDays ?? DEFAULT_CHUNK_DAYS;
+  const resume = options.resume ?? true;
+  const chunks = splitDateRange(options.startDate, options.endDate, chunkDays);
+  const startedAt = Date.now();
+
+  const ids: Record<BackfillSource, string | undefined> = { ga4: undefined, 'google-ads': undefined };
+  const done = new Map<BackfillSource, Set<string>>();
+  for (const source of options.sources) {
+    const id = backfillId(source, options.startDate, options.endDate, chunkDays);
+    ids[source] = id;
+    done.set(source, resume ? await completedChunkStarts(pool, id) : new Set());
+  }
+
+  const results: BackfillChunkResult[] = [];
+  let stopped = false;
+  let remaining = 0;
+
+  for (const source of options.sources) {
+    const runner = RUNNERS[source];
+    for (const chunk of chunks) {
+      if (done.get(source)?.has(chunk.startDate)) {
+        results.push({ ...chunk, source, status: 'skipped', ingestion_run_id: null, rows: 0, errors: [], duration_ms: 0 });
+        continue;
+      }
+      if (stopped || (options.timeBudgetMs != null && Date.now() - startedAt >= options.timeBudgetMs)) {
+        stopped = true;
+        remaining += 1;
+        continue;
+      }
+
+      const chunkStart = Date.now();
+      const runId = await createIngestionRun(pool, runner.ingestSource, runner.dataType, {
+        ...chunk,
+        backfillId: ids[source],
+      });
+
+      let rows = 0;
+      let errors: string[];
+      try {
+        const syncResults = await runner.run(pool, chunk, runId);
+        rows = syncResults.reduce((sum, r) => sum + r.rows, 0);
+        errors = syncResults.flatMap((r) => r.errors);
+      } catch (err) {
+        errors = [(err as Error).message];
+      }
+
+      const durationMs = Date.now() - chunkStart;
+      const status = errors.length > 0 ? 'failed' : 'completed';
+      await completeIngestionRun(
+        pool,
+        runId,
+        status,
+        rows,
+        errors.length,
+        durationMs,
+        errors.length > 0 ? errors.join('; ') : undefined,
+      );
+
+      results.push({ ...chunk, source, status, ingestion_run_id: runId, rows, errors, duration_ms: durationMs });
+      if (status === 'failed') stopped = true;
+    }
+  }
+
+  const count = (s: BackfillChunkStatus) => results.filter((r) => r.status === s).length;
+  return {
+    backfill_ids: ids,
+    chunks: results,
+    completed: count('completed'),
+    skipped: count('skipped'),
+    failed: count('failed'),
+    remaining,
+    done: remaining === 0 && count('failed') === 0,
+  };
+}
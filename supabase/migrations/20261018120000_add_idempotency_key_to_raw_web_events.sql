@@ -0,0 +1,13 @@
+-- Idempotency key for /api/ingest/web-event batch + retry dedupe.
+-- Client-supplied event_id (or Idempotency-Key header); server-generated
+-- UUID when absent. Legacy rows stay NULL, which the unique index allows.
+ALTER TABLE analytics.raw_web_events
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_raw_web_events_idempotency_key
+  ON analytics.raw_web_events (idempotency_key);
+
+CREATE INDEX IF NOT EXISTS idx_raw_web_events_ingestion_run
+  ON analytics.raw_web_events (ingestion_run_id);
+
+COMMENT ON COLUMN analytics.raw_web_events.idempotency_key IS 'Client event_id / Idempotency-Key; retries with the same key are dropped by ON CONFLICT DO NOTHING';
@@ -0,0 +1,19 @@
+-- Dead-letter store for /api/ingest/* payloads rejected by their contract
+-- (lib/ingest-contracts.ts). Written only by the ingest routes; read by the
+-- Marketing Data Health "Rejected ingest payloads" panel.
+CREATE TABLE IF NOT EXISTS analytics.ingest_dead_letter (
+  id BIGSERIAL PRIMARY KEY,
+  endpoint TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  field TEXT,
+  payload JSONB,
+  source_ip TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingest_dead_letter_received
+  ON analytics.ingest_dead_letter (received_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingest_dead_letter_endpoint
+  ON analytics.ingest_dead_letter (endpoint, received_at DESC);
+
+COMMENT ON TABLE analytics.ingest_dead_letter IS 'Ingest payloads rejected by contract validation, kept with the rejection reason';
@@ -0,0 +1,46 @@
+-- Append-only QMS lifecycle event log alongside the current-state
+-- analytics.raw_qms_deals row. Written by /api/ingest/qms-deal (which also
+-- ensures this table at runtime); read by the QMS history and Warm Outreach
+-- velocity queries.
+CREATE TABLE IF NOT EXISTS analytics.raw_qms_deal_events (
+  id BIGSERIAL PRIMARY KEY,
+  convex_quote_id TEXT NOT NULL,
+  quote_number TEXT NOT NULL,
+  quote_activity TEXT NOT NULL,
+  last_event TEXT NOT NULL DEFAULT '',
+  quote_active BOOLEAN,
+  total_price_cents BIGINT,
+  occurred_at TIMESTAMPTZ NOT NULL,
+  source TEXT NOT NULL DEFAULT 'webhook',
+  payload JSONB,
+  ingested_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_qms_deal_events_replay
+  ON analytics.raw_qms_deal_events (convex_quote_id, occurred_at, quote_activity, last_event);
+CREATE INDEX IF NOT EXISTS idx_qms_deal_events_quote
+  ON analytics.raw_qms_deal_events (convex_quote_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_qms_deal_events_number
+  ON analytics.raw_qms_deal_events (quote_number);
+
+COMMENT ON TABLE analytics.raw_qms_deal_events IS 'One row per QMS lifecycle event; replays are deduped on (convex_quote_id, occurred_at, quote_activity, last_event)';
+COMMENT ON COLUMN analytics.raw_qms_deal_events.source IS 'webhook = received live; backfill = reconstructed from raw_qms_deals timestamp columns';
+
+-- Backfill: reconstruct the transitions the current-state rows still prove
+-- (submission, deposit, payment) plus the current status. Pre-log quotes
+-- only get these anchors; anything in between was overwritten.
+INSERT INTO analytics.raw_qms_deal_events (
+  convex_quote_id, quote_number, quote_activity, last_event,
+  quote_active, total_price_cents, occurred_at, source
+)
+SELECT convex_quote_id, quote_number, activity, 'backfill', quote_active, total_price_cents, at, 'backfill'
+FROM (
+  SELECT d.*, 'Quote Submitted' AS activity, d.created_at AS at FROM analytics.raw_qms_deals d
+  UNION ALL
+  SELECT d.*, 'Deposit Paid', d.deposit_paid_at FROM analytics.raw_qms_deals d WHERE d.deposit_paid_at IS NOT NULL
+  UNION ALL
+  SELECT d.*, 'Quote Paid', d.quote_paid_at FROM analytics.raw_qms_deals d WHERE d.quote_paid_at IS NOT NULL
+  UNION ALL
+  SELECT d.*, d.quote_activity, d.updated_at FROM analytics.raw_qms_deals d
+) anchors
+ON CONFLICT (convex_quote_id, occurred_at, quote_activity, last_event) DO NOTHING;
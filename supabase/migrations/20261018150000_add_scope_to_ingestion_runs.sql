@@ -0,0 +1,14 @@
+-- Date range and backfill grouping for analytics.ingestion_runs.
+-- Cron, manual and backfill syncs record the range they pulled; backfill
+-- chunks share a backfill_id so an interrupted backfill can skip the chunks
+-- that already completed. Legacy rows stay NULL.
+ALTER TABLE analytics.ingestion_runs
+  ADD COLUMN IF NOT EXISTS date_range_start DATE,
+  ADD COLUMN IF NOT EXISTS date_range_end DATE,
+  ADD COLUMN IF NOT EXISTS backfill_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_backfill
+  ON analytics.ingestion_runs (backfill_id, status)
+  WHERE backfill_id IS NOT NULL;
+
+COMMENT ON COLUMN analytics.ingestion_runs.backfill_id IS 'Groups the chunks of one /api/sync/backfill request; completed chunks are skipped on resume';
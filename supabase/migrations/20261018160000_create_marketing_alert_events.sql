@@ -0,0 +1,32 @@
+-- Alert history for the marketing-alerts cron (services/marketingAlerts.ts).
+-- One row per rule per evaluated window: the (rule_id, window_end) unique
+-- index is the dedupe key, so a re-run of the cron for the same day never
+-- records or delivers the same alert twice. Rules themselves live in code
+-- (lib/marketing-alerts.ts); rule_name/threshold are snapshotted here.
+CREATE TABLE IF NOT EXISTS analytics.marketing_alert_events (
+  id BIGSERIAL PRIMARY KEY,
+  rule_id TEXT NOT NULL,
+  rule_name TEXT NOT NULL,
+  metric TEXT NOT NULL,
+  condition TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  threshold NUMERIC NOT NULL,
+  observed NUMERIC,
+  value NUMERIC,
+  baseline NUMERIC,
+  message TEXT NOT NULL,
+  window_start DATE NOT NULL,
+  window_end DATE NOT NULL,
+  channels TEXT[] NOT NULL DEFAULT '{}',
+  delivery_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (delivery_status IN ('pending', 'delivered', 'partial', 'failed', 'suppressed', 'no_channel')),
+  delivered_channels TEXT[] NOT NULL DEFAULT '{}',
+  delivery_errors TEXT,
+  fired_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_marketing_alert_events_rule_window
+  ON analytics.marketing_alert_events (rule_id, window_end);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_alert_events_fired
+  ON analytics.marketing_alert_events (fired_at DESC);
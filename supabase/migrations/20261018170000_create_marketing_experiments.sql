@@ -0,0 +1,42 @@
+-- Marketing experiment log (previously per-browser localStorage,
+-- key nsd-marketing-experiments). Written by
+-- /api/activity-spine/marketing/experiments; lift is measured server-side by
+-- services/marketingExperiments.ts from the Core 4 engine metrics and stored
+-- with the windows it was computed over.
+CREATE TABLE IF NOT EXISTS analytics.marketing_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  engine TEXT NOT NULL,
+  target_metric TEXT NOT NULL DEFAULT 'quotes',
+  hypothesis TEXT NOT NULL DEFAULT '',
+  change_made TEXT NOT NULL DEFAULT '',
+  start_date DATE NOT NULL,
+  end_date DATE,
+  decision TEXT NOT NULL DEFAULT 'pending'
+    CHECK (decision IN ('keep', 'revert', 'iterate', 'pending')),
+  notes TEXT,
+  owner TEXT NOT NULL,
+
+  -- Latest automatic measurement
+  result_lift NUMERIC,
+  baseline_value NUMERIC,
+  experiment_value NUMERIC,
+  baseline_start DATE,
+  baseline_end DATE,
+  measured_end DATE,
+  measured_at TIMESTAMPTZ,
+  measurement_error TEXT,
+
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_by TEXT,
+  deleted_at TIMESTAMPTZ,
+
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_experiments_start
+  ON analytics.marketing_experiments (start_date DESC)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,15 @@
+-- Per-month marketing targets (previously hardcoded in
+-- app/dashboard/marketing/lib/marketingTargets.ts). One row per metric per
+-- calendar month; a month without a row uses the metric's default from
+-- lib/marketing-targets.ts. Written by PUT /api/activity-spine/marketing/targets.
+CREATE TABLE IF NOT EXISTS analytics.marketing_targets (
+  metric TEXT NOT NULL,
+  month DATE NOT NULL CHECK (EXTRACT(DAY FROM month) = 1),
+  value NUMERIC NOT NULL CHECK (value >= 0),
+  updated_by TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (metric, month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_targets_month
+  ON analytics.marketing_targets (month);
@@ -0,0 +1,11 @@
+-- Reviewer identity for SEO approval decisions.
+-- The dashboard used to stamp reviewer_id = 'operator' on every approve /
+-- reject. Decisions now carry the bootstrap user (reviewer_id = user id) plus
+-- the email and display name at decision time, so the execution log and page
+-- dossier can show who approved a change. Legacy rows keep 'operator' and NULLs.
+ALTER TABLE analytics.seo_execution_candidate
+  ADD COLUMN IF NOT EXISTS reviewer_email TEXT,
+  ADD COLUMN IF NOT EXISTS reviewer_name TEXT;
+
+COMMENT ON COLUMN analytics.seo_execution_candidate.reviewer_email IS 'Bootstrap email of the dashboard user who approved or rejected the candidate';
+COMMENT ON COLUMN analytics.seo_execution_candidate.reviewer_name IS 'Bootstrap display name of the reviewer at decision time';
@@ -0,0 +1,45 @@
+-- Grace window and revert record for approved SEO page enhancement packages.
+-- approve_package / bulk_approve_packages (/api/proxy/seo/page-enhancements)
+-- no longer release a package to the executor immediately: they record a hold
+-- with release_after = approval + SEO_RELEASE_GRACE_MINUTES, and
+-- /api/cron/seo-package-release calls analytics.seo_release_page_enhancement
+-- once the window lapses. Until then the package shows as "pending release"
+-- on the Recommendations page and revert_package puts its members back to
+-- pending. Reverting a released package queues reverse candidates that
+-- restore each published member's current_value_snapshot.
+CREATE TABLE IF NOT EXISTS analytics.seo_package_release_hold (
+  hold_id BIGSERIAL PRIMARY KEY,
+  enhancement_id BIGINT NOT NULL,
+  canonical_url TEXT,
+  rep_url TEXT,
+  member_candidate_ids UUID[] NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held'
+    CHECK (status IN ('held', 'released', 'reverted')),
+
+  approved_by TEXT NOT NULL,
+  approved_by_email TEXT,
+  approved_by_name TEXT,
+  approved_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  release_after TIMESTAMPTZ NOT NULL,
+
+  released_at TIMESTAMPTZ,
+  release_error TEXT,
+
+  reverted_by TEXT,
+  reverted_by_email TEXT,
+  reverted_at TIMESTAMPTZ,
+  restored_count INTEGER,
+  rollback_count INTEGER
+);
+
+-- One open hold per package.
+CREATE UNIQUE INDEX IF NOT EXISTS uq_seo_package_release_hold_open
+  ON analytics.seo_package_release_hold (enhancement_id)
+  WHERE status = 'held';
+
+CREATE INDEX IF NOT EXISTS idx_seo_package_release_hold_due
+  ON analytics.seo_package_release_hold (release_after)
+  WHERE status = 'held';
+
+CREATE INDEX IF NOT EXISTS idx_seo_package_release_hold_package
+  ON analytics.seo_package_release_hold (enhancement_id, approved_at DESC);
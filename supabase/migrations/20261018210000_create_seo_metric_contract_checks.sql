@@ -0,0 +1,63 @@
+-- Reconciliation results for analytics.seo_dashboard_metric_contract.
+-- /api/cron/metric-contracts (services/metricContractReconciliation.ts) runs
+-- each enabled contract's authoritative_sql and served_sql in a read-only
+-- transaction and records one row per metric per run: both values, the drift
+-- between them and whether it breaches tolerance_abs / tolerance_pct. A
+-- contract whose SQL fails is recorded with status 'error' and the message.
+-- Reporting-layer only. No queue writes, dispatch writes, learning writes,
+-- paid mutations, or direct is_active writes.
+CREATE TABLE IF NOT EXISTS analytics.seo_metric_contract_check (
+  check_id BIGSERIAL PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  metric_key TEXT NOT NULL,
+  status TEXT NOT NULL
+    CHECK (status IN ('pass', 'breach', 'error')),
+
+  authoritative_value NUMERIC,
+  served_value NUMERIC,
+  drift_abs NUMERIC,
+  drift_pct NUMERIC,
+  tolerance_abs NUMERIC,
+  tolerance_pct NUMERIC,
+
+  error TEXT,
+  duration_ms INTEGER,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_seo_metric_contract_check_metric
+  ON analytics.seo_metric_contract_check (metric_key, checked_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_seo_metric_contract_check_run
+  ON analytics.seo_metric_contract_check (run_id);
+
+-- Latest result per enabled contract; contracts never checked appear with a
+-- NULL status.
+CREATE OR REPLACE VIEW analytics.v_seo_metric_contract_health AS
+SELECT
+  c.metric_key,
+  c.panel,
+  c.label,
+  c.source_label,
+  c.window_label,
+  c.display_order,
+  c.tolerance_abs,
+  c.tolerance_pct,
+  k.run_id,
+  k.status,
+  k.authoritative_value,
+  k.served_value,
+  k.drift_abs,
+  k.drift_pct,
+  k.error,
+  k.duration_ms,
+  k.checked_at
+FROM analytics.seo_dashboard_metric_contract c
+LEFT JOIN LATERAL (
+  SELECT *
+  FROM analytics.seo_metric_contract_check k
+  WHERE k.metric_key = c.metric_key
+  ORDER BY k.checked_at DESC, k.check_id DESC
+  LIMIT 1
+) k ON true
+WHERE c.enabled;
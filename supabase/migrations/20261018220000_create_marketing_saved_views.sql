@@ -0,0 +1,42 @@
+-- Named marketing dashboard states (period, MarketingFilters, comparison
+-- mode and sub-page) saved from the marketing layout's view picker. Written
+-- by /api/activity-spine/marketing/saved-views for the bootstrap user making
+-- the request. Scope 'user' views are listed for their owner only; 'team'
+-- views for everyone in the owner's bootstrap organization (team_id). Any
+-- view opens for its organization through its short share_slug
+-- (/dashboard/views/:slug).
+CREATE TABLE IF NOT EXISTS analytics.marketing_saved_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  scope TEXT NOT NULL DEFAULT 'user'
+    CHECK (scope IN ('user', 'team')),
+  state JSONB NOT NULL,
+  share_slug TEXT NOT NULL,
+
+  owner_id TEXT NOT NULL,
+  owner_email TEXT,
+  team_id TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_marketing_saved_views_share_slug
+  ON analytics.marketing_saved_views (share_slug);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_saved_views_owner
+  ON analytics.marketing_saved_views (owner_id)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_marketing_saved_views_team
+  ON analytics.marketing_saved_views (team_id)
+  WHERE scope = 'team' AND deleted_at IS NULL;
+
+-- The view each user lands on when opening /dashboard/marketing without
+-- query parameters. At most one per user; may point at a team view.
+CREATE TABLE IF NOT EXISTS analytics.marketing_saved_view_defaults (
+  user_id TEXT PRIMARY KEY,
+  view_id UUID NOT NULL REFERENCES analytics.marketing_saved_views (id) ON DELETE CASCADE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
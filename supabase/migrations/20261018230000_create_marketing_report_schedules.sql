@@ -0,0 +1,61 @@
+-- Scheduled dashboard reports (services/marketingReports.ts). A schedule
+-- names a dashboard (lib/marketing-reports.ts REPORT_DASHBOARDS), a report
+-- period and a weekly/monthly send day in UTC; the daily
+-- marketing-reports cron runs every enabled schedule whose next_run_at has
+-- passed, after advancing next_run_at so a concurrent or repeated run skips
+-- it.
+CREATE TABLE IF NOT EXISTS analytics.marketing_report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  dashboard TEXT NOT NULL
+    CHECK (dashboard IN ('operator_hub', 'core4', 'warm_outreach', 'seo_north_star')),
+  period TEXT NOT NULL
+    CHECK (period IN ('previous_week', 'previous_month', 'last_7d', 'last_30d', 'last_90d', 'month_to_date')),
+  cadence TEXT NOT NULL CHECK (cadence IN ('weekly', 'monthly')),
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6),
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 28),
+  formats TEXT[] NOT NULL,
+  delivery TEXT[] NOT NULL,
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMPTZ NOT NULL,
+  last_run_at TIMESTAMPTZ,
+
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (cadence <> 'weekly' OR weekday IS NOT NULL),
+  CHECK (cadence <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_report_schedules_due
+  ON analytics.marketing_report_schedules (next_run_at)
+  WHERE enabled;
+
+-- One row per generated report, scheduled or sent by hand. The schedule's
+-- name and dashboard are snapshotted so history survives deleting it.
+CREATE TABLE IF NOT EXISTS analytics.marketing_report_runs (
+  id BIGSERIAL PRIMARY KEY,
+  schedule_id UUID REFERENCES analytics.marketing_report_schedules (id) ON DELETE SET NULL,
+  schedule_name TEXT NOT NULL,
+  dashboard TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('delivered', 'partial', 'failed')),
+  formats TEXT[] NOT NULL DEFAULT '{}',
+  delivered_channels TEXT[] NOT NULL DEFAULT '{}',
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  storage_paths TEXT[] NOT NULL DEFAULT '{}',
+  section_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_report_runs_created
+  ON analytics.marketing_report_runs (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_marketing_report_runs_schedule
+  ON analytics.marketing_report_runs (schedule_id, created_at DESC);
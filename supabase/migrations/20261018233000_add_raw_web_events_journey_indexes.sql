@@ -0,0 +1,11 @@
+-- Visitor journey lookups for multi-touch attribution
+-- (services/multiTouchAttribution.ts): conversion events are matched to paid
+-- quotes by quote_id, then every event the converting visitor had in the
+-- lookback window is read in time order.
+CREATE INDEX IF NOT EXISTS idx_raw_web_events_visitor_occurred
+  ON analytics.raw_web_events (visitor_id, occurred_at)
+  WHERE visitor_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_raw_web_events_conversion_quote
+  ON analytics.raw_web_events ((COALESCE(event_data->>'quote_id', payload->>'quote_id')))
+  WHERE event_type = 'conversion';
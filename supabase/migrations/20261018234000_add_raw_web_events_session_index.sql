@@ -0,0 +1,6 @@
+-- Quote journey lookups (/api/activity-spine/marketing/qms/journey) also read
+-- every event of the session a quote was submitted in, for visitors whose
+-- conversion event arrived without a visitor_id.
+CREATE INDEX IF NOT EXISTS idx_raw_web_events_session
+  ON analytics.raw_web_events (session_id, occurred_at)
+  WHERE session_id IS NOT NULL;
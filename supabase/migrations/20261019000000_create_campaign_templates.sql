@@ -0,0 +1,60 @@
+-- Named Sales Engine campaign templates: ICP, contact targeting, outreach
+-- context and benchmark targets that the campaign wizard can start from.
+-- Written by /api/campaign-templates for the bootstrap user making the
+-- request. Scope 'user' templates are listed for their owner only; 'team'
+-- templates for everyone in the owner's bootstrap organization (team_id).
+--
+-- Template content is never edited in place: every change appends a row to
+-- core.campaign_template_versions and bumps current_version, so a campaign
+-- created from version N can be diffed against the latest version.
+CREATE TABLE IF NOT EXISTS core.campaign_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  scope TEXT NOT NULL DEFAULT 'team'
+    CHECK (scope IN ('user', 'team')),
+  current_version INTEGER NOT NULL DEFAULT 1,
+
+  owner_id TEXT NOT NULL,
+  owner_email TEXT,
+  team_id TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_owner
+  ON core.campaign_templates (owner_id)
+  WHERE deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_templates_team
+  ON core.campaign_templates (team_id)
+  WHERE scope = 'team' AND deleted_at IS NULL;
+
+-- content: { icp, contact_targeting, outreach_context, campaign_targets }
+-- (app/sales-engine/types/campaign-template.ts CampaignTemplateContent).
+-- source_campaign_id is set when the version was saved from a campaign.
+CREATE TABLE IF NOT EXISTS core.campaign_template_versions (
+  template_id UUID NOT NULL REFERENCES core.campaign_templates (id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  content JSONB NOT NULL,
+  change_note TEXT,
+  source_campaign_id UUID,
+  created_by TEXT NOT NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (template_id, version)
+);
+
+-- Which template version each campaign was created from. A link table rather
+-- than a column because core.campaigns is a canonical schema.
+CREATE TABLE IF NOT EXISTS core.campaign_template_usages (
+  campaign_id UUID PRIMARY KEY,
+  template_id UUID NOT NULL REFERENCES core.campaign_templates (id) ON DELETE CASCADE,
+  template_version INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_template_usages_template
+  ON core.campaign_template_usages (template_id);
@@ -0,0 +1,85 @@
+-- Sales Engine campaign review workflow: who reviews a campaign, how many
+-- approvals it needs, threaded reviewer comments and an append-only audit log
+-- of governance actions. Written by /api/campaign-reviews,
+-- /api/campaigns/:id/review/* and the /api/v1/campaigns/:id submit, approve
+-- and revert-to-draft routes. Link tables keyed by campaign_id rather than
+-- columns because core.campaigns is a canonical schema.
+--
+-- A review round starts each time a campaign is submitted. Approvals and
+-- change requests belong to a round, so resubmitting after changes starts
+-- the approval count again; comments keep their round for context.
+CREATE TABLE IF NOT EXISTS core.campaign_review_policies (
+  campaign_id UUID PRIMARY KEY,
+  required_approvals INTEGER NOT NULL DEFAULT 1
+    CHECK (required_approvals BETWEEN 1 AND 10),
+  review_round INTEGER NOT NULL DEFAULT 0,
+  updated_by TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Assigned reviewers, by email because there is no user directory to pick
+-- from. reviewer_id is filled in the first time the reviewer acts. When a
+-- campaign has assigned reviewers only they may approve or request changes.
+CREATE TABLE IF NOT EXISTS core.campaign_reviewers (
+  campaign_id UUID NOT NULL,
+  reviewer_email TEXT NOT NULL,
+  reviewer_id TEXT,
+  reviewer_name TEXT,
+  assigned_by TEXT NOT NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (campaign_id, reviewer_email)
+);
+
+-- field is a dotted path into the campaign (e.g. 'icp.keywords',
+-- 'outreach_context.tone'), or NULL for a general comment. parent_id threads
+-- replies; replies inherit the field of their parent.
+CREATE TABLE IF NOT EXISTS core.campaign_review_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL,
+  review_round INTEGER NOT NULL DEFAULT 0,
+  parent_id UUID REFERENCES core.campaign_review_comments (id) ON DELETE CASCADE,
+  field TEXT,
+  body TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  author_email TEXT,
+  author_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_review_comments_campaign
+  ON core.campaign_review_comments (campaign_id, created_at);
+
+-- One decision per reviewer per round; a reviewer who requested changes and
+-- then approves in the same round replaces their decision.
+CREATE TABLE IF NOT EXISTS core.campaign_review_decisions (
+  campaign_id UUID NOT NULL,
+  review_round INTEGER NOT NULL,
+  reviewer_id TEXT NOT NULL,
+  reviewer_email TEXT,
+  reviewer_name TEXT,
+  decision TEXT NOT NULL
+    CHECK (decision IN ('approved', 'changes_requested')),
+  reason TEXT,
+  decided_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (campaign_id, review_round, reviewer_id)
+);
+
+-- Append-only: rows are never updated or deleted.
+CREATE TABLE IF NOT EXISTS core.campaign_governance_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL,
+  action TEXT NOT NULL
+    CHECK (action IN (
+      'submitted', 'commented', 'approved', 'changes_requested', 'reverted',
+      'reviewer_assigned', 'reviewer_removed', 'policy_changed', 'activated'
+    )),
+  review_round INTEGER NOT NULL DEFAULT 0,
+  actor_id TEXT,
+  actor_email TEXT,
+  actor_name TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_governance_events_campaign
+  ON core.campaign_governance_events (campaign_id, created_at DESC);
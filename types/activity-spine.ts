@@ -225,6 +225,11 @@ export interface MarketingTimeseries {
   clicks: MarketingTimeseriesPoint[];
 }
 
+/**
+ * Coarse latest-day spike flags computed with the overview query. The
+ * Anomalies panel uses the seasonal band detector instead
+ * (MarketingAnomaliesResponse, /api/activity-spine/marketing/anomalies).
+ */
 export interface MarketingAnomalies {
   sessions_spike: boolean;
   submissions_spike: boolean;
@@ -487,10 +492,18 @@ export interface QMSTimeseries {
   won_revenue: QMSTimeseriesPoint[];
 }
 
+export interface QMSStageVelocity {
+  stage: string;
+  avg_days: number;
+  sample_size: number;
+}
+
 export interface QMSVelocity {
   avg_days_to_close: number;
   avg_days_to_deposit: number;
   sample_size: number;
+  /** Avg days per stage from completed transitions in the QMS event log. */
+  stage_durations?: QMSStageVelocity[];
 }
 
 export interface QMSStatusBreakdown {
@@ -545,6 +558,352 @@ export interface QMSAnalytics {
   timeseries?: QMSTimeseries;
 }
 
+// ============================================
+// Ingest Dead-Letter (Data Health)
+// ============================================
+
+export interface IngestRejectSummary {
+  endpoint: string;
+  rejects_24h: number;
+  rejects_7d: number;
+  last_rejected_at: string | null;
+  top_reason_7d: string | null;
+}
+
+export interface IngestRejectRow {
+  id: string;
+  endpoint: string;
+  reason: string;
+  field: string | null;
+  payload: unknown;
+  received_at: string;
+}
+
+export interface IngestRejectsResponse {
+  summary: IngestRejectSummary[];
+  recent: IngestRejectRow[];
+}
+
+// ============================================
+// Ingestion Runs & Freshness (Data Health)
+// ============================================
+
+export interface IngestionRunRow {
+  id: string;
+  source: string;
+  data_type: string | null;
+  status: string;
+  started_at: string;
+  completed_at: string | null;
+  date_range_start: string | null;
+  date_range_end: string | null;
+  records_processed: number;
+  records_failed: number;
+  duration_ms: number | null;
+  error_message: string | null;
+  backfill_id: string | null;
+}
+
+export interface FreshnessDay {
+  date: string;
+  rows: number;
+}
+
+export interface SourceFreshness {
+  source: string;
+  label: string;
+  /** False when the source table could not be read; days are then empty. */
+  available: boolean;
+  days: FreshnessDay[];
+  /** Dates in the window (excluding today) with zero rows. */
+  gap_dates: string[];
+  last_data_date: string | null;
+  yesterday_complete: boolean;
+}
+
+export interface IngestionHealthResponse {
+  runs: IngestionRunRow[];
+  freshness: SourceFreshness[];
+}
+
+// ============================================
+// Marketing Alerts
+// ============================================
+
+export interface MarketingAlertRuleSummary {
+  id: string;
+  name: string;
+  metric: string;
+  condition: 'threshold' | 'pct_change' | 'zscore';
+  operator: 'above' | 'below';
+  threshold: number;
+  window_days: number;
+  severity: 'critical' | 'warning' | 'info';
+  channels: string[];
+  cooldown_hours: number;
+  last_fired_at: string | null;
+  fired_30d: number;
+}
+
+export interface MarketingAlertEvent {
+  id: string;
+  rule_id: string;
+  rule_name: string;
+  metric: string;
+  severity: string;
+  observed: number | null;
+  threshold: number;
+  message: string;
+  window_start: string;
+  window_end: string;
+  delivery_status: string;
+  delivered_channels: string[];
+  delivery_errors: string | null;
+  fired_at: string;
+}
+
+export interface MarketingAlertsResponse {
+  rules: MarketingAlertRuleSummary[];
+  events: MarketingAlertEvent[];
+}
+
+// ============================================
+// Marketing Anomalies (seasonal bands)
+// ============================================
+
+export type MarketingAnomalyMetric =
+  | 'sessions'
+  | 'submissions'
+  | 'pipeline_value_usd'
+  | 'impressions'
+  | 'clicks'
+  | 'ads_spend'
+  | 'ads_clicks'
+  | 'ads_conversions';
+
+export type MarketingAnomalyDirection = 'spike' | 'drop';
+
+export type MarketingAnomalyDimension = 'channel' | 'landing_page' | 'campaign';
+
+export interface MarketingAnomalyBandPoint {
+  date: string;
+  /** null for days after the source's last loaded date (ingestion lag), not zero. */
+  value: number | null;
+  expected: number | null;
+  lower: number | null;
+  upper: number | null;
+  anomaly: MarketingAnomalyDirection | null;
+}
+
+export interface MarketingAnomalyDriver {
+  dimension: MarketingAnomalyDimension;
+  key: string;
+  value: number;
+  expected: number;
+  /** Fraction of the metric's deviation from expected explained by this key. */
+  share: number;
+}
+
+export interface MarketingAnomaly {
+  metric: MarketingAnomalyMetric;
+  label: string;
+  date: string;
+  direction: MarketingAnomalyDirection;
+  value: number;
+  expected: number;
+  lower: number;
+  upper: number;
+  z_score: number;
+  /** (value - expected) / expected; null when expected is zero. */
+  deviation_pct: number | null;
+  severity: 'high' | 'medium';
+  /** 'weekday' = same-weekday baseline; 'trailing' = all-days fallback for short history. */
+  baseline: 'weekday' | 'trailing';
+  driver: MarketingAnomalyDriver | null;
+}
+
+export interface MarketingAnomalySeries {
+  metric: MarketingAnomalyMetric;
+  label: string;
+  format: 'count' | 'usd';
+  points: MarketingAnomalyBandPoint[];
+  anomaly_count: number;
+}
+
+export interface MarketingAnomaliesResponse {
+  start: string;
+  end: string;
+  baseline_weeks: number;
+  series: MarketingAnomalySeries[];
+  /** Every anomalous day in the window, largest |z| first. */
+  anomalies: MarketingAnomaly[];
+}
+
+// ============================================
+// Marketing Experiments
+// ============================================
+
+export type MarketingExperimentMetric = Exclude<keyof Core4EngineMetrics, 'engine'>;
+
+export type MarketingExperimentDecision = 'keep' | 'revert' | 'iterate' | 'pending';
+
+export interface MarketingExperiment {
+  id: string;
+  name: string;
+  engine: string;
+  target_metric: MarketingExperimentMetric;
+  hypothesis: string;
+  change_made: string;
+  start_date: string;
+  end_date: string | null;
+  decision: MarketingExperimentDecision;
+  notes: string | null;
+  owner: string;
+  /** Percent change of target_metric vs the equal-length window before start_date. */
+  result_lift: number | null;
+  baseline_value: number | null;
+  experiment_value: number | null;
+  baseline_start: string | null;
+  baseline_end: string | null;
+  /** Last day included in the measurement (end_date, or yesterday while running). */
+  measured_end: string | null;
+  measured_at: string | null;
+  measurement_error: string | null;
+  created_by: string;
+  created_at: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+// ============================================
+// Marketing Targets
+// ============================================
+
+export type MarketingTargetMetric =
+  | 'sessions'
+  | 'submissions'
+  | 'pipeline_value_usd'
+  | 'impressions'
+  | 'clicks'
+  | 'roas'
+  | 'monthly_budget_usd'
+  | 'cpc_target_usd'
+  | 'ctr_target_pct';
+
+/** A stored target for one metric in one calendar month. */
+export interface MarketingTarget {
+  metric: MarketingTargetMetric;
+  /** First day of the month, YYYY-MM-01. */
+  month: string;
+  value: number;
+  updated_by: string;
+  updated_at: string;
+}
+
+export type MarketingSavedViewScope = 'user' | 'team';
+
+/** Comparison selector of the dashboard (GlobalFilters); 'prev' is prev_period. */
+export type MarketingViewComparisonMode = 'prev' | 'wow' | 'mom';
+
+export type MarketingFilterKey = 'channel' | 'campaign' | 'device' | 'geo' | 'landing_page';
+
+/** Everything a saved view restores: period, filters, comparison and sub-page. */
+export interface MarketingSavedViewState {
+  /** Marketing sub-page, e.g. /dashboard/marketing/seo. */
+  path: string;
+  period: {
+    mode: 'preset' | 'range';
+    preset: string;
+    start: string;
+    end: string;
+    compare: boolean;
+    include_timeseries: boolean;
+    view: 'operator' | 'executive';
+  };
+  comparison_mode: MarketingViewComparisonMode;
+  filters: Partial<Record<MarketingFilterKey, string>>;
+}
+
+/** A named dashboard state, personal (scope 'user') or shared with the team. */
+export interface MarketingSavedView {
+  id: string;
+  name: string;
+  scope: MarketingSavedViewScope;
+  state: MarketingSavedViewState;
+  /** Short link code, resolved at /dashboard/views/:slug. */
+  share_slug: string;
+  owner_id: string;
+  owner_email: string | null;
+  /** Whether this is the requesting user's default view. */
+  is_default: boolean;
+  /** Whether the requesting user owns (and may edit) the view. */
+  is_owner: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================
+// Marketing Scheduled Reports
+// ============================================
+
+export type MarketingReportDashboard = 'operator_hub' | 'core4' | 'warm_outreach' | 'seo_north_star';
+
+export type MarketingReportCadence = 'weekly' | 'monthly';
+
+export type MarketingReportFormat = 'pdf' | 'csv';
+
+export type MarketingReportDelivery = 'email' | 'storage';
+
+/** Resolved against the send date; every period ends on a complete day. */
+export type MarketingReportPeriod = 'previous_week' | 'previous_month' | 'last_7d' | 'last_30d' | 'last_90d' | 'month_to_date';
+
+export interface MarketingReportSchedule {
+  id: string;
+  name: string;
+  dashboard: MarketingReportDashboard;
+  period: MarketingReportPeriod;
+  cadence: MarketingReportCadence;
+  /** Weekly: UTC day of week, 0 = Sunday. */
+  weekday: number | null;
+  /** Monthly: UTC day of month, 1–28. */
+  day_of_month: number | null;
+  formats: MarketingReportFormat[];
+  delivery: MarketingReportDelivery[];
+  recipients: string[];
+  enabled: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type MarketingReportRunStatus = 'delivered' | 'partial' | 'failed';
+
+export interface MarketingReportRun {
+  id: string;
+  schedule_id: string | null;
+  schedule_name: string;
+  dashboard: MarketingReportDashboard;
+  trigger: 'schedule' | 'manual';
+  period_start: string;
+  period_end: string;
+  status: MarketingReportRunStatus;
+  formats: MarketingReportFormat[];
+  delivered_channels: MarketingReportDelivery[];
+  recipients: string[];
+  storage_paths: string[];
+  section_count: number;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+}
+
+export interface MarketingReportsResponse {
+  schedules: MarketingReportSchedule[];
+  runs: MarketingReportRun[];
+}
+
 // ============================================
 // Time Period Options
 // ============================================
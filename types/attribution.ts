@@ -283,3 +283,50 @@ export interface AttributionReviewSnapshotResponse {
     source: string;
   };
 }
+
+// =============================================================================
+// Multi-touch Attribution (computed by Platform Shell from raw_web_events)
+// =============================================================================
+
+export type AttributionModel = 'first_touch' | 'last_touch' | 'linear' | 'time_decay' | 'position_based';
+
+export interface MultiTouchChannelRow {
+  /** lib/attribution-models.ts ATTRIBUTION_CHANNELS */
+  channel: string;
+  /** Fractional: a quote split across three sessions credits 1/3 each under linear. */
+  credited_quotes: number;
+  paid_revenue_cents: number;
+  paid_revenue_usd: number;
+}
+
+export interface MultiTouchCoverage {
+  paid_quotes: number;
+  paid_revenue_cents: number;
+  /** Quotes linked to a visitor journey through a conversion event's quote_id. */
+  quotes_with_journey: number;
+  /** Quotes with no linked journey, credited whole to the raw_qms_deals UTM / click-ID channel. */
+  quotes_deal_fallback: number;
+  avg_touchpoints: number | null;
+}
+
+export interface MultiTouchAttribution {
+  models: Record<AttributionModel, MultiTouchChannelRow[]>;
+  coverage: MultiTouchCoverage;
+  settings: {
+    lookback_days: number;
+    time_decay_half_life_days: number;
+    position_based_weights: { first: number; middle: number; last: number };
+  };
+}
+
+export interface MultiTouchAttributionResponse {
+  data: MultiTouchAttribution | null;
+  meta: {
+    view: string;
+    window_start: string;
+    window_end: string;
+    lookback_days: number;
+    generated_at: string;
+    source: string;
+  };
+}